@@ -4,7 +4,14 @@ import superjson from 'superjson';
 
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      headers() {
+        const token = localStorage.getItem('token');
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      },
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
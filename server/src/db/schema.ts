@@ -8,14 +8,52 @@ import {
   boolean, 
   pgEnum,
   varchar,
-  jsonb
+  jsonb,
+  unique
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Enums
 export const userRoleEnum = pgEnum('user_role', ['admin', 'operator_produksi', 'operator_barging', 'auditor', 'viewer']);
 export const coalGradeEnum = pgEnum('coal_grade', ['high', 'medium', 'low']);
-export const adjustmentReasonEnum = pgEnum('adjustment_reason', ['manual_correction', 'waste', 'spillage', 'measurement_error', 'other']);
+export const adjustmentReasonEnum = pgEnum('adjustment_reason', ['manual_correction', 'waste', 'spillage', 'measurement_error', 'other', 'reconciliation']);
+export const adjustmentStatusEnum = pgEnum('adjustment_status', ['pending', 'applied', 'rejected']);
+export const stockMovementTypeEnum = pgEnum('stock_movement_type', ['production', 'barging', 'adjustment', 'transfer_out', 'transfer_in', 'opening_balance']);
+export const transferStatusEnum = pgEnum('transfer_status', ['in_transit', 'completed']);
+export const transportModeEnum = pgEnum('transport_mode', ['truck', 'barge']);
+export const tonnageSourceEnum = pgEnum('tonnage_source', ['manual', 'weighbridge']);
+export const productionEntryTypeEnum = pgEnum('production_entry_type', ['original', 'void', 'correction']);
+export const productionFlagRuleEnum = pgEnum('production_flag_rule', ['duplicate_truck', 'tonnage_out_of_range', 'future_timestamp', 'backdated']);
+export const productionFlagStatusEnum = pgEnum('production_flag_status', ['open', 'cleared', 'voided']);
+export const bargingEntryTypeEnum = pgEnum('barging_entry_type', ['original', 'void', 'correction']);
+export const shipmentStatusEnum = pgEnum('shipment_status', ['nominated', 'loading', 'completed', 'sailed']);
+export const laytimeTermsEnum = pgEnum('laytime_terms_type', ['shinc', 'shex']);
+export const laytimeEventTypeEnum = pgEnum('laytime_event_type', ['nor_tendered', 'berthed', 'loading_commenced', 'loading_completed', 'weather_stoppage']);
+export const draftSurveyStatusEnum = pgEnum('draft_survey_status', ['recorded', 'accepted']);
+export const qualityBasisEnum = pgEnum('quality_basis', ['adb', 'ar', 'gar', 'nar']);
+export const priceBasisEnum = pgEnum('price_basis', ['fob_barge', 'fob_vessel', 'cfr', 'cif']);
+export const weighbridgeTicketStatusEnum = pgEnum('weighbridge_ticket_status', ['pending', 'recorded']);
+export const permissionActionEnum = pgEnum('permission_action', [
+  'production.view',
+  'production.create',
+  'production.review',
+  'production.correct',
+  'barging.view',
+  'barging.create',
+  'barging.correct',
+  'stock.view',
+  'stock.adjust',
+  'stock.approve',
+  'stock.transfer',
+  'fuel.view',
+  'fuel.record',
+  'dashboard.view',
+  'reports.export',
+  'audit.view',
+  'quality.view',
+  'quality.record'
+]);
+export const sessionRevokeReasonEnum = pgEnum('session_revoke_reason', ['logout', 'logout_all', 'reuse_detected', 'user_deactivated', 'password_reset', 'two_factor_reset']);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -27,10 +65,69 @@ export const usersTable = pgTable('users', {
   role: userRoleEnum('role').notNull(),
   is_active: boolean('is_active').notNull().default(true),
   last_login: timestamp('last_login'),
+  failed_login_attempts: integer('failed_login_attempts').notNull().default(0),
+  last_failed_login_at: timestamp('last_failed_login_at'),
+  locked_until: timestamp('locked_until'),
+  must_change_password: boolean('must_change_password').notNull().default(false),
+  password_changed_at: timestamp('password_changed_at').defaultNow().notNull(),
+  two_factor_enabled: boolean('two_factor_enabled').notNull().default(false),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Password history table (previous hashes, checked to prevent password reuse)
+export const passwordHistoryTable = pgTable('password_history', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  password_hash: text('password_hash').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// TOTP credentials (one per user; confirmed_at stays null until the first code is verified)
+export const totpCredentialsTable = pgTable('totp_credentials', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().unique(),
+  secret: varchar('secret', { length: 64 }).notNull(), // Base32, as shown to the authenticator app
+  confirmed_at: timestamp('confirmed_at'),
+  last_used_step: integer('last_used_step'), // Time step of the last accepted code, to block replays
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Single-use recovery codes for users who lose their authenticator
+export const recoveryCodesTable = pgTable('recovery_codes', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  code_hash: varchar('code_hash', { length: 64 }).notNull(), // SHA-256 of the normalised code
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Login attempts table (used for per-IP throttling; user_id is null for unknown accounts)
+export const loginAttemptsTable = pgTable('login_attempts', {
+  id: serial('id').primaryKey(),
+  email: varchar('email', { length: 255 }).notNull(),
+  user_id: integer('user_id'),
+  ip_address: varchar('ip_address', { length: 45 }),
+  success: boolean('success').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Refresh tokens table (one row per issued token; rotated tokens share a family_id)
+export const refreshTokensTable = pgTable('refresh_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  family_id: varchar('family_id', { length: 36 }).notNull(),
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(), // SHA-256 of the token, never the token itself
+  expires_at: timestamp('expires_at').notNull(),
+  rotated_at: timestamp('rotated_at'),
+  revoked_at: timestamp('revoked_at'),
+  revoked_reason: sessionRevokeReasonEnum('revoked_reason'),
+  ip_address: varchar('ip_address', { length: 45 }),
+  user_agent: text('user_agent'),
+  session_started_at: timestamp('session_started_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
 // Jetties table
 export const jettiesTable = pgTable('jetties', {
   id: serial('id').primaryKey(),
@@ -42,6 +139,21 @@ export const jettiesTable = pgTable('jetties', {
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Stockpiles: the physical piles within a jetty. Every jetty has a DEFAULT stockpile that records
+// without an explicit stockpile go to.
+export const stockpilesTable = pgTable('stockpiles', {
+  id: serial('id').primaryKey(),
+  jetty_id: integer('jetty_id').notNull(),
+  code: varchar('code', { length: 50 }).notNull(),
+  capacity: numeric('capacity', { precision: 12, scale: 2 }).notNull(),
+  coal_grade: coalGradeEnum('coal_grade'), // The only grade the stockpile may hold; null allows any
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  unique('stockpile_jetty_code_unique').on(table.jetty_id, table.code)
+]);
+
 // Contractors table
 export const contractorsTable = pgTable('contractors', {
   id: serial('id').primaryKey(),
@@ -56,22 +168,167 @@ export const contractorsTable = pgTable('contractors', {
   deleted_at: timestamp('deleted_at')
 });
 
+// Trucks registry: each truck belongs to the contractor (haulier) that runs it
+export const trucksTable = pgTable('trucks', {
+  id: serial('id').primaryKey(),
+  plate_number: varchar('plate_number', { length: 20 }).notNull().unique(), // Normalised, see normalizePlate
+  contractor_id: integer('contractor_id').notNull(),
+  tare_weight: numeric('tare_weight', { precision: 12, scale: 2 }).notNull(), // Kilograms
+  capacity: numeric('capacity', { precision: 12, scale: 2 }).notNull(), // Tons of payload
+  is_active: boolean('is_active').notNull().default(true),
+  registration_expiry: timestamp('registration_expiry'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
 // Production records table
 export const productionRecordsTable = pgTable('production_records', {
   id: serial('id').primaryKey(),
   date_time: timestamp('date_time').notNull(),
   contractor_id: integer('contractor_id').notNull(),
   truck_number: varchar('truck_number', { length: 100 }).notNull(),
+  truck_id: integer('truck_id'), // Null for trucks that are not in the registry
   tonnage: numeric('tonnage', { precision: 12, scale: 2 }).notNull(),
   coal_grade: coalGradeEnum('coal_grade').notNull(),
   jetty_id: integer('jetty_id').notNull(),
+  stockpile_id: integer('stockpile_id').notNull(),
   document_photo: text('document_photo'),
   operator_id: integer('operator_id').notNull(),
   notes: text('notes'),
+  capacity_override_reason: text('capacity_override_reason'), // Set when intake was accepted past jetty capacity
+  tonnage_source: tonnageSourceEnum('tonnage_source').notNull().default('manual'), // Typed in, or net weight off a weighbridge ticket
+  ticket_number: varchar('ticket_number', { length: 100 }).unique(), // Weighbridge ticket the tonnage came from
+  // Records are never edited: a void is a compensating record with the negated tonnage, linked to the original.
+  // A correction is a void plus a correction record carrying the corrected values, both linked to the original.
+  entry_type: productionEntryTypeEnum('entry_type').notNull().default('original'),
+  compensates_id: integer('compensates_id'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Anomaly flags raised on production records when they are created, until an auditor clears or voids them
+export const productionFlagsTable = pgTable('production_flags', {
+  id: serial('id').primaryKey(),
+  production_record_id: integer('production_record_id').notNull(),
+  rule: productionFlagRuleEnum('rule').notNull(),
+  detail: text('detail').notNull(),
+  status: productionFlagStatusEnum('status').notNull().default('open'),
+  reviewed_by: integer('reviewed_by'),
+  reviewed_at: timestamp('reviewed_at'),
+  review_note: text('review_note'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Weighbridge tickets: gross/tare readings per truck. A ticket is recorded as production straight away when
+// it names the contractor, otherwise it waits as a pre-filled intake for an operator to complete.
+export const weighbridgeTicketsTable = pgTable('weighbridge_tickets', {
+  id: serial('id').primaryKey(),
+  ticket_number: varchar('ticket_number', { length: 100 }).notNull().unique(),
+  truck_number: varchar('truck_number', { length: 100 }).notNull(),
+  jetty_id: integer('jetty_id').notNull(),
+  stockpile_id: integer('stockpile_id'),
+  contractor_id: integer('contractor_id'),
+  coal_grade: coalGradeEnum('coal_grade'),
+  gross_weight: numeric('gross_weight', { precision: 12, scale: 2 }).notNull(), // Kilograms
+  tare_weight: numeric('tare_weight', { precision: 12, scale: 2 }).notNull(), // Kilograms
+  net_tonnage: numeric('net_tonnage', { precision: 12, scale: 2 }).notNull(),
+  weighed_at: timestamp('weighed_at').notNull(),
+  status: weighbridgeTicketStatusEnum('status').notNull().default('pending'),
+  pending_reason: text('pending_reason'), // Why a pending ticket could not be recorded yet
+  production_record_id: integer('production_record_id'),
+  raw_line: text('raw_line'), // Line as received from the weighbridge, when it came in that way
+  received_by: integer('received_by').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Buyers of the coal. The name key is the name without case, spaces or punctuation, so "PT. ABC" and
+// "PT Abc" are one buyer.
+export const buyersTable = pgTable('buyers', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  name_key: varchar('name_key', { length: 200 }).notNull().unique(),
+  country: text('country'),
+  contact_person: text('contact_person'),
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Sales contracts: a quantity to deliver to a buyer within a validity period, give or take the tolerance.
+// Quality specs are limits on the spec basis; null means the contract sets none.
+export const salesContractsTable = pgTable('sales_contracts', {
+  id: serial('id').primaryKey(),
+  buyer_id: integer('buyer_id').notNull(),
+  contract_number: varchar('contract_number', { length: 100 }).notNull().unique(),
+  total_quantity: numeric('total_quantity', { precision: 12, scale: 2 }).notNull(), // Tons
+  tolerance_percent: numeric('tolerance_percent', { precision: 5, scale: 2 }).notNull(), // Plus or minus
+  price_basis: priceBasisEnum('price_basis').notNull(),
+  price_per_ton: numeric('price_per_ton', { precision: 12, scale: 2 }), // USD; null for index-linked prices
+  spec_basis: qualityBasisEnum('spec_basis').notNull().default('gar'),
+  min_calorific_value: numeric('min_calorific_value', { precision: 8, scale: 2 }), // kcal/kg
+  max_total_moisture: numeric('max_total_moisture', { precision: 5, scale: 2 }), // Percent
+  max_ash: numeric('max_ash', { precision: 5, scale: 2 }),
+  max_sulphur: numeric('max_sulphur', { precision: 5, scale: 3 }),
+  valid_from: timestamp('valid_from').notNull(),
+  valid_to: timestamp('valid_to').notNull(),
+  notes: text('notes'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Vessels: the mother vessels barges are loaded onto
+export const vesselsTable = pgTable('vessels', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  imo_number: varchar('imo_number', { length: 7 }).notNull().unique(), // Seven digits, without the "IMO" prefix
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Shipments: one vessel call loading a nominated quantity, usually from many barge loads over several days
+export const shipmentsTable = pgTable('shipments', {
+  id: serial('id').primaryKey(),
+  vessel_id: integer('vessel_id').notNull(),
+  buyer: text('buyer').notNull(),
+  destination_port: text('destination_port').notNull(),
+  laycan_start: timestamp('laycan_start').notNull(),
+  laycan_end: timestamp('laycan_end').notNull(),
+  nominated_quantity: numeric('nominated_quantity', { precision: 12, scale: 2 }).notNull(), // Tons
+  status: shipmentStatusEnum('status').notNull().default('nominated'),
+  contract_id: integer('contract_id'), // The sales contract the cargo is sold under, when known
+  notes: text('notes'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Charter party laytime terms of a shipment. Rates are per day; SHEX excludes Sundays from laytime, SHINC counts them.
+export const laytimeTermsTable = pgTable('laytime_terms', {
+  id: serial('id').primaryKey(),
+  shipment_id: integer('shipment_id').notNull().unique(),
+  loading_rate: numeric('loading_rate', { precision: 12, scale: 2 }).notNull(), // Tons per day
+  terms: laytimeTermsEnum('terms').notNull(),
+  turn_time_hours: numeric('turn_time_hours', { precision: 6, scale: 2 }).notNull(), // After NOR, before laytime counts
+  demurrage_rate: numeric('demurrage_rate', { precision: 12, scale: 2 }).notNull(), // USD per day
+  despatch_rate: numeric('despatch_rate', { precision: 12, scale: 2 }).notNull(), // USD per day
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Statement of facts: the times laytime is calculated from. Each milestone is recorded once per shipment;
+// weather stoppages are periods, from occurred_at to ended_at.
+export const laytimeEventsTable = pgTable('laytime_events', {
+  id: serial('id').primaryKey(),
+  shipment_id: integer('shipment_id').notNull(),
+  event: laytimeEventTypeEnum('event').notNull(),
+  occurred_at: timestamp('occurred_at').notNull(),
+  ended_at: timestamp('ended_at'),
+  remarks: text('remarks'),
+  recorded_by: integer('recorded_by').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
 // Barging records table
 export const bargingRecordsTable = pgTable('barging_records', {
   id: serial('id').primaryKey(),
@@ -79,11 +336,18 @@ export const bargingRecordsTable = pgTable('barging_records', {
   contractor_id: integer('contractor_id').notNull(),
   ship_batch_number: varchar('ship_batch_number', { length: 100 }).notNull(),
   tonnage: numeric('tonnage', { precision: 12, scale: 2 }).notNull(),
+  coal_grade: coalGradeEnum('coal_grade').notNull(),
   jetty_id: integer('jetty_id').notNull(),
+  stockpile_id: integer('stockpile_id').notNull(),
   buyer: text('buyer'),
   loading_document: text('loading_document'),
   operator_id: integer('operator_id').notNull(),
   notes: text('notes'),
+  // Voided and corrected like production records, through compensating records
+  entry_type: bargingEntryTypeEnum('entry_type').notNull().default('original'),
+  compensates_id: integer('compensates_id'),
+  shipment_id: integer('shipment_id'), // The vessel shipment the barge load went to, when known
+  contract_id: integer('contract_id'), // The sales contract the load is delivered under, when known
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -93,12 +357,17 @@ export const stockTable = pgTable('stock', {
   id: serial('id').primaryKey(),
   contractor_id: integer('contractor_id').notNull(),
   jetty_id: integer('jetty_id').notNull(),
+  stockpile_id: integer('stockpile_id').notNull(), // Always a stockpile of jetty_id
+  coal_grade: coalGradeEnum('coal_grade').notNull(),
   tonnage: numeric('tonnage', { precision: 12, scale: 2 }).notNull().default('0'),
   last_updated: timestamp('last_updated').defaultNow().notNull(),
   version: integer('version').notNull().default(1), // For optimistic locking
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
-});
+}, (table) => [
+  // One stock row per contractor, stockpile and grade, so concurrent first intakes cannot create two
+  unique('stock_contractor_stockpile_grade_unique').on(table.contractor_id, table.stockpile_id, table.coal_grade)
+]);
 
 // Stock adjustments table
 export const stockAdjustmentsTable = pgTable('stock_adjustments', {
@@ -112,8 +381,137 @@ export const stockAdjustmentsTable = pgTable('stock_adjustments', {
   reason_description: text('reason_description').notNull(),
   reference_document: text('reference_document'),
   attachment: text('attachment'),
-  approved_by: integer('approved_by'),
+  // Adjustments made before maker-checker were applied immediately, hence the default
+  status: adjustmentStatusEnum('status').notNull().default('applied'),
+  required_approvals: integer('required_approvals').notNull().default(0),
+  approved_by: integer('approved_by'), // Final approver, set when the adjustment is applied
   approved_at: timestamp('approved_at'),
+  rejected_by: integer('rejected_by'),
+  rejected_at: timestamp('rejected_at'),
+  rejection_reason: text('rejection_reason'),
+  survey_id: integer('survey_id'), // Set when the adjustment was proposed by a stockpile survey
+  draft_survey_id: integer('draft_survey_id'), // Set when the adjustment was posted from an accepted draft survey
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Stockpile surveys (drone/volumetric): the measured tonnage against the book balance at the survey time
+export const stockpileSurveysTable = pgTable('stockpile_surveys', {
+  id: serial('id').primaryKey(),
+  jetty_id: integer('jetty_id').notNull(),
+  stockpile_id: integer('stockpile_id').notNull(),
+  surveyed_at: timestamp('surveyed_at').notNull(),
+  measured_volume: numeric('measured_volume', { precision: 14, scale: 2 }).notNull(), // Cubic metres
+  bulk_density: numeric('bulk_density', { precision: 6, scale: 3 }).notNull(), // Tonnes per cubic metre
+  surveyed_tonnage: numeric('surveyed_tonnage', { precision: 12, scale: 2 }).notNull(),
+  book_tonnage: numeric('book_tonnage', { precision: 12, scale: 2 }).notNull(),
+  variance: numeric('variance', { precision: 12, scale: 2 }).notNull(), // Surveyed minus book
+  attachment: text('attachment'),
+  notes: text('notes'),
+  created_by: integer('created_by').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Laboratory analyses of a sample taken from one production record, stockpile or shipment. Results are on the
+// basis the lab reported them (air dried, as received, gross or net as received) and only compare on the same basis.
+export const qualitySamplesTable = pgTable('quality_samples', {
+  id: serial('id').primaryKey(),
+  production_record_id: integer('production_record_id'),
+  stockpile_id: integer('stockpile_id'),
+  shipment_id: integer('shipment_id'),
+  lab: text('lab').notNull(),
+  sample_number: varchar('sample_number', { length: 100 }), // The lab's own reference
+  sampled_at: timestamp('sampled_at').notNull(),
+  basis: qualityBasisEnum('basis').notNull(),
+  calorific_value: numeric('calorific_value', { precision: 8, scale: 2 }).notNull(), // kcal/kg
+  total_moisture: numeric('total_moisture', { precision: 5, scale: 2 }), // Percent
+  ash: numeric('ash', { precision: 5, scale: 2 }), // Percent
+  sulphur: numeric('sulphur', { precision: 5, scale: 3 }), // Total sulphur, percent
+  hgi: numeric('hgi', { precision: 5, scale: 1 }), // Hardgrove grindability index
+  notes: text('notes'),
+  recorded_by: integer('recorded_by').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Draft surveys of a barge (by batch number) or a whole shipment. Displacement is read from the vessel's
+// hydrostatic tables at the mean draft (sea water, 1.025) and corrected for the dock water density; the
+// cargo is the final less the initial displacement, each net of deductibles (ballast, fresh water, bunkers).
+export const draftSurveysTable = pgTable('draft_surveys', {
+  id: serial('id').primaryKey(),
+  shipment_id: integer('shipment_id'),
+  ship_batch_number: varchar('ship_batch_number', { length: 100 }),
+  surveyed_at: timestamp('surveyed_at').notNull(),
+  initial_draft_fore: numeric('initial_draft_fore', { precision: 6, scale: 3 }).notNull(), // Metres
+  initial_draft_mid: numeric('initial_draft_mid', { precision: 6, scale: 3 }).notNull(),
+  initial_draft_aft: numeric('initial_draft_aft', { precision: 6, scale: 3 }).notNull(),
+  initial_table_displacement: numeric('initial_table_displacement', { precision: 12, scale: 2 }).notNull(), // Tons
+  initial_density: numeric('initial_density', { precision: 6, scale: 4 }).notNull(), // Tonnes per cubic metre
+  initial_deductibles: numeric('initial_deductibles', { precision: 12, scale: 2 }).notNull(),
+  initial_displacement: numeric('initial_displacement', { precision: 12, scale: 2 }).notNull(), // Density corrected
+  final_draft_fore: numeric('final_draft_fore', { precision: 6, scale: 3 }).notNull(),
+  final_draft_mid: numeric('final_draft_mid', { precision: 6, scale: 3 }).notNull(),
+  final_draft_aft: numeric('final_draft_aft', { precision: 6, scale: 3 }).notNull(),
+  final_table_displacement: numeric('final_table_displacement', { precision: 12, scale: 2 }).notNull(),
+  final_density: numeric('final_density', { precision: 6, scale: 4 }).notNull(),
+  final_deductibles: numeric('final_deductibles', { precision: 12, scale: 2 }).notNull(),
+  final_displacement: numeric('final_displacement', { precision: 12, scale: 2 }).notNull(),
+  cargo_weight: numeric('cargo_weight', { precision: 12, scale: 2 }).notNull(),
+  barged_tonnage: numeric('barged_tonnage', { precision: 12, scale: 2 }).notNull(), // Linked barge loads, net of voids and corrections
+  variance: numeric('variance', { precision: 12, scale: 2 }).notNull(), // Cargo weight minus barged tonnage
+  status: draftSurveyStatusEnum('status').notNull().default('recorded'),
+  accepted_by: integer('accepted_by'),
+  accepted_at: timestamp('accepted_at'),
+  attachment: text('attachment'),
+  notes: text('notes'),
+  created_by: integer('created_by').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Stock movements ledger (immutable): one signed row per change to a stock row, in posting order
+export const stockMovementsTable = pgTable('stock_movements', {
+  id: serial('id').primaryKey(),
+  stock_id: integer('stock_id').notNull(),
+  contractor_id: integer('contractor_id').notNull(),
+  jetty_id: integer('jetty_id').notNull(),
+  stockpile_id: integer('stockpile_id').notNull(),
+  coal_grade: coalGradeEnum('coal_grade').notNull(),
+  movement_type: stockMovementTypeEnum('movement_type').notNull(),
+  reference_id: integer('reference_id'), // Production/barging record, adjustment or transfer that caused the movement
+  change: numeric('change', { precision: 12, scale: 2 }).notNull(),
+  balance_after: numeric('balance_after', { precision: 12, scale: 2 }).notNull(),
+  occurred_at: timestamp('occurred_at').notNull(), // Business time of the movement, used for point-in-time balances
+  created_by: integer('created_by').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Stock moved between jetties or contractor accounts. Debited from the source when dispatched and
+// credited to the destination on arrival; a move within one jetty arrives immediately.
+export const stockTransfersTable = pgTable('stock_transfers', {
+  id: serial('id').primaryKey(),
+  source_contractor_id: integer('source_contractor_id').notNull(),
+  source_jetty_id: integer('source_jetty_id').notNull(),
+  source_stockpile_id: integer('source_stockpile_id').notNull(),
+  destination_contractor_id: integer('destination_contractor_id').notNull(),
+  destination_jetty_id: integer('destination_jetty_id').notNull(),
+  destination_stockpile_id: integer('destination_stockpile_id').notNull(),
+  coal_grade: coalGradeEnum('coal_grade').notNull(),
+  tonnage: numeric('tonnage', { precision: 12, scale: 2 }).notNull(),
+  transport_mode: transportModeEnum('transport_mode'), // Null for transfers between accounts at one jetty
+  transport_reference: text('transport_reference'), // Truck numbers or barge name
+  status: transferStatusEnum('status').notNull(),
+  dispatched_at: timestamp('dispatched_at').notNull(),
+  received_at: timestamp('received_at'),
+  created_by: integer('created_by').notNull(),
+  received_by: integer('received_by'),
+  notes: text('notes'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Individual approvals of a pending stock adjustment (one per approver)
+export const stockAdjustmentApprovalsTable = pgTable('stock_adjustment_approvals', {
+  id: serial('id').primaryKey(),
+  adjustment_id: integer('adjustment_id').notNull(),
+  approved_by: integer('approved_by').notNull(),
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
@@ -146,6 +544,18 @@ export const fuelUsageTable = pgTable('fuel_usage', {
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Permission grants (an action for a user, optionally limited to one jetty and/or contractor; null means any)
+export const permissionGrantsTable = pgTable('permission_grants', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  action: permissionActionEnum('action').notNull(),
+  jetty_id: integer('jetty_id'),
+  contractor_id: integer('contractor_id'),
+  granted_by: integer('granted_by').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
 // Audit log table (immutable)
 export const auditLogTable = pgTable('audit_log', {
   id: serial('id').primaryKey(),
@@ -161,28 +571,106 @@ export const auditLogTable = pgTable('audit_log', {
 });
 
 // Relations
-export const usersRelations = relations(usersTable, ({ many }) => ({
+export const usersRelations = relations(usersTable, ({ one, many }) => ({
   productionRecords: many(productionRecordsTable),
   bargingRecords: many(bargingRecordsTable),
   stockAdjustments: many(stockAdjustmentsTable),
   fuelPurchases: many(fuelPurchasesTable),
   fuelUsage: many(fuelUsageTable),
-  auditLogs: many(auditLogTable)
+  auditLogs: many(auditLogTable),
+  refreshTokens: many(refreshTokensTable),
+  loginAttempts: many(loginAttemptsTable),
+  passwordHistory: many(passwordHistoryTable),
+  totpCredential: one(totpCredentialsTable),
+  recoveryCodes: many(recoveryCodesTable),
+  permissionGrants: many(permissionGrantsTable)
+}));
+
+export const permissionGrantsRelations = relations(permissionGrantsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [permissionGrantsTable.user_id],
+    references: [usersTable.id]
+  }),
+  jetty: one(jettiesTable, {
+    fields: [permissionGrantsTable.jetty_id],
+    references: [jettiesTable.id]
+  }),
+  contractor: one(contractorsTable, {
+    fields: [permissionGrantsTable.contractor_id],
+    references: [contractorsTable.id]
+  })
+}));
+
+export const totpCredentialsRelations = relations(totpCredentialsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [totpCredentialsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const recoveryCodesRelations = relations(recoveryCodesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [recoveryCodesTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const passwordHistoryRelations = relations(passwordHistoryTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [passwordHistoryTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const loginAttemptsRelations = relations(loginAttemptsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [loginAttemptsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const refreshTokensRelations = relations(refreshTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [refreshTokensTable.user_id],
+    references: [usersTable.id]
+  })
 }));
 
 export const jettiesRelations = relations(jettiesTable, ({ many }) => ({
+  stockpiles: many(stockpilesTable),
   productionRecords: many(productionRecordsTable),
   bargingRecords: many(bargingRecordsTable),
   stock: many(stockTable),
   fuelPurchases: many(fuelPurchasesTable)
 }));
 
+export const stockpilesRelations = relations(stockpilesTable, ({ one, many }) => ({
+  jetty: one(jettiesTable, {
+    fields: [stockpilesTable.jetty_id],
+    references: [jettiesTable.id]
+  }),
+  productionRecords: many(productionRecordsTable),
+  bargingRecords: many(bargingRecordsTable),
+  stock: many(stockTable),
+  surveys: many(stockpileSurveysTable),
+  qualitySamples: many(qualitySamplesTable)
+}));
+
 export const contractorsRelations = relations(contractorsTable, ({ many }) => ({
+  trucks: many(trucksTable),
   productionRecords: many(productionRecordsTable),
   bargingRecords: many(bargingRecordsTable),
   stock: many(stockTable)
 }));
 
+export const trucksRelations = relations(trucksTable, ({ one, many }) => ({
+  contractor: one(contractorsTable, {
+    fields: [trucksTable.contractor_id],
+    references: [contractorsTable.id]
+  }),
+  productionRecords: many(productionRecordsTable)
+}));
+
 export const productionRecordsRelations = relations(productionRecordsTable, ({ one, many }) => ({
   contractor: one(contractorsTable, {
     fields: [productionRecordsTable.contractor_id],
@@ -192,11 +680,59 @@ export const productionRecordsRelations = relations(productionRecordsTable, ({ o
     fields: [productionRecordsTable.jetty_id],
     references: [jettiesTable.id]
   }),
+  stockpile: one(stockpilesTable, {
+    fields: [productionRecordsTable.stockpile_id],
+    references: [stockpilesTable.id]
+  }),
+  truck: one(trucksTable, {
+    fields: [productionRecordsTable.truck_id],
+    references: [trucksTable.id]
+  }),
+  compensates: one(productionRecordsTable, {
+    fields: [productionRecordsTable.compensates_id],
+    references: [productionRecordsTable.id]
+  }),
+  flags: many(productionFlagsTable),
   operator: one(usersTable, {
     fields: [productionRecordsTable.operator_id],
     references: [usersTable.id]
   }),
-  fuelUsage: many(fuelUsageTable)
+  fuelUsage: many(fuelUsageTable),
+  qualitySamples: many(qualitySamplesTable)
+}));
+
+export const productionFlagsRelations = relations(productionFlagsTable, ({ one }) => ({
+  productionRecord: one(productionRecordsTable, {
+    fields: [productionFlagsTable.production_record_id],
+    references: [productionRecordsTable.id]
+  }),
+  reviewedBy: one(usersTable, {
+    fields: [productionFlagsTable.reviewed_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const weighbridgeTicketsRelations = relations(weighbridgeTicketsTable, ({ one }) => ({
+  jetty: one(jettiesTable, {
+    fields: [weighbridgeTicketsTable.jetty_id],
+    references: [jettiesTable.id]
+  }),
+  stockpile: one(stockpilesTable, {
+    fields: [weighbridgeTicketsTable.stockpile_id],
+    references: [stockpilesTable.id]
+  }),
+  contractor: one(contractorsTable, {
+    fields: [weighbridgeTicketsTable.contractor_id],
+    references: [contractorsTable.id]
+  }),
+  productionRecord: one(productionRecordsTable, {
+    fields: [weighbridgeTicketsTable.production_record_id],
+    references: [productionRecordsTable.id]
+  }),
+  receivedBy: one(usersTable, {
+    fields: [weighbridgeTicketsTable.received_by],
+    references: [usersTable.id]
+  })
 }));
 
 export const bargingRecordsRelations = relations(bargingRecordsTable, ({ one }) => ({
@@ -208,12 +744,79 @@ export const bargingRecordsRelations = relations(bargingRecordsTable, ({ one })
     fields: [bargingRecordsTable.jetty_id],
     references: [jettiesTable.id]
   }),
+  stockpile: one(stockpilesTable, {
+    fields: [bargingRecordsTable.stockpile_id],
+    references: [stockpilesTable.id]
+  }),
+  compensates: one(bargingRecordsTable, {
+    fields: [bargingRecordsTable.compensates_id],
+    references: [bargingRecordsTable.id]
+  }),
+  shipment: one(shipmentsTable, {
+    fields: [bargingRecordsTable.shipment_id],
+    references: [shipmentsTable.id]
+  }),
+  contract: one(salesContractsTable, {
+    fields: [bargingRecordsTable.contract_id],
+    references: [salesContractsTable.id]
+  }),
   operator: one(usersTable, {
     fields: [bargingRecordsTable.operator_id],
     references: [usersTable.id]
   })
 }));
 
+export const buyersRelations = relations(buyersTable, ({ many }) => ({
+  contracts: many(salesContractsTable)
+}));
+
+export const salesContractsRelations = relations(salesContractsTable, ({ one, many }) => ({
+  buyer: one(buyersTable, {
+    fields: [salesContractsTable.buyer_id],
+    references: [buyersTable.id]
+  }),
+  shipments: many(shipmentsTable),
+  bargingRecords: many(bargingRecordsTable)
+}));
+
+export const vesselsRelations = relations(vesselsTable, ({ many }) => ({
+  shipments: many(shipmentsTable)
+}));
+
+export const shipmentsRelations = relations(shipmentsTable, ({ one, many }) => ({
+  vessel: one(vesselsTable, {
+    fields: [shipmentsTable.vessel_id],
+    references: [vesselsTable.id]
+  }),
+  contract: one(salesContractsTable, {
+    fields: [shipmentsTable.contract_id],
+    references: [salesContractsTable.id]
+  }),
+  laytimeTerms: one(laytimeTermsTable),
+  laytimeEvents: many(laytimeEventsTable),
+  bargingRecords: many(bargingRecordsTable),
+  draftSurveys: many(draftSurveysTable),
+  qualitySamples: many(qualitySamplesTable)
+}));
+
+export const laytimeTermsRelations = relations(laytimeTermsTable, ({ one }) => ({
+  shipment: one(shipmentsTable, {
+    fields: [laytimeTermsTable.shipment_id],
+    references: [shipmentsTable.id]
+  })
+}));
+
+export const laytimeEventsRelations = relations(laytimeEventsTable, ({ one }) => ({
+  shipment: one(shipmentsTable, {
+    fields: [laytimeEventsTable.shipment_id],
+    references: [shipmentsTable.id]
+  }),
+  recordedBy: one(usersTable, {
+    fields: [laytimeEventsTable.recorded_by],
+    references: [usersTable.id]
+  })
+}));
+
 export const stockRelations = relations(stockTable, ({ one, many }) => ({
   contractor: one(contractorsTable, {
     fields: [stockTable.contractor_id],
@@ -223,10 +826,38 @@ export const stockRelations = relations(stockTable, ({ one, many }) => ({
     fields: [stockTable.jetty_id],
     references: [jettiesTable.id]
   }),
-  adjustments: many(stockAdjustmentsTable)
+  stockpile: one(stockpilesTable, {
+    fields: [stockTable.stockpile_id],
+    references: [stockpilesTable.id]
+  }),
+  adjustments: many(stockAdjustmentsTable),
+  movements: many(stockMovementsTable)
+}));
+
+export const stockMovementsRelations = relations(stockMovementsTable, ({ one }) => ({
+  stock: one(stockTable, {
+    fields: [stockMovementsTable.stock_id],
+    references: [stockTable.id]
+  }),
+  contractor: one(contractorsTable, {
+    fields: [stockMovementsTable.contractor_id],
+    references: [contractorsTable.id]
+  }),
+  jetty: one(jettiesTable, {
+    fields: [stockMovementsTable.jetty_id],
+    references: [jettiesTable.id]
+  }),
+  stockpile: one(stockpilesTable, {
+    fields: [stockMovementsTable.stockpile_id],
+    references: [stockpilesTable.id]
+  }),
+  createdBy: one(usersTable, {
+    fields: [stockMovementsTable.created_by],
+    references: [usersTable.id]
+  })
 }));
 
-export const stockAdjustmentsRelations = relations(stockAdjustmentsTable, ({ one }) => ({
+export const stockAdjustmentsRelations = relations(stockAdjustmentsTable, ({ one, many }) => ({
   stock: one(stockTable, {
     fields: [stockAdjustmentsTable.stock_id],
     references: [stockTable.id]
@@ -238,6 +869,116 @@ export const stockAdjustmentsRelations = relations(stockAdjustmentsTable, ({ one
   approvedBy: one(usersTable, {
     fields: [stockAdjustmentsTable.approved_by],
     references: [usersTable.id]
+  }),
+  rejectedBy: one(usersTable, {
+    fields: [stockAdjustmentsTable.rejected_by],
+    references: [usersTable.id]
+  }),
+  survey: one(stockpileSurveysTable, {
+    fields: [stockAdjustmentsTable.survey_id],
+    references: [stockpileSurveysTable.id]
+  }),
+  draftSurvey: one(draftSurveysTable, {
+    fields: [stockAdjustmentsTable.draft_survey_id],
+    references: [draftSurveysTable.id]
+  }),
+  approvals: many(stockAdjustmentApprovalsTable)
+}));
+
+export const stockpileSurveysRelations = relations(stockpileSurveysTable, ({ one, many }) => ({
+  jetty: one(jettiesTable, {
+    fields: [stockpileSurveysTable.jetty_id],
+    references: [jettiesTable.id]
+  }),
+  stockpile: one(stockpilesTable, {
+    fields: [stockpileSurveysTable.stockpile_id],
+    references: [stockpilesTable.id]
+  }),
+  createdBy: one(usersTable, {
+    fields: [stockpileSurveysTable.created_by],
+    references: [usersTable.id]
+  }),
+  adjustments: many(stockAdjustmentsTable)
+}));
+
+export const qualitySamplesRelations = relations(qualitySamplesTable, ({ one }) => ({
+  productionRecord: one(productionRecordsTable, {
+    fields: [qualitySamplesTable.production_record_id],
+    references: [productionRecordsTable.id]
+  }),
+  stockpile: one(stockpilesTable, {
+    fields: [qualitySamplesTable.stockpile_id],
+    references: [stockpilesTable.id]
+  }),
+  shipment: one(shipmentsTable, {
+    fields: [qualitySamplesTable.shipment_id],
+    references: [shipmentsTable.id]
+  }),
+  recordedBy: one(usersTable, {
+    fields: [qualitySamplesTable.recorded_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const draftSurveysRelations = relations(draftSurveysTable, ({ one, many }) => ({
+  shipment: one(shipmentsTable, {
+    fields: [draftSurveysTable.shipment_id],
+    references: [shipmentsTable.id]
+  }),
+  createdBy: one(usersTable, {
+    fields: [draftSurveysTable.created_by],
+    references: [usersTable.id]
+  }),
+  acceptedBy: one(usersTable, {
+    fields: [draftSurveysTable.accepted_by],
+    references: [usersTable.id]
+  }),
+  adjustments: many(stockAdjustmentsTable)
+}));
+
+export const stockAdjustmentApprovalsRelations = relations(stockAdjustmentApprovalsTable, ({ one }) => ({
+  adjustment: one(stockAdjustmentsTable, {
+    fields: [stockAdjustmentApprovalsTable.adjustment_id],
+    references: [stockAdjustmentsTable.id]
+  }),
+  approvedBy: one(usersTable, {
+    fields: [stockAdjustmentApprovalsTable.approved_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const stockTransfersRelations = relations(stockTransfersTable, ({ one }) => ({
+  sourceContractor: one(contractorsTable, {
+    fields: [stockTransfersTable.source_contractor_id],
+    references: [contractorsTable.id]
+  }),
+  sourceJetty: one(jettiesTable, {
+    fields: [stockTransfersTable.source_jetty_id],
+    references: [jettiesTable.id]
+  }),
+  sourceStockpile: one(stockpilesTable, {
+    fields: [stockTransfersTable.source_stockpile_id],
+    references: [stockpilesTable.id]
+  }),
+  destinationContractor: one(contractorsTable, {
+    fields: [stockTransfersTable.destination_contractor_id],
+    references: [contractorsTable.id]
+  }),
+  destinationJetty: one(jettiesTable, {
+    fields: [stockTransfersTable.destination_jetty_id],
+    references: [jettiesTable.id]
+  }),
+  destinationStockpile: one(stockpilesTable, {
+    fields: [stockTransfersTable.destination_stockpile_id],
+    references: [stockpilesTable.id]
+  }),
+  createdBy: one(usersTable, {
+    fields: [stockTransfersTable.created_by],
+    references: [usersTable.id]
+  }),
+  receivedBy: one(usersTable, {
+    fields: [stockTransfersTable.received_by],
+    references: [usersTable.id]
   })
 }));
 
@@ -273,14 +1014,36 @@ export const auditLogRelations = relations(auditLogTable, ({ one }) => ({
 // Export all tables for use in handlers
 export const tables = {
   users: usersTable,
+  refreshTokens: refreshTokensTable,
+  loginAttempts: loginAttemptsTable,
+  passwordHistory: passwordHistoryTable,
+  totpCredentials: totpCredentialsTable,
+  recoveryCodes: recoveryCodesTable,
   jetties: jettiesTable,
+  stockpiles: stockpilesTable,
   contractors: contractorsTable,
+  trucks: trucksTable,
   productionRecords: productionRecordsTable,
+  productionFlags: productionFlagsTable,
+  weighbridgeTickets: weighbridgeTicketsTable,
+  buyers: buyersTable,
+  salesContracts: salesContractsTable,
+  vessels: vesselsTable,
+  shipments: shipmentsTable,
+  laytimeTerms: laytimeTermsTable,
+  laytimeEvents: laytimeEventsTable,
   bargingRecords: bargingRecordsTable,
   stock: stockTable,
   stockAdjustments: stockAdjustmentsTable,
+  stockAdjustmentApprovals: stockAdjustmentApprovalsTable,
+  stockpileSurveys: stockpileSurveysTable,
+  draftSurveys: draftSurveysTable,
+  qualitySamples: qualitySamplesTable,
+  stockMovements: stockMovementsTable,
+  stockTransfers: stockTransfersTable,
   fuelPurchases: fuelPurchasesTable,
   fuelUsage: fuelUsageTable,
+  permissionGrants: permissionGrantsTable,
   auditLog: auditLogTable
 };
 
@@ -288,15 +1051,60 @@ export const tables = {
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
 
+export type PasswordHistory = typeof passwordHistoryTable.$inferSelect;
+export type NewPasswordHistory = typeof passwordHistoryTable.$inferInsert;
+
+export type TotpCredential = typeof totpCredentialsTable.$inferSelect;
+export type NewTotpCredential = typeof totpCredentialsTable.$inferInsert;
+
+export type RecoveryCode = typeof recoveryCodesTable.$inferSelect;
+export type NewRecoveryCode = typeof recoveryCodesTable.$inferInsert;
+
+export type LoginAttempt = typeof loginAttemptsTable.$inferSelect;
+export type NewLoginAttempt = typeof loginAttemptsTable.$inferInsert;
+
+export type RefreshToken = typeof refreshTokensTable.$inferSelect;
+export type NewRefreshToken = typeof refreshTokensTable.$inferInsert;
+
 export type Jetty = typeof jettiesTable.$inferSelect;
 export type NewJetty = typeof jettiesTable.$inferInsert;
 
+export type Stockpile = typeof stockpilesTable.$inferSelect;
+export type NewStockpile = typeof stockpilesTable.$inferInsert;
+
 export type Contractor = typeof contractorsTable.$inferSelect;
 export type NewContractor = typeof contractorsTable.$inferInsert;
 
+export type Truck = typeof trucksTable.$inferSelect;
+export type NewTruck = typeof trucksTable.$inferInsert;
+
 export type ProductionRecord = typeof productionRecordsTable.$inferSelect;
 export type NewProductionRecord = typeof productionRecordsTable.$inferInsert;
 
+export type ProductionFlag = typeof productionFlagsTable.$inferSelect;
+export type NewProductionFlag = typeof productionFlagsTable.$inferInsert;
+
+export type WeighbridgeTicket = typeof weighbridgeTicketsTable.$inferSelect;
+export type NewWeighbridgeTicket = typeof weighbridgeTicketsTable.$inferInsert;
+
+export type Buyer = typeof buyersTable.$inferSelect;
+export type NewBuyer = typeof buyersTable.$inferInsert;
+
+export type SalesContract = typeof salesContractsTable.$inferSelect;
+export type NewSalesContract = typeof salesContractsTable.$inferInsert;
+
+export type Vessel = typeof vesselsTable.$inferSelect;
+export type NewVessel = typeof vesselsTable.$inferInsert;
+
+export type Shipment = typeof shipmentsTable.$inferSelect;
+export type NewShipment = typeof shipmentsTable.$inferInsert;
+
+export type LaytimeTerms = typeof laytimeTermsTable.$inferSelect;
+export type NewLaytimeTerms = typeof laytimeTermsTable.$inferInsert;
+
+export type LaytimeEvent = typeof laytimeEventsTable.$inferSelect;
+export type NewLaytimeEvent = typeof laytimeEventsTable.$inferInsert;
+
 export type BargingRecord = typeof bargingRecordsTable.$inferSelect;
 export type NewBargingRecord = typeof bargingRecordsTable.$inferInsert;
 
@@ -306,11 +1114,32 @@ export type NewStock = typeof stockTable.$inferInsert;
 export type StockAdjustment = typeof stockAdjustmentsTable.$inferSelect;
 export type NewStockAdjustment = typeof stockAdjustmentsTable.$inferInsert;
 
+export type StockpileSurvey = typeof stockpileSurveysTable.$inferSelect;
+export type NewStockpileSurvey = typeof stockpileSurveysTable.$inferInsert;
+
+export type DraftSurvey = typeof draftSurveysTable.$inferSelect;
+export type NewDraftSurvey = typeof draftSurveysTable.$inferInsert;
+
+export type QualitySample = typeof qualitySamplesTable.$inferSelect;
+export type NewQualitySample = typeof qualitySamplesTable.$inferInsert;
+
+export type StockMovement = typeof stockMovementsTable.$inferSelect;
+export type NewStockMovement = typeof stockMovementsTable.$inferInsert;
+
+export type StockTransfer = typeof stockTransfersTable.$inferSelect;
+export type NewStockTransfer = typeof stockTransfersTable.$inferInsert;
+
+export type StockAdjustmentApproval = typeof stockAdjustmentApprovalsTable.$inferSelect;
+export type NewStockAdjustmentApproval = typeof stockAdjustmentApprovalsTable.$inferInsert;
+
 export type FuelPurchase = typeof fuelPurchasesTable.$inferSelect;
 export type NewFuelPurchase = typeof fuelPurchasesTable.$inferInsert;
 
 export type FuelUsage = typeof fuelUsageTable.$inferSelect;
 export type NewFuelUsage = typeof fuelUsageTable.$inferInsert;
 
+export type PermissionGrant = typeof permissionGrantsTable.$inferSelect;
+export type NewPermissionGrant = typeof permissionGrantsTable.$inferInsert;
+
 export type AuditLog = typeof auditLogTable.$inferSelect;
 export type NewAuditLog = typeof auditLogTable.$inferInsert;
\ No newline at end of file
@@ -1,7 +1,18 @@
 import { db } from '../db';
-import { usersTable, auditLogTable } from '../db/schema';
-import { type LoginInput, type User } from '../schema';
-import { eq } from 'drizzle-orm';
+import { usersTable, auditLogTable, refreshTokensTable, loginAttemptsTable } from '../db/schema';
+import { 
+  type LoginInput, 
+  type LoginResult, 
+  type VerifySecondFactorInput, 
+  type User, 
+  type RequestClient, 
+  type RequestActor,
+  type SessionRevokeReason,
+  type UserSession 
+} from '../schema';
+import { eq, and, gt, gte, isNull, isNotNull, desc, count, sql } from 'drizzle-orm';
+import { hashPassword, verifyPassword, isPasswordChangeRequired } from './passwords';
+import { verifySecondFactorCode } from './totp';
 
 // Environment variables for JWT configuration
 const JWT_SECRET = process.env['JWT_SECRET'] || 'default-secret-key';
@@ -10,11 +21,26 @@ interface JWTPayload {
   userId: number;
   email: string;
   role: string;
-  type: 'access' | 'refresh';
+  sid?: string; // Refresh token family (session) the token belongs to
+  jti: string;
+  type: 'access' | 'refresh' | 'challenge';
   exp: number;
   iat: number;
 }
 
+const ACCESS_TOKEN_TTL_HOURS = 24;
+const REFRESH_TOKEN_TTL_HOURS = 168; // 7 days
+const CHALLENGE_TOKEN_TTL_MINUTES = 5; // Time allowed between password and second factor
+
+// Brute-force protection settings
+const LOGIN_MAX_FAILED_ATTEMPTS = parseInt(process.env['LOGIN_MAX_FAILED_ATTEMPTS'] || '5');
+const LOGIN_LOCKOUT_MINUTES = parseInt(process.env['LOGIN_LOCKOUT_MINUTES'] || '15');
+const LOGIN_DELAY_AFTER_ATTEMPTS = parseInt(process.env['LOGIN_DELAY_AFTER_ATTEMPTS'] || '2');
+const LOGIN_DELAY_BASE_SECONDS = parseInt(process.env['LOGIN_DELAY_BASE_SECONDS'] || '2');
+// Jetty tablets share an address, so the per-IP limit is well above the per-account one
+const LOGIN_IP_MAX_FAILED_ATTEMPTS = parseInt(process.env['LOGIN_IP_MAX_FAILED_ATTEMPTS'] || '30');
+const LOGIN_IP_WINDOW_MINUTES = parseInt(process.env['LOGIN_IP_WINDOW_MINUTES'] || '15');
+
 // Simple JWT implementation using Bun's crypto functions
 const base64UrlEncode = (str: string): string => {
   return Buffer.from(str).toString('base64url');
@@ -54,22 +80,15 @@ const verifySignature = async (data: string, signature: string, secret: string):
   }
 };
 
-// Simple password hashing using Bun's built-in crypto
-const hashPassword = async (password: string): Promise<string> => {
-  return await Bun.password.hash(password, {
-    algorithm: "bcrypt",
-    cost: 12
-  });
+const TOKEN_TTL_SECONDS: Record<JWTPayload['type'], number> = {
+  access: ACCESS_TOKEN_TTL_HOURS * 3600,
+  refresh: REFRESH_TOKEN_TTL_HOURS * 3600,
+  challenge: CHALLENGE_TOKEN_TTL_MINUTES * 60
 };
 
-const verifyPassword = async (password: string, hash: string): Promise<boolean> => {
-  return await Bun.password.verify(password, hash);
-};
-
-const generateToken = async (payload: Omit<JWTPayload, 'type' | 'exp' | 'iat'>, type: 'access' | 'refresh'): Promise<string> => {
-  const expiresInHours = type === 'access' ? 24 : 168; // 24h for access, 7d for refresh
+const generateToken = async (payload: Omit<JWTPayload, 'type' | 'exp' | 'iat' | 'jti'>, type: JWTPayload['type']): Promise<string> => {
   const now = Math.floor(Date.now() / 1000);
-  const exp = now + (expiresInHours * 3600);
+  const exp = now + TOKEN_TTL_SECONDS[type];
   
   const header = {
     alg: 'HS256',
@@ -78,6 +97,7 @@ const generateToken = async (payload: Omit<JWTPayload, 'type' | 'exp' | 'iat'>,
   
   const jwtPayload: JWTPayload = {
     ...payload,
+    jti: crypto.randomUUID(), // Keeps tokens issued within the same second distinct
     type,
     exp,
     iat: now
@@ -116,8 +136,235 @@ const verifyTokenJWT = async (token: string): Promise<JWTPayload | null> => {
   }
 };
 
-export async function login(input: LoginInput): Promise<{ user: User; token: string }> {
+// Refresh tokens are stored hashed so a database leak does not expose usable tokens
+const hashTokenValue = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Buffer.from(digest).toString('hex');
+};
+
+// Issue an access/refresh pair for a session and persist the refresh token
+const issueSessionTokens = async (
+  user: { id: number; email: string; role: string },
+  familyId: string,
+  sessionStartedAt: Date,
+  client?: RequestClient
+): Promise<{ token: string; refreshToken: string }> => {
+  const payload = {
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sid: familyId
+  };
+
+  const token = await generateToken(payload, 'access');
+  const refreshToken = await generateToken(payload, 'refresh');
+
+  await db.insert(refreshTokensTable)
+    .values({
+      user_id: user.id,
+      family_id: familyId,
+      token_hash: await hashTokenValue(refreshToken),
+      expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_HOURS * 3600 * 1000),
+      ip_address: client?.ip_address ?? null,
+      user_agent: client?.user_agent ?? null,
+      session_started_at: sessionStartedAt
+    })
+    .execute();
+
+  return { token, refreshToken };
+};
+
+// Revoke every token of one session
+const revokeSessionFamily = async (familyId: string, reason: SessionRevokeReason): Promise<void> => {
+  await db.update(refreshTokensTable)
+    .set({
+      revoked_at: new Date(),
+      revoked_reason: reason
+    })
+    .where(and(
+      eq(refreshTokensTable.family_id, familyId),
+      isNull(refreshTokensTable.revoked_at)
+    ))
+    .execute();
+};
+
+const recordLoginAttempt = async (
+  email: string,
+  userId: number | null,
+  success: boolean,
+  client?: RequestClient
+): Promise<void> => {
+  await db.insert(loginAttemptsTable)
+    .values({
+      email,
+      user_id: userId,
+      ip_address: client?.ip_address ?? null,
+      success
+    })
+    .execute();
+};
+
+// Seconds the account still has to wait before the next attempt (0 when allowed)
+const getRemainingLoginDelay = (user: { failed_login_attempts: number; last_failed_login_at: Date | null }): number => {
+  if (user.failed_login_attempts < LOGIN_DELAY_AFTER_ATTEMPTS || !user.last_failed_login_at) {
+    return 0;
+  }
+
+  // Delay doubles with every failure beyond the threshold
+  const delaySeconds = LOGIN_DELAY_BASE_SECONDS * Math.pow(2, user.failed_login_attempts - LOGIN_DELAY_AFTER_ATTEMPTS);
+  const allowedAt = user.last_failed_login_at.getTime() + delaySeconds * 1000;
+  return Math.max(0, Math.ceil((allowedAt - Date.now()) / 1000));
+};
+
+// Count the failure against the account, lock it once the limit is reached and audit both.
+// The count is taken in the UPDATE itself, so concurrent failures each add one instead of all
+// writing the same stale count past the delay and lockout.
+const registerFailedLogin = async (userId: number, client?: RequestClient): Promise<void> => {
+  const now = new Date();
+  const lockUntil = new Date(now.getTime() + LOGIN_LOCKOUT_MINUTES * 60 * 1000);
+
+  // An expired lockout starts the count afresh
+  const failedAttempts = sql`case
+    when ${usersTable.locked_until} <= ${now.toISOString()}::timestamp then 1
+    else ${usersTable.failed_login_attempts} + 1
+  end`;
+
+  const updated = await db.update(usersTable)
+    .set({
+      failed_login_attempts: failedAttempts,
+      last_failed_login_at: now,
+      locked_until: sql`case
+        when ${failedAttempts} >= ${LOGIN_MAX_FAILED_ATTEMPTS} then ${lockUntil.toISOString()}::timestamp
+        when ${usersTable.locked_until} > ${now.toISOString()}::timestamp then ${usersTable.locked_until}
+        else null
+      end`
+    })
+    .where(eq(usersTable.id, userId))
+    .returning({ failed_login_attempts: usersTable.failed_login_attempts, locked_until: usersTable.locked_until })
+    .execute();
+
+  const { failed_login_attempts, locked_until } = updated[0];
+
+  await db.insert(auditLogTable)
+    .values({
+      user_id: userId,
+      action: 'login_failed',
+      table_name: 'users',
+      record_id: userId,
+      new_values: { failed_attempts: failed_login_attempts },
+      ip_address: client?.ip_address ?? null,
+      user_agent: client?.user_agent ?? null
+    })
+    .execute();
+
+  if (locked_until && failed_login_attempts >= LOGIN_MAX_FAILED_ATTEMPTS) {
+    await db.insert(auditLogTable)
+      .values({
+        user_id: userId,
+        action: 'account_locked',
+        table_name: 'users',
+        record_id: userId,
+        new_values: {
+          failed_attempts: failed_login_attempts,
+          locked_until: locked_until.toISOString()
+        },
+        ip_address: client?.ip_address ?? null,
+        user_agent: client?.user_agent ?? null
+      })
+      .execute();
+  }
+};
+
+// Final step of a successful login: reset counters, start a session and audit it
+const completeLogin = async (
+  user: User,
+  method: 'password' | 'totp' | 'recovery_code',
+  client?: RequestClient
+): Promise<LoginResult> => {
+  await recordLoginAttempt(user.email, user.id, true, client);
+
+  // Update last_login timestamp and reset brute-force counters
+  const updatedUsers = await db.update(usersTable)
+    .set({ 
+      last_login: new Date(),
+      failed_login_attempts: 0,
+      last_failed_login_at: null,
+      locked_until: null,
+      updated_at: new Date()
+    })
+    .where(eq(usersTable.id, user.id))
+    .returning()
+    .execute();
+
+  const updatedUser = updatedUsers[0];
+
+  // Start a new session (refresh token family)
+  const { token, refreshToken } = await issueSessionTokens(user, crypto.randomUUID(), new Date(), client);
+
+  // Log authentication attempt to audit log
+  await db.insert(auditLogTable)
+    .values({
+      user_id: user.id,
+      action: 'login',
+      table_name: 'users',
+      record_id: user.id,
+      new_values: { 
+        login_time: new Date().toISOString(),
+        success: true,
+        method
+      },
+      ip_address: client?.ip_address ?? null,
+      user_agent: client?.user_agent ?? null,
+      created_at: new Date()
+    })
+    .execute();
+
+  // Temporary or expired passwords only allow changing the password until replaced
+  return {
+    two_factor_required: false,
+    user: updatedUser,
+    token,
+    refreshToken,
+    password_change_required: isPasswordChangeRequired(updatedUser)
+  };
+};
+
+// Reject accounts that are locked out or still inside their progressive delay
+const assertLoginAllowed = async (user: User, client?: RequestClient): Promise<void> => {
+  if (user.locked_until && user.locked_until > new Date()) {
+    await recordLoginAttempt(user.email, user.id, false, client);
+    throw new Error(`Account is locked until ${user.locked_until.toISOString()}`);
+  }
+
+  const remainingDelay = getRemainingLoginDelay(user);
+  if (remainingDelay > 0) {
+    await recordLoginAttempt(user.email, user.id, false, client);
+    throw new Error(`Too many failed attempts. Try again in ${remainingDelay} seconds`);
+  }
+};
+
+export async function login(
+  input: LoginInput,
+  client?: RequestClient
+): Promise<LoginResult> {
   try {
+    // Throttle addresses that keep failing, regardless of which accounts they target
+    if (client?.ip_address) {
+      const windowStart = new Date(Date.now() - LOGIN_IP_WINDOW_MINUTES * 60 * 1000);
+      const ipFailures = await db.select({ count: count() })
+        .from(loginAttemptsTable)
+        .where(and(
+          eq(loginAttemptsTable.ip_address, client.ip_address),
+          eq(loginAttemptsTable.success, false),
+          gte(loginAttemptsTable.created_at, windowStart)
+        ))
+        .execute();
+
+      if (ipFailures[0].count >= LOGIN_IP_MAX_FAILED_ATTEMPTS) {
+        throw new Error('Too many failed login attempts from this address. Please try again later');
+      }
+    }
+
     // Find user by email
     const users = await db.select()
       .from(usersTable)
@@ -125,6 +372,7 @@ export async function login(input: LoginInput): Promise<{ user: User; token: str
       .execute();
 
     if (users.length === 0) {
+      await recordLoginAttempt(input.email, null, false, client);
       throw new Error('Invalid credentials');
     }
 
@@ -135,52 +383,74 @@ export async function login(input: LoginInput): Promise<{ user: User; token: str
       throw new Error('Account is deactivated');
     }
 
+    // Check lockout before touching the password
+    await assertLoginAllowed(user, client);
+
     // Verify password
     const isValidPassword = await verifyPassword(input.password, user.password_hash);
     if (!isValidPassword) {
+      await recordLoginAttempt(input.email, user.id, false, client);
+      await registerFailedLogin(user.id, client);
       throw new Error('Invalid credentials');
     }
 
-    // Update last_login timestamp
-    const updatedUsers = await db.update(usersTable)
-      .set({ 
-        last_login: new Date(),
-        updated_at: new Date()
-      })
-      .where(eq(usersTable.id, user.id))
-      .returning()
-      .execute();
+    // Enrolled users get a short-lived challenge instead of a session. Counters are only
+    // reset once the second factor passes, so the password alone cannot reopen code guessing.
+    if (user.two_factor_enabled) {
+      const challengeToken = await generateToken({
+        userId: user.id,
+        email: user.email,
+        role: user.role
+      }, 'challenge');
+
+      return {
+        two_factor_required: true,
+        challenge_token: challengeToken,
+        challenge_expires_at: new Date(Date.now() + TOKEN_TTL_SECONDS.challenge * 1000)
+      };
+    }
 
-    const updatedUser = updatedUsers[0];
+    return await completeLogin(user, 'password', client);
+  } catch (error) {
+    console.error('Login failed:', error);
+    throw error;
+  }
+}
 
-    // Generate JWT token
-    const token = await generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role
-    }, 'access');
+export async function verifySecondFactor(
+  input: VerifySecondFactorInput,
+  client?: RequestClient
+): Promise<LoginResult> {
+  try {
+    const decoded = await verifyTokenJWT(input.challenge_token);
+    if (!decoded || decoded.type !== 'challenge') {
+      throw new Error('Invalid or expired login challenge');
+    }
 
-    // Log authentication attempt to audit log
-    await db.insert(auditLogTable)
-      .values({
-        user_id: user.id,
-        action: 'login',
-        table_name: 'users',
-        record_id: user.id,
-        new_values: { 
-          login_time: new Date().toISOString(),
-          success: true 
-        },
-        created_at: new Date()
-      })
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, decoded.userId))
       .execute();
 
-    return {
-      user: updatedUser,
-      token
-    };
+    if (users.length === 0 || !users[0].is_active) {
+      throw new Error('Invalid or expired login challenge');
+    }
+
+    const user = users[0];
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    await assertLoginAllowed(user, client);
+
+    const method = await verifySecondFactorCode(user.id, input.code);
+    if (!method) {
+      await recordLoginAttempt(user.email, user.id, false, client);
+      await registerFailedLogin(user.id, client);
+      throw new Error('Invalid verification code');
+    }
+
+    return await completeLogin(user, method, client);
   } catch (error) {
-    console.error('Login failed:', error);
+    console.error('Second factor verification failed:', error);
     throw error;
   }
 }
@@ -206,6 +476,22 @@ export async function verifyToken(token: string): Promise<User | null> {
       return null;
     }
 
+    // Reject access tokens whose session has been logged out or revoked
+    if (decoded.sid) {
+      const revoked = await db.select({ id: refreshTokensTable.id })
+        .from(refreshTokensTable)
+        .where(and(
+          eq(refreshTokensTable.family_id, decoded.sid),
+          isNotNull(refreshTokensTable.revoked_at)
+        ))
+        .limit(1)
+        .execute();
+
+      if (revoked.length > 0) {
+        return null;
+      }
+    }
+
     return users[0];
   } catch (error) {
     console.error('Token verification failed:', error);
@@ -213,7 +499,10 @@ export async function verifyToken(token: string): Promise<User | null> {
   }
 }
 
-export async function refreshToken(refreshToken: string): Promise<{ token: string; refreshToken: string }> {
+export async function refreshToken(
+  refreshToken: string,
+  client?: RequestClient
+): Promise<{ token: string; refreshToken: string }> {
   try {
     // Verify refresh token
     const decoded = await verifyTokenJWT(refreshToken);
@@ -226,6 +515,26 @@ export async function refreshToken(refreshToken: string): Promise<{ token: strin
       throw new Error('Invalid refresh token type');
     }
 
+    // Look up the stored token; unknown tokens are never honoured
+    const storedTokens = await db.select()
+      .from(refreshTokensTable)
+      .where(eq(refreshTokensTable.token_hash, await hashTokenValue(refreshToken)))
+      .execute();
+
+    if (storedTokens.length === 0) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const storedToken = storedTokens[0];
+
+    if (storedToken.revoked_at) {
+      throw new Error('Refresh token has been revoked');
+    }
+
+    if (storedToken.rotated_at) {
+      await handleRefreshTokenReuse(storedToken.user_id, storedToken.family_id, client);
+    }
+
     // Fetch current user data to ensure user is still active
     const users = await db.select()
       .from(usersTable)
@@ -238,18 +547,28 @@ export async function refreshToken(refreshToken: string): Promise<{ token: strin
 
     const user = users[0];
 
-    // Generate new access token and refresh token
-    const newToken = await generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role
-    }, 'access');
+    // Claim the token for rotation; a concurrent use of the same token loses and counts as reuse
+    const claimed = await db.update(refreshTokensTable)
+      .set({ rotated_at: new Date() })
+      .where(and(
+        eq(refreshTokensTable.id, storedToken.id),
+        isNull(refreshTokensTable.rotated_at),
+        isNull(refreshTokensTable.revoked_at)
+      ))
+      .returning()
+      .execute();
+
+    if (claimed.length === 0) {
+      await handleRefreshTokenReuse(storedToken.user_id, storedToken.family_id, client);
+    }
 
-    const newRefreshToken = await generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role
-    }, 'refresh');
+    // Generate new access token and refresh token within the same session
+    const { token: newToken, refreshToken: newRefreshToken } = await issueSessionTokens(
+      user,
+      storedToken.family_id,
+      storedToken.session_started_at,
+      client
+    );
 
     // Log token refresh to audit log
     await db.insert(auditLogTable)
@@ -261,6 +580,8 @@ export async function refreshToken(refreshToken: string): Promise<{ token: strin
         new_values: { 
           refresh_time: new Date().toISOString()
         },
+        ip_address: client?.ip_address ?? null,
+        user_agent: client?.user_agent ?? null,
         created_at: new Date()
       })
       .execute();
@@ -275,5 +596,132 @@ export async function refreshToken(refreshToken: string): Promise<{ token: strin
   }
 }
 
+// A rotated token was presented again: assume it was stolen and kill the whole session
+const handleRefreshTokenReuse = async (
+  userId: number,
+  familyId: string,
+  client?: RequestClient
+): Promise<never> => {
+  await revokeSessionFamily(familyId, 'reuse_detected');
+
+  await db.insert(auditLogTable)
+    .values({
+      user_id: userId,
+      action: 'refresh_token_reuse',
+      table_name: 'refresh_tokens',
+      new_values: { family_id: familyId },
+      ip_address: client?.ip_address ?? null,
+      user_agent: client?.user_agent ?? null
+    })
+    .execute();
+
+  throw new Error('Refresh token reuse detected; session has been revoked');
+};
+
+export async function logout(refreshToken: string, actor: RequestActor): Promise<boolean> {
+  try {
+    const storedTokens = await db.select()
+      .from(refreshTokensTable)
+      .where(eq(refreshTokensTable.token_hash, await hashTokenValue(refreshToken)))
+      .execute();
+
+    // Users may only end their own sessions
+    if (storedTokens.length === 0 || storedTokens[0].user_id !== actor.user_id) {
+      throw new Error('Session not found');
+    }
+
+    await revokeSessionFamily(storedTokens[0].family_id, 'logout');
+
+    await db.insert(auditLogTable)
+      .values({
+        user_id: actor.user_id,
+        action: 'logout',
+        table_name: 'refresh_tokens',
+        new_values: { family_id: storedTokens[0].family_id },
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
+      })
+      .execute();
+
+    return true;
+  } catch (error) {
+    console.error('Logout failed:', error);
+    throw error;
+  }
+}
+
+export async function revokeUserSessions(userId: number, reason: SessionRevokeReason): Promise<number> {
+  try {
+    const revoked = await db.update(refreshTokensTable)
+      .set({
+        revoked_at: new Date(),
+        revoked_reason: reason
+      })
+      .where(and(
+        eq(refreshTokensTable.user_id, userId),
+        isNull(refreshTokensTable.revoked_at)
+      ))
+      .returning()
+      .execute();
+
+    return new Set(revoked.map(token => token.family_id)).size;
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
+
+export async function logoutAllSessions(actor: RequestActor): Promise<{ revoked_sessions: number }> {
+  try {
+    const revokedSessions = await revokeUserSessions(actor.user_id, 'logout_all');
+
+    await db.insert(auditLogTable)
+      .values({
+        user_id: actor.user_id,
+        action: 'logout_all',
+        table_name: 'refresh_tokens',
+        new_values: { revoked_sessions: revokedSessions },
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
+      })
+      .execute();
+
+    return { revoked_sessions: revokedSessions };
+  } catch (error) {
+    console.error('Logout of all sessions failed:', error);
+    throw error;
+  }
+}
+
+export async function getActiveSessions(userId: number): Promise<UserSession[]> {
+  try {
+    // Each live session has exactly one token that is neither rotated, revoked nor expired
+    const results = await db.select()
+      .from(refreshTokensTable)
+      .where(and(
+        eq(refreshTokensTable.user_id, userId),
+        isNull(refreshTokensTable.rotated_at),
+        isNull(refreshTokensTable.revoked_at),
+        gt(refreshTokensTable.expires_at, new Date())
+      ))
+      .orderBy(desc(refreshTokensTable.created_at))
+      .execute();
+
+    return results.map(token => ({
+      id: token.id,
+      user_id: token.user_id,
+      family_id: token.family_id,
+      session_started_at: token.session_started_at,
+      last_refreshed_at: token.created_at,
+      expires_at: token.expires_at,
+      ip_address: token.ip_address,
+      user_agent: token.user_agent
+    }));
+  } catch (error) {
+    console.error('Failed to fetch active sessions:', error);
+    throw error;
+  }
+}
+
 // Utility function to hash passwords (for use in other handlers)
 export { hashPassword };
\ No newline at end of file
@@ -1,20 +1,53 @@
 import { db } from '../db';
 import { 
   bargingRecordsTable,
+  stockTable,
+  stockpilesTable,
   contractorsTable,
   jettiesTable,
   usersTable,
-  stockTable
+  auditLogTable,
+  shipmentsTable
 } from '../db/schema';
 import { 
   type CreateBargingRecordInput, 
-  type BargingRecord 
+  type CorrectBargingRecordInput,
+  type VoidRecordInput,
+  type BargingRecord,
+  type RequestActor,
+  type PermissionScope,
+  type CoalGrade
 } from '../schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { assertWithinScope, scopeCondition } from './permissions';
+import { runStockTransaction, changeStock, type Transaction } from './ledger';
+import { resolveStockpile, DEFAULT_STOCKPILE_CODE } from './stockpiles';
+import { startShipmentLoad } from './shipments';
+import { resolveContractBuyer } from './contracts';
+import { eq, and, gte, lte, desc, type SQL } from 'drizzle-orm';
 
-export async function createBargingRecord(input: CreateBargingRecordInput): Promise<BargingRecord> {
+type BargingRecordRow = typeof bargingRecordsTable.$inferSelect;
+
+// Loads to a shipment sold under a contract count towards that contract and no other
+const assertShipmentContract = (shipment: typeof shipmentsTable.$inferSelect, contractId: number | null): void => {
+  if (shipment.contract_id !== null && shipment.contract_id !== contractId) {
+    throw new Error(`Shipment #${shipment.id} is sold under sales contract #${shipment.contract_id}`);
+  }
+};
+
+const toBargingRecord = (record: BargingRecordRow): BargingRecord => ({
+  ...record,
+  tonnage: parseFloat(record.tonnage)
+});
+
+export async function createBargingRecord(
+  input: CreateBargingRecordInput,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<BargingRecord> {
   try {
-    return await db.transaction(async (tx) => {
+    assertWithinScope(scope, 'barging.create', input);
+
+    return await runStockTransaction(async (tx) => {
       // 1. Validate contractor exists and is active
       const contractor = await tx.select()
         .from(contractorsTable)
@@ -43,45 +76,33 @@ export async function createBargingRecord(input: CreateBargingRecordInput): Prom
         throw new Error(`Jetty with ID ${input.jetty_id} is inactive`);
       }
 
-      // 3. Validate operator exists and is active
+      // 3. Validate operator (the acting user) exists and is active
       const operator = await tx.select()
         .from(usersTable)
-        .where(eq(usersTable.id, input.operator_id))
+        .where(eq(usersTable.id, actor.user_id))
         .execute();
 
       if (operator.length === 0) {
-        throw new Error(`Operator with ID ${input.operator_id} not found`);
+        throw new Error(`Operator with ID ${actor.user_id} not found`);
       }
 
       if (!operator[0].is_active) {
-        throw new Error(`Operator with ID ${input.operator_id} is inactive`);
+        throw new Error(`Operator with ID ${actor.user_id} is inactive`);
       }
 
-      // 4. Find and validate stock availability with optimistic locking
-      const stockRecord = await tx.select()
-        .from(stockTable)
-        .where(
-          and(
-            eq(stockTable.contractor_id, input.contractor_id),
-            eq(stockTable.jetty_id, input.jetty_id)
-          )
-        )
-        .execute();
-
-      if (stockRecord.length === 0) {
-        throw new Error(`No stock found for contractor ${input.contractor_id} at jetty ${input.jetty_id}`);
-      }
-
-      const currentStock = parseFloat(stockRecord[0].tonnage);
-      const bargingTonnage = input.tonnage;
-
-      if (bargingTonnage <= 0) {
+      if (input.tonnage <= 0) {
         throw new Error('Barging tonnage must be positive');
       }
 
-      if (currentStock < bargingTonnage) {
-        throw new Error(`Insufficient stock. Available: ${currentStock} tons, Requested: ${bargingTonnage} tons`);
+      // 4. Load from the named stockpile, or the jetty's default one
+      const stockpile = await resolveStockpile(tx, input.jetty_id, input.stockpile_id);
+
+      const shipment = input.shipment_id !== undefined ? await startShipmentLoad(tx, input.shipment_id) : null;
+      const contractId = input.contract_id ?? shipment?.contract_id ?? null;
+      if (shipment) {
+        assertShipmentContract(shipment, contractId);
       }
+      const sale = await resolveContractBuyer(tx, contractId, input.buyer, input.date_time);
 
       // 5. Insert barging record
       const bargingResult = await tx.insert(bargingRecordsTable)
@@ -90,38 +111,28 @@ export async function createBargingRecord(input: CreateBargingRecordInput): Prom
           contractor_id: input.contractor_id,
           ship_batch_number: input.ship_batch_number,
           tonnage: input.tonnage.toString(), // Convert number to string for numeric column
+          coal_grade: input.coal_grade,
           jetty_id: input.jetty_id,
-          buyer: input.buyer,
+          stockpile_id: stockpile.id,
+          buyer: sale.buyer,
           loading_document: input.loading_document,
-          operator_id: input.operator_id,
-          notes: input.notes
+          operator_id: actor.user_id,
+          notes: input.notes,
+          shipment_id: input.shipment_id ?? null,
+          contract_id: sale.contract_id
         })
         .returning()
         .execute();
 
       const createdRecord = bargingResult[0];
 
-      // 6. Update stock with optimistic locking
-      const newTonnage = currentStock - bargingTonnage;
-      const updatedStock = await tx.update(stockTable)
-        .set({
-          tonnage: newTonnage.toString(),
-          last_updated: new Date(),
-          version: sql`${stockTable.version} + 1`,
-          updated_at: new Date()
-        })
-        .where(
-          and(
-            eq(stockTable.id, stockRecord[0].id),
-            eq(stockTable.version, stockRecord[0].version) // Optimistic locking
-          )
-        )
-        .returning()
-        .execute();
-
-      if (updatedStock.length === 0) {
-        throw new Error('Stock was modified by another operation. Please try again.');
-      }
+      // 6. Take the tonnage out of the grade's stock; fails on missing or insufficient stock
+      await changeStock(tx, { ...input, stockpile_id: stockpile.id }, -input.tonnage, {
+        movement_type: 'barging',
+        reference_id: createdRecord.id,
+        occurred_at: input.date_time,
+        created_by: actor.user_id
+      });
 
       // Convert numeric fields back to numbers before returning
       return {
@@ -139,51 +150,359 @@ export async function getBargingRecords(
   dateFrom?: Date, 
   dateTo?: Date, 
   contractorId?: number,
-  jettyId?: number
+  jettyId?: number,
+  scope?: PermissionScope
 ): Promise<BargingRecord[]> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to fetch barging records with filtering.
-  // It should:
-  // 1. Query barging records with optional filters
-  // 2. Join with contractor, jetty, and operator data
-  // 3. Order by date_time descending
-  // 4. Apply pagination if needed
-  // 5. Return barging records with related data
-  
-  return Promise.resolve([]);
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (dateFrom !== undefined) {
+      conditions.push(gte(bargingRecordsTable.date_time, dateFrom));
+    }
+
+    if (dateTo !== undefined) {
+      conditions.push(lte(bargingRecordsTable.date_time, dateTo));
+    }
+
+    if (contractorId !== undefined) {
+      conditions.push(eq(bargingRecordsTable.contractor_id, contractorId));
+    }
+
+    if (jettyId !== undefined) {
+      conditions.push(eq(bargingRecordsTable.jetty_id, jettyId));
+    }
+
+    // Only the jetties/contractors the caller may see
+    const scopeFilter = scopeCondition(scope, bargingRecordsTable.jetty_id, bargingRecordsTable.contractor_id);
+    if (scopeFilter) {
+      conditions.push(scopeFilter);
+    }
+
+    const query = db.select().from(bargingRecordsTable);
+    const results = conditions.length > 0
+      ? await query.where(and(...conditions)).orderBy(desc(bargingRecordsTable.date_time)).execute()
+      : await query.orderBy(desc(bargingRecordsTable.date_time)).execute();
+
+    return results.map(record => ({
+      ...record,
+      tonnage: parseFloat(record.tonnage)
+    }));
+  } catch (error) {
+    console.error('Failed to fetch barging records:', error);
+    throw error;
+  }
 }
 
-export async function getBargingRecordById(id: number): Promise<BargingRecord | null> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to fetch a specific barging record.
-  // It should:
-  // 1. Query barging record by ID
-  // 2. Include related contractor, jetty, and operator information
-  // 3. Return barging record with relations or null
-  
-  return Promise.resolve(null);
+export async function getBargingRecordById(id: number, scope?: PermissionScope): Promise<BargingRecord | null> {
+  try {
+    const conditions: SQL<unknown>[] = [eq(bargingRecordsTable.id, id)];
+
+    const scopeFilter = scopeCondition(scope, bargingRecordsTable.jetty_id, bargingRecordsTable.contractor_id);
+    if (scopeFilter) {
+      conditions.push(scopeFilter);
+    }
+
+    const results = await db.select()
+      .from(bargingRecordsTable)
+      .where(and(...conditions))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return {
+      ...results[0],
+      tonnage: parseFloat(results[0].tonnage)
+    };
+  } catch (error) {
+    console.error('Failed to fetch barging record:', error);
+    throw error;
+  }
 }
 
+// Lock a record and add the void that supersedes it; the original row is left as it was.
+// Putting its tonnage back on stock is up to the caller.
+const supersedeBargingRecord = async (
+  tx: Transaction,
+  id: number,
+  reason: string,
+  actor: RequestActor,
+  scope: PermissionScope | undefined
+): Promise<{ original: BargingRecordRow; voidRecord: BargingRecordRow }> => {
+  const originals = await tx.select()
+    .from(bargingRecordsTable)
+    .where(eq(bargingRecordsTable.id, id))
+    .for('update')
+    .execute();
+
+  if (originals.length === 0) {
+    throw new Error(`Barging record with ID ${id} not found`);
+  }
+
+  const original = originals[0];
+  assertWithinScope(scope, 'barging.correct', original);
+
+  if (original.entry_type === 'void') {
+    throw new Error(`Barging record #${id} voids record #${original.compensates_id} and cannot itself be voided or corrected`);
+  }
+
+  const superseding = await tx.select({ id: bargingRecordsTable.id, entry_type: bargingRecordsTable.entry_type })
+    .from(bargingRecordsTable)
+    .where(eq(bargingRecordsTable.compensates_id, id))
+    .execute();
+
+  const correction = superseding.find(record => record.entry_type === 'correction');
+  if (correction) {
+    throw new Error(`Barging record #${id} has already been corrected by record #${correction.id}`);
+  }
+  if (superseding.length > 0) {
+    throw new Error(`Barging record #${id} has already been voided by record #${superseding[0].id}`);
+  }
+
+  const created = await tx.insert(bargingRecordsTable)
+    .values({
+      date_time: original.date_time,
+      contractor_id: original.contractor_id,
+      ship_batch_number: original.ship_batch_number,
+      tonnage: (-parseFloat(original.tonnage)).toString(),
+      coal_grade: original.coal_grade,
+      jetty_id: original.jetty_id,
+      stockpile_id: original.stockpile_id,
+      buyer: original.buyer,
+      operator_id: actor.user_id,
+      notes: reason,
+      entry_type: 'void',
+      compensates_id: original.id,
+      shipment_id: original.shipment_id,
+      contract_id: original.contract_id
+    })
+    .returning()
+    .execute();
+
+  return { original, voidRecord: created[0] };
+};
+
+// Void a record by adding a compensating record with the negated tonnage and putting its tonnage back on stock
+export async function voidBargingRecord(
+  input: VoidRecordInput,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<BargingRecord> {
+  try {
+    const voidRecord = await runStockTransaction(async (tx) => {
+      const { original, voidRecord } = await supersedeBargingRecord(tx, input.id, input.reason, actor, scope);
+
+      // Dated like the original, so point-in-time balances read as if it had never been loaded
+      await changeStock(tx, original, parseFloat(original.tonnage), {
+        movement_type: 'barging',
+        reference_id: voidRecord.id,
+        occurred_at: original.date_time,
+        created_by: actor.user_id
+      });
+
+      await tx.insert(auditLogTable)
+        .values({
+          user_id: actor.user_id,
+          action: 'barging_void',
+          table_name: 'barging_records',
+          record_id: original.id,
+          old_values: toBargingRecord(original),
+          new_values: { void_record: toBargingRecord(voidRecord), reason: input.reason },
+          ip_address: actor.ip_address,
+          user_agent: actor.user_agent
+        })
+        .execute();
+
+      return voidRecord;
+    });
+
+    return toBargingRecord(voidRecord);
+  } catch (error) {
+    console.error('Barging record void failed:', error);
+    throw error;
+  }
+}
+
+// Correct a record by voiding it and adding a correction record with the corrected values, which takes the
+// original's place (and can itself be voided or corrected later)
+export async function correctBargingRecord(
+  input: CorrectBargingRecordInput,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<BargingRecord> {
+  try {
+    const correctionRecord = await runStockTransaction(async (tx) => {
+      const { original, voidRecord } = await supersedeBargingRecord(tx, input.id, input.reason, actor, scope);
+
+      const corrected = {
+        date_time: input.date_time ?? original.date_time,
+        contractor_id: input.contractor_id ?? original.contractor_id,
+        ship_batch_number: input.ship_batch_number ?? original.ship_batch_number,
+        tonnage: input.tonnage ?? parseFloat(original.tonnage),
+        coal_grade: input.coal_grade ?? original.coal_grade,
+        buyer: input.buyer !== undefined ? input.buyer : original.buyer,
+        loading_document: input.loading_document !== undefined ? input.loading_document : original.loading_document,
+        notes: input.notes !== undefined ? input.notes : original.notes,
+        shipment_id: input.shipment_id !== undefined ? input.shipment_id : original.shipment_id,
+        contract_id: input.contract_id !== undefined ? input.contract_id : original.contract_id
+      };
+      assertWithinScope(scope, 'barging.correct', { jetty_id: original.jetty_id, contractor_id: corrected.contractor_id });
+
+      if (corrected.contractor_id !== original.contractor_id) {
+        const contractor = await tx.select({ id: contractorsTable.id })
+          .from(contractorsTable)
+          .where(and(eq(contractorsTable.id, corrected.contractor_id), eq(contractorsTable.is_active, true)))
+          .execute();
+
+        if (contractor.length === 0) {
+          throw new Error(`Contractor with ID ${corrected.contractor_id} not found or inactive`);
+        }
+      }
+
+      const stockpile = await resolveStockpile(tx, original.jetty_id, input.stockpile_id ?? original.stockpile_id);
+
+      if (corrected.shipment_id !== null && corrected.shipment_id !== original.shipment_id) {
+        const shipment = await startShipmentLoad(tx, corrected.shipment_id);
+        // Moving a load to a shipment under contract moves it to that contract unless another is named
+        if (input.contract_id === undefined && shipment.contract_id !== null) {
+          corrected.contract_id = shipment.contract_id;
+        }
+        assertShipmentContract(shipment, corrected.contract_id);
+      } else if (corrected.shipment_id !== null && corrected.contract_id !== original.contract_id) {
+        const shipments = await tx.select()
+          .from(shipmentsTable)
+          .where(eq(shipmentsTable.id, corrected.shipment_id))
+          .execute();
+        assertShipmentContract(shipments[0], corrected.contract_id);
+      }
+
+      if (corrected.contract_id !== null || corrected.buyer !== original.buyer) {
+        // A load moved to another contract goes to that contract's buyer unless one is given
+        const buyer = corrected.contract_id !== original.contract_id && input.buyer === undefined ? null : corrected.buyer;
+        corrected.buyer = (await resolveContractBuyer(tx, corrected.contract_id, buyer, corrected.date_time)).buyer;
+      }
+
+      const unchanged = corrected.date_time.getTime() === original.date_time.getTime() &&
+        corrected.contractor_id === original.contractor_id &&
+        corrected.ship_batch_number === original.ship_batch_number &&
+        corrected.tonnage === parseFloat(original.tonnage) &&
+        corrected.coal_grade === original.coal_grade &&
+        stockpile.id === original.stockpile_id &&
+        corrected.buyer === original.buyer &&
+        corrected.loading_document === original.loading_document &&
+        corrected.notes === original.notes &&
+        corrected.shipment_id === original.shipment_id &&
+        corrected.contract_id === original.contract_id;
+      if (unchanged) {
+        throw new Error(`Correction of barging record #${original.id} changes nothing`);
+      }
+
+      const created = await tx.insert(bargingRecordsTable)
+        .values({
+          ...corrected,
+          tonnage: corrected.tonnage.toString(),
+          jetty_id: original.jetty_id,
+          stockpile_id: stockpile.id,
+          operator_id: actor.user_id,
+          entry_type: 'correction',
+          compensates_id: original.id
+        })
+        .returning()
+        .execute();
+
+      // Put the original's tonnage back before taking the corrected tonnage out, so a correction
+      // within the same stock only fails when there is not enough coal for the corrected load
+      await changeStock(tx, original, parseFloat(original.tonnage), {
+        movement_type: 'barging',
+        reference_id: voidRecord.id,
+        occurred_at: original.date_time,
+        created_by: actor.user_id
+      });
+
+      await changeStock(tx, { ...corrected, jetty_id: original.jetty_id, stockpile_id: stockpile.id }, -corrected.tonnage, {
+        movement_type: 'barging',
+        reference_id: created[0].id,
+        occurred_at: corrected.date_time,
+        created_by: actor.user_id
+      });
+
+      await tx.insert(auditLogTable)
+        .values({
+          user_id: actor.user_id,
+          action: 'barging_correct',
+          table_name: 'barging_records',
+          record_id: original.id,
+          old_values: toBargingRecord(original),
+          new_values: {
+            correction_record: toBargingRecord(created[0]),
+            void_record: toBargingRecord(voidRecord),
+            reason: input.reason
+          },
+          ip_address: actor.ip_address,
+          user_agent: actor.user_agent
+        })
+        .execute();
+
+      return created[0];
+    });
+
+    return toBargingRecord(correctionRecord);
+  } catch (error) {
+    console.error('Barging record correction failed:', error);
+    throw error;
+  }
+}
+
+// Pre-check for the barging form: is there enough stock of this grade? createBargingRecord
+// checks again under the row lock, so this is advisory only
 export async function validateStockForBarging(
   contractorId: number, 
   jettyId: number, 
-  tonnage: number
+  coalGrade: CoalGrade,
+  tonnage: number,
+  stockpileId?: number,
+  scope?: PermissionScope
 ): Promise<{ valid: boolean; availableStock: number; message?: string }> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to validate stock availability before barging.
-  // It should:
-  // 1. Query current stock for contractor-jetty combination
-  // 2. Check if requested tonnage is available
-  // 3. Return validation result with available stock info
-  // 4. Include helpful error messages for insufficient stock
-  
-  return Promise.resolve({
-    valid: true,
-    availableStock: 1000
-  });
+  try {
+    assertWithinScope(scope, 'barging.create', { jetty_id: jettyId, contractor_id: contractorId });
+
+    // Same stockpile createBargingRecord would load from: the named one or the jetty's default
+    const stockRecords = await db.select({ tonnage: stockTable.tonnage })
+      .from(stockTable)
+      .innerJoin(stockpilesTable, eq(stockTable.stockpile_id, stockpilesTable.id))
+      .where(and(
+        eq(stockTable.contractor_id, contractorId),
+        eq(stockTable.jetty_id, jettyId),
+        eq(stockTable.coal_grade, coalGrade),
+        stockpileId !== undefined
+          ? eq(stockTable.stockpile_id, stockpileId)
+          : eq(stockpilesTable.code, DEFAULT_STOCKPILE_CODE)
+      ))
+      .execute();
+
+    const availableStock = stockRecords.length > 0 ? parseFloat(stockRecords[0].tonnage) : 0;
+
+    if (tonnage <= 0) {
+      return { valid: false, availableStock, message: 'Barging tonnage must be positive' };
+    }
+
+    if (tonnage > availableStock) {
+      return {
+        valid: false,
+        availableStock,
+        message: `Insufficient ${coalGrade} grade stock. Available: ${availableStock} tons, Requested: ${tonnage} tons`
+      };
+    }
+
+    return { valid: true, availableStock };
+  } catch (error) {
+    console.error('Stock validation for barging failed:', error);
+    throw error;
+  }
 }
 
-export async function getDailyBargingSummary(date: Date): Promise<{
+export async function getDailyBargingSummary(date: Date, scope?: PermissionScope): Promise<{
   total_tonnage: number;
   records_count: number;
   by_contractor: Array<{ contractor_id: number; contractor_name: string; tonnage: number }>;
@@ -193,7 +512,7 @@ export async function getDailyBargingSummary(date: Date): Promise<{
   // This is a placeholder declaration! Real code should be implemented here.
   // The goal of this handler is to provide daily barging analytics.
   // It should:
-  // 1. Query barging records for specific date
+  // 1. Query barging records for specific date, limited to the caller's scope with scopeCondition
   // 2. Aggregate tonnage by contractor, jetty, and buyer
   // 3. Calculate total tonnage and record count
   // 4. Return structured summary data for dashboard
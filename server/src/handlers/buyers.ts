@@ -0,0 +1,116 @@
+import { db } from '../db';
+import { buyersTable } from '../db/schema';
+import {
+  type CreateBuyerInput,
+  type UpdateBuyerInput,
+  type Buyer
+} from '../schema';
+import { type Transaction } from './ledger';
+import { eq, asc } from 'drizzle-orm';
+
+type BuyerRow = typeof buyersTable.$inferSelect;
+
+// Buyer names are matched without case, spaces or punctuation, so "PT. ABC" and "PT Abc" are one buyer
+export const normalizeBuyerName = (name: string): string => name.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// The registered buyer behind a name as typed in, if there is one
+export const findBuyerByName = async (tx: Transaction | typeof db, name: string): Promise<BuyerRow | null> => {
+  const buyers = await tx.select()
+    .from(buyersTable)
+    .where(eq(buyersTable.name_key, normalizeBuyerName(name)))
+    .execute();
+
+  return buyers.length > 0 ? buyers[0] : null;
+};
+
+const toNameKey = (name: string): string => {
+  const nameKey = normalizeBuyerName(name);
+  if (nameKey.length === 0) {
+    throw new Error(`'${name}' is not a valid buyer name`);
+  }
+  return nameKey;
+};
+
+const assertBuyerNameAvailable = async (nameKey: string, buyerId?: number): Promise<void> => {
+  const existing = await db.select({ id: buyersTable.id, name: buyersTable.name })
+    .from(buyersTable)
+    .where(eq(buyersTable.name_key, nameKey))
+    .execute();
+
+  if (existing.length > 0 && existing[0].id !== buyerId) {
+    throw new Error(`Buyer '${existing[0].name}' already exists`);
+  }
+};
+
+export async function createBuyer(input: CreateBuyerInput): Promise<Buyer> {
+  try {
+    const nameKey = toNameKey(input.name);
+    await assertBuyerNameAvailable(nameKey);
+
+    const result = await db.insert(buyersTable)
+      .values({
+        name: input.name,
+        name_key: nameKey,
+        country: input.country,
+        contact_person: input.contact_person
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Buyer creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateBuyer(input: UpdateBuyerInput): Promise<Buyer> {
+  try {
+    const existing = await db.select()
+      .from(buyersTable)
+      .where(eq(buyersTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Buyer with ID ${input.id} not found`);
+    }
+
+    const updateData: Partial<typeof buyersTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) {
+      const nameKey = toNameKey(input.name);
+      await assertBuyerNameAvailable(nameKey, input.id);
+      updateData.name = input.name;
+      updateData.name_key = nameKey;
+    }
+
+    if (input.country !== undefined) updateData.country = input.country;
+    if (input.contact_person !== undefined) updateData.contact_person = input.contact_person;
+    if (input.is_active !== undefined) updateData.is_active = input.is_active;
+
+    const result = await db.update(buyersTable)
+      .set(updateData)
+      .where(eq(buyersTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Buyer update failed:', error);
+    throw error;
+  }
+}
+
+export async function getBuyers(): Promise<Buyer[]> {
+  try {
+    return await db.select()
+      .from(buyersTable)
+      .orderBy(asc(buyersTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch buyers:', error);
+    throw error;
+  }
+}
@@ -4,7 +4,8 @@ import { eq, and, isNull, desc } from 'drizzle-orm';
 import { 
   type CreateContractorInput, 
   type UpdateContractorInput, 
-  type Contractor 
+  type Contractor,
+  type RequestActor
 } from '../schema';
 
 export async function createContractor(input: CreateContractorInput): Promise<Contractor> {
@@ -120,7 +121,7 @@ export async function updateContractor(input: UpdateContractorInput): Promise<Co
   }
 }
 
-export async function deleteContractor(id: number, deletedBy: number): Promise<boolean> {
+export async function deleteContractor(id: number, actor: RequestActor): Promise<boolean> {
   try {
     // Check if contractor exists and is not already deleted
     const existingContractor = await getContractorById(id);
@@ -151,12 +152,14 @@ export async function deleteContractor(id: number, deletedBy: number): Promise<b
     // Log deletion to audit log
     await db.insert(auditLogTable)
       .values({
-        user_id: deletedBy,
+        user_id: actor.user_id,
         action: 'DELETE',
         table_name: 'contractors',
         record_id: id,
         old_values: existingContractor,
-        new_values: null
+        new_values: null,
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
       })
       .execute();
 
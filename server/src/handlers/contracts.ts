@@ -0,0 +1,281 @@
+import { db } from '../db';
+import {
+  salesContractsTable,
+  buyersTable,
+  bargingRecordsTable,
+  shipmentsTable,
+  vesselsTable
+} from '../db/schema';
+import {
+  type CreateSalesContractInput,
+  type UpdateSalesContractInput,
+  type SalesContractFilter,
+  type SalesContract,
+  type ContractFulfilment,
+  type PermissionScope
+} from '../schema';
+import { scopeCondition } from './permissions';
+import { normalizeBuyerName, findBuyerByName } from './buyers';
+import { type Transaction } from './ledger';
+import { eq, and, gte, lte, asc, sql, sum, type SQL } from 'drizzle-orm';
+
+type SalesContractRow = typeof salesContractsTable.$inferSelect;
+
+const toSalesContract = (contract: SalesContractRow): SalesContract => ({
+  ...contract,
+  total_quantity: parseFloat(contract.total_quantity),
+  tolerance_percent: parseFloat(contract.tolerance_percent),
+  price_per_ton: contract.price_per_ton === null ? null : parseFloat(contract.price_per_ton),
+  min_calorific_value: contract.min_calorific_value === null ? null : parseFloat(contract.min_calorific_value),
+  max_total_moisture: contract.max_total_moisture === null ? null : parseFloat(contract.max_total_moisture),
+  max_ash: contract.max_ash === null ? null : parseFloat(contract.max_ash),
+  max_sulphur: contract.max_sulphur === null ? null : parseFloat(contract.max_sulphur)
+});
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const assertValidity = (validFrom: Date, validTo: Date): void => {
+  if (validTo < validFrom) {
+    throw new Error('Contract validity must not end before it starts');
+  }
+};
+
+const toNumeric = (value: number | null): string | null => value === null ? null : value.toString();
+
+// The buyer a sale goes to. Under a contract that is the contract's buyer, and the contract must be valid
+// at the time; a buyer typed in alongside must be the same one. Without a contract, a name that matches a
+// registered buyer is stored as the registered name, so one buyer's totals do not split over spellings.
+// Reads through the caller's transaction, so the contract checked is the one the record is written against.
+export const resolveContractBuyer = async (
+  tx: Transaction | typeof db,
+  contractId: number | null,
+  buyer: string | null,
+  at: Date
+): Promise<{ contract_id: number | null; buyer: string | null }> => {
+  if (contractId === null) {
+    if (buyer === null) {
+      return { contract_id: null, buyer: null };
+    }
+    const registered = await findBuyerByName(tx, buyer);
+    return { contract_id: null, buyer: registered ? registered.name : buyer };
+  }
+
+  const contracts = await tx.select({ contract: salesContractsTable, buyer: buyersTable })
+    .from(salesContractsTable)
+    .innerJoin(buyersTable, eq(salesContractsTable.buyer_id, buyersTable.id))
+    .where(eq(salesContractsTable.id, contractId))
+    .execute();
+
+  if (contracts.length === 0) {
+    throw new Error(`Sales contract with ID ${contractId} not found`);
+  }
+
+  const { contract, buyer: contractBuyer } = contracts[0];
+  if (at < contract.valid_from || at > contract.valid_to) {
+    throw new Error(`Sales contract ${contract.contract_number} is not valid on ${at.toISOString().slice(0, 10)}`);
+  }
+
+  if (buyer !== null && normalizeBuyerName(buyer) !== contractBuyer.name_key) {
+    throw new Error(`'${buyer}' is not the buyer under sales contract ${contract.contract_number} (${contractBuyer.name})`);
+  }
+
+  return { contract_id: contract.id, buyer: contractBuyer.name };
+};
+
+export async function createSalesContract(input: CreateSalesContractInput): Promise<SalesContract> {
+  try {
+    const buyers = await db.select()
+      .from(buyersTable)
+      .where(eq(buyersTable.id, input.buyer_id))
+      .execute();
+
+    if (buyers.length === 0 || !buyers[0].is_active) {
+      throw new Error(`Buyer with ID ${input.buyer_id} not found or inactive`);
+    }
+
+    assertValidity(input.valid_from, input.valid_to);
+
+    const existing = await db.select({ id: salesContractsTable.id })
+      .from(salesContractsTable)
+      .where(eq(salesContractsTable.contract_number, input.contract_number))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`Sales contract ${input.contract_number} already exists`);
+    }
+
+    const result = await db.insert(salesContractsTable)
+      .values({
+        buyer_id: input.buyer_id,
+        contract_number: input.contract_number,
+        total_quantity: input.total_quantity.toString(),
+        tolerance_percent: input.tolerance_percent.toString(),
+        price_basis: input.price_basis,
+        price_per_ton: toNumeric(input.price_per_ton),
+        spec_basis: input.spec_basis,
+        min_calorific_value: toNumeric(input.min_calorific_value),
+        max_total_moisture: toNumeric(input.max_total_moisture),
+        max_ash: toNumeric(input.max_ash),
+        max_sulphur: toNumeric(input.max_sulphur),
+        valid_from: input.valid_from,
+        valid_to: input.valid_to,
+        notes: input.notes
+      })
+      .returning()
+      .execute();
+
+    return toSalesContract(result[0]);
+  } catch (error) {
+    console.error('Sales contract creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateSalesContract(input: UpdateSalesContractInput): Promise<SalesContract> {
+  try {
+    const existing = await db.select()
+      .from(salesContractsTable)
+      .where(eq(salesContractsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Sales contract with ID ${input.id} not found`);
+    }
+
+    const contract = existing[0];
+    assertValidity(input.valid_from ?? contract.valid_from, input.valid_to ?? contract.valid_to);
+
+    const updateData: Partial<typeof salesContractsTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.total_quantity !== undefined) updateData.total_quantity = input.total_quantity.toString();
+    if (input.tolerance_percent !== undefined) updateData.tolerance_percent = input.tolerance_percent.toString();
+    if (input.price_basis !== undefined) updateData.price_basis = input.price_basis;
+    if (input.price_per_ton !== undefined) updateData.price_per_ton = toNumeric(input.price_per_ton);
+    if (input.spec_basis !== undefined) updateData.spec_basis = input.spec_basis;
+    if (input.min_calorific_value !== undefined) updateData.min_calorific_value = toNumeric(input.min_calorific_value);
+    if (input.max_total_moisture !== undefined) updateData.max_total_moisture = toNumeric(input.max_total_moisture);
+    if (input.max_ash !== undefined) updateData.max_ash = toNumeric(input.max_ash);
+    if (input.max_sulphur !== undefined) updateData.max_sulphur = toNumeric(input.max_sulphur);
+    if (input.valid_from !== undefined) updateData.valid_from = input.valid_from;
+    if (input.valid_to !== undefined) updateData.valid_to = input.valid_to;
+    if (input.notes !== undefined) updateData.notes = input.notes;
+
+    const result = await db.update(salesContractsTable)
+      .set(updateData)
+      .where(eq(salesContractsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toSalesContract(result[0]);
+  } catch (error) {
+    console.error('Sales contract update failed:', error);
+    throw error;
+  }
+}
+
+export async function getSalesContracts(filter?: SalesContractFilter): Promise<SalesContract[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (filter?.buyer_id !== undefined) {
+      conditions.push(eq(salesContractsTable.buyer_id, filter.buyer_id));
+    }
+
+    if (filter?.valid_on !== undefined) {
+      conditions.push(lte(salesContractsTable.valid_from, filter.valid_on));
+      conditions.push(gte(salesContractsTable.valid_to, filter.valid_on));
+    }
+
+    const contracts = await db.select()
+      .from(salesContractsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(salesContractsTable.valid_from), asc(salesContractsTable.contract_number))
+      .execute();
+
+    return contracts.map(toSalesContract);
+  } catch (error) {
+    console.error('Failed to fetch sales contracts:', error);
+    throw error;
+  }
+}
+
+// Delivered is the barge loads under the contract, net of voids and corrections. Loads outside the
+// caller's scope are left out of the breakdown and the delivered total.
+export async function getContractFulfilment(contractId: number, scope?: PermissionScope): Promise<ContractFulfilment> {
+  try {
+    const contracts = await db.select({ contract: salesContractsTable, buyer_name: buyersTable.name })
+      .from(salesContractsTable)
+      .innerJoin(buyersTable, eq(salesContractsTable.buyer_id, buyersTable.id))
+      .where(eq(salesContractsTable.id, contractId))
+      .execute();
+
+    if (contracts.length === 0) {
+      throw new Error(`Sales contract with ID ${contractId} not found`);
+    }
+
+    const conditions: SQL<unknown>[] = [eq(bargingRecordsTable.contract_id, contractId)];
+    const scopeFilter = scopeCondition(scope, bargingRecordsTable.jetty_id, bargingRecordsTable.contractor_id);
+    if (scopeFilter) {
+      conditions.push(scopeFilter);
+    }
+
+    const loads = await db.select({
+      shipment_id: bargingRecordsTable.shipment_id,
+      vessel_name: vesselsTable.name,
+      tonnage: sum(bargingRecordsTable.tonnage),
+      barge_loads: sql<string>`sum(case when ${bargingRecordsTable.entry_type} = 'void' then -1 else 1 end)`
+    })
+      .from(bargingRecordsTable)
+      .leftJoin(shipmentsTable, eq(bargingRecordsTable.shipment_id, shipmentsTable.id))
+      .leftJoin(vesselsTable, eq(shipmentsTable.vessel_id, vesselsTable.id))
+      .where(and(...conditions))
+      .groupBy(bargingRecordsTable.shipment_id, vesselsTable.name)
+      .orderBy(asc(bargingRecordsTable.shipment_id))
+      .execute();
+
+    const contract = toSalesContract(contracts[0].contract);
+    const byShipment = loads
+      .map(load => ({
+        shipment_id: load.shipment_id,
+        vessel_name: load.vessel_name,
+        tonnage: round(parseFloat(load.tonnage ?? '0')),
+        barge_loads: parseInt(load.barge_loads)
+      }))
+      .filter(entry => entry.barge_loads > 0);
+
+    const delivered = round(byShipment.reduce((total, entry) => total + entry.tonnage, 0));
+    const minimum = round(contract.total_quantity * (1 - contract.tolerance_percent / 100));
+    const maximum = round(contract.total_quantity * (1 + contract.tolerance_percent / 100));
+
+    let status: ContractFulfilment['status'];
+    if (delivered > maximum) {
+      status = 'over_delivered';
+    } else if (delivered >= minimum) {
+      status = 'within_tolerance';
+    } else if (new Date() > contract.valid_to) {
+      status = 'under_delivered';
+    } else {
+      status = 'in_progress';
+    }
+
+    return {
+      contract,
+      buyer_name: contracts[0].buyer_name,
+      contracted_quantity: contract.total_quantity,
+      minimum_quantity: minimum,
+      maximum_quantity: maximum,
+      delivered_tonnage: delivered,
+      delivered_percent: round(delivered / contract.total_quantity * 100),
+      remaining_to_minimum: round(Math.max(minimum - delivered, 0)),
+      remaining_to_maximum: round(Math.max(maximum - delivered, 0)),
+      barge_loads: byShipment.reduce((total, entry) => total + entry.barge_loads, 0),
+      by_shipment: byShipment,
+      status
+    };
+  } catch (error) {
+    console.error('Failed to fetch contract fulfilment:', error);
+    throw error;
+  }
+}
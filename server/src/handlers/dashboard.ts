@@ -6,17 +6,21 @@ import {
   productionRecordsTable,
   bargingRecordsTable,
   stockAdjustmentsTable,
+  stockMovementsTable,
   fuelPurchasesTable,
   fuelUsageTable,
   usersTable
 } from '../db/schema';
 import { 
   type DashboardStats, 
-  type RecentActivity 
+  type RecentActivity,
+  type PermissionScope
 } from '../schema';
 import { eq, gte, lte, and, sum, count, desc, isNotNull, sql } from 'drizzle-orm';
+import { scopeCondition, jettyScopeCondition } from './permissions';
+import { getJettyUtilisation, CAPACITY_WARNING_PERCENT, CAPACITY_CRITICAL_PERCENT } from './jetties';
 
-export async function getDashboardStats(): Promise<DashboardStats> {
+export async function getDashboardStats(scope?: PermissionScope): Promise<DashboardStats> {
   try {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -24,9 +28,12 @@ export async function getDashboardStats(): Promise<DashboardStats> {
     tomorrow.setDate(tomorrow.getDate() + 1);
 
     // Get total stock
+    const stockScope = scopeCondition(scope, stockTable.jetty_id, stockTable.contractor_id);
+
     const totalStockResult = await db
       .select({ total: sum(stockTable.tonnage) })
       .from(stockTable)
+      .where(stockScope)
       .execute();
     
     const totalStock = totalStockResult[0]?.total ? parseFloat(totalStockResult[0].total) : 0;
@@ -38,7 +45,8 @@ export async function getDashboardStats(): Promise<DashboardStats> {
       .where(
         and(
           gte(productionRecordsTable.date_time, today),
-          lte(productionRecordsTable.date_time, tomorrow)
+          lte(productionRecordsTable.date_time, tomorrow),
+          scopeCondition(scope, productionRecordsTable.jetty_id, productionRecordsTable.contractor_id)
         )
       )
       .execute();
@@ -52,7 +60,8 @@ export async function getDashboardStats(): Promise<DashboardStats> {
       .where(
         and(
           gte(bargingRecordsTable.date_time, today),
-          lte(bargingRecordsTable.date_time, tomorrow)
+          lte(bargingRecordsTable.date_time, tomorrow),
+          scopeCondition(scope, bargingRecordsTable.jetty_id, bargingRecordsTable.contractor_id)
         )
       )
       .execute();
@@ -68,49 +77,93 @@ export async function getDashboardStats(): Promise<DashboardStats> {
     
     const activeContractors = activeContractorsResult[0]?.count || 0;
 
-    // Stock by jetty with names
+    // Stock by jetty with names, split by grade
     const stockByJettyResult = await db
       .select({
         jetty_id: stockTable.jetty_id,
         jetty_name: jettiesTable.name,
+        coal_grade: stockTable.coal_grade,
         total_tonnage: sum(stockTable.tonnage)
       })
       .from(stockTable)
       .innerJoin(jettiesTable, eq(stockTable.jetty_id, jettiesTable.id))
-      .groupBy(stockTable.jetty_id, jettiesTable.name)
+      .where(stockScope)
+      .groupBy(stockTable.jetty_id, jettiesTable.name, stockTable.coal_grade)
+      .orderBy(stockTable.jetty_id, stockTable.coal_grade)
       .execute();
 
-    const stockByJetty = stockByJettyResult.map(row => ({
-      jetty_id: row.jetty_id,
-      jetty_name: row.jetty_name,
-      total_tonnage: row.total_tonnage ? parseFloat(row.total_tonnage) : 0
-    }));
+    const stockByJetty: DashboardStats['stock_by_jetty'] = [];
+    for (const row of stockByJettyResult) {
+      const tonnage = row.total_tonnage ? parseFloat(row.total_tonnage) : 0;
+      let jetty = stockByJetty.find(entry => entry.jetty_id === row.jetty_id);
+      if (!jetty) {
+        jetty = { jetty_id: row.jetty_id, jetty_name: row.jetty_name, total_tonnage: 0, by_grade: [] };
+        stockByJetty.push(jetty);
+      }
+      jetty.total_tonnage += tonnage;
+      jetty.by_grade.push({ coal_grade: row.coal_grade, tonnage });
+    }
 
-    // Stock by contractor with names
+    // Stock by contractor with names, split by grade
     const stockByContractorResult = await db
       .select({
         contractor_id: stockTable.contractor_id,
         contractor_name: contractorsTable.name,
+        coal_grade: stockTable.coal_grade,
         total_tonnage: sum(stockTable.tonnage)
       })
       .from(stockTable)
       .innerJoin(contractorsTable, eq(stockTable.contractor_id, contractorsTable.id))
-      .groupBy(stockTable.contractor_id, contractorsTable.name)
+      .where(stockScope)
+      .groupBy(stockTable.contractor_id, contractorsTable.name, stockTable.coal_grade)
+      .orderBy(stockTable.contractor_id, stockTable.coal_grade)
+      .execute();
+
+    const stockByContractor: DashboardStats['stock_by_contractor'] = [];
+    for (const row of stockByContractorResult) {
+      const tonnage = row.total_tonnage ? parseFloat(row.total_tonnage) : 0;
+      let contractor = stockByContractor.find(entry => entry.contractor_id === row.contractor_id);
+      if (!contractor) {
+        contractor = { contractor_id: row.contractor_id, contractor_name: row.contractor_name, total_tonnage: 0, by_grade: [] };
+        stockByContractor.push(contractor);
+      }
+      contractor.total_tonnage += tonnage;
+      contractor.by_grade.push({ coal_grade: row.coal_grade, tonnage });
+    }
+
+    // Stock by grade across all jetties
+    const stockByGradeResult = await db
+      .select({
+        coal_grade: stockTable.coal_grade,
+        total_tonnage: sum(stockTable.tonnage)
+      })
+      .from(stockTable)
+      .where(stockScope)
+      .groupBy(stockTable.coal_grade)
+      .orderBy(stockTable.coal_grade)
       .execute();
 
-    const stockByContractor = stockByContractorResult.map(row => ({
-      contractor_id: row.contractor_id,
-      contractor_name: row.contractor_name,
-      total_tonnage: row.total_tonnage ? parseFloat(row.total_tonnage) : 0
+    const stockByGrade = stockByGradeResult.map(row => ({
+      coal_grade: row.coal_grade,
+      tonnage: row.total_tonnage ? parseFloat(row.total_tonnage) : 0
     }));
 
+    const capacityAlerts = (await getJettyUtilisation(scope))
+      .filter(jetty => jetty.status !== 'normal');
+
     return {
       total_stock: totalStock,
       daily_production: dailyProduction,
       daily_barging: dailyBarging,
       active_contractors: activeContractors,
+      stock_by_grade: stockByGrade,
       stock_by_jetty: stockByJetty,
-      stock_by_contractor: stockByContractor
+      stock_by_contractor: stockByContractor,
+      capacity_thresholds: {
+        warning_percent: CAPACITY_WARNING_PERCENT,
+        critical_percent: CAPACITY_CRITICAL_PERCENT
+      },
+      capacity_alerts: capacityAlerts
     };
   } catch (error) {
     console.error('Dashboard stats retrieval failed:', error);
@@ -118,7 +171,7 @@ export async function getDashboardStats(): Promise<DashboardStats> {
   }
 }
 
-export async function getRecentActivity(limit: number = 10): Promise<RecentActivity[]> {
+export async function getRecentActivity(limit: number = 10, scope?: PermissionScope): Promise<RecentActivity[]> {
   try {
     // Get recent production records
     const recentProduction = await db
@@ -132,6 +185,7 @@ export async function getRecentActivity(limit: number = 10): Promise<RecentActiv
       })
       .from(productionRecordsTable)
       .innerJoin(usersTable, eq(productionRecordsTable.operator_id, usersTable.id))
+      .where(scopeCondition(scope, productionRecordsTable.jetty_id, productionRecordsTable.contractor_id))
       .orderBy(desc(productionRecordsTable.created_at))
       .limit(limit)
       .execute();
@@ -148,6 +202,7 @@ export async function getRecentActivity(limit: number = 10): Promise<RecentActiv
       })
       .from(bargingRecordsTable)
       .innerJoin(usersTable, eq(bargingRecordsTable.operator_id, usersTable.id))
+      .where(scopeCondition(scope, bargingRecordsTable.jetty_id, bargingRecordsTable.contractor_id))
       .orderBy(desc(bargingRecordsTable.created_at))
       .limit(limit)
       .execute();
@@ -159,11 +214,14 @@ export async function getRecentActivity(limit: number = 10): Promise<RecentActiv
         type: sql<string>`'stock_adjustment'`,
         adjustment_amount: stockAdjustmentsTable.adjustment_amount,
         reason: stockAdjustmentsTable.reason,
+        status: stockAdjustmentsTable.status,
         operator_name: usersTable.full_name,
         created_at: stockAdjustmentsTable.created_at
       })
       .from(stockAdjustmentsTable)
       .innerJoin(usersTable, eq(stockAdjustmentsTable.adjusted_by, usersTable.id))
+      .innerJoin(stockTable, eq(stockAdjustmentsTable.stock_id, stockTable.id))
+      .where(scopeCondition(scope, stockTable.jetty_id, stockTable.contractor_id))
       .orderBy(desc(stockAdjustmentsTable.created_at))
       .limit(limit)
       .execute();
@@ -180,6 +238,7 @@ export async function getRecentActivity(limit: number = 10): Promise<RecentActiv
       })
       .from(fuelPurchasesTable)
       .innerJoin(usersTable, eq(fuelPurchasesTable.created_by, usersTable.id))
+      .where(jettyScopeCondition(scope, fuelPurchasesTable.jetty_id))
       .orderBy(desc(fuelPurchasesTable.created_at))
       .limit(limit)
       .execute();
@@ -216,7 +275,9 @@ export async function getRecentActivity(limit: number = 10): Promise<RecentActiv
       activities.push({
         id: record.id,
         type: 'stock_adjustment' as const,
-        description: `Stock Adjustment: ${record.reason} - ${parseFloat(record.adjustment_amount)} tons`,
+        description: record.status === 'applied'
+          ? `Stock Adjustment: ${record.reason} - ${parseFloat(record.adjustment_amount)} tons`
+          : `Stock Adjustment (${record.status}): ${record.reason} - ${parseFloat(record.adjustment_amount)} tons`,
         tonnage: parseFloat(record.adjustment_amount),
         operator_name: record.operator_name,
         created_at: record.created_at
@@ -246,7 +307,21 @@ export async function getRecentActivity(limit: number = 10): Promise<RecentActiv
   }
 }
 
-export async function getKPIMetrics(dateFrom?: Date, dateTo?: Date): Promise<{
+// Total stock across the contractors and jetties in scope as of a moment, from the movement ledger
+const getTotalBalanceAt = async (at: Date, scope?: PermissionScope): Promise<number> => {
+  const result = await db
+    .select({ total: sum(stockMovementsTable.change) })
+    .from(stockMovementsTable)
+    .where(and(
+      lte(stockMovementsTable.occurred_at, at),
+      scopeCondition(scope, stockMovementsTable.jetty_id, stockMovementsTable.contractor_id)
+    ))
+    .execute();
+
+  return result[0]?.total ? parseFloat(result[0].total) : 0;
+};
+
+export async function getKPIMetrics(dateFrom?: Date, dateTo?: Date, scope?: PermissionScope): Promise<{
   stock_available: number;
   daily_inflow: number;
   daily_outflow: number;
@@ -261,13 +336,8 @@ export async function getKPIMetrics(dateFrom?: Date, dateTo?: Date): Promise<{
     const defaultDateFrom = dateFrom || new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000); // 30 days ago
     const defaultDateTo = dateTo || today;
 
-    // Get current stock available
-    const stockResult = await db
-      .select({ total: sum(stockTable.tonnage) })
-      .from(stockTable)
-      .execute();
-    
-    const stockAvailable = stockResult[0]?.total ? parseFloat(stockResult[0].total) : 0;
+    // Stock available at the end of the period, from the movement ledger
+    const stockAvailable = await getTotalBalanceAt(defaultDateTo, scope);
 
     // Get production in date range
     const productionResult = await db
@@ -276,7 +346,8 @@ export async function getKPIMetrics(dateFrom?: Date, dateTo?: Date): Promise<{
       .where(
         and(
           gte(productionRecordsTable.date_time, defaultDateFrom),
-          lte(productionRecordsTable.date_time, defaultDateTo)
+          lte(productionRecordsTable.date_time, defaultDateTo),
+          scopeCondition(scope, productionRecordsTable.jetty_id, productionRecordsTable.contractor_id)
         )
       )
       .execute();
@@ -290,7 +361,8 @@ export async function getKPIMetrics(dateFrom?: Date, dateTo?: Date): Promise<{
       .where(
         and(
           gte(bargingRecordsTable.date_time, defaultDateFrom),
-          lte(bargingRecordsTable.date_time, defaultDateTo)
+          lte(bargingRecordsTable.date_time, defaultDateTo),
+          scopeCondition(scope, bargingRecordsTable.jetty_id, bargingRecordsTable.contractor_id)
         )
       )
       .execute();
@@ -307,17 +379,20 @@ export async function getKPIMetrics(dateFrom?: Date, dateTo?: Date): Promise<{
     // Calculate stock turnover days
     const stockTurnoverDays = averageDailyBarging > 0 ? stockAvailable / averageDailyBarging : 0;
 
-    // Get fuel efficiency (tons per liter)
+    // Get fuel efficiency (tons per liter). Fuel usage has no jetty of its own, so a scoped caller
+    // only counts usage logged against a production record in scope.
     const fuelUsageResult = await db
       .select({ 
         total_fuel: sum(fuelUsageTable.volume_liters),
         total_production: sum(fuelUsageTable.production_tonnage)
       })
       .from(fuelUsageTable)
+      .leftJoin(productionRecordsTable, eq(fuelUsageTable.production_record_id, productionRecordsTable.id))
       .where(
         and(
           gte(fuelUsageTable.date, defaultDateFrom),
-          lte(fuelUsageTable.date, defaultDateTo)
+          lte(fuelUsageTable.date, defaultDateTo),
+          scopeCondition(scope, productionRecordsTable.jetty_id, productionRecordsTable.contractor_id)
         )
       )
       .execute();
@@ -342,7 +417,7 @@ export async function getKPIMetrics(dateFrom?: Date, dateTo?: Date): Promise<{
   }
 }
 
-export async function getStockTrends(days: number = 30): Promise<Array<{
+export async function getStockTrends(days: number = 30, scope?: PermissionScope): Promise<Array<{
   date: Date;
   total_stock: number;
   production: number;
@@ -373,7 +448,8 @@ export async function getStockTrends(days: number = 30): Promise<Array<{
         .where(
           and(
             gte(productionRecordsTable.date_time, currentDate),
-            lte(productionRecordsTable.date_time, nextDate)
+            lte(productionRecordsTable.date_time, nextDate),
+            scopeCondition(scope, productionRecordsTable.jetty_id, productionRecordsTable.contractor_id)
           )
         )
         .execute();
@@ -387,20 +463,16 @@ export async function getStockTrends(days: number = 30): Promise<Array<{
         .where(
           and(
             gte(bargingRecordsTable.date_time, currentDate),
-            lte(bargingRecordsTable.date_time, nextDate)
+            lte(bargingRecordsTable.date_time, nextDate),
+            scopeCondition(scope, bargingRecordsTable.jetty_id, bargingRecordsTable.contractor_id)
           )
         )
         .execute();
       
       const dailyBarging = bargingResult[0]?.total ? parseFloat(bargingResult[0].total) : 0;
 
-      // For total stock, we'll use current stock (this is simplified - in reality you'd need historical stock data)
-      const stockResult = await db
-        .select({ total: sum(stockTable.tonnage) })
-        .from(stockTable)
-        .execute();
-      
-      const totalStock = stockResult[0]?.total ? parseFloat(stockResult[0].total) : 0;
+      // Stock held at the end of the day
+      const totalStock = await getTotalBalanceAt(nextDate, scope);
 
       trends.push({
         date: currentDate,
@@ -418,7 +490,7 @@ export async function getStockTrends(days: number = 30): Promise<Array<{
   }
 }
 
-export async function getContractorPerformance(dateFrom?: Date, dateTo?: Date): Promise<Array<{
+export async function getContractorPerformance(dateFrom?: Date, dateTo?: Date, scope?: PermissionScope): Promise<Array<{
   contractor_id: number;
   contractor_name: string;
   total_production: number;
@@ -445,7 +517,8 @@ export async function getContractorPerformance(dateFrom?: Date, dateTo?: Date):
       .where(
         and(
           gte(productionRecordsTable.date_time, defaultDateFrom),
-          lte(productionRecordsTable.date_time, defaultDateTo)
+          lte(productionRecordsTable.date_time, defaultDateTo),
+          scopeCondition(scope, productionRecordsTable.jetty_id, productionRecordsTable.contractor_id)
         )
       )
       .groupBy(productionRecordsTable.contractor_id, contractorsTable.name)
@@ -461,7 +534,8 @@ export async function getContractorPerformance(dateFrom?: Date, dateTo?: Date):
       .where(
         and(
           gte(bargingRecordsTable.date_time, defaultDateFrom),
-          lte(bargingRecordsTable.date_time, defaultDateTo)
+          lte(bargingRecordsTable.date_time, defaultDateTo),
+          scopeCondition(scope, bargingRecordsTable.jetty_id, bargingRecordsTable.contractor_id)
         )
       )
       .groupBy(bargingRecordsTable.contractor_id)
@@ -474,6 +548,7 @@ export async function getContractorPerformance(dateFrom?: Date, dateTo?: Date):
         current_stock: sum(stockTable.tonnage)
       })
       .from(stockTable)
+      .where(scopeCondition(scope, stockTable.jetty_id, stockTable.contractor_id))
       .groupBy(stockTable.contractor_id)
       .execute();
 
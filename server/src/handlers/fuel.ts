@@ -11,12 +11,23 @@ import {
   type CreateFuelPurchaseInput, 
   type CreateFuelUsageInput,
   type FuelPurchase,
-  type FuelUsage 
+  type FuelUsage,
+  type RequestActor,
+  type PermissionScope
 } from '../schema';
+import { isJettyWithinScope, jettyScopeCondition, scopeCondition } from './permissions';
 import { eq, gte, lte, and, desc, sum, SQL } from 'drizzle-orm';
 
-export async function createFuelPurchase(input: CreateFuelPurchaseInput): Promise<FuelPurchase> {
+export async function createFuelPurchase(
+  input: CreateFuelPurchaseInput,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<FuelPurchase> {
   try {
+    if (!isJettyWithinScope(scope, input.jetty_id)) {
+      throw new Error(`Permission 'fuel.record' does not cover jetty ${input.jetty_id}`);
+    }
+
     // Validate jetty exists and is active
     const jetty = await db.select()
       .from(jettiesTable)
@@ -37,7 +48,7 @@ export async function createFuelPurchase(input: CreateFuelPurchaseInput): Promis
         invoice_number: input.invoice_number,
         jetty_id: input.jetty_id,
         machine_destination: input.machine_destination,
-        created_by: input.created_by
+        created_by: actor.user_id
       })
       .returning()
       .execute();
@@ -54,7 +65,10 @@ export async function createFuelPurchase(input: CreateFuelPurchaseInput): Promis
   }
 }
 
-export async function createFuelUsage(input: CreateFuelUsageInput): Promise<FuelUsage> {
+export async function createFuelUsage(
+  input: CreateFuelUsageInput,
+  actor: RequestActor
+): Promise<FuelUsage> {
   try {
     // Validate production record exists if provided
     if (input.production_record_id) {
@@ -77,7 +91,7 @@ export async function createFuelUsage(input: CreateFuelUsageInput): Promise<Fuel
         volume_liters: input.volume_liters.toString(),
         production_tonnage: input.production_tonnage.toString(),
         production_record_id: input.production_record_id,
-        created_by: input.created_by
+        created_by: actor.user_id
       })
       .returning()
       .execute();
@@ -98,7 +112,8 @@ export async function getFuelPurchases(
   dateFrom?: Date,
   dateTo?: Date,
   jettyId?: number,
-  supplier?: string
+  supplier?: string,
+  scope?: PermissionScope
 ): Promise<Array<FuelPurchase & {
   jetty_name: string;
   created_by_name: string;
@@ -142,6 +157,11 @@ export async function getFuelPurchases(
       conditions.push(eq(fuelPurchasesTable.supplier, supplier));
     }
 
+    const scopeFilter = jettyScopeCondition(scope, fuelPurchasesTable.jetty_id);
+    if (scopeFilter) {
+      conditions.push(scopeFilter);
+    }
+
     // Build final query with conditions and ordering
     const finalQuery = conditions.length > 0
       ? baseQuery.where(conditions.length === 1 ? conditions[0] : and(...conditions))
@@ -252,11 +272,11 @@ export async function getFuelUsage(
   }
 }
 
-export async function getFuelPurchaseById(id: number): Promise<FuelPurchase | null> {
+export async function getFuelPurchaseById(id: number, scope?: PermissionScope): Promise<FuelPurchase | null> {
   try {
     const results = await db.select()
       .from(fuelPurchasesTable)
-      .where(eq(fuelPurchasesTable.id, id))
+      .where(and(eq(fuelPurchasesTable.id, id), jettyScopeCondition(scope, fuelPurchasesTable.jetty_id)))
       .execute();
 
     if (results.length === 0) {
@@ -298,9 +318,11 @@ export async function getFuelUsageById(id: number): Promise<FuelUsage | null> {
   }
 }
 
+// Fuel usage has no jetty of its own; a scoped caller gets the usage logged against production records in scope
 export async function getFuelSummary(
   dateFrom?: Date,
-  dateTo?: Date
+  dateTo?: Date,
+  scope?: PermissionScope
 ): Promise<{
   total_purchased_liters: number;
   total_purchased_cost: number;
@@ -322,7 +344,9 @@ export async function getFuelSummary(
       volume_liters: fuelUsageTable.volume_liters,
       production_tonnage: fuelUsageTable.production_tonnage,
       machine_equipment: fuelUsageTable.machine_equipment
-    }).from(fuelUsageTable);
+    })
+      .from(fuelUsageTable)
+      .leftJoin(productionRecordsTable, eq(fuelUsageTable.production_record_id, productionRecordsTable.id));
 
     const purchaseConditions: SQL<unknown>[] = [];
     const usageConditions: SQL<unknown>[] = [];
@@ -337,6 +361,16 @@ export async function getFuelSummary(
       usageConditions.push(lte(fuelUsageTable.date, dateTo));
     }
 
+    const purchaseScope = jettyScopeCondition(scope, fuelPurchasesTable.jetty_id);
+    if (purchaseScope) {
+      purchaseConditions.push(purchaseScope);
+    }
+
+    const usageScope = scopeCondition(scope, productionRecordsTable.jetty_id, productionRecordsTable.contractor_id);
+    if (usageScope) {
+      usageConditions.push(usageScope);
+    }
+
     // Build final queries
     const purchaseQuery = purchaseConditions.length > 0
       ? basePurchaseQuery.where(
@@ -1,27 +1,47 @@
 import { db } from '../db';
-import { jettiesTable } from '../db/schema';
-import { eq, asc } from 'drizzle-orm';
+import { jettiesTable, stockTable, stockpilesTable } from '../db/schema';
+import { eq, and, asc, sum } from 'drizzle-orm';
 import { 
   type CreateJettyInput, 
   type UpdateJettyInput, 
-  type Jetty 
+  type Jetty,
+  type JettyUtilisation,
+  type CapacityStatus,
+  type PermissionScope
 } from '../schema';
+import { isJettyWithinScope } from './permissions';
+import { getDefaultStockpile, DEFAULT_STOCKPILE_CODE } from './stockpiles';
+
+// Utilisation (stock on hand as a percentage of capacity) at which a jetty is flagged
+export const CAPACITY_WARNING_PERCENT = parseInt(process.env['CAPACITY_WARNING_PERCENT'] || '80');
+export const CAPACITY_CRITICAL_PERCENT = parseInt(process.env['CAPACITY_CRITICAL_PERCENT'] || '95');
+
+const capacityStatus = (utilisationPercent: number): CapacityStatus => {
+  if (utilisationPercent > 100) return 'over_capacity';
+  if (utilisationPercent >= CAPACITY_CRITICAL_PERCENT) return 'critical';
+  if (utilisationPercent >= CAPACITY_WARNING_PERCENT) return 'warning';
+  return 'normal';
+};
 
 export const createJetty = async (input: CreateJettyInput): Promise<Jetty> => {
   try {
-    // Insert jetty record
-    const result = await db.insert(jettiesTable)
-      .values({
-        name: input.name,
-        code: input.code,
-        capacity: input.capacity.toString(), // Convert number to string for numeric column
-        is_active: true
-      })
-      .returning()
-      .execute();
+    // Insert jetty record together with its default stockpile
+    const jetty = await db.transaction(async (tx) => {
+      const result = await tx.insert(jettiesTable)
+        .values({
+          name: input.name,
+          code: input.code,
+          capacity: input.capacity.toString(), // Convert number to string for numeric column
+          is_active: true
+        })
+        .returning()
+        .execute();
+
+      await getDefaultStockpile(tx, result[0].id);
+      return result[0];
+    });
 
     // Convert numeric fields back to numbers before returning
-    const jetty = result[0];
     return {
       ...jetty,
       capacity: parseFloat(jetty.capacity) // Convert string back to number
@@ -118,11 +138,21 @@ export const updateJetty = async (input: UpdateJettyInput): Promise<Jetty> => {
       updateValues.is_active = input.is_active;
     }
 
-    const result = await db.update(jettiesTable)
-      .set(updateValues)
-      .where(eq(jettiesTable.id, input.id))
-      .returning()
-      .execute();
+    const result = await db.transaction(async (tx) => {
+      // The default stockpile covers the whole jetty, so it follows the jetty's capacity
+      if (input.capacity !== undefined) {
+        await tx.update(stockpilesTable)
+          .set({ capacity: input.capacity.toString(), updated_at: new Date() })
+          .where(and(eq(stockpilesTable.jetty_id, input.id), eq(stockpilesTable.code, DEFAULT_STOCKPILE_CODE)))
+          .execute();
+      }
+
+      return tx.update(jettiesTable)
+        .set(updateValues)
+        .where(eq(jettiesTable.id, input.id))
+        .returning()
+        .execute();
+    });
 
     // Convert numeric fields back to numbers before returning
     const jetty = result[0];
@@ -134,4 +164,43 @@ export const updateJetty = async (input: UpdateJettyInput): Promise<Jetty> => {
     console.error('Jetty update failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+// Stock on hand against capacity for each active jetty, across all contractors and grades.
+// A scoped caller sees the jetties its grants reach.
+export const getJettyUtilisation = async (scope?: PermissionScope): Promise<JettyUtilisation[]> => {
+  try {
+    const results = await db.select({
+      jetty_id: jettiesTable.id,
+      jetty_name: jettiesTable.name,
+      capacity: jettiesTable.capacity,
+      stock_tonnage: sum(stockTable.tonnage)
+    })
+      .from(jettiesTable)
+      .leftJoin(stockTable, eq(stockTable.jetty_id, jettiesTable.id))
+      .where(eq(jettiesTable.is_active, true))
+      .groupBy(jettiesTable.id, jettiesTable.name, jettiesTable.capacity)
+      .orderBy(asc(jettiesTable.name))
+      .execute();
+
+    return results
+      .filter(row => isJettyWithinScope(scope, row.jetty_id))
+      .map(row => {
+        const capacity = parseFloat(row.capacity);
+        const stockTonnage = row.stock_tonnage ? parseFloat(row.stock_tonnage) : 0;
+        const utilisationPercent = (stockTonnage / capacity) * 100;
+
+        return {
+          jetty_id: row.jetty_id,
+          jetty_name: row.jetty_name,
+          capacity,
+          stock_tonnage: stockTonnage,
+          utilisation_percent: Math.round(utilisationPercent * 100) / 100,
+          headroom: capacity - stockTonnage,
+          status: capacityStatus(utilisationPercent)
+        };
+      });
+  } catch (error) {
+    console.error('Failed to fetch jetty utilisation:', error);
+    throw error;
+  }
+};
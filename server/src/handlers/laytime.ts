@@ -0,0 +1,368 @@
+import { db } from '../db';
+import { laytimeTermsTable, laytimeEventsTable, shipmentsTable, bargingRecordsTable, auditLogTable } from '../db/schema';
+import {
+  type SetLaytimeTermsInput,
+  type RecordLaytimeEventInput,
+  type LaytimeTerms,
+  type LaytimeEvent,
+  type LaytimeEventType,
+  type LaytimeCalculation,
+  type RequestActor,
+  type PermissionScope,
+  type PermissionAction
+} from '../schema';
+import { getShipmentProgress } from './shipments';
+import { isJettyWithinScope, jettyScopeCondition } from './permissions';
+import { eq, and, not, exists, asc, sql, type SQL } from 'drizzle-orm';
+
+// Sundays under SHEX run midnight to midnight at the port, not in UTC
+const LAYTIME_UTC_OFFSET_HOURS = parseFloat(process.env['LAYTIME_UTC_OFFSET_HOURS'] || '8');
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Recorded at most once per shipment; weather stoppages may be recorded any number of times
+const MILESTONES: LaytimeEventType[] = ['nor_tendered', 'berthed', 'loading_commenced', 'loading_completed'];
+
+type LaytimeTermsRow = typeof laytimeTermsTable.$inferSelect;
+
+// Raised when the shipment does not have what a calculation needs yet (terms, milestones or loads),
+// so listings can show it as incomplete rather than fail
+export class LaytimeIncompleteError extends Error {}
+type LaytimePeriod = LaytimeCalculation['periods'][number];
+
+const toLaytimeTerms = (terms: LaytimeTermsRow): LaytimeTerms => ({
+  ...terms,
+  loading_rate: parseFloat(terms.loading_rate),
+  turn_time_hours: parseFloat(terms.turn_time_hours),
+  demurrage_rate: parseFloat(terms.demurrage_rate),
+  despatch_rate: parseFloat(terms.despatch_rate)
+});
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const assertShipmentExists = async (shipmentId: number): Promise<void> => {
+  const shipments = await db.select({ id: shipmentsTable.id })
+    .from(shipmentsTable)
+    .where(eq(shipmentsTable.id, shipmentId))
+    .execute();
+
+  if (shipments.length === 0) {
+    throw new Error(`Shipment with ID ${shipmentId} not found`);
+  }
+};
+
+// Laytime runs over the whole vessel, so a scoped caller needs every jetty the shipment is loaded at.
+// A shipment not loading yet has no jetty and is open to anyone with the permission.
+const assertShipmentWithinScope = async (
+  shipmentId: number,
+  scope: PermissionScope | undefined,
+  action: PermissionAction
+): Promise<void> => {
+  if (!scope || scope.unrestricted) {
+    return;
+  }
+
+  const jetties = await db.selectDistinct({ jetty_id: bargingRecordsTable.jetty_id })
+    .from(bargingRecordsTable)
+    .where(eq(bargingRecordsTable.shipment_id, shipmentId))
+    .execute();
+
+  const outside = jetties.find(row => !isJettyWithinScope(scope, row.jetty_id));
+  if (outside) {
+    throw new Error(`Permission '${action}' does not cover jetty ${outside.jetty_id}`);
+  }
+};
+
+// WHERE condition on shipments for the same rule, so listings leave out what assertShipmentWithinScope would refuse
+export const laytimeScopeCondition = (scope: PermissionScope | undefined): SQL | undefined => {
+  if (!scope || scope.unrestricted) return undefined;
+  if (scope.grants.length === 0) return sql`false`;
+
+  const jettyFilter = jettyScopeCondition(scope, bargingRecordsTable.jetty_id);
+  if (!jettyFilter) return undefined;
+
+  return not(exists(db.select({ id: bargingRecordsTable.id })
+    .from(bargingRecordsTable)
+    .where(and(eq(bargingRecordsTable.shipment_id, shipmentsTable.id), not(jettyFilter)))));
+};
+
+// Sundays (port time) overlapping [from, to)
+const sundaysBetween = (from: number, to: number): Array<{ from: number; to: number }> => {
+  const offset = LAYTIME_UTC_OFFSET_HOURS * HOUR;
+  const sundays: Array<{ from: number; to: number }> = [];
+  for (let day = Math.floor((from + offset) / DAY) * DAY - offset; day < to; day += DAY) {
+    if (new Date(day + offset).getUTCDay() === 0) {
+      sundays.push({ from: day, to: day + DAY });
+    }
+  }
+  return sundays;
+};
+
+// Split [from, to) at every stoppage and Sunday boundary and count the pieces against the laytime allowed.
+// Excluded time stops the clock only until laytime runs out: once on demurrage, always on demurrage.
+const buildTimeSheet = (
+  from: number,
+  to: number,
+  allowedHours: number,
+  exclusions: Array<{ from: number; to: number; description: string }>
+): LaytimePeriod[] => {
+  const clipped = exclusions
+    .map(exclusion => ({ ...exclusion, from: Math.max(exclusion.from, from), to: Math.min(exclusion.to, to) }))
+    .filter(exclusion => exclusion.from < exclusion.to);
+  const boundaries = [...new Set([from, to, ...clipped.flatMap(exclusion => [exclusion.from, exclusion.to])])]
+    .sort((a, b) => a - b);
+
+  const periods: LaytimePeriod[] = [];
+  const addPeriod = (start: number, end: number, description: string, countsAs: LaytimePeriod['counts_as']) => {
+    const last = periods[periods.length - 1];
+    if (last && last.description === description && last.counts_as === countsAs && last.to.getTime() === start) {
+      last.to = new Date(end);
+      last.hours = (end - last.from.getTime()) / HOUR;
+    } else {
+      periods.push({ from: new Date(start), to: new Date(end), description, counts_as: countsAs, hours: (end - start) / HOUR });
+    }
+  };
+
+  let remaining = allowedHours * HOUR;
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    const exclusion = clipped.find(candidate => candidate.from <= start && candidate.to >= end);
+
+    if (remaining <= 0) {
+      addPeriod(start, end, 'On demurrage', 'demurrage');
+    } else if (exclusion) {
+      addPeriod(start, end, exclusion.description, 'excluded');
+    } else if (end - start <= remaining) {
+      addPeriod(start, end, 'Laytime', 'laytime');
+      remaining -= end - start;
+    } else {
+      addPeriod(start, start + remaining, 'Laytime', 'laytime');
+      addPeriod(start + remaining, end, 'On demurrage', 'demurrage');
+      remaining = 0;
+    }
+  }
+
+  return periods.map(period => ({ ...period, hours: round(period.hours) }));
+};
+
+export async function setLaytimeTerms(input: SetLaytimeTermsInput): Promise<LaytimeTerms> {
+  try {
+    await assertShipmentExists(input.shipment_id);
+
+    const values = {
+      loading_rate: input.loading_rate.toString(),
+      terms: input.terms,
+      turn_time_hours: input.turn_time_hours.toString(),
+      demurrage_rate: input.demurrage_rate.toString(),
+      despatch_rate: input.despatch_rate.toString()
+    };
+
+    const result = await db.insert(laytimeTermsTable)
+      .values({ shipment_id: input.shipment_id, ...values })
+      .onConflictDoUpdate({
+        target: laytimeTermsTable.shipment_id,
+        set: { ...values, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    return toLaytimeTerms(result[0]);
+  } catch (error) {
+    console.error('Setting laytime terms failed:', error);
+    throw error;
+  }
+}
+
+export async function recordLaytimeEvent(
+  input: RecordLaytimeEventInput,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<LaytimeEvent> {
+  try {
+    await assertShipmentExists(input.shipment_id);
+    await assertShipmentWithinScope(input.shipment_id, scope, 'barging.create');
+
+    if (input.event === 'weather_stoppage') {
+      if (!input.ended_at || input.ended_at <= input.occurred_at) {
+        throw new Error('A weather stoppage needs an end after its start');
+      }
+    } else if (input.ended_at) {
+      throw new Error(`Only weather stoppages have an end, not ${input.event}`);
+    }
+
+    if (MILESTONES.includes(input.event)) {
+      const existing = await db.select({ id: laytimeEventsTable.id })
+        .from(laytimeEventsTable)
+        .where(and(eq(laytimeEventsTable.shipment_id, input.shipment_id), eq(laytimeEventsTable.event, input.event)))
+        .execute();
+
+      if (existing.length > 0) {
+        throw new Error(`${input.event} is already recorded for shipment #${input.shipment_id}; remove it to record it again`);
+      }
+    }
+
+    const result = await db.insert(laytimeEventsTable)
+      .values({
+        shipment_id: input.shipment_id,
+        event: input.event,
+        occurred_at: input.occurred_at,
+        ended_at: input.ended_at ?? null,
+        remarks: input.remarks,
+        recorded_by: actor.user_id
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Recording laytime event failed:', error);
+    throw error;
+  }
+}
+
+// The statement of facts decides demurrage, so a removed event is kept in the audit log
+export async function removeLaytimeEvent(
+  id: number,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<{ success: boolean }> {
+  try {
+    return await db.transaction(async (tx) => {
+      const events = await tx.select()
+        .from(laytimeEventsTable)
+        .where(eq(laytimeEventsTable.id, id))
+        .for('update')
+        .execute();
+
+      if (events.length === 0) {
+        throw new Error(`Laytime event with ID ${id} not found`);
+      }
+
+      await assertShipmentWithinScope(events[0].shipment_id, scope, 'barging.create');
+
+      await tx.delete(laytimeEventsTable)
+        .where(eq(laytimeEventsTable.id, id))
+        .execute();
+
+      await tx.insert(auditLogTable)
+        .values({
+          user_id: actor.user_id,
+          action: 'laytime_event_remove',
+          table_name: 'laytime_events',
+          record_id: id,
+          old_values: events[0],
+          ip_address: actor.ip_address,
+          user_agent: actor.user_agent
+        })
+        .execute();
+
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Removing laytime event failed:', error);
+    throw error;
+  }
+}
+
+export async function getStatementOfFacts(shipmentId: number, scope?: PermissionScope): Promise<LaytimeEvent[]> {
+  try {
+    await assertShipmentWithinScope(shipmentId, scope, 'barging.view');
+
+    return await db.select()
+      .from(laytimeEventsTable)
+      .where(eq(laytimeEventsTable.shipment_id, shipmentId))
+      .orderBy(asc(laytimeEventsTable.occurred_at), asc(laytimeEventsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch statement of facts:', error);
+    throw error;
+  }
+}
+
+// Laytime allowed is the loaded quantity at the loading rate. It commences when the turn time after NOR
+// runs out, or when loading commences if that is earlier, and ends when loading is completed. Time waiting
+// for a berth counts (whether in berth or not); berthing is on the statement for the record only.
+export async function calculateLaytime(
+  shipmentId: number,
+  scope?: PermissionScope,
+  action: PermissionAction = 'barging.view'
+): Promise<LaytimeCalculation> {
+  try {
+    await assertShipmentWithinScope(shipmentId, scope, action);
+
+    const termsRows = await db.select()
+      .from(laytimeTermsTable)
+      .where(eq(laytimeTermsTable.shipment_id, shipmentId))
+      .execute();
+
+    if (termsRows.length === 0) {
+      throw new LaytimeIncompleteError(`Shipment #${shipmentId} has no laytime terms`);
+    }
+
+    const terms = toLaytimeTerms(termsRows[0]);
+    const events = await getStatementOfFacts(shipmentId);
+    const milestone = (event: LaytimeEventType): Date => {
+      const found = events.find(candidate => candidate.event === event);
+      if (!found) {
+        throw new LaytimeIncompleteError(`Statement of facts for shipment #${shipmentId} has no ${event}`);
+      }
+      return found.occurred_at;
+    };
+
+    const norTendered = milestone('nor_tendered');
+    const loadingCommenced = milestone('loading_commenced');
+    const loadingCompleted = milestone('loading_completed');
+    if (loadingCompleted <= loadingCommenced) {
+      throw new Error(`Loading of shipment #${shipmentId} is completed before it commenced`);
+    }
+
+    const progress = await getShipmentProgress(shipmentId);
+    if (progress.loaded_tonnage <= 0) {
+      throw new LaytimeIncompleteError(`No barge loads recorded for shipment #${shipmentId}`);
+    }
+
+    const commenced = Math.min(norTendered.getTime() + terms.turn_time_hours * HOUR, loadingCommenced.getTime());
+    const completed = loadingCompleted.getTime();
+    const allowedHours = progress.loaded_tonnage / terms.loading_rate * 24;
+
+    const exclusions = events
+      .filter(event => event.event === 'weather_stoppage' && event.ended_at !== null)
+      .map(event => ({ from: event.occurred_at.getTime(), to: event.ended_at!.getTime(), description: 'Weather stoppage' }));
+    if (terms.terms === 'shex') {
+      exclusions.push(...sundaysBetween(commenced, completed).map(sunday => ({ ...sunday, description: 'Sunday (SHEX)' })));
+    }
+
+    const periods = buildTimeSheet(commenced, completed, allowedHours, exclusions);
+    const hoursOf = (countsAs: LaytimePeriod['counts_as']) =>
+      round(periods.filter(period => period.counts_as === countsAs).reduce((total, period) => total + period.hours, 0));
+
+    const usedHours = hoursOf('laytime');
+    const demurrageHours = hoursOf('demurrage');
+    const savedHours = demurrageHours > 0 ? 0 : round(Math.max(allowedHours - usedHours, 0));
+
+    return {
+      shipment_id: shipmentId,
+      vessel_name: progress.vessel_name,
+      terms,
+      quantity: progress.loaded_tonnage,
+      allowed_hours: round(allowedHours),
+      nor_tendered_at: norTendered,
+      laytime_commenced_at: new Date(commenced),
+      loading_completed_at: loadingCompleted,
+      periods,
+      used_hours: usedHours,
+      excluded_hours: hoursOf('excluded'),
+      demurrage_hours: demurrageHours,
+      saved_hours: savedHours,
+      outcome: demurrageHours > 0 ? 'demurrage' : savedHours > 0 ? 'despatch' : 'even',
+      amount: demurrageHours > 0
+        ? round(demurrageHours / 24 * terms.demurrage_rate)
+        : round(savedHours / 24 * terms.despatch_rate)
+    };
+  } catch (error) {
+    console.error('Laytime calculation failed:', error);
+    throw error;
+  }
+}
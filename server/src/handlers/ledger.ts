@@ -0,0 +1,222 @@
+import { db } from '../db';
+import { stockTable, stockMovementsTable } from '../db/schema';
+import { type StockMovementType, type CoalGrade } from '../schema';
+import { eq, and, ne, isNull } from 'drizzle-orm';
+
+// Attempts per stock transaction before a version conflict is reported to the caller
+const STOCK_LEDGER_MAX_ATTEMPTS = parseInt(process.env['STOCK_LEDGER_MAX_ATTEMPTS'] || '5');
+const STOCK_LEDGER_RETRY_DELAY_MS = parseInt(process.env['STOCK_LEDGER_RETRY_DELAY_MS'] || '20');
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type StockRow = typeof stockTable.$inferSelect;
+
+// What caused a stock change; recorded on the movement ledger row
+export interface StockMovementSource {
+  movement_type: StockMovementType;
+  reference_id: number | null;
+  occurred_at: Date;
+  created_by: number;
+}
+
+export interface StockChange {
+  stock: StockRow;
+  previous_tonnage: number;
+  new_tonnage: number;
+}
+
+// Raised inside a stock transaction when the row moved underneath us (a writer that did not take
+// the row lock); the whole transaction is retried
+class StockVersionConflictError extends Error {
+  constructor() {
+    super('Stock record was modified by another user. Please try again.');
+  }
+}
+
+// Postgres errors that mean a concurrent writer won: serialization failure and deadlock
+const RETRYABLE_PG_CODES = ['40001', '40P01'];
+
+// A unique violation only means a concurrent writer won when two first inserts raced for the
+// same stock row or default stockpile; any other one is a real error and must surface as it is
+const UNIQUE_VIOLATION = '23505';
+const RETRYABLE_UNIQUE_KEYS = ['stock_contractor_stockpile_grade_unique', 'stockpile_jetty_code_unique'];
+
+type PgError = { code?: string; constraint?: string };
+
+const isRetryable = (error: unknown): boolean => {
+  if (error instanceof StockVersionConflictError) return true;
+  const pgError: PgError | undefined = (error as PgError)?.code !== undefined
+    ? error as PgError
+    : (error as { cause?: PgError })?.cause;
+  if (pgError?.code === undefined) return false;
+  if (pgError.code === UNIQUE_VIOLATION) {
+    return pgError.constraint !== undefined && RETRYABLE_UNIQUE_KEYS.includes(pgError.constraint);
+  }
+  return RETRYABLE_PG_CODES.includes(pgError.code);
+};
+
+// Run work that touches stock in one transaction, rerunning it from scratch on a conflict,
+// so a record and the stock movement it causes are always committed together or not at all
+export async function runStockTransaction<T>(work: (tx: Transaction) => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await db.transaction(work);
+    } catch (error) {
+      if (!isRetryable(error)) {
+        throw error;
+      }
+      if (attempt >= STOCK_LEDGER_MAX_ATTEMPTS) {
+        throw new StockVersionConflictError();
+      }
+      // Jittered backoff so competing writers do not collide again in lockstep
+      await new Promise(resolve => setTimeout(resolve, STOCK_LEDGER_RETRY_DELAY_MS * attempt * Math.random()));
+    }
+  }
+}
+
+const recordMovement = async (
+  tx: Transaction,
+  stock: StockRow,
+  change: number,
+  balanceAfter: number,
+  source: StockMovementSource
+): Promise<void> => {
+  await tx.insert(stockMovementsTable)
+    .values({
+      stock_id: stock.id,
+      contractor_id: stock.contractor_id,
+      jetty_id: stock.jetty_id,
+      stockpile_id: stock.stockpile_id,
+      coal_grade: stock.coal_grade,
+      movement_type: source.movement_type,
+      reference_id: source.reference_id,
+      change: change.toString(),
+      balance_after: balanceAfter.toString(),
+      occurred_at: source.occurred_at,
+      created_by: source.created_by
+    })
+    .execute();
+};
+
+const writeStockChange = async (
+  tx: Transaction,
+  stock: StockRow,
+  change: number,
+  source: StockMovementSource
+): Promise<StockChange> => {
+  const previousTonnage = parseFloat(stock.tonnage);
+  const newTonnage = previousTonnage + change;
+
+  if (newTonnage < 0) {
+    throw new Error(`Insufficient stock. Available: ${previousTonnage} tons, Requested: ${-change} tons`);
+  }
+
+  const updatedStocks = await tx.update(stockTable)
+    .set({
+      tonnage: newTonnage.toString(),
+      last_updated: new Date(),
+      version: stock.version + 1,
+      updated_at: new Date()
+    })
+    .where(and(
+      eq(stockTable.id, stock.id),
+      eq(stockTable.version, stock.version)
+    ))
+    .returning()
+    .execute();
+
+  if (updatedStocks.length === 0) {
+    throw new StockVersionConflictError();
+  }
+
+  await recordMovement(tx, updatedStocks[0], change, newTonnage, source);
+
+  return { stock: updatedStocks[0], previous_tonnage: previousTonnage, new_tonnage: newTonnage };
+};
+
+// Add (positive) or remove (negative) tonnage of one grade for a contractor on a stockpile, creating the stock row on first intake
+export async function changeStock(
+  tx: Transaction,
+  target: { contractor_id: number; jetty_id: number; stockpile_id: number; coal_grade: CoalGrade },
+  change: number,
+  source: StockMovementSource
+): Promise<StockChange> {
+  const stockRecords = await tx.select()
+    .from(stockTable)
+    .where(and(
+      eq(stockTable.contractor_id, target.contractor_id),
+      eq(stockTable.stockpile_id, target.stockpile_id),
+      eq(stockTable.coal_grade, target.coal_grade)
+    ))
+    .for('update') // Concurrent movements on the same pair queue here instead of conflicting
+    .execute();
+
+  if (stockRecords.length > 0) {
+    return writeStockChange(tx, stockRecords[0], change, source);
+  }
+
+  if (change < 0) {
+    throw new Error(`No stock found for contractor ${target.contractor_id} at jetty ${target.jetty_id}, stockpile ${target.stockpile_id} (grade ${target.coal_grade})`);
+  }
+
+  const createdStocks = await tx.insert(stockTable)
+    .values({
+      contractor_id: target.contractor_id,
+      jetty_id: target.jetty_id,
+      stockpile_id: target.stockpile_id,
+      coal_grade: target.coal_grade,
+      tonnage: change.toString(),
+      last_updated: new Date(),
+      version: 1
+    })
+    .returning()
+    .execute();
+
+  await recordMovement(tx, createdStocks[0], change, change, source);
+
+  return { stock: createdStocks[0], previous_tonnage: 0, new_tonnage: change };
+}
+
+export async function changeStockById(
+  tx: Transaction,
+  stockId: number,
+  change: number,
+  source: StockMovementSource
+): Promise<StockChange> {
+  const stockRecords = await tx.select()
+    .from(stockTable)
+    .where(eq(stockTable.id, stockId))
+    .for('update')
+    .execute();
+
+  if (stockRecords.length === 0) {
+    throw new Error('Stock record not found');
+  }
+
+  return writeStockChange(tx, stockRecords[0], change, source);
+}
+
+// Stock on hand before the ledger existed has no movements, so every balance summed from the ledger
+// would leave it out. Gives each such stock row one opening balance movement for its tonnage, dated when
+// the row last changed, which is the last time it is known to have held exactly that tonnage.
+// Rows that already have movements are left alone, so running this again writes nothing.
+export async function writeOpeningBalances(createdBy: number): Promise<number> {
+  return db.transaction(async (tx) => {
+    const unopened = await tx.select({ stock: stockTable })
+      .from(stockTable)
+      .leftJoin(stockMovementsTable, eq(stockMovementsTable.stock_id, stockTable.id))
+      .where(and(isNull(stockMovementsTable.id), ne(stockTable.tonnage, '0')))
+      .for('update', { of: stockTable })
+      .execute();
+
+    for (const { stock } of unopened) {
+      await recordMovement(tx, stock, parseFloat(stock.tonnage), parseFloat(stock.tonnage), {
+        movement_type: 'opening_balance',
+        reference_id: null,
+        occurred_at: stock.last_updated,
+        created_by: createdBy
+      });
+    }
+
+    return unopened.length;
+  });
+}
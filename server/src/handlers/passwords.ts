@@ -0,0 +1,141 @@
+import { db } from '../db';
+import { usersTable, passwordHistoryTable } from '../db/schema';
+import { eq, desc } from 'drizzle-orm';
+
+// Password policy, configurable per deployment
+const PASSWORD_MIN_LENGTH = parseInt(process.env['PASSWORD_MIN_LENGTH'] || '8');
+const PASSWORD_REQUIRE_UPPERCASE = process.env['PASSWORD_REQUIRE_UPPERCASE'] !== 'false';
+const PASSWORD_REQUIRE_LOWERCASE = process.env['PASSWORD_REQUIRE_LOWERCASE'] !== 'false';
+const PASSWORD_REQUIRE_DIGIT = process.env['PASSWORD_REQUIRE_DIGIT'] !== 'false';
+const PASSWORD_REQUIRE_SYMBOL = process.env['PASSWORD_REQUIRE_SYMBOL'] === 'true';
+const PASSWORD_HISTORY_SIZE = parseInt(process.env['PASSWORD_HISTORY_SIZE'] || '5');
+const PASSWORD_MAX_AGE_DAYS = parseInt(process.env['PASSWORD_MAX_AGE_DAYS'] || '90'); // 0 disables expiry
+
+const TEMPORARY_PASSWORD_LENGTH = 14;
+
+// Single hashing scheme for every stored password
+export const hashPassword = async (password: string): Promise<string> => {
+  return await Bun.password.hash(password, {
+    algorithm: 'bcrypt',
+    cost: 12
+  });
+};
+
+export const verifyPassword = async (password: string, hash: string): Promise<boolean> => {
+  return await Bun.password.verify(password, hash);
+};
+
+// List every policy rule the password breaks (empty when it is acceptable)
+export const getPasswordPolicyViolations = (
+  password: string,
+  user: { username: string; email: string }
+): string[] => {
+  const violations: string[] = [];
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    violations.push(`must be at least ${PASSWORD_MIN_LENGTH} characters`);
+  }
+  if (PASSWORD_REQUIRE_UPPERCASE && !/[A-Z]/.test(password)) {
+    violations.push('must contain an uppercase letter');
+  }
+  if (PASSWORD_REQUIRE_LOWERCASE && !/[a-z]/.test(password)) {
+    violations.push('must contain a lowercase letter');
+  }
+  if (PASSWORD_REQUIRE_DIGIT && !/[0-9]/.test(password)) {
+    violations.push('must contain a digit');
+  }
+  if (PASSWORD_REQUIRE_SYMBOL && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push('must contain a symbol');
+  }
+
+  const lowered = password.toLowerCase();
+  if (lowered === user.username.toLowerCase() || lowered === user.email.toLowerCase()) {
+    violations.push('must not match the username or email');
+  }
+
+  return violations;
+};
+
+// Throw when the password breaks the policy or repeats the current or a recent password
+export async function assertPasswordAllowed(
+  password: string,
+  user: { id?: number; username: string; email: string }
+): Promise<void> {
+  const violations = getPasswordPolicyViolations(password, user);
+  if (violations.length > 0) {
+    throw new Error(`Password ${violations.join(', ')}`);
+  }
+
+  if (user.id === undefined) {
+    return;
+  }
+
+  const current = await db.select({ password_hash: usersTable.password_hash })
+    .from(usersTable)
+    .where(eq(usersTable.id, user.id))
+    .execute();
+
+  const history = PASSWORD_HISTORY_SIZE > 0
+    ? await db.select({ password_hash: passwordHistoryTable.password_hash })
+      .from(passwordHistoryTable)
+      .where(eq(passwordHistoryTable.user_id, user.id))
+      .orderBy(desc(passwordHistoryTable.created_at), desc(passwordHistoryTable.id))
+      .limit(PASSWORD_HISTORY_SIZE)
+      .execute()
+    : [];
+
+  for (const entry of [...current, ...history]) {
+    if (await verifyPassword(password, entry.password_hash)) {
+      throw new Error(`Password must not match any of the last ${Math.max(PASSWORD_HISTORY_SIZE, 1)} passwords`);
+    }
+  }
+}
+
+// Remember a newly set password hash, keeping only the last PASSWORD_HISTORY_SIZE entries
+export async function recordPasswordHistory(userId: number, passwordHash: string): Promise<void> {
+  await db.insert(passwordHistoryTable)
+    .values({ user_id: userId, password_hash: passwordHash })
+    .execute();
+
+  const entries = await db.select({ id: passwordHistoryTable.id })
+    .from(passwordHistoryTable)
+    .where(eq(passwordHistoryTable.user_id, userId))
+    .orderBy(desc(passwordHistoryTable.created_at), desc(passwordHistoryTable.id))
+    .execute();
+
+  for (const entry of entries.slice(PASSWORD_HISTORY_SIZE)) {
+    await db.delete(passwordHistoryTable)
+      .where(eq(passwordHistoryTable.id, entry.id))
+      .execute();
+  }
+}
+
+export const isPasswordExpired = (passwordChangedAt: Date): boolean => {
+  if (PASSWORD_MAX_AGE_DAYS <= 0) return false;
+  return passwordChangedAt.getTime() + PASSWORD_MAX_AGE_DAYS * 24 * 60 * 60 * 1000 < Date.now();
+};
+
+// A temporary password or an expired one must be replaced before anything else
+export const isPasswordChangeRequired = (user: { must_change_password: boolean; password_changed_at: Date }): boolean => {
+  return user.must_change_password || isPasswordExpired(user.password_changed_at);
+};
+
+// Random password that satisfies every character-class rule (ambiguous characters left out)
+export const generateTemporaryPassword = (): string => {
+  const classes = ['ABCDEFGHJKLMNPQRSTUVWXYZ', 'abcdefghijkmnpqrstuvwxyz', '23456789', '!@#$%^&*-_'];
+  const alphabet = classes.join('');
+  const random = crypto.getRandomValues(new Uint32Array(TEMPORARY_PASSWORD_LENGTH * 2));
+
+  const chars = classes.map((set, i) => set[random[i] % set.length]);
+  for (let i = classes.length; i < TEMPORARY_PASSWORD_LENGTH; i++) {
+    chars.push(alphabet[random[i] % alphabet.length]);
+  }
+
+  // Shuffle so the guaranteed characters are not always first
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = random[TEMPORARY_PASSWORD_LENGTH + i] % (i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+
+  return chars.join('');
+};
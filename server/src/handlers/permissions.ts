@@ -0,0 +1,386 @@
+import { db } from '../db';
+import {
+  permissionGrantsTable,
+  usersTable,
+  jettiesTable,
+  contractorsTable,
+  auditLogTable
+} from '../db/schema';
+import {
+  permissionActionSchema,
+  type PermissionAction,
+  type PermissionGrant,
+  type PermissionScope,
+  type CreatePermissionGrantInput,
+  type UpdatePermissionGrantInput,
+  type UserRole,
+  type RequestActor
+} from '../schema';
+import { eq, and, or, asc, isNull, inArray, sql, type SQL, type Column } from 'drizzle-orm';
+
+const VIEW_PERMISSIONS: PermissionAction[] = [
+  'production.view',
+  'barging.view',
+  'stock.view',
+  'fuel.view',
+  'dashboard.view',
+  'reports.export',
+  'quality.view'
+];
+
+// Default bundles: what each role may do everywhere when it has no explicit grants for an action
+export const ROLE_PERMISSIONS: Record<UserRole, PermissionAction[]> = {
+  admin: [
+    ...VIEW_PERMISSIONS,
+    'production.create',
+    'production.review',
+    'production.correct',
+    'barging.create',
+    'barging.correct',
+    'stock.adjust',
+    'stock.approve',
+    'stock.transfer',
+    'fuel.record',
+    'audit.view',
+    'quality.record'
+  ],
+  operator_produksi: [...VIEW_PERMISSIONS, 'production.create', 'stock.adjust', 'fuel.record', 'quality.record'],
+  operator_barging: [...VIEW_PERMISSIONS, 'barging.create', 'stock.adjust', 'stock.transfer', 'fuel.record', 'quality.record'],
+  auditor: [...VIEW_PERMISSIONS, 'production.review', 'audit.view'],
+  viewer: [...VIEW_PERMISSIONS]
+};
+
+const NO_ACCESS: PermissionScope = { unrestricted: false, grants: [] };
+
+// Explicit grants for an action replace the role default for that action, so an admin can
+// both narrow an operator to one jetty and give a viewer an extra scoped action.
+export async function getPermissionScope(
+  user: { id: number; role: UserRole },
+  action: PermissionAction
+): Promise<PermissionScope> {
+  const grants = await db.select({
+    jetty_id: permissionGrantsTable.jetty_id,
+    contractor_id: permissionGrantsTable.contractor_id
+  })
+    .from(permissionGrantsTable)
+    .where(and(
+      eq(permissionGrantsTable.user_id, user.id),
+      eq(permissionGrantsTable.action, action)
+    ))
+    .execute();
+
+  if (grants.length === 0) {
+    return ROLE_PERMISSIONS[user.role].includes(action)
+      ? { unrestricted: true, grants: [] }
+      : NO_ACCESS;
+  }
+
+  if (grants.some(grant => grant.jetty_id === null && grant.contractor_id === null)) {
+    return { unrestricted: true, grants: [] };
+  }
+
+  return { unrestricted: false, grants };
+}
+
+export const hasAnyScope = (scope: PermissionScope): boolean => {
+  return scope.unrestricted || scope.grants.length > 0;
+};
+
+export const isWithinScope = (
+  scope: PermissionScope,
+  target: { jetty_id: number; contractor_id: number }
+): boolean => {
+  if (scope.unrestricted) return true;
+  return scope.grants.some(grant =>
+    (grant.jetty_id === null || grant.jetty_id === target.jetty_id) &&
+    (grant.contractor_id === null || grant.contractor_id === target.contractor_id)
+  );
+};
+
+// Jetty-level views (capacity, stockpiles) are visible to any grant that reaches the jetty
+export const isJettyWithinScope = (scope: PermissionScope | undefined, jettyId: number): boolean => {
+  if (!scope || scope.unrestricted) return true;
+  return scope.grants.some(grant => grant.jetty_id === null || grant.jetty_id === jettyId);
+};
+
+// Handlers call this before writing; no scope means the caller was not scoped (internal use)
+export const assertWithinScope = (
+  scope: PermissionScope | undefined,
+  action: PermissionAction,
+  target: { jetty_id: number; contractor_id: number }
+): void => {
+  if (scope && !isWithinScope(scope, target)) {
+    throw new Error(`Permission '${action}' does not cover jetty ${target.jetty_id} and contractor ${target.contractor_id}`);
+  }
+};
+
+// WHERE condition limiting rows to the scope, or undefined when nothing needs filtering
+export const scopeCondition = (
+  scope: PermissionScope | undefined,
+  jettyColumn: Column,
+  contractorColumn: Column
+): SQL | undefined => {
+  if (!scope || scope.unrestricted) return undefined;
+  if (scope.grants.length === 0) return sql`false`;
+
+  const grantConditions = scope.grants.map(grant => {
+    const parts: SQL[] = [];
+    if (grant.jetty_id !== null) parts.push(eq(jettyColumn, grant.jetty_id));
+    if (grant.contractor_id !== null) parts.push(eq(contractorColumn, grant.contractor_id));
+    return and(...parts)!;
+  });
+
+  return or(...grantConditions);
+};
+
+// WHERE condition for jetty-level rows that belong to no contractor, matching isJettyWithinScope
+export const jettyScopeCondition = (
+  scope: PermissionScope | undefined,
+  jettyColumn: Column
+): SQL | undefined => {
+  if (!scope || scope.unrestricted) return undefined;
+  if (scope.grants.length === 0) return sql`false`;
+  if (scope.grants.some(grant => grant.jetty_id === null)) return undefined;
+
+  return inArray(jettyColumn, scope.grants.map(grant => grant.jetty_id!));
+};
+
+// Effective permissions of a user, as the UI needs them to show or hide actions
+export async function getEffectivePermissions(userId: number): Promise<Array<{
+  action: PermissionAction;
+  scope: PermissionScope;
+}>> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const results = [];
+    for (const action of permissionActionSchema.options) {
+      const scope = await getPermissionScope(users[0], action);
+      if (hasAnyScope(scope)) {
+        results.push({ action, scope });
+      }
+    }
+
+    return results;
+  } catch (error) {
+    console.error('Failed to fetch effective permissions:', error);
+    throw error;
+  }
+}
+
+// Grants must point at existing jetties and contractors
+const validateGrantTargets = async (jettyId: number | null, contractorId: number | null): Promise<void> => {
+  if (jettyId !== null) {
+    const jetty = await db.select({ id: jettiesTable.id })
+      .from(jettiesTable)
+      .where(eq(jettiesTable.id, jettyId))
+      .execute();
+    if (jetty.length === 0) {
+      throw new Error('Jetty not found');
+    }
+  }
+
+  if (contractorId !== null) {
+    const contractor = await db.select({ id: contractorsTable.id })
+      .from(contractorsTable)
+      .where(eq(contractorsTable.id, contractorId))
+      .execute();
+    if (contractor.length === 0) {
+      throw new Error('Contractor not found');
+    }
+  }
+};
+
+const findDuplicateGrant = async (
+  userId: number,
+  action: PermissionAction,
+  jettyId: number | null,
+  contractorId: number | null,
+  excludeId?: number
+): Promise<boolean> => {
+  const existing = await db.select({ id: permissionGrantsTable.id })
+    .from(permissionGrantsTable)
+    .where(and(
+      eq(permissionGrantsTable.user_id, userId),
+      eq(permissionGrantsTable.action, action),
+      jettyId === null ? isNull(permissionGrantsTable.jetty_id) : eq(permissionGrantsTable.jetty_id, jettyId),
+      contractorId === null ? isNull(permissionGrantsTable.contractor_id) : eq(permissionGrantsTable.contractor_id, contractorId)
+    ))
+    .execute();
+
+  return existing.some(grant => grant.id !== excludeId);
+};
+
+export async function createPermissionGrant(
+  input: CreatePermissionGrantInput,
+  actor: RequestActor
+): Promise<PermissionGrant> {
+  try {
+    const users = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    await validateGrantTargets(input.jetty_id, input.contractor_id);
+
+    if (await findDuplicateGrant(input.user_id, input.action, input.jetty_id, input.contractor_id)) {
+      throw new Error('Permission grant already exists');
+    }
+
+    const result = await db.insert(permissionGrantsTable)
+      .values({
+        user_id: input.user_id,
+        action: input.action,
+        jetty_id: input.jetty_id,
+        contractor_id: input.contractor_id,
+        granted_by: actor.user_id
+      })
+      .returning()
+      .execute();
+
+    const grant = result[0];
+
+    await db.insert(auditLogTable)
+      .values({
+        user_id: actor.user_id,
+        action: 'CREATE_PERMISSION_GRANT',
+        table_name: 'permission_grants',
+        record_id: grant.id,
+        new_values: {
+          user_id: grant.user_id,
+          action: grant.action,
+          jetty_id: grant.jetty_id,
+          contractor_id: grant.contractor_id
+        },
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
+      })
+      .execute();
+
+    return grant;
+  } catch (error) {
+    console.error('Permission grant creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getPermissionGrants(userId?: number): Promise<PermissionGrant[]> {
+  try {
+    const query = db.select()
+      .from(permissionGrantsTable);
+
+    const results = userId !== undefined
+      ? await query.where(eq(permissionGrantsTable.user_id, userId))
+        .orderBy(asc(permissionGrantsTable.action), asc(permissionGrantsTable.id))
+        .execute()
+      : await query.orderBy(asc(permissionGrantsTable.user_id), asc(permissionGrantsTable.action), asc(permissionGrantsTable.id))
+        .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to fetch permission grants:', error);
+    throw error;
+  }
+}
+
+export async function updatePermissionGrant(
+  input: UpdatePermissionGrantInput,
+  actor: RequestActor
+): Promise<PermissionGrant> {
+  try {
+    const existing = await db.select()
+      .from(permissionGrantsTable)
+      .where(eq(permissionGrantsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error('Permission grant not found');
+    }
+
+    const grant = existing[0];
+    const jettyId = input.jetty_id !== undefined ? input.jetty_id : grant.jetty_id;
+    const contractorId = input.contractor_id !== undefined ? input.contractor_id : grant.contractor_id;
+
+    await validateGrantTargets(jettyId, contractorId);
+
+    if (await findDuplicateGrant(grant.user_id, grant.action, jettyId, contractorId, grant.id)) {
+      throw new Error('Permission grant already exists');
+    }
+
+    const result = await db.update(permissionGrantsTable)
+      .set({
+        jetty_id: jettyId,
+        contractor_id: contractorId,
+        updated_at: new Date()
+      })
+      .where(eq(permissionGrantsTable.id, input.id))
+      .returning()
+      .execute();
+
+    await db.insert(auditLogTable)
+      .values({
+        user_id: actor.user_id,
+        action: 'UPDATE_PERMISSION_GRANT',
+        table_name: 'permission_grants',
+        record_id: grant.id,
+        old_values: { jetty_id: grant.jetty_id, contractor_id: grant.contractor_id },
+        new_values: { jetty_id: jettyId, contractor_id: contractorId },
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
+      })
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Permission grant update failed:', error);
+    throw error;
+  }
+}
+
+export async function deletePermissionGrant(id: number, actor: RequestActor): Promise<boolean> {
+  try {
+    const deleted = await db.delete(permissionGrantsTable)
+      .where(eq(permissionGrantsTable.id, id))
+      .returning()
+      .execute();
+
+    if (deleted.length === 0) {
+      throw new Error('Permission grant not found');
+    }
+
+    const grant = deleted[0];
+
+    await db.insert(auditLogTable)
+      .values({
+        user_id: actor.user_id,
+        action: 'DELETE_PERMISSION_GRANT',
+        table_name: 'permission_grants',
+        record_id: grant.id,
+        old_values: {
+          user_id: grant.user_id,
+          action: grant.action,
+          jetty_id: grant.jetty_id,
+          contractor_id: grant.contractor_id
+        },
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
+      })
+      .execute();
+
+    return true;
+  } catch (error) {
+    console.error('Permission grant deletion failed:', error);
+    throw error;
+  }
+}
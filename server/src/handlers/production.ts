@@ -3,17 +3,183 @@ import {
   productionRecordsTable, 
   contractorsTable, 
   jettiesTable, 
-  usersTable, 
-  stockTable 
+  usersTable,
+  stockTable,
+  weighbridgeTicketsTable,
+  productionFlagsTable,
+  auditLogTable
 } from '../db/schema';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, ne, gte, lte, desc, sum, inArray, notExists, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
 import { 
   type CreateProductionRecordInput, 
-  type ProductionRecord 
+  type ProductionRecord,
+  type ProductionFlagRule,
+  type FlaggedProductionFilter,
+  type FlaggedProductionRecord,
+  type ReviewFlaggedProductionInput,
+  type VoidRecordInput,
+  type CorrectProductionRecordInput,
+  type RequestActor,
+  type PermissionScope,
+  type PermissionAction
 } from '../schema';
+import { assertWithinScope, scopeCondition } from './permissions';
+import { runStockTransaction, changeStock, type Transaction } from './ledger';
+import { resolveStockpile, assertStockpileAccepts, type StockpileRow } from './stockpiles';
+import { findTruckByPlate, assertTruckMayCarry, normalizePlate } from './trucks';
 
-export async function createProductionRecord(input: CreateProductionRecordInput): Promise<ProductionRecord> {
+// Anomaly rules run on every new production record; a match flags the record for review, it is never rejected
+const PRODUCTION_DUPLICATE_WINDOW_MINUTES = parseInt(process.env['PRODUCTION_DUPLICATE_WINDOW_MINUTES'] || '10');
+const PRODUCTION_FUTURE_TOLERANCE_MINUTES = parseInt(process.env['PRODUCTION_FUTURE_TOLERANCE_MINUTES'] || '5');
+const PRODUCTION_BACKDATE_LIMIT_HOURS = parseInt(process.env['PRODUCTION_BACKDATE_LIMIT_HOURS'] || '72'); // 0 disables the rule
+const PRODUCTION_RANGE_HISTORY_SIZE = parseInt(process.env['PRODUCTION_RANGE_HISTORY_SIZE'] || '50');
+const PRODUCTION_RANGE_MIN_SAMPLES = parseInt(process.env['PRODUCTION_RANGE_MIN_SAMPLES'] || '5');
+const PRODUCTION_RANGE_TOLERANCE_PERCENT = parseFloat(process.env['PRODUCTION_RANGE_TOLERANCE_PERCENT'] || '25');
+
+type ProductionRecordRow = typeof productionRecordsTable.$inferSelect;
+
+const toProductionRecord = (record: ProductionRecordRow): ProductionRecord => ({
+  ...record,
+  tonnage: parseFloat(record.tonnage)
+});
+
+// Original and correction records that have not been voided
+const compensatingRecords = alias(productionRecordsTable, 'compensating_records');
+const activeRecordCondition = (tx: Transaction): SQL => and(
+  ne(productionRecordsTable.entry_type, 'void'),
+  notExists(tx.select({ id: compensatingRecords.id })
+    .from(compensatingRecords)
+    .where(and(
+      eq(compensatingRecords.compensates_id, productionRecordsTable.id),
+      eq(compensatingRecords.entry_type, 'void')
+    )))
+)!;
+
+// Registered trucks are matched on the registry entry, others on the normalized plate
+const sameTruckCondition = (record: ProductionRecordRow): SQL => record.truck_id !== null
+  ? eq(productionRecordsTable.truck_id, record.truck_id)
+  : eq(productionRecordsTable.truck_number, record.truck_number);
+
+const getRecentTonnages = async (tx: Transaction, record: ProductionRecordRow, basis: SQL): Promise<number[]> => {
+  const rows = await tx.select({ tonnage: productionRecordsTable.tonnage })
+    .from(productionRecordsTable)
+    .where(and(basis, ne(productionRecordsTable.id, record.id), activeRecordCondition(tx)))
+    .orderBy(desc(productionRecordsTable.date_time))
+    .limit(PRODUCTION_RANGE_HISTORY_SIZE)
+    .execute();
+
+  return rows.map(row => parseFloat(row.tonnage));
+};
+
+const detectAnomalies = async (
+  tx: Transaction,
+  record: ProductionRecordRow
+): Promise<Array<{ rule: ProductionFlagRule; detail: string }>> => {
+  const anomalies: Array<{ rule: ProductionFlagRule; detail: string }> = [];
+  const now = Date.now();
+  const recordTime = record.date_time.getTime();
+
+  if (recordTime > now + PRODUCTION_FUTURE_TOLERANCE_MINUTES * 60 * 1000) {
+    anomalies.push({
+      rule: 'future_timestamp',
+      detail: `Timestamp is ${Math.round((recordTime - now) / 60000)} minutes in the future`
+    });
+  }
+
+  if (PRODUCTION_BACKDATE_LIMIT_HOURS > 0 && recordTime < now - PRODUCTION_BACKDATE_LIMIT_HOURS * 60 * 60 * 1000) {
+    anomalies.push({
+      rule: 'backdated',
+      detail: `Backdated by ${Math.round((now - recordTime) / 3600000)} hours, beyond the ${PRODUCTION_BACKDATE_LIMIT_HOURS} hour limit`
+    });
+  }
+
+  const window = PRODUCTION_DUPLICATE_WINDOW_MINUTES * 60 * 1000;
+  const duplicates = await tx.select({ id: productionRecordsTable.id, date_time: productionRecordsTable.date_time })
+    .from(productionRecordsTable)
+    .where(and(
+      sameTruckCondition(record),
+      ne(productionRecordsTable.id, record.id),
+      gte(productionRecordsTable.date_time, new Date(recordTime - window)),
+      lte(productionRecordsTable.date_time, new Date(recordTime + window)),
+      activeRecordCondition(tx)
+    ))
+    .orderBy(productionRecordsTable.date_time)
+    .limit(1)
+    .execute();
+
+  if (duplicates.length > 0) {
+    anomalies.push({
+      rule: 'duplicate_truck',
+      detail: `Truck ${record.truck_number} already logged at ${duplicates[0].date_time.toISOString()} (record #${duplicates[0].id})`
+    });
+  }
+
+  // The truck's own loads when it has enough history, otherwise the contractor's
+  let basis = 'truck';
+  let history = await getRecentTonnages(tx, record, sameTruckCondition(record));
+  if (history.length < PRODUCTION_RANGE_MIN_SAMPLES) {
+    basis = 'contractor';
+    history = await getRecentTonnages(tx, record, eq(productionRecordsTable.contractor_id, record.contractor_id));
+  }
+
+  if (history.length >= PRODUCTION_RANGE_MIN_SAMPLES) {
+    const tonnage = parseFloat(record.tonnage);
+    const low = Math.min(...history);
+    const high = Math.max(...history);
+    const tolerance = PRODUCTION_RANGE_TOLERANCE_PERCENT / 100;
+    if (tonnage < low * (1 - tolerance) || tonnage > high * (1 + tolerance)) {
+      anomalies.push({
+        rule: 'tonnage_out_of_range',
+        detail: `${tonnage} tons is outside the ${basis}'s range of ${low}-${high} tons over its last ${history.length} loads`
+      });
+    }
+  }
+
+  return anomalies;
+};
+
+// Stock already at the jetty and on the stockpile, across all contractors and grades.
+// Locks the jetty row so concurrent intakes at one jetty are checked one after the other.
+const getIntakeLoad = async (tx: Transaction, stockpile: StockpileRow): Promise<{
+  jetty_name: string;
+  jetty_capacity: number;
+  jetty_stock: number;
+  stockpile_stock: number;
+}> => {
+  const jetties = await tx.select()
+    .from(jettiesTable)
+    .where(eq(jettiesTable.id, stockpile.jetty_id))
+    .for('update')
+    .execute();
+
+  const stockRows = await tx.select({ stockpile_id: stockTable.stockpile_id, total: sum(stockTable.tonnage) })
+    .from(stockTable)
+    .where(eq(stockTable.jetty_id, stockpile.jetty_id))
+    .groupBy(stockTable.stockpile_id)
+    .execute();
+
+  const totals = stockRows.map(row => ({ stockpile_id: row.stockpile_id, total: row.total ? parseFloat(row.total) : 0 }));
+
+  return {
+    jetty_name: jetties[0].name,
+    jetty_capacity: parseFloat(jetties[0].capacity),
+    jetty_stock: totals.reduce((jettyStock, row) => jettyStock + row.total, 0),
+    stockpile_stock: totals.find(row => row.stockpile_id === stockpile.id)?.total ?? 0
+  };
+};
+
+// Records typed in by an operator are flagged as manual; the weighbridge handlers pass the ticket the
+// tonnage was weighed on, which is marked recorded in the same transaction.
+export async function createProductionRecord(
+  input: CreateProductionRecordInput,
+  actor: RequestActor,
+  scope?: PermissionScope,
+  ticket?: { id: number; ticket_number: string }
+): Promise<ProductionRecord> {
   try {
+    assertWithinScope(scope, 'production.create', input);
+
     // 1. Validate contractor exists and is active
     const contractor = await db.select()
       .from(contractorsTable)
@@ -42,11 +208,11 @@ export async function createProductionRecord(input: CreateProductionRecordInput)
       throw new Error('Jetty not found or inactive');
     }
 
-    // 3. Validate operator exists and is active
+    // 3. Validate operator (the acting user) exists and is active
     const operator = await db.select()
       .from(usersTable)
       .where(and(
-        eq(usersTable.id, input.operator_id),
+        eq(usersTable.id, actor.user_id),
         eq(usersTable.is_active, true)
       ))
       .limit(1)
@@ -56,69 +222,114 @@ export async function createProductionRecord(input: CreateProductionRecordInput)
       throw new Error('Operator not found or inactive');
     }
 
-    // 4. Insert production record
-    const productionResult = await db.insert(productionRecordsTable)
-      .values({
-        date_time: input.date_time,
-        contractor_id: input.contractor_id,
-        truck_number: input.truck_number,
-        tonnage: input.tonnage.toString(), // Convert to string for numeric column
-        coal_grade: input.coal_grade,
-        jetty_id: input.jetty_id,
-        document_photo: input.document_photo,
-        operator_id: input.operator_id,
-        notes: input.notes
-      })
-      .returning()
-      .execute();
+    // 4. Match the plate against the truck registry; plates not in it are still stored normalized
+    const truck = await findTruckByPlate(input.truck_number);
+    if (truck) {
+      assertTruckMayCarry(truck, input.tonnage, input.date_time);
+    }
 
-    const createdRecord = productionResult[0];
+    // 5. Insert the record and add its tonnage to stock in one transaction
+    const createdRecord = await runStockTransaction(async (tx) => {
+      const stockpile = await resolveStockpile(tx, input.jetty_id, input.stockpile_id);
+      assertStockpileAccepts(stockpile, input.coal_grade);
 
-    // 5. Update or create stock record for contractor-jetty combination
-    const existingStock = await db.select()
-      .from(stockTable)
-      .where(and(
-        eq(stockTable.contractor_id, input.contractor_id),
-        eq(stockTable.jetty_id, input.jetty_id)
-      ))
-      .limit(1)
-      .execute();
+      const load = await getIntakeLoad(tx, stockpile);
+      const stockpileCapacity = parseFloat(stockpile.capacity);
+      const capacityBreach = load.jetty_stock + input.tonnage > load.jetty_capacity
+        ? `Jetty ${load.jetty_name} capacity exceeded: ${load.jetty_stock} of ${load.jetty_capacity} tons in stock`
+        : load.stockpile_stock + input.tonnage > stockpileCapacity
+          ? `Stockpile ${stockpile.code} capacity exceeded: ${load.stockpile_stock} of ${stockpileCapacity} tons in stock`
+          : null;
+      const overCapacity = capacityBreach !== null;
+      if (overCapacity && !input.capacity_override_reason) {
+        throw new Error(`${capacityBreach}, ${input.tonnage} tons more needs a capacity override reason`);
+      }
 
-    if (existingStock.length > 0) {
-      // Update existing stock
-      const currentStock = existingStock[0];
-      const newTonnage = parseFloat(currentStock.tonnage) + input.tonnage;
-      
-      await db.update(stockTable)
-        .set({
-          tonnage: newTonnage.toString(),
-          last_updated: new Date(),
-          version: currentStock.version + 1, // Optimistic locking
-          updated_at: new Date()
-        })
-        .where(and(
-          eq(stockTable.id, currentStock.id),
-          eq(stockTable.version, currentStock.version) // Ensure version matches
-        ))
-        .execute();
-    } else {
-      // Create new stock record
-      await db.insert(stockTable)
+      const productionResult = await tx.insert(productionRecordsTable)
         .values({
+          date_time: input.date_time,
           contractor_id: input.contractor_id,
+          truck_number: truck ? truck.plate_number : normalizePlate(input.truck_number),
+          truck_id: truck ? truck.id : null,
+          tonnage: input.tonnage.toString(), // Convert to string for numeric column
+          coal_grade: input.coal_grade,
           jetty_id: input.jetty_id,
-          tonnage: input.tonnage.toString(),
-          last_updated: new Date(),
-          version: 1
+          stockpile_id: stockpile.id,
+          document_photo: input.document_photo,
+          operator_id: actor.user_id,
+          notes: input.notes,
+          capacity_override_reason: overCapacity ? input.capacity_override_reason : null,
+          tonnage_source: ticket ? 'weighbridge' : 'manual',
+          ticket_number: ticket ? ticket.ticket_number : null
         })
+        .returning()
         .execute();
-    }
+
+      if (ticket) {
+        const recorded = await tx.update(weighbridgeTicketsTable)
+          .set({
+            status: 'recorded',
+            pending_reason: null,
+            contractor_id: input.contractor_id,
+            coal_grade: input.coal_grade,
+            stockpile_id: stockpile.id,
+            production_record_id: productionResult[0].id,
+            updated_at: new Date()
+          })
+          .where(and(
+            eq(weighbridgeTicketsTable.id, ticket.id),
+            eq(weighbridgeTicketsTable.status, 'pending')
+          ))
+          .returning()
+          .execute();
+
+        if (recorded.length === 0) {
+          throw new Error(`Weighbridge ticket ${ticket.ticket_number} has already been recorded`);
+        }
+      }
+
+      await changeStock(tx, { ...input, stockpile_id: stockpile.id }, input.tonnage, {
+        movement_type: 'production',
+        reference_id: productionResult[0].id,
+        occurred_at: input.date_time,
+        created_by: actor.user_id
+      });
+
+      if (overCapacity) {
+        await tx.insert(auditLogTable)
+          .values({
+            user_id: actor.user_id,
+            action: 'production_capacity_override',
+            table_name: 'production_records',
+            record_id: productionResult[0].id,
+            new_values: {
+              jetty_id: input.jetty_id,
+              capacity: load.jetty_capacity,
+              stock_before: load.jetty_stock,
+              stockpile_id: stockpile.id,
+              stockpile_capacity: stockpileCapacity,
+              stockpile_stock_before: load.stockpile_stock,
+              tonnage: input.tonnage,
+              reason: input.capacity_override_reason
+            },
+            ip_address: actor.ip_address,
+            user_agent: actor.user_agent
+          })
+          .execute();
+      }
+
+      const anomalies = await detectAnomalies(tx, productionResult[0]);
+      if (anomalies.length > 0) {
+        await tx.insert(productionFlagsTable)
+          .values(anomalies.map(anomaly => ({ production_record_id: productionResult[0].id, ...anomaly })))
+          .execute();
+      }
+
+      return productionResult[0];
+    });
 
     // Return production record with numeric conversion
-    return {
-      ...createdRecord,
-      tonnage: parseFloat(createdRecord.tonnage) // Convert string back to number
-    };
+    return toProductionRecord(createdRecord);
   } catch (error) {
     console.error('Production record creation failed:', error);
     throw error;
@@ -129,32 +340,441 @@ export async function getProductionRecords(
   dateFrom?: Date, 
   dateTo?: Date, 
   contractorId?: number,
-  jettyId?: number
+  jettyId?: number,
+  scope?: PermissionScope
 ): Promise<ProductionRecord[]> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to fetch production records with filtering.
-  // It should:
-  // 1. Query production records with optional filters
-  // 2. Join with contractor, jetty, and operator data
-  // 3. Order by date_time descending
-  // 4. Apply pagination if needed
-  // 5. Return production records with related data
-  
-  return Promise.resolve([]);
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (dateFrom !== undefined) {
+      conditions.push(gte(productionRecordsTable.date_time, dateFrom));
+    }
+
+    if (dateTo !== undefined) {
+      conditions.push(lte(productionRecordsTable.date_time, dateTo));
+    }
+
+    if (contractorId !== undefined) {
+      conditions.push(eq(productionRecordsTable.contractor_id, contractorId));
+    }
+
+    if (jettyId !== undefined) {
+      conditions.push(eq(productionRecordsTable.jetty_id, jettyId));
+    }
+
+    // Only the jetties/contractors the caller may see
+    const scopeFilter = scopeCondition(scope, productionRecordsTable.jetty_id, productionRecordsTable.contractor_id);
+    if (scopeFilter) {
+      conditions.push(scopeFilter);
+    }
+
+    const query = db.select().from(productionRecordsTable);
+    const results = conditions.length > 0
+      ? await query.where(and(...conditions)).orderBy(desc(productionRecordsTable.date_time)).execute()
+      : await query.orderBy(desc(productionRecordsTable.date_time)).execute();
+
+    return results.map(record => ({
+      ...record,
+      tonnage: parseFloat(record.tonnage)
+    }));
+  } catch (error) {
+    console.error('Failed to fetch production records:', error);
+    throw error;
+  }
 }
 
-export async function getProductionRecordById(id: number): Promise<ProductionRecord | null> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to fetch a specific production record.
-  // It should:
-  // 1. Query production record by ID
-  // 2. Include related contractor, jetty, and operator information
-  // 3. Return production record with relations or null
-  
-  return Promise.resolve(null);
+export async function getProductionRecordById(id: number, scope?: PermissionScope): Promise<ProductionRecord | null> {
+  try {
+    const conditions: SQL<unknown>[] = [eq(productionRecordsTable.id, id)];
+
+    const scopeFilter = scopeCondition(scope, productionRecordsTable.jetty_id, productionRecordsTable.contractor_id);
+    if (scopeFilter) {
+      conditions.push(scopeFilter);
+    }
+
+    const results = await db.select()
+      .from(productionRecordsTable)
+      .where(and(...conditions))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return {
+      ...results[0],
+      tonnage: parseFloat(results[0].tonnage)
+    };
+  } catch (error) {
+    console.error('Failed to fetch production record:', error);
+    throw error;
+  }
+}
+
+// Lock a record and add the void that supersedes it, closing any open flags on it. The record itself is
+// left as it was; taking its tonnage back off stock is up to the caller.
+const supersedeProductionRecord = async (
+  tx: Transaction,
+  id: number,
+  reason: string,
+  actor: RequestActor,
+  scope: PermissionScope | undefined,
+  action: PermissionAction
+): Promise<{ original: ProductionRecordRow; voidRecord: ProductionRecordRow }> => {
+  const originals = await tx.select()
+    .from(productionRecordsTable)
+    .where(eq(productionRecordsTable.id, id))
+    .for('update')
+    .execute();
+
+  if (originals.length === 0) {
+    throw new Error(`Production record with ID ${id} not found`);
+  }
+
+  const original = originals[0];
+  assertWithinScope(scope, action, original);
+
+  if (original.entry_type === 'void') {
+    throw new Error(`Production record #${id} voids record #${original.compensates_id} and cannot itself be voided or corrected`);
+  }
+
+  const superseding = await tx.select({ id: productionRecordsTable.id, entry_type: productionRecordsTable.entry_type })
+    .from(productionRecordsTable)
+    .where(eq(productionRecordsTable.compensates_id, id))
+    .execute();
+
+  const correction = superseding.find(record => record.entry_type === 'correction');
+  if (correction) {
+    throw new Error(`Production record #${id} has already been corrected by record #${correction.id}`);
+  }
+  if (superseding.length > 0) {
+    throw new Error(`Production record #${id} has already been voided by record #${superseding[0].id}`);
+  }
+
+  const created = await tx.insert(productionRecordsTable)
+    .values({
+      date_time: original.date_time,
+      contractor_id: original.contractor_id,
+      truck_number: original.truck_number,
+      truck_id: original.truck_id,
+      tonnage: (-parseFloat(original.tonnage)).toString(),
+      coal_grade: original.coal_grade,
+      jetty_id: original.jetty_id,
+      stockpile_id: original.stockpile_id,
+      operator_id: actor.user_id,
+      notes: reason,
+      tonnage_source: original.tonnage_source,
+      entry_type: 'void',
+      compensates_id: original.id
+    })
+    .returning()
+    .execute();
+
+  await tx.update(productionFlagsTable)
+    .set({ status: 'voided', reviewed_by: actor.user_id, reviewed_at: new Date(), review_note: reason })
+    .where(and(eq(productionFlagsTable.production_record_id, id), eq(productionFlagsTable.status, 'open')))
+    .execute();
+
+  return { original, voidRecord: created[0] };
+};
+
+const voidProduction = async (
+  input: VoidRecordInput,
+  actor: RequestActor,
+  scope: PermissionScope | undefined,
+  action: PermissionAction
+): Promise<ProductionRecord> => {
+  const voidRecord = await runStockTransaction(async (tx) => {
+    const { original, voidRecord } = await supersedeProductionRecord(tx, input.id, input.reason, actor, scope, action);
+
+    // Dated like the original, so point-in-time balances read as if it had never been taken in
+    await changeStock(tx, original, -parseFloat(original.tonnage), {
+      movement_type: 'production',
+      reference_id: voidRecord.id,
+      occurred_at: original.date_time,
+      created_by: actor.user_id
+    });
+
+    await tx.insert(auditLogTable)
+      .values({
+        user_id: actor.user_id,
+        action: 'production_void',
+        table_name: 'production_records',
+        record_id: original.id,
+        old_values: toProductionRecord(original),
+        new_values: { void_record: toProductionRecord(voidRecord), reason: input.reason },
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
+      })
+      .execute();
+
+    return voidRecord;
+  });
+
+  return toProductionRecord(voidRecord);
+};
+
+// Void a record by adding a compensating record with the negated tonnage and taking its tonnage back off stock
+export async function voidProductionRecord(
+  input: VoidRecordInput,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<ProductionRecord> {
+  try {
+    return await voidProduction(input, actor, scope, 'production.correct');
+  } catch (error) {
+    console.error('Production record void failed:', error);
+    throw error;
+  }
+}
+
+// Correct a record by voiding it and adding a correction record with the corrected values, which takes the
+// original's place (and can itself be voided or corrected later). Corrections are not held to jetty capacity or
+// checked for anomalies: the coal is already on the ground, and the correction carries its own reason.
+export async function correctProductionRecord(
+  input: CorrectProductionRecordInput,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<ProductionRecord> {
+  try {
+    const correctionRecord = await runStockTransaction(async (tx) => {
+      const { original, voidRecord } = await supersedeProductionRecord(tx, input.id, input.reason, actor, scope, 'production.correct');
+
+      const corrected = {
+        date_time: input.date_time ?? original.date_time,
+        contractor_id: input.contractor_id ?? original.contractor_id,
+        truck_number: input.truck_number ?? original.truck_number,
+        tonnage: input.tonnage ?? parseFloat(original.tonnage),
+        coal_grade: input.coal_grade ?? original.coal_grade,
+        document_photo: input.document_photo !== undefined ? input.document_photo : original.document_photo,
+        notes: input.notes !== undefined ? input.notes : original.notes
+      };
+      assertWithinScope(scope, 'production.correct', { jetty_id: original.jetty_id, contractor_id: corrected.contractor_id });
+
+      if (corrected.contractor_id !== original.contractor_id) {
+        const contractor = await tx.select({ id: contractorsTable.id })
+          .from(contractorsTable)
+          .where(and(eq(contractorsTable.id, corrected.contractor_id), eq(contractorsTable.is_active, true)))
+          .execute();
+
+        if (contractor.length === 0) {
+          throw new Error('Contractor not found or inactive');
+        }
+      }
+
+      const stockpile = await resolveStockpile(tx, original.jetty_id, input.stockpile_id ?? original.stockpile_id);
+      assertStockpileAccepts(stockpile, corrected.coal_grade);
+
+      const truck = await findTruckByPlate(corrected.truck_number);
+      if (truck) {
+        assertTruckMayCarry(truck, corrected.tonnage, corrected.date_time);
+      }
+
+      const unchanged = corrected.date_time.getTime() === original.date_time.getTime() &&
+        corrected.contractor_id === original.contractor_id &&
+        normalizePlate(corrected.truck_number) === original.truck_number &&
+        corrected.tonnage === parseFloat(original.tonnage) &&
+        corrected.coal_grade === original.coal_grade &&
+        stockpile.id === original.stockpile_id &&
+        corrected.document_photo === original.document_photo &&
+        corrected.notes === original.notes;
+      if (unchanged) {
+        throw new Error(`Correction of production record #${original.id} changes nothing`);
+      }
+
+      const created = await tx.insert(productionRecordsTable)
+        .values({
+          ...corrected,
+          truck_number: truck ? truck.plate_number : normalizePlate(corrected.truck_number),
+          truck_id: truck ? truck.id : null,
+          tonnage: corrected.tonnage.toString(),
+          jetty_id: original.jetty_id,
+          stockpile_id: stockpile.id,
+          operator_id: actor.user_id,
+          // A corrected tonnage no longer comes off the weighbridge ticket
+          tonnage_source: corrected.tonnage === parseFloat(original.tonnage) ? original.tonnage_source : 'manual',
+          entry_type: 'correction',
+          compensates_id: original.id
+        })
+        .returning()
+        .execute();
+
+      // Put the corrected tonnage on stock before taking the original's off, so a correction
+      // within the same stock never fails for coal that has since been barged
+      await changeStock(tx, { ...corrected, jetty_id: original.jetty_id, stockpile_id: stockpile.id }, corrected.tonnage, {
+        movement_type: 'production',
+        reference_id: created[0].id,
+        occurred_at: corrected.date_time,
+        created_by: actor.user_id
+      });
+
+      await changeStock(tx, original, -parseFloat(original.tonnage), {
+        movement_type: 'production',
+        reference_id: voidRecord.id,
+        occurred_at: original.date_time,
+        created_by: actor.user_id
+      });
+
+      await tx.insert(auditLogTable)
+        .values({
+          user_id: actor.user_id,
+          action: 'production_correct',
+          table_name: 'production_records',
+          record_id: original.id,
+          old_values: toProductionRecord(original),
+          new_values: {
+            correction_record: toProductionRecord(created[0]),
+            void_record: toProductionRecord(voidRecord),
+            reason: input.reason
+          },
+          ip_address: actor.ip_address,
+          user_agent: actor.user_agent
+        })
+        .execute();
+
+      return created[0];
+    });
+
+    return toProductionRecord(correctionRecord);
+  } catch (error) {
+    console.error('Production record correction failed:', error);
+    throw error;
+  }
+}
+
+// Review queue: records with open anomaly flags, newest first
+export async function getFlaggedProduction(
+  filter?: FlaggedProductionFilter,
+  scope?: PermissionScope
+): Promise<FlaggedProductionRecord[]> {
+  try {
+    const conditions: SQL<unknown>[] = [eq(productionFlagsTable.status, 'open')];
+
+    if (filter?.jetty_id !== undefined) {
+      conditions.push(eq(productionRecordsTable.jetty_id, filter.jetty_id));
+    }
+
+    if (filter?.contractor_id !== undefined) {
+      conditions.push(eq(productionRecordsTable.contractor_id, filter.contractor_id));
+    }
+
+    if (filter?.rule !== undefined) {
+      conditions.push(eq(productionFlagsTable.rule, filter.rule));
+    }
+
+    const scopeFilter = scopeCondition(scope, productionRecordsTable.jetty_id, productionRecordsTable.contractor_id);
+    if (scopeFilter) {
+      conditions.push(scopeFilter);
+    }
+
+    const flagged = await db.selectDistinct({ id: productionRecordsTable.id })
+      .from(productionFlagsTable)
+      .innerJoin(productionRecordsTable, eq(productionFlagsTable.production_record_id, productionRecordsTable.id))
+      .where(and(...conditions))
+      .execute();
+
+    if (flagged.length === 0) {
+      return [];
+    }
+
+    const recordIds = flagged.map(row => row.id);
+    const records = await db.select()
+      .from(productionRecordsTable)
+      .where(inArray(productionRecordsTable.id, recordIds))
+      .orderBy(desc(productionRecordsTable.date_time), desc(productionRecordsTable.id))
+      .execute();
+
+    const flags = await db.select()
+      .from(productionFlagsTable)
+      .where(and(
+        inArray(productionFlagsTable.production_record_id, recordIds),
+        eq(productionFlagsTable.status, 'open')
+      ))
+      .orderBy(productionFlagsTable.id)
+      .execute();
+
+    return records.map(record => ({
+      ...toProductionRecord(record),
+      flags: flags.filter(flag => flag.production_record_id === record.id)
+    }));
+  } catch (error) {
+    console.error('Failed to fetch flagged production records:', error);
+    throw error;
+  }
+}
+
+// Clear a flagged record's open flags as reviewed, or void the record
+export async function reviewFlaggedProduction(
+  input: ReviewFlaggedProductionInput,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<FlaggedProductionRecord> {
+  try {
+    const records = await db.select()
+      .from(productionRecordsTable)
+      .where(eq(productionRecordsTable.id, input.production_record_id))
+      .execute();
+
+    if (records.length === 0) {
+      throw new Error(`Production record with ID ${input.production_record_id} not found`);
+    }
+
+    const record = records[0];
+    assertWithinScope(scope, 'production.review', record);
+
+    const openFlags = await db.select()
+      .from(productionFlagsTable)
+      .where(and(
+        eq(productionFlagsTable.production_record_id, record.id),
+        eq(productionFlagsTable.status, 'open')
+      ))
+      .execute();
+
+    if (openFlags.length === 0) {
+      throw new Error(`Production record #${record.id} has no open flags`);
+    }
+
+    if (input.decision === 'void') {
+      await voidProduction({ id: record.id, reason: input.note }, actor, scope, 'production.review');
+    } else {
+      await db.transaction(async (tx) => {
+        await tx.update(productionFlagsTable)
+          .set({ status: 'cleared', reviewed_by: actor.user_id, reviewed_at: new Date(), review_note: input.note })
+          .where(and(
+            eq(productionFlagsTable.production_record_id, record.id),
+            eq(productionFlagsTable.status, 'open')
+          ))
+          .execute();
+
+        await tx.insert(auditLogTable)
+          .values({
+            user_id: actor.user_id,
+            action: 'production_flags_clear',
+            table_name: 'production_records',
+            record_id: record.id,
+            old_values: { flags: openFlags.map(flag => ({ rule: flag.rule, detail: flag.detail })) },
+            new_values: { status: 'cleared', note: input.note },
+            ip_address: actor.ip_address,
+            user_agent: actor.user_agent
+          })
+          .execute();
+      });
+    }
+
+    const reviewed = await db.select()
+      .from(productionFlagsTable)
+      .where(inArray(productionFlagsTable.id, openFlags.map(flag => flag.id)))
+      .orderBy(productionFlagsTable.id)
+      .execute();
+
+    return { ...toProductionRecord(record), flags: reviewed };
+  } catch (error) {
+    console.error('Production flag review failed:', error);
+    throw error;
+  }
 }
 
-export async function getDailyProductionSummary(date: Date): Promise<{
+export async function getDailyProductionSummary(date: Date, scope?: PermissionScope): Promise<{
   total_tonnage: number;
   records_count: number;
   by_contractor: Array<{ contractor_id: number; contractor_name: string; tonnage: number }>;
@@ -164,7 +784,7 @@ export async function getDailyProductionSummary(date: Date): Promise<{
   // This is a placeholder declaration! Real code should be implemented here.
   // The goal of this handler is to provide daily production analytics.
   // It should:
-  // 1. Query production records for specific date
+  // 1. Query production records for specific date, limited to the caller's scope with scopeCondition
   // 2. Aggregate tonnage by contractor, jetty, and grade
   // 3. Calculate total tonnage and record count
   // 4. Return structured summary data for dashboard
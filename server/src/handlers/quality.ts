@@ -0,0 +1,374 @@
+import { db } from '../db';
+import {
+  qualitySamplesTable,
+  productionRecordsTable,
+  bargingRecordsTable,
+  stockpilesTable,
+  shipmentsTable,
+  auditLogTable
+} from '../db/schema';
+import {
+  qualityBasisSchema,
+  type RecordQualitySampleInput,
+  type QualitySample,
+  type QualitySampleFilter,
+  type StockpileQuality,
+  type WeightedQualityInput,
+  type WeightedQuality,
+  type CoalGrade,
+  type RequestActor,
+  type PermissionScope
+} from '../schema';
+import { assertWithinScope, isJettyWithinScope, scopeCondition, jettyScopeCondition } from './permissions';
+import { shipmentScopeCondition } from './shipments';
+import { eq, and, or, gte, lte, desc, inArray, type SQL } from 'drizzle-orm';
+
+// Stockpiles are graded on their latest sample on this basis; samples on other bases are not converted
+const QUALITY_GRADE_BASIS = qualityBasisSchema.parse(process.env['QUALITY_GRADE_BASIS'] || 'gar');
+// Lowest calorific value (kcal/kg) for each grade; anything below medium is low
+const QUALITY_HIGH_GRADE_MIN_CV = parseFloat(process.env['QUALITY_HIGH_GRADE_MIN_CV'] || '6000');
+const QUALITY_MEDIUM_GRADE_MIN_CV = parseFloat(process.env['QUALITY_MEDIUM_GRADE_MIN_CV'] || '5000');
+
+const QUALITY_PARAMETERS = ['calorific_value', 'total_moisture', 'ash', 'sulphur', 'hgi'] as const;
+
+type QualitySampleRow = typeof qualitySamplesTable.$inferSelect;
+
+const toQualitySample = (sample: QualitySampleRow): QualitySample => ({
+  ...sample,
+  calorific_value: parseFloat(sample.calorific_value),
+  total_moisture: sample.total_moisture === null ? null : parseFloat(sample.total_moisture),
+  ash: sample.ash === null ? null : parseFloat(sample.ash),
+  sulphur: sample.sulphur === null ? null : parseFloat(sample.sulphur),
+  hgi: sample.hgi === null ? null : parseFloat(sample.hgi)
+});
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+export const gradeFromCalorificValue = (calorificValue: number): CoalGrade => {
+  if (calorificValue >= QUALITY_HIGH_GRADE_MIN_CV) return 'high';
+  if (calorificValue >= QUALITY_MEDIUM_GRADE_MIN_CV) return 'medium';
+  return 'low';
+};
+
+// Newest first, so the first match for a record is its latest result
+const latestFirst = (a: QualitySampleRow, b: QualitySampleRow) =>
+  b.sampled_at.getTime() - a.sampled_at.getTime() || b.id - a.id;
+
+export async function recordQualitySample(
+  input: RecordQualitySampleInput,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<QualitySample> {
+  try {
+    const targets = [input.production_record_id, input.stockpile_id, input.shipment_id].filter(id => id !== undefined);
+    if (targets.length !== 1) {
+      throw new Error('A quality sample is taken from exactly one production record, stockpile or shipment');
+    }
+
+    if (input.production_record_id !== undefined) {
+      const records = await db.select()
+        .from(productionRecordsTable)
+        .where(eq(productionRecordsTable.id, input.production_record_id))
+        .execute();
+
+      if (records.length === 0) {
+        throw new Error(`Production record with ID ${input.production_record_id} not found`);
+      }
+
+      if (records[0].entry_type === 'void') {
+        throw new Error(`Production record #${records[0].id} is a void and has no coal to sample`);
+      }
+
+      assertWithinScope(scope, 'quality.record', records[0]);
+    }
+
+    if (input.stockpile_id !== undefined) {
+      const stockpiles = await db.select()
+        .from(stockpilesTable)
+        .where(eq(stockpilesTable.id, input.stockpile_id))
+        .execute();
+
+      if (stockpiles.length === 0) {
+        throw new Error(`Stockpile with ID ${input.stockpile_id} not found`);
+      }
+
+      // The sample grades the whole pile, whoever's coal is on it
+      if (!isJettyWithinScope(scope, stockpiles[0].jetty_id)) {
+        throw new Error(`Permission 'quality.record' does not cover jetty ${stockpiles[0].jetty_id}`);
+      }
+    }
+
+    if (input.shipment_id !== undefined) {
+      const shipments = await db.select({ id: shipmentsTable.id })
+        .from(shipmentsTable)
+        .where(eq(shipmentsTable.id, input.shipment_id))
+        .execute();
+
+      if (shipments.length === 0) {
+        throw new Error(`Shipment with ID ${input.shipment_id} not found`);
+      }
+    }
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(qualitySamplesTable)
+        .values({
+          production_record_id: input.production_record_id ?? null,
+          stockpile_id: input.stockpile_id ?? null,
+          shipment_id: input.shipment_id ?? null,
+          lab: input.lab,
+          sample_number: input.sample_number,
+          sampled_at: input.sampled_at,
+          basis: input.basis,
+          calorific_value: input.calorific_value.toString(),
+          total_moisture: input.total_moisture?.toString() ?? null,
+          ash: input.ash?.toString() ?? null,
+          sulphur: input.sulphur?.toString() ?? null,
+          hgi: input.hgi?.toString() ?? null,
+          notes: input.notes,
+          recorded_by: actor.user_id
+        })
+        .returning()
+        .execute();
+
+      const sample = toQualitySample(result[0]);
+
+      await tx.insert(auditLogTable)
+        .values({
+          user_id: actor.user_id,
+          action: 'quality_sample_create',
+          table_name: 'quality_samples',
+          record_id: sample.id,
+          new_values: sample,
+          ip_address: actor.ip_address,
+          user_agent: actor.user_agent
+        })
+        .execute();
+
+      return sample;
+    });
+  } catch (error) {
+    console.error('Quality sample recording failed:', error);
+    throw error;
+  }
+}
+
+// A scoped caller sees samples of production records in scope, of stockpiles at jetties in scope and
+// of shipments in scope, the same reach as recording them
+export async function getQualitySamples(filter?: QualitySampleFilter, scope?: PermissionScope): Promise<QualitySample[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (scope && !scope.unrestricted) {
+      conditions.push(or(
+        inArray(qualitySamplesTable.production_record_id, db.select({ id: productionRecordsTable.id })
+          .from(productionRecordsTable)
+          .where(scopeCondition(scope, productionRecordsTable.jetty_id, productionRecordsTable.contractor_id))),
+        inArray(qualitySamplesTable.stockpile_id, db.select({ id: stockpilesTable.id })
+          .from(stockpilesTable)
+          .where(jettyScopeCondition(scope, stockpilesTable.jetty_id))),
+        inArray(qualitySamplesTable.shipment_id, db.select({ id: shipmentsTable.id })
+          .from(shipmentsTable)
+          .where(shipmentScopeCondition(scope)))
+      )!);
+    }
+
+    if (filter?.production_record_id !== undefined) {
+      conditions.push(eq(qualitySamplesTable.production_record_id, filter.production_record_id));
+    }
+
+    if (filter?.stockpile_id !== undefined) {
+      conditions.push(eq(qualitySamplesTable.stockpile_id, filter.stockpile_id));
+    }
+
+    if (filter?.shipment_id !== undefined) {
+      conditions.push(eq(qualitySamplesTable.shipment_id, filter.shipment_id));
+    }
+
+    if (filter?.basis !== undefined) {
+      conditions.push(eq(qualitySamplesTable.basis, filter.basis));
+    }
+
+    if (filter?.date_from !== undefined) {
+      conditions.push(gte(qualitySamplesTable.sampled_at, filter.date_from));
+    }
+
+    if (filter?.date_to !== undefined) {
+      conditions.push(lte(qualitySamplesTable.sampled_at, filter.date_to));
+    }
+
+    const samples = await db.select()
+      .from(qualitySamplesTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(qualitySamplesTable.sampled_at), desc(qualitySamplesTable.id))
+      .execute();
+
+    return samples.map(toQualitySample);
+  } catch (error) {
+    console.error('Failed to fetch quality samples:', error);
+    throw error;
+  }
+}
+
+export async function getStockpileQuality(stockpileId: number, scope?: PermissionScope): Promise<StockpileQuality> {
+  try {
+    const stockpiles = await db.select()
+      .from(stockpilesTable)
+      .where(eq(stockpilesTable.id, stockpileId))
+      .execute();
+
+    if (stockpiles.length === 0) {
+      throw new Error(`Stockpile with ID ${stockpileId} not found`);
+    }
+
+    if (!isJettyWithinScope(scope, stockpiles[0].jetty_id)) {
+      throw new Error(`Permission 'quality.view' does not cover jetty ${stockpiles[0].jetty_id}`);
+    }
+
+    const samples = await db.select()
+      .from(qualitySamplesTable)
+      .where(and(eq(qualitySamplesTable.stockpile_id, stockpileId), eq(qualitySamplesTable.basis, QUALITY_GRADE_BASIS)))
+      .orderBy(desc(qualitySamplesTable.sampled_at), desc(qualitySamplesTable.id))
+      .limit(1)
+      .execute();
+
+    const sample = samples.length > 0 ? toQualitySample(samples[0]) : null;
+
+    return {
+      stockpile_id: stockpileId,
+      basis: QUALITY_GRADE_BASIS,
+      sample,
+      derived_grade: sample ? gradeFromCalorificValue(sample.calorific_value) : null
+    };
+  } catch (error) {
+    console.error('Failed to fetch stockpile quality:', error);
+    throw error;
+  }
+}
+
+// Records that no longer stand (voids, and records voided or corrected since) carry no tonnage to weigh
+const assertRecordsStand = (
+  label: string,
+  ids: number[],
+  records: Array<{ id: number; entry_type: string; compensates_id: number | null }>,
+  superseding: Array<{ compensates_id: number | null }>
+): void => {
+  for (const id of ids) {
+    const record = records.find(candidate => candidate.id === id);
+    if (!record) {
+      throw new Error(`${label} record with ID ${id} not found`);
+    }
+    if (record.entry_type === 'void' || superseding.some(entry => entry.compensates_id === id)) {
+      throw new Error(`${label} record #${id} has been voided or corrected and no longer counts`);
+    }
+  }
+};
+
+// Tonnage-weighted quality on one basis. A production record takes its own latest sample, or that of the
+// record it corrects; a barge load takes the latest sample of its stockpile taken before it was loaded.
+export async function getWeightedQuality(input: WeightedQualityInput, scope?: PermissionScope): Promise<WeightedQuality> {
+  try {
+    const productionIds = [...new Set(input.production_record_ids)];
+    const bargingIds = [...new Set(input.barging_record_ids)];
+    if (productionIds.length === 0 && bargingIds.length === 0) {
+      throw new Error('No production or barging records given');
+    }
+
+    const weighed: Array<{ record_type: 'production' | 'barging'; record_id: number; tonnage: number; sample?: QualitySample }> = [];
+
+    if (productionIds.length > 0) {
+      const records = await db.select()
+        .from(productionRecordsTable)
+        .where(inArray(productionRecordsTable.id, productionIds))
+        .execute();
+      const superseding = await db.select({ compensates_id: productionRecordsTable.compensates_id })
+        .from(productionRecordsTable)
+        .where(inArray(productionRecordsTable.compensates_id, productionIds))
+        .execute();
+      assertRecordsStand('Production', productionIds, records, superseding);
+
+      const sampledIds = records.flatMap(record => record.compensates_id === null ? [record.id] : [record.id, record.compensates_id]);
+      const samples = (await db.select()
+        .from(qualitySamplesTable)
+        .where(and(inArray(qualitySamplesTable.production_record_id, sampledIds), eq(qualitySamplesTable.basis, input.basis)))
+        .execute())
+        .sort(latestFirst);
+
+      for (const record of productionIds.map(id => records.find(candidate => candidate.id === id)!)) {
+        assertWithinScope(scope, 'quality.view', record);
+        const sample = samples.find(candidate => candidate.production_record_id === record.id)
+          ?? samples.find(candidate => record.compensates_id !== null && candidate.production_record_id === record.compensates_id);
+        weighed.push({
+          record_type: 'production',
+          record_id: record.id,
+          tonnage: parseFloat(record.tonnage),
+          sample: sample ? toQualitySample(sample) : undefined
+        });
+      }
+    }
+
+    if (bargingIds.length > 0) {
+      const records = await db.select()
+        .from(bargingRecordsTable)
+        .where(inArray(bargingRecordsTable.id, bargingIds))
+        .execute();
+      const superseding = await db.select({ compensates_id: bargingRecordsTable.compensates_id })
+        .from(bargingRecordsTable)
+        .where(inArray(bargingRecordsTable.compensates_id, bargingIds))
+        .execute();
+      assertRecordsStand('Barging', bargingIds, records, superseding);
+
+      const samples = (await db.select()
+        .from(qualitySamplesTable)
+        .where(and(
+          inArray(qualitySamplesTable.stockpile_id, [...new Set(records.map(record => record.stockpile_id))]),
+          eq(qualitySamplesTable.basis, input.basis)
+        ))
+        .execute())
+        .sort(latestFirst);
+
+      for (const record of bargingIds.map(id => records.find(candidate => candidate.id === id)!)) {
+        assertWithinScope(scope, 'quality.view', record);
+        const sample = samples.find(candidate =>
+          candidate.stockpile_id === record.stockpile_id && candidate.sampled_at <= record.date_time
+        );
+        weighed.push({
+          record_type: 'barging',
+          record_id: record.id,
+          tonnage: parseFloat(record.tonnage),
+          sample: sample ? toQualitySample(sample) : undefined
+        });
+      }
+    }
+
+    const sampled = weighed.filter(entry => entry.sample !== undefined);
+    const weightedAverage = (parameter: typeof QUALITY_PARAMETERS[number]): number | null => {
+      let tonnage = 0;
+      let total = 0;
+      for (const entry of sampled) {
+        const value = entry.sample![parameter];
+        if (value !== null) {
+          tonnage += entry.tonnage;
+          total += value * entry.tonnage;
+        }
+      }
+      return tonnage > 0 ? round(total / tonnage, parameter === 'sulphur' ? 3 : 2) : null;
+    };
+
+    return {
+      basis: input.basis,
+      total_tonnage: round(weighed.reduce((total, entry) => total + entry.tonnage, 0), 2),
+      sampled_tonnage: round(sampled.reduce((total, entry) => total + entry.tonnage, 0), 2),
+      unsampled: weighed
+        .filter(entry => entry.sample === undefined)
+        .map(({ record_type, record_id, tonnage }) => ({ record_type, record_id, tonnage })),
+      calorific_value: weightedAverage('calorific_value'),
+      total_moisture: weightedAverage('total_moisture'),
+      ash: weightedAverage('ash'),
+      sulphur: weightedAverage('sulphur'),
+      hgi: weightedAverage('hgi')
+    };
+  } catch (error) {
+    console.error('Weighted quality calculation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,312 @@
+import { db } from '../db';
+import {
+  stockTable,
+  stockAdjustmentsTable,
+  productionRecordsTable,
+  bargingRecordsTable,
+  stockTransfersTable,
+  contractorsTable,
+  jettiesTable,
+  stockpilesTable,
+  auditLogTable
+} from '../db/schema';
+import {
+  type ReconcileStockInput,
+  type StockDiscrepancy,
+  type StockReconciliation,
+  type RequestActor,
+  type CoalGrade
+} from '../schema';
+import { runStockTransaction, changeStockById, type Transaction } from './ledger';
+import { eq, and, ne, sum, type SQL, type Column } from 'drizzle-orm';
+
+// Differences below half a cent of a tonne are rounding, not drift
+const RECONCILIATION_TOLERANCE = 0.005;
+
+// One stock balance per contractor, stockpile and grade; the jetty is carried along for reporting
+const balanceKey = (contractorId: number, jettyId: number, stockpileId: number, coalGrade: CoalGrade) =>
+  `${contractorId}_${jettyId}_${stockpileId}_${coalGrade}`;
+
+const filterConditions = (
+  input: ReconcileStockInput,
+  contractorColumn: Column,
+  jettyColumn: Column
+): SQL<unknown>[] => {
+  const conditions: SQL<unknown>[] = [];
+  if (input.contractor_id !== undefined) {
+    conditions.push(eq(contractorColumn, input.contractor_id));
+  }
+  if (input.jetty_id !== undefined) {
+    conditions.push(eq(jettyColumn, input.jetty_id));
+  }
+  return conditions;
+};
+
+// Balance each contractor/stockpile/grade should hold according to the source records, counting transfers
+// out on dispatch and in on arrival. Earlier reconciliation corrections are left out: they exist only
+// to bring stock in line with these records.
+const computeExpectedBalances = async (
+  executor: Transaction | typeof db,
+  input: ReconcileStockInput
+): Promise<Map<string, number>> => {
+  const production = await executor.select({
+    contractor_id: productionRecordsTable.contractor_id,
+    jetty_id: productionRecordsTable.jetty_id,
+    stockpile_id: productionRecordsTable.stockpile_id,
+    coal_grade: productionRecordsTable.coal_grade,
+    total: sum(productionRecordsTable.tonnage)
+  })
+    .from(productionRecordsTable)
+    .where(and(...filterConditions(input, productionRecordsTable.contractor_id, productionRecordsTable.jetty_id)))
+    .groupBy(productionRecordsTable.contractor_id, productionRecordsTable.jetty_id, productionRecordsTable.stockpile_id, productionRecordsTable.coal_grade)
+    .execute();
+
+  const barging = await executor.select({
+    contractor_id: bargingRecordsTable.contractor_id,
+    jetty_id: bargingRecordsTable.jetty_id,
+    stockpile_id: bargingRecordsTable.stockpile_id,
+    coal_grade: bargingRecordsTable.coal_grade,
+    total: sum(bargingRecordsTable.tonnage)
+  })
+    .from(bargingRecordsTable)
+    .where(and(...filterConditions(input, bargingRecordsTable.contractor_id, bargingRecordsTable.jetty_id)))
+    .groupBy(bargingRecordsTable.contractor_id, bargingRecordsTable.jetty_id, bargingRecordsTable.stockpile_id, bargingRecordsTable.coal_grade)
+    .execute();
+
+  const adjustments = await executor.select({
+    contractor_id: stockTable.contractor_id,
+    jetty_id: stockTable.jetty_id,
+    stockpile_id: stockTable.stockpile_id,
+    coal_grade: stockTable.coal_grade,
+    total: sum(stockAdjustmentsTable.adjustment_amount)
+  })
+    .from(stockAdjustmentsTable)
+    .innerJoin(stockTable, eq(stockAdjustmentsTable.stock_id, stockTable.id))
+    .where(and(
+      eq(stockAdjustmentsTable.status, 'applied'),
+      ne(stockAdjustmentsTable.reason, 'reconciliation'),
+      ...filterConditions(input, stockTable.contractor_id, stockTable.jetty_id)
+    ))
+    .groupBy(stockTable.contractor_id, stockTable.jetty_id, stockTable.stockpile_id, stockTable.coal_grade)
+    .execute();
+
+  const transfersOut = await executor.select({
+    contractor_id: stockTransfersTable.source_contractor_id,
+    jetty_id: stockTransfersTable.source_jetty_id,
+    stockpile_id: stockTransfersTable.source_stockpile_id,
+    coal_grade: stockTransfersTable.coal_grade,
+    total: sum(stockTransfersTable.tonnage)
+  })
+    .from(stockTransfersTable)
+    .where(and(...filterConditions(input, stockTransfersTable.source_contractor_id, stockTransfersTable.source_jetty_id)))
+    .groupBy(stockTransfersTable.source_contractor_id, stockTransfersTable.source_jetty_id, stockTransfersTable.source_stockpile_id, stockTransfersTable.coal_grade)
+    .execute();
+
+  const transfersIn = await executor.select({
+    contractor_id: stockTransfersTable.destination_contractor_id,
+    jetty_id: stockTransfersTable.destination_jetty_id,
+    stockpile_id: stockTransfersTable.destination_stockpile_id,
+    coal_grade: stockTransfersTable.coal_grade,
+    total: sum(stockTransfersTable.tonnage)
+  })
+    .from(stockTransfersTable)
+    .where(and(
+      eq(stockTransfersTable.status, 'completed'),
+      ...filterConditions(input, stockTransfersTable.destination_contractor_id, stockTransfersTable.destination_jetty_id)
+    ))
+    .groupBy(stockTransfersTable.destination_contractor_id, stockTransfersTable.destination_jetty_id, stockTransfersTable.destination_stockpile_id, stockTransfersTable.coal_grade)
+    .execute();
+
+  const expected = new Map<string, number>();
+  const add = (row: { contractor_id: number; jetty_id: number; stockpile_id: number; coal_grade: CoalGrade }, amount: number) => {
+    const key = balanceKey(row.contractor_id, row.jetty_id, row.stockpile_id, row.coal_grade);
+    expected.set(key, (expected.get(key) || 0) + amount);
+  };
+
+  production.forEach(row => add(row, row.total ? parseFloat(row.total) : 0));
+  barging.forEach(row => add(row, row.total ? -parseFloat(row.total) : 0));
+  adjustments.forEach(row => add(row, row.total ? parseFloat(row.total) : 0));
+  transfersOut.forEach(row => add(row, row.total ? -parseFloat(row.total) : 0));
+  transfersIn.forEach(row => add(row, row.total ? parseFloat(row.total) : 0));
+
+  return expected;
+};
+
+type Correction = Pick<StockDiscrepancy, 'recorded_tonnage' | 'expected_tonnage' | 'difference' | 'adjustment_id' | 'note'>;
+
+// Bring one balance back in line with a 'reconciliation' adjustment, applied straight away. The
+// discrepancy was found from unlocked reads, so both sides are read again under the stock row lock
+// and the correction posts the difference as it stands then.
+const writeCorrection = async (
+  discrepancy: StockDiscrepancy,
+  stockId: number | null,
+  actor: RequestActor
+): Promise<Correction> => {
+  return runStockTransaction(async (tx) => {
+    let stock: typeof stockTable.$inferSelect;
+    if (stockId === null) {
+      // A concurrent first insert for the same balance fails on the stock key and is retried
+      const created = await tx.insert(stockTable)
+        .values({
+          contractor_id: discrepancy.contractor_id,
+          jetty_id: discrepancy.jetty_id,
+          stockpile_id: discrepancy.stockpile_id,
+          coal_grade: discrepancy.coal_grade,
+          tonnage: '0'
+        })
+        .returning()
+        .execute();
+      stock = created[0];
+    } else {
+      const locked = await tx.select()
+        .from(stockTable)
+        .where(eq(stockTable.id, stockId))
+        .for('update')
+        .execute();
+
+      if (locked.length === 0) {
+        throw new Error('Stock record not found');
+      }
+      stock = locked[0];
+    }
+
+    const expected = await computeExpectedBalances(tx, { contractor_id: stock.contractor_id, jetty_id: stock.jetty_id, apply: true });
+    const key = balanceKey(stock.contractor_id, stock.jetty_id, stock.stockpile_id, stock.coal_grade);
+    const recordedTonnage = parseFloat(stock.tonnage);
+    const expectedTonnage = Math.round((expected.get(key) || 0) * 100) / 100;
+    const difference = Math.round((expectedTonnage - recordedTonnage) * 100) / 100;
+    const correction = { recorded_tonnage: recordedTonnage, expected_tonnage: expectedTonnage, difference };
+
+    if (expectedTonnage < 0) {
+      return { ...correction, adjustment_id: null, note: 'Source records give a negative balance; not corrected' };
+    }
+    if (Math.abs(difference) < RECONCILIATION_TOLERANCE) {
+      return { ...correction, adjustment_id: null, note: 'Brought in line by a concurrent change; not corrected' };
+    }
+
+    const adjustments = await tx.insert(stockAdjustmentsTable)
+      .values({
+        stock_id: stock.id,
+        adjusted_by: actor.user_id,
+        previous_tonnage: recordedTonnage.toString(),
+        new_tonnage: expectedTonnage.toString(),
+        adjustment_amount: difference.toString(),
+        reason: 'reconciliation',
+        reason_description: `Stock reconciliation: recorded ${recordedTonnage} tons, source records give ${expectedTonnage} tons`,
+        status: 'applied',
+        required_approvals: 0,
+        approved_by: actor.user_id,
+        approved_at: new Date()
+      })
+      .returning()
+      .execute();
+
+    const adjustment = adjustments[0];
+
+    await changeStockById(tx, stock.id, difference, {
+      movement_type: 'adjustment',
+      reference_id: adjustment.id,
+      occurred_at: new Date(),
+      created_by: actor.user_id
+    });
+
+    await tx.insert(auditLogTable)
+      .values({
+        user_id: actor.user_id,
+        action: 'stock_reconciliation_adjustment',
+        table_name: 'stock_adjustments',
+        record_id: adjustment.id,
+        old_values: { tonnage: recordedTonnage },
+        new_values: { tonnage: expectedTonnage, difference },
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
+      })
+      .execute();
+
+    return { ...correction, adjustment_id: adjustment.id, note: null };
+  });
+};
+
+// Compare every contractor/stockpile/grade balance with the one rebuilt from production, barging and
+// adjustment records. Read-only unless input.apply is set, in which case each drifted balance
+// gets a corrective adjustment.
+export async function reconcileStock(
+  input: ReconcileStockInput,
+  actor: RequestActor
+): Promise<StockReconciliation> {
+  try {
+    const expected = await computeExpectedBalances(db, input);
+
+    const stockRows = await db.select()
+      .from(stockTable)
+      .where(and(...filterConditions(input, stockTable.contractor_id, stockTable.jetty_id)))
+      .execute();
+
+    const recorded = new Map(stockRows.map(stock => [balanceKey(stock.contractor_id, stock.jetty_id, stock.stockpile_id, stock.coal_grade), stock]));
+    const balanceKeys = [...new Set([...expected.keys(), ...recorded.keys()])];
+
+    const contractors = await db.select({ id: contractorsTable.id, name: contractorsTable.name })
+      .from(contractorsTable)
+      .execute();
+    const jetties = await db.select({ id: jettiesTable.id, name: jettiesTable.name })
+      .from(jettiesTable)
+      .execute();
+    const stockpiles = await db.select({ id: stockpilesTable.id, code: stockpilesTable.code })
+      .from(stockpilesTable)
+      .execute();
+    const contractorNames = new Map(contractors.map(contractor => [contractor.id, contractor.name]));
+    const jettyNames = new Map(jetties.map(jetty => [jetty.id, jetty.name]));
+    const stockpileCodes = new Map(stockpiles.map(stockpile => [stockpile.id, stockpile.code]));
+
+    const discrepancies: StockDiscrepancy[] = [];
+
+    for (const key of balanceKeys.sort()) {
+      const [contractorPart, jettyPart, stockpilePart, gradePart] = key.split('_');
+      const contractorId = Number(contractorPart);
+      const jettyId = Number(jettyPart);
+      const stockpileId = Number(stockpilePart);
+      const coalGrade = gradePart as CoalGrade;
+      const stock = recorded.get(key);
+      const recordedTonnage = stock ? parseFloat(stock.tonnage) : 0;
+      const expectedTonnage = Math.round((expected.get(key) || 0) * 100) / 100;
+      const difference = Math.round((expectedTonnage - recordedTonnage) * 100) / 100;
+
+      if (Math.abs(difference) < RECONCILIATION_TOLERANCE) {
+        continue;
+      }
+
+      const discrepancy: StockDiscrepancy = {
+        contractor_id: contractorId,
+        contractor_name: contractorNames.get(contractorId) || 'Unknown Contractor',
+        jetty_id: jettyId,
+        jetty_name: jettyNames.get(jettyId) || 'Unknown Jetty',
+        stockpile_id: stockpileId,
+        stockpile_code: stockpileCodes.get(stockpileId) || 'Unknown Stockpile',
+        coal_grade: coalGrade,
+        recorded_tonnage: recordedTonnage,
+        expected_tonnage: expectedTonnage,
+        difference,
+        adjustment_id: null,
+        note: null
+      };
+
+      if (expectedTonnage < 0) {
+        // Stock cannot go negative; the records themselves need investigating
+        discrepancy.note = 'Source records give a negative balance; not corrected';
+      } else if (input.apply) {
+        Object.assign(discrepancy, await writeCorrection(discrepancy, stock?.id ?? null, actor));
+      }
+
+      discrepancies.push(discrepancy);
+    }
+
+    return {
+      applied: input.apply,
+      checked_balances: balanceKeys.length,
+      discrepancies
+    };
+  } catch (error) {
+    console.error('Stock reconciliation failed:', error);
+    throw error;
+  }
+}
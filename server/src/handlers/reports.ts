@@ -5,14 +5,27 @@ import {
   jettiesTable, 
   productionRecordsTable,
   bargingRecordsTable,
+  stockAdjustmentsTable,
+  stockMovementsTable,
+  stockTransfersTable,
+  stockpilesTable,
   fuelPurchasesTable,
   fuelUsageTable,
+  trucksTable,
+  shipmentsTable,
+  vesselsTable,
   usersTable
 } from '../db/schema';
 import { 
-  type StockFilter 
+  type StockFilter,
+  type SurveyVarianceFilter,
+  type PermissionScope
 } from '../schema';
-import { eq, and, gte, lte, isNull, SQL, desc, sum, sql } from 'drizzle-orm';
+import { eq, and, gte, lte, lt, isNull, inArray, SQL, asc, desc, sum, sql } from 'drizzle-orm';
+import { scopeCondition, jettyScopeCondition } from './permissions';
+import { getSurveyVarianceHistory } from './surveys';
+import { calculateLaytime, laytimeScopeCondition, LaytimeIncompleteError } from './laytime';
+import { normalizePlate } from './trucks';
 
 // Helper function to escape CSV fields
 function escapeCSVField(field: any): string {
@@ -53,13 +66,22 @@ function generateFilename(baseType: string, filters: any = {}, format: string =
   if (filters.jettyId) {
     filename += `_jetty_${filters.jettyId}`;
   }
+
+  if (filters.truckId) {
+    filename += `_truck_${filters.truckId}`;
+  }
+
+  if (filters.shipmentId) {
+    filename += `_shipment_${filters.shipmentId}`;
+  }
   
   return `${filename}.${format}`;
 }
 
 export async function generateStockReport(
   filter?: StockFilter,
-  format: 'csv' | 'pdf' = 'csv'
+  format: 'csv' | 'pdf' = 'csv',
+  scope?: PermissionScope
 ): Promise<{ content: string; filename: string; mimeType: string }> {
   try {
     // Build base query with joins
@@ -69,14 +91,16 @@ export async function generateStockReport(
       contractor_code: contractorsTable.code,
       jetty_name: jettiesTable.name,
       jetty_code: jettiesTable.code,
+      stockpile_code: stockpilesTable.code,
       tonnage: stockTable.tonnage,
+      coal_grade: stockTable.coal_grade,
       last_updated: stockTable.last_updated,
-      contractor_grade: contractorsTable.default_grade,
       contractor_status: contractorsTable.is_active
     })
     .from(stockTable)
     .innerJoin(contractorsTable, eq(stockTable.contractor_id, contractorsTable.id))
-    .innerJoin(jettiesTable, eq(stockTable.jetty_id, jettiesTable.id));
+    .innerJoin(jettiesTable, eq(stockTable.jetty_id, jettiesTable.id))
+    .innerJoin(stockpilesTable, eq(stockTable.stockpile_id, stockpilesTable.id));
 
     // Apply filters
     const conditions: SQL<unknown>[] = [];
@@ -88,6 +112,14 @@ export async function generateStockReport(
     if (filter?.jetty_id) {
       conditions.push(eq(stockTable.jetty_id, filter.jetty_id));
     }
+
+    if (filter?.stockpile_id) {
+      conditions.push(eq(stockTable.stockpile_id, filter.stockpile_id));
+    }
+
+    if (filter?.coal_grade) {
+      conditions.push(eq(stockTable.coal_grade, filter.coal_grade));
+    }
     
     if (filter?.date_from) {
       conditions.push(gte(stockTable.last_updated, filter.date_from));
@@ -101,10 +133,15 @@ export async function generateStockReport(
     conditions.push(eq(contractorsTable.is_active, true));
     conditions.push(isNull(contractorsTable.deleted_at));
 
+    const scopeFilter = scopeCondition(scope, stockTable.jetty_id, stockTable.contractor_id);
+    if (scopeFilter) {
+      conditions.push(scopeFilter);
+    }
+
     // Apply where clause and ordering
     const finalQuery = query
       .where(and(...conditions))
-      .orderBy(contractorsTable.name, jettiesTable.name);
+      .orderBy(contractorsTable.name, jettiesTable.name, stockpilesTable.code, stockTable.coal_grade);
 
     const results = await finalQuery.execute();
 
@@ -114,6 +151,7 @@ export async function generateStockReport(
       'Contractor Code', 
       'Jetty Name',
       'Jetty Code',
+      'Stockpile',
       'Stock Tonnage',
       'Coal Grade',
       'Last Updated',
@@ -125,8 +163,9 @@ export async function generateStockReport(
       result.contractor_code,
       result.jetty_name,
       result.jetty_code,
+      result.stockpile_code,
       parseFloat(result.tonnage),
-      result.contractor_grade,
+      result.coal_grade,
       result.last_updated.toISOString(),
       result.contractor_status ? 'Active' : 'Inactive'
     ]);
@@ -150,58 +189,80 @@ export async function generateStockReport(
   }
 }
 
+// Production rows behind the production and truck reports, newest first
+const queryProductionRows = async (
+  filters: { dateFrom?: Date; dateTo?: Date; contractorId?: number; jettyId?: number; truckId?: number },
+  scope?: PermissionScope
+) => {
+  const query = db.select({
+    record_id: productionRecordsTable.id,
+    date_time: productionRecordsTable.date_time,
+    contractor_name: contractorsTable.name,
+    contractor_code: contractorsTable.code,
+    jetty_name: jettiesTable.name,
+    jetty_code: jettiesTable.code,
+    truck_number: productionRecordsTable.truck_number,
+    truck_id: productionRecordsTable.truck_id,
+    tonnage: productionRecordsTable.tonnage,
+    tonnage_source: productionRecordsTable.tonnage_source,
+    ticket_number: productionRecordsTable.ticket_number,
+    entry_type: productionRecordsTable.entry_type,
+    coal_grade: productionRecordsTable.coal_grade,
+    operator_name: usersTable.full_name,
+    notes: productionRecordsTable.notes
+  })
+  .from(productionRecordsTable)
+  .innerJoin(contractorsTable, eq(productionRecordsTable.contractor_id, contractorsTable.id))
+  .innerJoin(jettiesTable, eq(productionRecordsTable.jetty_id, jettiesTable.id))
+  .innerJoin(usersTable, eq(productionRecordsTable.operator_id, usersTable.id));
+
+  // Apply filters
+  const conditions: SQL<unknown>[] = [];
+  
+  if (filters.dateFrom) {
+    conditions.push(gte(productionRecordsTable.date_time, filters.dateFrom));
+  }
+  
+  if (filters.dateTo) {
+    conditions.push(lte(productionRecordsTable.date_time, filters.dateTo));
+  }
+  
+  if (filters.contractorId) {
+    conditions.push(eq(productionRecordsTable.contractor_id, filters.contractorId));
+  }
+  
+  if (filters.jettyId) {
+    conditions.push(eq(productionRecordsTable.jetty_id, filters.jettyId));
+  }
+
+  if (filters.truckId) {
+    conditions.push(eq(productionRecordsTable.truck_id, filters.truckId));
+  }
+
+  const scopeFilter = scopeCondition(scope, productionRecordsTable.jetty_id, productionRecordsTable.contractor_id);
+  if (scopeFilter) {
+    conditions.push(scopeFilter);
+  }
+
+  // Apply where clause and ordering  
+  const finalQuery = conditions.length > 0
+    ? query.where(and(...conditions)).orderBy(desc(productionRecordsTable.date_time))
+    : query.orderBy(desc(productionRecordsTable.date_time));
+
+  return finalQuery.execute();
+};
+
 export async function generateProductionReport(
   dateFrom?: Date,
   dateTo?: Date,
   contractorId?: number,
   jettyId?: number,
-  format: 'csv' | 'pdf' = 'csv'
+  format: 'csv' | 'pdf' = 'csv',
+  scope?: PermissionScope,
+  truckId?: number
 ): Promise<{ content: string; filename: string; mimeType: string }> {
   try {
-    // Build query with joins
-    let query = db.select({
-      record_id: productionRecordsTable.id,
-      date_time: productionRecordsTable.date_time,
-      contractor_name: contractorsTable.name,
-      contractor_code: contractorsTable.code,
-      jetty_name: jettiesTable.name,
-      jetty_code: jettiesTable.code,
-      truck_number: productionRecordsTable.truck_number,
-      tonnage: productionRecordsTable.tonnage,
-      coal_grade: productionRecordsTable.coal_grade,
-      operator_name: usersTable.full_name,
-      notes: productionRecordsTable.notes
-    })
-    .from(productionRecordsTable)
-    .innerJoin(contractorsTable, eq(productionRecordsTable.contractor_id, contractorsTable.id))
-    .innerJoin(jettiesTable, eq(productionRecordsTable.jetty_id, jettiesTable.id))
-    .innerJoin(usersTable, eq(productionRecordsTable.operator_id, usersTable.id));
-
-    // Apply filters
-    const conditions: SQL<unknown>[] = [];
-    
-    if (dateFrom) {
-      conditions.push(gte(productionRecordsTable.date_time, dateFrom));
-    }
-    
-    if (dateTo) {
-      conditions.push(lte(productionRecordsTable.date_time, dateTo));
-    }
-    
-    if (contractorId) {
-      conditions.push(eq(productionRecordsTable.contractor_id, contractorId));
-    }
-    
-    if (jettyId) {
-      conditions.push(eq(productionRecordsTable.jetty_id, jettyId));
-    }
-
-    // Apply where clause and ordering  
-    const finalQuery = conditions.length > 0
-      ? query.where(and(...conditions)).orderBy(desc(productionRecordsTable.date_time))
-      : query.orderBy(desc(productionRecordsTable.date_time));
-
-    const results = await finalQuery.execute();
+    const results = await queryProductionRows({ dateFrom, dateTo, contractorId, jettyId, truckId }, scope);
 
     // Convert to CSV format
     const headers = [
@@ -212,6 +273,9 @@ export async function generateProductionReport(
       'Jetty Code', 
       'Truck Number',
       'Tonnage',
+      'Tonnage Source',
+      'Ticket Number',
+      'Entry Type',
       'Coal Grade',
       'Operator',
       'Notes'
@@ -225,13 +289,16 @@ export async function generateProductionReport(
       result.jetty_code,
       result.truck_number,
       parseFloat(result.tonnage),
+      result.tonnage_source,
+      result.ticket_number || '',
+      result.entry_type,
       result.coal_grade,
       result.operator_name,
       result.notes || ''
     ]);
 
     const content = arrayToCSV(headers, rows);
-    const filename = generateFilename('production', { dateFrom, dateTo, contractorId, jettyId }, format);
+    const filename = generateFilename('production', { dateFrom, dateTo, contractorId, jettyId, truckId }, format);
     
     return {
       content,
@@ -244,12 +311,106 @@ export async function generateProductionReport(
   }
 }
 
+// Trips and tonnage per truck over the production report's rows. Registered trucks are grouped by
+// registry entry; plates outside the registry are grouped on the normalized plate. A void takes its trip back off.
+export async function generateTruckReport(
+  dateFrom?: Date,
+  dateTo?: Date,
+  contractorId?: number,
+  jettyId?: number,
+  format: 'csv' | 'pdf' = 'csv',
+  scope?: PermissionScope
+): Promise<{ content: string; filename: string; mimeType: string }> {
+  try {
+    const results = await queryProductionRows({ dateFrom, dateTo, contractorId, jettyId }, scope);
+
+    const trucks = await db.select({
+      id: trucksTable.id,
+      capacity: trucksTable.capacity,
+      haulier_name: contractorsTable.name
+    })
+      .from(trucksTable)
+      .innerJoin(contractorsTable, eq(trucksTable.contractor_id, contractorsTable.id))
+      .execute();
+    const trucksById = new Map(trucks.map(truck => [truck.id, truck]));
+
+    const byTruck = new Map<string, { truck_number: string; truck_id: number | null; trips: number; tonnage: number; first: Date; last: Date }>();
+    for (const result of results) {
+      const key = result.truck_id !== null ? `registered_${result.truck_id}` : `unregistered_${normalizePlate(result.truck_number)}`;
+      const trips = result.entry_type === 'void' ? -1 : 1;
+      const entry = byTruck.get(key);
+      if (entry) {
+        entry.trips += trips;
+        entry.tonnage += parseFloat(result.tonnage);
+        if (result.date_time < entry.first) entry.first = result.date_time;
+        if (result.date_time > entry.last) entry.last = result.date_time;
+      } else {
+        byTruck.set(key, {
+          truck_number: result.truck_number,
+          truck_id: result.truck_id,
+          trips,
+          tonnage: parseFloat(result.tonnage),
+          first: result.date_time,
+          last: result.date_time
+        });
+      }
+    }
+
+    const headers = [
+      'Truck Number',
+      'Registered',
+      'Haulier',
+      'Trips',
+      'Total Tonnage',
+      'Average Load',
+      'Capacity',
+      'Average Load %',
+      'First Trip',
+      'Last Trip'
+    ];
+
+    const rows = [...byTruck.values()]
+      .filter(entry => entry.trips > 0)
+      .sort((a, b) => b.tonnage - a.tonnage || a.truck_number.localeCompare(b.truck_number))
+      .map(entry => {
+        const truck = entry.truck_id !== null ? trucksById.get(entry.truck_id) : undefined;
+        const capacity = truck ? parseFloat(truck.capacity) : null;
+        const averageLoad = Math.round(entry.tonnage / entry.trips * 100) / 100;
+        return [
+          entry.truck_number,
+          truck ? 'Yes' : 'No',
+          truck?.haulier_name || '',
+          entry.trips,
+          Math.round(entry.tonnage * 100) / 100,
+          averageLoad,
+          capacity ?? '',
+          capacity ? Math.round(averageLoad / capacity * 10000) / 100 : '',
+          entry.first.toISOString(),
+          entry.last.toISOString()
+        ];
+      });
+
+    const content = arrayToCSV(headers, rows);
+    const filename = generateFilename('truck', { dateFrom, dateTo, contractorId, jettyId }, format);
+
+    return {
+      content,
+      filename,
+      mimeType: format === 'csv' ? 'text/csv' : 'application/pdf'
+    };
+  } catch (error) {
+    console.error('Truck report generation failed:', error);
+    throw error;
+  }
+}
+
 export async function generateBargingReport(
   dateFrom?: Date,
   dateTo?: Date,
   contractorId?: number,
   jettyId?: number,
-  format: 'csv' | 'pdf' = 'csv'
+  format: 'csv' | 'pdf' = 'csv',
+  scope?: PermissionScope
 ): Promise<{ content: string; filename: string; mimeType: string }> {
   try {
     // Build query with joins
@@ -262,6 +423,8 @@ export async function generateBargingReport(
       jetty_code: jettiesTable.code,
       ship_batch_number: bargingRecordsTable.ship_batch_number,
       tonnage: bargingRecordsTable.tonnage,
+      entry_type: bargingRecordsTable.entry_type,
+      coal_grade: bargingRecordsTable.coal_grade,
       buyer: bargingRecordsTable.buyer,
       operator_name: usersTable.full_name,
       loading_document: bargingRecordsTable.loading_document,
@@ -291,6 +454,11 @@ export async function generateBargingReport(
       conditions.push(eq(bargingRecordsTable.jetty_id, jettyId));
     }
 
+    const scopeFilter = scopeCondition(scope, bargingRecordsTable.jetty_id, bargingRecordsTable.contractor_id);
+    if (scopeFilter) {
+      conditions.push(scopeFilter);
+    }
+
     // Apply where clause and ordering
     const finalQuery = conditions.length > 0
       ? query.where(and(...conditions)).orderBy(desc(bargingRecordsTable.date_time))
@@ -307,6 +475,8 @@ export async function generateBargingReport(
       'Jetty Code',
       'Ship Batch Number',
       'Tonnage',
+      'Entry Type',
+      'Coal Grade',
       'Buyer',
       'Operator',
       'Loading Document',
@@ -321,6 +491,8 @@ export async function generateBargingReport(
       result.jetty_code,
       result.ship_batch_number,
       parseFloat(result.tonnage),
+      result.entry_type,
+      result.coal_grade,
       result.buyer || '',
       result.operator_name,
       result.loading_document || '',
@@ -341,11 +513,151 @@ export async function generateBargingReport(
   }
 }
 
+// Laytime outcome per shipment with a laycan starting in the range. Shipments whose terms or statement of
+// facts are not complete yet are listed as incomplete, with what is missing.
+export async function generateLaytimeReport(
+  dateFrom?: Date,
+  dateTo?: Date,
+  format: 'csv' | 'pdf' = 'csv',
+  scope?: PermissionScope
+): Promise<{ content: string; filename: string; mimeType: string }> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    // Only shipments whose every load the caller can see, as calculateLaytime requires
+    const scopeFilter = laytimeScopeCondition(scope);
+    if (scopeFilter) {
+      conditions.push(scopeFilter);
+    }
+
+    if (dateFrom) {
+      conditions.push(gte(shipmentsTable.laycan_start, dateFrom));
+    }
+
+    if (dateTo) {
+      conditions.push(lte(shipmentsTable.laycan_start, dateTo));
+    }
+
+    const shipments = await db.select({
+      id: shipmentsTable.id,
+      vessel_name: vesselsTable.name,
+      buyer: shipmentsTable.buyer,
+      laycan_start: shipmentsTable.laycan_start,
+      laycan_end: shipmentsTable.laycan_end
+    })
+      .from(shipmentsTable)
+      .innerJoin(vesselsTable, eq(shipmentsTable.vessel_id, vesselsTable.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(shipmentsTable.laycan_start), asc(shipmentsTable.id))
+      .execute();
+
+    const headers = [
+      'Shipment',
+      'Vessel',
+      'Buyer',
+      'Laycan Start',
+      'Laycan End',
+      'Quantity',
+      'Terms',
+      'Laytime Allowed Hours',
+      'Laytime Commenced',
+      'Loading Completed',
+      'Laytime Used Hours',
+      'Excluded Hours',
+      'Demurrage Hours',
+      'Time Saved Hours',
+      'Outcome',
+      'Amount',
+      'Note'
+    ];
+
+    const rows: any[][] = [];
+    for (const shipment of shipments) {
+      const shipmentColumns = [
+        shipment.id,
+        shipment.vessel_name,
+        shipment.buyer,
+        shipment.laycan_start.toISOString(),
+        shipment.laycan_end.toISOString()
+      ];
+
+      try {
+        const laytime = await calculateLaytime(shipment.id, scope, 'reports.export');
+        rows.push([
+          ...shipmentColumns,
+          laytime.quantity,
+          laytime.terms.terms.toUpperCase(),
+          laytime.allowed_hours,
+          laytime.laytime_commenced_at.toISOString(),
+          laytime.loading_completed_at.toISOString(),
+          laytime.used_hours,
+          laytime.excluded_hours,
+          laytime.demurrage_hours,
+          laytime.saved_hours,
+          laytime.outcome,
+          laytime.amount,
+          ''
+        ]);
+      } catch (error) {
+        if (!(error instanceof LaytimeIncompleteError)) {
+          throw error;
+        }
+        rows.push([...shipmentColumns, '', '', '', '', '', '', '', '', '', 'incomplete', '', error.message]);
+      }
+    }
+
+    const content = arrayToCSV(headers, rows);
+    const filename = generateFilename('laytime', { dateFrom, dateTo }, format);
+
+    return {
+      content,
+      filename,
+      mimeType: format === 'csv' ? 'text/csv' : 'application/pdf'
+    };
+  } catch (error) {
+    console.error('Laytime report generation failed:', error);
+    throw error;
+  }
+}
+
+// The laytime time sheet of one shipment, period by period, as attached to a demurrage or despatch claim
+export async function generateLaytimeStatement(
+  shipmentId: number,
+  format: 'csv' | 'pdf' = 'csv',
+  scope?: PermissionScope
+): Promise<{ content: string; filename: string; mimeType: string }> {
+  try {
+    const laytime = await calculateLaytime(shipmentId, scope, 'reports.export');
+
+    const headers = ['From', 'To', 'Period', 'Counts As', 'Hours'];
+    const rows = laytime.periods.map(period => [
+      period.from.toISOString(),
+      period.to.toISOString(),
+      period.description,
+      period.counts_as,
+      period.hours
+    ]);
+
+    const content = arrayToCSV(headers, rows);
+    const filename = generateFilename('laytime_statement', { shipmentId }, format);
+
+    return {
+      content,
+      filename,
+      mimeType: format === 'csv' ? 'text/csv' : 'application/pdf'
+    };
+  } catch (error) {
+    console.error('Laytime statement generation failed:', error);
+    throw error;
+  }
+}
+
 export async function generateFuelReport(
   dateFrom?: Date,
   dateTo?: Date,
   jettyId?: number,
-  format: 'csv' | 'pdf' = 'csv'
+  format: 'csv' | 'pdf' = 'csv',
+  scope?: PermissionScope
 ): Promise<{ content: string; filename: string; mimeType: string }> {
   try {
     // Query fuel purchases
@@ -377,7 +689,8 @@ export async function generateFuelReport(
       operator_name: usersTable.full_name
     })
     .from(fuelUsageTable)
-    .innerJoin(usersTable, eq(fuelUsageTable.created_by, usersTable.id));
+    .innerJoin(usersTable, eq(fuelUsageTable.created_by, usersTable.id))
+    .leftJoin(productionRecordsTable, eq(fuelUsageTable.production_record_id, productionRecordsTable.id));
 
     // Apply filters to purchases
     const purchaseConditions: SQL<unknown>[] = [];
@@ -390,8 +703,12 @@ export async function generateFuelReport(
     if (jettyId) {
       purchaseConditions.push(eq(fuelPurchasesTable.jetty_id, jettyId));
     }
+    const purchaseScope = jettyScopeCondition(scope, fuelPurchasesTable.jetty_id);
+    if (purchaseScope) {
+      purchaseConditions.push(purchaseScope);
+    }
 
-    // Apply filters to usage
+    // Apply filters to usage; it has no jetty, so a scoped caller gets usage logged against production in scope
     const usageConditions: SQL<unknown>[] = [];
     if (dateFrom) {
       usageConditions.push(gte(fuelUsageTable.date, dateFrom));
@@ -399,6 +716,10 @@ export async function generateFuelReport(
     if (dateTo) {
       usageConditions.push(lte(fuelUsageTable.date, dateTo));
     }
+    const usageScope = scopeCondition(scope, productionRecordsTable.jetty_id, productionRecordsTable.contractor_id);
+    if (usageScope) {
+      usageConditions.push(usageScope);
+    }
 
     const finalPurchaseQuery = purchaseConditions.length > 0 
       ? purchaseQuery.where(and(...purchaseConditions))
@@ -460,10 +781,11 @@ export async function generateFuelReport(
 }
 
 export async function generateContractorReport(
-  format: 'csv' | 'pdf' = 'csv'
+  format: 'csv' | 'pdf' = 'csv',
+  scope?: PermissionScope
 ): Promise<{ content: string; filename: string; mimeType: string }> {
   try {
-    // Query contractors with aggregated stock
+    // Query contractors with aggregated stock; only stock in the caller's scope is counted
     const query = db.select({
       contractor_id: contractorsTable.id,
       name: contractorsTable.name,
@@ -476,7 +798,10 @@ export async function generateContractorReport(
       total_stock: sum(stockTable.tonnage).as('total_stock')
     })
     .from(contractorsTable)
-    .leftJoin(stockTable, eq(contractorsTable.id, stockTable.contractor_id))
+    .leftJoin(stockTable, and(
+      eq(contractorsTable.id, stockTable.contractor_id),
+      scopeCondition(scope, stockTable.jetty_id, stockTable.contractor_id)
+    ))
     .where(isNull(contractorsTable.deleted_at))
     .groupBy(
       contractorsTable.id,
@@ -534,106 +859,120 @@ export async function generateMovementReport(
   dateTo?: Date,
   contractorId?: number,
   jettyId?: number,
-  format: 'csv' | 'pdf' = 'csv'
+  format: 'csv' | 'pdf' = 'csv',
+  scope?: PermissionScope
 ): Promise<{ content: string; filename: string; mimeType: string }> {
   try {
-    // Query production records (inflow)
-    let productionQuery = db.select({
-      type: sql<string>`'Production'`.as('type'),
-      date_time: productionRecordsTable.date_time,
-      contractor_name: contractorsTable.name,
-      jetty_name: jettiesTable.name,
-      tonnage: productionRecordsTable.tonnage,
-      direction: sql<string>`'In'`.as('direction'),
-      operator_name: usersTable.full_name,
-      reference: productionRecordsTable.truck_number,
-      contractor_id: contractorsTable.id,
-      jetty_id: jettiesTable.id
-    })
-    .from(productionRecordsTable)
-    .innerJoin(contractorsTable, eq(productionRecordsTable.contractor_id, contractorsTable.id))
-    .innerJoin(jettiesTable, eq(productionRecordsTable.jetty_id, jettiesTable.id))
-    .innerJoin(usersTable, eq(productionRecordsTable.operator_id, usersTable.id));
-
-    // Query barging records (outflow)
-    let bargingQuery = db.select({
-      type: sql<string>`'Barging'`.as('type'),
-      date_time: bargingRecordsTable.date_time,
-      contractor_name: contractorsTable.name,
-      jetty_name: jettiesTable.name,
-      tonnage: bargingRecordsTable.tonnage,
-      direction: sql<string>`'Out'`.as('direction'),
-      operator_name: usersTable.full_name,
-      reference: bargingRecordsTable.ship_batch_number,
-      contractor_id: contractorsTable.id,
-      jetty_id: jettiesTable.id
-    })
-    .from(bargingRecordsTable)
-    .innerJoin(contractorsTable, eq(bargingRecordsTable.contractor_id, contractorsTable.id))
-    .innerJoin(jettiesTable, eq(bargingRecordsTable.jetty_id, jettiesTable.id))
-    .innerJoin(usersTable, eq(bargingRecordsTable.operator_id, usersTable.id));
-
-    // Apply filters to production
-    const productionConditions: SQL<unknown>[] = [];
-    if (dateFrom) {
-      productionConditions.push(gte(productionRecordsTable.date_time, dateFrom));
-    }
-    if (dateTo) {
-      productionConditions.push(lte(productionRecordsTable.date_time, dateTo));
+    // Movements come from the stock ledger, so adjustments are included and balances are true ones
+    const conditions: SQL<unknown>[] = [];
+    const scopeFilter = scopeCondition(scope, stockMovementsTable.jetty_id, stockMovementsTable.contractor_id);
+    if (scopeFilter) {
+      conditions.push(scopeFilter);
     }
     if (contractorId) {
-      productionConditions.push(eq(productionRecordsTable.contractor_id, contractorId));
+      conditions.push(eq(stockMovementsTable.contractor_id, contractorId));
     }
     if (jettyId) {
-      productionConditions.push(eq(productionRecordsTable.jetty_id, jettyId));
+      conditions.push(eq(stockMovementsTable.jetty_id, jettyId));
     }
 
-    // Apply filters to barging
-    const bargingConditions: SQL<unknown>[] = [];
+    const periodConditions = [...conditions];
     if (dateFrom) {
-      bargingConditions.push(gte(bargingRecordsTable.date_time, dateFrom));
+      periodConditions.push(gte(stockMovementsTable.occurred_at, dateFrom));
     }
     if (dateTo) {
-      bargingConditions.push(lte(bargingRecordsTable.date_time, dateTo));
-    }
-    if (contractorId) {
-      bargingConditions.push(eq(bargingRecordsTable.contractor_id, contractorId));
-    }
-    if (jettyId) {
-      bargingConditions.push(eq(bargingRecordsTable.jetty_id, jettyId));
+      periodConditions.push(lte(stockMovementsTable.occurred_at, dateTo));
     }
 
-    const finalProductionQuery = productionConditions.length > 0 
-      ? productionQuery.where(and(...productionConditions))
-      : productionQuery;
-
-    const finalBargingQuery = bargingConditions.length > 0 
-      ? bargingQuery.where(and(...bargingConditions))
-      : bargingQuery;
-
-    // Execute both queries
-    const [production, barging] = await Promise.all([
-      finalProductionQuery.execute(),
-      finalBargingQuery.execute()
-    ]);
+    const movements = await db.select({
+      movement_type: stockMovementsTable.movement_type,
+      date_time: stockMovementsTable.occurred_at,
+      contractor_id: stockMovementsTable.contractor_id,
+      jetty_id: stockMovementsTable.jetty_id,
+      stockpile_id: stockMovementsTable.stockpile_id,
+      coal_grade: stockMovementsTable.coal_grade,
+      contractor_name: contractorsTable.name,
+      jetty_name: jettiesTable.name,
+      stockpile_code: stockpilesTable.code,
+      change: stockMovementsTable.change,
+      operator_name: usersTable.full_name,
+      truck_number: productionRecordsTable.truck_number,
+      ship_batch_number: bargingRecordsTable.ship_batch_number,
+      adjustment_reason: stockAdjustmentsTable.reason,
+      transfer_id: stockTransfersTable.id,
+      transport_reference: stockTransfersTable.transport_reference
+    })
+      .from(stockMovementsTable)
+      .innerJoin(contractorsTable, eq(stockMovementsTable.contractor_id, contractorsTable.id))
+      .innerJoin(jettiesTable, eq(stockMovementsTable.jetty_id, jettiesTable.id))
+      .innerJoin(stockpilesTable, eq(stockMovementsTable.stockpile_id, stockpilesTable.id))
+      .innerJoin(usersTable, eq(stockMovementsTable.created_by, usersTable.id))
+      .leftJoin(productionRecordsTable, and(
+        eq(stockMovementsTable.movement_type, 'production'),
+        eq(stockMovementsTable.reference_id, productionRecordsTable.id)
+      ))
+      .leftJoin(bargingRecordsTable, and(
+        eq(stockMovementsTable.movement_type, 'barging'),
+        eq(stockMovementsTable.reference_id, bargingRecordsTable.id)
+      ))
+      .leftJoin(stockAdjustmentsTable, and(
+        eq(stockMovementsTable.movement_type, 'adjustment'),
+        eq(stockMovementsTable.reference_id, stockAdjustmentsTable.id)
+      ))
+      .leftJoin(stockTransfersTable, and(
+        inArray(stockMovementsTable.movement_type, ['transfer_out', 'transfer_in']),
+        eq(stockMovementsTable.reference_id, stockTransfersTable.id)
+      ))
+      .where(periodConditions.length > 0 ? and(...periodConditions) : undefined)
+      .orderBy(asc(stockMovementsTable.occurred_at), asc(stockMovementsTable.id))
+      .execute();
+
+    // Running balances start from each contractor/stockpile/grade balance before the period
+    const balanceTracker = new Map<string, number>();
+    if (dateFrom) {
+      const openingBalances = await db.select({
+        contractor_id: stockMovementsTable.contractor_id,
+        stockpile_id: stockMovementsTable.stockpile_id,
+        coal_grade: stockMovementsTable.coal_grade,
+        balance: sum(stockMovementsTable.change)
+      })
+        .from(stockMovementsTable)
+        .where(and(...conditions, lt(stockMovementsTable.occurred_at, dateFrom)))
+        .groupBy(stockMovementsTable.contractor_id, stockMovementsTable.stockpile_id, stockMovementsTable.coal_grade)
+        .execute();
+
+      openingBalances.forEach(opening => {
+        balanceTracker.set(
+          `${opening.contractor_id}_${opening.stockpile_id}_${opening.coal_grade}`,
+          opening.balance ? parseFloat(opening.balance) : 0
+        );
+      });
+    }
 
-    // Combine and sort by date
-    const movements = [...production, ...barging].sort((a, b) => 
-      a.date_time.getTime() - b.date_time.getTime()
-    );
+    const movementLabels = {
+      production: 'Production',
+      barging: 'Barging',
+      adjustment: 'Adjustment',
+      transfer_out: 'Transfer Out',
+      transfer_in: 'Transfer In',
+      opening_balance: 'Opening Balance'
+    };
 
-    // Calculate running balances by contractor/jetty combination
-    const balanceTracker = new Map<string, number>();
     const movementsWithBalance = movements.map(movement => {
-      const key = `${movement.contractor_id}_${movement.jetty_id}`;
-      const currentBalance = balanceTracker.get(key) || 0;
-      const tonnageChange = movement.direction === 'In' ? 
-        parseFloat(movement.tonnage) : -parseFloat(movement.tonnage);
-      const newBalance = currentBalance + tonnageChange;
+      const key = `${movement.contractor_id}_${movement.stockpile_id}_${movement.coal_grade}`;
+      const change = parseFloat(movement.change);
+      const newBalance = (balanceTracker.get(key) || 0) + change;
       balanceTracker.set(key, newBalance);
-      
+
       return {
         ...movement,
+        type: movementLabels[movement.movement_type],
+        tonnage: Math.abs(change),
+        direction: change >= 0 ? 'In' : 'Out',
+        reference: movement.truck_number
+          ?? movement.ship_batch_number
+          ?? movement.adjustment_reason
+          ?? (movement.transfer_id !== null ? `Transfer #${movement.transfer_id}${movement.transport_reference ? ` (${movement.transport_reference})` : ''}` : null),
         running_balance: newBalance
       };
     });
@@ -644,6 +983,8 @@ export async function generateMovementReport(
       'Type',
       'Contractor',
       'Jetty',
+      'Stockpile',
+      'Coal Grade',
       'Tonnage',
       'Direction',
       'Running Balance',
@@ -656,7 +997,9 @@ export async function generateMovementReport(
       result.type,
       result.contractor_name,
       result.jetty_name,
-      parseFloat(result.tonnage),
+      result.stockpile_code,
+      result.coal_grade,
+      result.tonnage,
       result.direction,
       result.running_balance,
       result.operator_name,
@@ -677,16 +1020,77 @@ export async function generateMovementReport(
   }
 }
 
+export async function generateSurveyVarianceReport(
+  filter?: SurveyVarianceFilter,
+  format: 'csv' | 'pdf' = 'csv',
+  scope?: PermissionScope
+): Promise<{ content: string; filename: string; mimeType: string }> {
+  try {
+    const surveys = await getSurveyVarianceHistory(filter, scope);
+
+    const headers = [
+      'Surveyed At',
+      'Jetty',
+      'Stockpile',
+      'Measured Volume',
+      'Bulk Density',
+      'Surveyed Tonnage',
+      'Book Tonnage',
+      'Variance',
+      'Variance %',
+      'Pending',
+      'Applied',
+      'Rejected'
+    ];
+
+    const rows = surveys.map(survey => [
+      survey.surveyed_at.toISOString(),
+      survey.jetty_name,
+      survey.stockpile_code,
+      survey.measured_volume,
+      survey.bulk_density,
+      survey.surveyed_tonnage,
+      survey.book_tonnage,
+      survey.variance,
+      survey.variance_percent,
+      survey.pending_tonnage,
+      survey.applied_tonnage,
+      survey.rejected_tonnage
+    ]);
+
+    const content = arrayToCSV(headers, rows);
+    const filename = generateFilename('survey_variance', {
+      dateFrom: filter?.date_from,
+      dateTo: filter?.date_to,
+      jettyId: filter?.jetty_id
+    }, format);
+
+    return {
+      content,
+      filename,
+      mimeType: format === 'csv' ? 'text/csv' : 'application/pdf'
+    };
+  } catch (error) {
+    console.error('Survey variance report generation failed:', error);
+    throw error;
+  }
+}
+
 export async function generateExecutiveSummary(
   dateFrom?: Date,
   dateTo?: Date,
-  format: 'pdf' = 'pdf'
+  format: 'pdf' = 'pdf',
+  scope?: PermissionScope
 ): Promise<{ content: string; filename: string; mimeType: string }> {
   try {
     // For this implementation, we'll generate a comprehensive text-based summary
     // In a real implementation, this would generate a proper PDF with charts
     
     const conditions: SQL<unknown>[] = [];
+    const productionScope = scopeCondition(scope, productionRecordsTable.jetty_id, productionRecordsTable.contractor_id);
+    if (productionScope) {
+      conditions.push(productionScope);
+    }
     if (dateFrom) {
       conditions.push(gte(productionRecordsTable.date_time, dateFrom));
     }
@@ -699,6 +1103,7 @@ export async function generateExecutiveSummary(
       total_stock: sum(stockTable.tonnage)
     })
     .from(stockTable)
+    .where(scopeCondition(scope, stockTable.jetty_id, stockTable.contractor_id))
     .execute();
 
     // Get production totals
@@ -722,6 +1127,10 @@ export async function generateExecutiveSummary(
     .from(bargingRecordsTable);
 
     const bargingConditions: SQL<unknown>[] = [];
+    const bargingScope = scopeCondition(scope, bargingRecordsTable.jetty_id, bargingRecordsTable.contractor_id);
+    if (bargingScope) {
+      bargingConditions.push(bargingScope);
+    }
     if (dateFrom) {
       bargingConditions.push(gte(bargingRecordsTable.date_time, dateFrom));
     }
@@ -0,0 +1,322 @@
+import { db } from '../db';
+import {
+  shipmentsTable,
+  vesselsTable,
+  bargingRecordsTable,
+  contractorsTable,
+  jettiesTable
+} from '../db/schema';
+import {
+  type CreateShipmentInput,
+  type UpdateShipmentInput,
+  type UpdateShipmentStatusInput,
+  type ShipmentFilter,
+  type ShipmentStatus,
+  type Shipment,
+  type ShipmentProgress,
+  type PermissionScope
+} from '../schema';
+import { scopeCondition } from './permissions';
+import { type Transaction } from './ledger';
+import { resolveContractBuyer } from './contracts';
+import { eq, and, or, not, exists, desc, sql, sum, type SQL } from 'drizzle-orm';
+
+type ShipmentRow = typeof shipmentsTable.$inferSelect;
+
+// WHERE condition on shipments for a scoped caller: those with a barge load in scope, like getBargingRecords,
+// and those with no loads yet, which belong to no jetty. Undefined when nothing needs filtering.
+export const shipmentScopeCondition = (scope: PermissionScope | undefined): SQL | undefined => {
+  const loadFilter = scopeCondition(scope, bargingRecordsTable.jetty_id, bargingRecordsTable.contractor_id);
+  if (!loadFilter) return undefined;
+  if (scope!.grants.length === 0) return sql`false`;
+
+  const loads = (filter?: SQL) => db.select({ id: bargingRecordsTable.id })
+    .from(bargingRecordsTable)
+    .where(and(eq(bargingRecordsTable.shipment_id, shipmentsTable.id), filter));
+
+  return or(exists(loads(loadFilter)), not(exists(loads())));
+};
+
+// A completed shipment can be reopened for a late barge; once sailed it is closed for good
+const SHIPMENT_STATUS_TRANSITIONS: Record<ShipmentStatus, ShipmentStatus[]> = {
+  nominated: ['loading'],
+  loading: ['completed'],
+  completed: ['loading', 'sailed'],
+  sailed: []
+};
+
+const toShipment = (shipment: ShipmentRow): Shipment => ({
+  ...shipment,
+  nominated_quantity: parseFloat(shipment.nominated_quantity)
+});
+
+const assertVesselActive = async (vesselId: number): Promise<void> => {
+  const vessels = await db.select({ is_active: vesselsTable.is_active })
+    .from(vesselsTable)
+    .where(eq(vesselsTable.id, vesselId))
+    .execute();
+
+  if (vessels.length === 0 || !vessels[0].is_active) {
+    throw new Error(`Vessel with ID ${vesselId} not found or inactive`);
+  }
+};
+
+const assertLaycan = (laycanStart: Date, laycanEnd: Date): void => {
+  if (laycanEnd < laycanStart) {
+    throw new Error('Laycan end must not be before laycan start');
+  }
+};
+
+// Barge loads may only go to a shipment that is nominated or loading; the first load starts loading.
+// Locks the shipment row so a load cannot slip in while the shipment is being closed.
+export const startShipmentLoad = async (tx: Transaction, shipmentId: number): Promise<ShipmentRow> => {
+  const shipments = await tx.select()
+    .from(shipmentsTable)
+    .where(eq(shipmentsTable.id, shipmentId))
+    .for('update')
+    .execute();
+
+  if (shipments.length === 0) {
+    throw new Error(`Shipment with ID ${shipmentId} not found`);
+  }
+
+  const shipment = shipments[0];
+  if (shipment.status !== 'nominated' && shipment.status !== 'loading') {
+    throw new Error(`Shipment #${shipmentId} is ${shipment.status} and no longer loading`);
+  }
+
+  if (shipment.status === 'nominated') {
+    await tx.update(shipmentsTable)
+      .set({ status: 'loading', updated_at: new Date() })
+      .where(eq(shipmentsTable.id, shipmentId))
+      .execute();
+  }
+
+  return shipment;
+};
+
+export async function createShipment(input: CreateShipmentInput): Promise<Shipment> {
+  try {
+    await assertVesselActive(input.vessel_id);
+    assertLaycan(input.laycan_start, input.laycan_end);
+    const sale = await resolveContractBuyer(db, input.contract_id ?? null, input.buyer, input.laycan_start);
+
+    const result = await db.insert(shipmentsTable)
+      .values({
+        vessel_id: input.vessel_id,
+        buyer: sale.buyer ?? input.buyer,
+        contract_id: sale.contract_id,
+        destination_port: input.destination_port,
+        laycan_start: input.laycan_start,
+        laycan_end: input.laycan_end,
+        nominated_quantity: input.nominated_quantity.toString(),
+        notes: input.notes
+      })
+      .returning()
+      .execute();
+
+    return toShipment(result[0]);
+  } catch (error) {
+    console.error('Shipment creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateShipment(input: UpdateShipmentInput): Promise<Shipment> {
+  try {
+    const existing = await db.select()
+      .from(shipmentsTable)
+      .where(eq(shipmentsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Shipment with ID ${input.id} not found`);
+    }
+
+    const shipment = existing[0];
+    if (shipment.status === 'sailed') {
+      throw new Error(`Shipment #${shipment.id} has sailed and can no longer be changed`);
+    }
+
+    if (input.vessel_id !== undefined && input.vessel_id !== shipment.vessel_id) {
+      await assertVesselActive(input.vessel_id);
+    }
+    assertLaycan(input.laycan_start ?? shipment.laycan_start, input.laycan_end ?? shipment.laycan_end);
+
+    const updateData: Partial<typeof shipmentsTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.vessel_id !== undefined) updateData.vessel_id = input.vessel_id;
+    if (input.buyer !== undefined || input.contract_id !== undefined || input.laycan_start !== undefined) {
+      const contractId = input.contract_id !== undefined ? input.contract_id : shipment.contract_id;
+      // Moving to another contract takes that contract's buyer unless one is given
+      const buyer = input.buyer ?? (input.contract_id !== undefined && input.contract_id !== null ? null : shipment.buyer);
+      const sale = await resolveContractBuyer(db, contractId, buyer, input.laycan_start ?? shipment.laycan_start);
+      updateData.buyer = sale.buyer ?? shipment.buyer;
+      updateData.contract_id = sale.contract_id;
+    }
+    if (input.destination_port !== undefined) updateData.destination_port = input.destination_port;
+    if (input.laycan_start !== undefined) updateData.laycan_start = input.laycan_start;
+    if (input.laycan_end !== undefined) updateData.laycan_end = input.laycan_end;
+    if (input.nominated_quantity !== undefined) updateData.nominated_quantity = input.nominated_quantity.toString();
+    if (input.notes !== undefined) updateData.notes = input.notes;
+
+    const result = await db.update(shipmentsTable)
+      .set(updateData)
+      .where(eq(shipmentsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toShipment(result[0]);
+  } catch (error) {
+    console.error('Shipment update failed:', error);
+    throw error;
+  }
+}
+
+export async function updateShipmentStatus(input: UpdateShipmentStatusInput): Promise<Shipment> {
+  try {
+    const updated = await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(shipmentsTable)
+        .where(eq(shipmentsTable.id, input.id))
+        .for('update')
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Shipment with ID ${input.id} not found`);
+      }
+
+      const current = existing[0].status;
+      if (!SHIPMENT_STATUS_TRANSITIONS[current].includes(input.status)) {
+        throw new Error(`Shipment #${input.id} cannot move from ${current} to ${input.status}`);
+      }
+
+      const result = await tx.update(shipmentsTable)
+        .set({ status: input.status, updated_at: new Date() })
+        .where(eq(shipmentsTable.id, input.id))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+
+    return toShipment(updated);
+  } catch (error) {
+    console.error('Shipment status update failed:', error);
+    throw error;
+  }
+}
+
+export async function getShipments(filter?: ShipmentFilter, scope?: PermissionScope): Promise<Shipment[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    const scopeFilter = shipmentScopeCondition(scope);
+    if (scopeFilter) {
+      conditions.push(scopeFilter);
+    }
+
+    if (filter?.vessel_id !== undefined) {
+      conditions.push(eq(shipmentsTable.vessel_id, filter.vessel_id));
+    }
+
+    if (filter?.status !== undefined) {
+      conditions.push(eq(shipmentsTable.status, filter.status));
+    }
+
+    const shipments = await db.select()
+      .from(shipmentsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(shipmentsTable.laycan_start))
+      .execute();
+
+    return shipments.map(toShipment);
+  } catch (error) {
+    console.error('Failed to fetch shipments:', error);
+    throw error;
+  }
+}
+
+// Loaded against nominated tonnage. Voids and corrections net out through their signed tonnage, and a void
+// takes its barge load back off the count. Loads outside the caller's scope are left out of the breakdown
+// and the loaded total.
+export async function getShipmentProgress(shipmentId: number, scope?: PermissionScope): Promise<ShipmentProgress> {
+  try {
+    const shipments = await db.select({ shipment: shipmentsTable, vessel_name: vesselsTable.name })
+      .from(shipmentsTable)
+      .innerJoin(vesselsTable, eq(shipmentsTable.vessel_id, vesselsTable.id))
+      .where(eq(shipmentsTable.id, shipmentId))
+      .execute();
+
+    if (shipments.length === 0) {
+      throw new Error(`Shipment with ID ${shipmentId} not found`);
+    }
+
+    const conditions: SQL<unknown>[] = [eq(bargingRecordsTable.shipment_id, shipmentId)];
+    const scopeFilter = scopeCondition(scope, bargingRecordsTable.jetty_id, bargingRecordsTable.contractor_id);
+    if (scopeFilter) {
+      conditions.push(scopeFilter);
+    }
+
+    const loads = await db.select({
+      contractor_id: bargingRecordsTable.contractor_id,
+      contractor_name: contractorsTable.name,
+      jetty_id: bargingRecordsTable.jetty_id,
+      jetty_name: jettiesTable.name,
+      tonnage: sum(bargingRecordsTable.tonnage),
+      barge_loads: sql<string>`sum(case when ${bargingRecordsTable.entry_type} = 'void' then -1 else 1 end)`
+    })
+      .from(bargingRecordsTable)
+      .innerJoin(contractorsTable, eq(bargingRecordsTable.contractor_id, contractorsTable.id))
+      .innerJoin(jettiesTable, eq(bargingRecordsTable.jetty_id, jettiesTable.id))
+      .where(and(...conditions))
+      .groupBy(bargingRecordsTable.contractor_id, contractorsTable.name, bargingRecordsTable.jetty_id, jettiesTable.name)
+      .execute();
+
+    const byContractor = new Map<number, ShipmentProgress['by_contractor'][number]>();
+    const byJetty = new Map<number, ShipmentProgress['by_jetty'][number]>();
+    for (const load of loads) {
+      const tonnage = parseFloat(load.tonnage ?? '0');
+      const bargeLoads = parseInt(load.barge_loads);
+
+      const contractor = byContractor.get(load.contractor_id)
+        ?? { contractor_id: load.contractor_id, contractor_name: load.contractor_name, tonnage: 0, barge_loads: 0 };
+      contractor.tonnage += tonnage;
+      contractor.barge_loads += bargeLoads;
+      byContractor.set(load.contractor_id, contractor);
+
+      const jetty = byJetty.get(load.jetty_id)
+        ?? { jetty_id: load.jetty_id, jetty_name: load.jetty_name, tonnage: 0, barge_loads: 0 };
+      jetty.tonnage += tonnage;
+      jetty.barge_loads += bargeLoads;
+      byJetty.set(load.jetty_id, jetty);
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const shipment = toShipment(shipments[0].shipment);
+    const loaded = loads.reduce((total, load) => total + parseFloat(load.tonnage ?? '0'), 0);
+
+    return {
+      shipment,
+      vessel_name: shipments[0].vessel_name,
+      nominated_quantity: shipment.nominated_quantity,
+      loaded_tonnage: round(loaded),
+      remaining_tonnage: round(Math.max(shipment.nominated_quantity - loaded, 0)),
+      loaded_percent: round(loaded / shipment.nominated_quantity * 100),
+      barge_loads: loads.reduce((total, load) => total + parseInt(load.barge_loads), 0),
+      by_contractor: [...byContractor.values()]
+        .filter(entry => entry.barge_loads > 0)
+        .map(entry => ({ ...entry, tonnage: round(entry.tonnage) }))
+        .sort((a, b) => b.tonnage - a.tonnage),
+      by_jetty: [...byJetty.values()]
+        .filter(entry => entry.barge_loads > 0)
+        .map(entry => ({ ...entry, tonnage: round(entry.tonnage) }))
+        .sort((a, b) => b.tonnage - a.tonnage)
+    };
+  } catch (error) {
+    console.error('Failed to fetch shipment progress:', error);
+    throw error;
+  }
+}
@@ -3,7 +3,10 @@ import {
   stockTable, 
   contractorsTable, 
   jettiesTable, 
+  stockpilesTable,
   stockAdjustmentsTable,
+  stockAdjustmentApprovalsTable,
+  stockMovementsTable,
   usersTable,
   auditLogTable
 } from '../db/schema';
@@ -11,21 +14,43 @@ import {
   type Stock, 
   type StockFilter,
   type CreateStockAdjustmentInput,
-  type StockAdjustment 
+  type StockAdjustment,
+  type AdjustmentStatus,
+  type StockMovement,
+  type StockLedgerFilter,
+  type RequestActor,
+  type PermissionScope,
+  type CoalGrade,
+  type GradeTonnage
 } from '../schema';
-import { eq, and, gte, lte, desc, asc, sum, count, max, SQL, isNull } from 'drizzle-orm';
+import { assertWithinScope, scopeCondition } from './permissions';
+import { runStockTransaction, changeStockById, type Transaction } from './ledger';
+import { eq, and, gte, lte, desc, asc, sum, count, countDistinct, max, SQL, isNull } from 'drizzle-orm';
+
+// Add tonnage to a per-grade breakdown, keeping one entry per grade
+const addGradeTonnage = (breakdown: GradeTonnage[], coalGrade: CoalGrade, tonnage: number): void => {
+  const entry = breakdown.find(item => item.coal_grade === coalGrade);
+  if (entry) {
+    entry.tonnage += tonnage;
+  } else {
+    breakdown.push({ coal_grade: coalGrade, tonnage });
+  }
+};
 
-export async function getStock(filter?: StockFilter): Promise<Array<Stock & {
+export async function getStock(filter?: StockFilter, scope?: PermissionScope): Promise<Array<Stock & {
   contractor_name: string;
   contractor_code: string;
   jetty_name: string;
   jetty_code: string;
+  stockpile_code: string;
 }>> {
   try {
     let query = db.select({
       id: stockTable.id,
       contractor_id: stockTable.contractor_id,
       jetty_id: stockTable.jetty_id,
+      stockpile_id: stockTable.stockpile_id,
+      coal_grade: stockTable.coal_grade,
       tonnage: stockTable.tonnage,
       last_updated: stockTable.last_updated,
       version: stockTable.version,
@@ -34,11 +59,13 @@ export async function getStock(filter?: StockFilter): Promise<Array<Stock & {
       contractor_name: contractorsTable.name,
       contractor_code: contractorsTable.code,
       jetty_name: jettiesTable.name,
-      jetty_code: jettiesTable.code
+      jetty_code: jettiesTable.code,
+      stockpile_code: stockpilesTable.code
     })
     .from(stockTable)
     .innerJoin(contractorsTable, eq(stockTable.contractor_id, contractorsTable.id))
-    .innerJoin(jettiesTable, eq(stockTable.jetty_id, jettiesTable.id));
+    .innerJoin(jettiesTable, eq(stockTable.jetty_id, jettiesTable.id))
+    .innerJoin(stockpilesTable, eq(stockTable.stockpile_id, stockpilesTable.id));
 
     const conditions: SQL<unknown>[] = [
       eq(contractorsTable.is_active, true),
@@ -54,6 +81,14 @@ export async function getStock(filter?: StockFilter): Promise<Array<Stock & {
       conditions.push(eq(stockTable.jetty_id, filter.jetty_id));
     }
 
+    if (filter?.stockpile_id !== undefined) {
+      conditions.push(eq(stockTable.stockpile_id, filter.stockpile_id));
+    }
+
+    if (filter?.coal_grade !== undefined) {
+      conditions.push(eq(stockTable.coal_grade, filter.coal_grade));
+    }
+
     if (filter?.date_from !== undefined) {
       conditions.push(gte(stockTable.last_updated, filter.date_from));
     }
@@ -62,9 +97,14 @@ export async function getStock(filter?: StockFilter): Promise<Array<Stock & {
       conditions.push(lte(stockTable.last_updated, filter.date_to));
     }
 
+    const scopeFilter = scopeCondition(scope, stockTable.jetty_id, stockTable.contractor_id);
+    if (scopeFilter) {
+      conditions.push(scopeFilter);
+    }
+
     const finalQuery = conditions.length > 0 
-      ? query.where(and(...conditions)).orderBy(asc(contractorsTable.name), asc(jettiesTable.name))
-      : query.orderBy(asc(contractorsTable.name), asc(jettiesTable.name));
+      ? query.where(and(...conditions)).orderBy(asc(contractorsTable.name), asc(jettiesTable.name), asc(stockpilesTable.code), asc(stockTable.coal_grade))
+      : query.orderBy(asc(contractorsTable.name), asc(jettiesTable.name), asc(stockpilesTable.code), asc(stockTable.coal_grade));
 
     const results = await finalQuery.execute();
 
@@ -78,15 +118,17 @@ export async function getStock(filter?: StockFilter): Promise<Array<Stock & {
   }
 }
 
-export async function getStockByContractor(): Promise<Array<{
+export async function getStockByContractor(scope?: PermissionScope): Promise<Array<{
   contractor_id: number;
   contractor_name: string;
   contractor_code: string;
   total_tonnage: number;
+  by_grade: GradeTonnage[];
   jetties: Array<{
     jetty_id: number;
     jetty_name: string;
     tonnage: number;
+    by_grade: GradeTonnage[];
     last_updated: Date;
   }>;
 }>> {
@@ -97,6 +139,7 @@ export async function getStockByContractor(): Promise<Array<{
       contractor_code: contractorsTable.code,
       jetty_id: stockTable.jetty_id,
       jetty_name: jettiesTable.name,
+      coal_grade: stockTable.coal_grade,
       tonnage: stockTable.tonnage,
       last_updated: stockTable.last_updated
     })
@@ -106,21 +149,24 @@ export async function getStockByContractor(): Promise<Array<{
     .where(and(
       eq(contractorsTable.is_active, true),
       eq(jettiesTable.is_active, true),
-      isNull(contractorsTable.deleted_at)
+      isNull(contractorsTable.deleted_at),
+      scopeCondition(scope, stockTable.jetty_id, stockTable.contractor_id)
     ))
-    .orderBy(asc(contractorsTable.name), asc(jettiesTable.name))
+    .orderBy(asc(contractorsTable.name), asc(jettiesTable.name), asc(stockTable.coal_grade))
     .execute();
 
-    // Group by contractor
+    // Group by contractor, then by jetty within the contractor
     const grouped = new Map<number, {
       contractor_id: number;
       contractor_name: string;
       contractor_code: string;
       total_tonnage: number;
+      by_grade: GradeTonnage[];
       jetties: Array<{
         jetty_id: number;
         jetty_name: string;
         tonnage: number;
+        by_grade: GradeTonnage[];
         last_updated: Date;
       }>;
     }>();
@@ -135,18 +181,31 @@ export async function getStockByContractor(): Promise<Array<{
           contractor_name: result.contractor_name,
           contractor_code: result.contractor_code,
           total_tonnage: 0,
+          by_grade: [],
           jetties: []
         });
       }
 
       const contractor = grouped.get(contractorId)!;
       contractor.total_tonnage += tonnage;
-      contractor.jetties.push({
-        jetty_id: result.jetty_id,
-        jetty_name: result.jetty_name,
-        tonnage: tonnage,
-        last_updated: result.last_updated
-      });
+      addGradeTonnage(contractor.by_grade, result.coal_grade, tonnage);
+
+      let jetty = contractor.jetties.find(item => item.jetty_id === result.jetty_id);
+      if (!jetty) {
+        jetty = {
+          jetty_id: result.jetty_id,
+          jetty_name: result.jetty_name,
+          tonnage: 0,
+          by_grade: [],
+          last_updated: result.last_updated
+        };
+        contractor.jetties.push(jetty);
+      }
+      jetty.tonnage += tonnage;
+      addGradeTonnage(jetty.by_grade, result.coal_grade, tonnage);
+      if (result.last_updated > jetty.last_updated) {
+        jetty.last_updated = result.last_updated;
+      }
     }
 
     return Array.from(grouped.values());
@@ -156,15 +215,17 @@ export async function getStockByContractor(): Promise<Array<{
   }
 }
 
-export async function getStockByJetty(): Promise<Array<{
+export async function getStockByJetty(scope?: PermissionScope): Promise<Array<{
   jetty_id: number;
   jetty_name: string;
   jetty_code: string;
   total_tonnage: number;
+  by_grade: GradeTonnage[];
   contractors: Array<{
     contractor_id: number;
     contractor_name: string;
     tonnage: number;
+    by_grade: GradeTonnage[];
     last_updated: Date;
   }>;
 }>> {
@@ -175,6 +236,7 @@ export async function getStockByJetty(): Promise<Array<{
       jetty_code: jettiesTable.code,
       contractor_id: stockTable.contractor_id,
       contractor_name: contractorsTable.name,
+      coal_grade: stockTable.coal_grade,
       tonnage: stockTable.tonnage,
       last_updated: stockTable.last_updated
     })
@@ -184,21 +246,24 @@ export async function getStockByJetty(): Promise<Array<{
     .where(and(
       eq(contractorsTable.is_active, true),
       eq(jettiesTable.is_active, true),
-      isNull(contractorsTable.deleted_at)
+      isNull(contractorsTable.deleted_at),
+      scopeCondition(scope, stockTable.jetty_id, stockTable.contractor_id)
     ))
-    .orderBy(asc(jettiesTable.name), asc(contractorsTable.name))
+    .orderBy(asc(jettiesTable.name), asc(contractorsTable.name), asc(stockTable.coal_grade))
     .execute();
 
-    // Group by jetty
+    // Group by jetty, then by contractor within the jetty
     const grouped = new Map<number, {
       jetty_id: number;
       jetty_name: string;
       jetty_code: string;
       total_tonnage: number;
+      by_grade: GradeTonnage[];
       contractors: Array<{
         contractor_id: number;
         contractor_name: string;
         tonnage: number;
+        by_grade: GradeTonnage[];
         last_updated: Date;
       }>;
     }>();
@@ -213,18 +278,31 @@ export async function getStockByJetty(): Promise<Array<{
           jetty_name: result.jetty_name,
           jetty_code: result.jetty_code,
           total_tonnage: 0,
+          by_grade: [],
           contractors: []
         });
       }
 
       const jetty = grouped.get(jettyId)!;
       jetty.total_tonnage += tonnage;
-      jetty.contractors.push({
-        contractor_id: result.contractor_id,
-        contractor_name: result.contractor_name,
-        tonnage: tonnage,
-        last_updated: result.last_updated
-      });
+      addGradeTonnage(jetty.by_grade, result.coal_grade, tonnage);
+
+      let contractor = jetty.contractors.find(item => item.contractor_id === result.contractor_id);
+      if (!contractor) {
+        contractor = {
+          contractor_id: result.contractor_id,
+          contractor_name: result.contractor_name,
+          tonnage: 0,
+          by_grade: [],
+          last_updated: result.last_updated
+        };
+        jetty.contractors.push(contractor);
+      }
+      contractor.tonnage += tonnage;
+      addGradeTonnage(contractor.by_grade, result.coal_grade, tonnage);
+      if (result.last_updated > contractor.last_updated) {
+        contractor.last_updated = result.last_updated;
+      }
     }
 
     return Array.from(grouped.values());
@@ -234,7 +312,7 @@ export async function getStockByJetty(): Promise<Array<{
   }
 }
 
-export async function getTotalStock(): Promise<{
+export async function getTotalStock(scope?: PermissionScope): Promise<{
   total_tonnage: number;
   total_contractors: number;
   total_jetties: number;
@@ -244,8 +322,8 @@ export async function getTotalStock(): Promise<{
     const [stockResults, lastUpdatedResult] = await Promise.all([
       db.select({
         total_tonnage: sum(stockTable.tonnage),
-        total_contractors: count(stockTable.contractor_id),
-        total_jetties: count(stockTable.jetty_id)
+        total_contractors: countDistinct(stockTable.contractor_id),
+        total_jetties: countDistinct(stockTable.jetty_id)
       })
       .from(stockTable)
       .innerJoin(contractorsTable, eq(stockTable.contractor_id, contractorsTable.id))
@@ -253,7 +331,8 @@ export async function getTotalStock(): Promise<{
       .where(and(
         eq(contractorsTable.is_active, true),
         eq(jettiesTable.is_active, true),
-        isNull(contractorsTable.deleted_at)
+        isNull(contractorsTable.deleted_at),
+        scopeCondition(scope, stockTable.jetty_id, stockTable.contractor_id)
       ))
       .execute(),
 
@@ -261,6 +340,7 @@ export async function getTotalStock(): Promise<{
         last_updated: max(stockTable.last_updated)
       })
       .from(stockTable)
+      .where(scopeCondition(scope, stockTable.jetty_id, stockTable.contractor_id))
       .execute()
     ]);
 
@@ -279,9 +359,238 @@ export async function getTotalStock(): Promise<{
   }
 }
 
-export async function createStockAdjustment(input: CreateStockAdjustmentInput): Promise<StockAdjustment> {
+// Balance of a contractor at a jetty as of a moment, from the movements that had occurred by then;
+// all grades together unless a grade is given
+export async function getBalanceAt(
+  contractorId: number,
+  jettyId: number,
+  at: Date,
+  coalGrade?: CoalGrade,
+  scope?: PermissionScope
+): Promise<{ contractor_id: number; jetty_id: number; coal_grade: CoalGrade | null; at: Date; balance: number }> {
+  try {
+    assertWithinScope(scope, 'stock.view', { contractor_id: contractorId, jetty_id: jettyId });
+
+    const conditions: SQL<unknown>[] = [
+      eq(stockMovementsTable.contractor_id, contractorId),
+      eq(stockMovementsTable.jetty_id, jettyId),
+      lte(stockMovementsTable.occurred_at, at)
+    ];
+
+    if (coalGrade !== undefined) {
+      conditions.push(eq(stockMovementsTable.coal_grade, coalGrade));
+    }
+
+    const result = await db.select({ balance: sum(stockMovementsTable.change) })
+      .from(stockMovementsTable)
+      .where(and(...conditions))
+      .execute();
+
+    return {
+      contractor_id: contractorId,
+      jetty_id: jettyId,
+      coal_grade: coalGrade ?? null,
+      at,
+      balance: result[0]?.balance ? parseFloat(result[0].balance) : 0
+    };
+  } catch (error) {
+    console.error('Get balance at failed:', error);
+    throw error;
+  }
+}
+
+export async function getStockLedger(filter: StockLedgerFilter, scope?: PermissionScope): Promise<{
+  movements: Array<StockMovement & {
+    contractor_name: string;
+    jetty_name: string;
+    created_by_name: string;
+  }>;
+  total: number;
+  page: number;
+  page_size: number;
+}> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (filter.contractor_id !== undefined) {
+      conditions.push(eq(stockMovementsTable.contractor_id, filter.contractor_id));
+    }
+
+    if (filter.jetty_id !== undefined) {
+      conditions.push(eq(stockMovementsTable.jetty_id, filter.jetty_id));
+    }
+
+    if (filter.coal_grade !== undefined) {
+      conditions.push(eq(stockMovementsTable.coal_grade, filter.coal_grade));
+    }
+
+    if (filter.movement_type !== undefined) {
+      conditions.push(eq(stockMovementsTable.movement_type, filter.movement_type));
+    }
+
+    if (filter.date_from !== undefined) {
+      conditions.push(gte(stockMovementsTable.occurred_at, filter.date_from));
+    }
+
+    if (filter.date_to !== undefined) {
+      conditions.push(lte(stockMovementsTable.occurred_at, filter.date_to));
+    }
+
+    const scopeFilter = scopeCondition(scope, stockMovementsTable.jetty_id, stockMovementsTable.contractor_id);
+    if (scopeFilter) {
+      conditions.push(scopeFilter);
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const totalResult = await db.select({ total: count(stockMovementsTable.id) })
+      .from(stockMovementsTable)
+      .where(where)
+      .execute();
+
+    const results = await db.select({
+      movement: stockMovementsTable,
+      contractor_name: contractorsTable.name,
+      jetty_name: jettiesTable.name,
+      created_by_name: usersTable.full_name
+    })
+      .from(stockMovementsTable)
+      .innerJoin(contractorsTable, eq(stockMovementsTable.contractor_id, contractorsTable.id))
+      .innerJoin(jettiesTable, eq(stockMovementsTable.jetty_id, jettiesTable.id))
+      .innerJoin(usersTable, eq(stockMovementsTable.created_by, usersTable.id))
+      .where(where)
+      .orderBy(desc(stockMovementsTable.occurred_at), desc(stockMovementsTable.id))
+      .limit(filter.page_size)
+      .offset((filter.page - 1) * filter.page_size)
+      .execute();
+
+    return {
+      movements: results.map(result => ({
+        ...result.movement,
+        change: parseFloat(result.movement.change),
+        balance_after: parseFloat(result.movement.balance_after),
+        contractor_name: result.contractor_name,
+        jetty_name: result.jetty_name,
+        created_by_name: result.created_by_name
+      })),
+      total: totalResult[0]?.total || 0,
+      page: filter.page,
+      page_size: filter.page_size
+    };
+  } catch (error) {
+    console.error('Get stock ledger failed:', error);
+    throw error;
+  }
+}
+
+// Adjustments up to this many tonnes (either direction) are applied without approval
+const STOCK_ADJUSTMENT_AUTO_APPLY_LIMIT = parseFloat(process.env['STOCK_ADJUSTMENT_AUTO_APPLY_LIMIT'] || '10');
+// Adjustments above this many tonnes need two approvers instead of one
+const STOCK_ADJUSTMENT_DUAL_APPROVAL_LIMIT = parseFloat(process.env['STOCK_ADJUSTMENT_DUAL_APPROVAL_LIMIT'] || '1000');
+
+export const getRequiredApprovals = (adjustmentAmount: number): number => {
+  const size = Math.abs(adjustmentAmount);
+  if (size <= STOCK_ADJUSTMENT_AUTO_APPLY_LIMIT) return 0;
+  if (size <= STOCK_ADJUSTMENT_DUAL_APPROVAL_LIMIT) return 1;
+  return 2;
+};
+
+export type StockAdjustmentRow = typeof stockAdjustmentsTable.$inferSelect;
+
+export const toStockAdjustment = (adjustment: StockAdjustmentRow): StockAdjustment => ({
+  ...adjustment,
+  previous_tonnage: parseFloat(adjustment.previous_tonnage),
+  new_tonnage: parseFloat(adjustment.new_tonnage),
+  adjustment_amount: parseFloat(adjustment.adjustment_amount)
+});
+
+// Apply a pending adjustment to the stock it targets, against the tonnage at the time of application
+const applyStockAdjustment = async (
+  tx: Transaction,
+  adjustment: StockAdjustmentRow,
+  approvedBy: number | null
+): Promise<StockAdjustmentRow> => {
+  const stockRecords = await tx.select()
+    .from(stockTable)
+    .where(eq(stockTable.id, adjustment.stock_id))
+    .execute();
+
+  if (stockRecords.length === 0) {
+    throw new Error('Stock record not found');
+  }
+
+  const amount = parseFloat(adjustment.adjustment_amount);
+  if (parseFloat(stockRecords[0].tonnage) + amount < 0) {
+    throw new Error('Stock cannot be negative');
+  }
+
+  const change = await changeStockById(tx, adjustment.stock_id, amount, {
+    movement_type: 'adjustment',
+    reference_id: adjustment.id,
+    occurred_at: new Date(),
+    created_by: approvedBy ?? adjustment.adjusted_by
+  });
+
+  const appliedAdjustments = await tx.update(stockAdjustmentsTable)
+    .set({
+      status: 'applied',
+      previous_tonnage: change.previous_tonnage.toString(),
+      new_tonnage: change.new_tonnage.toString(),
+      approved_by: approvedBy,
+      approved_at: approvedBy === null ? null : new Date()
+    })
+    .where(eq(stockAdjustmentsTable.id, adjustment.id))
+    .returning()
+    .execute();
+
+  return appliedAdjustments[0];
+};
+
+// Load an adjustment for a state change, locking it so concurrent approvals are serialised
+const lockStockAdjustment = async (tx: Transaction, adjustmentId: number): Promise<StockAdjustmentRow> => {
+  const adjustments = await tx.select()
+    .from(stockAdjustmentsTable)
+    .where(eq(stockAdjustmentsTable.id, adjustmentId))
+    .for('update')
+    .execute();
+
+  if (adjustments.length === 0) {
+    throw new Error('Stock adjustment not found');
+  }
+
+  return adjustments[0];
+};
+
+const assertAdjustmentPending = (adjustment: StockAdjustmentRow): void => {
+  if (adjustment.status === 'applied') {
+    throw new Error('Stock adjustment is already approved');
+  }
+  if (adjustment.status === 'rejected') {
+    throw new Error('Stock adjustment has been rejected');
+  }
+};
+
+const assertAdjustmentInScope = async (
+  tx: Transaction,
+  scope: PermissionScope | undefined,
+  adjustment: StockAdjustmentRow
+): Promise<void> => {
+  if (!scope) return;
+
+  const stockRecords = await tx.select()
+    .from(stockTable)
+    .where(eq(stockTable.id, adjustment.stock_id))
+    .execute();
+  assertWithinScope(scope, 'stock.approve', stockRecords[0]);
+};
+
+// Adjustments are created pending and only touch stock once approved; small ones apply straight away
+export async function createStockAdjustment(
+  input: CreateStockAdjustmentInput,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<StockAdjustment> {
   try {
-    // Read stock record OUTSIDE of the transaction to capture the initial version
     const stockRecords = await db.select()
       .from(stockTable)
       .where(eq(stockTable.id, input.stock_id))
@@ -291,74 +600,54 @@ export async function createStockAdjustment(input: CreateStockAdjustmentInput):
       throw new Error('Stock record not found');
     }
 
-    const originalStock = stockRecords[0];
-    const previousTonnage = parseFloat(originalStock.tonnage);
+    const stock = stockRecords[0];
+    assertWithinScope(scope, 'stock.adjust', stock);
+    const previousTonnage = parseFloat(stock.tonnage);
     const newTonnage = previousTonnage + input.adjustment_amount;
 
+    // Reject up front what could not be applied today; it is checked again on approval
     if (newTonnage < 0) {
       throw new Error('Stock cannot be negative');
     }
 
-    return await db.transaction(async (tx) => {
-      // Check if the stock record still has the expected version
-      const currentStockCheck = await tx.select()
-        .from(stockTable)
-        .where(and(
-          eq(stockTable.id, input.stock_id),
-          eq(stockTable.version, originalStock.version)
-        ))
-        .execute();
+    const requiredApprovals = getRequiredApprovals(input.adjustment_amount);
 
-      if (currentStockCheck.length === 0) {
-        throw new Error('Stock record was modified by another user. Please try again.');
-      }
-
-      // Update stock record
-      const updatedStocks = await tx.update(stockTable)
-        .set({
-          tonnage: newTonnage.toString(),
-          last_updated: new Date(),
-          version: originalStock.version + 1,
-          updated_at: new Date()
-        })
-        .where(eq(stockTable.id, input.stock_id))
-        .returning()
-        .execute();
-
-      // Create stock adjustment record
+    return await runStockTransaction(async (tx) => {
       const adjustmentResults = await tx.insert(stockAdjustmentsTable)
         .values({
           stock_id: input.stock_id,
-          adjusted_by: input.adjusted_by,
+          adjusted_by: actor.user_id,
           previous_tonnage: previousTonnage.toString(),
           new_tonnage: newTonnage.toString(),
           adjustment_amount: input.adjustment_amount.toString(),
           reason: input.reason,
           reason_description: input.reason_description,
           reference_document: input.reference_document,
-          attachment: input.attachment
+          attachment: input.attachment,
+          status: 'pending',
+          required_approvals: requiredApprovals
         })
         .returning()
         .execute();
 
+      const adjustment = requiredApprovals === 0
+        ? await applyStockAdjustment(tx, adjustmentResults[0], null)
+        : adjustmentResults[0];
+
       // Log to audit trail
       await tx.insert(auditLogTable)
         .values({
-          user_id: input.adjusted_by,
+          user_id: actor.user_id,
           action: 'stock_adjustment_create',
           table_name: 'stock_adjustments',
-          record_id: adjustmentResults[0].id,
-          new_values: JSON.stringify(adjustmentResults[0])
+          record_id: adjustment.id,
+          new_values: JSON.stringify(adjustment),
+          ip_address: actor.ip_address,
+          user_agent: actor.user_agent
         })
         .execute();
 
-      const adjustment = adjustmentResults[0];
-      return {
-        ...adjustment,
-        previous_tonnage: parseFloat(adjustment.previous_tonnage),
-        new_tonnage: parseFloat(adjustment.new_tonnage),
-        adjustment_amount: parseFloat(adjustment.adjustment_amount)
-      };
+      return toStockAdjustment(adjustment);
     });
   } catch (error) {
     console.error('Create stock adjustment failed:', error);
@@ -369,12 +658,15 @@ export async function createStockAdjustment(input: CreateStockAdjustmentInput):
 export async function getStockAdjustments(
   stockId?: number,
   dateFrom?: Date,
-  dateTo?: Date
+  dateTo?: Date,
+  status?: AdjustmentStatus,
+  scope?: PermissionScope
 ): Promise<Array<StockAdjustment & {
   adjusted_by_name: string;
   approved_by_name?: string;
   contractor_name: string;
   jetty_name: string;
+  coal_grade: CoalGrade;
 }>> {
   try {
     // First get the basic adjustment data with stock, contractor, and jetty info
@@ -389,11 +681,19 @@ export async function getStockAdjustments(
       reason_description: stockAdjustmentsTable.reason_description,
       reference_document: stockAdjustmentsTable.reference_document,
       attachment: stockAdjustmentsTable.attachment,
+      status: stockAdjustmentsTable.status,
+      required_approvals: stockAdjustmentsTable.required_approvals,
       approved_by: stockAdjustmentsTable.approved_by,
       approved_at: stockAdjustmentsTable.approved_at,
+      rejected_by: stockAdjustmentsTable.rejected_by,
+      rejected_at: stockAdjustmentsTable.rejected_at,
+      rejection_reason: stockAdjustmentsTable.rejection_reason,
+      survey_id: stockAdjustmentsTable.survey_id,
+      draft_survey_id: stockAdjustmentsTable.draft_survey_id,
       created_at: stockAdjustmentsTable.created_at,
       contractor_name: contractorsTable.name,
-      jetty_name: jettiesTable.name
+      jetty_name: jettiesTable.name,
+      coal_grade: stockTable.coal_grade
     })
     .from(stockAdjustmentsTable)
     .innerJoin(stockTable, eq(stockAdjustmentsTable.stock_id, stockTable.id))
@@ -414,6 +714,15 @@ export async function getStockAdjustments(
       conditions.push(lte(stockAdjustmentsTable.created_at, dateTo));
     }
 
+    if (status !== undefined) {
+      conditions.push(eq(stockAdjustmentsTable.status, status));
+    }
+
+    const scopeFilter = scopeCondition(scope, stockTable.jetty_id, stockTable.contractor_id);
+    if (scopeFilter) {
+      conditions.push(scopeFilter);
+    }
+
     const orderedQuery = conditions.length > 0 
       ? baseQuery.where(and(...conditions)).orderBy(desc(stockAdjustmentsTable.created_at))
       : baseQuery.orderBy(desc(stockAdjustmentsTable.created_at));
@@ -462,55 +771,62 @@ export async function getStockAdjustments(
   }
 }
 
+// Record one approval; the adjustment is applied once it has as many approvals as it requires
 export async function approveStockAdjustment(
   adjustmentId: number,
-  approvedBy: number
+  actor: RequestActor,
+  scope?: PermissionScope
 ): Promise<StockAdjustment> {
   try {
-    return await db.transaction(async (tx) => {
-      // Check if adjustment exists and is not already approved
-      const adjustments = await tx.select()
-        .from(stockAdjustmentsTable)
-        .where(eq(stockAdjustmentsTable.id, adjustmentId))
-        .execute();
+    return await runStockTransaction(async (tx) => {
+      const adjustment = await lockStockAdjustment(tx, adjustmentId);
+      assertAdjustmentPending(adjustment);
 
-      if (adjustments.length === 0) {
-        throw new Error('Stock adjustment not found');
+      if (adjustment.adjusted_by === actor.user_id) {
+        throw new Error('You cannot approve your own stock adjustment');
       }
 
-      if (adjustments[0].approved_by !== null) {
-        throw new Error('Stock adjustment is already approved');
+      await assertAdjustmentInScope(tx, scope, adjustment);
+
+      const approvals = await tx.select()
+        .from(stockAdjustmentApprovalsTable)
+        .where(eq(stockAdjustmentApprovalsTable.adjustment_id, adjustmentId))
+        .execute();
+
+      if (approvals.some(approval => approval.approved_by === actor.user_id)) {
+        throw new Error('You have already approved this stock adjustment');
       }
 
-      // Update adjustment with approval
-      const updatedAdjustments = await tx.update(stockAdjustmentsTable)
-        .set({
-          approved_by: approvedBy,
-          approved_at: new Date()
+      await tx.insert(stockAdjustmentApprovalsTable)
+        .values({
+          adjustment_id: adjustmentId,
+          approved_by: actor.user_id
         })
-        .where(eq(stockAdjustmentsTable.id, adjustmentId))
-        .returning()
         .execute();
 
+      const approvalCount = approvals.length + 1;
+      const updatedAdjustment = approvalCount >= adjustment.required_approvals
+        ? await applyStockAdjustment(tx, adjustment, actor.user_id)
+        : adjustment;
+
       // Log approval to audit trail
       await tx.insert(auditLogTable)
         .values({
-          user_id: approvedBy,
+          user_id: actor.user_id,
           action: 'stock_adjustment_approve',
           table_name: 'stock_adjustments',
           record_id: adjustmentId,
-          old_values: JSON.stringify(adjustments[0]),
-          new_values: JSON.stringify(updatedAdjustments[0])
+          old_values: JSON.stringify(adjustment),
+          new_values: JSON.stringify({
+            ...updatedAdjustment,
+            approvals: approvalCount
+          }),
+          ip_address: actor.ip_address,
+          user_agent: actor.user_agent
         })
         .execute();
 
-      const adjustment = updatedAdjustments[0];
-      return {
-        ...adjustment,
-        previous_tonnage: parseFloat(adjustment.previous_tonnage),
-        new_tonnage: parseFloat(adjustment.new_tonnage),
-        adjustment_amount: parseFloat(adjustment.adjustment_amount)
-      };
+      return toStockAdjustment(updatedAdjustment);
     });
   } catch (error) {
     console.error('Approve stock adjustment failed:', error);
@@ -518,124 +834,46 @@ export async function approveStockAdjustment(
   }
 }
 
-export async function updateStockFromProduction(
-  contractorId: number,
-  jettyId: number,
-  tonnage: number
-): Promise<void> {
-  try {
-    // Find existing stock record OUTSIDE transaction
-    const existingStock = await db.select()
-      .from(stockTable)
-      .where(and(
-        eq(stockTable.contractor_id, contractorId),
-        eq(stockTable.jetty_id, jettyId)
-      ))
-      .execute();
-
-    await db.transaction(async (tx) => {
-      if (existingStock.length > 0) {
-        // Update existing stock using original version for optimistic locking
-        const originalStock = existingStock[0];
-        const newTonnage = parseFloat(originalStock.tonnage) + tonnage;
-
-        // Check if the stock record still has the expected version
-        const currentStockCheck = await tx.select()
-          .from(stockTable)
-          .where(and(
-            eq(stockTable.id, originalStock.id),
-            eq(stockTable.version, originalStock.version)
-          ))
-          .execute();
-
-        if (currentStockCheck.length === 0) {
-          throw new Error('Stock record was modified by another user. Please try again.');
-        }
-
-        // Update stock record
-        await tx.update(stockTable)
-          .set({
-            tonnage: newTonnage.toString(),
-            last_updated: new Date(),
-            version: originalStock.version + 1,
-            updated_at: new Date()
-          })
-          .where(eq(stockTable.id, originalStock.id))
-          .execute();
-      } else {
-        // Create new stock record
-        await tx.insert(stockTable)
-          .values({
-            contractor_id: contractorId,
-            jetty_id: jettyId,
-            tonnage: tonnage.toString(),
-            last_updated: new Date(),
-            version: 1
-          })
-          .execute();
-      }
-    });
-  } catch (error) {
-    console.error('Update stock from production failed:', error);
-    throw error;
-  }
-}
-
-export async function updateStockFromBarging(
-  contractorId: number,
-  jettyId: number,
-  tonnage: number
-): Promise<void> {
+export async function rejectStockAdjustment(
+  adjustmentId: number,
+  reason: string,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<StockAdjustment> {
   try {
-    // Find existing stock record OUTSIDE transaction
-    const existingStock = await db.select()
-      .from(stockTable)
-      .where(and(
-        eq(stockTable.contractor_id, contractorId),
-        eq(stockTable.jetty_id, jettyId)
-      ))
-      .execute();
-
-    if (existingStock.length === 0) {
-      throw new Error('No stock found for this contractor-jetty combination');
-    }
-
-    const originalStock = existingStock[0];
-    const currentTonnage = parseFloat(originalStock.tonnage);
-    
-    if (currentTonnage < tonnage) {
-      throw new Error('Insufficient stock available');
-    }
-
-    const newTonnage = currentTonnage - tonnage;
+    return await db.transaction(async (tx) => {
+      const adjustment = await lockStockAdjustment(tx, adjustmentId);
+      assertAdjustmentPending(adjustment);
+      await assertAdjustmentInScope(tx, scope, adjustment);
 
-    await db.transaction(async (tx) => {
-      // Check if the stock record still has the expected version
-      const currentStockCheck = await tx.select()
-        .from(stockTable)
-        .where(and(
-          eq(stockTable.id, originalStock.id),
-          eq(stockTable.version, originalStock.version)
-        ))
+      const rejectedAdjustments = await tx.update(stockAdjustmentsTable)
+        .set({
+          status: 'rejected',
+          rejected_by: actor.user_id,
+          rejected_at: new Date(),
+          rejection_reason: reason
+        })
+        .where(eq(stockAdjustmentsTable.id, adjustmentId))
+        .returning()
         .execute();
 
-      if (currentStockCheck.length === 0) {
-        throw new Error('Stock record was modified by another user. Please try again.');
-      }
-
-      // Update stock record
-      await tx.update(stockTable)
-        .set({
-          tonnage: newTonnage.toString(),
-          last_updated: new Date(),
-          version: originalStock.version + 1,
-          updated_at: new Date()
+      await tx.insert(auditLogTable)
+        .values({
+          user_id: actor.user_id,
+          action: 'stock_adjustment_reject',
+          table_name: 'stock_adjustments',
+          record_id: adjustmentId,
+          old_values: JSON.stringify(adjustment),
+          new_values: JSON.stringify(rejectedAdjustments[0]),
+          ip_address: actor.ip_address,
+          user_agent: actor.user_agent
         })
-        .where(eq(stockTable.id, originalStock.id))
         .execute();
+
+      return toStockAdjustment(rejectedAdjustments[0]);
     });
   } catch (error) {
-    console.error('Update stock from barging failed:', error);
+    console.error('Reject stock adjustment failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
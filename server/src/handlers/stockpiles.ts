@@ -0,0 +1,232 @@
+import { db } from '../db';
+import { stockpilesTable, jettiesTable, stockTable } from '../db/schema';
+import { eq, and, ne, gt, asc } from 'drizzle-orm';
+import {
+  type CreateStockpileInput,
+  type UpdateStockpileInput,
+  type Stockpile,
+  type StockpileBalance,
+  type PermissionScope,
+  type CoalGrade,
+  type GradeTonnage
+} from '../schema';
+import { isJettyWithinScope } from './permissions';
+import { type Transaction } from './ledger';
+
+// Records that name no stockpile go to the jetty's stockpile with this code
+export const DEFAULT_STOCKPILE_CODE = 'DEFAULT';
+
+export type StockpileRow = typeof stockpilesTable.$inferSelect;
+
+const toStockpile = (stockpile: StockpileRow): Stockpile => ({
+  ...stockpile,
+  capacity: parseFloat(stockpile.capacity)
+});
+
+// The jetty's default stockpile, created with the jetty's capacity if the jetty has none yet
+export const getDefaultStockpile = async (tx: Transaction, jettyId: number): Promise<StockpileRow> => {
+  const existing = await tx.select()
+    .from(stockpilesTable)
+    .where(and(eq(stockpilesTable.jetty_id, jettyId), eq(stockpilesTable.code, DEFAULT_STOCKPILE_CODE)))
+    .execute();
+
+  if (existing.length > 0) {
+    return existing[0];
+  }
+
+  const jetties = await tx.select()
+    .from(jettiesTable)
+    .where(eq(jettiesTable.id, jettyId))
+    .execute();
+
+  if (jetties.length === 0) {
+    throw new Error(`Jetty with ID ${jettyId} not found`);
+  }
+
+  // A concurrent first use inserts the same row; the unique constraint makes the stock transaction retry
+  const created = await tx.insert(stockpilesTable)
+    .values({
+      jetty_id: jettyId,
+      code: DEFAULT_STOCKPILE_CODE,
+      capacity: jetties[0].capacity
+    })
+    .returning()
+    .execute();
+
+  return created[0];
+};
+
+// The stockpile a record refers to, or the jetty's default when it names none
+export const resolveStockpile = async (
+  tx: Transaction,
+  jettyId: number,
+  stockpileId: number | undefined
+): Promise<StockpileRow> => {
+  if (stockpileId === undefined) {
+    return getDefaultStockpile(tx, jettyId);
+  }
+
+  const stockpiles = await tx.select()
+    .from(stockpilesTable)
+    .where(eq(stockpilesTable.id, stockpileId))
+    .execute();
+
+  if (stockpiles.length === 0) {
+    throw new Error(`Stockpile with ID ${stockpileId} not found`);
+  }
+
+  if (stockpiles[0].jetty_id !== jettyId) {
+    throw new Error(`Stockpile ${stockpiles[0].code} is not at jetty ${jettyId}`);
+  }
+
+  return stockpiles[0];
+};
+
+// Coal can only be put on an active stockpile that takes its grade
+export const assertStockpileAccepts = (stockpile: StockpileRow, coalGrade: CoalGrade): void => {
+  if (!stockpile.is_active) {
+    throw new Error(`Stockpile ${stockpile.code} is inactive`);
+  }
+
+  if (stockpile.coal_grade !== null && stockpile.coal_grade !== coalGrade) {
+    throw new Error(`Stockpile ${stockpile.code} only holds ${stockpile.coal_grade} grade coal`);
+  }
+};
+
+export const createStockpile = async (input: CreateStockpileInput): Promise<Stockpile> => {
+  try {
+    const jetties = await db.select()
+      .from(jettiesTable)
+      .where(eq(jettiesTable.id, input.jetty_id))
+      .execute();
+
+    if (jetties.length === 0) {
+      throw new Error(`Jetty with ID ${input.jetty_id} not found`);
+    }
+
+    const result = await db.insert(stockpilesTable)
+      .values({
+        jetty_id: input.jetty_id,
+        code: input.code,
+        capacity: input.capacity.toString(),
+        coal_grade: input.coal_grade
+      })
+      .returning()
+      .execute();
+
+    return toStockpile(result[0]);
+  } catch (error) {
+    console.error('Stockpile creation failed:', error);
+    throw error;
+  }
+};
+
+export const updateStockpile = async (input: UpdateStockpileInput): Promise<Stockpile> => {
+  try {
+    const existing = await db.select()
+      .from(stockpilesTable)
+      .where(eq(stockpilesTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Stockpile with id ${input.id} not found`);
+    }
+
+    const stockpile = existing[0];
+
+    if (input.code !== undefined && input.code !== stockpile.code && stockpile.code === DEFAULT_STOCKPILE_CODE) {
+      throw new Error('The default stockpile cannot be renamed');
+    }
+
+    // A grade restriction must not strand coal of another grade already on the stockpile
+    if (input.coal_grade) {
+      const otherGrades = await db.select()
+        .from(stockTable)
+        .where(and(
+          eq(stockTable.stockpile_id, input.id),
+          ne(stockTable.coal_grade, input.coal_grade),
+          gt(stockTable.tonnage, '0')
+        ))
+        .execute();
+
+      if (otherGrades.length > 0) {
+        throw new Error(`Stockpile ${stockpile.code} holds ${otherGrades[0].coal_grade} grade coal`);
+      }
+    }
+
+    const updateValues: Partial<typeof stockpilesTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.code !== undefined) {
+      updateValues.code = input.code;
+    }
+    if (input.capacity !== undefined) {
+      updateValues.capacity = input.capacity.toString();
+    }
+    if (input.coal_grade !== undefined) {
+      updateValues.coal_grade = input.coal_grade;
+    }
+    if (input.is_active !== undefined) {
+      updateValues.is_active = input.is_active;
+    }
+
+    const result = await db.update(stockpilesTable)
+      .set(updateValues)
+      .where(eq(stockpilesTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toStockpile(result[0]);
+  } catch (error) {
+    console.error('Stockpile update failed:', error);
+    throw error;
+  }
+};
+
+// Stockpiles of a jetty with the stock each holds, across all contractors
+export const getStockpiles = async (jettyId: number, scope?: PermissionScope): Promise<StockpileBalance[]> => {
+  try {
+    if (!isJettyWithinScope(scope, jettyId)) {
+      throw new Error(`Permission 'stock.view' does not cover jetty ${jettyId}`);
+    }
+
+    const stockpiles = await db.select()
+      .from(stockpilesTable)
+      .where(eq(stockpilesTable.jetty_id, jettyId))
+      .orderBy(asc(stockpilesTable.code))
+      .execute();
+
+    const stockRows = await db.select()
+      .from(stockTable)
+      .where(eq(stockTable.jetty_id, jettyId))
+      .orderBy(asc(stockTable.coal_grade))
+      .execute();
+
+    return stockpiles.map(stockpile => {
+      const byGrade: GradeTonnage[] = [];
+      for (const stock of stockRows.filter(row => row.stockpile_id === stockpile.id)) {
+        const tonnage = parseFloat(stock.tonnage);
+        const entry = byGrade.find(item => item.coal_grade === stock.coal_grade);
+        if (entry) {
+          entry.tonnage += tonnage;
+        } else {
+          byGrade.push({ coal_grade: stock.coal_grade, tonnage });
+        }
+      }
+
+      const capacity = parseFloat(stockpile.capacity);
+      const stockTonnage = byGrade.reduce((total, entry) => total + entry.tonnage, 0);
+
+      return {
+        ...toStockpile(stockpile),
+        stock_tonnage: stockTonnage,
+        headroom: capacity - stockTonnage,
+        by_grade: byGrade
+      };
+    });
+  } catch (error) {
+    console.error('Failed to fetch stockpiles:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,693 @@
+import { db } from '../db';
+import {
+  stockpileSurveysTable,
+  stockpilesTable,
+  jettiesTable,
+  stockTable,
+  stockMovementsTable,
+  stockAdjustmentsTable,
+  draftSurveysTable,
+  bargingRecordsTable,
+  shipmentsTable,
+  auditLogTable
+} from '../db/schema';
+import {
+  type CreateStockpileSurveyInput,
+  type StockpileSurvey,
+  type StockpileSurveyResult,
+  type SurveyVarianceFilter,
+  type SurveyVariance,
+  type CreateDraftSurveyInput,
+  type DraftReadingInput,
+  type DraftSurvey,
+  type DraftSurveyFilter,
+  type DraftSurveyResult,
+  type RequestActor,
+  type PermissionScope,
+  type CoalGrade
+} from '../schema';
+import { isJettyWithinScope } from './permissions';
+import { getRequiredApprovals, toStockAdjustment, type StockAdjustmentRow } from './stock';
+import { type Transaction } from './ledger';
+import { eq, and, or, ne, gte, lte, desc, inArray, sum, type SQL } from 'drizzle-orm';
+
+// Hydrostatic tables give displacement in sea water
+const TABLE_DENSITY = 1.025;
+
+// Variances below half a cent of a tonne are rounding, not a measurement difference
+const SURVEY_VARIANCE_TOLERANCE = 0.005;
+
+type StockpileSurveyRow = typeof stockpileSurveysTable.$inferSelect;
+type DraftSurveyRow = typeof draftSurveysTable.$inferSelect;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const toStockpileSurvey = (survey: StockpileSurveyRow): StockpileSurvey => ({
+  ...survey,
+  measured_volume: parseFloat(survey.measured_volume),
+  bulk_density: parseFloat(survey.bulk_density),
+  surveyed_tonnage: parseFloat(survey.surveyed_tonnage),
+  book_tonnage: parseFloat(survey.book_tonnage),
+  variance: parseFloat(survey.variance)
+});
+
+// Share the variance out over contractor/grade balances in proportion to their tonnage; the last
+// share takes the rounding remainder
+const allocateVariance = <T extends { contractor_id: number; coal_grade: CoalGrade; balance: number }>(
+  balances: T[],
+  bookTonnage: number,
+  variance: number
+) => {
+  let allocated = 0;
+  return balances.map((entry, index) => {
+    const amount = index === balances.length - 1
+      ? round2(variance - allocated)
+      : round2(variance * entry.balance / bookTonnage);
+    allocated += amount;
+    return { ...entry, amount };
+  });
+};
+
+// Record a survey and propose the variance from the book balance at the survey time as pending
+// measurement_error adjustments, one per contractor/grade on the stockpile. They are applied through
+// approveStockAdjustment like any other adjustment, whatever their size.
+export async function recordStockpileSurvey(
+  input: CreateStockpileSurveyInput,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<StockpileSurveyResult> {
+  try {
+    const stockpiles = await db.select()
+      .from(stockpilesTable)
+      .where(eq(stockpilesTable.id, input.stockpile_id))
+      .execute();
+
+    if (stockpiles.length === 0) {
+      throw new Error(`Stockpile with ID ${input.stockpile_id} not found`);
+    }
+
+    const stockpile = stockpiles[0];
+
+    // A survey measures every contractor's coal on the pile, so the scope must reach the whole jetty
+    if (!isJettyWithinScope(scope, stockpile.jetty_id)) {
+      throw new Error(`Permission 'stock.adjust' does not cover jetty ${stockpile.jetty_id}`);
+    }
+
+    return await db.transaction(async (tx) => {
+      const bookRows = await tx.select({
+        contractor_id: stockMovementsTable.contractor_id,
+        coal_grade: stockMovementsTable.coal_grade,
+        balance: sum(stockMovementsTable.change)
+      })
+        .from(stockMovementsTable)
+        .where(and(
+          eq(stockMovementsTable.stockpile_id, stockpile.id),
+          lte(stockMovementsTable.occurred_at, input.surveyed_at)
+        ))
+        .groupBy(stockMovementsTable.contractor_id, stockMovementsTable.coal_grade)
+        .orderBy(stockMovementsTable.contractor_id, stockMovementsTable.coal_grade)
+        .execute();
+
+      const balances = bookRows
+        .map(row => ({ ...row, balance: row.balance ? parseFloat(row.balance) : 0 }))
+        .filter(row => row.balance > 0);
+      const bookTonnage = round2(balances.reduce((total, row) => total + row.balance, 0));
+      const surveyedTonnage = round2(input.measured_volume * input.bulk_density);
+      const variance = round2(surveyedTonnage - bookTonnage);
+
+      const surveys = await tx.insert(stockpileSurveysTable)
+        .values({
+          jetty_id: stockpile.jetty_id,
+          stockpile_id: stockpile.id,
+          surveyed_at: input.surveyed_at,
+          measured_volume: input.measured_volume.toString(),
+          bulk_density: input.bulk_density.toString(),
+          surveyed_tonnage: surveyedTonnage.toString(),
+          book_tonnage: bookTonnage.toString(),
+          variance: variance.toString(),
+          attachment: input.attachment,
+          notes: input.notes,
+          created_by: actor.user_id
+        })
+        .returning()
+        .execute();
+
+      const survey = surveys[0];
+
+      // With nothing on the books there is no balance to attribute the variance to; it stays on record only
+      const shares = Math.abs(variance) < SURVEY_VARIANCE_TOLERANCE || balances.length === 0
+        ? []
+        : allocateVariance(balances, bookTonnage, variance).filter(share => share.amount !== 0);
+
+      const adjustments: StockAdjustmentRow[] = [];
+      for (const share of shares) {
+        const stockRows = await tx.select()
+          .from(stockTable)
+          .where(and(
+            eq(stockTable.contractor_id, share.contractor_id),
+            eq(stockTable.stockpile_id, stockpile.id),
+            eq(stockTable.coal_grade, share.coal_grade)
+          ))
+          .execute();
+
+        if (stockRows.length === 0) {
+          throw new Error(`No ${share.coal_grade} grade stock for contractor ${share.contractor_id} on stockpile ${stockpile.code}`);
+        }
+
+        const stock = stockRows[0];
+        const previousTonnage = parseFloat(stock.tonnage);
+        const newTonnage = round2(previousTonnage + share.amount);
+
+        // Checked again on approval, against the tonnage at that point
+        if (newTonnage < 0) {
+          throw new Error('Stock cannot be negative');
+        }
+
+        const created = await tx.insert(stockAdjustmentsTable)
+          .values({
+            stock_id: stock.id,
+            adjusted_by: actor.user_id,
+            previous_tonnage: previousTonnage.toString(),
+            new_tonnage: newTonnage.toString(),
+            adjustment_amount: share.amount.toString(),
+            reason: 'measurement_error',
+            reason_description: `Survey #${survey.id} of stockpile ${stockpile.code}: ${surveyedTonnage} tons surveyed against ${bookTonnage} tons on the books`,
+            reference_document: `Survey #${survey.id}`,
+            attachment: input.attachment,
+            status: 'pending',
+            required_approvals: Math.max(1, getRequiredApprovals(share.amount)),
+            survey_id: survey.id
+          })
+          .returning()
+          .execute();
+
+        adjustments.push(created[0]);
+
+        await tx.insert(auditLogTable)
+          .values({
+            user_id: actor.user_id,
+            action: 'stock_adjustment_create',
+            table_name: 'stock_adjustments',
+            record_id: created[0].id,
+            new_values: JSON.stringify(created[0]),
+            ip_address: actor.ip_address,
+            user_agent: actor.user_agent
+          })
+          .execute();
+      }
+
+      await tx.insert(auditLogTable)
+        .values({
+          user_id: actor.user_id,
+          action: 'stockpile_survey_create',
+          table_name: 'stockpile_surveys',
+          record_id: survey.id,
+          new_values: {
+            ...toStockpileSurvey(survey),
+            adjustment_ids: adjustments.map(adjustment => adjustment.id)
+          },
+          ip_address: actor.ip_address,
+          user_agent: actor.user_agent
+        })
+        .execute();
+
+      return {
+        ...toStockpileSurvey(survey),
+        adjustments: adjustments.map(toStockAdjustment)
+      };
+    });
+  } catch (error) {
+    console.error('Stockpile survey recording failed:', error);
+    throw error;
+  }
+}
+
+// Surveys newest first, with how much of each variance has been applied, is pending or was rejected
+export async function getSurveyVarianceHistory(
+  filter?: SurveyVarianceFilter,
+  scope?: PermissionScope
+): Promise<SurveyVariance[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (filter?.jetty_id !== undefined) {
+      conditions.push(eq(stockpileSurveysTable.jetty_id, filter.jetty_id));
+    }
+
+    if (filter?.stockpile_id !== undefined) {
+      conditions.push(eq(stockpileSurveysTable.stockpile_id, filter.stockpile_id));
+    }
+
+    if (filter?.date_from !== undefined) {
+      conditions.push(gte(stockpileSurveysTable.surveyed_at, filter.date_from));
+    }
+
+    if (filter?.date_to !== undefined) {
+      conditions.push(lte(stockpileSurveysTable.surveyed_at, filter.date_to));
+    }
+
+    const rows = await db.select({
+      survey: stockpileSurveysTable,
+      jetty_name: jettiesTable.name,
+      stockpile_code: stockpilesTable.code
+    })
+      .from(stockpileSurveysTable)
+      .innerJoin(jettiesTable, eq(stockpileSurveysTable.jetty_id, jettiesTable.id))
+      .innerJoin(stockpilesTable, eq(stockpileSurveysTable.stockpile_id, stockpilesTable.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(stockpileSurveysTable.surveyed_at), desc(stockpileSurveysTable.id))
+      .execute();
+
+    const visible = rows.filter(row => isJettyWithinScope(scope, row.survey.jetty_id));
+    if (visible.length === 0) {
+      return [];
+    }
+
+    const adjustmentTotals = await db.select({
+      survey_id: stockAdjustmentsTable.survey_id,
+      status: stockAdjustmentsTable.status,
+      total: sum(stockAdjustmentsTable.adjustment_amount)
+    })
+      .from(stockAdjustmentsTable)
+      .where(inArray(stockAdjustmentsTable.survey_id, visible.map(row => row.survey.id)))
+      .groupBy(stockAdjustmentsTable.survey_id, stockAdjustmentsTable.status)
+      .execute();
+
+    const totalFor = (surveyId: number, status: 'pending' | 'applied' | 'rejected'): number => {
+      const entry = adjustmentTotals.find(row => row.survey_id === surveyId && row.status === status);
+      return entry?.total ? parseFloat(entry.total) : 0;
+    };
+
+    return visible.map(row => {
+      const survey = toStockpileSurvey(row.survey);
+      return {
+        ...survey,
+        jetty_name: row.jetty_name,
+        stockpile_code: row.stockpile_code,
+        variance_percent: survey.book_tonnage === 0 ? null : round2(survey.variance / survey.book_tonnage * 100),
+        pending_tonnage: totalFor(survey.id, 'pending'),
+        applied_tonnage: totalFor(survey.id, 'applied'),
+        rejected_tonnage: totalFor(survey.id, 'rejected')
+      };
+    });
+  } catch (error) {
+    console.error('Failed to fetch survey variance history:', error);
+    throw error;
+  }
+}
+
+const toDraftSurvey = (survey: DraftSurveyRow): DraftSurvey => ({
+  ...survey,
+  initial_draft_fore: parseFloat(survey.initial_draft_fore),
+  initial_draft_mid: parseFloat(survey.initial_draft_mid),
+  initial_draft_aft: parseFloat(survey.initial_draft_aft),
+  initial_table_displacement: parseFloat(survey.initial_table_displacement),
+  initial_density: parseFloat(survey.initial_density),
+  initial_deductibles: parseFloat(survey.initial_deductibles),
+  initial_displacement: parseFloat(survey.initial_displacement),
+  final_draft_fore: parseFloat(survey.final_draft_fore),
+  final_draft_mid: parseFloat(survey.final_draft_mid),
+  final_draft_aft: parseFloat(survey.final_draft_aft),
+  final_table_displacement: parseFloat(survey.final_table_displacement),
+  final_density: parseFloat(survey.final_density),
+  final_deductibles: parseFloat(survey.final_deductibles),
+  final_displacement: parseFloat(survey.final_displacement),
+  cargo_weight: parseFloat(survey.cargo_weight),
+  barged_tonnage: parseFloat(survey.barged_tonnage),
+  variance: parseFloat(survey.variance)
+});
+
+const toDraftSurveyResult = (survey: DraftSurveyRow, adjustments: StockAdjustmentRow[]): DraftSurveyResult => {
+  const draftSurvey = toDraftSurvey(survey);
+  return {
+    ...draftSurvey,
+    variance_percent: draftSurvey.barged_tonnage === 0
+      ? null
+      : round2(draftSurvey.variance / draftSurvey.barged_tonnage * 100),
+    adjustments: adjustments.map(toStockAdjustment)
+  };
+};
+
+// Displacement at the dock water density; the table figure is for sea water
+const correctedDisplacement = (reading: DraftReadingInput): number =>
+  round2(reading.table_displacement * reading.density / TABLE_DENSITY);
+
+type SurveyTarget = { shipment_id: number | null; ship_batch_number: string | null };
+
+// Barge records a draft survey covers: every load of the shipment, or every load of the barge batch
+const surveyedRecordsCondition = (target: SurveyTarget): SQL =>
+  target.shipment_id !== null
+    ? eq(bargingRecordsTable.shipment_id, target.shipment_id)
+    : eq(bargingRecordsTable.ship_batch_number, target.ship_batch_number!);
+
+// Barge loads a draft survey covers, per contractor, stockpile and grade, net of voids and corrections
+const getSurveyedLoads = async (tx: Transaction, target: SurveyTarget) => {
+  const rows = await tx.select({
+    contractor_id: bargingRecordsTable.contractor_id,
+    jetty_id: bargingRecordsTable.jetty_id,
+    stockpile_id: bargingRecordsTable.stockpile_id,
+    coal_grade: bargingRecordsTable.coal_grade,
+    balance: sum(bargingRecordsTable.tonnage)
+  })
+    .from(bargingRecordsTable)
+    .where(surveyedRecordsCondition(target))
+    .groupBy(
+      bargingRecordsTable.contractor_id,
+      bargingRecordsTable.jetty_id,
+      bargingRecordsTable.stockpile_id,
+      bargingRecordsTable.coal_grade
+    )
+    .orderBy(bargingRecordsTable.contractor_id, bargingRecordsTable.stockpile_id, bargingRecordsTable.coal_grade)
+    .execute();
+
+  return rows
+    .map(row => ({ ...row, balance: row.balance ? parseFloat(row.balance) : 0 }))
+    .filter(row => row.balance > 0);
+};
+
+// Record a draft survey of a barge or a shipment and its variance against the barge loads booked for it.
+// Nothing touches stock until the survey figure is accepted.
+export async function recordDraftSurvey(
+  input: CreateDraftSurveyInput,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<DraftSurveyResult> {
+  try {
+    if ((input.shipment_id === undefined) === (input.ship_batch_number === undefined)) {
+      throw new Error('A draft survey is of either a shipment or a barge batch, not both or neither');
+    }
+
+    if (input.shipment_id !== undefined) {
+      const shipments = await db.select({ id: shipmentsTable.id })
+        .from(shipmentsTable)
+        .where(eq(shipmentsTable.id, input.shipment_id))
+        .execute();
+
+      if (shipments.length === 0) {
+        throw new Error(`Shipment with ID ${input.shipment_id} not found`);
+      }
+    }
+
+    const initialDisplacement = correctedDisplacement(input.initial);
+    const finalDisplacement = correctedDisplacement(input.final);
+    const cargoWeight = round2(
+      (finalDisplacement - input.final.deductibles) - (initialDisplacement - input.initial.deductibles)
+    );
+
+    if (cargoWeight <= 0) {
+      throw new Error('Final net displacement must be more than the initial one');
+    }
+
+    return await db.transaction(async (tx) => {
+      const target = { shipment_id: input.shipment_id ?? null, ship_batch_number: input.ship_batch_number ?? null };
+      const loads = await getSurveyedLoads(tx, target);
+      for (const load of loads) {
+        if (!isJettyWithinScope(scope, load.jetty_id)) {
+          throw new Error(`Permission 'barging.create' does not cover jetty ${load.jetty_id}`);
+        }
+      }
+
+      const bargedTonnage = round2(loads.reduce((total, load) => total + load.balance, 0));
+
+      const surveys = await tx.insert(draftSurveysTable)
+        .values({
+          ...target,
+          surveyed_at: input.surveyed_at,
+          initial_draft_fore: input.initial.draft_fore.toString(),
+          initial_draft_mid: input.initial.draft_mid.toString(),
+          initial_draft_aft: input.initial.draft_aft.toString(),
+          initial_table_displacement: input.initial.table_displacement.toString(),
+          initial_density: input.initial.density.toString(),
+          initial_deductibles: input.initial.deductibles.toString(),
+          initial_displacement: initialDisplacement.toString(),
+          final_draft_fore: input.final.draft_fore.toString(),
+          final_draft_mid: input.final.draft_mid.toString(),
+          final_draft_aft: input.final.draft_aft.toString(),
+          final_table_displacement: input.final.table_displacement.toString(),
+          final_density: input.final.density.toString(),
+          final_deductibles: input.final.deductibles.toString(),
+          final_displacement: finalDisplacement.toString(),
+          cargo_weight: cargoWeight.toString(),
+          barged_tonnage: bargedTonnage.toString(),
+          variance: round2(cargoWeight - bargedTonnage).toString(),
+          attachment: input.attachment,
+          notes: input.notes,
+          created_by: actor.user_id
+        })
+        .returning()
+        .execute();
+
+      await tx.insert(auditLogTable)
+        .values({
+          user_id: actor.user_id,
+          action: 'draft_survey_create',
+          table_name: 'draft_surveys',
+          record_id: surveys[0].id,
+          new_values: toDraftSurvey(surveys[0]),
+          ip_address: actor.ip_address,
+          user_agent: actor.user_agent
+        })
+        .execute();
+
+      return toDraftSurveyResult(surveys[0], []);
+    });
+  } catch (error) {
+    console.error('Draft survey recording failed:', error);
+    throw error;
+  }
+}
+
+// Accept the survey figure: the variance against the barge loads, as they stand now, is proposed as pending
+// measurement_error adjustments on the stock the loads came from, shared out in proportion to each load.
+// More cargo on board than booked means more left the stockpiles, so the adjustments take the variance off.
+export async function acceptDraftSurvey(id: number, actor: RequestActor, scope?: PermissionScope): Promise<DraftSurveyResult> {
+  try {
+    return await db.transaction(async (tx) => {
+      const surveys = await tx.select()
+        .from(draftSurveysTable)
+        .where(eq(draftSurveysTable.id, id))
+        .for('update')
+        .execute();
+
+      if (surveys.length === 0) {
+        throw new Error(`Draft survey with ID ${id} not found`);
+      }
+
+      const survey = surveys[0];
+      if (survey.status === 'accepted') {
+        throw new Error(`Draft survey #${id} has already been accepted`);
+      }
+
+      // Locking the loads serialises acceptances of surveys that cover them, so the check below sees
+      // an acceptance that committed while this one waited
+      const records = await tx.select({
+        shipment_id: bargingRecordsTable.shipment_id,
+        ship_batch_number: bargingRecordsTable.ship_batch_number
+      })
+        .from(bargingRecordsTable)
+        .where(surveyedRecordsCondition(survey))
+        .for('update')
+        .execute();
+
+      // A shipment survey and a survey of one of its barges measure the same loads; each
+      // acceptance posts the whole variance, so only one of them may be accepted
+      const overlapping: SQL[] = [];
+      if (survey.shipment_id !== null) {
+        overlapping.push(eq(draftSurveysTable.shipment_id, survey.shipment_id));
+      }
+      if (survey.ship_batch_number !== null) {
+        overlapping.push(eq(draftSurveysTable.ship_batch_number, survey.ship_batch_number));
+      }
+
+      const shipmentIds = [...new Set(records.flatMap(record => record.shipment_id === null ? [] : [record.shipment_id]))];
+      const batchNumbers = [...new Set(records.map(record => record.ship_batch_number))];
+      if (shipmentIds.length > 0) {
+        overlapping.push(inArray(draftSurveysTable.shipment_id, shipmentIds));
+      }
+      if (batchNumbers.length > 0) {
+        overlapping.push(inArray(draftSurveysTable.ship_batch_number, batchNumbers));
+      }
+
+      const alreadyAccepted = await tx.select({ id: draftSurveysTable.id })
+        .from(draftSurveysTable)
+        .where(and(
+          ne(draftSurveysTable.id, id),
+          eq(draftSurveysTable.status, 'accepted'),
+          or(...overlapping)
+        ))
+        .limit(1)
+        .execute();
+
+      if (alreadyAccepted.length > 0) {
+        throw new Error(`Draft survey #${alreadyAccepted[0].id} of the same loads has already been accepted`);
+      }
+
+      const loads = await getSurveyedLoads(tx, survey);
+      for (const load of loads) {
+        if (!isJettyWithinScope(scope, load.jetty_id)) {
+          throw new Error(`Permission 'stock.adjust' does not cover jetty ${load.jetty_id}`);
+        }
+      }
+
+      const cargoWeight = parseFloat(survey.cargo_weight);
+      const bargedTonnage = round2(loads.reduce((total, load) => total + load.balance, 0));
+      const variance = round2(cargoWeight - bargedTonnage);
+      const surveyed = survey.shipment_id !== null ? `shipment #${survey.shipment_id}` : `barge ${survey.ship_batch_number}`;
+
+      const shares = Math.abs(variance) < SURVEY_VARIANCE_TOLERANCE || loads.length === 0
+        ? []
+        : allocateVariance(loads, bargedTonnage, -variance).filter(share => share.amount !== 0);
+
+      const adjustments: StockAdjustmentRow[] = [];
+      for (const share of shares) {
+        const stockRows = await tx.select()
+          .from(stockTable)
+          .where(and(
+            eq(stockTable.contractor_id, share.contractor_id),
+            eq(stockTable.stockpile_id, share.stockpile_id),
+            eq(stockTable.coal_grade, share.coal_grade)
+          ))
+          .execute();
+
+        if (stockRows.length === 0) {
+          throw new Error(`No ${share.coal_grade} grade stock for contractor ${share.contractor_id} on stockpile ${share.stockpile_id}`);
+        }
+
+        const stock = stockRows[0];
+        const previousTonnage = parseFloat(stock.tonnage);
+        const newTonnage = round2(previousTonnage + share.amount);
+
+        // Checked again on approval, against the tonnage at that point
+        if (newTonnage < 0) {
+          throw new Error('Stock cannot be negative');
+        }
+
+        const created = await tx.insert(stockAdjustmentsTable)
+          .values({
+            stock_id: stock.id,
+            adjusted_by: actor.user_id,
+            previous_tonnage: previousTonnage.toString(),
+            new_tonnage: newTonnage.toString(),
+            adjustment_amount: share.amount.toString(),
+            reason: 'measurement_error',
+            reason_description: `Draft survey #${survey.id} of ${surveyed}: ${cargoWeight} tons surveyed against ${bargedTonnage} tons barged`,
+            reference_document: `Draft survey #${survey.id}`,
+            attachment: survey.attachment,
+            status: 'pending',
+            required_approvals: Math.max(1, getRequiredApprovals(share.amount)),
+            draft_survey_id: survey.id
+          })
+          .returning()
+          .execute();
+
+        adjustments.push(created[0]);
+
+        await tx.insert(auditLogTable)
+          .values({
+            user_id: actor.user_id,
+            action: 'stock_adjustment_create',
+            table_name: 'stock_adjustments',
+            record_id: created[0].id,
+            new_values: JSON.stringify(created[0]),
+            ip_address: actor.ip_address,
+            user_agent: actor.user_agent
+          })
+          .execute();
+      }
+
+      const accepted = await tx.update(draftSurveysTable)
+        .set({
+          barged_tonnage: bargedTonnage.toString(),
+          variance: variance.toString(),
+          status: 'accepted',
+          accepted_by: actor.user_id,
+          accepted_at: new Date()
+        })
+        .where(eq(draftSurveysTable.id, id))
+        .returning()
+        .execute();
+
+      await tx.insert(auditLogTable)
+        .values({
+          user_id: actor.user_id,
+          action: 'draft_survey_accept',
+          table_name: 'draft_surveys',
+          record_id: id,
+          old_values: toDraftSurvey(survey),
+          new_values: {
+            ...toDraftSurvey(accepted[0]),
+            adjustment_ids: adjustments.map(adjustment => adjustment.id)
+          },
+          ip_address: actor.ip_address,
+          user_agent: actor.user_agent
+        })
+        .execute();
+
+      return toDraftSurveyResult(accepted[0], adjustments);
+    });
+  } catch (error) {
+    console.error('Draft survey acceptance failed:', error);
+    throw error;
+  }
+}
+
+// Draft surveys newest first, each with the adjustments its acceptance posted. A scoped caller sees
+// the surveys whose loads all came from jetties in scope.
+export async function getDraftSurveys(filter?: DraftSurveyFilter, scope?: PermissionScope): Promise<DraftSurveyResult[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (filter?.shipment_id !== undefined) {
+      conditions.push(eq(draftSurveysTable.shipment_id, filter.shipment_id));
+    }
+
+    if (filter?.ship_batch_number !== undefined) {
+      conditions.push(eq(draftSurveysTable.ship_batch_number, filter.ship_batch_number));
+    }
+
+    if (filter?.status !== undefined) {
+      conditions.push(eq(draftSurveysTable.status, filter.status));
+    }
+
+    const listed = await db.select()
+      .from(draftSurveysTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(draftSurveysTable.surveyed_at), desc(draftSurveysTable.id))
+      .execute();
+
+    let surveys = listed;
+    if (listed.length > 0 && scope && !scope.unrestricted) {
+      const records = await db.select({
+        shipment_id: bargingRecordsTable.shipment_id,
+        ship_batch_number: bargingRecordsTable.ship_batch_number,
+        jetty_id: bargingRecordsTable.jetty_id
+      })
+        .from(bargingRecordsTable)
+        .where(or(...listed.map(survey => surveyedRecordsCondition(survey))))
+        .execute();
+
+      surveys = listed.filter(survey => records
+        .filter(record => survey.shipment_id !== null
+          ? record.shipment_id === survey.shipment_id
+          : record.ship_batch_number === survey.ship_batch_number)
+        .every(record => isJettyWithinScope(scope, record.jetty_id)));
+    }
+
+    if (surveys.length === 0) {
+      return [];
+    }
+
+    const adjustments = await db.select()
+      .from(stockAdjustmentsTable)
+      .where(inArray(stockAdjustmentsTable.draft_survey_id, surveys.map(survey => survey.id)))
+      .orderBy(stockAdjustmentsTable.id)
+      .execute();
+
+    return surveys.map(survey =>
+      toDraftSurveyResult(survey, adjustments.filter(adjustment => adjustment.draft_survey_id === survey.id))
+    );
+  } catch (error) {
+    console.error('Failed to fetch draft surveys:', error);
+    throw error;
+  }
+}
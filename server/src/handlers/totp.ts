@@ -0,0 +1,443 @@
+import { db } from '../db';
+import { usersTable, auditLogTable, totpCredentialsTable, recoveryCodesTable } from '../db/schema';
+import {
+  type RequestActor,
+  type UserRole,
+  type TotpEnrollment,
+  type RecoveryCodes
+} from '../schema';
+import { eq, and, or, lt, isNull } from 'drizzle-orm';
+
+// RFC 6238 settings understood by common authenticator apps (SHA-1, 6 digits, 30 s)
+const TOTP_ISSUER = process.env['TOTP_ISSUER'] || 'Coal Stock';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_ALLOWED_DRIFT_STEPS = 1; // Accept the previous and next code for clock drift
+const TOTP_SECRET_BYTES = 20;
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Roles that must enroll before they can use anything beyond the enrollment endpoints
+const TWO_FACTOR_REQUIRED_ROLES = (process.env['TWO_FACTOR_REQUIRED_ROLES'] ?? 'admin,auditor')
+  .split(',')
+  .map(role => role.trim())
+  .filter(role => role.length > 0);
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string): Uint8Array => {
+  const cleaned = input.toUpperCase().replace(/[^A-Z2-7]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+};
+
+const getTimeStep = (time: Date): number => {
+  return Math.floor(time.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+};
+
+// HOTP (RFC 4226) value for one counter, computed locally with WebCrypto
+const computeCode = async (secret: string, counter: number): Promise<string> => {
+  const counterBytes = new Uint8Array(8);
+  new DataView(counterBytes.buffer).setBigUint64(0, BigInt(counter));
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counterBytes));
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+
+  return (binary % Math.pow(10, TOTP_DIGITS)).toString().padStart(TOTP_DIGITS, '0');
+};
+
+export const generateTotpCode = async (secret: string, time: Date = new Date()): Promise<string> => {
+  return await computeCode(secret, getTimeStep(time));
+};
+
+// Time step the code belongs to within the allowed drift, or null when it matches none
+const findMatchingStep = async (secret: string, code: string): Promise<number | null> => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const currentStep = getTimeStep(new Date());
+  for (let drift = -TOTP_ALLOWED_DRIFT_STEPS; drift <= TOTP_ALLOWED_DRIFT_STEPS; drift++) {
+    if (await computeCode(secret, currentStep + drift) === normalized) {
+      return currentStep + drift;
+    }
+  }
+
+  return null;
+};
+
+const normalizeRecoveryCode = (code: string): string => {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+};
+
+const hashRecoveryCode = async (code: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeRecoveryCode(code)));
+  return Buffer.from(digest).toString('hex');
+};
+
+// Replace any existing recovery codes; the plain codes are only ever returned here
+const issueRecoveryCodes = async (userId: number): Promise<string[]> => {
+  await db.delete(recoveryCodesTable)
+    .where(eq(recoveryCodesTable.user_id, userId))
+    .execute();
+
+  const codes: string[] = [];
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const raw = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10);
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+  }
+
+  await db.insert(recoveryCodesTable)
+    .values(await Promise.all(codes.map(async code => ({
+      user_id: userId,
+      code_hash: await hashRecoveryCode(code)
+    }))))
+    .execute();
+
+  return codes;
+};
+
+const getCredential = async (userId: number) => {
+  const credentials = await db.select()
+    .from(totpCredentialsTable)
+    .where(eq(totpCredentialsTable.user_id, userId))
+    .execute();
+
+  return credentials[0] ?? null;
+};
+
+export const isTwoFactorRequiredForRole = (role: UserRole): boolean => {
+  return TWO_FACTOR_REQUIRED_ROLES.includes(role);
+};
+
+export const isTwoFactorEnrollmentRequired = (user: { role: UserRole; two_factor_enabled: boolean }): boolean => {
+  return isTwoFactorRequiredForRole(user.role) && !user.two_factor_enabled;
+};
+
+// Accept a TOTP code once: the step is claimed atomically so a replayed code fails
+export async function verifyTotpCode(userId: number, code: string): Promise<boolean> {
+  const credential = await getCredential(userId);
+  if (!credential || !credential.confirmed_at) {
+    return false;
+  }
+
+  const step = await findMatchingStep(credential.secret, code);
+  if (step === null) {
+    return false;
+  }
+
+  const claimed = await db.update(totpCredentialsTable)
+    .set({ last_used_step: step })
+    .where(and(
+      eq(totpCredentialsTable.id, credential.id),
+      or(
+        isNull(totpCredentialsTable.last_used_step),
+        lt(totpCredentialsTable.last_used_step, step)
+      )
+    ))
+    .returning()
+    .execute();
+
+  return claimed.length > 0;
+}
+
+export async function consumeRecoveryCode(userId: number, code: string): Promise<boolean> {
+  const used = await db.update(recoveryCodesTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(recoveryCodesTable.user_id, userId),
+      eq(recoveryCodesTable.code_hash, await hashRecoveryCode(code)),
+      isNull(recoveryCodesTable.used_at)
+    ))
+    .returning()
+    .execute();
+
+  return used.length > 0;
+}
+
+// Second login factor: a TOTP code, or failing that an unused recovery code
+export async function verifySecondFactorCode(userId: number, code: string): Promise<'totp' | 'recovery_code' | null> {
+  if (await verifyTotpCode(userId, code)) {
+    return 'totp';
+  }
+  if (await consumeRecoveryCode(userId, code)) {
+    return 'recovery_code';
+  }
+  return null;
+}
+
+export async function countUnusedRecoveryCodes(userId: number): Promise<number> {
+  const codes = await db.select({ id: recoveryCodesTable.id })
+    .from(recoveryCodesTable)
+    .where(and(
+      eq(recoveryCodesTable.user_id, userId),
+      isNull(recoveryCodesTable.used_at)
+    ))
+    .execute();
+
+  return codes.length;
+}
+
+// Drop the credential and recovery codes (used when disabling or when an admin resets 2FA)
+export async function removeTwoFactor(userId: number): Promise<void> {
+  await db.delete(totpCredentialsTable)
+    .where(eq(totpCredentialsTable.user_id, userId))
+    .execute();
+
+  await db.delete(recoveryCodesTable)
+    .where(eq(recoveryCodesTable.user_id, userId))
+    .execute();
+
+  await db.update(usersTable)
+    .set({
+      two_factor_enabled: false,
+      updated_at: new Date()
+    })
+    .where(eq(usersTable.id, userId))
+    .execute();
+}
+
+export async function beginTotpEnrollment(actor: RequestActor): Promise<TotpEnrollment> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, actor.user_id))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const user = users[0];
+
+    const existing = await getCredential(user.id);
+    if (existing?.confirmed_at) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    // Starting again replaces an unconfirmed secret
+    const secret = base32Encode(crypto.getRandomValues(new Uint8Array(TOTP_SECRET_BYTES)));
+    if (existing) {
+      await db.update(totpCredentialsTable)
+        .set({ secret, last_used_step: null, created_at: new Date() })
+        .where(eq(totpCredentialsTable.id, existing.id))
+        .execute();
+    } else {
+      await db.insert(totpCredentialsTable)
+        .values({ user_id: user.id, secret })
+        .execute();
+    }
+
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${user.email}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: TOTP_ISSUER,
+      algorithm: 'SHA1',
+      digits: TOTP_DIGITS.toString(),
+      period: TOTP_PERIOD_SECONDS.toString()
+    });
+
+    return {
+      secret,
+      provisioning_uri: `otpauth://totp/${label}?${params.toString()}`
+    };
+  } catch (error) {
+    console.error('TOTP enrollment failed:', error);
+    throw error;
+  }
+}
+
+export async function confirmTotpEnrollment(code: string, actor: RequestActor): Promise<RecoveryCodes> {
+  try {
+    const credential = await getCredential(actor.user_id);
+    if (!credential) {
+      throw new Error('No pending two-factor enrollment');
+    }
+    if (credential.confirmed_at) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const step = await findMatchingStep(credential.secret, code);
+    if (step === null) {
+      throw new Error('Invalid verification code');
+    }
+
+    await db.update(totpCredentialsTable)
+      .set({
+        confirmed_at: new Date(),
+        last_used_step: step
+      })
+      .where(eq(totpCredentialsTable.id, credential.id))
+      .execute();
+
+    await db.update(usersTable)
+      .set({
+        two_factor_enabled: true,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, actor.user_id))
+      .execute();
+
+    const recoveryCodes = await issueRecoveryCodes(actor.user_id);
+
+    await db.insert(auditLogTable)
+      .values({
+        user_id: actor.user_id,
+        action: 'two_factor_enabled',
+        table_name: 'users',
+        record_id: actor.user_id,
+        new_values: { two_factor_enabled: true },
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
+      })
+      .execute();
+
+    return { recovery_codes: recoveryCodes };
+  } catch (error) {
+    console.error('TOTP enrollment confirmation failed:', error);
+    throw error;
+  }
+}
+
+export async function regenerateRecoveryCodes(code: string, actor: RequestActor): Promise<RecoveryCodes> {
+  try {
+    if (!await verifyTotpCode(actor.user_id, code)) {
+      throw new Error('Invalid verification code');
+    }
+
+    const recoveryCodes = await issueRecoveryCodes(actor.user_id);
+
+    await db.insert(auditLogTable)
+      .values({
+        user_id: actor.user_id,
+        action: 'recovery_codes_regenerated',
+        table_name: 'users',
+        record_id: actor.user_id,
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
+      })
+      .execute();
+
+    return { recovery_codes: recoveryCodes };
+  } catch (error) {
+    console.error('Recovery code regeneration failed:', error);
+    throw error;
+  }
+}
+
+export async function disableTotp(code: string, actor: RequestActor): Promise<boolean> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(and(
+        eq(usersTable.id, actor.user_id),
+        eq(usersTable.two_factor_enabled, true)
+      ))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    if (isTwoFactorRequiredForRole(users[0].role)) {
+      throw new Error(`Two-factor authentication is required for role '${users[0].role}'`);
+    }
+
+    if (!await verifyTotpCode(actor.user_id, code)) {
+      throw new Error('Invalid verification code');
+    }
+
+    await removeTwoFactor(actor.user_id);
+
+    await db.insert(auditLogTable)
+      .values({
+        user_id: actor.user_id,
+        action: 'two_factor_disabled',
+        table_name: 'users',
+        record_id: actor.user_id,
+        old_values: { two_factor_enabled: true },
+        new_values: { two_factor_enabled: false },
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
+      })
+      .execute();
+
+    return true;
+  } catch (error) {
+    console.error('TOTP disable failed:', error);
+    throw error;
+  }
+}
+
+export async function getTwoFactorStatus(userId: number): Promise<{
+  enabled: boolean;
+  required: boolean;
+  recovery_codes_remaining: number;
+}> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    return {
+      enabled: users[0].two_factor_enabled,
+      required: isTwoFactorRequiredForRole(users[0].role),
+      recovery_codes_remaining: users[0].two_factor_enabled ? await countUnusedRecoveryCodes(userId) : 0
+    };
+  } catch (error) {
+    console.error('Failed to fetch two-factor status:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,287 @@
+import { db } from '../db';
+import {
+  stockTransfersTable,
+  contractorsTable,
+  jettiesTable,
+  auditLogTable
+} from '../db/schema';
+import {
+  type CreateStockTransferInput,
+  type ReceiveStockTransferInput,
+  type StockTransfer,
+  type StockTransferFilter,
+  type RequestActor,
+  type PermissionScope
+} from '../schema';
+import { assertWithinScope, scopeCondition } from './permissions';
+import { runStockTransaction, changeStock, type Transaction } from './ledger';
+import { resolveStockpile, assertStockpileAccepts } from './stockpiles';
+import { eq, and, or, gte, lte, desc, type SQL } from 'drizzle-orm';
+
+type StockTransferRow = typeof stockTransfersTable.$inferSelect;
+
+const toStockTransfer = (transfer: StockTransferRow): StockTransfer => ({
+  ...transfer,
+  tonnage: parseFloat(transfer.tonnage)
+});
+
+const source = (transfer: { source_contractor_id: number; source_jetty_id: number }) => ({
+  contractor_id: transfer.source_contractor_id,
+  jetty_id: transfer.source_jetty_id
+});
+
+const destination = (transfer: { destination_contractor_id: number; destination_jetty_id: number }) => ({
+  contractor_id: transfer.destination_contractor_id,
+  jetty_id: transfer.destination_jetty_id
+});
+
+const destinationStock = (transfer: StockTransferRow) => ({
+  ...destination(transfer),
+  stockpile_id: transfer.destination_stockpile_id,
+  coal_grade: transfer.coal_grade
+});
+
+const assertActiveContractor = async (tx: Transaction, contractorId: number): Promise<void> => {
+  const contractors = await tx.select()
+    .from(contractorsTable)
+    .where(eq(contractorsTable.id, contractorId))
+    .execute();
+
+  if (contractors.length === 0) {
+    throw new Error(`Contractor with ID ${contractorId} not found`);
+  }
+
+  if (!contractors[0].is_active) {
+    throw new Error(`Contractor with ID ${contractorId} is inactive`);
+  }
+};
+
+const assertActiveJetty = async (tx: Transaction, jettyId: number): Promise<void> => {
+  const jetties = await tx.select()
+    .from(jettiesTable)
+    .where(eq(jettiesTable.id, jettyId))
+    .execute();
+
+  if (jetties.length === 0) {
+    throw new Error(`Jetty with ID ${jettyId} not found`);
+  }
+
+  if (!jetties[0].is_active) {
+    throw new Error(`Jetty with ID ${jettyId} is inactive`);
+  }
+};
+
+// Credit the destination and close the transfer; runs inside the caller's stock transaction
+const completeTransfer = async (
+  tx: Transaction,
+  transfer: StockTransferRow,
+  receivedAt: Date,
+  receivedBy: number
+): Promise<StockTransferRow> => {
+  await changeStock(tx, destinationStock(transfer), parseFloat(transfer.tonnage), {
+    movement_type: 'transfer_in',
+    reference_id: transfer.id,
+    occurred_at: receivedAt,
+    created_by: receivedBy
+  });
+
+  const completed = await tx.update(stockTransfersTable)
+    .set({
+      status: 'completed',
+      received_at: receivedAt,
+      received_by: receivedBy,
+      updated_at: new Date()
+    })
+    .where(eq(stockTransfersTable.id, transfer.id))
+    .returning()
+    .execute();
+
+  return completed[0];
+};
+
+// Move stock of one grade to another jetty, stockpile or contractor account. The source is debited on dispatch;
+// coal moving between jetties stays in transit until received, a move within one jetty is credited at once.
+export async function createStockTransfer(
+  input: CreateStockTransferInput,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<StockTransfer> {
+  try {
+    const betweenJetties = input.source_jetty_id !== input.destination_jetty_id;
+    if (betweenJetties && input.transport_mode === null) {
+      throw new Error('Transfers between jetties need a transport mode');
+    }
+
+    assertWithinScope(scope, 'stock.transfer', source(input));
+    assertWithinScope(scope, 'stock.transfer', destination(input));
+
+    return await runStockTransaction(async (tx) => {
+      await assertActiveContractor(tx, input.source_contractor_id);
+      await assertActiveContractor(tx, input.destination_contractor_id);
+      await assertActiveJetty(tx, input.source_jetty_id);
+      await assertActiveJetty(tx, input.destination_jetty_id);
+
+      const sourceStockpile = await resolveStockpile(tx, input.source_jetty_id, input.source_stockpile_id);
+      const destinationStockpile = await resolveStockpile(tx, input.destination_jetty_id, input.destination_stockpile_id);
+      if (input.source_contractor_id === input.destination_contractor_id && sourceStockpile.id === destinationStockpile.id) {
+        throw new Error('Transfer source and destination must differ');
+      }
+      assertStockpileAccepts(destinationStockpile, input.coal_grade);
+
+      const transfers = await tx.insert(stockTransfersTable)
+        .values({
+          source_contractor_id: input.source_contractor_id,
+          source_jetty_id: input.source_jetty_id,
+          source_stockpile_id: sourceStockpile.id,
+          destination_contractor_id: input.destination_contractor_id,
+          destination_jetty_id: input.destination_jetty_id,
+          destination_stockpile_id: destinationStockpile.id,
+          coal_grade: input.coal_grade,
+          tonnage: input.tonnage.toString(),
+          transport_mode: input.transport_mode,
+          transport_reference: input.transport_reference,
+          status: 'in_transit',
+          dispatched_at: input.dispatched_at,
+          created_by: actor.user_id,
+          notes: input.notes
+        })
+        .returning()
+        .execute();
+
+      // Debit first: fails on missing or insufficient stock and rolls the transfer back
+      await changeStock(tx, { ...source(input), stockpile_id: sourceStockpile.id, coal_grade: input.coal_grade }, -input.tonnage, {
+        movement_type: 'transfer_out',
+        reference_id: transfers[0].id,
+        occurred_at: input.dispatched_at,
+        created_by: actor.user_id
+      });
+
+      const transfer = betweenJetties
+        ? transfers[0]
+        : await completeTransfer(tx, transfers[0], input.dispatched_at, actor.user_id);
+
+      await tx.insert(auditLogTable)
+        .values({
+          user_id: actor.user_id,
+          action: 'stock_transfer_create',
+          table_name: 'stock_transfers',
+          record_id: transfer.id,
+          new_values: toStockTransfer(transfer),
+          ip_address: actor.ip_address,
+          user_agent: actor.user_agent
+        })
+        .execute();
+
+      return toStockTransfer(transfer);
+    });
+  } catch (error) {
+    console.error('Stock transfer creation failed:', error);
+    throw error;
+  }
+}
+
+// Confirm arrival of an in-transit transfer, crediting the destination
+export async function receiveStockTransfer(
+  input: ReceiveStockTransferInput,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<StockTransfer> {
+  try {
+    return await runStockTransaction(async (tx) => {
+      const transfers = await tx.select()
+        .from(stockTransfersTable)
+        .where(eq(stockTransfersTable.id, input.transferId))
+        .for('update') // Two receipts of the same transfer must not both credit
+        .execute();
+
+      if (transfers.length === 0) {
+        throw new Error('Stock transfer not found');
+      }
+
+      const transfer = transfers[0];
+      if (transfer.status !== 'in_transit') {
+        throw new Error('Stock transfer has already been received');
+      }
+
+      assertWithinScope(scope, 'stock.transfer', destination(transfer));
+
+      const receivedAt = input.received_at ?? new Date();
+      if (receivedAt < transfer.dispatched_at) {
+        throw new Error('A transfer cannot be received before it was dispatched');
+      }
+
+      const completed = await completeTransfer(tx, transfer, receivedAt, actor.user_id);
+
+      await tx.insert(auditLogTable)
+        .values({
+          user_id: actor.user_id,
+          action: 'stock_transfer_receive',
+          table_name: 'stock_transfers',
+          record_id: transfer.id,
+          old_values: { status: transfer.status },
+          new_values: { status: completed.status, received_at: completed.received_at },
+          ip_address: actor.ip_address,
+          user_agent: actor.user_agent
+        })
+        .execute();
+
+      return toStockTransfer(completed);
+    });
+  } catch (error) {
+    console.error('Stock transfer receipt failed:', error);
+    throw error;
+  }
+}
+
+export async function getStockTransfers(
+  filter?: StockTransferFilter,
+  scope?: PermissionScope
+): Promise<StockTransfer[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (filter?.status !== undefined) {
+      conditions.push(eq(stockTransfersTable.status, filter.status));
+    }
+
+    if (filter?.contractor_id !== undefined) {
+      conditions.push(or(
+        eq(stockTransfersTable.source_contractor_id, filter.contractor_id),
+        eq(stockTransfersTable.destination_contractor_id, filter.contractor_id)
+      )!);
+    }
+
+    if (filter?.jetty_id !== undefined) {
+      conditions.push(or(
+        eq(stockTransfersTable.source_jetty_id, filter.jetty_id),
+        eq(stockTransfersTable.destination_jetty_id, filter.jetty_id)
+      )!);
+    }
+
+    if (filter?.date_from !== undefined) {
+      conditions.push(gte(stockTransfersTable.dispatched_at, filter.date_from));
+    }
+
+    if (filter?.date_to !== undefined) {
+      conditions.push(lte(stockTransfersTable.dispatched_at, filter.date_to));
+    }
+
+    // Visible when the caller may see either end of the transfer
+    const sourceScope = scopeCondition(scope, stockTransfersTable.source_jetty_id, stockTransfersTable.source_contractor_id);
+    const destinationScope = scopeCondition(scope, stockTransfersTable.destination_jetty_id, stockTransfersTable.destination_contractor_id);
+    if (sourceScope && destinationScope) {
+      conditions.push(or(sourceScope, destinationScope)!);
+    }
+
+    const results = await db.select()
+      .from(stockTransfersTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(stockTransfersTable.dispatched_at))
+      .execute();
+
+    return results.map(toStockTransfer);
+  } catch (error) {
+    console.error('Get stock transfers failed:', error);
+    throw error;
+  }
+}
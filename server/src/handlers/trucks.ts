@@ -0,0 +1,164 @@
+import { db } from '../db';
+import { trucksTable, contractorsTable } from '../db/schema';
+import {
+  type CreateTruckInput,
+  type UpdateTruckInput,
+  type TruckFilter,
+  type Truck
+} from '../schema';
+import { eq, and, asc, type SQL } from 'drizzle-orm';
+
+export type TruckRow = typeof trucksTable.$inferSelect;
+
+const toTruck = (truck: TruckRow): Truck => ({
+  ...truck,
+  tare_weight: parseFloat(truck.tare_weight),
+  capacity: parseFloat(truck.capacity)
+});
+
+// Plates are written many ways ("KT 1234 AB", "kt-1234-ab", "KT1234AB"); compare them without case or separators
+export const normalizePlate = (plate: string): string => plate.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// The registered truck behind a plate as typed in or read by the weighbridge, if there is one
+export const findTruckByPlate = async (plate: string): Promise<TruckRow | null> => {
+  const trucks = await db.select()
+    .from(trucksTable)
+    .where(eq(trucksTable.plate_number, normalizePlate(plate)))
+    .execute();
+
+  return trucks.length > 0 ? trucks[0] : null;
+};
+
+// A registered truck may only carry coal while active, registered and within its capacity
+export const assertTruckMayCarry = (truck: TruckRow, tonnage: number, at: Date): void => {
+  if (!truck.is_active) {
+    throw new Error(`Truck ${truck.plate_number} is inactive`);
+  }
+
+  if (truck.registration_expiry !== null && truck.registration_expiry < at) {
+    throw new Error(`Truck ${truck.plate_number} registration expired on ${truck.registration_expiry.toISOString().split('T')[0]}`);
+  }
+
+  const capacity = parseFloat(truck.capacity);
+  if (tonnage > capacity) {
+    throw new Error(`Truck ${truck.plate_number} overloaded: ${tonnage} tons exceeds its capacity of ${capacity} tons`);
+  }
+};
+
+const assertContractorExists = async (contractorId: number): Promise<void> => {
+  const contractors = await db.select({ id: contractorsTable.id })
+    .from(contractorsTable)
+    .where(eq(contractorsTable.id, contractorId))
+    .execute();
+
+  if (contractors.length === 0) {
+    throw new Error(`Contractor with ID ${contractorId} not found`);
+  }
+};
+
+const assertPlateAvailable = async (plateNumber: string, truckId?: number): Promise<void> => {
+  const existing = await findTruckByPlate(plateNumber);
+  if (existing && existing.id !== truckId) {
+    throw new Error(`Truck with plate '${existing.plate_number}' already exists`);
+  }
+};
+
+export async function createTruck(input: CreateTruckInput): Promise<Truck> {
+  try {
+    const plateNumber = normalizePlate(input.plate_number);
+    if (plateNumber === '') {
+      throw new Error(`'${input.plate_number}' is not a plate number`);
+    }
+
+    await assertContractorExists(input.contractor_id);
+    await assertPlateAvailable(plateNumber);
+
+    const result = await db.insert(trucksTable)
+      .values({
+        plate_number: plateNumber,
+        contractor_id: input.contractor_id,
+        tare_weight: input.tare_weight.toString(),
+        capacity: input.capacity.toString(),
+        registration_expiry: input.registration_expiry
+      })
+      .returning()
+      .execute();
+
+    return toTruck(result[0]);
+  } catch (error) {
+    console.error('Truck creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateTruck(input: UpdateTruckInput): Promise<Truck> {
+  try {
+    const existing = await db.select()
+      .from(trucksTable)
+      .where(eq(trucksTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Truck with ID ${input.id} not found`);
+    }
+
+    const updateData: Partial<typeof trucksTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.plate_number !== undefined) {
+      const plateNumber = normalizePlate(input.plate_number);
+      if (plateNumber === '') {
+        throw new Error(`'${input.plate_number}' is not a plate number`);
+      }
+      await assertPlateAvailable(plateNumber, input.id);
+      updateData.plate_number = plateNumber;
+    }
+
+    if (input.contractor_id !== undefined) {
+      await assertContractorExists(input.contractor_id);
+      updateData.contractor_id = input.contractor_id;
+    }
+
+    if (input.tare_weight !== undefined) updateData.tare_weight = input.tare_weight.toString();
+    if (input.capacity !== undefined) updateData.capacity = input.capacity.toString();
+    if (input.is_active !== undefined) updateData.is_active = input.is_active;
+    if (input.registration_expiry !== undefined) updateData.registration_expiry = input.registration_expiry;
+
+    const result = await db.update(trucksTable)
+      .set(updateData)
+      .where(eq(trucksTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toTruck(result[0]);
+  } catch (error) {
+    console.error('Truck update failed:', error);
+    throw error;
+  }
+}
+
+export async function getTrucks(filter?: TruckFilter): Promise<Truck[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (filter?.contractor_id !== undefined) {
+      conditions.push(eq(trucksTable.contractor_id, filter.contractor_id));
+    }
+
+    if (filter?.active_only) {
+      conditions.push(eq(trucksTable.is_active, true));
+    }
+
+    const trucks = await db.select()
+      .from(trucksTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(trucksTable.plate_number))
+      .execute();
+
+    return trucks.map(toTruck);
+  } catch (error) {
+    console.error('Failed to fetch trucks:', error);
+    throw error;
+  }
+}
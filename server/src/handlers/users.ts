@@ -3,19 +3,23 @@ import { usersTable, auditLogTable } from '../db/schema';
 import { 
   type CreateUserInput, 
   type User, 
-  type UserRole 
+  type UserRole,
+  type RequestActor,
+  type RequestClient,
+  type PasswordResetResult
 } from '../schema';
 import { eq, and, asc, desc } from 'drizzle-orm';
-// Using Bun's built-in password hashing
-const hash = async (password: string, rounds: number = 10): Promise<string> => {
-  return await Bun.password.hash(password);
-};
-
-const compare = async (password: string, hash: string): Promise<boolean> => {
-  return await Bun.password.verify(password, hash);
-};
-
-export async function createUser(input: CreateUserInput): Promise<User> {
+import { revokeUserSessions } from './auth';
+import {
+  hashPassword,
+  verifyPassword,
+  assertPasswordAllowed,
+  recordPasswordHistory,
+  generateTemporaryPassword
+} from './passwords';
+import { removeTwoFactor } from './totp';
+
+export async function createUser(input: CreateUserInput, actor: RequestActor): Promise<User> {
   try {
     // Check if email or username already exists
     const existingUsers = await db.select()
@@ -40,8 +44,10 @@ export async function createUser(input: CreateUserInput): Promise<User> {
       throw new Error('Username already exists');
     }
 
+    await assertPasswordAllowed(input.password, { username: input.username, email: input.email });
+
     // Hash the password
-    const passwordHash = await hash(input.password, 10);
+    const passwordHash = await hashPassword(input.password);
 
     // Insert new user
     const result = await db.insert(usersTable)
@@ -52,6 +58,7 @@ export async function createUser(input: CreateUserInput): Promise<User> {
         full_name: input.full_name,
         role: input.role,
         is_active: true,
+        password_changed_at: new Date(),
         updated_at: new Date()
       })
       .returning()
@@ -59,10 +66,12 @@ export async function createUser(input: CreateUserInput): Promise<User> {
 
     const user = result[0];
 
+    await recordPasswordHistory(user.id, passwordHash);
+
     // Log user creation in audit log
     await db.insert(auditLogTable)
       .values({
-        user_id: user.id,
+        user_id: actor.user_id,
         action: 'CREATE_USER',
         table_name: 'users',
         record_id: user.id,
@@ -72,7 +81,9 @@ export async function createUser(input: CreateUserInput): Promise<User> {
           full_name: user.full_name,
           role: user.role,
           is_active: user.is_active
-        }
+        },
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
       })
       .execute();
 
@@ -98,6 +109,12 @@ export async function getUsers(): Promise<User[]> {
       role: usersTable.role,
       is_active: usersTable.is_active,
       last_login: usersTable.last_login,
+      failed_login_attempts: usersTable.failed_login_attempts,
+      last_failed_login_at: usersTable.last_failed_login_at,
+      locked_until: usersTable.locked_until,
+      must_change_password: usersTable.must_change_password,
+      password_changed_at: usersTable.password_changed_at,
+      two_factor_enabled: usersTable.two_factor_enabled,
       created_at: usersTable.created_at,
       updated_at: usersTable.updated_at
     })
@@ -125,6 +142,12 @@ export async function getUserById(id: number): Promise<User | null> {
       role: usersTable.role,
       is_active: usersTable.is_active,
       last_login: usersTable.last_login,
+      failed_login_attempts: usersTable.failed_login_attempts,
+      last_failed_login_at: usersTable.last_failed_login_at,
+      locked_until: usersTable.locked_until,
+      must_change_password: usersTable.must_change_password,
+      password_changed_at: usersTable.password_changed_at,
+      two_factor_enabled: usersTable.two_factor_enabled,
       created_at: usersTable.created_at,
       updated_at: usersTable.updated_at
     })
@@ -178,7 +201,8 @@ export async function updateUser(
     full_name: string;
     role: UserRole;
     is_active: boolean;
-  }>
+  }>,
+  actor: RequestActor
 ): Promise<User> {
   try {
     // Check if user exists
@@ -226,12 +250,14 @@ export async function updateUser(
     // Log update to audit log
     await db.insert(auditLogTable)
       .values({
-        user_id: id,
+        user_id: actor.user_id,
         action: 'UPDATE_USER',
         table_name: 'users',
         record_id: id,
         old_values: existingUser,
-        new_values: updates
+        new_values: updates,
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
       })
       .execute();
 
@@ -247,7 +273,8 @@ export async function updateUser(
 export async function updateUserPassword(
   id: number, 
   currentPassword: string, 
-  newPassword: string
+  newPassword: string,
+  client?: RequestClient
 ): Promise<boolean> {
   try {
     // Get user with password hash
@@ -268,23 +295,29 @@ export async function updateUserPassword(
     const user = results[0];
 
     // Verify current password
-    const isCurrentPasswordValid = await compare(currentPassword, user.password_hash);
+    const isCurrentPasswordValid = await verifyPassword(currentPassword, user.password_hash);
     if (!isCurrentPasswordValid) {
       throw new Error('Current password is incorrect');
     }
 
+    await assertPasswordAllowed(newPassword, user);
+
     // Hash new password
-    const newPasswordHash = await hash(newPassword, 10);
+    const newPasswordHash = await hashPassword(newPassword);
 
-    // Update password
+    // Update password; this also satisfies a forced change after a reset or expiry
     await db.update(usersTable)
       .set({
         password_hash: newPasswordHash,
+        must_change_password: false,
+        password_changed_at: new Date(),
         updated_at: new Date()
       })
       .where(eq(usersTable.id, id))
       .execute();
 
+    await recordPasswordHistory(id, newPasswordHash);
+
     // Log password change
     await db.insert(auditLogTable)
       .values({
@@ -292,7 +325,9 @@ export async function updateUserPassword(
         action: 'UPDATE_PASSWORD',
         table_name: 'users',
         record_id: id,
-        new_values: { password_changed: true }
+        new_values: { password_changed: true },
+        ip_address: client?.ip_address ?? null,
+        user_agent: client?.user_agent ?? null
       })
       .execute();
 
@@ -303,7 +338,101 @@ export async function updateUserPassword(
   }
 }
 
-export async function deactivateUser(id: number, deactivatedBy: number): Promise<boolean> {
+export async function adminResetPassword(id: number, actor: RequestActor): Promise<PasswordResetResult> {
+  try {
+    const existingUser = await db.select()
+      .from(usersTable)
+      .where(and(
+        eq(usersTable.id, id),
+        eq(usersTable.is_active, true)
+      ))
+      .execute();
+
+    if (existingUser.length === 0) {
+      throw new Error('User not found or inactive');
+    }
+
+    const temporaryPassword = generateTemporaryPassword();
+    const passwordHash = await hashPassword(temporaryPassword);
+
+    // The temporary password only lets the user set a new one; a reset also clears any lockout
+    await db.update(usersTable)
+      .set({
+        password_hash: passwordHash,
+        must_change_password: true,
+        password_changed_at: new Date(),
+        failed_login_attempts: 0,
+        last_failed_login_at: null,
+        locked_until: null,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, id))
+      .execute();
+
+    await recordPasswordHistory(id, passwordHash);
+
+    // Sessions opened with the old password must not survive the reset
+    await revokeUserSessions(id, 'password_reset');
+
+    // Log reset (never the temporary password itself)
+    await db.insert(auditLogTable)
+      .values({
+        user_id: actor.user_id,
+        action: 'RESET_PASSWORD',
+        table_name: 'users',
+        record_id: id,
+        new_values: { must_change_password: true },
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
+      })
+      .execute();
+
+    return {
+      user_id: id,
+      temporary_password: temporaryPassword
+    };
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
+}
+
+export async function resetTwoFactor(id: number, actor: RequestActor): Promise<boolean> {
+  try {
+    const existingUser = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, id))
+      .execute();
+
+    if (existingUser.length === 0) {
+      throw new Error('User not found');
+    }
+
+    // For lost authenticators: the user re-enrolls on next login if the role requires 2FA
+    await removeTwoFactor(id);
+    await revokeUserSessions(id, 'two_factor_reset');
+
+    await db.insert(auditLogTable)
+      .values({
+        user_id: actor.user_id,
+        action: 'RESET_TWO_FACTOR',
+        table_name: 'users',
+        record_id: id,
+        old_values: { two_factor_enabled: existingUser[0].two_factor_enabled },
+        new_values: { two_factor_enabled: false },
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
+      })
+      .execute();
+
+    return true;
+  } catch (error) {
+    console.error('Two-factor reset failed:', error);
+    throw error;
+  }
+}
+
+export async function deactivateUser(id: number, actor: RequestActor): Promise<boolean> {
   try {
     // Check if user exists and is currently active
     const existingUser = await db.select()
@@ -329,15 +458,20 @@ export async function deactivateUser(id: number, deactivatedBy: number): Promise
       .where(eq(usersTable.id, id))
       .execute();
 
+    // Deactivated users must not be able to refresh their way back in
+    await revokeUserSessions(id, 'user_deactivated');
+
     // Log deactivation
     await db.insert(auditLogTable)
       .values({
-        user_id: deactivatedBy,
+        user_id: actor.user_id,
         action: 'DEACTIVATE_USER',
         table_name: 'users',
         record_id: id,
         old_values: { is_active: true },
-        new_values: { is_active: false, deactivated_by: deactivatedBy }
+        new_values: { is_active: false, deactivated_by: actor.user_id },
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
       })
       .execute();
 
@@ -348,6 +482,52 @@ export async function deactivateUser(id: number, deactivatedBy: number): Promise
   }
 }
 
+export async function unlockUser(id: number, actor: RequestActor): Promise<boolean> {
+  try {
+    const existingUser = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, id))
+      .execute();
+
+    if (existingUser.length === 0) {
+      throw new Error('User not found');
+    }
+
+    // Clear the lockout and the failed-attempt counter that drives progressive delays
+    await db.update(usersTable)
+      .set({
+        failed_login_attempts: 0,
+        last_failed_login_at: null,
+        locked_until: null,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, id))
+      .execute();
+
+    // Log unlock
+    await db.insert(auditLogTable)
+      .values({
+        user_id: actor.user_id,
+        action: 'UNLOCK_USER',
+        table_name: 'users',
+        record_id: id,
+        old_values: {
+          failed_login_attempts: existingUser[0].failed_login_attempts,
+          locked_until: existingUser[0].locked_until
+        },
+        new_values: { failed_login_attempts: 0, locked_until: null },
+        ip_address: actor.ip_address,
+        user_agent: actor.user_agent
+      })
+      .execute();
+
+    return true;
+  } catch (error) {
+    console.error('User unlock failed:', error);
+    throw error;
+  }
+}
+
 export async function getUsersByRole(role: UserRole): Promise<User[]> {
   try {
     const results = await db.select({
@@ -358,6 +538,12 @@ export async function getUsersByRole(role: UserRole): Promise<User[]> {
       role: usersTable.role,
       is_active: usersTable.is_active,
       last_login: usersTable.last_login,
+      failed_login_attempts: usersTable.failed_login_attempts,
+      last_failed_login_at: usersTable.last_failed_login_at,
+      locked_until: usersTable.locked_until,
+      must_change_password: usersTable.must_change_password,
+      password_changed_at: usersTable.password_changed_at,
+      two_factor_enabled: usersTable.two_factor_enabled,
       created_at: usersTable.created_at,
       updated_at: usersTable.updated_at
     })
@@ -0,0 +1,104 @@
+import { db } from '../db';
+import { vesselsTable } from '../db/schema';
+import {
+  type CreateVesselInput,
+  type UpdateVesselInput,
+  type Vessel
+} from '../schema';
+import { eq, asc } from 'drizzle-orm';
+
+// IMO numbers are seven digits, the last a check digit over the first six weighted 7 down to 2.
+// They are often written with an "IMO" prefix ("IMO 9074729"), which is dropped.
+export const normalizeImoNumber = (imoNumber: string): string => {
+  const digits = imoNumber.trim().replace(/^IMO\s*/i, '');
+  if (!/^\d{7}$/.test(digits)) {
+    throw new Error(`'${imoNumber}' is not a valid IMO number`);
+  }
+
+  const checksum = [...digits.slice(0, 6)].reduce((total, digit, index) => total + parseInt(digit) * (7 - index), 0);
+  if (checksum % 10 !== parseInt(digits[6])) {
+    throw new Error(`'${imoNumber}' is not a valid IMO number`);
+  }
+
+  return digits;
+};
+
+const assertImoNumberAvailable = async (imoNumber: string, vesselId?: number): Promise<void> => {
+  const existing = await db.select({ id: vesselsTable.id })
+    .from(vesselsTable)
+    .where(eq(vesselsTable.imo_number, imoNumber))
+    .execute();
+
+  if (existing.length > 0 && existing[0].id !== vesselId) {
+    throw new Error(`Vessel with IMO number ${imoNumber} already exists`);
+  }
+};
+
+export async function createVessel(input: CreateVesselInput): Promise<Vessel> {
+  try {
+    const imoNumber = normalizeImoNumber(input.imo_number);
+    await assertImoNumberAvailable(imoNumber);
+
+    const result = await db.insert(vesselsTable)
+      .values({
+        name: input.name,
+        imo_number: imoNumber
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Vessel creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateVessel(input: UpdateVesselInput): Promise<Vessel> {
+  try {
+    const existing = await db.select()
+      .from(vesselsTable)
+      .where(eq(vesselsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Vessel with ID ${input.id} not found`);
+    }
+
+    const updateData: Partial<typeof vesselsTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.imo_number !== undefined) {
+      const imoNumber = normalizeImoNumber(input.imo_number);
+      await assertImoNumberAvailable(imoNumber, input.id);
+      updateData.imo_number = imoNumber;
+    }
+
+    if (input.name !== undefined) updateData.name = input.name;
+    if (input.is_active !== undefined) updateData.is_active = input.is_active;
+
+    const result = await db.update(vesselsTable)
+      .set(updateData)
+      .where(eq(vesselsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Vessel update failed:', error);
+    throw error;
+  }
+}
+
+export async function getVessels(): Promise<Vessel[]> {
+  try {
+    return await db.select()
+      .from(vesselsTable)
+      .orderBy(asc(vesselsTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch vessels:', error);
+    throw error;
+  }
+}
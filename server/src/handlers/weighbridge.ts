@@ -0,0 +1,392 @@
+import { db } from '../db';
+import {
+  weighbridgeTicketsTable,
+  jettiesTable,
+  contractorsTable,
+  auditLogTable
+} from '../db/schema';
+import {
+  coalGradeSchema,
+  type WeighbridgeReadingInput,
+  type WeighbridgeFeedInput,
+  type WeighbridgeFeedResult,
+  type CompleteWeighbridgeTicketInput,
+  type WeighbridgeTicketFilter,
+  type WeighbridgeTicket,
+  type ProductionRecord,
+  type RequestActor,
+  type PermissionScope,
+  type CoalGrade
+} from '../schema';
+import { isWithinScope, isJettyWithinScope, assertWithinScope } from './permissions';
+import { resolveStockpile } from './stockpiles';
+import { createProductionRecord } from './production';
+import { findTruckByPlate, normalizePlate } from './trucks';
+import { eq, and, gte, lte, desc, type SQL } from 'drizzle-orm';
+
+type WeighbridgeTicketRow = typeof weighbridgeTicketsTable.$inferSelect;
+
+export type ParsedWeighbridgeLine = Omit<WeighbridgeReadingInput, 'jetty_id' | 'stockpile_id' | 'contractor_id'> & {
+  contractor_code?: string;
+};
+
+const toWeighbridgeTicket = (ticket: WeighbridgeTicketRow): WeighbridgeTicket => ({
+  ...ticket,
+  gross_weight: parseFloat(ticket.gross_weight),
+  tare_weight: parseFloat(ticket.tare_weight),
+  net_tonnage: parseFloat(ticket.net_tonnage)
+});
+
+const isTicketWithinScope = (scope: PermissionScope | undefined, ticket: WeighbridgeTicketRow): boolean => {
+  if (ticket.contractor_id === null) {
+    return isJettyWithinScope(scope, ticket.jetty_id);
+  }
+  return !scope || isWithinScope(scope, { jetty_id: ticket.jetty_id, contractor_id: ticket.contractor_id });
+};
+
+const parseWeight = (name: string, value: string | undefined): number => {
+  const weight = Number(value);
+  if (value === undefined || value.trim() === '' || !Number.isFinite(weight)) {
+    throw new Error(`${name} is missing or not a number`);
+  }
+  return weight;
+};
+
+// One ticket per line as KEY=VALUE fields separated by semicolons, in any order, e.g.
+//   TICKET=WB-1001;TRUCK=KT 8812 AB;GROSS=32450;TARE=12300;TIME=2024-05-10T08:15:00Z;CONTRACTOR=C001;GRADE=high
+// Weights are in kilograms. TIME defaults to the time of receipt and TARE to the truck's registered tare;
+// CONTRACTOR (code) and GRADE are optional.
+// Unknown fields are ignored so weighbridges that send extra fields (sequence numbers, axle weights) still work.
+export const parseWeighbridgeLine = (line: string, receivedAt: Date = new Date()): ParsedWeighbridgeLine => {
+  const fields = new Map<string, string>();
+  for (const part of line.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) {
+      if (part.trim() !== '') {
+        throw new Error(`Malformed field '${part.trim()}'`);
+      }
+      continue;
+    }
+    fields.set(part.slice(0, separator).trim().toUpperCase(), part.slice(separator + 1).trim());
+  }
+
+  const ticketNumber = fields.get('TICKET');
+  const truckNumber = fields.get('TRUCK');
+  if (!ticketNumber) {
+    throw new Error('TICKET is missing');
+  }
+  if (!truckNumber) {
+    throw new Error('TRUCK is missing');
+  }
+
+  const time = fields.get('TIME');
+  const weighedAt = time ? new Date(time) : receivedAt;
+  if (isNaN(weighedAt.getTime())) {
+    throw new Error(`TIME '${time}' is not a valid timestamp`);
+  }
+
+  const grade = fields.get('GRADE');
+  const parsedGrade = grade ? coalGradeSchema.safeParse(grade.toLowerCase()) : undefined;
+  if (parsedGrade && !parsedGrade.success) {
+    throw new Error(`GRADE '${grade}' is not a coal grade`);
+  }
+
+  return {
+    ticket_number: ticketNumber,
+    truck_number: truckNumber,
+    gross_weight: parseWeight('GROSS', fields.get('GROSS')),
+    tare_weight: fields.get('TARE') ? parseWeight('TARE', fields.get('TARE')) : undefined,
+    weighed_at: weighedAt,
+    contractor_code: fields.get('CONTRACTOR') || undefined,
+    coal_grade: parsedGrade?.data
+  };
+};
+
+// Turn a pending ticket into a production record at its net tonnage
+const recordTicket = async (
+  ticket: WeighbridgeTicketRow,
+  details: {
+    contractor_id: number;
+    coal_grade?: CoalGrade;
+    stockpile_id?: number;
+    document_photo: string | null;
+    notes: string | null;
+    capacity_override_reason?: string;
+  },
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<ProductionRecord> => {
+  const contractors = await db.select()
+    .from(contractorsTable)
+    .where(eq(contractorsTable.id, details.contractor_id))
+    .execute();
+
+  if (contractors.length === 0) {
+    throw new Error('Contractor not found or inactive');
+  }
+
+  return createProductionRecord({
+    date_time: ticket.weighed_at,
+    contractor_id: details.contractor_id,
+    truck_number: ticket.truck_number,
+    tonnage: parseFloat(ticket.net_tonnage),
+    coal_grade: details.coal_grade ?? ticket.coal_grade ?? contractors[0].default_grade,
+    jetty_id: ticket.jetty_id,
+    stockpile_id: details.stockpile_id ?? ticket.stockpile_id ?? undefined,
+    document_photo: details.document_photo,
+    notes: details.notes,
+    capacity_override_reason: details.capacity_override_reason
+  }, actor, scope, ticket);
+};
+
+// Store a weighbridge reading as a ticket and, when it names the contractor, record it as production.
+// A ticket that cannot be recorded yet (no contractor, capacity exceeded, ...) stays pending with the reason.
+export async function receiveWeighbridgeReading(
+  input: WeighbridgeReadingInput,
+  actor: RequestActor,
+  scope?: PermissionScope,
+  rawLine?: string
+): Promise<WeighbridgeTicket> {
+  try {
+    // Trucks that are not weighed empty use their registered tare weight
+    let tareWeight = input.tare_weight;
+    if (tareWeight === undefined) {
+      const truck = await findTruckByPlate(input.truck_number);
+      if (!truck) {
+        throw new Error(`No tare weight for truck ${input.truck_number}: weigh it empty or register it`);
+      }
+      tareWeight = parseFloat(truck.tare_weight);
+    }
+
+    if (input.gross_weight <= tareWeight) {
+      throw new Error(`Gross weight ${input.gross_weight} kg must be above tare weight ${tareWeight} kg`);
+    }
+
+    if (input.contractor_id !== undefined) {
+      assertWithinScope(scope, 'production.create', { jetty_id: input.jetty_id, contractor_id: input.contractor_id });
+    } else if (!isJettyWithinScope(scope, input.jetty_id)) {
+      throw new Error(`Permission 'production.create' does not cover jetty ${input.jetty_id}`);
+    }
+
+    const jetties = await db.select()
+      .from(jettiesTable)
+      .where(and(eq(jettiesTable.id, input.jetty_id), eq(jettiesTable.is_active, true)))
+      .execute();
+
+    if (jetties.length === 0) {
+      throw new Error('Jetty not found or inactive');
+    }
+
+    const existing = await db.select({ id: weighbridgeTicketsTable.id })
+      .from(weighbridgeTicketsTable)
+      .where(eq(weighbridgeTicketsTable.ticket_number, input.ticket_number))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`Weighbridge ticket ${input.ticket_number} has already been received`);
+    }
+
+    // Net weight in kilograms, kept to two decimals of a ton
+    const netTonnage = Math.round((input.gross_weight - tareWeight) / 10) / 100;
+
+    const ticket = await db.transaction(async (tx) => {
+      if (input.stockpile_id !== undefined) {
+        await resolveStockpile(tx, input.jetty_id, input.stockpile_id);
+      }
+
+      const created = await tx.insert(weighbridgeTicketsTable)
+        .values({
+          ticket_number: input.ticket_number,
+          truck_number: normalizePlate(input.truck_number),
+          jetty_id: input.jetty_id,
+          stockpile_id: input.stockpile_id ?? null,
+          contractor_id: input.contractor_id ?? null,
+          coal_grade: input.coal_grade ?? null,
+          gross_weight: input.gross_weight.toString(),
+          tare_weight: tareWeight.toString(),
+          net_tonnage: netTonnage.toString(),
+          weighed_at: input.weighed_at,
+          status: 'pending',
+          pending_reason: input.contractor_id === undefined ? 'Contractor not identified' : null,
+          raw_line: rawLine ?? null,
+          received_by: actor.user_id
+        })
+        .returning()
+        .execute();
+
+      await tx.insert(auditLogTable)
+        .values({
+          user_id: actor.user_id,
+          action: 'weighbridge_ticket_receive',
+          table_name: 'weighbridge_tickets',
+          record_id: created[0].id,
+          new_values: toWeighbridgeTicket(created[0]),
+          ip_address: actor.ip_address,
+          user_agent: actor.user_agent
+        })
+        .execute();
+
+      return created[0];
+    });
+
+    if (ticket.contractor_id === null) {
+      return toWeighbridgeTicket(ticket);
+    }
+
+    try {
+      await recordTicket(ticket, { contractor_id: ticket.contractor_id, document_photo: null, notes: null }, actor, scope);
+    } catch (error) {
+      await db.update(weighbridgeTicketsTable)
+        .set({ pending_reason: error instanceof Error ? error.message : String(error), updated_at: new Date() })
+        .where(eq(weighbridgeTicketsTable.id, ticket.id))
+        .execute();
+    }
+
+    const updated = await db.select()
+      .from(weighbridgeTicketsTable)
+      .where(eq(weighbridgeTicketsTable.id, ticket.id))
+      .execute();
+
+    return toWeighbridgeTicket(updated[0]);
+  } catch (error) {
+    console.error('Weighbridge reading failed:', error);
+    throw error;
+  }
+}
+
+// Ingest the raw output of a weighbridge (serial/TCP capture or a dropped file) for one jetty
+export async function receiveWeighbridgeFeed(
+  input: WeighbridgeFeedInput,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<WeighbridgeFeedResult> {
+  try {
+    const contractors = await db.select({ id: contractorsTable.id, code: contractorsTable.code })
+      .from(contractorsTable)
+      .execute();
+    const contractorIds = new Map(contractors.map(contractor => [contractor.code.toUpperCase(), contractor.id]));
+
+    const receivedAt = new Date();
+    const lines: WeighbridgeFeedResult['lines'] = [];
+    const rawLines = input.content.split(/\r?\n/);
+
+    for (let index = 0; index < rawLines.length; index++) {
+      const line = rawLines[index].trim();
+      if (line === '' || line.startsWith('#')) {
+        continue;
+      }
+
+      let ticketNumber: string | null = null;
+      try {
+        const parsed = parseWeighbridgeLine(line, receivedAt);
+        ticketNumber = parsed.ticket_number;
+
+        const contractorId = parsed.contractor_code === undefined
+          ? undefined
+          : contractorIds.get(parsed.contractor_code.toUpperCase());
+        if (parsed.contractor_code !== undefined && contractorId === undefined) {
+          throw new Error(`Unknown contractor code ${parsed.contractor_code}`);
+        }
+
+        const ticket = await receiveWeighbridgeReading({
+          ticket_number: parsed.ticket_number,
+          truck_number: parsed.truck_number,
+          gross_weight: parsed.gross_weight,
+          tare_weight: parsed.tare_weight,
+          weighed_at: parsed.weighed_at,
+          jetty_id: input.jetty_id,
+          stockpile_id: input.stockpile_id,
+          contractor_id: contractorId,
+          coal_grade: parsed.coal_grade
+        }, actor, scope, line);
+
+        lines.push({ line_number: index + 1, ticket_number: ticketNumber, outcome: ticket.status, ticket, error: null });
+      } catch (error) {
+        lines.push({
+          line_number: index + 1,
+          ticket_number: ticketNumber,
+          outcome: 'rejected',
+          ticket: null,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return {
+      recorded: lines.filter(line => line.outcome === 'recorded').length,
+      pending: lines.filter(line => line.outcome === 'pending').length,
+      rejected: lines.filter(line => line.outcome === 'rejected').length,
+      lines
+    };
+  } catch (error) {
+    console.error('Weighbridge feed failed:', error);
+    throw error;
+  }
+}
+
+// Complete a pending ticket with the details the weighbridge did not know
+export async function completeWeighbridgeTicket(
+  input: CompleteWeighbridgeTicketInput,
+  actor: RequestActor,
+  scope?: PermissionScope
+): Promise<ProductionRecord> {
+  try {
+    const tickets = await db.select()
+      .from(weighbridgeTicketsTable)
+      .where(eq(weighbridgeTicketsTable.id, input.ticket_id))
+      .execute();
+
+    if (tickets.length === 0) {
+      throw new Error(`Weighbridge ticket with ID ${input.ticket_id} not found`);
+    }
+
+    const ticket = tickets[0];
+
+    if (ticket.status !== 'pending') {
+      throw new Error(`Weighbridge ticket ${ticket.ticket_number} has already been recorded`);
+    }
+
+    return await recordTicket(ticket, input, actor, scope);
+  } catch (error) {
+    console.error('Weighbridge ticket completion failed:', error);
+    throw error;
+  }
+}
+
+export async function getWeighbridgeTickets(
+  filter?: WeighbridgeTicketFilter,
+  scope?: PermissionScope
+): Promise<WeighbridgeTicket[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (filter?.jetty_id !== undefined) {
+      conditions.push(eq(weighbridgeTicketsTable.jetty_id, filter.jetty_id));
+    }
+
+    if (filter?.status !== undefined) {
+      conditions.push(eq(weighbridgeTicketsTable.status, filter.status));
+    }
+
+    if (filter?.date_from !== undefined) {
+      conditions.push(gte(weighbridgeTicketsTable.weighed_at, filter.date_from));
+    }
+
+    if (filter?.date_to !== undefined) {
+      conditions.push(lte(weighbridgeTicketsTable.weighed_at, filter.date_to));
+    }
+
+    const results = await db.select()
+      .from(weighbridgeTicketsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(weighbridgeTicketsTable.weighed_at), desc(weighbridgeTicketsTable.id))
+      .execute();
+
+    return results
+      .filter(ticket => isTicketWithinScope(scope, ticket))
+      .map(toWeighbridgeTicket);
+  } catch (error) {
+    console.error('Failed to fetch weighbridge tickets:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,243 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+import { type Transaction } from '../handlers/ledger';
+import { type CoalGrade } from '../schema';
+
+// Usage: bun src/helpers/migrate-grades.ts
+// Runs before db:push on databases created before stock was tracked per coal grade, filling the NOT NULL
+// coal_grade columns so the push does not have to drop rows to add them. Production records always carried
+// their grade; barging, stock and movements did not:
+//   - each barge load takes the grade the contractor had most of at that jetty when it was loaded,
+//   - each stock row is split into one row per grade holding that grade's production minus barging, with
+//     the rest of the old total (adjustments) left on the row of the grade the contractor holds most of,
+//   - movements take the grade of the record they came from and move to that grade's stock row.
+// Contractors with nothing produced at a jetty keep its stock on their default grade.
+// Safe to run repeatedly; does nothing on an empty database.
+const GRADED_TABLES = ['barging_records', 'stock', 'stock_movements'];
+
+const tableExists = async (table: string): Promise<boolean> => {
+  const result = await db.execute(sql`SELECT to_regclass(${table}) AS name`);
+  return result.rows[0]['name'] !== null;
+};
+
+const pairKey = (contractorId: unknown, jettyId: unknown): string => `${contractorId}:${jettyId}`;
+
+const roundTons = (tonnage: number): number => Math.round(tonnage * 100) / 100;
+
+// The grade holding the most, the default grade on a tie or when nothing is held
+const largestGrade = (balances: Map<CoalGrade, number>, defaultGrade: CoalGrade): CoalGrade => {
+  let largest = defaultGrade;
+  for (const [grade, tonnage] of balances) {
+    if (tonnage > (balances.get(largest) ?? 0)) {
+      largest = grade;
+    }
+  }
+  return largest;
+};
+
+const getDefaultGrades = async (tx: Transaction): Promise<Map<number, CoalGrade>> => {
+  const contractors = await tx.execute(sql`SELECT id, default_grade FROM contractors`);
+  return new Map(contractors.rows.map(row => [Number(row['id']), row['default_grade'] as CoalGrade]));
+};
+
+// Replays production and barging per contractor and jetty in time order, putting every ungraded barge
+// load on the grade with the largest balance at that point
+const gradeBargingRecords = async (tx: Transaction, defaultGrades: Map<number, CoalGrade>): Promise<number> => {
+  const ungraded = await tx.execute(sql`SELECT 1 FROM barging_records WHERE coal_grade IS NULL LIMIT 1`);
+  if (ungraded.rows.length === 0) {
+    return 0;
+  }
+
+  const events = await tx.execute(sql`
+    SELECT 'production' AS kind, id, contractor_id, jetty_id, coal_grade, tonnage, date_time FROM production_records
+    UNION ALL
+    SELECT 'barging' AS kind, id, contractor_id, jetty_id, coal_grade, tonnage, date_time FROM barging_records
+    ORDER BY contractor_id, jetty_id, date_time, kind DESC, id
+  `);
+
+  const balances = new Map<string, Map<CoalGrade, number>>();
+  const assigned = new Map<CoalGrade, number[]>();
+  for (const event of events.rows) {
+    const key = pairKey(event['contractor_id'], event['jetty_id']);
+    const pairBalances = balances.get(key) ?? new Map<CoalGrade, number>();
+    balances.set(key, pairBalances);
+
+    let grade = event['coal_grade'] as CoalGrade | null;
+    if (grade === null) {
+      grade = largestGrade(pairBalances, defaultGrades.get(Number(event['contractor_id']))!);
+      assigned.set(grade, [...(assigned.get(grade) ?? []), Number(event['id'])]);
+    }
+
+    const tonnage = parseFloat(event['tonnage'] as string);
+    pairBalances.set(grade, (pairBalances.get(grade) ?? 0) + (event['kind'] === 'production' ? tonnage : -tonnage));
+  }
+
+  let updated = 0;
+  for (const [grade, ids] of assigned) {
+    const result = await tx.execute(sql`
+      UPDATE barging_records SET coal_grade = ${grade} WHERE id = ANY(${`{${ids.join(',')}}`}::int[])
+    `);
+    updated += result.rowCount ?? 0;
+  }
+  return updated;
+};
+
+// Splits every ungraded stock row by the graded production minus barging of its contractor and jetty.
+// Returns the ids of the rows that now hold part of a split, whose movements need new running balances.
+const splitStockByGrade = async (tx: Transaction, defaultGrades: Map<number, CoalGrade>): Promise<number[]> => {
+  const stockRows = await tx.execute(sql`
+    SELECT id, contractor_id, jetty_id, tonnage, last_updated FROM stock WHERE coal_grade IS NULL
+  `);
+  if (stockRows.rows.length === 0) {
+    return [];
+  }
+
+  const netRows = await tx.execute(sql`
+    SELECT contractor_id, jetty_id, coal_grade, sum(tonnage) AS net
+    FROM (
+      SELECT contractor_id, jetty_id, coal_grade, tonnage FROM production_records
+      UNION ALL
+      SELECT contractor_id, jetty_id, coal_grade, -tonnage FROM barging_records
+    ) AS records
+    GROUP BY contractor_id, jetty_id, coal_grade
+  `);
+
+  const nets = new Map<string, Map<CoalGrade, number>>();
+  for (const row of netRows.rows) {
+    const key = pairKey(row['contractor_id'], row['jetty_id']);
+    const pairNets = nets.get(key) ?? new Map<CoalGrade, number>();
+    pairNets.set(row['coal_grade'] as CoalGrade, parseFloat(row['net'] as string));
+    nets.set(key, pairNets);
+  }
+
+  const splitIds: number[] = [];
+  for (const stock of stockRows.rows) {
+    const defaultGrade = defaultGrades.get(Number(stock['contractor_id']))!;
+    const pairNets = nets.get(pairKey(stock['contractor_id'], stock['jetty_id'])) ?? new Map<CoalGrade, number>();
+    const keptGrade = largestGrade(pairNets, defaultGrade);
+
+    const splitFrom = splitIds.length;
+    let splitOff = 0;
+    for (const [grade, net] of pairNets) {
+      if (grade === keptGrade) {
+        continue;
+      }
+
+      const created = await tx.execute(sql`
+        INSERT INTO stock (contractor_id, jetty_id, coal_grade, tonnage, last_updated)
+        VALUES (${stock['contractor_id']}, ${stock['jetty_id']}, ${grade}, ${roundTons(net).toString()}, ${stock['last_updated']})
+        RETURNING id
+      `);
+      splitIds.push(Number(created.rows[0]['id']));
+      splitOff += net;
+    }
+
+    await tx.execute(sql`
+      UPDATE stock SET coal_grade = ${keptGrade}, tonnage = ${roundTons(parseFloat(stock['tonnage'] as string) - splitOff).toString()}
+      WHERE id = ${stock['id']}
+    `);
+    if (splitIds.length > splitFrom) {
+      splitIds.push(Number(stock['id']));
+    }
+  }
+  return splitIds;
+};
+
+// Production and barging movements take their record's grade and move to that grade's stock row;
+// adjustments stay on the row they were made to
+const gradeStockMovements = async (tx: Transaction, splitIds: number[]): Promise<number> => {
+  const updated = await tx.execute(sql`
+    UPDATE stock_movements SET coal_grade = graded.coal_grade, stock_id = stock.id
+    FROM (
+      SELECT movements.id, COALESCE(production_records.coal_grade, barging_records.coal_grade, origin.coal_grade) AS coal_grade
+      FROM stock_movements AS movements
+      JOIN stock AS origin ON origin.id = movements.stock_id
+      LEFT JOIN production_records
+        ON movements.movement_type = 'production' AND production_records.id = movements.reference_id
+      LEFT JOIN barging_records
+        ON movements.movement_type = 'barging' AND barging_records.id = movements.reference_id
+      WHERE movements.coal_grade IS NULL
+    ) AS graded, stock
+    WHERE stock_movements.id = graded.id
+      AND stock.contractor_id = stock_movements.contractor_id
+      AND stock.jetty_id = stock_movements.jetty_id
+      AND stock.coal_grade = graded.coal_grade
+  `);
+
+  if (splitIds.length > 0) {
+    await tx.execute(sql`
+      UPDATE stock_movements SET balance_after = running.balance
+      FROM (
+        SELECT id, sum(change) OVER (PARTITION BY stock_id ORDER BY id) AS balance
+        FROM stock_movements WHERE stock_id = ANY(${`{${splitIds.join(',')}}`}::int[])
+      ) AS running
+      WHERE stock_movements.id = running.id
+    `);
+  }
+  return updated.rowCount ?? 0;
+};
+
+const main = async (): Promise<number> => {
+  if (!(await tableExists('contractors')) || !(await tableExists('production_records'))) {
+    console.log('No contractors or production records table yet; nothing to migrate');
+    return 0;
+  }
+
+  const tables: string[] = [];
+  for (const table of GRADED_TABLES) {
+    if (await tableExists(table)) {
+      tables.push(table);
+    }
+  }
+
+  await db.transaction(async (tx) => {
+    for (const table of tables) {
+      await tx.execute(sql.raw(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS coal_grade coal_grade`));
+    }
+    const defaultGrades = await getDefaultGrades(tx);
+
+    if (tables.includes('barging_records')) {
+      const graded = await gradeBargingRecords(tx, defaultGrades);
+      console.log(`barging_records.coal_grade: ${graded} rows backfilled`);
+    }
+
+    if (tables.includes('stock')) {
+      // Stock is now unique per grade. Swapped here, around the split, because the push would offer to
+      // truncate the table. Only the pre-grade key is replaced, so later keys are left alone.
+      const previousKey = await tx.execute(sql`
+        SELECT 1 FROM pg_constraint WHERE conname = 'stock_contractor_jetty_unique'
+      `);
+      if (previousKey.rows.length > 0) {
+        await tx.execute(sql`ALTER TABLE stock DROP CONSTRAINT stock_contractor_jetty_unique`);
+      }
+
+      const splitIds = await splitStockByGrade(tx, defaultGrades);
+      console.log(`stock.coal_grade: ${splitIds.length} rows now hold part of a split balance`);
+
+      if (previousKey.rows.length > 0) {
+        await tx.execute(sql`
+          ALTER TABLE stock ADD CONSTRAINT stock_contractor_jetty_grade_unique UNIQUE (contractor_id, jetty_id, coal_grade)
+        `);
+        console.log('stock: unique key now includes the coal grade');
+      }
+
+      if (tables.includes('stock_movements')) {
+        const graded = await gradeStockMovements(tx, splitIds);
+        console.log(`stock_movements.coal_grade: ${graded} rows backfilled`);
+      }
+    }
+
+    for (const table of tables) {
+      await tx.execute(sql.raw(`ALTER TABLE ${table} ALTER COLUMN coal_grade SET NOT NULL`));
+    }
+  });
+
+  return 0;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(2);
+  });
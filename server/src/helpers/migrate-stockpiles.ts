@@ -0,0 +1,87 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+
+// Usage: bun src/helpers/migrate-stockpiles.ts
+// Runs before db:push on databases created before stockpiles existed: gives every jetty its DEFAULT
+// stockpile and points existing records at it, so the push can add the NOT NULL stockpile columns.
+// Safe to run repeatedly; does nothing on an empty database.
+const STOCKPILE_COLUMNS: Array<{ table: string; column: string; jettyColumn: string }> = [
+  { table: 'production_records', column: 'stockpile_id', jettyColumn: 'jetty_id' },
+  { table: 'barging_records', column: 'stockpile_id', jettyColumn: 'jetty_id' },
+  { table: 'stock', column: 'stockpile_id', jettyColumn: 'jetty_id' },
+  { table: 'stock_movements', column: 'stockpile_id', jettyColumn: 'jetty_id' },
+  { table: 'stock_transfers', column: 'source_stockpile_id', jettyColumn: 'source_jetty_id' },
+  { table: 'stock_transfers', column: 'destination_stockpile_id', jettyColumn: 'destination_jetty_id' }
+];
+
+const tableExists = async (table: string): Promise<boolean> => {
+  const result = await db.execute(sql`SELECT to_regclass(${table}) AS name`);
+  return result.rows[0]['name'] !== null;
+};
+
+const main = async (): Promise<number> => {
+  if (!(await tableExists('jetties'))) {
+    console.log('No jetties table yet; nothing to migrate');
+    return 0;
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS stockpiles (
+        id serial PRIMARY KEY,
+        jetty_id integer NOT NULL,
+        code varchar(50) NOT NULL,
+        capacity numeric(12, 2) NOT NULL,
+        coal_grade coal_grade,
+        is_active boolean NOT NULL DEFAULT true,
+        created_at timestamp NOT NULL DEFAULT now(),
+        updated_at timestamp NOT NULL DEFAULT now(),
+        CONSTRAINT stockpile_jetty_code_unique UNIQUE (jetty_id, code)
+      )
+    `);
+
+    const created = await tx.execute(sql`
+      INSERT INTO stockpiles (jetty_id, code, capacity)
+      SELECT id, 'DEFAULT', capacity FROM jetties
+      ON CONFLICT ON CONSTRAINT stockpile_jetty_code_unique DO NOTHING
+    `);
+    console.log(`Created ${created.rowCount ?? 0} default stockpiles`);
+
+    for (const { table, column, jettyColumn } of STOCKPILE_COLUMNS) {
+      if (!(await tableExists(table))) {
+        continue;
+      }
+
+      await tx.execute(sql.raw(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS ${column} integer`));
+      const updated = await tx.execute(sql.raw(`
+        UPDATE ${table} SET ${column} = stockpiles.id
+        FROM stockpiles
+        WHERE ${table}.${column} IS NULL
+          AND stockpiles.jetty_id = ${table}.${jettyColumn}
+          AND stockpiles.code = 'DEFAULT'
+      `));
+      await tx.execute(sql.raw(`ALTER TABLE ${table} ALTER COLUMN ${column} SET NOT NULL`));
+      console.log(`${table}.${column}: ${updated.rowCount ?? 0} rows moved to the default stockpile`);
+    }
+
+    // Stock is now unique per stockpile. Swapped here because the push would offer to truncate the table.
+    if (await tableExists('stock')) {
+      await tx.execute(sql`ALTER TABLE stock DROP CONSTRAINT IF EXISTS stock_contractor_jetty_grade_unique`);
+      await tx.execute(sql`
+        DO $$ BEGIN
+          ALTER TABLE stock ADD CONSTRAINT stock_contractor_stockpile_grade_unique UNIQUE (contractor_id, stockpile_id, coal_grade);
+        EXCEPTION WHEN duplicate_table OR duplicate_object THEN NULL;
+        END $$
+      `);
+    }
+  });
+
+  return 0;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(2);
+  });
@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { writeOpeningBalances } from '../handlers/ledger';
+import { eq, asc, sql } from 'drizzle-orm';
+
+// Usage: bun src/helpers/open-ledger.ts
+// Runs after db:push: gives stock that predates the movement ledger its opening balance movement, so
+// point-in-time balances, the dashboard and the movement report include it. Attributed to the first admin.
+// Safe to run repeatedly; does nothing on an empty database.
+const main = async (): Promise<number> => {
+  const stockRows = await db.execute(sql`SELECT count(*)::int AS count FROM stock`);
+  if (stockRows.rows[0]['count'] === 0) {
+    console.log('No stock yet; no opening balances to write');
+    return 0;
+  }
+
+  const admins = await db.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(eq(usersTable.role, 'admin'))
+    .orderBy(asc(usersTable.id))
+    .limit(1)
+    .execute();
+
+  if (admins.length === 0) {
+    console.error('Opening balances are attributed to an admin, and there is none');
+    return 2;
+  }
+
+  const opened = await writeOpeningBalances(admins[0].id);
+  console.log(`Wrote ${opened} opening balance movements`);
+
+  return 0;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(2);
+  });
@@ -0,0 +1,63 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { reconcileStockInputSchema } from '../schema';
+import { reconcileStock } from '../handlers/reconciliation';
+import { eq, and } from 'drizzle-orm';
+
+// Usage: bun src/helpers/reconcile.ts [--contractor <id>] [--jetty <id>] [--apply --admin-email <email>]
+// Without --apply nothing is written; exits 1 when discrepancies remain uncorrected.
+const argValue = (name: string): string | undefined => {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const optionalId = (name: string): number | undefined => {
+  const value = argValue(name);
+  return value === undefined ? undefined : parseInt(value);
+};
+
+const main = async (): Promise<number> => {
+  const input = reconcileStockInputSchema.parse({
+    apply: process.argv.includes('--apply'),
+    contractor_id: optionalId('--contractor'),
+    jetty_id: optionalId('--jetty')
+  });
+
+  // Corrections are attributed to a named admin; a dry run needs no user
+  let actorId = 0;
+  if (input.apply) {
+    const email = argValue('--admin-email');
+    if (!email) {
+      console.error('--admin-email is required with --apply');
+      return 2;
+    }
+    const admins = await db.select()
+      .from(usersTable)
+      .where(and(eq(usersTable.email, email), eq(usersTable.role, 'admin'), eq(usersTable.is_active, true)))
+      .execute();
+    if (admins.length === 0) {
+      console.error(`No active admin with email ${email}`);
+      return 2;
+    }
+    actorId = admins[0].id;
+  }
+
+  const result = await reconcileStock(input, { user_id: actorId, ip_address: null, user_agent: 'stock-reconcile-cli' });
+
+  console.log(`Checked ${result.checked_balances} contractor/stockpile/grade balances, ${result.discrepancies.length} discrepancies`);
+  for (const discrepancy of result.discrepancies) {
+    const outcome = discrepancy.adjustment_id !== null
+      ? `corrected by adjustment #${discrepancy.adjustment_id}`
+      : discrepancy.note ?? 'not corrected';
+    console.log(`  ${discrepancy.contractor_name} @ ${discrepancy.jetty_name}/${discrepancy.stockpile_code} (${discrepancy.coal_grade}): recorded ${discrepancy.recorded_tonnage}, expected ${discrepancy.expected_tonnage} (${discrepancy.difference > 0 ? '+' : ''}${discrepancy.difference}) - ${outcome}`);
+  }
+
+  return result.discrepancies.some(discrepancy => discrepancy.adjustment_id === null) ? 1 : 0;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(2);
+  });
@@ -0,0 +1,88 @@
+import { readFileSync } from 'fs';
+import { createInterface } from 'readline';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type WeighbridgeFeedResult, type RequestActor, type PermissionScope } from '../schema';
+import { receiveWeighbridgeFeed } from '../handlers/weighbridge';
+import { getPermissionScope, hasAnyScope } from '../handlers/permissions';
+import { eq, and } from 'drizzle-orm';
+
+// Usage: bun src/helpers/weighbridge-feed.ts --jetty <id> --operator-email <email> [--stockpile <id>] [file]
+// Reads ticket lines (see parseWeighbridgeLine) from a dropped file, or line by line from stdin when no
+// file is given, so a serial port or TCP socket can be piped in: nc -l 4001 | bun src/helpers/weighbridge-feed.ts ...
+// Exits 1 when any line was rejected.
+const argValue = (name: string): string | undefined => {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const OPTIONS_WITH_VALUES = ['--jetty', '--operator-email', '--stockpile'];
+
+const fileArgument = (): string | undefined => {
+  const args = process.argv.slice(2);
+  return args.find((arg, index) => !arg.startsWith('--') && !OPTIONS_WITH_VALUES.includes(args[index - 1]));
+};
+
+const printResult = (result: WeighbridgeFeedResult): void => {
+  for (const line of result.lines) {
+    const detail = line.outcome === 'rejected'
+      ? line.error
+      : `${line.ticket?.net_tonnage} tons${line.ticket?.pending_reason ? ` - ${line.ticket.pending_reason}` : ''}`;
+    console.log(`  line ${line.line_number} ${line.ticket_number ?? '-'}: ${line.outcome} (${detail})`);
+  }
+};
+
+const main = async (): Promise<number> => {
+  const jettyId = argValue('--jetty');
+  const email = argValue('--operator-email');
+  const stockpileId = argValue('--stockpile');
+  if (!jettyId || !email) {
+    console.error('--jetty and --operator-email are required');
+    return 2;
+  }
+
+  const operators = await db.select()
+    .from(usersTable)
+    .where(and(eq(usersTable.email, email), eq(usersTable.is_active, true)))
+    .execute();
+  if (operators.length === 0) {
+    console.error(`No active user with email ${email}`);
+    return 2;
+  }
+
+  const scope: PermissionScope = await getPermissionScope(operators[0], 'production.create');
+  if (!hasAnyScope(scope)) {
+    console.error(`${email} may not record production`);
+    return 2;
+  }
+
+  const actor: RequestActor = { user_id: operators[0].id, ip_address: null, user_agent: 'weighbridge-feed-cli' };
+  const feed = (content: string) => receiveWeighbridgeFeed({
+    jetty_id: parseInt(jettyId),
+    stockpile_id: stockpileId === undefined ? undefined : parseInt(stockpileId),
+    content
+  }, actor, scope);
+
+  const file = fileArgument();
+  if (file !== undefined) {
+    const result = await feed(readFileSync(file, 'utf8'));
+    console.log(`${result.recorded} recorded, ${result.pending} pending, ${result.rejected} rejected`);
+    printResult(result);
+    return result.rejected > 0 ? 1 : 0;
+  }
+
+  let rejected = 0;
+  for await (const line of createInterface({ input: process.stdin })) {
+    const result = await feed(line);
+    rejected += result.rejected;
+    printResult(result);
+  }
+  return rejected > 0 ? 1 : 0;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(2);
+  });
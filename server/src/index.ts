@@ -1,31 +1,119 @@
-import { initTRPC } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
 import { z } from 'zod';
+import {
+  router,
+  createContext,
+  publicProcedure,
+  authenticatedProcedure,
+  protectedProcedure,
+  adminProcedure,
+  permissionProcedure
+} from './trpc';
 
 // Import schemas
 import {
   loginInputSchema,
+  changeOwnPasswordInputSchema,
+  verifySecondFactorInputSchema,
+  totpCodeInputSchema,
   createUserInputSchema,
   createJettyInputSchema,
   updateJettyInputSchema,
+  createStockpileInputSchema,
+  updateStockpileInputSchema,
   createContractorInputSchema,
+  createTruckInputSchema,
+  updateTruckInputSchema,
+  truckFilterSchema,
   updateContractorInputSchema,
   createProductionRecordInputSchema,
+  flaggedProductionFilterSchema,
+  reviewFlaggedProductionInputSchema,
+  voidRecordInputSchema,
+  correctProductionRecordInputSchema,
+  correctBargingRecordInputSchema,
+  createVesselInputSchema,
+  updateVesselInputSchema,
+  createShipmentInputSchema,
+  updateShipmentInputSchema,
+  updateShipmentStatusInputSchema,
+  shipmentFilterSchema,
+  createBuyerInputSchema,
+  updateBuyerInputSchema,
+  createSalesContractInputSchema,
+  updateSalesContractInputSchema,
+  salesContractFilterSchema,
+  setLaytimeTermsInputSchema,
+  recordLaytimeEventInputSchema,
+  weighbridgeReadingInputSchema,
+  weighbridgeFeedInputSchema,
+  completeWeighbridgeTicketInputSchema,
+  weighbridgeTicketFilterSchema,
   createBargingRecordInputSchema,
   createStockAdjustmentInputSchema,
+  rejectStockAdjustmentInputSchema,
+  stockLedgerFilterSchema,
+  reconcileStockInputSchema,
+  coalGradeSchema,
+  createStockTransferInputSchema,
+  receiveStockTransferInputSchema,
+  stockTransferFilterSchema,
+  createStockpileSurveyInputSchema,
+  surveyVarianceFilterSchema,
+  createDraftSurveyInputSchema,
+  draftSurveyFilterSchema,
+  recordQualitySampleInputSchema,
+  qualitySampleFilterSchema,
+  weightedQualityInputSchema,
+  adjustmentStatusSchema,
   createFuelPurchaseInputSchema,
   createFuelUsageInputSchema,
   stockFilterSchema,
-  auditLogFilterSchema
+  auditLogFilterSchema,
+  createPermissionGrantInputSchema,
+  updatePermissionGrantInputSchema
 } from './schema';
 
 // Import handlers
-import { login, verifyToken, refreshToken } from './handlers/auth';
-import { createUser, getUsers, getUserById, updateUser, deactivateUser, getUsersByRole } from './handlers/users';
-import { createJetty, getJetties, getActiveJetties, getJettyById, updateJetty } from './handlers/jetties';
+import { 
+  login, 
+  verifySecondFactor, 
+  verifyToken, 
+  refreshToken, 
+  logout, 
+  logoutAllSessions, 
+  getActiveSessions 
+} from './handlers/auth';
+import {
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  regenerateRecoveryCodes,
+  disableTotp,
+  getTwoFactorStatus
+} from './handlers/totp';
+import { 
+  createUser, 
+  getUsers, 
+  getUserById, 
+  updateUser, 
+  updateUserPassword, 
+  adminResetPassword, 
+  resetTwoFactor, 
+  deactivateUser, 
+  unlockUser, 
+  getUsersByRole 
+} from './handlers/users';
+import {
+  getEffectivePermissions,
+  getPermissionGrants,
+  createPermissionGrant,
+  updatePermissionGrant,
+  deletePermissionGrant
+} from './handlers/permissions';
+import { createJetty, getJetties, getActiveJetties, getJettyById, updateJetty, getJettyUtilisation } from './handlers/jetties';
+import { createStockpile, updateStockpile, getStockpiles } from './handlers/stockpiles';
 import { 
   createContractor, 
   getContractors, 
@@ -33,18 +121,53 @@ import {
   updateContractor, 
   deleteContractor 
 } from './handlers/contractors';
+import { createTruck, updateTruck, getTrucks } from './handlers/trucks';
+import { createVessel, updateVessel, getVessels } from './handlers/vessels';
+import {
+  setLaytimeTerms,
+  recordLaytimeEvent,
+  removeLaytimeEvent,
+  getStatementOfFacts,
+  calculateLaytime
+} from './handlers/laytime';
+import {
+  createShipment,
+  updateShipment,
+  updateShipmentStatus,
+  getShipments,
+  getShipmentProgress
+} from './handlers/shipments';
+import { createBuyer, updateBuyer, getBuyers } from './handlers/buyers';
+import {
+  createSalesContract,
+  updateSalesContract,
+  getSalesContracts,
+  getContractFulfilment
+} from './handlers/contracts';
 import {
   createProductionRecord,
   getProductionRecords,
   getProductionRecordById,
-  getDailyProductionSummary
+  getDailyProductionSummary,
+  getFlaggedProduction,
+  reviewFlaggedProduction,
+  voidProductionRecord,
+  correctProductionRecord
 } from './handlers/production';
+import {
+  receiveWeighbridgeReading,
+  receiveWeighbridgeFeed,
+  completeWeighbridgeTicket,
+  getWeighbridgeTickets
+} from './handlers/weighbridge';
 import {
   createBargingRecord,
   getBargingRecords,
   getBargingRecordById,
   validateStockForBarging,
-  getDailyBargingSummary
+  getDailyBargingSummary,
+  voidBargingRecord,
+  correctBargingRecord
 } from './handlers/barging';
 import {
   getStock,
@@ -53,8 +176,26 @@ import {
   getTotalStock,
   createStockAdjustment,
   getStockAdjustments,
-  approveStockAdjustment
+  approveStockAdjustment,
+  rejectStockAdjustment,
+  getBalanceAt,
+  getStockLedger
 } from './handlers/stock';
+import { reconcileStock } from './handlers/reconciliation';
+import { createStockTransfer, receiveStockTransfer, getStockTransfers } from './handlers/transfers';
+import {
+  recordStockpileSurvey,
+  getSurveyVarianceHistory,
+  recordDraftSurvey,
+  acceptDraftSurvey,
+  getDraftSurveys
+} from './handlers/surveys';
+import {
+  recordQualitySample,
+  getQualitySamples,
+  getStockpileQuality,
+  getWeightedQuality
+} from './handlers/quality';
 import {
   createFuelPurchase,
   createFuelUsage,
@@ -81,21 +222,18 @@ import {
 import {
   generateStockReport,
   generateProductionReport,
+  generateTruckReport,
   generateBargingReport,
+  generateLaytimeReport,
+  generateLaytimeStatement,
   generateFuelReport,
   generateContractorReport,
   generateMovementReport,
+  generateSurveyVarianceReport,
   generateExecutiveSummary
 } from './handlers/reports';
 
-const t = initTRPC.create({
-  transformer: superjson,
-});
-
-const publicProcedure = t.procedure;
-const router = t.router;
-
-const appRouter = router({
+export const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
@@ -105,26 +243,47 @@ const appRouter = router({
   auth: router({
     login: publicProcedure
       .input(loginInputSchema)
-      .mutation(({ input }) => login(input)),
+      .mutation(({ input, ctx }) => login(input, ctx.client)),
+    verifySecondFactor: publicProcedure
+      .input(verifySecondFactorInputSchema)
+      .mutation(({ input, ctx }) => verifySecondFactor(input, ctx.client)),
     verifyToken: publicProcedure
       .input(z.object({ token: z.string() }))
       .query(({ input }) => verifyToken(input.token)),
     refreshToken: publicProcedure
       .input(z.object({ refreshToken: z.string() }))
-      .mutation(({ input }) => refreshToken(input.refreshToken)),
+      .mutation(({ input, ctx }) => refreshToken(input.refreshToken, ctx.client)),
+    logout: authenticatedProcedure
+      .input(z.object({ refreshToken: z.string() }))
+      .mutation(({ input, ctx }) => logout(input.refreshToken, ctx.actor)),
+    logoutAllSessions: authenticatedProcedure
+      .mutation(({ ctx }) => logoutAllSessions(ctx.actor)),
+    getTwoFactorStatus: authenticatedProcedure
+      .query(({ ctx }) => getTwoFactorStatus(ctx.actor.user_id)),
+    beginTotpEnrollment: authenticatedProcedure
+      .mutation(({ ctx }) => beginTotpEnrollment(ctx.actor)),
+    confirmTotpEnrollment: authenticatedProcedure
+      .input(totpCodeInputSchema)
+      .mutation(({ input, ctx }) => confirmTotpEnrollment(input.code, ctx.actor)),
+    regenerateRecoveryCodes: protectedProcedure
+      .input(totpCodeInputSchema)
+      .mutation(({ input, ctx }) => regenerateRecoveryCodes(input.code, ctx.actor)),
+    disableTotp: protectedProcedure
+      .input(totpCodeInputSchema)
+      .mutation(({ input, ctx }) => disableTotp(input.code, ctx.actor)),
   }),
 
   // User management
   users: router({
-    create: publicProcedure
+    create: adminProcedure
       .input(createUserInputSchema)
-      .mutation(({ input }) => createUser(input)),
-    getAll: publicProcedure
+      .mutation(({ input, ctx }) => createUser(input, ctx.actor)),
+    getAll: adminProcedure
       .query(() => getUsers()),
-    getById: publicProcedure
+    getById: adminProcedure
       .input(z.object({ id: z.number() }))
       .query(({ input }) => getUserById(input.id)),
-    update: publicProcedure
+    update: adminProcedure
       .input(z.object({ 
         id: z.number(), 
         updates: z.object({
@@ -135,145 +294,376 @@ const appRouter = router({
           is_active: z.boolean().optional()
         }) 
       }))
-      .mutation(({ input }) => updateUser(input.id, input.updates)),
-    deactivate: publicProcedure
-      .input(z.object({ id: z.number(), deactivatedBy: z.number() }))
-      .mutation(({ input }) => deactivateUser(input.id, input.deactivatedBy)),
-    getByRole: publicProcedure
+      .mutation(({ input, ctx }) => updateUser(input.id, input.updates, ctx.actor)),
+    deactivate: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input, ctx }) => deactivateUser(input.id, ctx.actor)),
+    changeOwnPassword: authenticatedProcedure
+      .input(changeOwnPasswordInputSchema)
+      .mutation(({ input, ctx }) => updateUserPassword(ctx.actor.user_id, input.current_password, input.new_password, ctx.client)),
+    adminResetPassword: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input, ctx }) => adminResetPassword(input.id, ctx.actor)),
+    resetTwoFactor: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input, ctx }) => resetTwoFactor(input.id, ctx.actor)),
+    unlock: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input, ctx }) => unlockUser(input.id, ctx.actor)),
+    getByRole: adminProcedure
       .input(z.object({ role: z.enum(['admin', 'operator_produksi', 'operator_barging', 'auditor', 'viewer']) }))
       .query(({ input }) => getUsersByRole(input.role)),
+    getSessions: adminProcedure
+      .input(z.object({ userId: z.number() }))
+      .query(({ input }) => getActiveSessions(input.userId)),
+  }),
+
+  // Permission grants
+  permissions: router({
+    getMine: protectedProcedure
+      .query(({ ctx }) => getEffectivePermissions(ctx.user.id)),
+    getEffective: adminProcedure
+      .input(z.object({ userId: z.number() }))
+      .query(({ input }) => getEffectivePermissions(input.userId)),
+    getGrants: adminProcedure
+      .input(z.object({ userId: z.number().optional() }))
+      .query(({ input }) => getPermissionGrants(input.userId)),
+    createGrant: adminProcedure
+      .input(createPermissionGrantInputSchema)
+      .mutation(({ input, ctx }) => createPermissionGrant(input, ctx.actor)),
+    updateGrant: adminProcedure
+      .input(updatePermissionGrantInputSchema)
+      .mutation(({ input, ctx }) => updatePermissionGrant(input, ctx.actor)),
+    deleteGrant: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input, ctx }) => deletePermissionGrant(input.id, ctx.actor)),
   }),
 
   // Jetty management
   jetties: router({
-    create: publicProcedure
+    create: adminProcedure
       .input(createJettyInputSchema)
       .mutation(({ input }) => createJetty(input)),
-    getAll: publicProcedure
+    getAll: protectedProcedure
       .query(() => getJetties()),
-    getActive: publicProcedure
+    getActive: protectedProcedure
       .query(() => getActiveJetties()),
-    getById: publicProcedure
+    getById: protectedProcedure
       .input(z.object({ id: z.number() }))
       .query(({ input }) => getJettyById(input.id)),
-    update: publicProcedure
+    update: adminProcedure
       .input(updateJettyInputSchema)
       .mutation(({ input }) => updateJetty(input)),
+    getStockpiles: permissionProcedure('stock.view')
+      .input(z.object({ jettyId: z.number() }))
+      .query(({ input, ctx }) => getStockpiles(input.jettyId, ctx.scope)),
+    createStockpile: adminProcedure
+      .input(createStockpileInputSchema)
+      .mutation(({ input }) => createStockpile(input)),
+    updateStockpile: adminProcedure
+      .input(updateStockpileInputSchema)
+      .mutation(({ input }) => updateStockpile(input)),
+    getUtilisation: permissionProcedure('stock.view')
+      .query(({ ctx }) => getJettyUtilisation(ctx.scope)),
   }),
 
   // Contractor management
   contractors: router({
-    create: publicProcedure
+    create: adminProcedure
       .input(createContractorInputSchema)
       .mutation(({ input }) => createContractor(input)),
-    getAll: publicProcedure
+    getAll: protectedProcedure
       .query(() => getContractors()),
-    getById: publicProcedure
+    getById: protectedProcedure
       .input(z.object({ id: z.number() }))
       .query(({ input }) => getContractorById(input.id)),
-    update: publicProcedure
+    update: adminProcedure
       .input(updateContractorInputSchema)
       .mutation(({ input }) => updateContractor(input)),
-    delete: publicProcedure
-      .input(z.object({ id: z.number(), deletedBy: z.number() }))
-      .mutation(({ input }) => deleteContractor(input.id, input.deletedBy)),
+    delete: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input, ctx }) => deleteContractor(input.id, ctx.actor)),
+  }),
+
+  // Truck registry
+  trucks: router({
+    create: adminProcedure
+      .input(createTruckInputSchema)
+      .mutation(({ input }) => createTruck(input)),
+    update: adminProcedure
+      .input(updateTruckInputSchema)
+      .mutation(({ input }) => updateTruck(input)),
+    getAll: protectedProcedure
+      .input(truckFilterSchema.optional())
+      .query(({ input }) => getTrucks(input)),
   }),
 
   // Production records
   production: router({
-    create: publicProcedure
+    create: permissionProcedure('production.create')
       .input(createProductionRecordInputSchema)
-      .mutation(({ input }) => createProductionRecord(input)),
-    getAll: publicProcedure
+      .mutation(({ input, ctx }) => createProductionRecord(input, ctx.actor, ctx.scope)),
+    getAll: permissionProcedure('production.view')
       .input(z.object({ 
         dateFrom: z.coerce.date().optional(),
         dateTo: z.coerce.date().optional(),
         contractorId: z.number().optional(),
         jettyId: z.number().optional()
       }))
-      .query(({ input }) => getProductionRecords(input.dateFrom, input.dateTo, input.contractorId, input.jettyId)),
-    getById: publicProcedure
+      .query(({ input, ctx }) => getProductionRecords(input.dateFrom, input.dateTo, input.contractorId, input.jettyId, ctx.scope)),
+    getById: permissionProcedure('production.view')
       .input(z.object({ id: z.number() }))
-      .query(({ input }) => getProductionRecordById(input.id)),
-    getDailySummary: publicProcedure
+      .query(({ input, ctx }) => getProductionRecordById(input.id, ctx.scope)),
+    getDailySummary: permissionProcedure('production.view')
       .input(z.object({ date: z.coerce.date() }))
-      .query(({ input }) => getDailyProductionSummary(input.date)),
+      .query(({ input, ctx }) => getDailyProductionSummary(input.date, ctx.scope)),
+    getFlagged: permissionProcedure('production.review')
+      .input(flaggedProductionFilterSchema.optional())
+      .query(({ input, ctx }) => getFlaggedProduction(input, ctx.scope)),
+    reviewFlagged: permissionProcedure('production.review')
+      .input(reviewFlaggedProductionInputSchema)
+      .mutation(({ input, ctx }) => reviewFlaggedProduction(input, ctx.actor, ctx.scope)),
+    void: permissionProcedure('production.correct')
+      .input(voidRecordInputSchema)
+      .mutation(({ input, ctx }) => voidProductionRecord(input, ctx.actor, ctx.scope)),
+    correct: permissionProcedure('production.correct')
+      .input(correctProductionRecordInputSchema)
+      .mutation(({ input, ctx }) => correctProductionRecord(input, ctx.actor, ctx.scope)),
+  }),
+
+  // Weighbridge tickets, recorded as production at their net weight
+  weighbridge: router({
+    receiveReading: permissionProcedure('production.create')
+      .input(weighbridgeReadingInputSchema)
+      .mutation(({ input, ctx }) => receiveWeighbridgeReading(input, ctx.actor, ctx.scope)),
+    receiveFeed: permissionProcedure('production.create')
+      .input(weighbridgeFeedInputSchema)
+      .mutation(({ input, ctx }) => receiveWeighbridgeFeed(input, ctx.actor, ctx.scope)),
+    completeTicket: permissionProcedure('production.create')
+      .input(completeWeighbridgeTicketInputSchema)
+      .mutation(({ input, ctx }) => completeWeighbridgeTicket(input, ctx.actor, ctx.scope)),
+    getTickets: permissionProcedure('production.view')
+      .input(weighbridgeTicketFilterSchema.optional())
+      .query(({ input, ctx }) => getWeighbridgeTickets(input, ctx.scope)),
   }),
 
   // Barging records
   barging: router({
-    create: publicProcedure
+    create: permissionProcedure('barging.create')
       .input(createBargingRecordInputSchema)
-      .mutation(({ input }) => createBargingRecord(input)),
-    getAll: publicProcedure
+      .mutation(({ input, ctx }) => createBargingRecord(input, ctx.actor, ctx.scope)),
+    getAll: permissionProcedure('barging.view')
       .input(z.object({ 
         dateFrom: z.coerce.date().optional(),
         dateTo: z.coerce.date().optional(),
         contractorId: z.number().optional(),
         jettyId: z.number().optional()
       }))
-      .query(({ input }) => getBargingRecords(input.dateFrom, input.dateTo, input.contractorId, input.jettyId)),
-    getById: publicProcedure
+      .query(({ input, ctx }) => getBargingRecords(input.dateFrom, input.dateTo, input.contractorId, input.jettyId, ctx.scope)),
+    getById: permissionProcedure('barging.view')
       .input(z.object({ id: z.number() }))
-      .query(({ input }) => getBargingRecordById(input.id)),
-    validateStock: publicProcedure
+      .query(({ input, ctx }) => getBargingRecordById(input.id, ctx.scope)),
+    validateStock: permissionProcedure('barging.create')
       .input(z.object({ 
         contractorId: z.number(),
         jettyId: z.number(),
-        tonnage: z.number().positive()
+        coalGrade: coalGradeSchema,
+        tonnage: z.number().positive(),
+        stockpileId: z.number().optional()
       }))
-      .query(({ input }) => validateStockForBarging(input.contractorId, input.jettyId, input.tonnage)),
-    getDailySummary: publicProcedure
+      .query(({ input, ctx }) => validateStockForBarging(input.contractorId, input.jettyId, input.coalGrade, input.tonnage, input.stockpileId, ctx.scope)),
+    getDailySummary: permissionProcedure('barging.view')
       .input(z.object({ date: z.coerce.date() }))
-      .query(({ input }) => getDailyBargingSummary(input.date)),
+      .query(({ input, ctx }) => getDailyBargingSummary(input.date, ctx.scope)),
+    void: permissionProcedure('barging.correct')
+      .input(voidRecordInputSchema)
+      .mutation(({ input, ctx }) => voidBargingRecord(input, ctx.actor, ctx.scope)),
+    correct: permissionProcedure('barging.correct')
+      .input(correctBargingRecordInputSchema)
+      .mutation(({ input, ctx }) => correctBargingRecord(input, ctx.actor, ctx.scope)),
+  }),
+
+  // Vessels and the shipments barges are loaded for
+  vessels: router({
+    create: adminProcedure
+      .input(createVesselInputSchema)
+      .mutation(({ input }) => createVessel(input)),
+    update: adminProcedure
+      .input(updateVesselInputSchema)
+      .mutation(({ input }) => updateVessel(input)),
+    getAll: protectedProcedure
+      .query(() => getVessels()),
+  }),
+
+  shipments: router({
+    create: adminProcedure
+      .input(createShipmentInputSchema)
+      .mutation(({ input }) => createShipment(input)),
+    update: adminProcedure
+      .input(updateShipmentInputSchema)
+      .mutation(({ input }) => updateShipment(input)),
+    updateStatus: adminProcedure
+      .input(updateShipmentStatusInputSchema)
+      .mutation(({ input }) => updateShipmentStatus(input)),
+    getAll: permissionProcedure('barging.view')
+      .input(shipmentFilterSchema.optional())
+      .query(({ input, ctx }) => getShipments(input, ctx.scope)),
+    getProgress: permissionProcedure('barging.view')
+      .input(z.object({ id: z.number() }))
+      .query(({ input, ctx }) => getShipmentProgress(input.id, ctx.scope)),
+  }),
+
+  // Buyers and the sales contracts barge loads are delivered against
+  buyers: router({
+    create: adminProcedure
+      .input(createBuyerInputSchema)
+      .mutation(({ input }) => createBuyer(input)),
+    update: adminProcedure
+      .input(updateBuyerInputSchema)
+      .mutation(({ input }) => updateBuyer(input)),
+    getAll: protectedProcedure
+      .query(() => getBuyers()),
+  }),
+
+  contracts: router({
+    create: adminProcedure
+      .input(createSalesContractInputSchema)
+      .mutation(({ input }) => createSalesContract(input)),
+    update: adminProcedure
+      .input(updateSalesContractInputSchema)
+      .mutation(({ input }) => updateSalesContract(input)),
+    getAll: protectedProcedure
+      .input(salesContractFilterSchema.optional())
+      .query(({ input }) => getSalesContracts(input)),
+    getFulfilment: permissionProcedure('barging.view')
+      .input(z.object({ id: z.number() }))
+      .query(({ input, ctx }) => getContractFulfilment(input.id, ctx.scope)),
+  }),
+
+  // Laytime: statement of facts and demurrage/despatch per shipment
+  laytime: router({
+    setTerms: adminProcedure
+      .input(setLaytimeTermsInputSchema)
+      .mutation(({ input }) => setLaytimeTerms(input)),
+    recordEvent: permissionProcedure('barging.create')
+      .input(recordLaytimeEventInputSchema)
+      .mutation(({ input, ctx }) => recordLaytimeEvent(input, ctx.actor, ctx.scope)),
+    removeEvent: permissionProcedure('barging.create')
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input, ctx }) => removeLaytimeEvent(input.id, ctx.actor, ctx.scope)),
+    getStatementOfFacts: permissionProcedure('barging.view')
+      .input(z.object({ shipmentId: z.number() }))
+      .query(({ input, ctx }) => getStatementOfFacts(input.shipmentId, ctx.scope)),
+    calculate: permissionProcedure('barging.view')
+      .input(z.object({ shipmentId: z.number() }))
+      .query(({ input, ctx }) => calculateLaytime(input.shipmentId, ctx.scope)),
   }),
 
   // Stock management
   stock: router({
-    getAll: publicProcedure
+    getAll: permissionProcedure('stock.view')
       .input(stockFilterSchema.optional())
-      .query(({ input }) => getStock(input)),
-    getByContractor: publicProcedure
-      .query(() => getStockByContractor()),
-    getByJetty: publicProcedure
-      .query(() => getStockByJetty()),
-    getTotalStock: publicProcedure
-      .query(() => getTotalStock()),
-    createAdjustment: publicProcedure
+      .query(({ input, ctx }) => getStock(input, ctx.scope)),
+    getByContractor: permissionProcedure('stock.view')
+      .query(({ ctx }) => getStockByContractor(ctx.scope)),
+    getByJetty: permissionProcedure('stock.view')
+      .query(({ ctx }) => getStockByJetty(ctx.scope)),
+    getTotalStock: permissionProcedure('stock.view')
+      .query(({ ctx }) => getTotalStock(ctx.scope)),
+    getBalanceAt: permissionProcedure('stock.view')
+      .input(z.object({
+        contractorId: z.number(),
+        jettyId: z.number(),
+        at: z.coerce.date(),
+        coalGrade: coalGradeSchema.optional()
+      }))
+      .query(({ input, ctx }) => getBalanceAt(input.contractorId, input.jettyId, input.at, input.coalGrade, ctx.scope)),
+    getLedger: permissionProcedure('stock.view')
+      .input(stockLedgerFilterSchema)
+      .query(({ input, ctx }) => getStockLedger(input, ctx.scope)),
+    createAdjustment: permissionProcedure('stock.adjust')
       .input(createStockAdjustmentInputSchema)
-      .mutation(({ input }) => createStockAdjustment(input)),
-    getAdjustments: publicProcedure
+      .mutation(({ input, ctx }) => createStockAdjustment(input, ctx.actor, ctx.scope)),
+    getAdjustments: permissionProcedure('stock.view')
       .input(z.object({
         stockId: z.number().optional(),
         dateFrom: z.coerce.date().optional(),
-        dateTo: z.coerce.date().optional()
-      }))
-      .query(({ input }) => getStockAdjustments(input.stockId, input.dateFrom, input.dateTo)),
-    approveAdjustment: publicProcedure
-      .input(z.object({ 
-        adjustmentId: z.number(),
-        approvedBy: z.number()
+        dateTo: z.coerce.date().optional(),
+        status: adjustmentStatusSchema.optional()
       }))
-      .mutation(({ input }) => approveStockAdjustment(input.adjustmentId, input.approvedBy)),
+      .query(({ input, ctx }) => getStockAdjustments(input.stockId, input.dateFrom, input.dateTo, input.status, ctx.scope)),
+    approveAdjustment: permissionProcedure('stock.approve')
+      .input(z.object({ adjustmentId: z.number() }))
+      .mutation(({ input, ctx }) => approveStockAdjustment(input.adjustmentId, ctx.actor, ctx.scope)),
+    rejectAdjustment: permissionProcedure('stock.approve')
+      .input(rejectStockAdjustmentInputSchema)
+      .mutation(({ input, ctx }) => rejectStockAdjustment(input.adjustmentId, input.reason, ctx.actor, ctx.scope)),
+    reconcile: adminProcedure
+      .input(reconcileStockInputSchema)
+      .mutation(({ input, ctx }) => reconcileStock(input, ctx.actor)),
+    transfer: permissionProcedure('stock.transfer')
+      .input(createStockTransferInputSchema)
+      .mutation(({ input, ctx }) => createStockTransfer(input, ctx.actor, ctx.scope)),
+    receiveTransfer: permissionProcedure('stock.transfer')
+      .input(receiveStockTransferInputSchema)
+      .mutation(({ input, ctx }) => receiveStockTransfer(input, ctx.actor, ctx.scope)),
+    getTransfers: permissionProcedure('stock.view')
+      .input(stockTransferFilterSchema.optional())
+      .query(({ input, ctx }) => getStockTransfers(input, ctx.scope)),
+  }),
+
+  // Stockpile surveys, book vs. surveyed tonnage, and draft surveys of barges and shipments
+  surveys: router({
+    record: permissionProcedure('stock.adjust')
+      .input(createStockpileSurveyInputSchema)
+      .mutation(({ input, ctx }) => recordStockpileSurvey(input, ctx.actor, ctx.scope)),
+    getVarianceHistory: permissionProcedure('stock.view')
+      .input(surveyVarianceFilterSchema.optional())
+      .query(({ input, ctx }) => getSurveyVarianceHistory(input, ctx.scope)),
+    recordDraft: permissionProcedure('barging.create')
+      .input(createDraftSurveyInputSchema)
+      .mutation(({ input, ctx }) => recordDraftSurvey(input, ctx.actor, ctx.scope)),
+    acceptDraft: permissionProcedure('stock.adjust')
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input, ctx }) => acceptDraftSurvey(input.id, ctx.actor, ctx.scope)),
+    getDrafts: permissionProcedure('barging.view')
+      .input(draftSurveyFilterSchema.optional())
+      .query(({ input, ctx }) => getDraftSurveys(input, ctx.scope)),
+  }),
+
+  // Coal quality: laboratory results and tonnage-weighted averages
+  quality: router({
+    recordSample: permissionProcedure('quality.record')
+      .input(recordQualitySampleInputSchema)
+      .mutation(({ input, ctx }) => recordQualitySample(input, ctx.actor, ctx.scope)),
+    getSamples: permissionProcedure('quality.view')
+      .input(qualitySampleFilterSchema.optional())
+      .query(({ input, ctx }) => getQualitySamples(input, ctx.scope)),
+    getStockpileQuality: permissionProcedure('quality.view')
+      .input(z.object({ stockpileId: z.number() }))
+      .query(({ input, ctx }) => getStockpileQuality(input.stockpileId, ctx.scope)),
+    getWeightedAverage: permissionProcedure('quality.view')
+      .input(weightedQualityInputSchema)
+      .query(({ input, ctx }) => getWeightedQuality(input, ctx.scope)),
   }),
 
   // Fuel management
   fuel: router({
-    createPurchase: publicProcedure
+    createPurchase: permissionProcedure('fuel.record')
       .input(createFuelPurchaseInputSchema)
-      .mutation(({ input }) => createFuelPurchase(input)),
-    createUsage: publicProcedure
+      .mutation(({ input, ctx }) => createFuelPurchase(input, ctx.actor, ctx.scope)),
+    createUsage: permissionProcedure('fuel.record')
       .input(createFuelUsageInputSchema)
-      .mutation(({ input }) => createFuelUsage(input)),
-    getPurchases: publicProcedure
+      .mutation(({ input, ctx }) => createFuelUsage(input, ctx.actor)),
+    getPurchases: permissionProcedure('fuel.view')
       .input(z.object({
         dateFrom: z.coerce.date().optional(),
         dateTo: z.coerce.date().optional(),
         jettyId: z.number().optional(),
         supplier: z.string().optional()
       }))
-      .query(({ input }) => getFuelPurchases(input.dateFrom, input.dateTo, input.jettyId, input.supplier)),
-    getUsage: publicProcedure
+      .query(({ input, ctx }) => getFuelPurchases(input.dateFrom, input.dateTo, input.jettyId, input.supplier, ctx.scope)),
+    getUsage: permissionProcedure('fuel.view')
       .input(z.object({
         dateFrom: z.coerce.date().optional(),
         dateTo: z.coerce.date().optional(),
@@ -281,65 +671,65 @@ const appRouter = router({
         operator: z.string().optional()
       }))
       .query(({ input }) => getFuelUsage(input.dateFrom, input.dateTo, input.machineEquipment, input.operator)),
-    getPurchaseById: publicProcedure
+    getPurchaseById: permissionProcedure('fuel.view')
       .input(z.object({ id: z.number() }))
-      .query(({ input }) => getFuelPurchaseById(input.id)),
-    getUsageById: publicProcedure
+      .query(({ input, ctx }) => getFuelPurchaseById(input.id, ctx.scope)),
+    getUsageById: permissionProcedure('fuel.view')
       .input(z.object({ id: z.number() }))
       .query(({ input }) => getFuelUsageById(input.id)),
-    getSummary: publicProcedure
+    getSummary: permissionProcedure('fuel.view')
       .input(z.object({
         dateFrom: z.coerce.date().optional(),
         dateTo: z.coerce.date().optional()
       }))
-      .query(({ input }) => getFuelSummary(input.dateFrom, input.dateTo)),
+      .query(({ input, ctx }) => getFuelSummary(input.dateFrom, input.dateTo, ctx.scope)),
   }),
 
   // Dashboard
   dashboard: router({
-    getStats: publicProcedure
-      .query(() => getDashboardStats()),
-    getRecentActivity: publicProcedure
+    getStats: permissionProcedure('dashboard.view')
+      .query(({ ctx }) => getDashboardStats(ctx.scope)),
+    getRecentActivity: permissionProcedure('dashboard.view')
       .input(z.object({ limit: z.number().default(10) }))
-      .query(({ input }) => getRecentActivity(input.limit)),
-    getKPIMetrics: publicProcedure
+      .query(({ input, ctx }) => getRecentActivity(input.limit, ctx.scope)),
+    getKPIMetrics: permissionProcedure('dashboard.view')
       .input(z.object({
         dateFrom: z.coerce.date().optional(),
         dateTo: z.coerce.date().optional()
       }))
-      .query(({ input }) => getKPIMetrics(input.dateFrom, input.dateTo)),
-    getStockTrends: publicProcedure
+      .query(({ input, ctx }) => getKPIMetrics(input.dateFrom, input.dateTo, ctx.scope)),
+    getStockTrends: permissionProcedure('dashboard.view')
       .input(z.object({ days: z.number().default(30) }))
-      .query(({ input }) => getStockTrends(input.days)),
-    getContractorPerformance: publicProcedure
+      .query(({ input, ctx }) => getStockTrends(input.days, ctx.scope)),
+    getContractorPerformance: permissionProcedure('dashboard.view')
       .input(z.object({
         dateFrom: z.coerce.date().optional(),
         dateTo: z.coerce.date().optional()
       }))
-      .query(({ input }) => getContractorPerformance(input.dateFrom, input.dateTo)),
+      .query(({ input, ctx }) => getContractorPerformance(input.dateFrom, input.dateTo, ctx.scope)),
   }),
 
   // Audit logs
   audit: router({
-    getLogs: publicProcedure
+    getLogs: permissionProcedure('audit.view')
       .input(auditLogFilterSchema.optional())
       .query(({ input }) => getAuditLogs(input)),
-    getById: publicProcedure
+    getById: permissionProcedure('audit.view')
       .input(z.object({ id: z.number() }))
       .query(({ input }) => getAuditLogById(input.id)),
-    getByRecord: publicProcedure
+    getByRecord: permissionProcedure('audit.view')
       .input(z.object({ 
         tableName: z.string(),
         recordId: z.number()
       }))
       .query(({ input }) => getAuditLogsByRecord(input.tableName, input.recordId)),
-    getSummary: publicProcedure
+    getSummary: permissionProcedure('audit.view')
       .input(z.object({
         dateFrom: z.coerce.date().optional(),
         dateTo: z.coerce.date().optional()
       }))
       .query(({ input }) => getAuditSummary(input.dateFrom, input.dateTo)),
-    export: publicProcedure
+    export: permissionProcedure('audit.view')
       .input(z.object({ 
         filter: auditLogFilterSchema.optional(),
         format: z.enum(['csv', 'pdf']).default('csv')
@@ -349,28 +739,47 @@ const appRouter = router({
 
   // Reports
   reports: router({
-    stock: publicProcedure
+    stock: permissionProcedure('reports.export')
       .input(z.object({
         filter: stockFilterSchema.optional(),
         format: z.enum(['csv', 'pdf']).default('csv')
       }))
-      .query(({ input }) => generateStockReport(input.filter, input.format)),
-    production: publicProcedure
+      .query(({ input, ctx }) => generateStockReport(input.filter, input.format, ctx.scope)),
+    production: permissionProcedure('reports.export')
       .input(z.object({
         dateFrom: z.coerce.date().optional(),
         dateTo: z.coerce.date().optional(),
         contractorId: z.number().optional(),
         jettyId: z.number().optional(),
+        truckId: z.number().optional(),
         format: z.enum(['csv', 'pdf']).default('csv')
       }))
-      .query(({ input }) => generateProductionReport(
+      .query(({ input, ctx }) => generateProductionReport(
         input.dateFrom, 
         input.dateTo, 
         input.contractorId, 
         input.jettyId, 
-        input.format
+        input.format,
+        ctx.scope,
+        input.truckId
+      )),
+    trucks: permissionProcedure('reports.export')
+      .input(z.object({
+        dateFrom: z.coerce.date().optional(),
+        dateTo: z.coerce.date().optional(),
+        contractorId: z.number().optional(),
+        jettyId: z.number().optional(),
+        format: z.enum(['csv', 'pdf']).default('csv')
+      }))
+      .query(({ input, ctx }) => generateTruckReport(
+        input.dateFrom,
+        input.dateTo,
+        input.contractorId,
+        input.jettyId,
+        input.format,
+        ctx.scope
       )),
-    barging: publicProcedure
+    barging: permissionProcedure('reports.export')
       .input(z.object({
         dateFrom: z.coerce.date().optional(),
         dateTo: z.coerce.date().optional(),
@@ -378,30 +787,45 @@ const appRouter = router({
         jettyId: z.number().optional(),
         format: z.enum(['csv', 'pdf']).default('csv')
       }))
-      .query(({ input }) => generateBargingReport(
+      .query(({ input, ctx }) => generateBargingReport(
         input.dateFrom, 
         input.dateTo, 
         input.contractorId, 
         input.jettyId, 
-        input.format
+        input.format,
+        ctx.scope
       )),
-    fuel: publicProcedure
+    laytime: permissionProcedure('reports.export')
+      .input(z.object({
+        dateFrom: z.coerce.date().optional(),
+        dateTo: z.coerce.date().optional(),
+        format: z.enum(['csv', 'pdf']).default('csv')
+      }))
+      .query(({ input, ctx }) => generateLaytimeReport(input.dateFrom, input.dateTo, input.format, ctx.scope)),
+    laytimeStatement: permissionProcedure('reports.export')
+      .input(z.object({
+        shipmentId: z.number(),
+        format: z.enum(['csv', 'pdf']).default('csv')
+      }))
+      .query(({ input, ctx }) => generateLaytimeStatement(input.shipmentId, input.format, ctx.scope)),
+    fuel: permissionProcedure('reports.export')
       .input(z.object({
         dateFrom: z.coerce.date().optional(),
         dateTo: z.coerce.date().optional(),
         jettyId: z.number().optional(),
         format: z.enum(['csv', 'pdf']).default('csv')
       }))
-      .query(({ input }) => generateFuelReport(
+      .query(({ input, ctx }) => generateFuelReport(
         input.dateFrom, 
         input.dateTo, 
         input.jettyId, 
-        input.format
+        input.format,
+        ctx.scope
       )),
-    contractors: publicProcedure
+    contractors: permissionProcedure('reports.export')
       .input(z.object({ format: z.enum(['csv', 'pdf']).default('csv') }))
-      .query(({ input }) => generateContractorReport(input.format)),
-    movement: publicProcedure
+      .query(({ input, ctx }) => generateContractorReport(input.format, ctx.scope)),
+    movement: permissionProcedure('reports.export')
       .input(z.object({
         dateFrom: z.coerce.date().optional(),
         dateTo: z.coerce.date().optional(),
@@ -409,23 +833,31 @@ const appRouter = router({
         jettyId: z.number().optional(),
         format: z.enum(['csv', 'pdf']).default('csv')
       }))
-      .query(({ input }) => generateMovementReport(
+      .query(({ input, ctx }) => generateMovementReport(
         input.dateFrom, 
         input.dateTo, 
         input.contractorId, 
         input.jettyId, 
-        input.format
+        input.format,
+        ctx.scope
       )),
-    executiveSummary: publicProcedure
+    surveyVariance: permissionProcedure('reports.export')
+      .input(z.object({
+        filter: surveyVarianceFilterSchema.optional(),
+        format: z.enum(['csv', 'pdf']).default('csv')
+      }))
+      .query(({ input, ctx }) => generateSurveyVarianceReport(input.filter, input.format, ctx.scope)),
+    executiveSummary: permissionProcedure('reports.export')
       .input(z.object({
         dateFrom: z.coerce.date().optional(),
         dateTo: z.coerce.date().optional(),
         format: z.literal('pdf').default('pdf')
       }))
-      .query(({ input }) => generateExecutiveSummary(
+      .query(({ input, ctx }) => generateExecutiveSummary(
         input.dateFrom, 
         input.dateTo, 
-        input.format
+        input.format,
+        ctx.scope
       )),
   }),
 });
@@ -439,12 +871,12 @@ async function start() {
       cors()(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`Coal Mining Stock Management TRPC server listening at port: ${port}`);
 }
 
-start();
\ No newline at end of file
+if (import.meta.main) {
+  start();
+}
\ No newline at end of file
@@ -8,10 +8,93 @@ export type UserRole = z.infer<typeof userRoleSchema>;
 export const coalGradeSchema = z.enum(['high', 'medium', 'low']);
 export type CoalGrade = z.infer<typeof coalGradeSchema>;
 
-// Stock adjustment reasons enum
-export const adjustmentReasonSchema = z.enum(['manual_correction', 'waste', 'spillage', 'measurement_error', 'other']);
+// Stock adjustment reasons enum ('reconciliation' is reserved for corrections written by stock reconciliation)
+export const adjustmentReasonSchema = z.enum(['manual_correction', 'waste', 'spillage', 'measurement_error', 'other', 'reconciliation']);
 export type AdjustmentReason = z.infer<typeof adjustmentReasonSchema>;
 
+// Stock adjustment status enum (pending adjustments have no stock effect until approved)
+export const adjustmentStatusSchema = z.enum(['pending', 'applied', 'rejected']);
+export type AdjustmentStatus = z.infer<typeof adjustmentStatusSchema>;
+
+// Stock movement types (one per kind of record that changes stock)
+export const stockMovementTypeSchema = z.enum(['production', 'barging', 'adjustment', 'transfer_out', 'transfer_in', 'opening_balance']);
+export type StockMovementType = z.infer<typeof stockMovementTypeSchema>;
+
+// Stock transfer enums
+export const transferStatusSchema = z.enum(['in_transit', 'completed']);
+export type TransferStatus = z.infer<typeof transferStatusSchema>;
+
+export const transportModeSchema = z.enum(['truck', 'barge']);
+export type TransportMode = z.infer<typeof transportModeSchema>;
+
+// Where a production record's tonnage came from, and whether a weighbridge ticket has been turned into production yet
+export const tonnageSourceSchema = z.enum(['manual', 'weighbridge']);
+export type TonnageSource = z.infer<typeof tonnageSourceSchema>;
+
+// Production records are never edited; a void is a compensating record linked to the original
+export const productionEntryTypeSchema = z.enum(['original', 'void', 'correction']);
+export type ProductionEntryType = z.infer<typeof productionEntryTypeSchema>;
+
+export const bargingEntryTypeSchema = z.enum(['original', 'void', 'correction']);
+export type BargingEntryType = z.infer<typeof bargingEntryTypeSchema>;
+
+// Anomaly rules run on new production records, and what an auditor decided about a flag
+export const productionFlagRuleSchema = z.enum(['duplicate_truck', 'tonnage_out_of_range', 'future_timestamp', 'backdated']);
+export type ProductionFlagRule = z.infer<typeof productionFlagRuleSchema>;
+
+export const productionFlagStatusSchema = z.enum(['open', 'cleared', 'voided']);
+export type ProductionFlagStatus = z.infer<typeof productionFlagStatusSchema>;
+
+export const shipmentStatusSchema = z.enum(['nominated', 'loading', 'completed', 'sailed']);
+export type ShipmentStatus = z.infer<typeof shipmentStatusSchema>;
+
+export const laytimeTermsTypeSchema = z.enum(['shinc', 'shex']);
+export type LaytimeTermsType = z.infer<typeof laytimeTermsTypeSchema>;
+
+export const laytimeEventTypeSchema = z.enum(['nor_tendered', 'berthed', 'loading_commenced', 'loading_completed', 'weather_stoppage']);
+export type LaytimeEventType = z.infer<typeof laytimeEventTypeSchema>;
+
+export const draftSurveyStatusSchema = z.enum(['recorded', 'accepted']);
+export type DraftSurveyStatus = z.infer<typeof draftSurveyStatusSchema>;
+
+// Basis a lab reports on: air dried, as received, gross as received, net as received
+export const qualityBasisSchema = z.enum(['adb', 'ar', 'gar', 'nar']);
+export type QualityBasis = z.infer<typeof qualityBasisSchema>;
+
+// What a sales contract's price covers: free on board the barge or the vessel, or cost and freight (and insurance)
+export const priceBasisSchema = z.enum(['fob_barge', 'fob_vessel', 'cfr', 'cif']);
+export type PriceBasis = z.infer<typeof priceBasisSchema>;
+
+export const weighbridgeTicketStatusSchema = z.enum(['pending', 'recorded']);
+export type WeighbridgeTicketStatus = z.infer<typeof weighbridgeTicketStatusSchema>;
+
+// Permission actions enum (roles map to default bundles of these)
+export const permissionActionSchema = z.enum([
+  'production.view',
+  'production.create',
+  'production.review',
+  'production.correct',
+  'barging.view',
+  'barging.create',
+  'barging.correct',
+  'stock.view',
+  'stock.adjust',
+  'stock.approve',
+  'stock.transfer',
+  'fuel.view',
+  'fuel.record',
+  'dashboard.view',
+  'reports.export',
+  'audit.view',
+  'quality.view',
+  'quality.record'
+]);
+export type PermissionAction = z.infer<typeof permissionActionSchema>;
+
+// Session revocation reasons enum
+export const sessionRevokeReasonSchema = z.enum(['logout', 'logout_all', 'reuse_detected', 'user_deactivated', 'password_reset', 'two_factor_reset']);
+export type SessionRevokeReason = z.infer<typeof sessionRevokeReasonSchema>;
+
 // User schema
 export const userSchema = z.object({
   id: z.number(),
@@ -22,12 +105,32 @@ export const userSchema = z.object({
   role: userRoleSchema,
   is_active: z.boolean(),
   last_login: z.coerce.date().nullable(),
+  failed_login_attempts: z.number().int(),
+  last_failed_login_at: z.coerce.date().nullable(),
+  locked_until: z.coerce.date().nullable(),
+  must_change_password: z.boolean(),
+  password_changed_at: z.coerce.date(),
+  two_factor_enabled: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type User = z.infer<typeof userSchema>;
 
+// Active session schema (the current refresh token of a token family)
+export const userSessionSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  family_id: z.string(),
+  session_started_at: z.coerce.date(),
+  last_refreshed_at: z.coerce.date(),
+  expires_at: z.coerce.date(),
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable()
+});
+
+export type UserSession = z.infer<typeof userSessionSchema>;
+
 // Jetty schema
 export const jettySchema = z.object({
   id: z.number(),
@@ -41,6 +144,20 @@ export const jettySchema = z.object({
 
 export type Jetty = z.infer<typeof jettySchema>;
 
+// Stockpile schema
+export const stockpileSchema = z.object({
+  id: z.number(),
+  jetty_id: z.number(),
+  code: z.string(),
+  capacity: z.number(),
+  coal_grade: coalGradeSchema.nullable(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Stockpile = z.infer<typeof stockpileSchema>;
+
 // Contractor schema
 export const contractorSchema = z.object({
   id: z.number(),
@@ -57,24 +174,92 @@ export const contractorSchema = z.object({
 
 export type Contractor = z.infer<typeof contractorSchema>;
 
+// Truck schema (tare weight in kilograms, capacity in tons of payload)
+export const truckSchema = z.object({
+  id: z.number(),
+  plate_number: z.string(),
+  contractor_id: z.number(),
+  tare_weight: z.number(),
+  capacity: z.number(),
+  is_active: z.boolean(),
+  registration_expiry: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Truck = z.infer<typeof truckSchema>;
+
 // Production record schema
 export const productionRecordSchema = z.object({
   id: z.number(),
   date_time: z.coerce.date(),
   contractor_id: z.number(),
   truck_number: z.string(),
+  truck_id: z.number().nullable(),
   tonnage: z.number(),
   coal_grade: coalGradeSchema,
   jetty_id: z.number(),
+  stockpile_id: z.number(),
   document_photo: z.string().nullable(),
   operator_id: z.number(),
   notes: z.string().nullable(),
+  capacity_override_reason: z.string().nullable(),
+  tonnage_source: tonnageSourceSchema,
+  ticket_number: z.string().nullable(),
+  entry_type: productionEntryTypeSchema,
+  compensates_id: z.number().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type ProductionRecord = z.infer<typeof productionRecordSchema>;
 
+// Production flag schema
+export const productionFlagSchema = z.object({
+  id: z.number(),
+  production_record_id: z.number(),
+  rule: productionFlagRuleSchema,
+  detail: z.string(),
+  status: productionFlagStatusSchema,
+  reviewed_by: z.number().nullable(),
+  reviewed_at: z.coerce.date().nullable(),
+  review_note: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ProductionFlag = z.infer<typeof productionFlagSchema>;
+
+// A production record waiting in the review queue, with its open flags
+export const flaggedProductionRecordSchema = productionRecordSchema.extend({
+  flags: z.array(productionFlagSchema)
+});
+
+export type FlaggedProductionRecord = z.infer<typeof flaggedProductionRecordSchema>;
+
+// Weighbridge ticket schema (weights in kilograms, net tonnage in tons)
+export const weighbridgeTicketSchema = z.object({
+  id: z.number(),
+  ticket_number: z.string(),
+  truck_number: z.string(),
+  jetty_id: z.number(),
+  stockpile_id: z.number().nullable(),
+  contractor_id: z.number().nullable(),
+  coal_grade: coalGradeSchema.nullable(),
+  gross_weight: z.number(),
+  tare_weight: z.number(),
+  net_tonnage: z.number(),
+  weighed_at: z.coerce.date(),
+  status: weighbridgeTicketStatusSchema,
+  pending_reason: z.string().nullable(),
+  production_record_id: z.number().nullable(),
+  raw_line: z.string().nullable(),
+  received_by: z.number(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type WeighbridgeTicket = z.infer<typeof weighbridgeTicketSchema>;
+
 // Barging record schema
 export const bargingRecordSchema = z.object({
   id: z.number(),
@@ -82,22 +267,202 @@ export const bargingRecordSchema = z.object({
   contractor_id: z.number(),
   ship_batch_number: z.string(),
   tonnage: z.number(),
+  coal_grade: coalGradeSchema,
   jetty_id: z.number(),
+  stockpile_id: z.number(),
   buyer: z.string().nullable(),
   loading_document: z.string().nullable(),
   operator_id: z.number(),
   notes: z.string().nullable(),
+  entry_type: bargingEntryTypeSchema,
+  compensates_id: z.number().nullable(),
+  shipment_id: z.number().nullable(),
+  contract_id: z.number().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type BargingRecord = z.infer<typeof bargingRecordSchema>;
 
+// Buyer schema
+export const buyerSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  name_key: z.string(),
+  country: z.string().nullable(),
+  contact_person: z.string().nullable(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Buyer = z.infer<typeof buyerSchema>;
+
+// Sales contract schema
+export const salesContractSchema = z.object({
+  id: z.number(),
+  buyer_id: z.number(),
+  contract_number: z.string(),
+  total_quantity: z.number(),
+  tolerance_percent: z.number(),
+  price_basis: priceBasisSchema,
+  price_per_ton: z.number().nullable(),
+  spec_basis: qualityBasisSchema,
+  min_calorific_value: z.number().nullable(),
+  max_total_moisture: z.number().nullable(),
+  max_ash: z.number().nullable(),
+  max_sulphur: z.number().nullable(),
+  valid_from: z.coerce.date(),
+  valid_to: z.coerce.date(),
+  notes: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type SalesContract = z.infer<typeof salesContractSchema>;
+
+// Delivered against contracted quantity. Under-delivery is only flagged once the contract has expired;
+// until then a contract short of its minimum is still in progress.
+export const contractFulfilmentSchema = z.object({
+  contract: salesContractSchema,
+  buyer_name: z.string(),
+  contracted_quantity: z.number(),
+  minimum_quantity: z.number(),
+  maximum_quantity: z.number(),
+  delivered_tonnage: z.number(),
+  delivered_percent: z.number(),
+  remaining_to_minimum: z.number(),
+  remaining_to_maximum: z.number(),
+  barge_loads: z.number(),
+  by_shipment: z.array(z.object({
+    shipment_id: z.number().nullable(), // Null for loads not assigned to a shipment
+    vessel_name: z.string().nullable(),
+    tonnage: z.number(),
+    barge_loads: z.number()
+  })),
+  status: z.enum(['in_progress', 'within_tolerance', 'over_delivered', 'under_delivered'])
+});
+
+export type ContractFulfilment = z.infer<typeof contractFulfilmentSchema>;
+
+// Vessel schema
+export const vesselSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  imo_number: z.string(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Vessel = z.infer<typeof vesselSchema>;
+
+// Shipment schema
+export const shipmentSchema = z.object({
+  id: z.number(),
+  vessel_id: z.number(),
+  buyer: z.string(),
+  destination_port: z.string(),
+  laycan_start: z.coerce.date(),
+  laycan_end: z.coerce.date(),
+  nominated_quantity: z.number(),
+  status: shipmentStatusSchema,
+  contract_id: z.number().nullable(),
+  notes: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Shipment = z.infer<typeof shipmentSchema>;
+
+// Loaded against nominated tonnage for a shipment, in total and by contractor and jetty
+export const shipmentProgressSchema = z.object({
+  shipment: shipmentSchema,
+  vessel_name: z.string(),
+  nominated_quantity: z.number(),
+  loaded_tonnage: z.number(),
+  remaining_tonnage: z.number(),
+  loaded_percent: z.number(),
+  barge_loads: z.number(),
+  by_contractor: z.array(z.object({
+    contractor_id: z.number(),
+    contractor_name: z.string(),
+    tonnage: z.number(),
+    barge_loads: z.number()
+  })),
+  by_jetty: z.array(z.object({
+    jetty_id: z.number(),
+    jetty_name: z.string(),
+    tonnage: z.number(),
+    barge_loads: z.number()
+  }))
+});
+
+export type ShipmentProgress = z.infer<typeof shipmentProgressSchema>;
+
+// Laytime terms schema (rates per day)
+export const laytimeTermsSchema = z.object({
+  id: z.number(),
+  shipment_id: z.number(),
+  loading_rate: z.number(),
+  terms: laytimeTermsTypeSchema,
+  turn_time_hours: z.number(),
+  demurrage_rate: z.number(),
+  despatch_rate: z.number(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type LaytimeTerms = z.infer<typeof laytimeTermsSchema>;
+
+// Statement of facts entry
+export const laytimeEventSchema = z.object({
+  id: z.number(),
+  shipment_id: z.number(),
+  event: laytimeEventTypeSchema,
+  occurred_at: z.coerce.date(),
+  ended_at: z.coerce.date().nullable(),
+  remarks: z.string().nullable(),
+  recorded_by: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type LaytimeEvent = z.infer<typeof laytimeEventSchema>;
+
+// Laytime statement: the time sheet from commencement to completion, and what it comes to
+export const laytimeCalculationSchema = z.object({
+  shipment_id: z.number(),
+  vessel_name: z.string(),
+  terms: laytimeTermsSchema,
+  quantity: z.number(),
+  allowed_hours: z.number(),
+  nor_tendered_at: z.coerce.date(),
+  laytime_commenced_at: z.coerce.date(),
+  loading_completed_at: z.coerce.date(),
+  periods: z.array(z.object({
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+    description: z.string(),
+    counts_as: z.enum(['laytime', 'excluded', 'demurrage']),
+    hours: z.number()
+  })),
+  used_hours: z.number(),
+  excluded_hours: z.number(),
+  demurrage_hours: z.number(),
+  saved_hours: z.number(),
+  outcome: z.enum(['demurrage', 'despatch', 'even']),
+  amount: z.number() // USD: demurrage owed by the charterer, or despatch owed to it
+});
+
+export type LaytimeCalculation = z.infer<typeof laytimeCalculationSchema>;
+
 // Stock schema
 export const stockSchema = z.object({
   id: z.number(),
   contractor_id: z.number(),
   jetty_id: z.number(),
+  stockpile_id: z.number(),
+  coal_grade: coalGradeSchema,
   tonnage: z.number(),
   last_updated: z.coerce.date(),
   version: z.number(),
@@ -119,13 +484,45 @@ export const stockAdjustmentSchema = z.object({
   reason_description: z.string(),
   reference_document: z.string().nullable(),
   attachment: z.string().nullable(),
+  status: adjustmentStatusSchema,
+  required_approvals: z.number().int(),
   approved_by: z.number().nullable(),
   approved_at: z.coerce.date().nullable(),
+  rejected_by: z.number().nullable(),
+  rejected_at: z.coerce.date().nullable(),
+  rejection_reason: z.string().nullable(),
+  survey_id: z.number().nullable(),
+  draft_survey_id: z.number().nullable(),
   created_at: z.coerce.date()
 });
 
 export type StockAdjustment = z.infer<typeof stockAdjustmentSchema>;
 
+// Stock transfer schema
+export const stockTransferSchema = z.object({
+  id: z.number(),
+  source_contractor_id: z.number(),
+  source_jetty_id: z.number(),
+  source_stockpile_id: z.number(),
+  destination_contractor_id: z.number(),
+  destination_jetty_id: z.number(),
+  destination_stockpile_id: z.number(),
+  coal_grade: coalGradeSchema,
+  tonnage: z.number(),
+  transport_mode: transportModeSchema.nullable(),
+  transport_reference: z.string().nullable(),
+  status: transferStatusSchema,
+  dispatched_at: z.coerce.date(),
+  received_at: z.coerce.date().nullable(),
+  created_by: z.number(),
+  received_by: z.number().nullable(),
+  notes: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type StockTransfer = z.infer<typeof stockTransferSchema>;
+
 // Fuel purchase schema
 export const fuelPurchaseSchema = z.object({
   id: z.number(),
@@ -179,7 +576,7 @@ export type AuditLog = z.infer<typeof auditLogSchema>;
 export const createUserInputSchema = z.object({
   email: z.string().email(),
   username: z.string().min(3),
-  password: z.string().min(6),
+  password: z.string().min(1), // Full password policy is enforced by the handler
   full_name: z.string(),
   role: userRoleSchema
 });
@@ -194,6 +591,15 @@ export const createJettyInputSchema = z.object({
 
 export type CreateJettyInput = z.infer<typeof createJettyInputSchema>;
 
+export const createStockpileInputSchema = z.object({
+  jetty_id: z.number(),
+  code: z.string().min(1),
+  capacity: z.number().positive(),
+  coal_grade: coalGradeSchema.nullable()
+});
+
+export type CreateStockpileInput = z.infer<typeof createStockpileInputSchema>;
+
 export const createContractorInputSchema = z.object({
   name: z.string(),
   code: z.string(),
@@ -204,6 +610,23 @@ export const createContractorInputSchema = z.object({
 
 export type CreateContractorInput = z.infer<typeof createContractorInputSchema>;
 
+export const createTruckInputSchema = z.object({
+  plate_number: z.string().min(1),
+  contractor_id: z.number(),
+  tare_weight: z.number().positive(),
+  capacity: z.number().positive(),
+  registration_expiry: z.coerce.date().nullable()
+});
+
+export type CreateTruckInput = z.infer<typeof createTruckInputSchema>;
+
+export const truckFilterSchema = z.object({
+  contractor_id: z.number().optional(),
+  active_only: z.boolean().optional()
+});
+
+export type TruckFilter = z.infer<typeof truckFilterSchema>;
+
 export const createProductionRecordInputSchema = z.object({
   date_time: z.coerce.date(),
   contractor_id: z.number(),
@@ -211,39 +634,317 @@ export const createProductionRecordInputSchema = z.object({
   tonnage: z.number().positive(),
   coal_grade: coalGradeSchema,
   jetty_id: z.number(),
+  stockpile_id: z.number().optional(), // Omitted: the jetty's default stockpile
   document_photo: z.string().nullable(),
-  operator_id: z.number(),
-  notes: z.string().nullable()
+  notes: z.string().nullable(),
+  // Required to accept intake that would take the jetty past its capacity
+  capacity_override_reason: z.string().min(1).optional()
 });
 
 export type CreateProductionRecordInput = z.infer<typeof createProductionRecordInputSchema>;
 
+export const flaggedProductionFilterSchema = z.object({
+  jetty_id: z.number().optional(),
+  contractor_id: z.number().optional(),
+  rule: productionFlagRuleSchema.optional()
+});
+
+export type FlaggedProductionFilter = z.infer<typeof flaggedProductionFilterSchema>;
+
+// An auditor's decision on a flagged record: clear the flags, or void the record
+export const reviewFlaggedProductionInputSchema = z.object({
+  production_record_id: z.number(),
+  decision: z.enum(['clear', 'void']),
+  note: z.string().trim().min(1)
+});
+
+export type ReviewFlaggedProductionInput = z.infer<typeof reviewFlaggedProductionInputSchema>;
+
+// Voids a production or barging record; the reason is kept on the compensating record and in the audit log
+export const voidRecordInputSchema = z.object({
+  id: z.number(),
+  reason: z.string().trim().min(1)
+});
+
+export type VoidRecordInput = z.infer<typeof voidRecordInputSchema>;
+
+// Omitted fields keep the original's value; the jetty cannot change
+export const correctProductionRecordInputSchema = z.object({
+  id: z.number(),
+  reason: z.string().trim().min(1),
+  date_time: z.coerce.date().optional(),
+  contractor_id: z.number().optional(),
+  truck_number: z.string().optional(),
+  tonnage: z.number().positive().optional(),
+  coal_grade: coalGradeSchema.optional(),
+  stockpile_id: z.number().optional(),
+  document_photo: z.string().nullable().optional(),
+  notes: z.string().nullable().optional()
+});
+
+export type CorrectProductionRecordInput = z.infer<typeof correctProductionRecordInputSchema>;
+
+// One gross/tare reading off the weighbridge. With a contractor it is recorded as production straight away.
+export const weighbridgeReadingInputSchema = z.object({
+  ticket_number: z.string().trim().min(1),
+  truck_number: z.string().trim().min(1),
+  gross_weight: z.number().positive(), // Kilograms
+  tare_weight: z.number().nonnegative().optional(), // Kilograms; omitted: the registered tare of the truck
+  weighed_at: z.coerce.date(),
+  jetty_id: z.number(),
+  stockpile_id: z.number().optional(), // Omitted: the jetty's default stockpile
+  contractor_id: z.number().optional(), // Omitted: the ticket waits for an operator to complete it
+  coal_grade: coalGradeSchema.optional() // Omitted: the contractor's default grade
+});
+
+export type WeighbridgeReadingInput = z.infer<typeof weighbridgeReadingInputSchema>;
+
+// Raw output of a weighbridge, one ticket per line (see parseWeighbridgeLine)
+export const weighbridgeFeedInputSchema = z.object({
+  jetty_id: z.number(),
+  stockpile_id: z.number().optional(),
+  content: z.string()
+});
+
+export type WeighbridgeFeedInput = z.infer<typeof weighbridgeFeedInputSchema>;
+
+export const completeWeighbridgeTicketInputSchema = z.object({
+  ticket_id: z.number(),
+  contractor_id: z.number(),
+  coal_grade: coalGradeSchema.optional(), // Omitted: the ticket's grade, then the contractor's default grade
+  stockpile_id: z.number().optional(),
+  document_photo: z.string().nullable(),
+  notes: z.string().nullable(),
+  capacity_override_reason: z.string().min(1).optional()
+});
+
+export type CompleteWeighbridgeTicketInput = z.infer<typeof completeWeighbridgeTicketInputSchema>;
+
+export const weighbridgeTicketFilterSchema = z.object({
+  jetty_id: z.number().optional(),
+  status: weighbridgeTicketStatusSchema.optional(),
+  date_from: z.coerce.date().optional(),
+  date_to: z.coerce.date().optional()
+});
+
+export type WeighbridgeTicketFilter = z.infer<typeof weighbridgeTicketFilterSchema>;
+
+// Outcome of each line of a weighbridge feed; a bad line is rejected without holding up the others
+export const weighbridgeFeedResultSchema = z.object({
+  recorded: z.number(),
+  pending: z.number(),
+  rejected: z.number(),
+  lines: z.array(z.object({
+    line_number: z.number(),
+    ticket_number: z.string().nullable(),
+    outcome: z.enum(['recorded', 'pending', 'rejected']),
+    ticket: weighbridgeTicketSchema.nullable(),
+    error: z.string().nullable()
+  }))
+});
+
+export type WeighbridgeFeedResult = z.infer<typeof weighbridgeFeedResultSchema>;
+
 export const createBargingRecordInputSchema = z.object({
   date_time: z.coerce.date(),
   contractor_id: z.number(),
   ship_batch_number: z.string(),
   tonnage: z.number().positive(),
+  coal_grade: coalGradeSchema,
   jetty_id: z.number(),
+  stockpile_id: z.number().optional(), // Omitted: the jetty's default stockpile
   buyer: z.string().nullable(),
   loading_document: z.string().nullable(),
-  operator_id: z.number(),
-  notes: z.string().nullable()
+  notes: z.string().nullable(),
+  shipment_id: z.number().optional(), // The shipment being loaded; it must be nominated or loading
+  contract_id: z.number().optional() // Omitted: the shipment's contract, if it has one
 });
 
 export type CreateBargingRecordInput = z.infer<typeof createBargingRecordInputSchema>;
 
+// Omitted fields keep the original's value; the jetty cannot change
+export const correctBargingRecordInputSchema = z.object({
+  id: z.number(),
+  reason: z.string().trim().min(1),
+  date_time: z.coerce.date().optional(),
+  contractor_id: z.number().optional(),
+  ship_batch_number: z.string().optional(),
+  tonnage: z.number().positive().optional(),
+  coal_grade: coalGradeSchema.optional(),
+  stockpile_id: z.number().optional(),
+  buyer: z.string().nullable().optional(),
+  loading_document: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  shipment_id: z.number().nullable().optional(),
+  contract_id: z.number().nullable().optional()
+});
+
+export type CorrectBargingRecordInput = z.infer<typeof correctBargingRecordInputSchema>;
+
+export const createBuyerInputSchema = z.object({
+  name: z.string().trim().min(1),
+  country: z.string().nullable(),
+  contact_person: z.string().nullable()
+});
+
+export type CreateBuyerInput = z.infer<typeof createBuyerInputSchema>;
+
+export const updateBuyerInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1).optional(),
+  country: z.string().nullable().optional(),
+  contact_person: z.string().nullable().optional(),
+  is_active: z.boolean().optional()
+});
+
+export type UpdateBuyerInput = z.infer<typeof updateBuyerInputSchema>;
+
+export const createSalesContractInputSchema = z.object({
+  buyer_id: z.number(),
+  contract_number: z.string().trim().min(1),
+  total_quantity: z.number().positive(),
+  tolerance_percent: z.number().min(0).max(100),
+  price_basis: priceBasisSchema,
+  price_per_ton: z.number().positive().nullable(),
+  spec_basis: qualityBasisSchema.optional(), // Omitted: gross as received
+  min_calorific_value: z.number().positive().nullable(),
+  max_total_moisture: z.number().min(0).max(100).nullable(),
+  max_ash: z.number().min(0).max(100).nullable(),
+  max_sulphur: z.number().min(0).max(100).nullable(),
+  valid_from: z.coerce.date(),
+  valid_to: z.coerce.date(),
+  notes: z.string().nullable()
+});
+
+export type CreateSalesContractInput = z.infer<typeof createSalesContractInputSchema>;
+
+// The buyer and contract number are fixed once a contract is made
+export const updateSalesContractInputSchema = z.object({
+  id: z.number(),
+  total_quantity: z.number().positive().optional(),
+  tolerance_percent: z.number().min(0).max(100).optional(),
+  price_basis: priceBasisSchema.optional(),
+  price_per_ton: z.number().positive().nullable().optional(),
+  spec_basis: qualityBasisSchema.optional(),
+  min_calorific_value: z.number().positive().nullable().optional(),
+  max_total_moisture: z.number().min(0).max(100).nullable().optional(),
+  max_ash: z.number().min(0).max(100).nullable().optional(),
+  max_sulphur: z.number().min(0).max(100).nullable().optional(),
+  valid_from: z.coerce.date().optional(),
+  valid_to: z.coerce.date().optional(),
+  notes: z.string().nullable().optional()
+});
+
+export type UpdateSalesContractInput = z.infer<typeof updateSalesContractInputSchema>;
+
+export const salesContractFilterSchema = z.object({
+  buyer_id: z.number().optional(),
+  valid_on: z.coerce.date().optional() // Contracts whose validity period covers this date
+});
+
+export type SalesContractFilter = z.infer<typeof salesContractFilterSchema>;
+
+export const createVesselInputSchema = z.object({
+  name: z.string().trim().min(1),
+  imo_number: z.string()
+});
+
+export type CreateVesselInput = z.infer<typeof createVesselInputSchema>;
+
+export const createShipmentInputSchema = z.object({
+  vessel_id: z.number(),
+  buyer: z.string().trim().min(1),
+  destination_port: z.string().trim().min(1),
+  laycan_start: z.coerce.date(),
+  laycan_end: z.coerce.date(),
+  nominated_quantity: z.number().positive(),
+  notes: z.string().nullable(),
+  contract_id: z.number().optional() // The buyer must be the contract's buyer
+});
+
+export type CreateShipmentInput = z.infer<typeof createShipmentInputSchema>;
+
+export const shipmentFilterSchema = z.object({
+  vessel_id: z.number().optional(),
+  status: shipmentStatusSchema.optional()
+});
+
+export type ShipmentFilter = z.infer<typeof shipmentFilterSchema>;
+
+// Replaces the shipment's terms when it already has them
+export const setLaytimeTermsInputSchema = z.object({
+  shipment_id: z.number(),
+  loading_rate: z.number().positive(),
+  terms: laytimeTermsTypeSchema,
+  turn_time_hours: z.number().nonnegative(),
+  demurrage_rate: z.number().nonnegative(),
+  despatch_rate: z.number().nonnegative()
+});
+
+export type SetLaytimeTermsInput = z.infer<typeof setLaytimeTermsInputSchema>;
+
+export const recordLaytimeEventInputSchema = z.object({
+  shipment_id: z.number(),
+  event: laytimeEventTypeSchema,
+  occurred_at: z.coerce.date(),
+  ended_at: z.coerce.date().optional(), // Weather stoppages only, and required for them
+  remarks: z.string().nullable()
+});
+
+export type RecordLaytimeEventInput = z.infer<typeof recordLaytimeEventInputSchema>;
+
 export const createStockAdjustmentInputSchema = z.object({
   stock_id: z.number(),
   adjustment_amount: z.number(),
-  reason: adjustmentReasonSchema,
+  reason: adjustmentReasonSchema.exclude(['reconciliation']),
   reason_description: z.string(),
   reference_document: z.string().nullable(),
-  attachment: z.string().nullable(),
-  adjusted_by: z.number()
+  attachment: z.string().nullable()
 });
 
 export type CreateStockAdjustmentInput = z.infer<typeof createStockAdjustmentInputSchema>;
 
+export const rejectStockAdjustmentInputSchema = z.object({
+  adjustmentId: z.number(),
+  reason: z.string().min(1)
+});
+
+export type RejectStockAdjustmentInput = z.infer<typeof rejectStockAdjustmentInputSchema>;
+
+export const createStockTransferInputSchema = z.object({
+  source_contractor_id: z.number(),
+  source_jetty_id: z.number(),
+  source_stockpile_id: z.number().optional(), // Omitted: the jetty's default stockpile
+  destination_contractor_id: z.number(),
+  destination_jetty_id: z.number(),
+  destination_stockpile_id: z.number().optional(),
+  coal_grade: coalGradeSchema,
+  tonnage: z.number().positive(),
+  transport_mode: transportModeSchema.nullable(),
+  transport_reference: z.string().nullable(),
+  dispatched_at: z.coerce.date(),
+  notes: z.string().nullable()
+});
+
+export type CreateStockTransferInput = z.infer<typeof createStockTransferInputSchema>;
+
+export const receiveStockTransferInputSchema = z.object({
+  transferId: z.number(),
+  received_at: z.coerce.date().optional()
+});
+
+export type ReceiveStockTransferInput = z.infer<typeof receiveStockTransferInputSchema>;
+
+export const stockTransferFilterSchema = z.object({
+  status: transferStatusSchema.optional(),
+  contractor_id: z.number().optional(), // Matches either side of the transfer
+  jetty_id: z.number().optional(),
+  date_from: z.coerce.date().optional(),
+  date_to: z.coerce.date().optional()
+});
+
+export type StockTransferFilter = z.infer<typeof stockTransferFilterSchema>;
+
 export const createFuelPurchaseInputSchema = z.object({
   date: z.coerce.date(),
   supplier: z.string(),
@@ -251,8 +952,7 @@ export const createFuelPurchaseInputSchema = z.object({
   cost: z.number().positive(),
   invoice_number: z.string(),
   jetty_id: z.number(),
-  machine_destination: z.string().nullable(),
-  created_by: z.number()
+  machine_destination: z.string().nullable()
 });
 
 export type CreateFuelPurchaseInput = z.infer<typeof createFuelPurchaseInputSchema>;
@@ -263,8 +963,7 @@ export const createFuelUsageInputSchema = z.object({
   operator: z.string(),
   volume_liters: z.number().positive(),
   production_tonnage: z.number().positive(),
-  production_record_id: z.number().nullable(),
-  created_by: z.number()
+  production_record_id: z.number().nullable()
 });
 
 export type CreateFuelUsageInput = z.infer<typeof createFuelUsageInputSchema>;
@@ -282,6 +981,49 @@ export const updateContractorInputSchema = z.object({
 
 export type UpdateContractorInput = z.infer<typeof updateContractorInputSchema>;
 
+export const updateTruckInputSchema = z.object({
+  id: z.number(),
+  plate_number: z.string().min(1).optional(),
+  contractor_id: z.number().optional(),
+  tare_weight: z.number().positive().optional(),
+  capacity: z.number().positive().optional(),
+  is_active: z.boolean().optional(),
+  registration_expiry: z.coerce.date().nullable().optional()
+});
+
+export type UpdateTruckInput = z.infer<typeof updateTruckInputSchema>;
+
+export const updateVesselInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1).optional(),
+  imo_number: z.string().optional(),
+  is_active: z.boolean().optional()
+});
+
+export type UpdateVesselInput = z.infer<typeof updateVesselInputSchema>;
+
+// Status moves through updateShipmentStatus, not here
+export const updateShipmentInputSchema = z.object({
+  id: z.number(),
+  vessel_id: z.number().optional(),
+  buyer: z.string().trim().min(1).optional(),
+  destination_port: z.string().trim().min(1).optional(),
+  laycan_start: z.coerce.date().optional(),
+  laycan_end: z.coerce.date().optional(),
+  nominated_quantity: z.number().positive().optional(),
+  notes: z.string().nullable().optional(),
+  contract_id: z.number().nullable().optional()
+});
+
+export type UpdateShipmentInput = z.infer<typeof updateShipmentInputSchema>;
+
+export const updateShipmentStatusInputSchema = z.object({
+  id: z.number(),
+  status: shipmentStatusSchema
+});
+
+export type UpdateShipmentStatusInput = z.infer<typeof updateShipmentStatusInputSchema>;
+
 export const updateJettyInputSchema = z.object({
   id: z.number(),
   name: z.string().optional(),
@@ -292,6 +1034,74 @@ export const updateJettyInputSchema = z.object({
 
 export type UpdateJettyInput = z.infer<typeof updateJettyInputSchema>;
 
+export const updateStockpileInputSchema = z.object({
+  id: z.number(),
+  code: z.string().min(1).optional(),
+  capacity: z.number().positive().optional(),
+  coal_grade: coalGradeSchema.nullable().optional(),
+  is_active: z.boolean().optional()
+});
+
+export type UpdateStockpileInput = z.infer<typeof updateStockpileInputSchema>;
+
+// Permission grant schema
+export const permissionGrantSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  action: permissionActionSchema,
+  jetty_id: z.number().nullable(),
+  contractor_id: z.number().nullable(),
+  granted_by: z.number(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type PermissionGrant = z.infer<typeof permissionGrantSchema>;
+
+export const createPermissionGrantInputSchema = z.object({
+  user_id: z.number(),
+  action: permissionActionSchema,
+  jetty_id: z.number().nullable().default(null),
+  contractor_id: z.number().nullable().default(null)
+});
+
+export type CreatePermissionGrantInput = z.infer<typeof createPermissionGrantInputSchema>;
+
+export const updatePermissionGrantInputSchema = z.object({
+  id: z.number(),
+  jetty_id: z.number().nullable().optional(),
+  contractor_id: z.number().nullable().optional()
+});
+
+export type UpdatePermissionGrantInput = z.infer<typeof updatePermissionGrantInputSchema>;
+
+// Where the caller may perform an action: everywhere, or only the listed jetty/contractor pairs
+// (a null id in a pair matches any jetty or contractor)
+export const permissionScopeSchema = z.object({
+  unrestricted: z.boolean(),
+  grants: z.array(z.object({
+    jetty_id: z.number().nullable(),
+    contractor_id: z.number().nullable()
+  }))
+});
+
+export type PermissionScope = z.infer<typeof permissionScopeSchema>;
+
+// Request metadata of the caller, taken from the HTTP request
+export const requestClientSchema = z.object({
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable()
+});
+
+export type RequestClient = z.infer<typeof requestClientSchema>;
+
+// Authenticated user acting on a request, used for record ownership and audit trails
+export const requestActorSchema = requestClientSchema.extend({
+  user_id: z.number()
+});
+
+export type RequestActor = z.infer<typeof requestActorSchema>;
+
 // Login schema
 export const loginInputSchema = z.object({
   email: z.string().email(),
@@ -300,16 +1110,363 @@ export const loginInputSchema = z.object({
 
 export type LoginInput = z.infer<typeof loginInputSchema>;
 
+// Result of auth.login / auth.verifySecondFactor: either a session or a second-factor challenge
+export type LoginResult =
+  | {
+    two_factor_required: false;
+    user: User;
+    token: string;
+    refreshToken: string;
+    password_change_required: boolean;
+  }
+  | {
+    two_factor_required: true;
+    challenge_token: string;
+    challenge_expires_at: Date;
+  };
+
+// Second login step: exchange a challenge token and a TOTP or recovery code for a session
+export const verifySecondFactorInputSchema = z.object({
+  challenge_token: z.string(),
+  code: z.string().min(1)
+});
+
+export type VerifySecondFactorInput = z.infer<typeof verifySecondFactorInputSchema>;
+
+export const totpCodeInputSchema = z.object({
+  code: z.string().min(1)
+});
+
+export type TotpCodeInput = z.infer<typeof totpCodeInputSchema>;
+
+export const totpEnrollmentSchema = z.object({
+  secret: z.string(),
+  provisioning_uri: z.string() // otpauth:// URI, rendered as a QR code by the client
+});
+
+export type TotpEnrollment = z.infer<typeof totpEnrollmentSchema>;
+
+export const recoveryCodesSchema = z.object({
+  recovery_codes: z.array(z.string())
+});
+
+export type RecoveryCodes = z.infer<typeof recoveryCodesSchema>;
+
+// Password change schemas
+export const changeOwnPasswordInputSchema = z.object({
+  current_password: z.string(),
+  new_password: z.string().min(1)
+});
+
+export type ChangeOwnPasswordInput = z.infer<typeof changeOwnPasswordInputSchema>;
+
+export const passwordResetResultSchema = z.object({
+  user_id: z.number(),
+  temporary_password: z.string()
+});
+
+export type PasswordResetResult = z.infer<typeof passwordResetResultSchema>;
+
 // Filter schemas
 export const stockFilterSchema = z.object({
   contractor_id: z.number().optional(),
   jetty_id: z.number().optional(),
+  stockpile_id: z.number().optional(),
+  coal_grade: coalGradeSchema.optional(),
   date_from: z.coerce.date().optional(),
   date_to: z.coerce.date().optional()
 });
 
 export type StockFilter = z.infer<typeof stockFilterSchema>;
 
+export const stockMovementSchema = z.object({
+  id: z.number(),
+  stock_id: z.number(),
+  contractor_id: z.number(),
+  jetty_id: z.number(),
+  stockpile_id: z.number(),
+  coal_grade: coalGradeSchema,
+  movement_type: stockMovementTypeSchema,
+  reference_id: z.number().nullable(),
+  change: z.number(),
+  balance_after: z.number(),
+  occurred_at: z.coerce.date(),
+  created_by: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type StockMovement = z.infer<typeof stockMovementSchema>;
+
+export const stockLedgerFilterSchema = z.object({
+  contractor_id: z.number().optional(),
+  jetty_id: z.number().optional(),
+  coal_grade: coalGradeSchema.optional(),
+  movement_type: stockMovementTypeSchema.optional(),
+  date_from: z.coerce.date().optional(),
+  date_to: z.coerce.date().optional(),
+  page: z.number().int().positive().default(1),
+  page_size: z.number().int().positive().max(500).default(50)
+});
+
+export type StockLedgerFilter = z.infer<typeof stockLedgerFilterSchema>;
+
+// Stock reconciliation: read-only unless apply is set
+export const reconcileStockInputSchema = z.object({
+  apply: z.boolean().default(false),
+  contractor_id: z.number().optional(),
+  jetty_id: z.number().optional()
+});
+
+export type ReconcileStockInput = z.infer<typeof reconcileStockInputSchema>;
+
+export const stockDiscrepancySchema = z.object({
+  contractor_id: z.number(),
+  contractor_name: z.string(),
+  jetty_id: z.number(),
+  jetty_name: z.string(),
+  stockpile_id: z.number(),
+  stockpile_code: z.string(),
+  coal_grade: coalGradeSchema,
+  recorded_tonnage: z.number(),
+  expected_tonnage: z.number(),
+  difference: z.number(),
+  adjustment_id: z.number().nullable(),
+  note: z.string().nullable()
+});
+
+export type StockDiscrepancy = z.infer<typeof stockDiscrepancySchema>;
+
+export const stockReconciliationSchema = z.object({
+  applied: z.boolean(),
+  checked_balances: z.number(),
+  discrepancies: z.array(stockDiscrepancySchema)
+});
+
+export type StockReconciliation = z.infer<typeof stockReconciliationSchema>;
+
+// Stockpile survey: measured volume times bulk density, against the book balance at the survey time
+export const stockpileSurveySchema = z.object({
+  id: z.number(),
+  jetty_id: z.number(),
+  stockpile_id: z.number(),
+  surveyed_at: z.coerce.date(),
+  measured_volume: z.number(),
+  bulk_density: z.number(),
+  surveyed_tonnage: z.number(),
+  book_tonnage: z.number(),
+  variance: z.number(),
+  attachment: z.string().nullable(),
+  notes: z.string().nullable(),
+  created_by: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type StockpileSurvey = z.infer<typeof stockpileSurveySchema>;
+
+export const createStockpileSurveyInputSchema = z.object({
+  stockpile_id: z.number(),
+  surveyed_at: z.coerce.date(),
+  measured_volume: z.number().positive(), // Cubic metres
+  bulk_density: z.number().positive(), // Tonnes per cubic metre
+  attachment: z.string().nullable(),
+  notes: z.string().nullable()
+});
+
+export type CreateStockpileSurveyInput = z.infer<typeof createStockpileSurveyInputSchema>;
+
+// A recorded survey with the measurement_error adjustments it proposed
+export const stockpileSurveyResultSchema = stockpileSurveySchema.extend({
+  adjustments: z.array(stockAdjustmentSchema)
+});
+
+export type StockpileSurveyResult = z.infer<typeof stockpileSurveyResultSchema>;
+
+export const surveyVarianceFilterSchema = z.object({
+  jetty_id: z.number().optional(),
+  stockpile_id: z.number().optional(),
+  date_from: z.coerce.date().optional(),
+  date_to: z.coerce.date().optional()
+});
+
+export type SurveyVarianceFilter = z.infer<typeof surveyVarianceFilterSchema>;
+
+export const surveyVarianceSchema = stockpileSurveySchema.extend({
+  jetty_name: z.string(),
+  stockpile_code: z.string(),
+  variance_percent: z.number().nullable(), // Null when the book balance was zero
+  pending_tonnage: z.number(), // Proposed adjustments still awaiting approval
+  applied_tonnage: z.number(),
+  rejected_tonnage: z.number()
+});
+
+export type SurveyVariance = z.infer<typeof surveyVarianceSchema>;
+
+// Draft survey of a barge or a whole shipment: cargo weight from the displacement before and after loading,
+// against the barge loads booked for it
+export const draftSurveySchema = z.object({
+  id: z.number(),
+  shipment_id: z.number().nullable(),
+  ship_batch_number: z.string().nullable(),
+  surveyed_at: z.coerce.date(),
+  initial_draft_fore: z.number(),
+  initial_draft_mid: z.number(),
+  initial_draft_aft: z.number(),
+  initial_table_displacement: z.number(),
+  initial_density: z.number(),
+  initial_deductibles: z.number(),
+  initial_displacement: z.number(),
+  final_draft_fore: z.number(),
+  final_draft_mid: z.number(),
+  final_draft_aft: z.number(),
+  final_table_displacement: z.number(),
+  final_density: z.number(),
+  final_deductibles: z.number(),
+  final_displacement: z.number(),
+  cargo_weight: z.number(),
+  barged_tonnage: z.number(),
+  variance: z.number(),
+  status: draftSurveyStatusSchema,
+  accepted_by: z.number().nullable(),
+  accepted_at: z.coerce.date().nullable(),
+  attachment: z.string().nullable(),
+  notes: z.string().nullable(),
+  created_by: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type DraftSurvey = z.infer<typeof draftSurveySchema>;
+
+// One set of draft marks read by the surveyor, with the displacement looked up for their mean
+export const draftReadingInputSchema = z.object({
+  draft_fore: z.number().positive(), // Metres
+  draft_mid: z.number().positive(),
+  draft_aft: z.number().positive(),
+  table_displacement: z.number().positive(), // Tons, from the hydrostatic tables at 1.025
+  density: z.number().positive(), // Dock water, tonnes per cubic metre
+  deductibles: z.number().nonnegative() // Ballast, fresh water, bunkers and other weights on board
+});
+
+export type DraftReadingInput = z.infer<typeof draftReadingInputSchema>;
+
+// Either a shipment or a barge (by batch number), not both
+export const createDraftSurveyInputSchema = z.object({
+  shipment_id: z.number().optional(),
+  ship_batch_number: z.string().trim().min(1).optional(),
+  surveyed_at: z.coerce.date(),
+  initial: draftReadingInputSchema,
+  final: draftReadingInputSchema,
+  attachment: z.string().nullable(),
+  notes: z.string().nullable()
+});
+
+export type CreateDraftSurveyInput = z.infer<typeof createDraftSurveyInputSchema>;
+
+export const draftSurveyFilterSchema = z.object({
+  shipment_id: z.number().optional(),
+  ship_batch_number: z.string().optional(),
+  status: draftSurveyStatusSchema.optional()
+});
+
+export type DraftSurveyFilter = z.infer<typeof draftSurveyFilterSchema>;
+
+// A draft survey with the measurement_error adjustments its acceptance posted (none until accepted)
+export const draftSurveyResultSchema = draftSurveySchema.extend({
+  variance_percent: z.number().nullable(), // Null when nothing was barged
+  adjustments: z.array(stockAdjustmentSchema)
+});
+
+export type DraftSurveyResult = z.infer<typeof draftSurveyResultSchema>;
+
+// Laboratory analysis of a sample from a production record, a stockpile or a shipment
+export const qualitySampleSchema = z.object({
+  id: z.number(),
+  production_record_id: z.number().nullable(),
+  stockpile_id: z.number().nullable(),
+  shipment_id: z.number().nullable(),
+  lab: z.string(),
+  sample_number: z.string().nullable(),
+  sampled_at: z.coerce.date(),
+  basis: qualityBasisSchema,
+  calorific_value: z.number(), // kcal/kg
+  total_moisture: z.number().nullable(), // Percent
+  ash: z.number().nullable(),
+  sulphur: z.number().nullable(),
+  hgi: z.number().nullable(),
+  notes: z.string().nullable(),
+  recorded_by: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type QualitySample = z.infer<typeof qualitySampleSchema>;
+
+// Exactly one of production_record_id, stockpile_id and shipment_id
+export const recordQualitySampleInputSchema = z.object({
+  production_record_id: z.number().optional(),
+  stockpile_id: z.number().optional(),
+  shipment_id: z.number().optional(),
+  lab: z.string().trim().min(1),
+  sample_number: z.string().nullable(),
+  sampled_at: z.coerce.date(),
+  basis: qualityBasisSchema,
+  calorific_value: z.number().positive(),
+  total_moisture: z.number().min(0).max(100).nullable(),
+  ash: z.number().min(0).max(100).nullable(),
+  sulphur: z.number().min(0).max(100).nullable(),
+  hgi: z.number().positive().nullable(),
+  notes: z.string().nullable()
+});
+
+export type RecordQualitySampleInput = z.infer<typeof recordQualitySampleInputSchema>;
+
+export const qualitySampleFilterSchema = z.object({
+  production_record_id: z.number().optional(),
+  stockpile_id: z.number().optional(),
+  shipment_id: z.number().optional(),
+  basis: qualityBasisSchema.optional(),
+  date_from: z.coerce.date().optional(),
+  date_to: z.coerce.date().optional()
+});
+
+export type QualitySampleFilter = z.infer<typeof qualitySampleFilterSchema>;
+
+// A stockpile's latest sample on the grading basis and the grade its calorific value falls in
+export const stockpileQualitySchema = z.object({
+  stockpile_id: z.number(),
+  basis: qualityBasisSchema,
+  sample: qualitySampleSchema.nullable(),
+  derived_grade: coalGradeSchema.nullable() // Null until the stockpile has a sample on the grading basis
+});
+
+export type StockpileQuality = z.infer<typeof stockpileQualitySchema>;
+
+export const weightedQualityInputSchema = z.object({
+  production_record_ids: z.array(z.number()).default([]),
+  barging_record_ids: z.array(z.number()).default([]),
+  basis: qualityBasisSchema
+});
+
+export type WeightedQualityInput = z.infer<typeof weightedQualityInputSchema>;
+
+// Tonnage-weighted quality of a set of records. Each parameter is averaged over the sampled tonnage that
+// has a result for it, and is null when none has.
+export const weightedQualitySchema = z.object({
+  basis: qualityBasisSchema,
+  total_tonnage: z.number(),
+  sampled_tonnage: z.number(),
+  unsampled: z.array(z.object({
+    record_type: z.enum(['production', 'barging']),
+    record_id: z.number(),
+    tonnage: z.number()
+  })),
+  calorific_value: z.number().nullable(),
+  total_moisture: z.number().nullable(),
+  ash: z.number().nullable(),
+  sulphur: z.number().nullable(),
+  hgi: z.number().nullable()
+});
+
+export type WeightedQuality = z.infer<typeof weightedQualitySchema>;
+
 export const auditLogFilterSchema = z.object({
   user_id: z.number().optional(),
   action: z.string().optional(),
@@ -321,21 +1478,62 @@ export const auditLogFilterSchema = z.object({
 export type AuditLogFilter = z.infer<typeof auditLogFilterSchema>;
 
 // Dashboard data schemas
+export const gradeTonnageSchema = z.object({
+  coal_grade: coalGradeSchema,
+  tonnage: z.number()
+});
+
+export type GradeTonnage = z.infer<typeof gradeTonnageSchema>;
+
+export const capacityStatusSchema = z.enum(['normal', 'warning', 'critical', 'over_capacity']);
+
+export type CapacityStatus = z.infer<typeof capacityStatusSchema>;
+
+export const jettyUtilisationSchema = z.object({
+  jetty_id: z.number(),
+  jetty_name: z.string(),
+  capacity: z.number(),
+  stock_tonnage: z.number(),
+  utilisation_percent: z.number(),
+  headroom: z.number(), // Negative when the jetty is over capacity
+  status: capacityStatusSchema
+});
+
+export type JettyUtilisation = z.infer<typeof jettyUtilisationSchema>;
+
+// A stockpile with what it currently holds
+export const stockpileBalanceSchema = stockpileSchema.extend({
+  stock_tonnage: z.number(),
+  headroom: z.number(),
+  by_grade: z.array(gradeTonnageSchema)
+});
+
+export type StockpileBalance = z.infer<typeof stockpileBalanceSchema>;
+
 export const dashboardStatsSchema = z.object({
   total_stock: z.number(),
   daily_production: z.number(),
   daily_barging: z.number(),
   active_contractors: z.number(),
+  stock_by_grade: z.array(gradeTonnageSchema),
   stock_by_jetty: z.array(z.object({
     jetty_id: z.number(),
     jetty_name: z.string(),
-    total_tonnage: z.number()
+    total_tonnage: z.number(),
+    by_grade: z.array(gradeTonnageSchema)
   })),
   stock_by_contractor: z.array(z.object({
     contractor_id: z.number(),
     contractor_name: z.string(),
-    total_tonnage: z.number()
-  }))
+    total_tonnage: z.number(),
+    by_grade: z.array(gradeTonnageSchema)
+  })),
+  capacity_thresholds: z.object({
+    warning_percent: z.number(),
+    critical_percent: z.number()
+  }),
+  // Jetties at or above the warning threshold
+  capacity_alerts: z.array(jettyUtilisationSchema)
 });
 
 export type DashboardStats = z.infer<typeof dashboardStatsSchema>;
@@ -1,10 +1,18 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, auditLogTable } from '../db/schema';
-import { type LoginInput } from '../schema';
-import { login, verifyToken, refreshToken, hashPassword } from '../handlers/auth';
-import { eq } from 'drizzle-orm';
+import { usersTable, auditLogTable, refreshTokensTable, loginAttemptsTable } from '../db/schema';
+import { type LoginInput, type RequestActor, type RequestClient } from '../schema';
+import { 
+  login, 
+  verifyToken, 
+  refreshToken, 
+  logout, 
+  logoutAllSessions, 
+  getActiveSessions, 
+  hashPassword 
+} from '../handlers/auth';
+import { eq, and } from 'drizzle-orm';
 
 const JWT_SECRET = process.env['JWT_SECRET'] || 'default-secret-key';
 
@@ -52,6 +60,15 @@ const decodeTestToken = (token: string): any => {
   return JSON.parse(payload);
 };
 
+// Password-only login for users without a second factor
+const loginSession = async (input: LoginInput, client?: RequestClient) => {
+  const result = await login(input, client);
+  if (result.two_factor_required) {
+    throw new Error('Unexpected second-factor challenge');
+  }
+  return result;
+};
+
 // Test user data
 const testUserData = {
   email: 'test@example.com',
@@ -85,7 +102,7 @@ describe('Auth handlers', () => {
         password: testUserData.password
       };
 
-      const result = await login(loginInput);
+      const result = await loginSession(loginInput);
 
       // Verify user data
       expect(result.user.id).toEqual(testUser.id);
@@ -108,6 +125,19 @@ describe('Auth handlers', () => {
       expect(decoded.email).toEqual(testUserData.email);
       expect(decoded.role).toEqual(testUserData.role);
       expect(decoded.type).toEqual('access');
+
+      // Verify refresh token is issued and persisted for the same session
+      expect(typeof result.refreshToken).toBe('string');
+      const decodedRefresh = decodeTestToken(result.refreshToken);
+      expect(decodedRefresh.type).toEqual('refresh');
+      expect(decodedRefresh.sid).toEqual(decoded.sid);
+
+      const storedTokens = await db.select()
+        .from(refreshTokensTable)
+        .where(eq(refreshTokensTable.user_id, testUser.id))
+        .execute();
+      expect(storedTokens).toHaveLength(1);
+      expect(storedTokens[0].family_id).toEqual(decoded.sid);
     });
 
     it('should update last_login timestamp on successful login', async () => {
@@ -128,7 +158,7 @@ describe('Auth handlers', () => {
         password: testUserData.password
       };
 
-      await login(loginInput);
+      await loginSession(loginInput);
 
       // Check that last_login was updated
       const updatedUsers = await db.select()
@@ -157,7 +187,7 @@ describe('Auth handlers', () => {
         password: testUserData.password
       };
 
-      await login(loginInput);
+      await loginSession(loginInput);
 
       // Check audit log entry
       const auditLogs = await db.select()
@@ -222,6 +252,178 @@ describe('Auth handlers', () => {
     });
   });
 
+  describe('brute-force protection', () => {
+    const client = { ip_address: '192.0.2.10', user_agent: 'bun-test' };
+    const wrongLogin: LoginInput = { email: testUserData.email, password: 'wrongpassword' };
+
+    const createLoginUser = async () => {
+      const users = await db.insert(usersTable)
+        .values({
+          ...testUserData,
+          password_hash: await hashPassword(testUserData.password)
+        })
+        .returning()
+        .execute();
+      return users[0];
+    };
+
+    // Move the last failure into the past so the progressive delay has elapsed
+    const expireLoginDelay = async (userId: number) => {
+      await db.update(usersTable)
+        .set({ last_failed_login_at: new Date(Date.now() - 60 * 60 * 1000) })
+        .where(eq(usersTable.id, userId))
+        .execute();
+    };
+
+    const getUser = async (userId: number) => {
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      return users[0];
+    };
+
+    it('should count failed attempts and audit them', async () => {
+      const user = await createLoginUser();
+
+      await expect(login(wrongLogin, client)).rejects.toThrow(/invalid credentials/i);
+
+      const updated = await getUser(user.id);
+      expect(updated.failed_login_attempts).toEqual(1);
+      expect(updated.last_failed_login_at).toBeInstanceOf(Date);
+      expect(updated.locked_until).toBeNull();
+
+      const auditLogs = await db.select()
+        .from(auditLogTable)
+        .where(eq(auditLogTable.user_id, user.id))
+        .execute();
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].action).toEqual('login_failed');
+      expect(auditLogs[0].ip_address).toEqual('192.0.2.10');
+
+      const attempts = await db.select().from(loginAttemptsTable).execute();
+      expect(attempts).toHaveLength(1);
+      expect(attempts[0].user_id).toEqual(user.id);
+      expect(attempts[0].success).toBe(false);
+    });
+
+    it('should record attempts against unknown emails', async () => {
+      await expect(login({ email: 'ghost@example.com', password: 'x' }, client)).rejects.toThrow(/invalid credentials/i);
+
+      const attempts = await db.select().from(loginAttemptsTable).execute();
+      expect(attempts).toHaveLength(1);
+      expect(attempts[0].email).toEqual('ghost@example.com');
+      expect(attempts[0].user_id).toBeNull();
+    });
+
+    it('should delay quick retries after repeated failures', async () => {
+      const user = await createLoginUser();
+
+      await expect(login(wrongLogin, client)).rejects.toThrow(/invalid credentials/i);
+      await expect(login(wrongLogin, client)).rejects.toThrow(/invalid credentials/i);
+
+      // Even the correct password is refused until the delay passes
+      await expect(login({ email: testUserData.email, password: testUserData.password }, client))
+        .rejects.toThrow(/try again in \d+ seconds/i);
+      expect((await getUser(user.id)).failed_login_attempts).toEqual(2);
+
+      await expireLoginDelay(user.id);
+      const result = await loginSession({ email: testUserData.email, password: testUserData.password }, client);
+      expect(result.user.id).toEqual(user.id);
+    });
+
+    it('should lock the account after too many failures', async () => {
+      const user = await createLoginUser();
+
+      for (let i = 0; i < 5; i++) {
+        await expireLoginDelay(user.id);
+        await expect(login(wrongLogin, client)).rejects.toThrow(/invalid credentials/i);
+      }
+
+      const locked = await getUser(user.id);
+      expect(locked.failed_login_attempts).toEqual(5);
+      expect(locked.locked_until).toBeInstanceOf(Date);
+      expect(locked.locked_until!.getTime()).toBeGreaterThan(Date.now());
+
+      await expireLoginDelay(user.id);
+      await expect(login({ email: testUserData.email, password: testUserData.password }, client))
+        .rejects.toThrow(/account is locked/i);
+
+      const lockLogs = await db.select()
+        .from(auditLogTable)
+        .where(and(eq(auditLogTable.user_id, user.id), eq(auditLogTable.action, 'account_locked')))
+        .execute();
+      expect(lockLogs).toHaveLength(1);
+    });
+
+    it('should count every one of concurrent failures', async () => {
+      const user = await createLoginUser();
+
+      // All of these read the account before any failure is written
+      const results = await Promise.allSettled(Array.from({ length: 5 }, () => login(wrongLogin, client)));
+      expect(results.every(result => result.status === 'rejected')).toBe(true);
+
+      const locked = await getUser(user.id);
+      expect(locked.failed_login_attempts).toEqual(5);
+      expect(locked.locked_until!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should start the count afresh after an expired lockout', async () => {
+      const user = await createLoginUser();
+      await db.update(usersTable)
+        .set({
+          failed_login_attempts: 5,
+          last_failed_login_at: new Date(Date.now() - 60 * 60 * 1000),
+          locked_until: new Date(Date.now() - 1000)
+        })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      await expect(login(wrongLogin, client)).rejects.toThrow(/invalid credentials/i);
+
+      const updated = await getUser(user.id);
+      expect(updated.failed_login_attempts).toEqual(1);
+      expect(updated.locked_until).toBeNull();
+    });
+
+    it('should allow login once the lockout expires', async () => {
+      const user = await createLoginUser();
+      await db.update(usersTable)
+        .set({
+          failed_login_attempts: 5,
+          last_failed_login_at: new Date(Date.now() - 60 * 60 * 1000),
+          locked_until: new Date(Date.now() - 1000)
+        })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      await loginSession({ email: testUserData.email, password: testUserData.password }, client);
+
+      const updated = await getUser(user.id);
+      expect(updated.failed_login_attempts).toEqual(0);
+      expect(updated.last_failed_login_at).toBeNull();
+      expect(updated.locked_until).toBeNull();
+    });
+
+    it('should throttle an address with too many failures', async () => {
+      await createLoginUser();
+      await db.insert(loginAttemptsTable)
+        .values(Array.from({ length: 30 }, (_, i) => ({
+          email: `user${i}@example.com`,
+          ip_address: client.ip_address,
+          success: false
+        })))
+        .execute();
+
+      await expect(login({ email: testUserData.email, password: testUserData.password }, client))
+        .rejects.toThrow(/too many failed login attempts from this address/i);
+
+      // Other addresses are unaffected
+      const result = await loginSession(
+        { email: testUserData.email, password: testUserData.password },
+        { ip_address: '192.0.2.99', user_agent: 'bun-test' }
+      );
+      expect(result.token).toBeDefined();
+    });
+  });
+
   describe('verifyToken', () => {
     it('should verify valid access token and return user', async () => {
       // Create test user
@@ -349,8 +551,8 @@ describe('Auth handlers', () => {
   });
 
   describe('refreshToken', () => {
-    it('should generate new tokens with valid refresh token', async () => {
-      // Create test user
+    // Create an active user and start a session through login
+    const createUserSession = async (isActive: boolean = true) => {
       const hashedPassword = await hashPassword(testUserData.password);
       const insertedUsers = await db.insert(usersTable)
         .values({
@@ -360,18 +562,23 @@ describe('Auth handlers', () => {
         .returning()
         .execute();
 
-      const testUser = insertedUsers[0];
+      const session = await loginSession({
+        email: testUserData.email,
+        password: testUserData.password
+      });
 
-      // Generate valid refresh token
-      const oldRefreshToken = await createTestToken(
-        {
-          userId: testUser.id,
-          email: testUser.email,
-          role: testUser.role
-        },
-        'refresh',
-        7 * 24 * 3600 // 7 days
-      );
+      if (!isActive) {
+        await db.update(usersTable)
+          .set({ is_active: false })
+          .where(eq(usersTable.id, insertedUsers[0].id))
+          .execute();
+      }
+
+      return { testUser: insertedUsers[0], ...session };
+    };
+
+    it('should generate new tokens with valid refresh token', async () => {
+      const { testUser, refreshToken: oldRefreshToken } = await createUserSession();
 
       const result = await refreshToken(oldRefreshToken);
 
@@ -379,6 +586,7 @@ describe('Auth handlers', () => {
       expect(result.refreshToken).toBeDefined();
       expect(typeof result.token).toBe('string');
       expect(typeof result.refreshToken).toBe('string');
+      expect(result.refreshToken).not.toEqual(oldRefreshToken);
 
       // Verify new access token
       const decodedAccessToken = decodeTestToken(result.token);
@@ -391,40 +599,37 @@ describe('Auth handlers', () => {
       expect(decodedRefreshToken.type).toEqual('refresh');
     });
 
-    it('should create audit log entry on token refresh', async () => {
-      // Create test user
-      const hashedPassword = await hashPassword(testUserData.password);
-      const insertedUsers = await db.insert(usersTable)
-        .values({
-          ...testUserData,
-          password_hash: hashedPassword
-        })
-        .returning()
+    it('should keep the rotated token in the same session', async () => {
+      const { refreshToken: oldRefreshToken } = await createUserSession();
+
+      const result = await refreshToken(oldRefreshToken);
+
+      expect(decodeTestToken(result.refreshToken).sid).toEqual(decodeTestToken(oldRefreshToken).sid);
+
+      const storedTokens = await db.select()
+        .from(refreshTokensTable)
         .execute();
 
-      const testUser = insertedUsers[0];
+      expect(storedTokens).toHaveLength(2);
+      expect(storedTokens.filter(token => token.rotated_at !== null)).toHaveLength(1);
+      expect(storedTokens.every(token => token.token_hash !== oldRefreshToken)).toBe(true);
+    });
 
-      // Generate valid refresh token
-      const oldRefreshToken = await createTestToken(
-        {
-          userId: testUser.id,
-          email: testUser.email,
-          role: testUser.role
-        },
-        'refresh',
-        7 * 24 * 3600 // 7 days
-      );
+    it('should create audit log entry on token refresh', async () => {
+      const { testUser, refreshToken: oldRefreshToken } = await createUserSession();
 
       await refreshToken(oldRefreshToken);
 
       // Check audit log entry
       const auditLogs = await db.select()
         .from(auditLogTable)
-        .where(eq(auditLogTable.user_id, testUser.id))
+        .where(and(
+          eq(auditLogTable.user_id, testUser.id),
+          eq(auditLogTable.action, 'token_refresh')
+        ))
         .execute();
 
       expect(auditLogs).toHaveLength(1);
-      expect(auditLogs[0].action).toEqual('token_refresh');
       expect(auditLogs[0].table_name).toEqual('users');
       expect(auditLogs[0].record_id).toEqual(testUser.id);
 
@@ -439,8 +644,77 @@ describe('Auth handlers', () => {
       await expect(refreshToken(invalidRefreshToken)).rejects.toThrow();
     });
 
+    it('should reject a correctly signed refresh token that was never issued', async () => {
+      const { testUser } = await createUserSession();
+
+      const forgedToken = await createTestToken(
+        {
+          userId: testUser.id,
+          email: testUser.email,
+          role: testUser.role
+        },
+        'refresh',
+        7 * 24 * 3600 // 7 days
+      );
+
+      await expect(refreshToken(forgedToken)).rejects.toThrow(/invalid refresh token/i);
+    });
+
     it('should reject access token used as refresh token', async () => {
-      // Create test user
+      const { token } = await createUserSession();
+
+      await expect(refreshToken(token)).rejects.toThrow(/invalid refresh token type/i);
+    });
+
+    it('should reject refresh token for inactive user', async () => {
+      const { refreshToken: oldRefreshToken } = await createUserSession(false);
+
+      await expect(refreshToken(oldRefreshToken)).rejects.toThrow(/user not found or inactive/i);
+    });
+
+    it('should revoke the whole session when a rotated token is reused', async () => {
+      const { testUser, refreshToken: oldRefreshToken } = await createUserSession();
+
+      const rotated = await refreshToken(oldRefreshToken);
+
+      await expect(refreshToken(oldRefreshToken)).rejects.toThrow(/reuse detected/i);
+
+      // The legitimately rotated token is now dead as well
+      await expect(refreshToken(rotated.refreshToken)).rejects.toThrow(/revoked/i);
+      expect(await verifyToken(rotated.token)).toBeNull();
+
+      const storedTokens = await db.select()
+        .from(refreshTokensTable)
+        .execute();
+
+      expect(storedTokens.every(token => token.revoked_reason === 'reuse_detected')).toBe(true);
+
+      const auditLogs = await db.select()
+        .from(auditLogTable)
+        .where(and(
+          eq(auditLogTable.user_id, testUser.id),
+          eq(auditLogTable.action, 'refresh_token_reuse')
+        ))
+        .execute();
+
+      expect(auditLogs).toHaveLength(1);
+    });
+
+    it('should honour only one of two concurrent refreshes of the same token', async () => {
+      const { refreshToken: oldRefreshToken } = await createUserSession();
+
+      const results = await Promise.allSettled([
+        refreshToken(oldRefreshToken),
+        refreshToken(oldRefreshToken)
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled').length).toBeLessThanOrEqual(1);
+      expect(results.filter(result => result.status === 'rejected').length).toBeGreaterThanOrEqual(1);
+    });
+  });
+
+  describe('logout', () => {
+    const createUserWithSessions = async (sessionCount: number) => {
       const hashedPassword = await hashPassword(testUserData.password);
       const insertedUsers = await db.insert(usersTable)
         .values({
@@ -450,48 +724,97 @@ describe('Auth handlers', () => {
         .returning()
         .execute();
 
-      const testUser = insertedUsers[0];
+      const sessions = [];
+      for (let i = 0; i < sessionCount; i++) {
+        sessions.push(await loginSession({
+          email: testUserData.email,
+          password: testUserData.password
+        }, { ip_address: `10.0.0.${i + 1}`, user_agent: 'bun-test' }));
+      }
+
+      const actor: RequestActor = {
+        user_id: insertedUsers[0].id,
+        ip_address: '10.0.0.1',
+        user_agent: 'bun-test'
+      };
 
-      // Generate access token (wrong type)
-      const accessToken = await createTestToken(
-        {
-          userId: testUser.id,
-          email: testUser.email,
-          role: testUser.role
-        },
-        'access',
-        3600
-      );
+      return { testUser: insertedUsers[0], sessions, actor };
+    };
+
+    it('should revoke the session of the given refresh token', async () => {
+      const { sessions, actor } = await createUserWithSessions(2);
+
+      const result = await logout(sessions[0].refreshToken, actor);
 
-      await expect(refreshToken(accessToken)).rejects.toThrow(/invalid refresh token type/i);
+      expect(result).toBe(true);
+      await expect(refreshToken(sessions[0].refreshToken)).rejects.toThrow(/revoked/i);
+      expect(await verifyToken(sessions[0].token)).toBeNull();
+
+      // Other sessions stay alive
+      expect(await verifyToken(sessions[1].token)).not.toBeNull();
+      await expect(refreshToken(sessions[1].refreshToken)).resolves.toBeDefined();
     });
 
-    it('should reject refresh token for inactive user', async () => {
-      // Create inactive test user
+    it('should not allow ending another user\'s session', async () => {
+      const { sessions, actor } = await createUserWithSessions(1);
+
+      await expect(logout(sessions[0].refreshToken, { ...actor, user_id: actor.user_id + 1 }))
+        .rejects.toThrow(/session not found/i);
+    });
+
+    it('should revoke all sessions of the acting user', async () => {
+      const { testUser, sessions, actor } = await createUserWithSessions(3);
+
+      const result = await logoutAllSessions(actor);
+
+      expect(result.revoked_sessions).toEqual(3);
+      for (const session of sessions) {
+        await expect(refreshToken(session.refreshToken)).rejects.toThrow(/revoked/i);
+      }
+      expect(await getActiveSessions(testUser.id)).toHaveLength(0);
+
+      const auditLogs = await db.select()
+        .from(auditLogTable)
+        .where(eq(auditLogTable.action, 'logout_all'))
+        .execute();
+
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].ip_address).toEqual('10.0.0.1');
+    });
+  });
+
+  describe('getActiveSessions', () => {
+    it('should list one entry per live session', async () => {
       const hashedPassword = await hashPassword(testUserData.password);
       const insertedUsers = await db.insert(usersTable)
         .values({
           ...testUserData,
-          password_hash: hashedPassword,
-          is_active: false
+          password_hash: hashedPassword
         })
         .returning()
         .execute();
 
-      const testUser = insertedUsers[0];
-
-      // Generate valid refresh token
-      const oldRefreshToken = await createTestToken(
-        {
-          userId: testUser.id,
-          email: testUser.email,
-          role: testUser.role
-        },
-        'refresh',
-        7 * 24 * 3600 // 7 days
-      );
-
-      await expect(refreshToken(oldRefreshToken)).rejects.toThrow(/user not found or inactive/i);
+      const first = await loginSession({ email: testUserData.email, password: testUserData.password }, {
+        ip_address: '10.0.0.1',
+        user_agent: 'Tablet'
+      });
+      await loginSession({ email: testUserData.email, password: testUserData.password }, {
+        ip_address: '10.0.0.2',
+        user_agent: 'Desktop'
+      });
+
+      // Rotation must not create an extra session
+      await refreshToken(first.refreshToken, { ip_address: '10.0.0.1', user_agent: 'Tablet' });
+
+      const sessions = await getActiveSessions(insertedUsers[0].id);
+
+      expect(sessions).toHaveLength(2);
+      expect(new Set(sessions.map(session => session.family_id)).size).toEqual(2);
+      expect(sessions.map(session => session.user_agent).sort()).toEqual(['Desktop', 'Tablet']);
+      sessions.forEach(session => {
+        expect(session.expires_at).toBeInstanceOf(Date);
+        expect(session.session_started_at <= session.last_refreshed_at).toBe(true);
+      });
     });
   });
 
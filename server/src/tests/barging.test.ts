@@ -5,11 +5,13 @@ import {
   usersTable, 
   contractorsTable, 
   jettiesTable, 
+  stockpilesTable,
   stockTable,
-  bargingRecordsTable 
+  bargingRecordsTable,
+  auditLogTable
 } from '../db/schema';
-import { type CreateBargingRecordInput } from '../schema';
-import { createBargingRecord } from '../handlers/barging';
+import { type CreateBargingRecordInput, type RequestActor } from '../schema';
+import { createBargingRecord, validateStockForBarging, voidBargingRecord, correctBargingRecord } from '../handlers/barging';
 import { eq, and } from 'drizzle-orm';
 
 describe('createBargingRecord', () => {
@@ -19,6 +21,7 @@ describe('createBargingRecord', () => {
   // Test data setup
   let testContractorId: number;
   let testJettyId: number;
+  let testStockpileId: number;
   let testOperatorId: number;
   let testStockId: number;
 
@@ -63,11 +66,23 @@ describe('createBargingRecord', () => {
       .execute();
     testJettyId = jettyResult[0].id;
 
+    const stockpileResult = await db.insert(stockpilesTable)
+      .values({
+        jetty_id: testJettyId,
+        code: 'DEFAULT',
+        capacity: '5000.00'
+      })
+      .returning()
+      .execute();
+    testStockpileId = stockpileResult[0].id;
+
     // Create test stock record
     const stockResult = await db.insert(stockTable)
       .values({
         contractor_id: testContractorId,
         jetty_id: testJettyId,
+        stockpile_id: testStockpileId,
+        coal_grade: 'high',
         tonnage: '1000.00', // 1000 tons available
         version: 1
       })
@@ -80,19 +95,25 @@ describe('createBargingRecord', () => {
     date_time: new Date('2024-01-15T10:30:00Z'),
     contractor_id: testContractorId,
     ship_batch_number: 'SHIP-001',
+    coal_grade: 'high',
     tonnage: 500, // Request 500 tons
     jetty_id: testJettyId,
     buyer: 'Test Buyer Company',
     loading_document: 'LOAD-DOC-001',
-    operator_id: testOperatorId,
     notes: 'Test barging operation'
   });
 
+  const createActor = (userId: number = testOperatorId): RequestActor => ({
+    user_id: userId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
   it('should create a barging record successfully', async () => {
     await setupTestData();
     const input = createValidInput();
 
-    const result = await createBargingRecord(input);
+    const result = await createBargingRecord(input, createActor());
 
     // Verify barging record fields
     expect(result.id).toBeDefined();
@@ -100,6 +121,7 @@ describe('createBargingRecord', () => {
     expect(result.contractor_id).toEqual(testContractorId);
     expect(result.ship_batch_number).toEqual('SHIP-001');
     expect(result.tonnage).toEqual(500);
+    expect(result.coal_grade).toEqual('high');
     expect(result.jetty_id).toEqual(testJettyId);
     expect(result.buyer).toEqual('Test Buyer Company');
     expect(result.loading_document).toEqual('LOAD-DOC-001');
@@ -123,7 +145,7 @@ describe('createBargingRecord', () => {
     await setupTestData();
     const input = createValidInput();
 
-    await createBargingRecord(input);
+    await createBargingRecord(input, createActor());
 
     // Check stock was reduced
     const updatedStock = await db.select()
@@ -143,15 +165,15 @@ describe('createBargingRecord', () => {
       date_time: new Date('2024-01-15T10:30:00Z'),
       contractor_id: testContractorId,
       ship_batch_number: 'SHIP-002',
+      coal_grade: 'high',
       tonnage: 300,
       jetty_id: testJettyId,
       buyer: null,
       loading_document: null,
-      operator_id: testOperatorId,
       notes: null
     };
 
-    const result = await createBargingRecord(input);
+    const result = await createBargingRecord(input, createActor());
 
     expect(result.ship_batch_number).toEqual('SHIP-002');
     expect(result.tonnage).toEqual(300);
@@ -165,7 +187,7 @@ describe('createBargingRecord', () => {
     const input = createValidInput();
     input.contractor_id = 99999; // Non-existent contractor
 
-    await expect(createBargingRecord(input)).rejects.toThrow(/contractor.*not found/i);
+    await expect(createBargingRecord(input, createActor())).rejects.toThrow(/contractor.*not found/i);
   });
 
   it('should reject barging with inactive contractor', async () => {
@@ -179,7 +201,7 @@ describe('createBargingRecord', () => {
 
     const input = createValidInput();
 
-    await expect(createBargingRecord(input)).rejects.toThrow(/contractor.*inactive/i);
+    await expect(createBargingRecord(input, createActor())).rejects.toThrow(/contractor.*inactive/i);
   });
 
   it('should reject barging with non-existent jetty', async () => {
@@ -187,7 +209,7 @@ describe('createBargingRecord', () => {
     const input = createValidInput();
     input.jetty_id = 99999; // Non-existent jetty
 
-    await expect(createBargingRecord(input)).rejects.toThrow(/jetty.*not found/i);
+    await expect(createBargingRecord(input, createActor())).rejects.toThrow(/jetty.*not found/i);
   });
 
   it('should reject barging with inactive jetty', async () => {
@@ -201,15 +223,14 @@ describe('createBargingRecord', () => {
 
     const input = createValidInput();
 
-    await expect(createBargingRecord(input)).rejects.toThrow(/jetty.*inactive/i);
+    await expect(createBargingRecord(input, createActor())).rejects.toThrow(/jetty.*inactive/i);
   });
 
   it('should reject barging with non-existent operator', async () => {
     await setupTestData();
     const input = createValidInput();
-    input.operator_id = 99999; // Non-existent operator
 
-    await expect(createBargingRecord(input)).rejects.toThrow(/operator.*not found/i);
+    await expect(createBargingRecord(input, createActor(99999))).rejects.toThrow(/operator.*not found/i);
   });
 
   it('should reject barging with inactive operator', async () => {
@@ -223,7 +244,7 @@ describe('createBargingRecord', () => {
 
     const input = createValidInput();
 
-    await expect(createBargingRecord(input)).rejects.toThrow(/operator.*inactive/i);
+    await expect(createBargingRecord(input, createActor())).rejects.toThrow(/operator.*inactive/i);
   });
 
   it('should reject barging with insufficient stock', async () => {
@@ -231,7 +252,7 @@ describe('createBargingRecord', () => {
     const input = createValidInput();
     input.tonnage = 1500; // More than available (1000 tons)
 
-    await expect(createBargingRecord(input)).rejects.toThrow(/insufficient stock/i);
+    await expect(createBargingRecord(input, createActor())).rejects.toThrow(/insufficient stock/i);
   });
 
   it('should reject barging with zero or negative tonnage', async () => {
@@ -240,12 +261,12 @@ describe('createBargingRecord', () => {
     const zeroTonnageInput = createValidInput();
     zeroTonnageInput.tonnage = 0;
 
-    await expect(createBargingRecord(zeroTonnageInput)).rejects.toThrow(/tonnage must be positive/i);
+    await expect(createBargingRecord(zeroTonnageInput, createActor())).rejects.toThrow(/tonnage must be positive/i);
 
     const negativeTonnageInput = createValidInput();
     negativeTonnageInput.tonnage = -100;
 
-    await expect(createBargingRecord(negativeTonnageInput)).rejects.toThrow(/tonnage must be positive/i);
+    await expect(createBargingRecord(negativeTonnageInput, createActor())).rejects.toThrow(/tonnage must be positive/i);
   });
 
   it('should reject barging when no stock exists for contractor-jetty combination', async () => {
@@ -265,7 +286,7 @@ describe('createBargingRecord', () => {
     const input = createValidInput();
     input.jetty_id = anotherJettyResult[0].id; // No stock for this jetty
 
-    await expect(createBargingRecord(input)).rejects.toThrow(/no stock found/i);
+    await expect(createBargingRecord(input, createActor())).rejects.toThrow(/no stock found/i);
   });
 
   it('should handle optimistic locking conflict', async () => {
@@ -290,8 +311,8 @@ describe('createBargingRecord', () => {
 
     // Execute both operations simultaneously - one should fail due to optimistic locking
     const results = await Promise.allSettled([
-      createBargingRecord(input1),
-      createBargingRecord(input2)
+      createBargingRecord(input1, createActor()),
+      createBargingRecord(input2, createActor())
     ]);
 
     // One should succeed, one should fail
@@ -311,7 +332,7 @@ describe('createBargingRecord', () => {
     const input = createValidInput();
     input.tonnage = 1000; // Exact available stock
 
-    const result = await createBargingRecord(input);
+    const result = await createBargingRecord(input, createActor());
 
     expect(result.tonnage).toEqual(1000);
 
@@ -332,7 +353,7 @@ describe('createBargingRecord', () => {
     firstInput.ship_batch_number = 'SHIP-001';
     firstInput.tonnage = 400;
 
-    const firstResult = await createBargingRecord(firstInput);
+    const firstResult = await createBargingRecord(firstInput, createActor());
     expect(firstResult.tonnage).toEqual(400);
 
     // Second barging: 300 tons
@@ -340,7 +361,7 @@ describe('createBargingRecord', () => {
     secondInput.ship_batch_number = 'SHIP-002';
     secondInput.tonnage = 300;
 
-    const secondResult = await createBargingRecord(secondInput);
+    const secondResult = await createBargingRecord(secondInput, createActor());
     expect(secondResult.tonnage).toEqual(300);
 
     // Check final stock
@@ -357,6 +378,143 @@ describe('createBargingRecord', () => {
     thirdInput.ship_batch_number = 'SHIP-003';
     thirdInput.tonnage = 400; // More than remaining
 
-    await expect(createBargingRecord(thirdInput)).rejects.toThrow(/insufficient stock/i);
+    await expect(createBargingRecord(thirdInput, createActor())).rejects.toThrow(/insufficient stock/i);
+  });
+
+  it('should only draw on stock of the requested grade', async () => {
+    await setupTestData();
+    const input = createValidInput();
+    input.coal_grade = 'low'; // Only high grade is stocked
+
+    await expect(createBargingRecord(input, createActor())).rejects.toThrow(/no stock found/i);
+
+    const stock = await db.select()
+      .from(stockTable)
+      .where(eq(stockTable.id, testStockId))
+      .execute();
+    expect(parseFloat(stock[0].tonnage)).toEqual(1000);
+  });
+
+  it('should validate stock for barging against the grade balance', async () => {
+    await setupTestData();
+
+    expect(await validateStockForBarging(testContractorId, testJettyId, 'high', 800))
+      .toEqual({ valid: true, availableStock: 1000 });
+
+    const tooMuch = await validateStockForBarging(testContractorId, testJettyId, 'high', 1200);
+    expect(tooMuch.valid).toBe(false);
+    expect(tooMuch.availableStock).toEqual(1000);
+    expect(tooMuch.message).toMatch(/insufficient high grade stock/i);
+
+    const otherGrade = await validateStockForBarging(testContractorId, testJettyId, 'medium', 10);
+    expect(otherGrade.valid).toBe(false);
+    expect(otherGrade.availableStock).toEqual(0);
+  });
+
+  it('should only validate stock in the caller\'s scope', async () => {
+    await setupTestData();
+    const otherJetty = { unrestricted: false, grants: [{ jetty_id: testJettyId + 1, contractor_id: null }] };
+    const ownJetty = { unrestricted: false, grants: [{ jetty_id: testJettyId, contractor_id: null }] };
+
+    await expect(validateStockForBarging(testContractorId, testJettyId, 'high', 800, undefined, otherJetty))
+      .rejects.toThrow(/does not cover jetty/);
+    expect((await validateStockForBarging(testContractorId, testJettyId, 'high', 800, undefined, ownJetty)).availableStock).toEqual(1000);
+  });
+
+  it('should draw on the named stockpile only', async () => {
+    await setupTestData();
+    const pile = await db.insert(stockpilesTable)
+      .values({ jetty_id: testJettyId, code: 'SP-2', capacity: '2000.00' })
+      .returning()
+      .execute();
+    await db.insert(stockTable)
+      .values({ contractor_id: testContractorId, jetty_id: testJettyId, stockpile_id: pile[0].id, coal_grade: 'high', tonnage: '300.00' })
+      .execute();
+
+    const input = { ...createValidInput(), stockpile_id: pile[0].id };
+    await expect(createBargingRecord(input, createActor())).rejects.toThrow(/insufficient/i);
+
+    const result = await createBargingRecord({ ...input, tonnage: 300 }, createActor());
+    expect(result.stockpile_id).toEqual(pile[0].id);
+
+    const stock = await db.select().from(stockTable).execute();
+    expect(parseFloat(stock.find(row => row.stockpile_id === pile[0].id)!.tonnage)).toEqual(0);
+    expect(parseFloat(stock.find(row => row.stockpile_id === testStockpileId)!.tonnage)).toEqual(1000);
+
+    expect((await validateStockForBarging(testContractorId, testJettyId, 'high', 100, pile[0].id)).valid).toBe(false);
+    expect((await validateStockForBarging(testContractorId, testJettyId, 'high', 100)).valid).toBe(true);
+  });
+
+  it('should void a barging record and put its tonnage back on stock', async () => {
+    await setupTestData();
+    const record = await createBargingRecord(createValidInput(), createActor());
+
+    const voidRecord = await voidBargingRecord({ id: record.id, reason: 'Barge never left' }, createActor());
+    expect(voidRecord.entry_type).toEqual('void');
+    expect(voidRecord.compensates_id).toEqual(record.id);
+    expect(voidRecord.tonnage).toEqual(-500);
+    expect(voidRecord.notes).toEqual('Barge never left');
+
+    const [original] = await db.select().from(bargingRecordsTable).where(eq(bargingRecordsTable.id, record.id)).execute();
+    expect(original.tonnage).toEqual('500.00');
+    expect(original.entry_type).toEqual('original');
+
+    const [stock] = await db.select().from(stockTable).where(eq(stockTable.id, testStockId)).execute();
+    expect(parseFloat(stock.tonnage)).toEqual(1000);
+
+    await expect(voidBargingRecord({ id: record.id, reason: 'Again' }, createActor()))
+      .rejects.toThrow(/already been voided by record #\d+/);
+    await expect(correctBargingRecord({ id: voidRecord.id, reason: 'Undo', tonnage: 1 }, createActor()))
+      .rejects.toThrow(/cannot itself be voided or corrected/);
+
+    const auditLogs = await db.select()
+      .from(auditLogTable)
+      .where(and(eq(auditLogTable.action, 'barging_void'), eq(auditLogTable.record_id, record.id)))
+      .execute();
+    expect(auditLogs).toHaveLength(1);
+    expect((auditLogs[0].old_values as { tonnage: number }).tonnage).toEqual(500);
+  });
+
+  it('should correct a barging record through a void and a correction record', async () => {
+    await setupTestData();
+    const record = await createBargingRecord(createValidInput(), createActor());
+
+    const correction = await correctBargingRecord({ id: record.id, reason: 'Draft survey came in lower', tonnage: 480 }, createActor());
+    expect(correction.entry_type).toEqual('correction');
+    expect(correction.compensates_id).toEqual(record.id);
+    expect(correction.tonnage).toEqual(480);
+    expect(correction.ship_batch_number).toEqual('SHIP-001');
+
+    const records = await db.select().from(bargingRecordsTable).where(eq(bargingRecordsTable.compensates_id, record.id)).execute();
+    expect(records.map(row => [row.entry_type, row.tonnage]).sort()).toEqual([['correction', '480.00'], ['void', '-500.00']]);
+
+    const [stock] = await db.select().from(stockTable).where(eq(stockTable.id, testStockId)).execute();
+    expect(parseFloat(stock.tonnage)).toEqual(520);
+
+    // The correction takes the original's place
+    await expect(correctBargingRecord({ id: record.id, reason: 'Again', tonnage: 470 }, createActor()))
+      .rejects.toThrow(/already been corrected by record #\d+/);
+    await expect(correctBargingRecord({ id: correction.id, reason: 'Final figures', tonnage: 1020 }, createActor()))
+      .rejects.toThrow(/insufficient stock/i);
+    await expect(correctBargingRecord({ id: correction.id, reason: 'Nothing', tonnage: 480 }, createActor()))
+      .rejects.toThrow(/changes nothing/);
+
+    const auditLogs = await db.select()
+      .from(auditLogTable)
+      .where(eq(auditLogTable.action, 'barging_correct'))
+      .execute();
+    expect(auditLogs).toHaveLength(1);
+    expect(auditLogs[0].new_values).toMatchObject({ reason: 'Draft survey came in lower', correction_record: { tonnage: 480 } });
+  });
+
+  it('should only void and correct within the caller scope', async () => {
+    await setupTestData();
+    const record = await createBargingRecord(createValidInput(), createActor());
+    const otherJettyScope = { unrestricted: false, grants: [{ jetty_id: testJettyId + 1, contractor_id: null }] };
+
+    await expect(voidBargingRecord({ id: record.id, reason: 'Mistake' }, createActor(), otherJettyScope))
+      .rejects.toThrow(/'barging.correct' does not cover jetty/);
+    await expect(voidBargingRecord({ id: 99999, reason: 'Mistake' }, createActor()))
+      .rejects.toThrow(/not found/);
   });
-});
\ No newline at end of file
+});
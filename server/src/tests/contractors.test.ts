@@ -1,10 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { contractorsTable, stockTable, usersTable, jettiesTable, auditLogTable } from '../db/schema';
+import { contractorsTable, stockTable, usersTable, jettiesTable, stockpilesTable, auditLogTable } from '../db/schema';
 import { 
   type CreateContractorInput, 
-  type UpdateContractorInput 
+  type UpdateContractorInput,
+  type RequestActor
 } from '../schema';
 import { 
   createContractor, 
@@ -15,6 +16,12 @@ import {
 } from '../handlers/contractors';
 import { eq } from 'drizzle-orm';
 
+const createActor = (userId: number): RequestActor => ({
+  user_id: userId,
+  ip_address: '127.0.0.1',
+  user_agent: 'bun-test'
+});
+
 // Test data
 const testContractorInput: CreateContractorInput = {
   name: 'Test Contractor Ltd',
@@ -121,7 +128,7 @@ describe('Contractors Handler', () => {
         .execute();
 
       // Soft delete first contractor
-      await deleteContractor(contractor1.id, testUser[0].id);
+      await deleteContractor(contractor1.id, createActor(testUser[0].id));
 
       const result = await getContractors();
 
@@ -161,7 +168,7 @@ describe('Contractors Handler', () => {
         .returning()
         .execute();
 
-      await deleteContractor(contractor.id, testUser[0].id);
+      await deleteContractor(contractor.id, createActor(testUser[0].id));
 
       const result = await getContractorById(contractor.id);
       expect(result).toBeNull();
@@ -261,7 +268,7 @@ describe('Contractors Handler', () => {
     it('should soft delete contractor successfully', async () => {
       const contractor = await createContractor(testContractorInput);
 
-      const result = await deleteContractor(contractor.id, testUserId);
+      const result = await deleteContractor(contractor.id, createActor(testUserId));
 
       expect(result).toBe(true);
 
@@ -277,7 +284,7 @@ describe('Contractors Handler', () => {
     it('should create audit log entry', async () => {
       const contractor = await createContractor(testContractorInput);
 
-      await deleteContractor(contractor.id, testUserId);
+      await deleteContractor(contractor.id, createActor(testUserId));
 
       const auditEntries = await db.select()
         .from(auditLogTable)
@@ -288,10 +295,12 @@ describe('Contractors Handler', () => {
       expect(auditEntries[0].action).toEqual('DELETE');
       expect(auditEntries[0].table_name).toEqual('contractors');
       expect(auditEntries[0].user_id).toEqual(testUserId);
+      expect(auditEntries[0].ip_address).toEqual('127.0.0.1');
+      expect(auditEntries[0].user_agent).toEqual('bun-test');
     });
 
     it('should throw error for non-existent contractor', async () => {
-      await expect(deleteContractor(999, testUserId))
+      await expect(deleteContractor(999, createActor(testUserId)))
         .rejects.toThrow(/not found/i);
     });
 
@@ -307,17 +316,23 @@ describe('Contractors Handler', () => {
         })
         .returning()
         .execute();
+      const stockpile = await db.insert(stockpilesTable)
+        .values({ jetty_id: jetty[0].id, code: 'DEFAULT', capacity: '1000.00' })
+        .returning()
+        .execute();
 
       // Create stock for the contractor
       await db.insert(stockTable)
         .values({
           contractor_id: contractor.id,
           jetty_id: jetty[0].id,
+          stockpile_id: stockpile[0].id,
+          coal_grade: 'high',
           tonnage: '100.50' // Active stock
         })
         .execute();
 
-      await expect(deleteContractor(contractor.id, testUserId))
+      await expect(deleteContractor(contractor.id, createActor(testUserId)))
         .rejects.toThrow(/active stock/i);
     });
 
@@ -333,17 +348,23 @@ describe('Contractors Handler', () => {
         })
         .returning()
         .execute();
+      const stockpile = await db.insert(stockpilesTable)
+        .values({ jetty_id: jetty[0].id, code: 'DEFAULT', capacity: '1000.00' })
+        .returning()
+        .execute();
 
       // Create zero stock for the contractor
       await db.insert(stockTable)
         .values({
           contractor_id: contractor.id,
           jetty_id: jetty[0].id,
+          stockpile_id: stockpile[0].id,
+          coal_grade: 'high',
           tonnage: '0.00' // Zero stock
         })
         .execute();
 
-      const result = await deleteContractor(contractor.id, testUserId);
+      const result = await deleteContractor(contractor.id, createActor(testUserId));
       expect(result).toBe(true);
     });
   });
@@ -0,0 +1,255 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { contractorsTable, usersTable, stockTable, stockpilesTable } from '../db/schema';
+import {
+  type RequestActor,
+  type CreateBargingRecordInput,
+  type CreateSalesContractInput
+} from '../schema';
+import { createJetty } from '../handlers/jetties';
+import { createBargingRecord, voidBargingRecord, correctBargingRecord } from '../handlers/barging';
+import { createVessel } from '../handlers/vessels';
+import { createShipment, updateShipment } from '../handlers/shipments';
+import { normalizeBuyerName, createBuyer, updateBuyer, getBuyers } from '../handlers/buyers';
+import {
+  createSalesContract,
+  updateSalesContract,
+  getSalesContracts,
+  getContractFulfilment
+} from '../handlers/contracts';
+import { eq } from 'drizzle-orm';
+
+describe('buyers and sales contracts', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const setupTestData = async () => {
+    const contractors = await db.insert(contractorsTable)
+      .values({ name: 'Contractor One', code: 'C001', contact_person: 'John Doe', default_grade: 'high' })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'operator@example.com',
+        username: 'operator',
+        password_hash: 'hashed_password',
+        full_name: 'Barging Operator',
+        role: 'operator_barging'
+      })
+      .returning()
+      .execute();
+
+    const jetty = await createJetty({ name: 'Jetty Alpha', code: 'JA', capacity: 50000 });
+    const [stockpile] = await db.select().from(stockpilesTable).where(eq(stockpilesTable.jetty_id, jetty.id)).execute();
+    await db.insert(stockTable)
+      .values({
+        contractor_id: contractors[0].id,
+        jetty_id: jetty.id,
+        stockpile_id: stockpile.id,
+        coal_grade: 'high',
+        tonnage: '20000.00'
+      })
+      .execute();
+
+    const buyer = await createBuyer({ name: 'PT Abc', country: 'Indonesia', contact_person: null });
+
+    return { contractor: contractors[0], user: users[0], jetty, buyer };
+  };
+
+  const createActor = (userId: number): RequestActor => ({
+    user_id: userId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
+  const contractInput = (buyerId: number, overrides: Partial<CreateSalesContractInput> = {}): CreateSalesContractInput => ({
+    buyer_id: buyerId,
+    contract_number: 'SC-2024-001',
+    total_quantity: 3000,
+    tolerance_percent: 10,
+    price_basis: 'fob_barge',
+    price_per_ton: 85.5,
+    min_calorific_value: 5800,
+    max_total_moisture: 25,
+    max_ash: null,
+    max_sulphur: 0.8,
+    valid_from: new Date('2024-01-01T00:00:00Z'),
+    valid_to: new Date('2099-12-31T00:00:00Z'),
+    notes: null,
+    ...overrides
+  });
+
+  const bargeLoad = (contractorId: number, jettyId: number, tonnage: number, overrides: Partial<CreateBargingRecordInput> = {}): CreateBargingRecordInput => ({
+    date_time: new Date('2024-06-02T08:00:00Z'),
+    contractor_id: contractorId,
+    ship_batch_number: 'BG-01',
+    tonnage,
+    coal_grade: 'high',
+    jetty_id: jettyId,
+    buyer: null,
+    loading_document: null,
+    notes: null,
+    ...overrides
+  });
+
+  it('should treat buyer names that differ only in case and punctuation as one buyer', async () => {
+    const { buyer } = await setupTestData();
+
+    expect(normalizeBuyerName('PT. ABC')).toEqual(normalizeBuyerName('pt abc'));
+    expect(buyer.name_key).toEqual('PTABC');
+
+    await expect(createBuyer({ name: 'PT. ABC', country: null, contact_person: null }))
+      .rejects.toThrow(/Buyer 'PT Abc' already exists/);
+    await expect(createBuyer({ name: '...', country: null, contact_person: null }))
+      .rejects.toThrow(/not a valid buyer name/);
+
+    const other = await createBuyer({ name: 'Pacific Power Co', country: 'Taiwan', contact_person: 'Lin' });
+    await expect(updateBuyer({ id: other.id, name: 'P.T. ABC' })).rejects.toThrow(/already exists/);
+
+    const renamed = await updateBuyer({ id: buyer.id, name: 'PT. ABC' });
+    expect(renamed.name).toEqual('PT. ABC');
+    expect((await getBuyers()).map(entry => entry.name)).toEqual(['PT. ABC', 'Pacific Power Co']);
+  });
+
+  it('should validate sales contracts and filter them by validity', async () => {
+    const { buyer } = await setupTestData();
+
+    const contract = await createSalesContract(contractInput(buyer.id));
+    expect(contract.total_quantity).toEqual(3000);
+    expect(contract.price_per_ton).toEqual(85.5);
+    expect(contract.spec_basis).toEqual('gar');
+    expect(contract.max_ash).toBeNull();
+
+    await expect(createSalesContract(contractInput(buyer.id)))
+      .rejects.toThrow(/SC-2024-001 already exists/);
+    await expect(createSalesContract(contractInput(buyer.id, {
+      contract_number: 'SC-2024-002',
+      valid_to: new Date('2023-12-31T00:00:00Z')
+    }))).rejects.toThrow(/must not end before it starts/);
+
+    await updateBuyer({ id: buyer.id, is_active: false });
+    await expect(createSalesContract(contractInput(buyer.id, { contract_number: 'SC-2024-003' })))
+      .rejects.toThrow(/not found or inactive/);
+
+    const updated = await updateSalesContract({ id: contract.id, tolerance_percent: 5, valid_to: new Date('2024-12-31T00:00:00Z') });
+    expect(updated.tolerance_percent).toEqual(5);
+    await expect(updateSalesContract({ id: contract.id, valid_from: new Date('2025-01-01T00:00:00Z') }))
+      .rejects.toThrow(/must not end before it starts/);
+
+    expect(await getSalesContracts({ valid_on: new Date('2024-06-01T00:00:00Z') })).toHaveLength(1);
+    expect(await getSalesContracts({ valid_on: new Date('2025-06-01T00:00:00Z') })).toHaveLength(0);
+  });
+
+  it('should record barge loads against a contract and its buyer', async () => {
+    const { contractor, user, jetty, buyer } = await setupTestData();
+    const actor = createActor(user.id);
+    const contract = await createSalesContract(contractInput(buyer.id));
+
+    // Free-text buyers are stored under the registered name
+    const loose = await createBargingRecord(bargeLoad(contractor.id, jetty.id, 500, { buyer: 'pt. abc' }), actor);
+    expect(loose.buyer).toEqual('PT Abc');
+    expect(loose.contract_id).toBeNull();
+    const unknown = await createBargingRecord(bargeLoad(contractor.id, jetty.id, 500, { buyer: 'Walk-in Trader' }), actor);
+    expect(unknown.buyer).toEqual('Walk-in Trader');
+
+    const load = await createBargingRecord(bargeLoad(contractor.id, jetty.id, 1000, { contract_id: contract.id }), actor);
+    expect(load.contract_id).toEqual(contract.id);
+    expect(load.buyer).toEqual('PT Abc');
+
+    await expect(createBargingRecord(bargeLoad(contractor.id, jetty.id, 1000, { contract_id: contract.id, buyer: 'Pacific Power Co' }), actor))
+      .rejects.toThrow(/is not the buyer under sales contract SC-2024-001/);
+    await expect(createBargingRecord(bargeLoad(contractor.id, jetty.id, 1000, {
+      contract_id: contract.id,
+      date_time: new Date('2023-06-02T08:00:00Z')
+    }), actor)).rejects.toThrow(/SC-2024-001 is not valid on 2023-06-02/);
+
+    // Loads to a shipment under contract take the shipment's contract
+    const vessel = await createVessel({ name: 'MV Ocean Star', imo_number: 'IMO 9074729' });
+    const shipment = await createShipment({
+      vessel_id: vessel.id,
+      buyer: 'PT. ABC',
+      destination_port: 'Kaohsiung',
+      laycan_start: new Date('2024-06-01T00:00:00Z'),
+      laycan_end: new Date('2024-06-05T00:00:00Z'),
+      nominated_quantity: 3000,
+      notes: null,
+      contract_id: contract.id
+    });
+    expect(shipment.buyer).toEqual('PT Abc');
+    expect(shipment.contract_id).toEqual(contract.id);
+
+    const shipped = await createBargingRecord(bargeLoad(contractor.id, jetty.id, 1000, { shipment_id: shipment.id }), actor);
+    expect(shipped.contract_id).toEqual(contract.id);
+
+    const otherBuyer = await createBuyer({ name: 'Pacific Power Co', country: null, contact_person: null });
+    const otherContract = await createSalesContract(contractInput(otherBuyer.id, { contract_number: 'SC-2024-002' }));
+    await expect(createBargingRecord(bargeLoad(contractor.id, jetty.id, 1000, { shipment_id: shipment.id, contract_id: otherContract.id }), actor))
+      .rejects.toThrow(/is sold under sales contract/);
+    await expect(updateShipment({ id: shipment.id, contract_id: otherContract.id, buyer: 'PT Abc' }))
+      .rejects.toThrow(/is not the buyer under sales contract SC-2024-002/);
+
+    // Moving a load to another contract moves it to that contract's buyer
+    const moved = await correctBargingRecord({ id: load.id, reason: 'Sold on the other contract', contract_id: otherContract.id }, actor);
+    expect(moved.contract_id).toEqual(otherContract.id);
+    expect(moved.buyer).toEqual('Pacific Power Co');
+    await expect(correctBargingRecord({ id: shipped.id, reason: 'Wrong contract', contract_id: otherContract.id }, actor))
+      .rejects.toThrow(/is sold under sales contract/);
+  });
+
+  it('should report delivery against the contracted quantity and tolerance', async () => {
+    const { contractor, user, jetty, buyer } = await setupTestData();
+    const actor = createActor(user.id);
+    const contract = await createSalesContract(contractInput(buyer.id));
+
+    const vessel = await createVessel({ name: 'MV Ocean Star', imo_number: 'IMO 9074729' });
+    const shipment = await createShipment({
+      vessel_id: vessel.id,
+      buyer: 'PT Abc',
+      destination_port: 'Kaohsiung',
+      laycan_start: new Date('2024-06-01T00:00:00Z'),
+      laycan_end: new Date('2024-06-05T00:00:00Z'),
+      nominated_quantity: 3000,
+      notes: null,
+      contract_id: contract.id
+    });
+
+    await createBargingRecord(bargeLoad(contractor.id, jetty.id, 1000, { shipment_id: shipment.id }), actor);
+    await createBargingRecord(bargeLoad(contractor.id, jetty.id, 1000, { shipment_id: shipment.id }), actor);
+    const duplicate = await createBargingRecord(bargeLoad(contractor.id, jetty.id, 1000, { shipment_id: shipment.id }), actor);
+    await voidBargingRecord({ id: duplicate.id, reason: 'Entered twice' }, actor);
+    await createBargingRecord(bargeLoad(contractor.id, jetty.id, 500, { contract_id: contract.id }), actor);
+
+    const progress = await getContractFulfilment(contract.id);
+    expect(progress.buyer_name).toEqual('PT Abc');
+    expect(progress.minimum_quantity).toEqual(2700);
+    expect(progress.maximum_quantity).toEqual(3300);
+    expect(progress.delivered_tonnage).toEqual(2500);
+    expect(progress.delivered_percent).toEqual(83.33);
+    expect(progress.remaining_to_minimum).toEqual(200);
+    expect(progress.barge_loads).toEqual(3);
+    expect(progress.by_shipment).toEqual([
+      { shipment_id: shipment.id, vessel_name: 'MV Ocean Star', tonnage: 2000, barge_loads: 2 },
+      { shipment_id: null, vessel_name: null, tonnage: 500, barge_loads: 1 }
+    ]);
+    expect(progress.status).toEqual('in_progress');
+
+    // Short of the tolerance band once the contract has expired
+    await updateSalesContract({ id: contract.id, valid_to: new Date('2024-12-31T00:00:00Z') });
+    expect((await getContractFulfilment(contract.id)).status).toEqual('under_delivered');
+
+    await createBargingRecord(bargeLoad(contractor.id, jetty.id, 500, { contract_id: contract.id }), actor);
+    expect((await getContractFulfilment(contract.id)).status).toEqual('within_tolerance');
+
+    await createBargingRecord(bargeLoad(contractor.id, jetty.id, 400, { contract_id: contract.id }), actor);
+    const over = await getContractFulfilment(contract.id);
+    expect(over.delivered_tonnage).toEqual(3400);
+    expect(over.remaining_to_maximum).toEqual(0);
+    expect(over.status).toEqual('over_delivered');
+
+    const otherContractor = { unrestricted: false, grants: [{ jetty_id: jetty.id, contractor_id: contractor.id + 1 }] };
+    expect((await getContractFulfilment(contract.id, otherContractor)).delivered_tonnage).toEqual(0);
+    await expect(getContractFulfilment(99999)).rejects.toThrow(/Sales contract with ID 99999 not found/);
+  });
+});
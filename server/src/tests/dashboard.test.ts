@@ -4,11 +4,13 @@ import { db } from '../db';
 import {
   usersTable,
   jettiesTable,
+  stockpilesTable,
   contractorsTable,
   productionRecordsTable,
   bargingRecordsTable,
   stockTable,
   stockAdjustmentsTable,
+  stockMovementsTable,
   fuelPurchasesTable,
   fuelUsageTable
 } from '../db/schema';
@@ -19,6 +21,7 @@ import {
   getStockTrends,
   getContractorPerformance
 } from '../handlers/dashboard';
+import { eq } from 'drizzle-orm';
 
 describe('Dashboard Handlers', () => {
   beforeEach(createDB);
@@ -58,6 +61,12 @@ describe('Dashboard Handlers', () => {
       }
     ]).returning().execute();
 
+    const stockpiles = await db.insert(stockpilesTable).values(jetties.map(jetty => ({
+      jetty_id: jetty.id,
+      code: 'DEFAULT',
+      capacity: jetty.capacity
+    }))).returning().execute();
+
     // Create contractors
     const contractors = await db.insert(contractorsTable).values([
       {
@@ -77,18 +86,37 @@ describe('Dashboard Handlers', () => {
     ]).returning().execute();
 
     // Create stock records
-    await db.insert(stockTable).values([
+    const stocks = await db.insert(stockTable).values([
       {
         contractor_id: contractors[0].id,
         jetty_id: jetties[0].id,
+        stockpile_id: stockpiles[0].id,
+        coal_grade: 'high',
         tonnage: '1500.50'
       },
       {
         contractor_id: contractors[1].id,
         jetty_id: jetties[1].id,
+        stockpile_id: stockpiles[1].id,
+        coal_grade: 'medium',
         tonnage: '2000.75'
       }
-    ]).execute();
+    ]).returning().execute();
+
+    // Ledger movements behind the stock records, so historical balances match them
+    const openedAt = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
+    await db.insert(stockMovementsTable).values(stocks.map(stock => ({
+      stock_id: stock.id,
+      contractor_id: stock.contractor_id,
+      jetty_id: stock.jetty_id,
+      stockpile_id: stock.stockpile_id,
+      coal_grade: stock.coal_grade,
+      movement_type: 'production' as const,
+      change: stock.tonnage,
+      balance_after: stock.tonnage,
+      occurred_at: openedAt,
+      created_by: users[1].id
+    }))).execute();
 
     const today = new Date();
     const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
@@ -102,6 +130,7 @@ describe('Dashboard Handlers', () => {
         tonnage: '100.50',
         coal_grade: 'high',
         jetty_id: jetties[0].id,
+        stockpile_id: stockpiles[0].id,
         operator_id: users[1].id,
         notes: 'Test production'
       },
@@ -112,6 +141,7 @@ describe('Dashboard Handlers', () => {
         tonnage: '150.25',
         coal_grade: 'medium',
         jetty_id: jetties[1].id,
+        stockpile_id: stockpiles[1].id,
         operator_id: users[1].id,
         notes: 'Yesterday production'
       }
@@ -123,8 +153,10 @@ describe('Dashboard Handlers', () => {
         date_time: today,
         contractor_id: contractors[0].id,
         ship_batch_number: 'SB001',
+        coal_grade: 'high',
         tonnage: '80.25',
         jetty_id: jetties[0].id,
+        stockpile_id: stockpiles[0].id,
         operator_id: users[1].id,
         buyer: 'Buyer One'
       }
@@ -190,11 +222,38 @@ describe('Dashboard Handlers', () => {
       const jettyA = stats.stock_by_jetty.find(j => j.jetty_name === 'Jetty A');
       expect(jettyA).toBeDefined();
       expect(jettyA!.total_tonnage).toEqual(1500.5);
+      expect(jettyA!.by_grade).toEqual([{ coal_grade: 'high', tonnage: 1500.5 }]);
 
       // Verify contractor aggregation
       const contractorOne = stats.stock_by_contractor.find(c => c.contractor_name === 'Contractor One');
       expect(contractorOne).toBeDefined();
       expect(contractorOne!.total_tonnage).toEqual(1500.5);
+
+      // Verify grade aggregation
+      expect(stats.stock_by_grade).toEqual([
+        { coal_grade: 'high', tonnage: 1500.5 },
+        { coal_grade: 'medium', tonnage: 2000.75 }
+      ]);
+    });
+
+    it('should flag jetties above the capacity warning threshold', async () => {
+      const { jetties } = await createTestData();
+
+      let stats = await getDashboardStats();
+      expect(stats.capacity_thresholds).toEqual({ warning_percent: 80, critical_percent: 95 });
+      expect(stats.capacity_alerts).toHaveLength(0);
+
+      // Jetty B: 2900 of 3000 tons
+      await db.update(stockTable)
+        .set({ tonnage: '2900.00' })
+        .where(eq(stockTable.jetty_id, jetties[1].id))
+        .execute();
+
+      stats = await getDashboardStats();
+      expect(stats.capacity_alerts).toHaveLength(1);
+      expect(stats.capacity_alerts[0].jetty_name).toEqual('Jetty B');
+      expect(stats.capacity_alerts[0].status).toEqual('critical');
+      expect(stats.capacity_alerts[0].headroom).toEqual(100);
     });
 
     it('should handle empty data gracefully', async () => {
@@ -204,6 +263,7 @@ describe('Dashboard Handlers', () => {
       expect(stats.daily_production).toEqual(0);
       expect(stats.daily_barging).toEqual(0);
       expect(stats.active_contractors).toEqual(0);
+      expect(stats.stock_by_grade).toHaveLength(0);
       expect(stats.stock_by_jetty).toHaveLength(0);
       expect(stats.stock_by_contractor).toHaveLength(0);
     });
@@ -315,6 +375,16 @@ describe('Dashboard Handlers', () => {
       });
     });
 
+    it('should report the stock held at the end of each day', async () => {
+      await createTestData();
+
+      const trends = await getStockTrends(5);
+
+      // The opening movements were three days ago
+      expect(trends[0].total_stock).toEqual(0);
+      expect(trends[trends.length - 1].total_stock).toEqual(3501.25);
+    });
+
     it('should generate correct date sequence', async () => {
       const trends = await getStockTrends(5);
 
@@ -385,4 +455,47 @@ describe('Dashboard Handlers', () => {
       expect(contractorNames).not.toContain('Inactive Contractor');
     });
   });
+
+  describe('scoped callers', () => {
+    const jettyScope = (jettyId: number) => ({ unrestricted: false, grants: [{ jetty_id: jettyId, contractor_id: null }] });
+
+    it('should only list activity at jetties in scope', async () => {
+      const { jetties } = await createTestData();
+
+      const jettyA = await getRecentActivity(10, jettyScope(jetties[0].id));
+      expect(jettyA.map(activity => activity.type).sort()).toEqual(['barging', 'fuel_purchase', 'production', 'stock_adjustment']);
+      expect(jettyA.some(activity => activity.description.includes('T002'))).toBe(false);
+
+      const jettyB = await getRecentActivity(10, jettyScope(jetties[1].id));
+      expect(jettyB.map(activity => activity.description)).toEqual(['Production: T002 - 150.25 tons']);
+    });
+
+    it('should only count stock and flows in scope for KPIs', async () => {
+      const { jetties } = await createTestData();
+
+      const kpis = await getKPIMetrics(undefined, undefined, jettyScope(jetties[1].id));
+      expect(kpis.stock_available).toEqual(2000.75);
+      expect(kpis.average_daily_barging).toEqual(0);
+      // The only fuel usage is not logged against a production record, so a scoped caller has none
+      expect(kpis.fuel_efficiency).toEqual(0);
+    });
+
+    it('should only trend stock in scope', async () => {
+      const { jetties } = await createTestData();
+
+      const trends = await getStockTrends(5, jettyScope(jetties[0].id));
+      expect(trends[trends.length - 1].total_stock).toEqual(1500.5);
+      expect(trends.reduce((total, trend) => total + trend.production, 0)).toEqual(100.5);
+    });
+
+    it('should only report contractor performance in scope', async () => {
+      const { jetties } = await createTestData();
+
+      const performance = await getContractorPerformance(undefined, undefined, jettyScope(jetties[0].id));
+      expect(performance).toHaveLength(1);
+      expect(performance[0].contractor_name).toEqual('Contractor One');
+      expect(performance[0].current_stock).toEqual(1500.5);
+      expect(performance[0].total_barging).toEqual(80.25);
+    });
+  });
 });
\ No newline at end of file
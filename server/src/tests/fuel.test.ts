@@ -5,6 +5,7 @@ import { eq } from 'drizzle-orm';
 import { 
   usersTable, 
   jettiesTable, 
+  stockpilesTable,
   fuelPurchasesTable,
   fuelUsageTable,
   contractorsTable,
@@ -12,7 +13,8 @@ import {
 } from '../db/schema';
 import { 
   type CreateFuelPurchaseInput,
-  type CreateFuelUsageInput
+  type CreateFuelUsageInput,
+  type RequestActor
 } from '../schema';
 import { 
   createFuelPurchase,
@@ -54,8 +56,7 @@ const testFuelPurchaseInput: CreateFuelPurchaseInput = {
   cost: 15000,
   invoice_number: 'INV-001',
   jetty_id: 0, // Will be set in tests
-  machine_destination: 'Excavator XYZ',
-  created_by: 0 // Will be set in tests
+  machine_destination: 'Excavator XYZ'
 };
 
 const testFuelUsageInput: CreateFuelUsageInput = {
@@ -64,15 +65,21 @@ const testFuelUsageInput: CreateFuelUsageInput = {
   operator: 'John Smith',
   volume_liters: 50,
   production_tonnage: 100,
-  production_record_id: null,
-  created_by: 0 // Will be set in tests
+  production_record_id: null
 };
 
 describe('Fuel Handlers', () => {
   let userId: number;
+  let stockpileId: number;
   let jettyId: number;
   let contractorId: number;
 
+  const createActor = (): RequestActor => ({
+    user_id: userId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
   beforeEach(async () => {
     await createDB();
     
@@ -83,21 +90,36 @@ describe('Fuel Handlers', () => {
     const jettyResult = await db.insert(jettiesTable).values(testJetty).returning().execute();
     jettyId = jettyResult[0].id;
 
+    const stockpileResult = await db.insert(stockpilesTable)
+      .values({ jetty_id: jettyId, code: 'DEFAULT', capacity: jettyResult[0].capacity })
+      .returning()
+      .execute();
+    stockpileId = stockpileResult[0].id;
+
     const contractorResult = await db.insert(contractorsTable).values(testContractor).returning().execute();
     contractorId = contractorResult[0].id;
   });
 
   afterEach(resetDB);
 
+  const otherJettyScope = () => ({ unrestricted: false, grants: [{ jetty_id: jettyId + 1, contractor_id: null }] });
+  const ownJettyScope = () => ({ unrestricted: false, grants: [{ jetty_id: jettyId, contractor_id: null }] });
+
   describe('createFuelPurchase', () => {
+    it('should reject fuel recorded at a jetty outside the caller\'s scope', async () => {
+      const input = { ...testFuelPurchaseInput, jetty_id: jettyId };
+
+      await expect(createFuelPurchase(input, createActor(), otherJettyScope())).rejects.toThrow(/does not cover jetty/);
+      expect((await createFuelPurchase(input, createActor(), ownJettyScope())).jetty_id).toEqual(jettyId);
+    });
+
     it('should create a fuel purchase record', async () => {
       const input = {
         ...testFuelPurchaseInput,
-        jetty_id: jettyId,
-        created_by: userId
+        jetty_id: jettyId
       };
 
-      const result = await createFuelPurchase(input);
+      const result = await createFuelPurchase(input, createActor());
 
       expect(result.id).toBeDefined();
       expect(result.supplier).toEqual('Fuel Supplier Inc');
@@ -115,11 +137,10 @@ describe('Fuel Handlers', () => {
     it('should save fuel purchase to database', async () => {
       const input = {
         ...testFuelPurchaseInput,
-        jetty_id: jettyId,
-        created_by: userId
+        jetty_id: jettyId
       };
 
-      const result = await createFuelPurchase(input);
+      const result = await createFuelPurchase(input, createActor());
 
       const saved = await db.select()
         .from(fuelPurchasesTable)
@@ -141,32 +162,29 @@ describe('Fuel Handlers', () => {
 
       const input = {
         ...testFuelPurchaseInput,
-        jetty_id: jettyId,
-        created_by: userId
+        jetty_id: jettyId
       };
 
-      await expect(createFuelPurchase(input)).rejects.toThrow(/jetty not found or inactive/i);
+      await expect(createFuelPurchase(input, createActor())).rejects.toThrow(/jetty not found or inactive/i);
     });
 
     it('should throw error for non-existent jetty', async () => {
       const input = {
         ...testFuelPurchaseInput,
-        jetty_id: 99999,
-        created_by: userId
+        jetty_id: 99999
       };
 
-      await expect(createFuelPurchase(input)).rejects.toThrow(/jetty not found or inactive/i);
+      await expect(createFuelPurchase(input, createActor())).rejects.toThrow(/jetty not found or inactive/i);
     });
   });
 
   describe('createFuelUsage', () => {
     it('should create a fuel usage record', async () => {
       const input = {
-        ...testFuelUsageInput,
-        created_by: userId
+        ...testFuelUsageInput
       };
 
-      const result = await createFuelUsage(input);
+      const result = await createFuelUsage(input, createActor());
 
       expect(result.id).toBeDefined();
       expect(result.machine_equipment).toEqual('Excavator XYZ');
@@ -190,6 +208,7 @@ describe('Fuel Handlers', () => {
           tonnage: '100',
           coal_grade: 'high',
           jetty_id: jettyId,
+          stockpile_id: stockpileId,
           operator_id: userId
         })
         .returning()
@@ -197,11 +216,10 @@ describe('Fuel Handlers', () => {
 
       const input = {
         ...testFuelUsageInput,
-        production_record_id: productionRecord[0].id,
-        created_by: userId
+        production_record_id: productionRecord[0].id
       };
 
-      const result = await createFuelUsage(input);
+      const result = await createFuelUsage(input, createActor());
 
       expect(result.production_record_id).toEqual(productionRecord[0].id);
     });
@@ -209,20 +227,18 @@ describe('Fuel Handlers', () => {
     it('should throw error for non-existent production record', async () => {
       const input = {
         ...testFuelUsageInput,
-        production_record_id: 99999,
-        created_by: userId
+        production_record_id: 99999
       };
 
-      await expect(createFuelUsage(input)).rejects.toThrow(/production record not found/i);
+      await expect(createFuelUsage(input, createActor())).rejects.toThrow(/production record not found/i);
     });
 
     it('should save fuel usage to database', async () => {
       const input = {
-        ...testFuelUsageInput,
-        created_by: userId
+        ...testFuelUsageInput
       };
 
-      const result = await createFuelUsage(input);
+      const result = await createFuelUsage(input, createActor());
 
       const saved = await db.select()
         .from(fuelUsageTable)
@@ -261,6 +277,11 @@ describe('Fuel Handlers', () => {
       ]).execute();
     });
 
+    it('should only list purchases at jetties in the caller\'s scope', async () => {
+      expect(await getFuelPurchases(undefined, undefined, undefined, undefined, otherJettyScope())).toHaveLength(0);
+      expect(await getFuelPurchases(undefined, undefined, undefined, undefined, ownJettyScope())).toHaveLength(2);
+    });
+
     it('should get all fuel purchases with related data', async () => {
       const results = await getFuelPurchases();
 
@@ -315,6 +336,7 @@ describe('Fuel Handlers', () => {
           tonnage: '100',
           coal_grade: 'high',
           jetty_id: jettyId,
+          stockpile_id: stockpileId,
           operator_id: userId
         })
         .returning()
@@ -413,6 +435,13 @@ describe('Fuel Handlers', () => {
       expect(typeof result!.cost).toBe('number');
     });
 
+    it('should not return a purchase outside the caller\'s scope', async () => {
+      const purchase = await createFuelPurchase({ ...testFuelPurchaseInput, jetty_id: jettyId }, createActor());
+
+      expect(await getFuelPurchaseById(purchase.id, otherJettyScope())).toBeNull();
+      expect(await getFuelPurchaseById(purchase.id, ownJettyScope())).not.toBeNull();
+    });
+
     it('should return null for non-existent ID', async () => {
       const result = await getFuelPurchaseById(99999);
       expect(result).toBeNull();
@@ -508,6 +537,16 @@ describe('Fuel Handlers', () => {
       ]).execute();
     });
 
+    it('should only sum fuel in the caller\'s scope', async () => {
+      const summary = await getFuelSummary(undefined, undefined, otherJettyScope());
+      expect(summary.total_purchased_liters).toEqual(0);
+      expect(summary.by_supplier).toHaveLength(0);
+      // None of the usage is logged against a production record, so none of it is in any jetty's scope
+      expect(summary.total_used_liters).toEqual(0);
+
+      expect((await getFuelSummary(undefined, undefined, ownJettyScope())).total_purchased_liters).toEqual(2300);
+    });
+
     it('should calculate comprehensive fuel summary', async () => {
       const summary = await getFuelSummary();
 
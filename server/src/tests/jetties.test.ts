@@ -1,16 +1,17 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { jettiesTable } from '../db/schema';
+import { jettiesTable, stockpilesTable, contractorsTable, stockTable } from '../db/schema';
 import { type CreateJettyInput, type UpdateJettyInput } from '../schema';
 import { 
   createJetty, 
   getJetties, 
   getActiveJetties, 
   getJettyById, 
-  updateJetty 
+  updateJetty,
+  getJettyUtilisation
 } from '../handlers/jetties';
-import { eq } from 'drizzle-orm';
+import { eq, and } from 'drizzle-orm';
 
 // Test input data
 const testJettyInput: CreateJettyInput = {
@@ -25,6 +26,14 @@ const secondJettyInput: CreateJettyInput = {
   capacity: 3000.75
 };
 
+const getDefaultStockpile = async (jettyId: number) => {
+  const stockpiles = await db.select()
+    .from(stockpilesTable)
+    .where(and(eq(stockpilesTable.jetty_id, jettyId), eq(stockpilesTable.code, 'DEFAULT')))
+    .execute();
+  return stockpiles[0];
+};
+
 describe('jetties handlers', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -59,6 +68,18 @@ describe('jetties handlers', () => {
       expect(jetties[0].created_at).toBeInstanceOf(Date);
     });
 
+    it('should give the jetty a default stockpile that follows its capacity', async () => {
+      const result = await createJetty(testJettyInput);
+
+      const stockpile = await getDefaultStockpile(result.id);
+      expect(parseFloat(stockpile.capacity)).toEqual(5000.50);
+      expect(stockpile.coal_grade).toBeNull();
+      expect(stockpile.is_active).toEqual(true);
+
+      await updateJetty({ id: result.id, capacity: 6000 });
+      expect(parseFloat((await getDefaultStockpile(result.id)).capacity)).toEqual(6000);
+    });
+
     it('should handle duplicate code error', async () => {
       await createJetty(testJettyInput);
 
@@ -301,4 +322,78 @@ describe('jetties handlers', () => {
       expect(result.is_active).toEqual(true); // Unchanged
     });
   });
-});
\ No newline at end of file
+
+  describe('getJettyUtilisation', () => {
+    it('should report stock against capacity per jetty', async () => {
+      const main = await createJetty({ name: 'Main Jetty', code: 'MJ001', capacity: 5000 });
+      const secondary = await createJetty({ name: 'Secondary Jetty', code: 'SJ002', capacity: 2000 });
+      const contractors = await db.insert(contractorsTable)
+        .values([
+          { name: 'Contractor One', code: 'C001', contact_person: 'John Doe', default_grade: 'high' },
+          { name: 'Contractor Two', code: 'C002', contact_person: 'Jane Smith', default_grade: 'high' }
+        ])
+        .returning()
+        .execute();
+      const mainPile = await getDefaultStockpile(main.id);
+      const secondaryPile = await getDefaultStockpile(secondary.id);
+
+      // Secondary holds 1700 tons across two contractors and grades
+      await db.insert(stockTable)
+        .values([
+          { contractor_id: contractors[0].id, jetty_id: secondary.id, stockpile_id: secondaryPile.id, coal_grade: 'high', tonnage: '1000.00' },
+          { contractor_id: contractors[1].id, jetty_id: secondary.id, stockpile_id: secondaryPile.id, coal_grade: 'low', tonnage: '700.00' },
+          { contractor_id: contractors[0].id, jetty_id: main.id, stockpile_id: mainPile.id, coal_grade: 'high', tonnage: '500.00' }
+        ])
+        .execute();
+
+      const result = await getJettyUtilisation();
+
+      expect(result).toEqual([
+        {
+          jetty_id: main.id,
+          jetty_name: 'Main Jetty',
+          capacity: 5000,
+          stock_tonnage: 500,
+          utilisation_percent: 10,
+          headroom: 4500,
+          status: 'normal'
+        },
+        {
+          jetty_id: secondary.id,
+          jetty_name: 'Secondary Jetty',
+          capacity: 2000,
+          stock_tonnage: 1700,
+          utilisation_percent: 85,
+          headroom: 300,
+          status: 'warning'
+        }
+      ]);
+    });
+
+    it('should include empty jetties and skip inactive ones', async () => {
+      const main = await createJetty(testJettyInput);
+      const secondary = await createJetty(secondJettyInput);
+      await updateJetty({ id: secondary.id, is_active: false });
+
+      const result = await getJettyUtilisation();
+
+      expect(result).toHaveLength(1);
+      expect(result[0].jetty_id).toEqual(main.id);
+      expect(result[0].stock_tonnage).toEqual(0);
+      expect(result[0].headroom).toEqual(5000.50);
+      expect(result[0].status).toEqual('normal');
+    });
+
+    it('should limit a scoped caller to the jetties its grants reach', async () => {
+      const main = await createJetty(testJettyInput);
+      await createJetty(secondJettyInput);
+
+      const result = await getJettyUtilisation({
+        unrestricted: false,
+        grants: [{ jetty_id: main.id, contractor_id: null }]
+      });
+
+      expect(result.map(jetty => jetty.jetty_id)).toEqual([main.id]);
+    });
+  });
+});
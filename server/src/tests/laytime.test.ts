@@ -0,0 +1,320 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { contractorsTable, usersTable, stockpilesTable, bargingRecordsTable, auditLogTable } from '../db/schema';
+import { type RequestActor, type SetLaytimeTermsInput } from '../schema';
+import { createJetty } from '../handlers/jetties';
+import { createVessel } from '../handlers/vessels';
+import { createShipment } from '../handlers/shipments';
+import {
+  setLaytimeTerms,
+  recordLaytimeEvent,
+  removeLaytimeEvent,
+  getStatementOfFacts,
+  calculateLaytime
+} from '../handlers/laytime';
+import { generateLaytimeReport, generateLaytimeStatement } from '../handlers/reports';
+import { eq } from 'drizzle-orm';
+
+describe('laytime', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  // 10,000 tons loaded at 8,000 tons a day: 30 hours of laytime
+  const setupTestData = async () => {
+    const contractors = await db.insert(contractorsTable)
+      .values({ name: 'Contractor One', code: 'C001', contact_person: 'John Doe', default_grade: 'high' })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'operator@example.com',
+        username: 'operator',
+        password_hash: 'hashed_password',
+        full_name: 'Barging Operator',
+        role: 'operator_barging'
+      })
+      .returning()
+      .execute();
+
+    const jetty = await createJetty({ name: 'Jetty Alpha', code: 'JA', capacity: 50000 });
+    const [stockpile] = await db.select().from(stockpilesTable).where(eq(stockpilesTable.jetty_id, jetty.id)).execute();
+
+    const vessel = await createVessel({ name: 'MV Ocean Star', imo_number: '9074729' });
+    const shipment = await createShipment({
+      vessel_id: vessel.id,
+      buyer: 'Pacific Power Co',
+      destination_port: 'Kaohsiung',
+      laycan_start: new Date('2024-06-01T00:00:00Z'),
+      laycan_end: new Date('2024-06-10T00:00:00Z'),
+      nominated_quantity: 10000,
+      notes: null
+    });
+
+    await db.insert(bargingRecordsTable)
+      .values([6000, 4000].map(tonnage => ({
+        date_time: new Date('2024-06-03T12:00:00Z'),
+        contractor_id: contractors[0].id,
+        ship_batch_number: 'BG-01',
+        tonnage: tonnage.toString(),
+        coal_grade: 'high' as const,
+        jetty_id: jetty.id,
+        stockpile_id: stockpile.id,
+        operator_id: users[0].id,
+        shipment_id: shipment.id
+      })))
+      .execute();
+
+    return { user: users[0], vessel, shipment, jetty };
+  };
+
+  const createActor = (userId: number): RequestActor => ({
+    user_id: userId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
+  const terms = (shipmentId: number, overrides: Partial<SetLaytimeTermsInput> = {}): SetLaytimeTermsInput => ({
+    shipment_id: shipmentId,
+    loading_rate: 8000,
+    terms: 'shinc',
+    turn_time_hours: 12,
+    demurrage_rate: 20000,
+    despatch_rate: 10000,
+    ...overrides
+  });
+
+  const recordFacts = async (shipmentId: number, userId: number, facts: Array<[string, string, string?]>) => {
+    for (const [event, occurredAt, endedAt] of facts) {
+      await recordLaytimeEvent({
+        shipment_id: shipmentId,
+        event: event as 'nor_tendered',
+        occurred_at: new Date(occurredAt),
+        ended_at: endedAt ? new Date(endedAt) : undefined,
+        remarks: null
+      }, createActor(userId));
+    }
+  };
+
+  it('should earn despatch when loading finishes inside laytime', async () => {
+    const { user, shipment } = await setupTestData();
+    await setLaytimeTerms(terms(shipment.id));
+    await recordFacts(shipment.id, user.id, [
+      ['nor_tendered', '2024-06-03T00:00:00Z'],
+      ['berthed', '2024-06-03T13:00:00Z'],
+      ['loading_commenced', '2024-06-03T14:00:00Z'],
+      ['weather_stoppage', '2024-06-03T20:00:00Z', '2024-06-04T02:00:00Z'],
+      ['loading_completed', '2024-06-04T12:00:00Z']
+    ]);
+
+    const laytime = await calculateLaytime(shipment.id);
+
+    // Turn time runs out at 12:00, before loading commenced
+    expect(laytime.laytime_commenced_at).toEqual(new Date('2024-06-03T12:00:00Z'));
+    expect(laytime.quantity).toEqual(10000);
+    expect(laytime.allowed_hours).toEqual(30);
+    expect(laytime.periods.map(period => [period.description, period.hours])).toEqual([
+      ['Laytime', 8],
+      ['Weather stoppage', 6],
+      ['Laytime', 10]
+    ]);
+    expect(laytime.used_hours).toEqual(18);
+    expect(laytime.excluded_hours).toEqual(6);
+    expect(laytime.saved_hours).toEqual(12);
+    expect(laytime.outcome).toEqual('despatch');
+    expect(laytime.amount).toEqual(5000);
+  });
+
+  it('should stay on demurrage through stoppages once laytime has run out', async () => {
+    const { user, shipment } = await setupTestData();
+    await setLaytimeTerms(terms(shipment.id));
+    await recordFacts(shipment.id, user.id, [
+      ['nor_tendered', '2024-06-03T00:00:00Z'],
+      ['loading_commenced', '2024-06-03T14:00:00Z'],
+      ['weather_stoppage', '2024-06-03T20:00:00Z', '2024-06-04T02:00:00Z'],
+      ['weather_stoppage', '2024-06-05T01:00:00Z', '2024-06-05T03:00:00Z'],
+      ['loading_completed', '2024-06-05T06:00:00Z']
+    ]);
+
+    const laytime = await calculateLaytime(shipment.id);
+
+    expect(laytime.periods.map(period => [period.description, period.hours, period.from.toISOString()])).toEqual([
+      ['Laytime', 8, '2024-06-03T12:00:00.000Z'],
+      ['Weather stoppage', 6, '2024-06-03T20:00:00.000Z'],
+      ['Laytime', 22, '2024-06-04T02:00:00.000Z'],
+      ['On demurrage', 6, '2024-06-05T00:00:00.000Z']
+    ]);
+    expect(laytime.used_hours).toEqual(30);
+    expect(laytime.demurrage_hours).toEqual(6);
+    expect(laytime.saved_hours).toEqual(0);
+    expect(laytime.outcome).toEqual('demurrage');
+    expect(laytime.amount).toEqual(5000);
+  });
+
+  it('should leave Sundays at the port out of laytime under SHEX only', async () => {
+    const { user, shipment } = await setupTestData();
+    await setLaytimeTerms(terms(shipment.id, { terms: 'shex' }));
+    // Sunday 9 June at UTC+8 runs from 16:00 UTC on the 8th to 16:00 UTC on the 9th
+    await recordFacts(shipment.id, user.id, [
+      ['nor_tendered', '2024-06-08T00:00:00Z'],
+      ['loading_commenced', '2024-06-08T10:00:00Z'],
+      ['loading_completed', '2024-06-10T10:00:00Z']
+    ]);
+
+    const shex = await calculateLaytime(shipment.id);
+    expect(shex.laytime_commenced_at).toEqual(new Date('2024-06-08T10:00:00Z')); // Loading commenced inside turn time
+    expect(shex.periods.map(period => [period.description, period.hours])).toEqual([
+      ['Laytime', 6],
+      ['Sunday (SHEX)', 24],
+      ['Laytime', 18]
+    ]);
+    expect(shex.outcome).toEqual('despatch');
+    expect(shex.amount).toEqual(2500);
+
+    await setLaytimeTerms(terms(shipment.id, { terms: 'shinc' }));
+    const shinc = await calculateLaytime(shipment.id);
+    expect(shinc.demurrage_hours).toEqual(18);
+    expect(shinc.outcome).toEqual('demurrage');
+    expect(shinc.amount).toEqual(15000);
+  });
+
+  it('should keep the statement of facts consistent', async () => {
+    const { user, shipment } = await setupTestData();
+    const actor = createActor(user.id);
+    const fact = { shipment_id: shipment.id, occurred_at: new Date('2024-06-03T00:00:00Z'), remarks: null };
+
+    await expect(calculateLaytime(shipment.id)).rejects.toThrow(/has no laytime terms/);
+    await setLaytimeTerms(terms(shipment.id));
+    await expect(calculateLaytime(shipment.id)).rejects.toThrow(/has no nor_tendered/);
+
+    const nor = await recordLaytimeEvent({ ...fact, event: 'nor_tendered' }, actor);
+    await expect(recordLaytimeEvent({ ...fact, event: 'nor_tendered' }, actor))
+      .rejects.toThrow(/nor_tendered is already recorded/);
+    await expect(recordLaytimeEvent({ ...fact, event: 'weather_stoppage' }, actor))
+      .rejects.toThrow(/needs an end after its start/);
+    await expect(recordLaytimeEvent({ ...fact, event: 'berthed', ended_at: new Date('2024-06-04T00:00:00Z') }, actor))
+      .rejects.toThrow(/only weather stoppages have an end/i);
+    await expect(recordLaytimeEvent({ ...fact, shipment_id: 99999, event: 'berthed' }, actor))
+      .rejects.toThrow(/Shipment with ID 99999 not found/);
+
+    await removeLaytimeEvent(nor.id, actor);
+    await recordLaytimeEvent({ ...fact, event: 'nor_tendered', occurred_at: new Date('2024-06-03T02:00:00Z') }, actor);
+    const facts = await getStatementOfFacts(shipment.id);
+    expect(facts.map(event => [event.event, event.occurred_at.toISOString(), event.recorded_by]))
+      .toEqual([['nor_tendered', '2024-06-03T02:00:00.000Z', user.id]]);
+
+    // The removed fact is kept in the audit log
+    const auditLogs = await db.select()
+      .from(auditLogTable)
+      .where(eq(auditLogTable.action, 'laytime_event_remove'))
+      .execute();
+    expect(auditLogs).toHaveLength(1);
+    expect(auditLogs[0].user_id).toEqual(user.id);
+    expect(auditLogs[0].record_id).toEqual(nor.id);
+    expect(auditLogs[0].old_values).toMatchObject({ event: 'nor_tendered', occurred_at: '2024-06-03T00:00:00.000Z' });
+    await expect(removeLaytimeEvent(nor.id, actor)).rejects.toThrow(`Laytime event with ID ${nor.id} not found`);
+  });
+
+  it('should need every jetty the shipment loads at for a scoped caller', async () => {
+    const { user, shipment, jetty } = await setupTestData();
+    const actor = createActor(user.id);
+    const jettyScope = { unrestricted: false, grants: [{ jetty_id: jetty.id, contractor_id: null }] };
+    const otherJetty = { unrestricted: false, grants: [{ jetty_id: jetty.id + 1, contractor_id: null }] };
+    await setLaytimeTerms(terms(shipment.id));
+    await recordFacts(shipment.id, user.id, [
+      ['nor_tendered', '2024-06-03T00:00:00Z'],
+      ['loading_commenced', '2024-06-03T06:00:00Z'],
+      ['loading_completed', '2024-06-04T06:00:00Z']
+    ]);
+    const fact = { shipment_id: shipment.id, event: 'berthed' as const, occurred_at: new Date('2024-06-03T04:00:00Z'), remarks: null };
+
+    await expect(recordLaytimeEvent(fact, actor, otherJetty)).rejects.toThrow(/does not cover jetty/);
+    await expect(getStatementOfFacts(shipment.id, otherJetty)).rejects.toThrow(/does not cover jetty/);
+    await expect(calculateLaytime(shipment.id, otherJetty)).rejects.toThrow(/does not cover jetty/);
+
+    const berthed = await recordLaytimeEvent(fact, actor, jettyScope);
+    await expect(removeLaytimeEvent(berthed.id, actor, otherJetty)).rejects.toThrow(/does not cover jetty/);
+    await removeLaytimeEvent(berthed.id, actor, jettyScope);
+
+    expect(await getStatementOfFacts(shipment.id, jettyScope)).toHaveLength(3);
+    expect((await calculateLaytime(shipment.id, jettyScope)).outcome).toEqual('despatch');
+  });
+
+  it('should export laytime per shipment and the time sheet of one', async () => {
+    const { user, vessel, shipment } = await setupTestData();
+    await setLaytimeTerms(terms(shipment.id));
+    await recordFacts(shipment.id, user.id, [
+      ['nor_tendered', '2024-06-03T00:00:00Z'],
+      ['loading_commenced', '2024-06-03T14:00:00Z'],
+      ['weather_stoppage', '2024-06-03T20:00:00Z', '2024-06-04T02:00:00Z'],
+      ['loading_completed', '2024-06-04T12:00:00Z']
+    ]);
+    const pending = await createShipment({
+      vessel_id: vessel.id,
+      buyer: 'Island Cement',
+      destination_port: 'Manila',
+      laycan_start: new Date('2024-06-20T00:00:00Z'),
+      laycan_end: new Date('2024-06-25T00:00:00Z'),
+      nominated_quantity: 8000,
+      notes: null
+    });
+
+    const report = await generateLaytimeReport();
+    const lines = report.content.split('\n');
+    expect(lines[0]).toEqual('Shipment,Vessel,Buyer,Laycan Start,Laycan End,Quantity,Terms,Laytime Allowed Hours,Laytime Commenced,Loading Completed,Laytime Used Hours,Excluded Hours,Demurrage Hours,Time Saved Hours,Outcome,Amount,Note');
+    expect(lines[1]).toEqual(`${shipment.id},MV Ocean Star,Pacific Power Co,2024-06-01T00:00:00.000Z,2024-06-10T00:00:00.000Z,10000,SHINC,30,2024-06-03T12:00:00.000Z,2024-06-04T12:00:00.000Z,18,6,0,12,despatch,5000,`);
+    expect(lines[2]).toEqual(`${pending.id},MV Ocean Star,Island Cement,2024-06-20T00:00:00.000Z,2024-06-25T00:00:00.000Z,,,,,,,,,,incomplete,,Shipment #${pending.id} has no laytime terms`);
+    expect(report.filename).toMatch(/^laytime_report_/);
+
+    expect((await generateLaytimeReport(new Date('2024-06-15T00:00:00Z'))).content.split('\n')).toHaveLength(2);
+
+    // A statement of facts that contradicts itself is an error to fix, not a shipment still in progress
+    await setLaytimeTerms(terms(pending.id));
+    await recordFacts(pending.id, user.id, [
+      ['nor_tendered', '2024-06-20T00:00:00Z'],
+      ['loading_commenced', '2024-06-21T00:00:00Z'],
+      ['loading_completed', '2024-06-20T12:00:00Z']
+    ]);
+    await expect(generateLaytimeReport()).rejects.toThrow(/completed before it commenced/);
+
+    const statement = await generateLaytimeStatement(shipment.id);
+    expect(statement.content.split('\n')).toEqual([
+      'From,To,Period,Counts As,Hours',
+      '2024-06-03T12:00:00.000Z,2024-06-03T20:00:00.000Z,Laytime,laytime,8',
+      '2024-06-03T20:00:00.000Z,2024-06-04T02:00:00.000Z,Weather stoppage,excluded,6',
+      '2024-06-04T02:00:00.000Z,2024-06-04T12:00:00.000Z,Laytime,laytime,10'
+    ]);
+    expect(statement.filename).toMatch(new RegExp(`_shipment_${shipment.id}\\.csv$`));
+  });
+  it('should only export laytime of shipments in the caller\'s scope', async () => {
+    const { user, vessel, shipment, jetty } = await setupTestData();
+    const jettyScope = { unrestricted: false, grants: [{ jetty_id: jetty.id, contractor_id: null }] };
+    const otherJetty = { unrestricted: false, grants: [{ jetty_id: jetty.id + 1, contractor_id: null }] };
+    await setLaytimeTerms(terms(shipment.id));
+    await recordFacts(shipment.id, user.id, [
+      ['nor_tendered', '2024-06-03T00:00:00Z'],
+      ['loading_commenced', '2024-06-03T14:00:00Z'],
+      ['loading_completed', '2024-06-04T12:00:00Z']
+    ]);
+    const pending = await createShipment({
+      vessel_id: vessel.id,
+      buyer: 'Island Cement',
+      destination_port: 'Manila',
+      laycan_start: new Date('2024-06-20T00:00:00Z'),
+      laycan_end: new Date('2024-06-25T00:00:00Z'),
+      nominated_quantity: 8000,
+      notes: null
+    });
+
+    // The shipment loading at another jetty is left out rather than failing the report
+    const lines = (await generateLaytimeReport(undefined, undefined, 'csv', otherJetty)).content.split('\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toStartWith(`${pending.id},`);
+    await expect(generateLaytimeStatement(shipment.id, 'csv', otherJetty)).rejects.toThrow(/does not cover jetty/);
+
+    const ownLines = (await generateLaytimeReport(undefined, undefined, 'csv', jettyScope)).content.split('\n');
+    expect(ownLines.map(line => line.split(',')[0]).slice(1)).toEqual([`${shipment.id}`, `${pending.id}`]);
+    expect((await generateLaytimeStatement(shipment.id, 'csv', jettyScope)).content.split('\n')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,294 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  contractorsTable,
+  jettiesTable,
+  stockpilesTable,
+  usersTable,
+  stockTable,
+  productionRecordsTable,
+  bargingRecordsTable,
+  stockMovementsTable
+} from '../db/schema';
+import { type RequestActor, type CreateProductionRecordInput, type CreateBargingRecordInput } from '../schema';
+import { runStockTransaction, changeStock, writeOpeningBalances } from '../handlers/ledger';
+import { createProductionRecord } from '../handlers/production';
+import { createBargingRecord } from '../handlers/barging';
+import { getBalanceAt } from '../handlers/stock';
+import { sum, count, asc } from 'drizzle-orm';
+
+// Enough writers to exceed the connection pool, so transactions genuinely interleave
+const CONCURRENT_WRITERS = 20;
+
+describe('stock ledger', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const setupTestData = async () => {
+    const contractors = await db.insert(contractorsTable)
+      .values({ name: 'Contractor One', code: 'C001', contact_person: 'John Doe', default_grade: 'high' })
+      .returning()
+      .execute();
+
+    const jetties = await db.insert(jettiesTable)
+      .values({ name: 'Jetty Alpha', code: 'JA', capacity: '100000.00' })
+      .returning()
+      .execute();
+
+    const stockpiles = await db.insert(stockpilesTable)
+      .values({ jetty_id: jetties[0].id, code: 'DEFAULT', capacity: '100000.00' })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'operator@example.com',
+        username: 'operator',
+        password_hash: 'hashed_password',
+        full_name: 'Test Operator',
+        role: 'admin'
+      })
+      .returning()
+      .execute();
+
+    return { contractor: contractors[0], jetty: jetties[0], stockpile: stockpiles[0], user: users[0] };
+  };
+
+  const createActor = (userId: number): RequestActor => ({
+    user_id: userId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
+  const productionInput = (contractorId: number, jettyId: number, tonnage: number): CreateProductionRecordInput => ({
+    date_time: new Date(),
+    contractor_id: contractorId,
+    truck_number: 'TRK-001',
+    tonnage,
+    coal_grade: 'high',
+    jetty_id: jettyId,
+    document_photo: null,
+    notes: null
+  });
+
+  const bargingInput = (contractorId: number, jettyId: number, tonnage: number): CreateBargingRecordInput => ({
+    date_time: new Date(),
+    contractor_id: contractorId,
+    ship_batch_number: 'SB-001',
+    coal_grade: 'high',
+    tonnage,
+    jetty_id: jettyId,
+    buyer: null,
+    loading_document: null,
+    notes: null
+  });
+
+  const getStockRows = () => db.select().from(stockTable).execute();
+
+  const getRecordedTonnage = async (table: typeof productionRecordsTable | typeof bargingRecordsTable) => {
+    const result = await db.select({ total: sum(table.tonnage), records: count(table.id) })
+      .from(table)
+      .execute();
+    return { total: parseFloat(result[0].total ?? '0'), records: result[0].records };
+  };
+
+  describe('runStockTransaction', () => {
+    it('should retry conflicts and give up after the attempt limit', async () => {
+      let attempts = 0;
+
+      await expect(runStockTransaction(async () => {
+        attempts++;
+        throw Object.assign(new Error('could not serialize access'), { code: '40001' });
+      })).rejects.toThrow(/modified by another user/i);
+
+      expect(attempts).toEqual(5);
+    });
+
+    it('should not retry other errors', async () => {
+      let attempts = 0;
+
+      await expect(runStockTransaction(async () => {
+        attempts++;
+        throw new Error('Contractor not found');
+      })).rejects.toThrow(/contractor not found/i);
+
+      expect(attempts).toEqual(1);
+    });
+
+    it('should only retry unique violations on the stock and stockpile keys', async () => {
+      let attempts = 0;
+
+      await expect(runStockTransaction(async () => {
+        attempts++;
+        throw Object.assign(new Error('duplicate key value'), { code: '23505', constraint: 'stock_contractor_stockpile_grade_unique' });
+      })).rejects.toThrow(/modified by another user/i);
+      expect(attempts).toEqual(5);
+
+      attempts = 0;
+      await expect(runStockTransaction(async () => {
+        attempts++;
+        throw Object.assign(new Error('duplicate key value violates unique constraint "production_records_ticket_number_unique"'), {
+          code: '23505',
+          constraint: 'production_records_ticket_number_unique'
+        });
+      })).rejects.toThrow(/production_records_ticket_number_unique/);
+      expect(attempts).toEqual(1);
+    });
+
+    it('should roll back everything when the stock change fails', async () => {
+      const { contractor, jetty, stockpile, user } = await setupTestData();
+
+      await expect(runStockTransaction(async (tx) => {
+        await tx.insert(bargingRecordsTable)
+          .values({
+            date_time: new Date(),
+            contractor_id: contractor.id,
+            ship_batch_number: 'SB-001',
+            coal_grade: 'high',
+            tonnage: '50',
+            jetty_id: jetty.id,
+            stockpile_id: stockpile.id,
+            operator_id: user.id
+          })
+          .execute();
+        await changeStock(tx, { contractor_id: contractor.id, jetty_id: jetty.id, stockpile_id: stockpile.id, coal_grade: 'high' }, -50, {
+          movement_type: 'barging',
+          reference_id: null,
+          occurred_at: new Date(),
+          created_by: user.id
+        });
+      })).rejects.toThrow(/no stock found/i);
+
+      expect((await getRecordedTonnage(bargingRecordsTable)).records).toEqual(0);
+    });
+  });
+
+  describe('movement ledger', () => {
+    it('should write a signed movement with running balance for every change', async () => {
+      const { contractor, jetty, user } = await setupTestData();
+
+      const production = await createProductionRecord(productionInput(contractor.id, jetty.id, 100), createActor(user.id));
+      const barging = await createBargingRecord(bargingInput(contractor.id, jetty.id, 30), createActor(user.id));
+
+      const movements = await db.select()
+        .from(stockMovementsTable)
+        .orderBy(asc(stockMovementsTable.id))
+        .execute();
+
+      expect(movements).toHaveLength(2);
+      expect(movements[0].movement_type).toEqual('production');
+      expect(movements[0].reference_id).toEqual(production.id);
+      expect(parseFloat(movements[0].change)).toEqual(100);
+      expect(parseFloat(movements[0].balance_after)).toEqual(100);
+      expect(movements[0].occurred_at).toEqual(production.date_time);
+      expect(movements[1].movement_type).toEqual('barging');
+      expect(movements[1].reference_id).toEqual(barging.id);
+      expect(parseFloat(movements[1].change)).toEqual(-30);
+      expect(parseFloat(movements[1].balance_after)).toEqual(70);
+      expect(movements[1].created_by).toEqual(user.id);
+    });
+
+    it('should open the ledger with the balance of stock that predates it', async () => {
+      const { contractor, jetty, stockpile, user } = await setupTestData();
+      const lastChanged = new Date('2024-01-15T00:00:00Z');
+      await db.insert(stockTable)
+        .values({
+          contractor_id: contractor.id,
+          jetty_id: jetty.id,
+          stockpile_id: stockpile.id,
+          coal_grade: 'high',
+          tonnage: '500.00',
+          last_updated: lastChanged
+        })
+        .execute();
+
+      expect((await getBalanceAt(contractor.id, jetty.id, new Date())).balance).toEqual(0);
+
+      expect(await writeOpeningBalances(user.id)).toEqual(1);
+      expect(await writeOpeningBalances(user.id)).toEqual(0);
+
+      const [opening] = await db.select().from(stockMovementsTable).execute();
+      expect(opening.movement_type).toEqual('opening_balance');
+      expect(opening.occurred_at).toEqual(lastChanged);
+      expect(parseFloat(opening.balance_after)).toEqual(500);
+
+      await createProductionRecord(productionInput(contractor.id, jetty.id, 100), createActor(user.id));
+      expect((await getBalanceAt(contractor.id, jetty.id, new Date(), 'high')).balance).toEqual(600);
+      expect((await getBalanceAt(contractor.id, jetty.id, new Date('2024-01-01T00:00:00Z'))).balance).toEqual(0);
+    });
+  });
+
+  describe('concurrent movements on one contractor-jetty pair', () => {
+    it('should count every concurrent production intake, including the first', async () => {
+      const { contractor, jetty, user } = await setupTestData();
+
+      const results = await Promise.allSettled(
+        Array.from({ length: CONCURRENT_WRITERS }, (_, i) =>
+          createProductionRecord(productionInput(contractor.id, jetty.id, 10 + i), createActor(user.id))
+        )
+      );
+
+      expect(results.filter(result => result.status === 'rejected')).toHaveLength(0);
+
+      const stockRows = await getStockRows();
+      expect(stockRows).toHaveLength(1);
+
+      const production = await getRecordedTonnage(productionRecordsTable);
+      expect(production.records).toEqual(CONCURRENT_WRITERS);
+      expect(parseFloat(stockRows[0].tonnage)).toEqual(production.total);
+      expect(stockRows[0].version).toEqual(CONCURRENT_WRITERS);
+
+      // The last posted movement carries the final balance
+      const movements = await db.select()
+        .from(stockMovementsTable)
+        .orderBy(asc(stockMovementsTable.id))
+        .execute();
+      expect(movements).toHaveLength(CONCURRENT_WRITERS);
+      expect(parseFloat(movements[movements.length - 1].balance_after)).toEqual(production.total);
+    });
+
+    it('should keep stock in sync with interleaved production and barging', async () => {
+      const { contractor, jetty, user } = await setupTestData();
+      await createProductionRecord(productionInput(contractor.id, jetty.id, 500), createActor(user.id));
+
+      const results = await Promise.allSettled(
+        Array.from({ length: CONCURRENT_WRITERS }, (_, i) => i % 2 === 0
+          ? createProductionRecord(productionInput(contractor.id, jetty.id, 25), createActor(user.id))
+          : createBargingRecord(bargingInput(contractor.id, jetty.id, 40), createActor(user.id))
+        )
+      );
+
+      expect(results.filter(result => result.status === 'rejected')).toHaveLength(0);
+
+      const production = await getRecordedTonnage(productionRecordsTable);
+      const barging = await getRecordedTonnage(bargingRecordsTable);
+      const stockRows = await getStockRows();
+
+      expect(parseFloat(stockRows[0].tonnage)).toEqual(production.total - barging.total);
+      expect(parseFloat(stockRows[0].tonnage)).toEqual(500 + 10 * 25 - 10 * 40);
+    });
+
+    it('should never oversell when concurrent barges exceed the stock', async () => {
+      const { contractor, jetty, user } = await setupTestData();
+      await createProductionRecord(productionInput(contractor.id, jetty.id, 100), createActor(user.id));
+
+      const results = await Promise.allSettled(
+        Array.from({ length: CONCURRENT_WRITERS }, () =>
+          createBargingRecord(bargingInput(contractor.id, jetty.id, 10), createActor(user.id))
+        )
+      );
+
+      const rejected = results.filter(result => result.status === 'rejected') as PromiseRejectedResult[];
+      expect(rejected).toHaveLength(CONCURRENT_WRITERS - 10);
+      expect(rejected.every(result => /insufficient stock/i.test(result.reason.message))).toBe(true);
+
+      // Only the barges that moved stock were recorded
+      const barging = await getRecordedTonnage(bargingRecordsTable);
+      expect(barging.records).toEqual(10);
+
+      const stockRows = await getStockRows();
+      expect(parseFloat(stockRows[0].tonnage)).toEqual(0);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { contractorsTable, jettiesTable, usersTable, auditLogTable, permissionGrantsTable } from '../db/schema';
+import { type RequestActor, type UserRole, type CreateProductionRecordInput } from '../schema';
+import {
+  getPermissionScope,
+  getEffectivePermissions,
+  createPermissionGrant,
+  getPermissionGrants,
+  updatePermissionGrant,
+  deletePermissionGrant
+} from '../handlers/permissions';
+import { createProductionRecord, getProductionRecords } from '../handlers/production';
+import { getStock } from '../handlers/stock';
+import { getDashboardStats } from '../handlers/dashboard';
+import { eq } from 'drizzle-orm';
+
+const createUser = async (role: UserRole) => {
+  const users = await db.insert(usersTable)
+    .values({
+      email: `${role}@example.com`,
+      username: role,
+      password_hash: 'hashed_password',
+      full_name: `Test ${role}`,
+      role
+    })
+    .returning()
+    .execute();
+  return users[0];
+};
+
+const createActor = (userId: number): RequestActor => ({
+  user_id: userId,
+  ip_address: '127.0.0.1',
+  user_agent: 'bun-test'
+});
+
+// Two jetties and one contractor, so a grant can cover one site but not the other
+const createSites = async () => {
+  const contractors = await db.insert(contractorsTable)
+    .values({ name: 'Contractor A', code: 'CA', contact_person: 'Andi', default_grade: 'high' })
+    .returning()
+    .execute();
+
+  const jetties = await db.insert(jettiesTable)
+    .values([
+      { name: 'Jetty A', code: 'JA', capacity: '5000.00' },
+      { name: 'Jetty B', code: 'JB', capacity: '5000.00' }
+    ])
+    .returning()
+    .execute();
+
+  return { contractor: contractors[0], jettyA: jetties[0], jettyB: jetties[1] };
+};
+
+const productionInput = (contractorId: number, jettyId: number, tonnage: number): CreateProductionRecordInput => ({
+  date_time: new Date(),
+  contractor_id: contractorId,
+  truck_number: 'TRK-001',
+  tonnage,
+  coal_grade: 'high',
+  jetty_id: jettyId,
+  document_photo: null,
+  notes: null
+});
+
+describe('permissions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('role default bundles', () => {
+    it('should give roles their default actions unrestricted', async () => {
+      const operator = await createUser('operator_produksi');
+
+      expect(await getPermissionScope(operator, 'production.create')).toEqual({ unrestricted: true, grants: [] });
+      expect(await getPermissionScope(operator, 'barging.create')).toEqual({ unrestricted: false, grants: [] });
+      expect(await getPermissionScope(operator, 'stock.approve')).toEqual({ unrestricted: false, grants: [] });
+    });
+
+    it('should list effective permissions of a user', async () => {
+      const viewer = await createUser('viewer');
+
+      const permissions = await getEffectivePermissions(viewer.id);
+      const actions = permissions.map(permission => permission.action);
+
+      expect(actions).toContain('production.view');
+      expect(actions).toContain('reports.export');
+      expect(actions).not.toContain('production.create');
+      expect(actions).not.toContain('audit.view');
+    });
+  });
+
+  describe('scoped grants', () => {
+    it('should restrict an operator to the granted jetty', async () => {
+      const admin = await createUser('admin');
+      const operator = await createUser('operator_produksi');
+      const { contractor, jettyA, jettyB } = await createSites();
+
+      await createPermissionGrant({
+        user_id: operator.id,
+        action: 'production.create',
+        jetty_id: jettyA.id,
+        contractor_id: null
+      }, createActor(admin.id));
+
+      const scope = await getPermissionScope(operator, 'production.create');
+      expect(scope.unrestricted).toBe(false);
+
+      await createProductionRecord(productionInput(contractor.id, jettyA.id, 10), createActor(operator.id), scope);
+
+      await expect(
+        createProductionRecord(productionInput(contractor.id, jettyB.id, 10), createActor(operator.id), scope)
+      ).rejects.toThrow(/does not cover jetty/i);
+    });
+
+    it('should let a viewer perform an extra scoped action', async () => {
+      const admin = await createUser('admin');
+      const viewer = await createUser('viewer');
+      const { contractor, jettyA } = await createSites();
+
+      await createPermissionGrant({
+        user_id: viewer.id,
+        action: 'production.create',
+        jetty_id: jettyA.id,
+        contractor_id: contractor.id
+      }, createActor(admin.id));
+
+      const scope = await getPermissionScope(viewer, 'production.create');
+      expect(scope.grants).toEqual([{ jetty_id: jettyA.id, contractor_id: contractor.id }]);
+
+      const record = await createProductionRecord(productionInput(contractor.id, jettyA.id, 10), createActor(viewer.id), scope);
+      expect(record.jetty_id).toEqual(jettyA.id);
+    });
+
+    it('should filter lists, stock and dashboard figures by scope', async () => {
+      const admin = await createUser('admin');
+      const viewer = await createUser('viewer');
+      const { contractor, jettyA, jettyB } = await createSites();
+
+      await createProductionRecord(productionInput(contractor.id, jettyA.id, 10), createActor(admin.id));
+      await createProductionRecord(productionInput(contractor.id, jettyB.id, 25), createActor(admin.id));
+
+      for (const action of ['production.view', 'stock.view', 'dashboard.view'] as const) {
+        await createPermissionGrant({
+          user_id: viewer.id,
+          action,
+          jetty_id: jettyA.id,
+          contractor_id: null
+        }, createActor(admin.id));
+      }
+
+      const records = await getProductionRecords(undefined, undefined, undefined, undefined,
+        await getPermissionScope(viewer, 'production.view'));
+      expect(records).toHaveLength(1);
+      expect(records[0].jetty_id).toEqual(jettyA.id);
+
+      const stock = await getStock(undefined, await getPermissionScope(viewer, 'stock.view'));
+      expect(stock).toHaveLength(1);
+      expect(stock[0].tonnage).toEqual(10);
+
+      const stats = await getDashboardStats(await getPermissionScope(viewer, 'dashboard.view'));
+      expect(stats.total_stock).toEqual(10);
+      expect(stats.stock_by_jetty.map(entry => entry.jetty_id)).toEqual([jettyA.id]);
+
+      // Unscoped callers still see everything
+      expect((await getDashboardStats()).total_stock).toEqual(35);
+    });
+  });
+
+  describe('grant management', () => {
+    it('should audit grant creation, update and deletion', async () => {
+      const admin = await createUser('admin');
+      const operator = await createUser('operator_barging');
+      const { contractor, jettyA, jettyB } = await createSites();
+
+      const grant = await createPermissionGrant({
+        user_id: operator.id,
+        action: 'barging.create',
+        jetty_id: jettyA.id,
+        contractor_id: null
+      }, createActor(admin.id));
+
+      const updated = await updatePermissionGrant({
+        id: grant.id,
+        jetty_id: jettyB.id,
+        contractor_id: contractor.id
+      }, createActor(admin.id));
+      expect(updated.jetty_id).toEqual(jettyB.id);
+      expect(updated.contractor_id).toEqual(contractor.id);
+
+      expect(await getPermissionGrants(operator.id)).toHaveLength(1);
+
+      await deletePermissionGrant(grant.id, createActor(admin.id));
+      expect(await getPermissionGrants(operator.id)).toHaveLength(0);
+
+      const auditLogs = await db.select()
+        .from(auditLogTable)
+        .where(eq(auditLogTable.table_name, 'permission_grants'))
+        .execute();
+      expect(auditLogs.map(log => log.action).sort()).toEqual([
+        'CREATE_PERMISSION_GRANT',
+        'DELETE_PERMISSION_GRANT',
+        'UPDATE_PERMISSION_GRANT'
+      ]);
+      expect(auditLogs.every(log => log.user_id === admin.id)).toBe(true);
+    });
+
+    it('should reject duplicate grants', async () => {
+      const admin = await createUser('admin');
+      const operator = await createUser('operator_barging');
+      const { jettyA } = await createSites();
+
+      const input = { user_id: operator.id, action: 'barging.create' as const, jetty_id: jettyA.id, contractor_id: null };
+      await createPermissionGrant(input, createActor(admin.id));
+
+      await expect(createPermissionGrant(input, createActor(admin.id))).rejects.toThrow(/already exists/i);
+
+      const grants = await db.select().from(permissionGrantsTable).execute();
+      expect(grants).toHaveLength(1);
+    });
+
+    it('should reject grants for unknown jetties', async () => {
+      const admin = await createUser('admin');
+      const operator = await createUser('operator_barging');
+
+      await expect(createPermissionGrant({
+        user_id: operator.id,
+        action: 'barging.create',
+        jetty_id: 9999,
+        contractor_id: null
+      }, createActor(admin.id))).rejects.toThrow(/jetty not found/i);
+    });
+  });
+});
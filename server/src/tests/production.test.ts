@@ -4,12 +4,21 @@ import { db } from '../db';
 import { 
   contractorsTable, 
   jettiesTable, 
+  stockpilesTable,
   usersTable, 
   productionRecordsTable,
-  stockTable 
+  stockTable,
+  productionFlagsTable,
+  auditLogTable
 } from '../db/schema';
-import { type CreateProductionRecordInput } from '../schema';
-import { createProductionRecord } from '../handlers/production';
+import { type CreateProductionRecordInput, type RequestActor } from '../schema';
+import {
+  createProductionRecord,
+  getFlaggedProduction,
+  reviewFlaggedProduction,
+  voidProductionRecord,
+  correctProductionRecord
+} from '../handlers/production';
 import { eq, and } from 'drizzle-orm';
 
 describe('createProductionRecord', () => {
@@ -42,6 +51,15 @@ describe('createProductionRecord', () => {
       .returning()
       .execute();
 
+    const stockpileResult = await db.insert(stockpilesTable)
+      .values({
+        jetty_id: jettyResult[0].id,
+        code: 'DEFAULT',
+        capacity: '5000.00'
+      })
+      .returning()
+      .execute();
+
     // Create test operator
     const operatorResult = await db.insert(usersTable)
       .values({
@@ -58,11 +76,18 @@ describe('createProductionRecord', () => {
     return {
       contractor: contractorResult[0],
       jetty: jettyResult[0],
+      stockpile: stockpileResult[0],
       operator: operatorResult[0]
     };
   };
 
-  const createTestInput = (contractorId: number, jettyId: number, operatorId: number): CreateProductionRecordInput => ({
+  const createTestActor = (operatorId: number): RequestActor => ({
+    user_id: operatorId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
+  const createTestInput = (contractorId: number, jettyId: number): CreateProductionRecordInput => ({
     date_time: new Date('2024-01-15T10:30:00Z'),
     contractor_id: contractorId,
     truck_number: 'TRK-001',
@@ -70,21 +95,20 @@ describe('createProductionRecord', () => {
     coal_grade: 'high',
     jetty_id: jettyId,
     document_photo: 'photo1.jpg',
-    operator_id: operatorId,
     notes: 'Test production record'
   });
 
   it('should create a production record successfully', async () => {
     const { contractor, jetty, operator } = await createTestData();
-    const input = createTestInput(contractor.id, jetty.id, operator.id);
+    const input = createTestInput(contractor.id, jetty.id);
 
-    const result = await createProductionRecord(input);
+    const result = await createProductionRecord(input, createTestActor(operator.id));
 
     // Verify production record fields
     expect(result.id).toBeDefined();
     expect(result.date_time).toEqual(input.date_time);
     expect(result.contractor_id).toEqual(contractor.id);
-    expect(result.truck_number).toEqual('TRK-001');
+    expect(result.truck_number).toEqual('TRK001');
     expect(result.tonnage).toEqual(25.5);
     expect(typeof result.tonnage).toBe('number');
     expect(result.coal_grade).toEqual('high');
@@ -98,9 +122,9 @@ describe('createProductionRecord', () => {
 
   it('should save production record to database', async () => {
     const { contractor, jetty, operator } = await createTestData();
-    const input = createTestInput(contractor.id, jetty.id, operator.id);
+    const input = createTestInput(contractor.id, jetty.id);
 
-    const result = await createProductionRecord(input);
+    const result = await createProductionRecord(input, createTestActor(operator.id));
 
     // Query database to verify record was saved
     const records = await db.select()
@@ -109,7 +133,7 @@ describe('createProductionRecord', () => {
       .execute();
 
     expect(records).toHaveLength(1);
-    expect(records[0].truck_number).toEqual('TRK-001');
+    expect(records[0].truck_number).toEqual('TRK001');
     expect(parseFloat(records[0].tonnage)).toEqual(25.5);
     expect(records[0].coal_grade).toEqual('high');
     expect(records[0].document_photo).toEqual('photo1.jpg');
@@ -118,9 +142,9 @@ describe('createProductionRecord', () => {
 
   it('should create new stock record when none exists', async () => {
     const { contractor, jetty, operator } = await createTestData();
-    const input = createTestInput(contractor.id, jetty.id, operator.id);
+    const input = createTestInput(contractor.id, jetty.id);
 
-    await createProductionRecord(input);
+    await createProductionRecord(input, createTestActor(operator.id));
 
     // Verify stock record was created
     const stockRecords = await db.select()
@@ -138,20 +162,22 @@ describe('createProductionRecord', () => {
   });
 
   it('should update existing stock record', async () => {
-    const { contractor, jetty, operator } = await createTestData();
+    const { contractor, jetty, stockpile, operator } = await createTestData();
 
     // Create initial stock record
     await db.insert(stockTable)
       .values({
         contractor_id: contractor.id,
         jetty_id: jetty.id,
+        stockpile_id: stockpile.id,
+        coal_grade: 'high',
         tonnage: '50.0',
         version: 1
       })
       .execute();
 
-    const input = createTestInput(contractor.id, jetty.id, operator.id);
-    await createProductionRecord(input);
+    const input = createTestInput(contractor.id, jetty.id);
+    await createProductionRecord(input, createTestActor(operator.id));
 
     // Verify stock was updated
     const stockRecords = await db.select()
@@ -171,18 +197,18 @@ describe('createProductionRecord', () => {
     const { contractor, jetty, operator } = await createTestData();
     
     // Create first production record
-    const input1 = createTestInput(contractor.id, jetty.id, operator.id);
+    const input1 = createTestInput(contractor.id, jetty.id);
     input1.tonnage = 20.0;
     input1.truck_number = 'TRK-001';
     
-    await createProductionRecord(input1);
+    await createProductionRecord(input1, createTestActor(operator.id));
 
     // Create second production record
-    const input2 = createTestInput(contractor.id, jetty.id, operator.id);
+    const input2 = createTestInput(contractor.id, jetty.id);
     input2.tonnage = 30.5;
     input2.truck_number = 'TRK-002';
     
-    await createProductionRecord(input2);
+    await createProductionRecord(input2, createTestActor(operator.id));
 
     // Verify both production records exist
     const productionRecords = await db.select()
@@ -211,9 +237,9 @@ describe('createProductionRecord', () => {
 
   it('should throw error for non-existent contractor', async () => {
     const { jetty, operator } = await createTestData();
-    const input = createTestInput(999, jetty.id, operator.id); // Non-existent contractor
+    const input = createTestInput(999, jetty.id); // Non-existent contractor
 
-    await expect(createProductionRecord(input))
+    await expect(createProductionRecord(input, createTestActor(operator.id)))
       .rejects
       .toThrow(/contractor not found or inactive/i);
   });
@@ -234,18 +260,18 @@ describe('createProductionRecord', () => {
       .returning()
       .execute();
 
-    const input = createTestInput(inactiveContractorResult[0].id, jetty.id, operator.id);
+    const input = createTestInput(inactiveContractorResult[0].id, jetty.id);
 
-    await expect(createProductionRecord(input))
+    await expect(createProductionRecord(input, createTestActor(operator.id)))
       .rejects
       .toThrow(/contractor not found or inactive/i);
   });
 
   it('should throw error for non-existent jetty', async () => {
     const { contractor, operator } = await createTestData();
-    const input = createTestInput(contractor.id, 999, operator.id); // Non-existent jetty
+    const input = createTestInput(contractor.id, 999); // Non-existent jetty
 
-    await expect(createProductionRecord(input))
+    await expect(createProductionRecord(input, createTestActor(operator.id)))
       .rejects
       .toThrow(/jetty not found or inactive/i);
   });
@@ -264,18 +290,18 @@ describe('createProductionRecord', () => {
       .returning()
       .execute();
 
-    const input = createTestInput(contractor.id, inactiveJettyResult[0].id, operator.id);
+    const input = createTestInput(contractor.id, inactiveJettyResult[0].id);
 
-    await expect(createProductionRecord(input))
+    await expect(createProductionRecord(input, createTestActor(operator.id)))
       .rejects
       .toThrow(/jetty not found or inactive/i);
   });
 
   it('should throw error for non-existent operator', async () => {
     const { contractor, jetty } = await createTestData();
-    const input = createTestInput(contractor.id, jetty.id, 999); // Non-existent operator
+    const input = createTestInput(contractor.id, jetty.id);
 
-    await expect(createProductionRecord(input))
+    await expect(createProductionRecord(input, createTestActor(999))) // Non-existent operator
       .rejects
       .toThrow(/operator not found or inactive/i);
   });
@@ -296,9 +322,9 @@ describe('createProductionRecord', () => {
       .returning()
       .execute();
 
-    const input = createTestInput(contractor.id, jetty.id, inactiveOperatorResult[0].id);
+    const input = createTestInput(contractor.id, jetty.id);
 
-    await expect(createProductionRecord(input))
+    await expect(createProductionRecord(input, createTestActor(inactiveOperatorResult[0].id)))
       .rejects
       .toThrow(/operator not found or inactive/i);
   });
@@ -314,11 +340,10 @@ describe('createProductionRecord', () => {
       coal_grade: 'low',
       jetty_id: jetty.id,
       document_photo: null,
-      operator_id: operator.id,
       notes: null
     };
 
-    const result = await createProductionRecord(input);
+    const result = await createProductionRecord(input, createTestActor(operator.id));
 
     expect(result.document_photo).toBeNull();
     expect(result.notes).toBeNull();
@@ -328,10 +353,10 @@ describe('createProductionRecord', () => {
 
   it('should verify numeric conversion for tonnage', async () => {
     const { contractor, jetty, operator } = await createTestData();
-    const input = createTestInput(contractor.id, jetty.id, operator.id);
+    const input = createTestInput(contractor.id, jetty.id);
     input.tonnage = 42.75;
 
-    const result = await createProductionRecord(input);
+    const result = await createProductionRecord(input, createTestActor(operator.id));
 
     // Verify returned tonnage is a number
     expect(typeof result.tonnage).toBe('number');
@@ -346,4 +371,473 @@ describe('createProductionRecord', () => {
     expect(typeof dbRecord[0].tonnage).toBe('string');
     expect(parseFloat(dbRecord[0].tonnage)).toEqual(42.75);
   });
-});
\ No newline at end of file
+
+  it('should reject intake that would take the jetty past capacity', async () => {
+    const { contractor, jetty, operator } = await createTestData();
+    const input = createTestInput(contractor.id, jetty.id);
+    input.tonnage = 4000;
+    await createProductionRecord(input, createTestActor(operator.id));
+
+    // 4000 + 1500 > 5000, counted across all contractors at the jetty
+    input.tonnage = 1500;
+    await expect(createProductionRecord(input, createTestActor(operator.id)))
+      .rejects.toThrow(/capacity exceeded/i);
+
+    const records = await db.select().from(productionRecordsTable).execute();
+    expect(records).toHaveLength(1);
+    const stock = await db.select().from(stockTable).execute();
+    expect(parseFloat(stock[0].tonnage)).toEqual(4000);
+
+    // Filling the jetty exactly is allowed
+    input.tonnage = 1000;
+    const result = await createProductionRecord(input, createTestActor(operator.id));
+    expect(result.capacity_override_reason).toBeNull();
+  });
+
+  it('should accept over-capacity intake with an override reason', async () => {
+    const { contractor, jetty, operator } = await createTestData();
+    const input = createTestInput(contractor.id, jetty.id);
+    input.tonnage = 5200;
+    input.capacity_override_reason = 'Overflow area in use until barge arrives';
+
+    const result = await createProductionRecord(input, createTestActor(operator.id));
+
+    expect(result.capacity_override_reason).toEqual('Overflow area in use until barge arrives');
+
+    const auditLogs = await db.select()
+      .from(auditLogTable)
+      .where(eq(auditLogTable.action, 'production_capacity_override'))
+      .execute();
+    expect(auditLogs).toHaveLength(1);
+    expect(auditLogs[0].record_id).toEqual(result.id);
+    expect(auditLogs[0].new_values).toMatchObject({
+      capacity: 5000,
+      stock_before: 0,
+      tonnage: 5200
+    });
+  });
+
+  it('should not record an override reason for intake within capacity', async () => {
+    const { contractor, jetty, operator } = await createTestData();
+    const input = createTestInput(contractor.id, jetty.id);
+    input.capacity_override_reason = 'Not needed';
+
+    const result = await createProductionRecord(input, createTestActor(operator.id));
+
+    expect(result.capacity_override_reason).toBeNull();
+    const auditLogs = await db.select().from(auditLogTable).execute();
+    expect(auditLogs.filter(log => log.action === 'production_capacity_override')).toHaveLength(0);
+  });
+
+  it('should put intake on the jetty default stockpile when none is named', async () => {
+    const { contractor, jetty, stockpile, operator } = await createTestData();
+
+    const result = await createProductionRecord(createTestInput(contractor.id, jetty.id), createTestActor(operator.id));
+
+    expect(result.stockpile_id).toEqual(stockpile.id);
+    const stock = await db.select().from(stockTable).execute();
+    expect(stock[0].stockpile_id).toEqual(stockpile.id);
+  });
+
+  it('should enforce the named stockpile grade, active flag and capacity', async () => {
+    const { contractor, jetty, operator } = await createTestData();
+    const stockpiles = await db.insert(stockpilesTable)
+      .values([
+        { jetty_id: jetty.id, code: 'SP-LOW', capacity: '100.00', coal_grade: 'low' },
+        { jetty_id: jetty.id, code: 'SP-OLD', capacity: '1000.00', is_active: false }
+      ])
+      .returning()
+      .execute();
+    const [lowPile, inactivePile] = stockpiles;
+
+    const input = { ...createTestInput(contractor.id, jetty.id), stockpile_id: lowPile.id };
+    await expect(createProductionRecord(input, createTestActor(operator.id)))
+      .rejects.toThrow(/only holds low grade coal/i);
+
+    await expect(createProductionRecord({ ...input, stockpile_id: inactivePile.id }, createTestActor(operator.id)))
+      .rejects.toThrow(/SP-OLD is inactive/i);
+
+    // Well within the jetty's capacity, but more than the stockpile holds
+    await expect(createProductionRecord({ ...input, coal_grade: 'low', tonnage: 150 }, createTestActor(operator.id)))
+      .rejects.toThrow(/stockpile SP-LOW capacity exceeded/i);
+
+    const result = await createProductionRecord({ ...input, coal_grade: 'low', tonnage: 100 }, createTestActor(operator.id));
+    expect(result.stockpile_id).toEqual(lowPile.id);
+  });
+
+  it('should reject a stockpile at another jetty', async () => {
+    const { contractor, jetty, operator } = await createTestData();
+    const otherJetty = await db.insert(jettiesTable)
+      .values({ name: 'Other Jetty', code: 'OJ001', capacity: '5000.00' })
+      .returning()
+      .execute();
+    const otherPile = await db.insert(stockpilesTable)
+      .values({ jetty_id: otherJetty[0].id, code: 'SP-1', capacity: '5000.00' })
+      .returning()
+      .execute();
+
+    const input = { ...createTestInput(contractor.id, jetty.id), stockpile_id: otherPile[0].id };
+    await expect(createProductionRecord(input, createTestActor(operator.id)))
+      .rejects.toThrow(/SP-1 is not at jetty/i);
+  });
+});
+
+describe('production anomaly flags', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const HOUR = 60 * 60 * 1000;
+
+  const createTestData = async () => {
+    const contractors = await db.insert(contractorsTable)
+      .values([
+        { name: 'Contractor One', code: 'C001', contact_person: 'John Doe', default_grade: 'high' },
+        { name: 'Contractor Two', code: 'C002', contact_person: 'Jane Smith', default_grade: 'high' }
+      ])
+      .returning()
+      .execute();
+
+    const jetties = await db.insert(jettiesTable)
+      .values({ name: 'Test Jetty', code: 'TJ001', capacity: '50000.00' })
+      .returning()
+      .execute();
+
+    await db.insert(stockpilesTable)
+      .values({ jetty_id: jetties[0].id, code: 'DEFAULT', capacity: '50000.00' })
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'operator@test.com', username: 'testoperator', password_hash: 'hashed_password', full_name: 'Test Operator', role: 'operator_produksi' },
+        { email: 'auditor@test.com', username: 'testauditor', password_hash: 'hashed_password', full_name: 'Test Auditor', role: 'auditor' }
+      ])
+      .returning()
+      .execute();
+
+    return { contractor: contractors[0], otherContractor: contractors[1], jetty: jetties[0], operator: users[0], auditor: users[1] };
+  };
+
+  const createTestActor = (userId: number): RequestActor => ({
+    user_id: userId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
+  const intake = (contractorId: number, jettyId: number, truckNumber: string, tonnage: number, dateTime: Date): CreateProductionRecordInput => ({
+    date_time: dateTime,
+    contractor_id: contractorId,
+    truck_number: truckNumber,
+    tonnage,
+    coal_grade: 'high',
+    jetty_id: jettyId,
+    document_photo: null,
+    notes: null
+  });
+
+  const getFlagRules = async (recordId: number) => {
+    const flags = await db.select()
+      .from(productionFlagsTable)
+      .where(eq(productionFlagsTable.production_record_id, recordId))
+      .execute();
+    return flags.map(flag => flag.rule).sort();
+  };
+
+  it('should flag the same truck logged again within the window', async () => {
+    const { contractor, jetty, operator } = await createTestData();
+    const actor = createTestActor(operator.id);
+    const base = Date.now() - 2 * HOUR;
+
+    const first = await createProductionRecord(intake(contractor.id, jetty.id, 'TRK-001', 25, new Date(base)), actor);
+    const repeat = await createProductionRecord(intake(contractor.id, jetty.id, 'TRK-001', 25, new Date(base + 3 * 60 * 1000)), actor);
+    const nextTrip = await createProductionRecord(intake(contractor.id, jetty.id, 'TRK-001', 25, new Date(base + 45 * 60 * 1000)), actor);
+    const otherTruck = await createProductionRecord(intake(contractor.id, jetty.id, 'TRK-002', 25, new Date(base + 60 * 1000)), actor);
+
+    expect(await getFlagRules(first.id)).toEqual([]);
+    expect(await getFlagRules(repeat.id)).toEqual(['duplicate_truck']);
+    expect(await getFlagRules(nextTrip.id)).toEqual([]);
+    expect(await getFlagRules(otherTruck.id)).toEqual([]);
+
+    const [flag] = await db.select().from(productionFlagsTable).execute();
+    expect(flag.detail).toContain(`record #${first.id}`);
+    expect(flag.status).toEqual('open');
+
+    // A voided record no longer counts as the truck's earlier trip
+    await voidProductionRecord({ id: first.id, reason: 'Logged against the wrong shift' }, createTestActor(operator.id));
+    const afterVoid = await createProductionRecord(intake(contractor.id, jetty.id, 'TRK-003', 25, new Date(base)), actor);
+    expect(await getFlagRules(afterVoid.id)).toEqual([]);
+  });
+
+  it('should flag an unregistered truck logged again under another spelling of its plate', async () => {
+    const { contractor, jetty, operator } = await createTestData();
+    const actor = createTestActor(operator.id);
+    const base = Date.now() - 2 * HOUR;
+
+    const first = await createProductionRecord(intake(contractor.id, jetty.id, 'KT 5150 XY', 25, new Date(base)), actor);
+    const repeat = await createProductionRecord(intake(contractor.id, jetty.id, 'kt-5150xy', 25, new Date(base + 3 * 60 * 1000)), actor);
+
+    expect(first.truck_id).toBeNull();
+    expect(repeat.truck_number).toEqual('KT5150XY');
+    expect(await getFlagRules(repeat.id)).toEqual(['duplicate_truck']);
+  });
+
+  it('should flag timestamps in the future and records backdated beyond the cutoff', async () => {
+    const { contractor, jetty, operator } = await createTestData();
+    const actor = createTestActor(operator.id);
+
+    const future = await createProductionRecord(intake(contractor.id, jetty.id, 'TRK-001', 25, new Date(Date.now() + 2 * HOUR)), actor);
+    const backdated = await createProductionRecord(intake(contractor.id, jetty.id, 'TRK-002', 25, new Date(Date.now() - 100 * HOUR)), actor);
+    const recent = await createProductionRecord(intake(contractor.id, jetty.id, 'TRK-003', 25, new Date(Date.now() - 24 * HOUR)), actor);
+
+    expect(await getFlagRules(future.id)).toEqual(['future_timestamp']);
+    expect(await getFlagRules(backdated.id)).toEqual(['backdated']);
+    expect(await getFlagRules(recent.id)).toEqual([]);
+
+    // Still recorded and on stock: flags are for review, not rejection
+    const stock = await db.select().from(stockTable).execute();
+    expect(parseFloat(stock[0].tonnage)).toEqual(75);
+  });
+
+  it('should flag tonnage outside the truck or contractor range', async () => {
+    const { contractor, otherContractor, jetty, operator } = await createTestData();
+    const actor = createTestActor(operator.id);
+    const start = Date.now() - 48 * HOUR;
+
+    // Five loads of 20-24 tons give the truck a range
+    for (let trip = 0; trip < 5; trip++) {
+      await createProductionRecord(intake(contractor.id, jetty.id, 'TRK-001', 20 + trip, new Date(start + trip * HOUR)), actor);
+    }
+
+    const usual = await createProductionRecord(intake(contractor.id, jetty.id, 'TRK-001', 29, new Date(start + 6 * HOUR)), actor);
+    const typo = await createProductionRecord(intake(contractor.id, jetty.id, 'TRK-001', 400, new Date(start + 7 * HOUR)), actor);
+    // A truck without history is held against its contractor's loads
+    const newTruck = await createProductionRecord(intake(contractor.id, jetty.id, 'TRK-009', 4, new Date(start + 8 * HOUR)), actor);
+    // Not enough history for either: nothing to compare against
+    const newContractor = await createProductionRecord(intake(otherContractor.id, jetty.id, 'TRK-010', 400, new Date(start + 9 * HOUR)), actor);
+
+    expect(await getFlagRules(usual.id)).toEqual([]);
+    expect(await getFlagRules(typo.id)).toEqual(['tonnage_out_of_range']);
+    expect(await getFlagRules(newTruck.id)).toEqual(['tonnage_out_of_range']);
+    expect(await getFlagRules(newContractor.id)).toEqual([]);
+
+    const [typoFlag] = await db.select()
+      .from(productionFlagsTable)
+      .where(eq(productionFlagsTable.production_record_id, typo.id))
+      .execute();
+    expect(typoFlag.detail).toEqual("400 tons is outside the truck's range of 20-29 tons over its last 6 loads");
+  });
+
+  it('should queue flagged records and let an auditor clear them', async () => {
+    const { contractor, otherContractor, jetty, operator, auditor } = await createTestData();
+    const actor = createTestActor(operator.id);
+    const backdatedAt = new Date(Date.now() - 100 * HOUR);
+
+    const flagged = await createProductionRecord(intake(contractor.id, jetty.id, 'TRK-001', 25, backdatedAt), actor);
+    const otherFlagged = await createProductionRecord(intake(otherContractor.id, jetty.id, 'TRK-002', 25, backdatedAt), actor);
+    await createProductionRecord(intake(contractor.id, jetty.id, 'TRK-003', 25, new Date()), actor);
+
+    const queue = await getFlaggedProduction();
+    expect(queue.map(record => record.id).sort()).toEqual([flagged.id, otherFlagged.id].sort());
+    expect(queue[0].flags.map(flag => flag.rule)).toEqual(['backdated']);
+
+    const scoped = await getFlaggedProduction(undefined, { unrestricted: false, grants: [{ jetty_id: null, contractor_id: contractor.id }] });
+    expect(scoped.map(record => record.id)).toEqual([flagged.id]);
+    expect(await getFlaggedProduction({ rule: 'duplicate_truck' })).toHaveLength(0);
+
+    const reviewed = await reviewFlaggedProduction({
+      production_record_id: flagged.id,
+      decision: 'clear',
+      note: 'Paper docket from the night shift, entered late'
+    }, createTestActor(auditor.id));
+
+    expect(reviewed.flags[0].status).toEqual('cleared');
+    expect(reviewed.flags[0].reviewed_by).toEqual(auditor.id);
+    expect((await getFlaggedProduction()).map(record => record.id)).toEqual([otherFlagged.id]);
+
+    await expect(reviewFlaggedProduction({ production_record_id: flagged.id, decision: 'clear', note: 'Again' }, createTestActor(auditor.id)))
+      .rejects.toThrow(/has no open flags/i);
+
+    const auditLogs = await db.select()
+      .from(auditLogTable)
+      .where(eq(auditLogTable.action, 'production_flags_clear'))
+      .execute();
+    expect(auditLogs).toHaveLength(1);
+    expect(auditLogs[0].record_id).toEqual(flagged.id);
+  });
+
+  it('should void a flagged record with a compensating record', async () => {
+    const { contractor, jetty, operator, auditor } = await createTestData();
+    const actor = createTestActor(operator.id);
+    const at = new Date(Date.now() - HOUR);
+
+    await createProductionRecord(intake(contractor.id, jetty.id, 'TRK-001', 25, at), actor);
+    const duplicate = await createProductionRecord(intake(contractor.id, jetty.id, 'TRK-001', 25, at), actor);
+
+    const reviewed = await reviewFlaggedProduction({
+      production_record_id: duplicate.id,
+      decision: 'void',
+      note: 'Same load entered twice'
+    }, createTestActor(auditor.id));
+    expect(reviewed.flags.map(flag => flag.status)).toEqual(['voided']);
+
+    const voids = await db.select()
+      .from(productionRecordsTable)
+      .where(eq(productionRecordsTable.compensates_id, duplicate.id))
+      .execute();
+    expect(voids).toHaveLength(1);
+    expect(voids[0].entry_type).toEqual('void');
+    expect(voids[0].tonnage).toEqual('-25.00');
+    expect(voids[0].date_time).toEqual(at);
+    expect(voids[0].operator_id).toEqual(auditor.id);
+
+    // The original stays as it was
+    const [original] = await db.select()
+      .from(productionRecordsTable)
+      .where(eq(productionRecordsTable.id, duplicate.id))
+      .execute();
+    expect(original.tonnage).toEqual('25.00');
+    expect(original.entry_type).toEqual('original');
+
+    const stock = await db.select().from(stockTable).execute();
+    expect(parseFloat(stock[0].tonnage)).toEqual(25);
+
+    await expect(voidProductionRecord({ id: duplicate.id, reason: 'Again' }, createTestActor(auditor.id)))
+      .rejects.toThrow(/already been voided/i);
+    await expect(voidProductionRecord({ id: voids[0].id, reason: 'Void the void' }, createTestActor(auditor.id)))
+      .rejects.toThrow(/cannot itself be voided/i);
+    expect(await getFlaggedProduction()).toHaveLength(0);
+
+    const auditLogs = await db.select()
+      .from(auditLogTable)
+      .where(and(eq(auditLogTable.action, 'production_void'), eq(auditLogTable.record_id, duplicate.id)))
+      .execute();
+    expect(auditLogs).toHaveLength(1);
+  });
+});
+
+describe('voiding and correcting production', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async () => {
+    const contractors = await db.insert(contractorsTable)
+      .values([
+        { name: 'Contractor One', code: 'C001', contact_person: 'John Doe', default_grade: 'high' },
+        { name: 'Contractor Two', code: 'C002', contact_person: 'Jane Smith', default_grade: 'high' }
+      ])
+      .returning()
+      .execute();
+
+    const jetties = await db.insert(jettiesTable)
+      .values({ name: 'Test Jetty', code: 'TJ001', capacity: '50000.00' })
+      .returning()
+      .execute();
+
+    await db.insert(stockpilesTable)
+      .values({ jetty_id: jetties[0].id, code: 'DEFAULT', capacity: '50000.00' })
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'admin@test.com', username: 'testadmin', password_hash: 'hashed_password', full_name: 'Test Admin', role: 'admin' })
+      .returning()
+      .execute();
+
+    return { contractor: contractors[0], otherContractor: contractors[1], jetty: jetties[0], admin: users[0] };
+  };
+
+  const createTestActor = (userId: number): RequestActor => ({
+    user_id: userId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
+  const intake = (contractorId: number, jettyId: number, tonnage: number): CreateProductionRecordInput => ({
+    date_time: new Date(),
+    contractor_id: contractorId,
+    truck_number: 'TRK-001',
+    tonnage,
+    coal_grade: 'high',
+    jetty_id: jettyId,
+    document_photo: null,
+    notes: 'Night shift'
+  });
+
+  const stockOf = async (contractorId: number) => {
+    const stock = await db.select().from(stockTable).where(eq(stockTable.contractor_id, contractorId)).execute();
+    return stock.map(row => [row.coal_grade, parseFloat(row.tonnage)]);
+  };
+
+  it('should void a record with a compensating record and take its tonnage off stock', async () => {
+    const { contractor, jetty, admin } = await createTestData();
+    const record = await createProductionRecord(intake(contractor.id, jetty.id, 25), createTestActor(admin.id));
+
+    const voidRecord = await voidProductionRecord({ id: record.id, reason: 'Truck turned back at the gate' }, createTestActor(admin.id));
+    expect(voidRecord.entry_type).toEqual('void');
+    expect(voidRecord.compensates_id).toEqual(record.id);
+    expect(voidRecord.tonnage).toEqual(-25);
+    expect(await stockOf(contractor.id)).toEqual([['high', 0]]);
+
+    const auditLogs = await db.select()
+      .from(auditLogTable)
+      .where(and(eq(auditLogTable.action, 'production_void'), eq(auditLogTable.record_id, record.id)))
+      .execute();
+    expect(auditLogs).toHaveLength(1);
+    expect(auditLogs[0].new_values).toMatchObject({ reason: 'Truck turned back at the gate', void_record: { tonnage: -25 } });
+  });
+
+  it('should correct a record with a void and a correction record', async () => {
+    const { contractor, otherContractor, jetty, admin } = await createTestData();
+    const record = await createProductionRecord(intake(contractor.id, jetty.id, 250), createTestActor(admin.id));
+
+    const correction = await correctProductionRecord({ id: record.id, reason: 'Typed 250 for 25', tonnage: 25 }, createTestActor(admin.id));
+    expect(correction.entry_type).toEqual('correction');
+    expect(correction.compensates_id).toEqual(record.id);
+    expect(correction.tonnage).toEqual(25);
+    expect(correction.truck_number).toEqual('TRK001');
+    expect(correction.notes).toEqual('Night shift');
+    expect(await stockOf(contractor.id)).toEqual([['high', 25]]);
+
+    const [original] = await db.select().from(productionRecordsTable).where(eq(productionRecordsTable.id, record.id)).execute();
+    expect(original.tonnage).toEqual('250.00');
+
+    // The correction stands in for the original: correcting it again moves the tonnage to the other contractor's stock
+    await expect(correctProductionRecord({ id: record.id, reason: 'Again', tonnage: 24 }, createTestActor(admin.id)))
+      .rejects.toThrow(/already been corrected by record #\d+/);
+    const moved = await correctProductionRecord({
+      id: correction.id,
+      reason: 'Truck belongs to Contractor Two',
+      contractor_id: otherContractor.id,
+      coal_grade: 'medium'
+    }, createTestActor(admin.id));
+    expect(moved.tonnage).toEqual(25);
+    expect(await stockOf(contractor.id)).toEqual([['high', 0]]);
+    expect(await stockOf(otherContractor.id)).toEqual([['medium', 25]]);
+
+    await expect(correctProductionRecord({ id: moved.id, reason: 'Nothing', tonnage: 25 }, createTestActor(admin.id)))
+      .rejects.toThrow(/changes nothing/);
+
+    const auditLogs = await db.select()
+      .from(auditLogTable)
+      .where(eq(auditLogTable.action, 'production_correct'))
+      .execute();
+    expect(auditLogs.map(log => log.record_id)).toEqual([record.id, correction.id]);
+    expect(auditLogs[0].old_values).toMatchObject({ tonnage: 250 });
+    expect(auditLogs[0].new_values).toMatchObject({ reason: 'Typed 250 for 25', correction_record: { tonnage: 25 } });
+  });
+
+  it('should not reverse tonnage that has already left the stockpile', async () => {
+    const { contractor, jetty, admin } = await createTestData();
+    const record = await createProductionRecord(intake(contractor.id, jetty.id, 25), createTestActor(admin.id));
+    await db.update(stockTable).set({ tonnage: '5.00' }).where(eq(stockTable.contractor_id, contractor.id)).execute();
+
+    await expect(voidProductionRecord({ id: record.id, reason: 'Mistake' }, createTestActor(admin.id)))
+      .rejects.toThrow(/insufficient stock/i);
+
+    // Lowering the tonnage within the same stock only takes the difference off
+    const correction = await correctProductionRecord({ id: record.id, reason: 'Scale was off', tonnage: 22 }, createTestActor(admin.id));
+    expect(correction.tonnage).toEqual(22);
+    expect(await stockOf(contractor.id)).toEqual([['high', 2]]);
+
+    const records = await db.select().from(productionRecordsTable).execute();
+    expect(records).toHaveLength(3);
+  });
+});
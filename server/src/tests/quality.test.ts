@@ -0,0 +1,249 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { contractorsTable, usersTable, productionRecordsTable } from '../db/schema';
+import {
+  type RequestActor,
+  type CreateProductionRecordInput,
+  type CreateBargingRecordInput,
+  type RecordQualitySampleInput
+} from '../schema';
+import { createJetty } from '../handlers/jetties';
+import { getStockpiles } from '../handlers/stockpiles';
+import { createProductionRecord, voidProductionRecord, correctProductionRecord } from '../handlers/production';
+import { createBargingRecord } from '../handlers/barging';
+import { createVessel } from '../handlers/vessels';
+import { createShipment } from '../handlers/shipments';
+import {
+  recordQualitySample,
+  getQualitySamples,
+  getStockpileQuality,
+  getWeightedQuality,
+  gradeFromCalorificValue
+} from '../handlers/quality';
+import { eq } from 'drizzle-orm';
+
+describe('coal quality', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const setupTestData = async () => {
+    const contractors = await db.insert(contractorsTable)
+      .values({ name: 'Contractor One', code: 'C001', contact_person: 'John Doe', default_grade: 'high' })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'lab@example.com',
+        username: 'lab',
+        password_hash: 'hashed_password',
+        full_name: 'Quality Controller',
+        role: 'admin'
+      })
+      .returning()
+      .execute();
+
+    const jetty = await createJetty({ name: 'Jetty Alpha', code: 'JA', capacity: 50000 });
+    const [stockpile] = await getStockpiles(jetty.id);
+
+    return { contractor: contractors[0], user: users[0], jetty, stockpile };
+  };
+
+  const createActor = (userId: number): RequestActor => ({
+    user_id: userId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
+  const productionInput = (contractorId: number, jettyId: number, tonnage: number, truckNumber: string): CreateProductionRecordInput => ({
+    date_time: new Date('2024-06-01T08:00:00Z'),
+    contractor_id: contractorId,
+    truck_number: truckNumber,
+    tonnage,
+    coal_grade: 'high',
+    jetty_id: jettyId,
+    document_photo: null,
+    notes: null
+  });
+
+  const bargeLoad = (contractorId: number, jettyId: number, tonnage: number, dateTime: Date): CreateBargingRecordInput => ({
+    date_time: dateTime,
+    contractor_id: contractorId,
+    ship_batch_number: 'BG-01',
+    tonnage,
+    coal_grade: 'high',
+    jetty_id: jettyId,
+    buyer: null,
+    loading_document: null,
+    notes: null
+  });
+
+  const sampleInput = (overrides: Partial<RecordQualitySampleInput> = {}): RecordQualitySampleInput => ({
+    lab: 'Borneo Coal Lab',
+    sample_number: null,
+    sampled_at: new Date('2024-06-01T10:00:00Z'),
+    basis: 'gar',
+    calorific_value: 6000,
+    total_moisture: null,
+    ash: null,
+    sulphur: null,
+    hgi: null,
+    notes: null,
+    ...overrides
+  });
+
+  it('should record samples against exactly one production record, stockpile or shipment', async () => {
+    const { contractor, user, jetty, stockpile } = await setupTestData();
+    const actor = createActor(user.id);
+    const record = await createProductionRecord(productionInput(contractor.id, jetty.id, 600, 'TRK-001'), actor);
+
+    const sample = await recordQualitySample(sampleInput({
+      production_record_id: record.id,
+      sample_number: 'BCL-24-0601',
+      total_moisture: 18.5,
+      sulphur: 0.452
+    }), actor);
+    expect(sample.production_record_id).toEqual(record.id);
+    expect(sample.calorific_value).toEqual(6000);
+    expect(sample.sulphur).toEqual(0.452);
+    expect(sample.ash).toBeNull();
+
+    await expect(recordQualitySample(sampleInput(), actor)).rejects.toThrow(/exactly one/);
+    await expect(recordQualitySample(sampleInput({ production_record_id: record.id, stockpile_id: stockpile.id }), actor))
+      .rejects.toThrow(/exactly one/);
+    await expect(recordQualitySample(sampleInput({ shipment_id: 99999 }), actor))
+      .rejects.toThrow(/Shipment with ID 99999 not found/);
+
+    await voidProductionRecord({ id: record.id, reason: 'Entered twice' }, actor);
+    const [voidEntry] = await db.select().from(productionRecordsTable).where(eq(productionRecordsTable.entry_type, 'void')).execute();
+    await expect(recordQualitySample(sampleInput({ production_record_id: voidEntry.id }), actor))
+      .rejects.toThrow(/is a void/);
+
+    await expect(recordQualitySample(sampleInput({ stockpile_id: stockpile.id }), actor, { unrestricted: false, grants: [] }))
+      .rejects.toThrow(/does not cover jetty/);
+
+    expect(await getQualitySamples({ production_record_id: record.id })).toHaveLength(1);
+  });
+
+  it('should list only the samples in the caller\'s scope', async () => {
+    const { contractor, user, jetty, stockpile } = await setupTestData();
+    const actor = createActor(user.id);
+    const otherJetty = await createJetty({ name: 'Jetty Beta', code: 'JB', capacity: 50000 });
+    const [otherStockpile] = await getStockpiles(otherJetty.id);
+    const record = await createProductionRecord(productionInput(contractor.id, jetty.id, 600, 'TRK-001'), actor);
+    const vessel = await createVessel({ name: 'MV Ocean Star', imo_number: '9074729' });
+    const shipment = await createShipment({
+      vessel_id: vessel.id,
+      buyer: 'Pacific Power Co',
+      destination_port: 'Kaohsiung',
+      laycan_start: new Date('2024-06-01T00:00:00Z'),
+      laycan_end: new Date('2024-06-05T00:00:00Z'),
+      nominated_quantity: 5000,
+      notes: null
+    });
+
+    const production = await recordQualitySample(sampleInput({ production_record_id: record.id }), actor);
+    const pile = await recordQualitySample(sampleInput({ stockpile_id: stockpile.id }), actor);
+    const otherPile = await recordQualitySample(sampleInput({ stockpile_id: otherStockpile.id }), actor);
+    // Nothing is loaded for the shipment yet, so it is in every scope
+    const cargo = await recordQualitySample(sampleInput({ shipment_id: shipment.id }), actor);
+
+    const listed = async (grant: { jetty_id: number | null; contractor_id: number | null }) =>
+      (await getQualitySamples(undefined, { unrestricted: false, grants: [grant] })).map(sample => sample.id).sort();
+
+    expect(await listed({ jetty_id: jetty.id, contractor_id: null })).toEqual([production.id, pile.id, cargo.id].sort());
+    expect(await listed({ jetty_id: otherJetty.id, contractor_id: null })).toEqual([otherPile.id, cargo.id].sort());
+    expect(await listed({ jetty_id: otherJetty.id, contractor_id: contractor.id })).toEqual([otherPile.id, cargo.id].sort());
+    expect(await getQualitySamples()).toHaveLength(4);
+  });
+
+  it('should grade a stockpile from the calorific value of its latest sample on the grading basis', async () => {
+    const { user, stockpile } = await setupTestData();
+    const actor = createActor(user.id);
+
+    expect(gradeFromCalorificValue(6000)).toEqual('high');
+    expect(gradeFromCalorificValue(5999)).toEqual('medium');
+    expect(gradeFromCalorificValue(4999)).toEqual('low');
+
+    const unsampled = await getStockpileQuality(stockpile.id);
+    expect(unsampled.sample).toBeNull();
+    expect(unsampled.derived_grade).toBeNull();
+
+    await recordQualitySample(sampleInput({ stockpile_id: stockpile.id, calorific_value: 6100 }), actor);
+    // Newer, but air dried results do not grade on the gross as received scale
+    await recordQualitySample(sampleInput({ stockpile_id: stockpile.id, basis: 'adb', calorific_value: 4500, sampled_at: new Date('2024-06-03T10:00:00Z') }), actor);
+    expect((await getStockpileQuality(stockpile.id)).derived_grade).toEqual('high');
+
+    await recordQualitySample(sampleInput({ stockpile_id: stockpile.id, calorific_value: 5400, sampled_at: new Date('2024-06-02T10:00:00Z') }), actor);
+    const quality = await getStockpileQuality(stockpile.id);
+    expect(quality.basis).toEqual('gar');
+    expect(quality.sample!.calorific_value).toEqual(5400);
+    expect(quality.derived_grade).toEqual('medium');
+
+    await expect(getStockpileQuality(stockpile.id, { unrestricted: false, grants: [] })).rejects.toThrow(/does not cover jetty/);
+  });
+
+  it('should weight the quality of production records by their tonnage', async () => {
+    const { contractor, user, jetty } = await setupTestData();
+    const actor = createActor(user.id);
+    const first = await createProductionRecord(productionInput(contractor.id, jetty.id, 600, 'TRK-001'), actor);
+    const second = await createProductionRecord(productionInput(contractor.id, jetty.id, 400, 'TRK-002'), actor);
+    const third = await createProductionRecord(productionInput(contractor.id, jetty.id, 200, 'TRK-003'), actor);
+
+    await recordQualitySample(sampleInput({ production_record_id: first.id, calorific_value: 6000, total_moisture: 20, ash: 5, sulphur: 0.5 }), actor);
+    await recordQualitySample(sampleInput({ production_record_id: second.id, calorific_value: 5000, total_moisture: 30, sulphur: 0.8, hgi: 50 }), actor);
+    await recordQualitySample(sampleInput({ production_record_id: third.id, basis: 'adb', calorific_value: 6500 }), actor);
+
+    const quality = await getWeightedQuality({
+      production_record_ids: [first.id, second.id, third.id],
+      barging_record_ids: [],
+      basis: 'gar'
+    });
+
+    expect(quality.total_tonnage).toEqual(1200);
+    expect(quality.sampled_tonnage).toEqual(1000);
+    expect(quality.unsampled).toEqual([{ record_type: 'production', record_id: third.id, tonnage: 200 }]);
+    expect(quality.calorific_value).toEqual(5600);
+    expect(quality.total_moisture).toEqual(24);
+    expect(quality.ash).toEqual(5);
+    expect(quality.sulphur).toEqual(0.62);
+    expect(quality.hgi).toEqual(50);
+
+    // A correction keeps the sample of the record it corrects; the corrected record no longer counts
+    const corrected = await correctProductionRecord({ id: second.id, reason: 'Weighbridge reprint', tonnage: 900 }, actor);
+    const afterCorrection = await getWeightedQuality({ production_record_ids: [first.id, corrected.id], barging_record_ids: [], basis: 'gar' });
+    expect(afterCorrection.calorific_value).toEqual(5400);
+    await expect(getWeightedQuality({ production_record_ids: [second.id], barging_record_ids: [], basis: 'gar' }))
+      .rejects.toThrow(/has been voided or corrected/);
+
+    await expect(getWeightedQuality({ production_record_ids: [], barging_record_ids: [], basis: 'gar' }))
+      .rejects.toThrow(/No production or barging records/);
+    await expect(getWeightedQuality({ production_record_ids: [99999], barging_record_ids: [], basis: 'gar' }))
+      .rejects.toThrow(/Production record with ID 99999 not found/);
+  });
+
+  it('should take the stockpile sample before loading for barge loads', async () => {
+    const { contractor, user, jetty, stockpile } = await setupTestData();
+    const actor = createActor(user.id);
+    await createProductionRecord(productionInput(contractor.id, jetty.id, 20000, 'TRK-001'), actor);
+
+    await recordQualitySample(sampleInput({ stockpile_id: stockpile.id, calorific_value: 5800, sampled_at: new Date('2024-06-02T00:00:00Z') }), actor);
+    await recordQualitySample(sampleInput({ stockpile_id: stockpile.id, calorific_value: 5200, sampled_at: new Date('2024-06-04T00:00:00Z') }), actor);
+
+    const early = await createBargingRecord(bargeLoad(contractor.id, jetty.id, 1000, new Date('2024-06-01T12:00:00Z')), actor);
+    const middle = await createBargingRecord(bargeLoad(contractor.id, jetty.id, 3000, new Date('2024-06-03T12:00:00Z')), actor);
+    const late = await createBargingRecord(bargeLoad(contractor.id, jetty.id, 1000, new Date('2024-06-05T12:00:00Z')), actor);
+
+    const quality = await getWeightedQuality({ production_record_ids: [], barging_record_ids: [early.id, middle.id, late.id], basis: 'gar' });
+
+    expect(quality.unsampled).toEqual([{ record_type: 'barging', record_id: early.id, tonnage: 1000 }]);
+    expect(quality.sampled_tonnage).toEqual(4000);
+    expect(quality.calorific_value).toEqual(5650);
+    expect(quality.total_moisture).toBeNull();
+
+    const otherContractor = { unrestricted: false, grants: [{ jetty_id: jetty.id, contractor_id: contractor.id + 1 }] };
+    await expect(getWeightedQuality({ production_record_ids: [], barging_record_ids: [late.id], basis: 'gar' }, otherContractor))
+      .rejects.toThrow(/does not cover jetty/);
+  });
+});
@@ -0,0 +1,285 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  contractorsTable,
+  jettiesTable,
+  stockpilesTable,
+  usersTable,
+  stockTable,
+  stockAdjustmentsTable,
+  productionRecordsTable,
+  bargingRecordsTable,
+  stockMovementsTable,
+  auditLogTable
+} from '../db/schema';
+import {
+  type RequestActor,
+  type CreateProductionRecordInput,
+  createStockAdjustmentInputSchema
+} from '../schema';
+import { reconcileStock } from '../handlers/reconciliation';
+import { createProductionRecord } from '../handlers/production';
+import { eq } from 'drizzle-orm';
+
+describe('stock reconciliation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const setupTestData = async () => {
+    const contractors = await db.insert(contractorsTable)
+      .values({ name: 'Contractor One', code: 'C001', contact_person: 'John Doe', default_grade: 'high' })
+      .returning()
+      .execute();
+
+    const jetties = await db.insert(jettiesTable)
+      .values([
+        { name: 'Jetty Alpha', code: 'JA', capacity: '100000.00' },
+        { name: 'Jetty Beta', code: 'JB', capacity: '100000.00' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(stockpilesTable)
+      .values(jetties.map(jetty => ({ jetty_id: jetty.id, code: 'DEFAULT', capacity: jetty.capacity })))
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'admin@example.com',
+        username: 'admin',
+        password_hash: 'hashed_password',
+        full_name: 'Test Admin',
+        role: 'admin'
+      })
+      .returning()
+      .execute();
+
+    return { contractor: contractors[0], jettyA: jetties[0], jettyB: jetties[1], user: users[0] };
+  };
+
+  const createActor = (userId: number): RequestActor => ({
+    user_id: userId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
+  const productionInput = (contractorId: number, jettyId: number, tonnage: number): CreateProductionRecordInput => ({
+    date_time: new Date(),
+    contractor_id: contractorId,
+    truck_number: 'TRK-001',
+    tonnage,
+    coal_grade: 'high',
+    jetty_id: jettyId,
+    document_photo: null,
+    notes: null
+  });
+
+  const defaultStockpileId = async (jettyId: number) => {
+    const rows = await db.select()
+      .from(stockpilesTable)
+      .where(eq(stockpilesTable.jetty_id, jettyId))
+      .execute();
+    return rows[0].id;
+  };
+
+  // Records written straight to the table bypass the ledger, the way a failed import would
+  const insertBargingRecord = async (contractorId: number, jettyId: number, tonnage: number, userId: number) =>
+    db.insert(bargingRecordsTable)
+      .values({
+        date_time: new Date(),
+        contractor_id: contractorId,
+        ship_batch_number: 'SB-001',
+        coal_grade: 'high',
+        tonnage: tonnage.toString(),
+        jetty_id: jettyId,
+        stockpile_id: await defaultStockpileId(jettyId),
+        operator_id: userId
+      })
+      .execute();
+
+  const getStockTonnage = async (contractorId: number, jettyId: number) => {
+    const rows = await db.select()
+      .from(stockTable)
+      .where(eq(stockTable.jetty_id, jettyId))
+      .execute();
+    const row = rows.find(stock => stock.contractor_id === contractorId);
+    return row ? parseFloat(row.tonnage) : null;
+  };
+
+  it('should report no discrepancies when stock matches the records', async () => {
+    const { contractor, jettyA, user } = await setupTestData();
+    await createProductionRecord(productionInput(contractor.id, jettyA.id, 100), createActor(user.id));
+
+    const result = await reconcileStock({ apply: false }, createActor(user.id));
+
+    expect(result.checked_balances).toEqual(1);
+    expect(result.discrepancies).toHaveLength(0);
+  });
+
+  it('should report drift without writing anything by default', async () => {
+    const { contractor, jettyA, user } = await setupTestData();
+    await createProductionRecord(productionInput(contractor.id, jettyA.id, 100), createActor(user.id));
+    await insertBargingRecord(contractor.id, jettyA.id, 30, user.id);
+
+    const result = await reconcileStock({ apply: false }, createActor(user.id));
+
+    expect(result.applied).toBe(false);
+    expect(result.discrepancies).toEqual([{
+      contractor_id: contractor.id,
+      contractor_name: 'Contractor One',
+      jetty_id: jettyA.id,
+      jetty_name: 'Jetty Alpha',
+      stockpile_id: await defaultStockpileId(jettyA.id),
+      stockpile_code: 'DEFAULT',
+      coal_grade: 'high',
+      recorded_tonnage: 100,
+      expected_tonnage: 70,
+      difference: -30,
+      adjustment_id: null,
+      note: null
+    }]);
+
+    expect(await getStockTonnage(contractor.id, jettyA.id)).toEqual(100);
+    expect(await db.select().from(stockAdjustmentsTable).execute()).toHaveLength(0);
+  });
+
+  it('should correct drift with reconciliation adjustments when applied', async () => {
+    const { contractor, jettyA, user } = await setupTestData();
+    await createProductionRecord(productionInput(contractor.id, jettyA.id, 100), createActor(user.id));
+    await insertBargingRecord(contractor.id, jettyA.id, 30, user.id);
+
+    const result = await reconcileStock({ apply: true }, createActor(user.id));
+
+    expect(result.applied).toBe(true);
+    expect(result.discrepancies).toHaveLength(1);
+    const adjustmentId = result.discrepancies[0].adjustment_id;
+    expect(adjustmentId).not.toBeNull();
+
+    expect(await getStockTonnage(contractor.id, jettyA.id)).toEqual(70);
+
+    const adjustments = await db.select().from(stockAdjustmentsTable).execute();
+    expect(adjustments).toHaveLength(1);
+    expect(adjustments[0].id).toEqual(adjustmentId!);
+    expect(adjustments[0].reason).toEqual('reconciliation');
+    expect(adjustments[0].status).toEqual('applied');
+    expect(adjustments[0].approved_by).toEqual(user.id);
+    expect(parseFloat(adjustments[0].adjustment_amount)).toEqual(-30);
+
+    const movements = await db.select()
+      .from(stockMovementsTable)
+      .where(eq(stockMovementsTable.movement_type, 'adjustment'))
+      .execute();
+    expect(movements).toHaveLength(1);
+    expect(movements[0].reference_id).toEqual(adjustmentId!);
+    expect(parseFloat(movements[0].balance_after)).toEqual(70);
+
+    const auditLogs = await db.select()
+      .from(auditLogTable)
+      .where(eq(auditLogTable.action, 'stock_reconciliation_adjustment'))
+      .execute();
+    expect(auditLogs).toHaveLength(1);
+    expect(auditLogs[0].record_id).toEqual(adjustmentId!);
+
+    // The correction does not count as a source record, so a second run is clean
+    const rerun = await reconcileStock({ apply: true }, createActor(user.id));
+    expect(rerun.discrepancies).toHaveLength(0);
+  });
+
+  it('should correct the drift as it stands under the lock, not as first read', async () => {
+    const { contractor, jettyA, user } = await setupTestData();
+    await createProductionRecord(productionInput(contractor.id, jettyA.id, 100), createActor(user.id));
+    await insertBargingRecord(contractor.id, jettyA.id, 30, user.id);
+
+    // Intake lands while the reconciliation runs; it must not be counted into the correction
+    await Promise.all([
+      reconcileStock({ apply: true }, createActor(user.id)),
+      ...Array.from({ length: 10 }, () => createProductionRecord(productionInput(contractor.id, jettyA.id, 5), createActor(user.id)))
+    ]);
+
+    expect(await getStockTonnage(contractor.id, jettyA.id)).toEqual(120);
+    expect((await reconcileStock({ apply: false }, createActor(user.id))).discrepancies).toHaveLength(0);
+  });
+
+  it('should create a missing stock row when applying', async () => {
+    const { contractor, jettyA, user } = await setupTestData();
+    await db.insert(productionRecordsTable)
+      .values({
+        date_time: new Date(),
+        contractor_id: contractor.id,
+        truck_number: 'TRK-001',
+        tonnage: '45.5',
+        coal_grade: 'high',
+        jetty_id: jettyA.id,
+        stockpile_id: await defaultStockpileId(jettyA.id),
+        operator_id: user.id
+      })
+      .execute();
+
+    const dryRun = await reconcileStock({ apply: false }, createActor(user.id));
+    expect(dryRun.discrepancies[0].recorded_tonnage).toEqual(0);
+    expect(dryRun.discrepancies[0].expected_tonnage).toEqual(45.5);
+    expect(await getStockTonnage(contractor.id, jettyA.id)).toBeNull();
+
+    await reconcileStock({ apply: true }, createActor(user.id));
+    expect(await getStockTonnage(contractor.id, jettyA.id)).toEqual(45.5);
+  });
+
+  it('should leave negative expected balances uncorrected', async () => {
+    const { contractor, jettyA, user } = await setupTestData();
+    await createProductionRecord(productionInput(contractor.id, jettyA.id, 20), createActor(user.id));
+    await insertBargingRecord(contractor.id, jettyA.id, 50, user.id);
+
+    const result = await reconcileStock({ apply: true }, createActor(user.id));
+
+    expect(result.discrepancies).toHaveLength(1);
+    expect(result.discrepancies[0].expected_tonnage).toEqual(-30);
+    expect(result.discrepancies[0].adjustment_id).toBeNull();
+    expect(result.discrepancies[0].note).toMatch(/negative/i);
+    expect(await getStockTonnage(contractor.id, jettyA.id)).toEqual(20);
+  });
+
+  it('should reconcile each grade separately', async () => {
+    const { contractor, jettyA, user } = await setupTestData();
+    await createProductionRecord(productionInput(contractor.id, jettyA.id, 100), createActor(user.id));
+    // Stock of the wrong grade: the pair total matches but the grade split does not
+    await db.insert(stockTable)
+      .values({ contractor_id: contractor.id, jetty_id: jettyA.id, stockpile_id: await defaultStockpileId(jettyA.id), coal_grade: 'low', tonnage: '40.00' })
+      .execute();
+
+    const result = await reconcileStock({ apply: false }, createActor(user.id));
+
+    expect(result.checked_balances).toEqual(2);
+    expect(result.discrepancies).toHaveLength(1);
+    expect(result.discrepancies[0].coal_grade).toEqual('low');
+    expect(result.discrepancies[0].difference).toEqual(-40);
+  });
+
+  it('should only check the requested jetty', async () => {
+    const { contractor, jettyA, jettyB, user } = await setupTestData();
+    await createProductionRecord(productionInput(contractor.id, jettyA.id, 100), createActor(user.id));
+    await createProductionRecord(productionInput(contractor.id, jettyB.id, 100), createActor(user.id));
+    await insertBargingRecord(contractor.id, jettyA.id, 10, user.id);
+    await insertBargingRecord(contractor.id, jettyB.id, 10, user.id);
+
+    const result = await reconcileStock({ apply: true, jetty_id: jettyB.id }, createActor(user.id));
+
+    expect(result.checked_balances).toEqual(1);
+    expect(result.discrepancies.map(discrepancy => discrepancy.jetty_id)).toEqual([jettyB.id]);
+    expect(await getStockTonnage(contractor.id, jettyA.id)).toEqual(100);
+    expect(await getStockTonnage(contractor.id, jettyB.id)).toEqual(90);
+  });
+
+  it('should keep the reconciliation reason out of manual adjustments', () => {
+    const parsed = createStockAdjustmentInputSchema.safeParse({
+      stock_id: 1,
+      adjustment_amount: 10,
+      reason: 'reconciliation',
+      reason_description: 'Sneaky correction',
+      reference_document: null,
+      attachment: null
+    });
+
+    expect(parsed.success).toBe(false);
+  });
+});
@@ -5,6 +5,7 @@ import {
   usersTable, 
   contractorsTable, 
   jettiesTable, 
+  stockpilesTable,
   stockTable,
   productionRecordsTable,
   bargingRecordsTable,
@@ -20,12 +21,16 @@ import {
   generateMovementReport,
   generateExecutiveSummary
 } from '../handlers/reports';
+import { createProductionRecord } from '../handlers/production';
+import { createBargingRecord } from '../handlers/barging';
+import { createStockAdjustment } from '../handlers/stock';
 import { type StockFilter } from '../schema';
 
 describe('Reports Handlers', () => {
   let testUser: any;
   let testContractor: any;
   let testJetty: any;
+  let testStockpile: any;
   let testStock: any;
 
   beforeEach(async () => {
@@ -68,11 +73,23 @@ describe('Reports Handlers', () => {
       .execute();
     testJetty = jettyResult[0];
 
+    const stockpileResult = await db.insert(stockpilesTable)
+      .values({
+        jetty_id: testJetty.id,
+        code: 'DEFAULT',
+        capacity: '5000.00'
+      })
+      .returning()
+      .execute();
+    testStockpile = stockpileResult[0];
+
     // Create test stock
     const stockResult = await db.insert(stockTable)
       .values({
         contractor_id: testContractor.id,
         jetty_id: testJetty.id,
+        stockpile_id: testStockpile.id,
+        coal_grade: 'high',
         tonnage: '1500.50'
       })
       .returning()
@@ -92,7 +109,7 @@ describe('Reports Handlers', () => {
 
       // Check CSV structure
       const lines = result.content.split('\n');
-      expect(lines[0]).toBe('Contractor Name,Contractor Code,Jetty Name,Jetty Code,Stock Tonnage,Coal Grade,Last Updated,Status');
+      expect(lines[0]).toBe('Contractor Name,Contractor Code,Jetty Name,Jetty Code,Stockpile,Stock Tonnage,Coal Grade,Last Updated,Status');
       expect(lines[1]).toContain('Test Contractor Ltd');
       expect(lines[1]).toContain('TC001');
       expect(lines[1]).toContain('Jetty Alpha');
@@ -100,6 +117,29 @@ describe('Reports Handlers', () => {
       expect(lines[1]).toContain('high');
     });
 
+    it('should list one row per grade held at a jetty', async () => {
+      await db.insert(stockTable)
+        .values({
+          contractor_id: testContractor.id,
+          jetty_id: testJetty.id,
+          stockpile_id: testStockpile.id,
+          coal_grade: 'low',
+          tonnage: '200.00'
+        })
+        .execute();
+
+      const result = await generateStockReport();
+      const dataLines = result.content.split('\n').slice(1);
+
+      expect(dataLines).toHaveLength(2);
+      expect(dataLines[0].split(',')[6]).toBe('high');
+      expect(dataLines[1].split(',')[6]).toBe('low');
+      expect(dataLines[1].split(',')[5]).toBe('200');
+
+      const lowOnly = await generateStockReport({ coal_grade: 'low' });
+      expect(lowOnly.content.split('\n').slice(1)).toHaveLength(1);
+    });
+
     it('should apply contractor filter', async () => {
       const filter: StockFilter = { contractor_id: testContractor.id };
       const result = await generateStockReport(filter);
@@ -148,6 +188,7 @@ describe('Reports Handlers', () => {
           tonnage: '25.75',
           coal_grade: 'high',
           jetty_id: testJetty.id,
+          stockpile_id: testStockpile.id,
           operator_id: testUser.id,
           notes: 'Test production record'
         })
@@ -162,7 +203,7 @@ describe('Reports Handlers', () => {
       expect(result.mimeType).toBe('text/csv');
 
       const lines = result.content.split('\n');
-      expect(lines[0]).toBe('Date Time,Contractor Name,Contractor Code,Jetty Name,Jetty Code,Truck Number,Tonnage,Coal Grade,Operator,Notes');
+      expect(lines[0]).toBe('Date Time,Contractor Name,Contractor Code,Jetty Name,Jetty Code,Truck Number,Tonnage,Tonnage Source,Ticket Number,Entry Type,Coal Grade,Operator,Notes');
       expect(lines[1]).toContain('Test Contractor Ltd');
       expect(lines[1]).toContain('TRK-001');
       expect(lines[1]).toContain('25.75');
@@ -205,8 +246,10 @@ describe('Reports Handlers', () => {
           date_time: new Date('2024-06-20T14:15:00Z'),
           contractor_id: testContractor.id,
           ship_batch_number: 'SHIP-2024-001',
+          coal_grade: 'high',
           tonnage: '18.25',
           jetty_id: testJetty.id,
+          stockpile_id: testStockpile.id,
           buyer: 'Test Buyer Corp',
           operator_id: testUser.id,
           notes: 'Test barging record'
@@ -221,7 +264,7 @@ describe('Reports Handlers', () => {
       expect(result.filename).toMatch(/^barging_report_\d{4}-\d{2}-\d{2}\.csv$/);
 
       const lines = result.content.split('\n');
-      expect(lines[0]).toBe('Date Time,Contractor Name,Contractor Code,Jetty Name,Jetty Code,Ship Batch Number,Tonnage,Buyer,Operator,Loading Document,Notes');
+      expect(lines[0]).toBe('Date Time,Contractor Name,Contractor Code,Jetty Name,Jetty Code,Ship Batch Number,Tonnage,Entry Type,Coal Grade,Buyer,Operator,Loading Document,Notes');
       expect(lines[1]).toContain('SHIP-2024-001');
       expect(lines[1]).toContain('18.25');
       expect(lines[1]).toContain('Test Buyer Corp');
@@ -288,6 +331,17 @@ describe('Reports Handlers', () => {
       expect(result.content).toContain('Jetty Alpha');
       expect(result.filename).toContain(`jetty_${testJetty.id}`);
     });
+
+    it('should only export fuel in the caller\'s scope', async () => {
+      const otherJetty = { unrestricted: false, grants: [{ jetty_id: testJetty.id + 1, contractor_id: null }] };
+      const scoped = await generateFuelReport(undefined, undefined, undefined, 'csv', otherJetty);
+      expect(scoped.content.split('\n').slice(1).filter(line => line.trim())).toHaveLength(0);
+
+      const ownJetty = { unrestricted: false, grants: [{ jetty_id: testJetty.id, contractor_id: null }] };
+      const own = await generateFuelReport(undefined, undefined, undefined, 'csv', ownJetty);
+      expect(own.content).toContain('Fuel Supplier Inc');
+      expect(own.content).not.toContain('Usage');
+    });
   });
 
   describe('generateContractorReport', () => {
@@ -324,34 +378,46 @@ describe('Reports Handlers', () => {
       expect(result.content).toContain('No Stock Contractor');
       expect(result.content).toContain('NSC001');
     });
+
+    it('should only count stock at jetties in the caller\'s scope', async () => {
+      const otherJetty = { unrestricted: false, grants: [{ jetty_id: testJetty.id + 1, contractor_id: null }] };
+      const ownJetty = { unrestricted: false, grants: [{ jetty_id: testJetty.id, contractor_id: null }] };
+
+      const scoped = await generateContractorReport('csv', otherJetty);
+      expect(scoped.content.split('\n')[1].split(',')[6]).toEqual('0');
+
+      const own = await generateContractorReport('csv', ownJetty);
+      expect(own.content.split('\n')[1].split(',')[6]).toEqual('1500.5');
+    });
   });
 
   describe('generateMovementReport', () => {
+    const actor = () => ({ user_id: testUser.id, ip_address: '127.0.0.1', user_agent: 'bun-test' });
+
     beforeEach(async () => {
-      // Create production record (inflow)
-      await db.insert(productionRecordsTable)
-        .values({
-          date_time: new Date('2024-06-15T10:00:00Z'),
-          contractor_id: testContractor.id,
-          truck_number: 'TRK-001',
-          tonnage: '30.00',
-          coal_grade: 'high',
-          jetty_id: testJetty.id,
-          operator_id: testUser.id
-        })
-        .execute();
+      // Movements are posted to the stock ledger by the handlers
+      await createProductionRecord({
+        date_time: new Date('2024-06-15T10:00:00Z'),
+        contractor_id: testContractor.id,
+        truck_number: 'TRK-001',
+        tonnage: 30,
+        coal_grade: 'high',
+        jetty_id: testJetty.id,
+        document_photo: null,
+        notes: null
+      }, actor());
 
-      // Create barging record (outflow)
-      await db.insert(bargingRecordsTable)
-        .values({
-          date_time: new Date('2024-06-16T14:00:00Z'),
-          contractor_id: testContractor.id,
-          ship_batch_number: 'SHIP-001',
-          tonnage: '20.00',
-          jetty_id: testJetty.id,
-          operator_id: testUser.id
-        })
-        .execute();
+      await createBargingRecord({
+        date_time: new Date('2024-06-16T14:00:00Z'),
+        contractor_id: testContractor.id,
+        ship_batch_number: 'SHIP-001',
+        coal_grade: 'high',
+        tonnage: 20,
+        jetty_id: testJetty.id,
+        buyer: null,
+        loading_document: null,
+        notes: null
+      }, actor());
     });
 
     it('should generate movement report with running balance', async () => {
@@ -361,14 +427,14 @@ describe('Reports Handlers', () => {
       expect(result.filename).toMatch(/^movement_report_\d{4}-\d{2}-\d{2}\.csv$/);
 
       const lines = result.content.split('\n');
-      expect(lines[0]).toBe('Date Time,Type,Contractor,Jetty,Tonnage,Direction,Running Balance,Operator,Reference');
+      expect(lines[0]).toBe('Date Time,Type,Contractor,Jetty,Stockpile,Coal Grade,Tonnage,Direction,Running Balance,Operator,Reference');
       
       // Should show both production and barging with running balance
       expect(result.content).toContain('Production');
       expect(result.content).toContain('Barging');
       expect(result.content).toContain('In');
       expect(result.content).toContain('Out');
-      expect(result.content).toContain('TRK-001');
+      expect(result.content).toContain('TRK001');
       expect(result.content).toContain('SHIP-001');
     });
 
@@ -392,8 +458,8 @@ describe('Reports Handlers', () => {
       expect(result.content).toContain('Out');
       
       // Verify both records have running balance values (numbers)
-      const firstBalance = firstRecord.split(',')[6]; // Running balance column
-      const secondBalance = secondRecord.split(',')[6];
+      const firstBalance = firstRecord.split(',')[8]; // Running balance column
+      const secondBalance = secondRecord.split(',')[8];
       
       expect(parseFloat(firstBalance)).toBeGreaterThan(0);
       expect(parseFloat(secondBalance)).toBeGreaterThan(0);
@@ -408,6 +474,41 @@ describe('Reports Handlers', () => {
       // Should only contain barging record from June 16
       expect(result.content).toContain('Barging');
       expect(result.content).toContain('SHIP-001');
+      expect(result.content).not.toContain('TRK001');
+
+      // The running balance carries the balance from before the period
+      const dataLines = result.content.split('\n').slice(1).filter(line => line.trim());
+      expect(parseFloat(dataLines[0].split(',')[8])).toEqual(10);
+    });
+
+    it('should include applied stock adjustments', async () => {
+      const stock = await db.select().from(stockTable).execute();
+      await createStockAdjustment({
+        stock_id: stock[0].id,
+        adjustment_amount: -2,
+        reason: 'spillage',
+        reason_description: 'Spill at the conveyor',
+        reference_document: null,
+        attachment: null
+      }, actor());
+
+      const result = await generateMovementReport();
+
+      const dataLines = result.content.split('\n').slice(1).filter(line => line.trim());
+      expect(dataLines).toHaveLength(3);
+      expect(dataLines[2]).toContain('Adjustment');
+      expect(dataLines[2]).toContain('spillage');
+      expect(parseFloat(dataLines[2].split(',')[8])).toEqual(8);
+    });
+
+    it('should leave out movements outside the caller\'s scope', async () => {
+      const otherContractor = { unrestricted: false, grants: [{ jetty_id: testJetty.id, contractor_id: testContractor.id + 1 }] };
+      const scoped = await generateMovementReport(undefined, undefined, undefined, undefined, 'csv', otherContractor);
+      expect(scoped.content.split('\n').slice(1).filter(line => line.trim())).toHaveLength(0);
+
+      const ownJetty = { unrestricted: false, grants: [{ jetty_id: testJetty.id, contractor_id: null }] };
+      const own = await generateMovementReport(undefined, undefined, undefined, undefined, 'csv', ownJetty);
+      expect(own.content.split('\n').slice(1).filter(line => line.trim())).toHaveLength(2);
     });
   });
 
@@ -423,6 +524,7 @@ describe('Reports Handlers', () => {
             tonnage: '50.00',
             coal_grade: 'high',
             jetty_id: testJetty.id,
+            stockpile_id: testStockpile.id,
             operator_id: testUser.id
           },
           {
@@ -432,6 +534,7 @@ describe('Reports Handlers', () => {
             tonnage: '75.00',
             coal_grade: 'medium',
             jetty_id: testJetty.id,
+            stockpile_id: testStockpile.id,
             operator_id: testUser.id
           }
         ])
@@ -442,8 +545,10 @@ describe('Reports Handlers', () => {
           date_time: new Date('2024-06-03T14:00:00Z'),
           contractor_id: testContractor.id,
           ship_batch_number: 'SHIP-001',
+          coal_grade: 'high',
           tonnage: '40.00',
           jetty_id: testJetty.id,
+          stockpile_id: testStockpile.id,
           operator_id: testUser.id
         })
         .execute();
@@ -502,6 +607,15 @@ describe('Reports Handlers', () => {
       // Production (125) / Barging (40) = 3.13 (rounded to 2 decimal places)
       expect(result.content).toContain('Production vs Barging Ratio: 3.13');
     });
+
+    it('should only sum figures in the caller\'s scope', async () => {
+      const otherJetty = { unrestricted: false, grants: [{ jetty_id: testJetty.id + 1, contractor_id: null }] };
+      const result = await generateExecutiveSummary(undefined, undefined, 'pdf', otherJetty);
+
+      expect(result.content).toContain('Total Current Stock: 0');
+      expect(result.content).toContain('Total Production: 0');
+      expect(result.content).toContain('Barging Records: 0');
+    });
   });
 
   describe('CSV formatting', () => {
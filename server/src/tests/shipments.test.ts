@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { contractorsTable, usersTable, stockTable, stockpilesTable } from '../db/schema';
+import { type RequestActor, type CreateBargingRecordInput } from '../schema';
+import { createJetty } from '../handlers/jetties';
+import { createBargingRecord, voidBargingRecord, correctBargingRecord } from '../handlers/barging';
+import { normalizeImoNumber, createVessel, updateVessel, getVessels } from '../handlers/vessels';
+import {
+  createShipment,
+  updateShipment,
+  updateShipmentStatus,
+  getShipments,
+  getShipmentProgress
+} from '../handlers/shipments';
+import { eq } from 'drizzle-orm';
+
+describe('vessels and shipments', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const setupTestData = async () => {
+    const contractors = await db.insert(contractorsTable)
+      .values([
+        { name: 'Contractor One', code: 'C001', contact_person: 'John Doe', default_grade: 'high' },
+        { name: 'Contractor Two', code: 'C002', contact_person: 'Jane Smith', default_grade: 'high' }
+      ])
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'operator@example.com',
+        username: 'operator',
+        password_hash: 'hashed_password',
+        full_name: 'Barging Operator',
+        role: 'operator_barging'
+      })
+      .returning()
+      .execute();
+
+    const jettyAlpha = await createJetty({ name: 'Jetty Alpha', code: 'JA', capacity: 50000 });
+    const jettyBeta = await createJetty({ name: 'Jetty Beta', code: 'JB', capacity: 50000 });
+
+    // 20,000 tons of stock for each contractor at each jetty
+    for (const jetty of [jettyAlpha, jettyBeta]) {
+      const [stockpile] = await db.select().from(stockpilesTable).where(eq(stockpilesTable.jetty_id, jetty.id)).execute();
+      await db.insert(stockTable)
+        .values(contractors.map(contractor => ({
+          contractor_id: contractor.id,
+          jetty_id: jetty.id,
+          stockpile_id: stockpile.id,
+          coal_grade: 'high' as const,
+          tonnage: '20000.00'
+        })))
+        .execute();
+    }
+
+    const vessel = await createVessel({ name: 'MV Ocean Star', imo_number: 'IMO 9074729' });
+    const shipment = await createShipment({
+      vessel_id: vessel.id,
+      buyer: 'Pacific Power Co',
+      destination_port: 'Kaohsiung',
+      laycan_start: new Date('2024-06-01T00:00:00Z'),
+      laycan_end: new Date('2024-06-05T00:00:00Z'),
+      nominated_quantity: 10000,
+      notes: null
+    });
+
+    return { contractorOne: contractors[0], contractorTwo: contractors[1], user: users[0], jettyAlpha, jettyBeta, vessel, shipment };
+  };
+
+  const createActor = (userId: number): RequestActor => ({
+    user_id: userId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
+  const bargeLoad = (contractorId: number, jettyId: number, tonnage: number, shipmentId?: number): CreateBargingRecordInput => ({
+    date_time: new Date('2024-06-02T08:00:00Z'),
+    contractor_id: contractorId,
+    ship_batch_number: 'BG-01',
+    tonnage,
+    coal_grade: 'high',
+    jetty_id: jettyId,
+    buyer: null,
+    loading_document: null,
+    notes: null,
+    shipment_id: shipmentId
+  });
+
+  it('should validate and normalise IMO numbers', async () => {
+    expect(normalizeImoNumber('IMO 9074729')).toEqual('9074729');
+    expect(normalizeImoNumber(' 9176187 ')).toEqual('9176187');
+    expect(() => normalizeImoNumber('9074728')).toThrow(/not a valid IMO number/);
+    expect(() => normalizeImoNumber('907472')).toThrow(/not a valid IMO number/);
+
+    const { vessel } = await setupTestData();
+    expect(vessel.imo_number).toEqual('9074729');
+
+    await expect(createVessel({ name: 'MV Copy', imo_number: '9074729' }))
+      .rejects.toThrow(/IMO number 9074729 already exists/);
+
+    const renamed = await updateVessel({ id: vessel.id, name: 'MV Ocean Star II' });
+    expect(renamed.imo_number).toEqual('9074729');
+    expect((await getVessels()).map(v => v.name)).toEqual(['MV Ocean Star II']);
+  });
+
+  it('should create shipments within a laycan window on active vessels', async () => {
+    const { vessel, shipment } = await setupTestData();
+    expect(shipment.status).toEqual('nominated');
+    expect(shipment.nominated_quantity).toEqual(10000);
+
+    const input = {
+      vessel_id: vessel.id,
+      buyer: 'Pacific Power Co',
+      destination_port: 'Kaohsiung',
+      laycan_start: new Date('2024-06-05T00:00:00Z'),
+      laycan_end: new Date('2024-06-01T00:00:00Z'),
+      nominated_quantity: 10000,
+      notes: null
+    };
+    await expect(createShipment(input)).rejects.toThrow(/laycan end must not be before laycan start/i);
+
+    await updateVessel({ id: vessel.id, is_active: false });
+    await expect(createShipment({ ...input, laycan_end: new Date('2024-06-09T00:00:00Z') }))
+      .rejects.toThrow(/not found or inactive/);
+
+    const updated = await updateShipment({ id: shipment.id, nominated_quantity: 12000 });
+    expect(updated.nominated_quantity).toEqual(12000);
+    expect(await getShipments({ status: 'nominated' })).toHaveLength(1);
+  });
+
+  it('should start loading on the first barge and refuse loads once completed', async () => {
+    const { contractorOne, user, jettyAlpha, shipment } = await setupTestData();
+
+    const load = await createBargingRecord(bargeLoad(contractorOne.id, jettyAlpha.id, 3000, shipment.id), createActor(user.id));
+    expect(load.shipment_id).toEqual(shipment.id);
+    expect((await getShipments())[0].status).toEqual('loading');
+
+    await expect(updateShipmentStatus({ id: shipment.id, status: 'sailed' }))
+      .rejects.toThrow(/cannot move from loading to sailed/);
+    await updateShipmentStatus({ id: shipment.id, status: 'completed' });
+
+    await expect(createBargingRecord(bargeLoad(contractorOne.id, jettyAlpha.id, 1000, shipment.id), createActor(user.id)))
+      .rejects.toThrow(/is completed and no longer loading/);
+    await expect(createBargingRecord(bargeLoad(contractorOne.id, jettyAlpha.id, 1000, 99999), createActor(user.id)))
+      .rejects.toThrow(/Shipment with ID 99999 not found/);
+
+    await updateShipmentStatus({ id: shipment.id, status: 'sailed' });
+    await expect(updateShipment({ id: shipment.id, notes: 'Late change' }))
+      .rejects.toThrow(/has sailed/);
+  });
+
+  it('should report loaded against nominated tonnage by contractor and jetty', async () => {
+    const { contractorOne, contractorTwo, user, jettyAlpha, jettyBeta, shipment } = await setupTestData();
+    const actor = createActor(user.id);
+
+    await createBargingRecord(bargeLoad(contractorOne.id, jettyAlpha.id, 3000, shipment.id), actor);
+    await createBargingRecord(bargeLoad(contractorOne.id, jettyBeta.id, 2500, shipment.id), actor);
+    const typo = await createBargingRecord(bargeLoad(contractorTwo.id, jettyAlpha.id, 2000, shipment.id), actor);
+    const mistake = await createBargingRecord(bargeLoad(contractorTwo.id, jettyBeta.id, 1500, shipment.id), actor);
+    await createBargingRecord(bargeLoad(contractorTwo.id, jettyBeta.id, 900), actor); // Not for this shipment
+
+    await correctBargingRecord({ id: typo.id, reason: 'Draft survey', tonnage: 1800 }, actor);
+    await voidBargingRecord({ id: mistake.id, reason: 'Went to another vessel' }, actor);
+
+    const progress = await getShipmentProgress(shipment.id);
+    expect(progress.vessel_name).toEqual('MV Ocean Star');
+    expect(progress.nominated_quantity).toEqual(10000);
+    expect(progress.loaded_tonnage).toEqual(7300);
+    expect(progress.remaining_tonnage).toEqual(2700);
+    expect(progress.loaded_percent).toEqual(73);
+    expect(progress.barge_loads).toEqual(3);
+    expect(progress.by_contractor.map(entry => [entry.contractor_name, entry.tonnage, entry.barge_loads])).toEqual([
+      ['Contractor One', 5500, 2],
+      ['Contractor Two', 1800, 1]
+    ]);
+    expect(progress.by_jetty.map(entry => [entry.jetty_name, entry.tonnage, entry.barge_loads])).toEqual([
+      ['Jetty Alpha', 4800, 2],
+      ['Jetty Beta', 2500, 1]
+    ]);
+
+    const scoped = await getShipmentProgress(shipment.id, { unrestricted: false, grants: [{ jetty_id: jettyBeta.id, contractor_id: null }] });
+    expect(scoped.loaded_tonnage).toEqual(2500);
+    expect(scoped.by_jetty.map(entry => entry.jetty_name)).toEqual(['Jetty Beta']);
+
+    await expect(getShipmentProgress(99999)).rejects.toThrow(/not found/);
+  });
+
+  it('should list shipments loaded in scope, and those not loading yet', async () => {
+    const { contractorOne, contractorTwo, user, jettyAlpha, jettyBeta, vessel, shipment } = await setupTestData();
+    const actor = createActor(user.id);
+    const nominated = await createShipment({
+      vessel_id: vessel.id,
+      buyer: 'Island Cement',
+      destination_port: 'Manila',
+      laycan_start: new Date('2024-06-10T00:00:00Z'),
+      laycan_end: new Date('2024-06-15T00:00:00Z'),
+      nominated_quantity: 5000,
+      notes: null
+    });
+    await createBargingRecord(bargeLoad(contractorOne.id, jettyAlpha.id, 3000, shipment.id), actor);
+
+    const listed = async (jettyId: number, contractorId: number | null) =>
+      (await getShipments(undefined, { unrestricted: false, grants: [{ jetty_id: jettyId, contractor_id: contractorId }] }))
+        .map(listedShipment => listedShipment.id);
+
+    expect(await listed(jettyAlpha.id, null)).toEqual([nominated.id, shipment.id]);
+    expect(await listed(jettyAlpha.id, contractorTwo.id)).toEqual([nominated.id]);
+    expect(await listed(jettyBeta.id, null)).toEqual([nominated.id]);
+    expect(await getShipments(undefined, { unrestricted: false, grants: [] })).toHaveLength(0);
+  });
+});
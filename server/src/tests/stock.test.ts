@@ -5,13 +5,17 @@ import {
   usersTable, 
   contractorsTable, 
   jettiesTable, 
+  stockpilesTable,
   stockTable,
-  stockAdjustmentsTable
+  stockAdjustmentsTable,
+  stockAdjustmentApprovalsTable,
+  auditLogTable
 } from '../db/schema';
 import { eq, and } from 'drizzle-orm';
 import { 
   type CreateStockAdjustmentInput,
-  type StockFilter
+  type StockFilter,
+  type RequestActor
 } from '../schema';
 import {
   getStock,
@@ -21,9 +25,12 @@ import {
   createStockAdjustment,
   getStockAdjustments,
   approveStockAdjustment,
-  updateStockFromProduction,
-  updateStockFromBarging
+  rejectStockAdjustment,
+  getBalanceAt,
+  getStockLedger
 } from '../handlers/stock';
+import { createProductionRecord } from '../handlers/production';
+import { createBargingRecord } from '../handlers/barging';
 
 describe('Stock Handlers', () => {
   beforeEach(createDB);
@@ -35,9 +42,17 @@ describe('Stock Handlers', () => {
   let testContractor2: any;
   let testJetty1: any;
   let testJetty2: any;
+  let testStockpile1: any;
+  let testStockpile2: any;
   let testStock1: any;
   let testStock2: any;
 
+  const createActor = (userId: number = testUser.id): RequestActor => ({
+    user_id: userId,
+    ip_address: '10.0.0.5',
+    user_agent: 'bun-test'
+  });
+
   const setupTestData = async () => {
     // Create test user
     const users = await db.insert(usersTable)
@@ -92,17 +107,30 @@ describe('Stock Handlers', () => {
       .execute();
     [testJetty1, testJetty2] = jetties;
 
+    const stockpiles = await db.insert(stockpilesTable)
+      .values([
+        { jetty_id: testJetty1.id, code: 'DEFAULT', capacity: '10000.00' },
+        { jetty_id: testJetty2.id, code: 'DEFAULT', capacity: '15000.00' }
+      ])
+      .returning()
+      .execute();
+    [testStockpile1, testStockpile2] = stockpiles;
+
     // Create test stock records
     const stocks = await db.insert(stockTable)
       .values([
         {
           contractor_id: testContractor1.id,
           jetty_id: testJetty1.id,
+          stockpile_id: testStockpile1.id,
+          coal_grade: 'high',
           tonnage: '1500.50'
         },
         {
           contractor_id: testContractor2.id,
           jetty_id: testJetty2.id,
+          stockpile_id: testStockpile2.id,
+          coal_grade: 'high',
           tonnage: '2000.75'
         }
       ])
@@ -111,6 +139,37 @@ describe('Stock Handlers', () => {
     [testStock1, testStock2] = stocks;
   };
 
+  const createApprover = async (username: string) => {
+    const users = await db.insert(usersTable)
+      .values({
+        email: `${username}@example.com`,
+        username,
+        password_hash: 'hashed_password',
+        full_name: `Approver ${username}`,
+        role: 'admin'
+      })
+      .returning()
+      .execute();
+    return users[0];
+  };
+
+  const getStockTonnage = async (stockId: number) => {
+    const stocks = await db.select()
+      .from(stockTable)
+      .where(eq(stockTable.id, stockId))
+      .execute();
+    return parseFloat(stocks[0].tonnage);
+  };
+
+  const adjustmentInput = (amount: number, stockId: number = testStock1.id): CreateStockAdjustmentInput => ({
+    stock_id: stockId,
+    adjustment_amount: amount,
+    reason: 'manual_correction',
+    reason_description: 'Maker-checker test',
+    reference_document: null,
+    attachment: null
+  });
+
   describe('getStock', () => {
     it('should fetch all stock records with contractor and jetty details', async () => {
       await setupTestData();
@@ -196,6 +255,8 @@ describe('Stock Handlers', () => {
         .values({
           contractor_id: testContractor1.id,
           jetty_id: testJetty2.id,
+          stockpile_id: testStockpile2.id,
+          coal_grade: 'high',
           tonnage: '500.25'
         })
         .execute();
@@ -222,6 +283,32 @@ describe('Stock Handlers', () => {
       expect(contractor1!.total_tonnage).toBe(1500.50);
       expect(contractor2!.total_tonnage).toBe(2000.75);
     });
+
+    it('should break each jetty down by grade', async () => {
+      await setupTestData();
+
+      await db.insert(stockTable)
+        .values({
+          contractor_id: testContractor1.id,
+          jetty_id: testJetty1.id,
+          stockpile_id: testStockpile1.id,
+          coal_grade: 'low',
+          tonnage: '300.00'
+        })
+        .execute();
+
+      const result = await getStockByContractor();
+      const contractor1 = result.find(c => c.contractor_id === testContractor1.id)!;
+
+      expect(contractor1.total_tonnage).toBe(1800.50);
+      expect(contractor1.by_grade).toEqual([
+        { coal_grade: 'high', tonnage: 1500.50 },
+        { coal_grade: 'low', tonnage: 300 }
+      ]);
+      expect(contractor1.jetties).toHaveLength(1);
+      expect(contractor1.jetties[0].tonnage).toBe(1800.50);
+      expect(contractor1.jetties[0].by_grade).toHaveLength(2);
+    });
   });
 
   describe('getStockByJetty', () => {
@@ -233,6 +320,8 @@ describe('Stock Handlers', () => {
         .values({
           contractor_id: testContractor2.id,
           jetty_id: testJetty1.id,
+          stockpile_id: testStockpile1.id,
+          coal_grade: 'high',
           tonnage: '750.00'
         })
         .execute();
@@ -247,6 +336,28 @@ describe('Stock Handlers', () => {
       expect(jetty1Data!.total_tonnage).toBe(2250.50); // 1500.50 + 750.00
       expect(jetty1Data!.contractors).toHaveLength(2);
     });
+
+    it('should report how much of each grade sits at a jetty', async () => {
+      await setupTestData();
+
+      await db.insert(stockTable)
+        .values([
+          { contractor_id: testContractor2.id, jetty_id: testJetty1.id, stockpile_id: testStockpile1.id, coal_grade: 'high', tonnage: '500.00' },
+          { contractor_id: testContractor2.id, jetty_id: testJetty1.id, stockpile_id: testStockpile1.id, coal_grade: 'medium', tonnage: '250.00' }
+        ])
+        .execute();
+
+      const result = await getStockByJetty();
+      const jetty1 = result.find(j => j.jetty_id === testJetty1.id)!;
+
+      expect(jetty1.by_grade).toEqual([
+        { coal_grade: 'high', tonnage: 2000.50 },
+        { coal_grade: 'medium', tonnage: 250 }
+      ]);
+      const contractor2 = jetty1.contractors.find(c => c.contractor_id === testContractor2.id)!;
+      expect(contractor2.tonnage).toBe(750);
+      expect(contractor2.by_grade).toHaveLength(2);
+    });
   });
 
   describe('getTotalStock', () => {
@@ -261,6 +372,19 @@ describe('Stock Handlers', () => {
       expect(result.last_updated).toBeInstanceOf(Date);
     });
 
+    it('should count contractors and jetties once across grades', async () => {
+      await setupTestData();
+
+      await db.insert(stockTable)
+        .values({ contractor_id: testContractor1.id, jetty_id: testJetty1.id, stockpile_id: testStockpile1.id, coal_grade: 'low', tonnage: '10.00' })
+        .execute();
+
+      const result = await getTotalStock();
+
+      expect(result.total_contractors).toBe(2);
+      expect(result.total_jetties).toBe(2);
+    });
+
     it('should return zeros when no stock exists', async () => {
       const result = await getTotalStock();
 
@@ -271,7 +395,7 @@ describe('Stock Handlers', () => {
   });
 
   describe('createStockAdjustment', () => {
-    it('should create stock adjustment and update stock', async () => {
+    it('should create large adjustments as pending without touching stock', async () => {
       await setupTestData();
 
       const input: CreateStockAdjustmentInput = {
@@ -280,26 +404,75 @@ describe('Stock Handlers', () => {
         reason: 'manual_correction',
         reason_description: 'Correcting measurement error',
         reference_document: 'REF001',
-        attachment: null,
-        adjusted_by: testUser.id
+        attachment: null
       };
 
-      const result = await createStockAdjustment(input);
+      const result = await createStockAdjustment(input, createActor());
 
       expect(result.stock_id).toBe(testStock1.id);
       expect(result.adjustment_amount).toBe(100.50);
       expect(result.previous_tonnage).toBe(1500.50);
       expect(result.new_tonnage).toBe(1601.00);
       expect(result.reason).toBe('manual_correction');
+      expect(result.status).toBe('pending');
+      expect(result.required_approvals).toBe(1);
 
-      // Verify stock was updated
+      // Stock is untouched until the adjustment is approved
       const updatedStock = await db.select()
         .from(stockTable)
         .where(eq(stockTable.id, testStock1.id))
         .execute();
 
-      expect(parseFloat(updatedStock[0].tonnage)).toBe(1601.00);
-      expect(updatedStock[0].version).toBe(testStock1.version + 1);
+      expect(parseFloat(updatedStock[0].tonnage)).toBe(1500.50);
+      expect(updatedStock[0].version).toBe(testStock1.version);
+    });
+
+    it('should apply small adjustments immediately', async () => {
+      await setupTestData();
+
+      const result = await createStockAdjustment(adjustmentInput(-5.50), createActor());
+
+      expect(result.status).toBe('applied');
+      expect(result.required_approvals).toBe(0);
+      expect(result.approved_by).toBeNull();
+      expect(result.new_tonnage).toBe(1495.00);
+      expect(await getStockTonnage(testStock1.id)).toBe(1495.00);
+    });
+
+    it('should require two approvals above the dual approval limit', async () => {
+      await setupTestData();
+
+      const result = await createStockAdjustment(adjustmentInput(1200), createActor());
+
+      expect(result.status).toBe('pending');
+      expect(result.required_approvals).toBe(2);
+    });
+
+    it('should record the acting user and request metadata', async () => {
+      await setupTestData();
+
+      const input: CreateStockAdjustmentInput = {
+        stock_id: testStock1.id,
+        adjustment_amount: 10.00,
+        reason: 'manual_correction',
+        reason_description: 'Actor test',
+        reference_document: null,
+        attachment: null
+      };
+
+      const result = await createStockAdjustment(input, createActor());
+
+      expect(result.adjusted_by).toBe(testUser.id);
+
+      const auditLogs = await db.select()
+        .from(auditLogTable)
+        .where(eq(auditLogTable.record_id, result.id))
+        .execute();
+
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].user_id).toBe(testUser.id);
+      expect(auditLogs[0].ip_address).toBe('10.0.0.5');
+      expect(auditLogs[0].user_agent).toBe('bun-test');
     });
 
     it('should prevent negative stock', async () => {
@@ -311,11 +484,10 @@ describe('Stock Handlers', () => {
         reason: 'waste',
         reason_description: 'Large spillage',
         reference_document: null,
-        attachment: null,
-        adjusted_by: testUser.id
+        attachment: null
       };
 
-      expect(createStockAdjustment(input)).rejects.toThrow(/cannot be negative/i);
+      expect(createStockAdjustment(input, createActor())).rejects.toThrow(/cannot be negative/i);
     });
 
     it('should increment version when creating adjustment', async () => {
@@ -323,15 +495,14 @@ describe('Stock Handlers', () => {
 
       const input: CreateStockAdjustmentInput = {
         stock_id: testStock1.id,
-        adjustment_amount: 100.00,
+        adjustment_amount: 10.00,
         reason: 'manual_correction',
         reason_description: 'Version increment test',
         reference_document: null,
-        attachment: null,
-        adjusted_by: testUser.id
+        attachment: null
       };
 
-      await createStockAdjustment(input);
+      await createStockAdjustment(input, createActor());
 
       // Verify version was incremented
       const updatedStock = await db.select()
@@ -351,11 +522,10 @@ describe('Stock Handlers', () => {
         reason: 'manual_correction',
         reason_description: 'Test',
         reference_document: null,
-        attachment: null,
-        adjusted_by: testUser.id
+        attachment: null
       };
 
-      expect(createStockAdjustment(input)).rejects.toThrow(/not found/i);
+      expect(createStockAdjustment(input, createActor())).rejects.toThrow(/not found/i);
     });
   });
 
@@ -370,11 +540,10 @@ describe('Stock Handlers', () => {
         reason: 'spillage',
         reason_description: 'Minor spillage during handling',
         reference_document: 'REF001',
-        attachment: null,
-        adjusted_by: testUser.id
+        attachment: null
       };
 
-      await createStockAdjustment(input);
+      await createStockAdjustment(input, createActor());
 
       const result = await getStockAdjustments();
 
@@ -396,9 +565,8 @@ describe('Stock Handlers', () => {
         reason: 'spillage',
         reason_description: 'Test 1',
         reference_document: null,
-        attachment: null,
-        adjusted_by: testUser.id
-      });
+        attachment: null
+      }, createActor());
 
       await createStockAdjustment({
         stock_id: testStock2.id,
@@ -406,9 +574,8 @@ describe('Stock Handlers', () => {
         reason: 'waste',
         reason_description: 'Test 2',
         reference_document: null,
-        attachment: null,
-        adjusted_by: testUser.id
-      });
+        attachment: null
+      }, createActor());
 
       const result = await getStockAdjustments(testStock1.id);
 
@@ -425,9 +592,8 @@ describe('Stock Handlers', () => {
         reason: 'measurement_error',
         reason_description: 'Date filter test',
         reference_document: null,
-        attachment: null,
-        adjusted_by: testUser.id
-      });
+        attachment: null
+      }, createActor());
 
       const yesterday = new Date();
       yesterday.setDate(yesterday.getDate() - 1);
@@ -443,47 +609,118 @@ describe('Stock Handlers', () => {
   });
 
   describe('approveStockAdjustment', () => {
-    it('should approve pending stock adjustment', async () => {
+    it('should apply a pending adjustment on approval', async () => {
       await setupTestData();
+      const approver = await createApprover('approver');
 
-      // Create another user for approval
-      const approver = await db.insert(usersTable)
-        .values({
-          email: 'approver@example.com',
-          username: 'approver',
-          password_hash: 'hashed_password',
-          full_name: 'Approver User',
-          role: 'admin'
-        })
-        .returning()
+      const adjustment = await createStockAdjustment(adjustmentInput(100), createActor());
+
+      const result = await approveStockAdjustment(adjustment.id, createActor(approver.id));
+
+      expect(result.status).toBe('applied');
+      expect(result.approved_by).toBe(approver.id);
+      expect(result.approved_at).toBeInstanceOf(Date);
+      expect(result.previous_tonnage).toBe(1500.50);
+      expect(result.new_tonnage).toBe(1600.50);
+      expect(await getStockTonnage(testStock1.id)).toBe(1600.50);
+
+      const auditLogs = await db.select()
+        .from(auditLogTable)
+        .where(and(
+          eq(auditLogTable.record_id, adjustment.id),
+          eq(auditLogTable.action, 'stock_adjustment_approve')
+        ))
         .execute();
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].user_id).toBe(approver.id);
+    });
 
-      // Create adjustment
-      const adjustment = await createStockAdjustment({
-        stock_id: testStock1.id,
-        adjustment_amount: 100.00,
-        reason: 'manual_correction',
-        reason_description: 'Needs approval',
-        reference_document: null,
-        attachment: null,
-        adjusted_by: testUser.id
-      });
+    it('should apply against the tonnage at approval time', async () => {
+      await setupTestData();
+      const approver = await createApprover('approver');
+
+      const adjustment = await createStockAdjustment(adjustmentInput(-100), createActor());
+      await createProductionRecord({
+        date_time: new Date(),
+        contractor_id: testContractor1.id,
+        truck_number: 'TRK-001',
+        tonnage: 50,
+        coal_grade: 'high',
+        jetty_id: testJetty1.id,
+        document_photo: null,
+        notes: null
+      }, createActor());
+
+      const result = await approveStockAdjustment(adjustment.id, createActor(approver.id));
+
+      expect(result.previous_tonnage).toBe(1550.50);
+      expect(result.new_tonnage).toBe(1450.50);
+      expect(await getStockTonnage(testStock1.id)).toBe(1450.50);
+    });
 
-      const result = await approveStockAdjustment(adjustment.id, approver[0].id);
+    it('should reject self-approval', async () => {
+      await setupTestData();
 
-      expect(result.approved_by).toBe(approver[0].id);
-      expect(result.approved_at).toBeInstanceOf(Date);
+      const adjustment = await createStockAdjustment(adjustmentInput(100), createActor());
+
+      expect(approveStockAdjustment(adjustment.id, createActor(testUser.id)))
+        .rejects.toThrow(/cannot approve your own/i);
+    });
+
+    it('should wait for a second approver on large adjustments', async () => {
+      await setupTestData();
+      const first = await createApprover('first');
+      const second = await createApprover('second');
+
+      const adjustment = await createStockAdjustment(adjustmentInput(1200), createActor());
+
+      const afterFirst = await approveStockAdjustment(adjustment.id, createActor(first.id));
+      expect(afterFirst.status).toBe('pending');
+      expect(await getStockTonnage(testStock1.id)).toBe(1500.50);
+
+      // The same approver cannot count twice
+      await expect(approveStockAdjustment(adjustment.id, createActor(first.id)))
+        .rejects.toThrow(/already approved this/i);
+
+      const afterSecond = await approveStockAdjustment(adjustment.id, createActor(second.id));
+      expect(afterSecond.status).toBe('applied');
+      expect(afterSecond.approved_by).toBe(second.id);
+      expect(await getStockTonnage(testStock1.id)).toBe(2700.50);
+
+      const approvals = await db.select()
+        .from(stockAdjustmentApprovalsTable)
+        .where(eq(stockAdjustmentApprovalsTable.adjustment_id, adjustment.id))
+        .execute();
+      expect(approvals.map(approval => approval.approved_by).sort()).toEqual([first.id, second.id].sort());
+    });
+
+    it('should leave the adjustment pending when it would make stock negative', async () => {
+      await setupTestData();
+      const approver = await createApprover('approver');
+
+      const first = await createStockAdjustment(adjustmentInput(-1000), createActor());
+      const second = await createStockAdjustment(adjustmentInput(-900), createActor());
+
+      await approveStockAdjustment(first.id, createActor(approver.id));
+
+      await expect(approveStockAdjustment(second.id, createActor(approver.id)))
+        .rejects.toThrow(/cannot be negative/i);
+
+      const adjustments = await getStockAdjustments(testStock1.id, undefined, undefined, 'pending');
+      expect(adjustments.map(adjustment => adjustment.id)).toEqual([second.id]);
+      expect(await getStockTonnage(testStock1.id)).toBe(500.50);
     });
 
     it('should throw error for non-existent adjustment', async () => {
       await setupTestData();
 
-      expect(approveStockAdjustment(99999, testUser.id))
+      expect(approveStockAdjustment(99999, createActor(testUser.id)))
         .rejects.toThrow(/not found/i);
     });
 
     it('should throw error for already approved adjustment', async () => {
       await setupTestData();
+      const approver = await createApprover('approver');
 
       // Create and approve adjustment
       const adjustment = await createStockAdjustment({
@@ -492,107 +729,128 @@ describe('Stock Handlers', () => {
         reason: 'manual_correction',
         reason_description: 'Test double approval',
         reference_document: null,
-        attachment: null,
-        adjusted_by: testUser.id
-      });
+        attachment: null
+      }, createActor());
 
-      await approveStockAdjustment(adjustment.id, testUser.id);
+      await approveStockAdjustment(adjustment.id, createActor(approver.id));
 
       // Try to approve again
-      expect(approveStockAdjustment(adjustment.id, testUser.id))
+      expect(approveStockAdjustment(adjustment.id, createActor(approver.id)))
         .rejects.toThrow(/already approved/i);
     });
   });
 
-  describe('updateStockFromProduction', () => {
-    it('should create new stock record if none exists', async () => {
+  describe('rejectStockAdjustment', () => {
+    it('should reject a pending adjustment with a reason', async () => {
       await setupTestData();
+      const approver = await createApprover('approver');
 
-      await updateStockFromProduction(testContractor1.id, testJetty2.id, 500.00);
-
-      const newStock = await db.select()
-        .from(stockTable)
-        .where(and(
-          eq(stockTable.contractor_id, testContractor1.id),
-          eq(stockTable.jetty_id, testJetty2.id)
-        ))
-        .execute();
-
-      expect(newStock).toHaveLength(1);
-      expect(parseFloat(newStock[0].tonnage)).toBe(500.00);
-      expect(newStock[0].version).toBe(1);
-    });
+      const adjustment = await createStockAdjustment(adjustmentInput(100), createActor());
 
-    it('should update existing stock record', async () => {
-      await setupTestData();
+      const result = await rejectStockAdjustment(adjustment.id, 'No supporting survey', createActor(approver.id));
 
-      await updateStockFromProduction(testContractor1.id, testJetty1.id, 250.50);
+      expect(result.status).toBe('rejected');
+      expect(result.rejected_by).toBe(approver.id);
+      expect(result.rejection_reason).toBe('No supporting survey');
+      expect(await getStockTonnage(testStock1.id)).toBe(1500.50);
 
-      const updatedStock = await db.select()
-        .from(stockTable)
-        .where(eq(stockTable.id, testStock1.id))
+      const auditLogs = await db.select()
+        .from(auditLogTable)
+        .where(eq(auditLogTable.action, 'stock_adjustment_reject'))
         .execute();
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].record_id).toBe(adjustment.id);
 
-      expect(parseFloat(updatedStock[0].tonnage)).toBe(1751.00); // 1500.50 + 250.50
-      expect(updatedStock[0].version).toBe(testStock1.version + 1);
+      await expect(approveStockAdjustment(adjustment.id, createActor(approver.id)))
+        .rejects.toThrow(/has been rejected/i);
     });
 
-    it('should increment version when updating from production', async () => {
+    it('should not reject an applied adjustment', async () => {
       await setupTestData();
 
-      await updateStockFromProduction(testContractor1.id, testJetty1.id, 100.00);
-
-      // Verify version was incremented
-      const updatedStock = await db.select()
-        .from(stockTable)
-        .where(eq(stockTable.id, testStock1.id))
-        .execute();
+      const adjustment = await createStockAdjustment(adjustmentInput(5), createActor());
 
-      expect(updatedStock[0].version).toBe(testStock1.version + 1);
+      await expect(rejectStockAdjustment(adjustment.id, 'Too late', createActor()))
+        .rejects.toThrow(/already approved/i);
     });
   });
 
-  describe('updateStockFromBarging', () => {
-    it('should reduce stock tonnage', async () => {
+  describe('stock movement ledger', () => {
+    // Backdated production and barging for a contractor-jetty pair without a seeded stock row
+    const postMovements = async () => {
+      await createProductionRecord({
+        date_time: new Date('2024-06-01T08:00:00Z'),
+        contractor_id: testContractor2.id,
+        truck_number: 'TRK-001',
+        tonnage: 100,
+        coal_grade: 'medium',
+        jetty_id: testJetty1.id,
+        document_photo: null,
+        notes: null
+      }, createActor());
+
+      await createBargingRecord({
+        date_time: new Date('2024-06-10T08:00:00Z'),
+        contractor_id: testContractor2.id,
+        ship_batch_number: 'SB-001',
+        coal_grade: 'medium',
+        tonnage: 40,
+        jetty_id: testJetty1.id,
+        buyer: null,
+        loading_document: null,
+        notes: null
+      }, createActor());
+    };
+
+    it('should return the balance at a point in time', async () => {
       await setupTestData();
-
-      await updateStockFromBarging(testContractor1.id, testJetty1.id, 500.00);
-
-      const updatedStock = await db.select()
-        .from(stockTable)
-        .where(eq(stockTable.id, testStock1.id))
-        .execute();
-
-      expect(parseFloat(updatedStock[0].tonnage)).toBe(1000.50); // 1500.50 - 500.00
-      expect(updatedStock[0].version).toBe(testStock1.version + 1);
+      await postMovements();
+
+      const before = await getBalanceAt(testContractor2.id, testJetty1.id, new Date('2024-05-31T00:00:00Z'));
+      const between = await getBalanceAt(testContractor2.id, testJetty1.id, new Date('2024-06-05T00:00:00Z'));
+      const after = await getBalanceAt(testContractor2.id, testJetty1.id, new Date('2024-06-15T00:00:00Z'));
+
+      expect(before.balance).toBe(0);
+      expect(between.balance).toBe(100);
+      expect(after.balance).toBe(60);
+
+      // Only medium grade was moved, so the high grade balance stays empty
+      const medium = await getBalanceAt(testContractor2.id, testJetty1.id, new Date('2024-06-15T00:00:00Z'), 'medium');
+      const high = await getBalanceAt(testContractor2.id, testJetty1.id, new Date('2024-06-15T00:00:00Z'), 'high');
+      expect(medium.balance).toBe(60);
+      expect(medium.coal_grade).toBe('medium');
+      expect(high.balance).toBe(0);
     });
 
-    it('should throw error when insufficient stock', async () => {
+    it('should page through the ledger newest first', async () => {
       await setupTestData();
+      await postMovements();
 
-      expect(updateStockFromBarging(testContractor1.id, testJetty1.id, 2000.00))
-        .rejects.toThrow(/insufficient stock/i);
-    });
+      const firstPage = await getStockLedger({ contractor_id: testContractor2.id, page: 1, page_size: 1 });
 
-    it('should throw error when no stock record exists', async () => {
-      await setupTestData();
+      expect(firstPage.total).toBe(2);
+      expect(firstPage.movements).toHaveLength(1);
+      expect(firstPage.movements[0].movement_type).toBe('barging');
+      expect(firstPage.movements[0].change).toBe(-40);
+      expect(firstPage.movements[0].balance_after).toBe(60);
+      expect(firstPage.movements[0].contractor_name).toBe('Contractor Two');
 
-      expect(updateStockFromBarging(testContractor2.id, testJetty1.id, 100.00))
-        .rejects.toThrow(/no stock found/i);
+      const secondPage = await getStockLedger({ contractor_id: testContractor2.id, page: 2, page_size: 1 });
+      expect(secondPage.movements[0].movement_type).toBe('production');
+      expect(secondPage.movements[0].balance_after).toBe(100);
     });
 
-    it('should increment version when updating from barging', async () => {
+    it('should record applied adjustments but not pending ones', async () => {
       await setupTestData();
 
-      await updateStockFromBarging(testContractor1.id, testJetty1.id, 100.00);
+      await createStockAdjustment(adjustmentInput(5), createActor());
+      await createStockAdjustment(adjustmentInput(500), createActor());
 
-      // Verify version was incremented
-      const updatedStock = await db.select()
-        .from(stockTable)
-        .where(eq(stockTable.id, testStock1.id))
-        .execute();
+      const ledger = await getStockLedger({ movement_type: 'adjustment', page: 1, page_size: 50 });
 
-      expect(updatedStock[0].version).toBe(testStock1.version + 1);
+      expect(ledger.total).toBe(1);
+      expect(ledger.movements[0].change).toBe(5);
+      expect(ledger.movements[0].balance_after).toBe(1505.50);
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { contractorsTable, usersTable } from '../db/schema';
+import { type RequestActor, type CreateProductionRecordInput } from '../schema';
+import { createJetty } from '../handlers/jetties';
+import { createStockpile, updateStockpile, getStockpiles } from '../handlers/stockpiles';
+import { createProductionRecord } from '../handlers/production';
+
+describe('stockpiles', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const setupTestData = async () => {
+    const contractors = await db.insert(contractorsTable)
+      .values({ name: 'Contractor One', code: 'C001', contact_person: 'John Doe', default_grade: 'high' })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'admin@example.com',
+        username: 'admin',
+        password_hash: 'hashed_password',
+        full_name: 'Test Admin',
+        role: 'admin'
+      })
+      .returning()
+      .execute();
+
+    const jetty = await createJetty({ name: 'Jetty Alpha', code: 'JA', capacity: 10000 });
+
+    return { contractor: contractors[0], user: users[0], jetty };
+  };
+
+  const createActor = (userId: number): RequestActor => ({
+    user_id: userId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
+  const productionInput = (
+    contractorId: number,
+    jettyId: number,
+    stockpileId: number | undefined,
+    tonnage: number,
+    coalGrade: 'high' | 'medium' | 'low' = 'high'
+  ): CreateProductionRecordInput => ({
+    date_time: new Date(),
+    contractor_id: contractorId,
+    truck_number: 'TRK-001',
+    tonnage,
+    coal_grade: coalGrade,
+    jetty_id: jettyId,
+    stockpile_id: stockpileId,
+    document_photo: null,
+    notes: null
+  });
+
+  it('should create a stockpile at a jetty', async () => {
+    const { jetty } = await setupTestData();
+
+    const stockpile = await createStockpile({ jetty_id: jetty.id, code: 'SP-1', capacity: 2500, coal_grade: 'medium' });
+
+    expect(stockpile.jetty_id).toEqual(jetty.id);
+    expect(stockpile.code).toEqual('SP-1');
+    expect(stockpile.capacity).toEqual(2500);
+    expect(stockpile.coal_grade).toEqual('medium');
+    expect(stockpile.is_active).toBe(true);
+
+    await expect(createStockpile({ jetty_id: jetty.id, code: 'SP-1', capacity: 100, coal_grade: null }))
+      .rejects.toThrow(/duplicate key/i);
+    await expect(createStockpile({ jetty_id: 99999, code: 'SP-1', capacity: 100, coal_grade: null }))
+      .rejects.toThrow(/jetty with id 99999 not found/i);
+  });
+
+  it('should update a stockpile but never rename the default one', async () => {
+    const { jetty } = await setupTestData();
+    const [defaultPile] = await getStockpiles(jetty.id);
+    const stockpile = await createStockpile({ jetty_id: jetty.id, code: 'SP-1', capacity: 2500, coal_grade: null });
+
+    const updated = await updateStockpile({ id: stockpile.id, code: 'SP-NORTH', capacity: 3000, is_active: false });
+    expect(updated.code).toEqual('SP-NORTH');
+    expect(updated.capacity).toEqual(3000);
+    expect(updated.is_active).toBe(false);
+
+    await expect(updateStockpile({ id: defaultPile.id, code: 'MAIN' }))
+      .rejects.toThrow(/default stockpile cannot be renamed/i);
+    await expect(updateStockpile({ id: 99999, capacity: 10 }))
+      .rejects.toThrow(/not found/i);
+  });
+
+  it('should refuse a grade restriction that strands coal already on the stockpile', async () => {
+    const { contractor, user, jetty } = await setupTestData();
+    const stockpile = await createStockpile({ jetty_id: jetty.id, code: 'SP-1', capacity: 2500, coal_grade: null });
+    await createProductionRecord(productionInput(contractor.id, jetty.id, stockpile.id, 100, 'low'), createActor(user.id));
+
+    await expect(updateStockpile({ id: stockpile.id, coal_grade: 'high' }))
+      .rejects.toThrow(/holds low grade coal/i);
+
+    const restricted = await updateStockpile({ id: stockpile.id, coal_grade: 'low' });
+    expect(restricted.coal_grade).toEqual('low');
+
+    const unrestricted = await updateStockpile({ id: stockpile.id, coal_grade: null });
+    expect(unrestricted.coal_grade).toBeNull();
+  });
+
+  it('should report stock per stockpile', async () => {
+    const { contractor, user, jetty } = await setupTestData();
+    const stockpile = await createStockpile({ jetty_id: jetty.id, code: 'SP-1', capacity: 2500, coal_grade: null });
+    await createProductionRecord(productionInput(contractor.id, jetty.id, undefined, 400), createActor(user.id));
+    await createProductionRecord(productionInput(contractor.id, jetty.id, stockpile.id, 600), createActor(user.id));
+    await createProductionRecord(productionInput(contractor.id, jetty.id, stockpile.id, 150, 'low'), createActor(user.id));
+
+    const result = await getStockpiles(jetty.id);
+
+    expect(result.map(pile => pile.code)).toEqual(['DEFAULT', 'SP-1']);
+    expect(result[0].capacity).toEqual(10000);
+    expect(result[0].stock_tonnage).toEqual(400);
+    expect(result[1].stock_tonnage).toEqual(750);
+    expect(result[1].headroom).toEqual(1750);
+    expect(result[1].by_grade).toEqual([
+      { coal_grade: 'high', tonnage: 600 },
+      { coal_grade: 'low', tonnage: 150 }
+    ]);
+  });
+
+  it('should limit a scoped caller to the jetties its grants reach', async () => {
+    const { jetty } = await setupTestData();
+    const other = await createJetty({ name: 'Jetty Beta', code: 'JB', capacity: 5000 });
+    const scope = { unrestricted: false, grants: [{ jetty_id: jetty.id, contractor_id: null }] };
+
+    expect(await getStockpiles(jetty.id, scope)).toHaveLength(1);
+    await expect(getStockpiles(other.id, scope)).rejects.toThrow(/does not cover jetty/i);
+  });
+});
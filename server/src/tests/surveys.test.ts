@@ -0,0 +1,442 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { contractorsTable, usersTable, stockTable, auditLogTable } from '../db/schema';
+import {
+  type RequestActor,
+  type CreateProductionRecordInput,
+  type CreateStockpileSurveyInput,
+  type CreateBargingRecordInput,
+  type CreateDraftSurveyInput
+} from '../schema';
+import { createJetty } from '../handlers/jetties';
+import { getStockpiles } from '../handlers/stockpiles';
+import { createProductionRecord } from '../handlers/production';
+import { approveStockAdjustment, rejectStockAdjustment } from '../handlers/stock';
+import { createBargingRecord, correctBargingRecord } from '../handlers/barging';
+import { createVessel } from '../handlers/vessels';
+import { createShipment } from '../handlers/shipments';
+import {
+  recordStockpileSurvey,
+  getSurveyVarianceHistory,
+  recordDraftSurvey,
+  acceptDraftSurvey,
+  getDraftSurveys
+} from '../handlers/surveys';
+import { generateSurveyVarianceReport } from '../handlers/reports';
+import { reconcileStock } from '../handlers/reconciliation';
+import { eq } from 'drizzle-orm';
+
+describe('stockpile surveys', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const setupTestData = async () => {
+    const contractors = await db.insert(contractorsTable)
+      .values([
+        { name: 'Contractor One', code: 'C001', contact_person: 'John Doe', default_grade: 'high' },
+        { name: 'Contractor Two', code: 'C002', contact_person: 'Jane Smith', default_grade: 'high' }
+      ])
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'surveyor@example.com', username: 'surveyor', password_hash: 'hashed_password', full_name: 'Survey Admin', role: 'admin' },
+        { email: 'approver@example.com', username: 'approver', password_hash: 'hashed_password', full_name: 'Approving Admin', role: 'admin' }
+      ])
+      .returning()
+      .execute();
+
+    const jetty = await createJetty({ name: 'Jetty Alpha', code: 'JA', capacity: 10000 });
+    const [stockpile] = await getStockpiles(jetty.id);
+
+    // 1000 tons on the books by the end of May: 600 for contractor one, 400 for contractor two
+    await createProductionRecord(productionInput(contractors[0].id, jetty.id, 600, new Date('2024-05-10T08:00:00Z')), createActor(users[0].id));
+    await createProductionRecord(productionInput(contractors[1].id, jetty.id, 400, new Date('2024-05-20T08:00:00Z')), createActor(users[0].id));
+
+    return { contractorOne: contractors[0], contractorTwo: contractors[1], surveyor: users[0], approver: users[1], jetty, stockpile };
+  };
+
+  const createActor = (userId: number): RequestActor => ({
+    user_id: userId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
+  const productionInput = (contractorId: number, jettyId: number, tonnage: number, dateTime: Date): CreateProductionRecordInput => ({
+    date_time: dateTime,
+    contractor_id: contractorId,
+    truck_number: 'TRK-001',
+    tonnage,
+    coal_grade: 'high',
+    jetty_id: jettyId,
+    document_photo: null,
+    notes: null
+  });
+
+  const surveyInput = (stockpileId: number, overrides: Partial<CreateStockpileSurveyInput> = {}): CreateStockpileSurveyInput => ({
+    stockpile_id: stockpileId,
+    surveyed_at: new Date('2024-05-31T12:00:00Z'),
+    measured_volume: 1000,
+    bulk_density: 0.95,
+    attachment: 'survey-2024-05.pdf',
+    notes: null,
+    ...overrides
+  });
+
+  const getTonnages = async () => {
+    const rows = await db.select().from(stockTable).execute();
+    return new Map(rows.map(row => [row.contractor_id, parseFloat(row.tonnage)]));
+  };
+
+  it('should propose the variance as pending measurement_error adjustments shared by book tonnage', async () => {
+    const { contractorOne, contractorTwo, surveyor, stockpile } = await setupTestData();
+
+    const result = await recordStockpileSurvey(surveyInput(stockpile.id), createActor(surveyor.id));
+
+    expect(result.surveyed_tonnage).toEqual(950);
+    expect(result.book_tonnage).toEqual(1000);
+    expect(result.variance).toEqual(-50);
+    expect(result.adjustments).toHaveLength(2);
+    expect(result.adjustments.map(adjustment => adjustment.adjustment_amount)).toEqual([-30, -20]);
+    result.adjustments.forEach(adjustment => {
+      expect(adjustment.reason).toEqual('measurement_error');
+      expect(adjustment.status).toEqual('pending');
+      expect(adjustment.required_approvals).toBeGreaterThanOrEqual(1);
+      expect(adjustment.survey_id).toEqual(result.id);
+      expect(adjustment.attachment).toEqual('survey-2024-05.pdf');
+    });
+
+    // Nothing moves until the adjustments are approved
+    const tonnages = await getTonnages();
+    expect(tonnages.get(contractorOne.id)).toEqual(600);
+    expect(tonnages.get(contractorTwo.id)).toEqual(400);
+
+    const auditLogs = await db.select()
+      .from(auditLogTable)
+      .where(eq(auditLogTable.table_name, 'stockpile_surveys'))
+      .execute();
+    expect(auditLogs.map(log => log.action)).toEqual(['stockpile_survey_create']);
+  });
+
+  it('should apply the adjustments through the normal approval path', async () => {
+    const { contractorOne, contractorTwo, surveyor, approver, stockpile } = await setupTestData();
+    const result = await recordStockpileSurvey(surveyInput(stockpile.id), createActor(surveyor.id));
+
+    await expect(approveStockAdjustment(result.adjustments[0].id, createActor(surveyor.id)))
+      .rejects.toThrow(/cannot approve your own/i);
+
+    const applied = await approveStockAdjustment(result.adjustments[0].id, createActor(approver.id));
+    expect(applied.status).toEqual('applied');
+    await rejectStockAdjustment(result.adjustments[1].id, 'Resurvey requested', createActor(approver.id));
+
+    const tonnages = await getTonnages();
+    expect(tonnages.get(contractorOne.id)).toEqual(570);
+    expect(tonnages.get(contractorTwo.id)).toEqual(400);
+
+    // An approved survey correction is part of the expected balance, not drift
+    const reconciliation = await reconcileStock({ apply: false }, createActor(approver.id));
+    expect(reconciliation.discrepancies).toHaveLength(0);
+  });
+
+  it('should compare against the book balance at the survey time', async () => {
+    const { contractorOne, surveyor, jetty, stockpile } = await setupTestData();
+    // Arrives after the drone flight; not part of the surveyed pile
+    await createProductionRecord(productionInput(contractorOne.id, jetty.id, 200, new Date('2024-06-02T08:00:00Z')), createActor(surveyor.id));
+
+    const result = await recordStockpileSurvey(surveyInput(stockpile.id, { bulk_density: 1.02 }), createActor(surveyor.id));
+
+    expect(result.book_tonnage).toEqual(1000);
+    expect(result.surveyed_tonnage).toEqual(1020);
+    expect(result.adjustments.map(adjustment => adjustment.adjustment_amount)).toEqual([12, 8]);
+    // Proposed against today's balance, which includes the later intake
+    expect(result.adjustments[0].previous_tonnage).toEqual(800);
+    expect(result.adjustments[0].new_tonnage).toEqual(812);
+  });
+
+  it('should record a survey without proposals when there is nothing to correct', async () => {
+    const { surveyor, stockpile } = await setupTestData();
+
+    const matching = await recordStockpileSurvey(surveyInput(stockpile.id, { bulk_density: 1 }), createActor(surveyor.id));
+    expect(matching.variance).toEqual(0);
+    expect(matching.adjustments).toHaveLength(0);
+
+    // Before any intake the books are empty, so there is no balance to attribute the variance to
+    const early = await recordStockpileSurvey(surveyInput(stockpile.id, { surveyed_at: new Date('2024-05-01T00:00:00Z') }), createActor(surveyor.id));
+    expect(early.book_tonnage).toEqual(0);
+    expect(early.variance).toEqual(950);
+    expect(early.adjustments).toHaveLength(0);
+  });
+
+  it('should report variance history with the state of each proposal', async () => {
+    const { surveyor, approver, jetty, stockpile } = await setupTestData();
+    const first = await recordStockpileSurvey(surveyInput(stockpile.id), createActor(surveyor.id));
+    await approveStockAdjustment(first.adjustments[0].id, createActor(approver.id));
+    await recordStockpileSurvey(surveyInput(stockpile.id, { surveyed_at: new Date('2024-06-30T12:00:00Z'), bulk_density: 0.97 }), createActor(surveyor.id));
+
+    const history = await getSurveyVarianceHistory({ jetty_id: jetty.id });
+
+    expect(history).toHaveLength(2);
+    expect(history[0].surveyed_at).toEqual(new Date('2024-06-30T12:00:00Z'));
+    expect(history[0].stockpile_code).toEqual('DEFAULT');
+    expect(history[1]).toMatchObject({
+      id: first.id,
+      jetty_name: 'Jetty Alpha',
+      variance: -50,
+      variance_percent: -5,
+      applied_tonnage: -30,
+      pending_tonnage: -20,
+      rejected_tonnage: 0
+    });
+
+    const june = await getSurveyVarianceHistory({ date_from: new Date('2024-06-01T00:00:00Z') });
+    expect(june).toHaveLength(1);
+
+    const report = await generateSurveyVarianceReport({ jetty_id: jetty.id });
+    const lines = report.content.split('\n');
+    expect(lines[0]).toEqual('Surveyed At,Jetty,Stockpile,Measured Volume,Bulk Density,Surveyed Tonnage,Book Tonnage,Variance,Variance %,Pending,Applied,Rejected');
+    expect(lines).toHaveLength(3);
+    expect(report.filename).toMatch(/^survey_variance_report_.*_jetty_\d+\.csv$/);
+  });
+
+  it('should require the scope to reach the whole jetty', async () => {
+    const { contractorOne, surveyor, jetty, stockpile } = await setupTestData();
+    const contractorScope = { unrestricted: false, grants: [{ jetty_id: jetty.id, contractor_id: contractorOne.id }] };
+    const jettyScope = { unrestricted: false, grants: [{ jetty_id: jetty.id, contractor_id: null }] };
+
+    await expect(recordStockpileSurvey(surveyInput(stockpile.id), createActor(surveyor.id), {
+      unrestricted: false,
+      grants: []
+    })).rejects.toThrow(/does not cover jetty/i);
+
+    const result = await recordStockpileSurvey(surveyInput(stockpile.id), createActor(surveyor.id), jettyScope);
+    expect(result.adjustments).toHaveLength(2);
+
+    expect(await getSurveyVarianceHistory(undefined, contractorScope)).toHaveLength(1);
+    expect(await getSurveyVarianceHistory(undefined, { unrestricted: false, grants: [] })).toHaveLength(0);
+  });
+});
+
+describe('draft surveys', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const setupTestData = async () => {
+    const contractors = await db.insert(contractorsTable)
+      .values([
+        { name: 'Contractor One', code: 'C001', contact_person: 'John Doe', default_grade: 'high' },
+        { name: 'Contractor Two', code: 'C002', contact_person: 'Jane Smith', default_grade: 'high' }
+      ])
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'surveyor@example.com', username: 'surveyor', password_hash: 'hashed_password', full_name: 'Survey Admin', role: 'admin' },
+        { email: 'approver@example.com', username: 'approver', password_hash: 'hashed_password', full_name: 'Approving Admin', role: 'admin' }
+      ])
+      .returning()
+      .execute();
+
+    const jetty = await createJetty({ name: 'Jetty Alpha', code: 'JA', capacity: 50000 });
+    const [stockpile] = await getStockpiles(jetty.id);
+
+    // 10,000 tons for each contractor
+    await db.insert(stockTable)
+      .values(contractors.map(contractor => ({
+        contractor_id: contractor.id,
+        jetty_id: jetty.id,
+        stockpile_id: stockpile.id,
+        coal_grade: 'high' as const,
+        tonnage: '10000.00'
+      })))
+      .execute();
+
+    // Barge BG-07 is booked at 4,900 tons; BG-08 is another barge
+    const actor = createActor(users[0].id);
+    const loadOne = await createBargingRecord(bargeLoad(contractors[0].id, jetty.id, 3000, 'BG-07'), actor);
+    const loadTwo = await createBargingRecord(bargeLoad(contractors[1].id, jetty.id, 1900, 'BG-07'), actor);
+    await createBargingRecord(bargeLoad(contractors[1].id, jetty.id, 500, 'BG-08'), actor);
+
+    return { contractorOne: contractors[0], contractorTwo: contractors[1], surveyor: users[0], approver: users[1], jetty, loadOne, loadTwo };
+  };
+
+  const createActor = (userId: number): RequestActor => ({
+    user_id: userId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
+  const bargeLoad = (contractorId: number, jettyId: number, tonnage: number, batch: string, shipmentId?: number): CreateBargingRecordInput => ({
+    date_time: new Date('2024-06-02T08:00:00Z'),
+    contractor_id: contractorId,
+    ship_batch_number: batch,
+    tonnage,
+    coal_grade: 'high',
+    jetty_id: jettyId,
+    buyer: null,
+    loading_document: null,
+    notes: null,
+    shipment_id: shipmentId
+  });
+
+  // 1,000 tons net before loading and 6,000 after, once corrected to the dock water: 5,000 tons of cargo
+  const draftInput = (overrides: Partial<CreateDraftSurveyInput> = {}): CreateDraftSurveyInput => ({
+    ship_batch_number: 'BG-07',
+    surveyed_at: new Date('2024-06-02T18:00:00Z'),
+    initial: { draft_fore: 0.8, draft_mid: 0.9, draft_aft: 1.0, table_displacement: 1127.5, density: 1, deductibles: 100 },
+    final: { draft_fore: 3.4, draft_mid: 3.5, draft_aft: 3.6, table_displacement: 6252.5, density: 1, deductibles: 100 },
+    attachment: 'draft-survey-bg07.pdf',
+    notes: null,
+    ...overrides
+  });
+
+  const getTonnages = async () => {
+    const rows = await db.select().from(stockTable).execute();
+    return new Map(rows.map(row => [row.contractor_id, parseFloat(row.tonnage)]));
+  };
+
+  it('should compute the cargo weight and its variance against the barge loads', async () => {
+    const { surveyor } = await setupTestData();
+
+    const survey = await recordDraftSurvey(draftInput(), createActor(surveyor.id));
+
+    expect(survey.initial_displacement).toEqual(1100);
+    expect(survey.final_displacement).toEqual(6100);
+    expect(survey.cargo_weight).toEqual(5000);
+    expect(survey.barged_tonnage).toEqual(4900);
+    expect(survey.variance).toEqual(100);
+    expect(survey.variance_percent).toEqual(2.04);
+    expect(survey.status).toEqual('recorded');
+    expect(survey.adjustments).toHaveLength(0);
+
+    // Recording alone leaves stock untouched
+    expect([...(await getTonnages()).values()].sort()).toEqual([7000, 7600]);
+  });
+
+  it('should post the variance as pending adjustments on the loads\' stock once accepted', async () => {
+    const { contractorOne, contractorTwo, surveyor, approver } = await setupTestData();
+    const survey = await recordDraftSurvey(draftInput(), createActor(surveyor.id));
+
+    const accepted = await acceptDraftSurvey(survey.id, createActor(surveyor.id));
+
+    expect(accepted.status).toEqual('accepted');
+    expect(accepted.accepted_by).toEqual(surveyor.id);
+    // More cargo on board than booked: the difference left the stockpile too
+    expect(accepted.adjustments.map(adjustment => [adjustment.adjustment_amount, adjustment.status, adjustment.reason]))
+      .toEqual([[-61.22, 'pending', 'measurement_error'], [-38.78, 'pending', 'measurement_error']]);
+    expect(accepted.adjustments.every(adjustment => adjustment.draft_survey_id === survey.id)).toBe(true);
+
+    for (const adjustment of accepted.adjustments) {
+      await approveStockAdjustment(adjustment.id, createActor(approver.id));
+    }
+
+    const tonnages = await getTonnages();
+    expect(tonnages.get(contractorOne.id)).toEqual(6938.78);
+    expect(tonnages.get(contractorTwo.id)).toEqual(7561.22);
+
+    await expect(acceptDraftSurvey(survey.id, createActor(surveyor.id))).rejects.toThrow(/already been accepted/);
+
+    const [listed] = await getDraftSurveys({ ship_batch_number: 'BG-07' });
+    expect(listed.adjustments.map(adjustment => adjustment.status)).toEqual(['applied', 'applied']);
+
+    const auditLogs = await db.select()
+      .from(auditLogTable)
+      .where(eq(auditLogTable.table_name, 'draft_surveys'))
+      .execute();
+    expect(auditLogs.map(log => log.action)).toEqual(['draft_survey_create', 'draft_survey_accept']);
+  });
+
+  it('should compare against the barge loads as they stand on acceptance', async () => {
+    const { surveyor, loadTwo } = await setupTestData();
+    const survey = await recordDraftSurvey(draftInput(), createActor(surveyor.id));
+
+    // The booked figure is brought in line before the survey is accepted
+    await correctBargingRecord({ id: loadTwo.id, reason: 'Draft survey', tonnage: 2000 }, createActor(surveyor.id));
+
+    const accepted = await acceptDraftSurvey(survey.id, createActor(surveyor.id));
+    expect(accepted.barged_tonnage).toEqual(5000);
+    expect(accepted.variance).toEqual(0);
+    expect(accepted.adjustments).toHaveLength(0);
+  });
+
+  it('should accept only one survey of the same loads', async () => {
+    const { contractorOne, surveyor, jetty } = await setupTestData();
+    const actor = createActor(surveyor.id);
+
+    const first = await recordDraftSurvey(draftInput(), actor);
+    const second = await recordDraftSurvey(draftInput(), actor);
+    await acceptDraftSurvey(first.id, actor);
+
+    await expect(acceptDraftSurvey(second.id, actor))
+      .rejects.toThrow(`Draft survey #${first.id} of the same loads has already been accepted`);
+
+    // A barge survey and the survey of the shipment it was loaded for measure the same cargo
+    const vessel = await createVessel({ name: 'MV Ocean Star', imo_number: '9074729' });
+    const shipment = await createShipment({
+      vessel_id: vessel.id,
+      buyer: 'Pacific Power Co',
+      destination_port: 'Kaohsiung',
+      laycan_start: new Date('2024-06-01T00:00:00Z'),
+      laycan_end: new Date('2024-06-05T00:00:00Z'),
+      nominated_quantity: 5000,
+      notes: null
+    });
+    await createBargingRecord(bargeLoad(contractorOne.id, jetty.id, 4950, 'BG-09', shipment.id), actor);
+
+    const barge = await recordDraftSurvey(draftInput({ ship_batch_number: 'BG-09' }), actor);
+    const whole = await recordDraftSurvey(draftInput({ ship_batch_number: undefined, shipment_id: shipment.id }), actor);
+    await acceptDraftSurvey(barge.id, actor);
+
+    await expect(acceptDraftSurvey(whole.id, actor)).rejects.toThrow(/of the same loads has already been accepted/);
+    expect((await getDraftSurveys({ status: 'accepted' })).map(survey => survey.id).sort()).toEqual([first.id, barge.id].sort());
+  });
+
+  it('should keep scoped callers to surveys of loads at their jetties', async () => {
+    const { surveyor, jetty } = await setupTestData();
+    const actor = createActor(surveyor.id);
+    const jettyScope = { unrestricted: false, grants: [{ jetty_id: jetty.id, contractor_id: null }] };
+    const otherJetty = { unrestricted: false, grants: [{ jetty_id: jetty.id + 1, contractor_id: null }] };
+
+    await expect(recordDraftSurvey(draftInput(), actor, otherJetty)).rejects.toThrow(/does not cover jetty/);
+    await recordDraftSurvey(draftInput(), actor, jettyScope);
+
+    expect(await getDraftSurveys(undefined, jettyScope)).toHaveLength(1);
+    expect(await getDraftSurveys(undefined, otherJetty)).toHaveLength(0);
+  });
+
+  it('should survey a whole shipment and validate what is surveyed', async () => {
+    const { contractorOne, surveyor, jetty } = await setupTestData();
+    const actor = createActor(surveyor.id);
+    const vessel = await createVessel({ name: 'MV Ocean Star', imo_number: '9074729' });
+    const shipment = await createShipment({
+      vessel_id: vessel.id,
+      buyer: 'Pacific Power Co',
+      destination_port: 'Kaohsiung',
+      laycan_start: new Date('2024-06-01T00:00:00Z'),
+      laycan_end: new Date('2024-06-05T00:00:00Z'),
+      nominated_quantity: 5000,
+      notes: null
+    });
+    await createBargingRecord(bargeLoad(contractorOne.id, jetty.id, 5050, 'BG-09', shipment.id), actor);
+
+    const survey = await recordDraftSurvey(draftInput({ ship_batch_number: undefined, shipment_id: shipment.id }), actor);
+    expect(survey.barged_tonnage).toEqual(5050);
+    expect(survey.variance).toEqual(-50);
+    expect(await getDraftSurveys({ shipment_id: shipment.id })).toHaveLength(1);
+
+    await expect(recordDraftSurvey(draftInput({ shipment_id: shipment.id }), actor))
+      .rejects.toThrow(/either a shipment or a barge batch/);
+    await expect(recordDraftSurvey(draftInput({ ship_batch_number: undefined, shipment_id: 99999 }), actor))
+      .rejects.toThrow(/Shipment with ID 99999 not found/);
+    await expect(recordDraftSurvey(draftInput({ final: draftInput().initial }), actor))
+      .rejects.toThrow(/final net displacement must be more/i);
+
+    // Accepting adjusts stock at every jetty the loads came from
+    await expect(acceptDraftSurvey(survey.id, actor, { unrestricted: false, grants: [] }))
+      .rejects.toThrow(/does not cover jetty/);
+    const accepted = await acceptDraftSurvey(survey.id, actor, { unrestricted: false, grants: [{ jetty_id: jetty.id, contractor_id: null }] });
+    expect(accepted.adjustments.map(adjustment => adjustment.adjustment_amount)).toEqual([50]);
+  });
+});
@@ -0,0 +1,258 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, auditLogTable, totpCredentialsTable, recoveryCodesTable } from '../db/schema';
+import { type RequestActor, type UserRole } from '../schema';
+import { login, verifySecondFactor, verifyToken, hashPassword } from '../handlers/auth';
+import {
+  generateTotpCode,
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  regenerateRecoveryCodes,
+  disableTotp,
+  getTwoFactorStatus
+} from '../handlers/totp';
+import { eq, and, isNull } from 'drizzle-orm';
+
+const PASSWORD = 'Password123';
+
+const createTestUser = async (role: UserRole = 'admin') => {
+  const users = await db.insert(usersTable)
+    .values({
+      email: `${role}@example.com`,
+      username: role,
+      password_hash: await hashPassword(PASSWORD),
+      full_name: `Test ${role}`,
+      role
+    })
+    .returning()
+    .execute();
+  return users[0];
+};
+
+const createActor = (userId: number): RequestActor => ({
+  user_id: userId,
+  ip_address: '10.0.0.8',
+  user_agent: 'bun-test'
+});
+
+// Codes for the next time step are accepted as clock drift and have not been used yet
+const nextCode = (secret: string, steps: number = 1) => {
+  return generateTotpCode(secret, new Date(Date.now() + steps * 30 * 1000));
+};
+
+// Enroll a user and return the secret and recovery codes
+const enrollUser = async (userId: number) => {
+  const enrollment = await beginTotpEnrollment(createActor(userId));
+  const { recovery_codes } = await confirmTotpEnrollment(await generateTotpCode(enrollment.secret), createActor(userId));
+  return { secret: enrollment.secret, recoveryCodes: recovery_codes };
+};
+
+// First login step for an enrolled user
+const getChallenge = async (email: string) => {
+  const result = await login({ email, password: PASSWORD });
+  if (!result.two_factor_required) {
+    throw new Error('Expected a second-factor challenge');
+  }
+  return result.challenge_token;
+};
+
+describe('TOTP two-factor authentication', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('generateTotpCode', () => {
+    // RFC 6238 appendix B vectors (SHA-1 seed "12345678901234567890"), truncated to 6 digits
+    const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+    it('should match the RFC 6238 test vectors', async () => {
+      expect(await generateTotpCode(secret, new Date(59 * 1000))).toEqual('287082');
+      expect(await generateTotpCode(secret, new Date(1111111109 * 1000))).toEqual('081804');
+      expect(await generateTotpCode(secret, new Date(1234567890 * 1000))).toEqual('005924');
+      expect(await generateTotpCode(secret, new Date(2000000000 * 1000))).toEqual('279037');
+    });
+  });
+
+  describe('enrollment', () => {
+    it('should return a provisioning URI for authenticator apps', async () => {
+      const user = await createTestUser();
+
+      const enrollment = await beginTotpEnrollment(createActor(user.id));
+
+      expect(enrollment.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(enrollment.provisioning_uri).toStartWith('otpauth://totp/');
+      expect(enrollment.provisioning_uri).toContain(`secret=${enrollment.secret}`);
+      expect(enrollment.provisioning_uri).toContain(encodeURIComponent(user.email));
+
+      // Not active until confirmed
+      const status = await getTwoFactorStatus(user.id);
+      expect(status.enabled).toBe(false);
+      expect(status.required).toBe(true);
+    });
+
+    it('should enable 2FA and issue recovery codes on confirmation', async () => {
+      const user = await createTestUser();
+      const { recoveryCodes } = await enrollUser(user.id);
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(recoveryCodes[0]).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/);
+
+      const updated = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(updated[0].two_factor_enabled).toBe(true);
+
+      // Only hashes are stored
+      const stored = await db.select().from(recoveryCodesTable).where(eq(recoveryCodesTable.user_id, user.id)).execute();
+      expect(stored).toHaveLength(10);
+      expect(stored.map(code => code.code_hash)).not.toContain(recoveryCodes[0]);
+
+      const auditLogs = await db.select()
+        .from(auditLogTable)
+        .where(eq(auditLogTable.action, 'two_factor_enabled'))
+        .execute();
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].ip_address).toEqual('10.0.0.8');
+    });
+
+    it('should reject a wrong confirmation code', async () => {
+      const user = await createTestUser();
+      await beginTotpEnrollment(createActor(user.id));
+
+      await expect(confirmTotpEnrollment('000000', createActor(user.id))).rejects.toThrow(/invalid verification code/i);
+
+      const credentials = await db.select().from(totpCredentialsTable).execute();
+      expect(credentials[0].confirmed_at).toBeNull();
+    });
+
+    it('should not restart enrollment once enabled', async () => {
+      const user = await createTestUser();
+      await enrollUser(user.id);
+
+      await expect(beginTotpEnrollment(createActor(user.id))).rejects.toThrow(/already enabled/i);
+    });
+  });
+
+  describe('two-step login', () => {
+    it('should return a challenge instead of tokens for enrolled users', async () => {
+      const user = await createTestUser();
+      await enrollUser(user.id);
+
+      const result = await login({ email: user.email, password: PASSWORD });
+
+      expect(result.two_factor_required).toBe(true);
+      if (!result.two_factor_required) return;
+      expect(result.challenge_expires_at.getTime()).toBeGreaterThan(Date.now());
+
+      // A challenge is not an access token
+      expect(await verifyToken(result.challenge_token)).toBeNull();
+    });
+
+    it('should exchange a challenge and TOTP code for a session', async () => {
+      const user = await createTestUser();
+      const { secret } = await enrollUser(user.id);
+      const challenge = await getChallenge(user.email);
+
+      const result = await verifySecondFactor({ challenge_token: challenge, code: await nextCode(secret) });
+
+      expect(result.two_factor_required).toBe(false);
+      if (result.two_factor_required) return;
+      expect(result.user.id).toEqual(user.id);
+
+      const sessionUser = await verifyToken(result.token);
+      expect(sessionUser?.id).toEqual(user.id);
+
+      const loginLogs = await db.select()
+        .from(auditLogTable)
+        .where(and(eq(auditLogTable.user_id, user.id), eq(auditLogTable.action, 'login')))
+        .execute();
+      expect((loginLogs[0].new_values as any).method).toEqual('totp');
+    });
+
+    it('should reject a replayed code', async () => {
+      const user = await createTestUser();
+      const { secret } = await enrollUser(user.id);
+      const code = await nextCode(secret);
+
+      await verifySecondFactor({ challenge_token: await getChallenge(user.email), code });
+
+      await expect(
+        verifySecondFactor({ challenge_token: await getChallenge(user.email), code })
+      ).rejects.toThrow(/invalid verification code/i);
+    });
+
+    it('should accept each recovery code once', async () => {
+      const user = await createTestUser();
+      const { recoveryCodes } = await enrollUser(user.id);
+
+      // Recovery codes are accepted regardless of case and separators
+      const code = recoveryCodes[0].toLowerCase().replace('-', ' ');
+      const result = await verifySecondFactor({ challenge_token: await getChallenge(user.email), code });
+      expect(result.two_factor_required).toBe(false);
+
+      await expect(
+        verifySecondFactor({ challenge_token: await getChallenge(user.email), code: recoveryCodes[0] })
+      ).rejects.toThrow(/invalid verification code/i);
+
+      const status = await getTwoFactorStatus(user.id);
+      expect(status.recovery_codes_remaining).toEqual(9);
+    });
+
+    it('should count wrong codes towards the account lockout', async () => {
+      const user = await createTestUser();
+      await enrollUser(user.id);
+      const challenge = await getChallenge(user.email);
+
+      await expect(verifySecondFactor({ challenge_token: challenge, code: '000000' })).rejects.toThrow(/invalid verification code/i);
+
+      const updated = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(updated[0].failed_login_attempts).toEqual(1);
+    });
+
+    it('should reject an invalid challenge token', async () => {
+      await expect(verifySecondFactor({ challenge_token: 'not.a.token', code: '123456' }))
+        .rejects.toThrow(/invalid or expired login challenge/i);
+    });
+  });
+
+  describe('managing an enrolled factor', () => {
+    it('should regenerate recovery codes with a valid code', async () => {
+      const user = await createTestUser();
+      const { secret, recoveryCodes } = await enrollUser(user.id);
+
+      const result = await regenerateRecoveryCodes(await nextCode(secret), createActor(user.id));
+
+      expect(result.recovery_codes).toHaveLength(10);
+      expect(result.recovery_codes).not.toContain(recoveryCodes[0]);
+
+      const unused = await db.select()
+        .from(recoveryCodesTable)
+        .where(and(eq(recoveryCodesTable.user_id, user.id), isNull(recoveryCodesTable.used_at)))
+        .execute();
+      expect(unused).toHaveLength(10);
+    });
+
+    it('should not let enforced roles disable 2FA', async () => {
+      const user = await createTestUser('auditor');
+      const { secret } = await enrollUser(user.id);
+
+      await expect(disableTotp(await nextCode(secret), createActor(user.id))).rejects.toThrow(/required for role 'auditor'/i);
+    });
+
+    it('should let other roles disable 2FA with a valid code', async () => {
+      const user = await createTestUser('operator_barging');
+      const { secret } = await enrollUser(user.id);
+
+      await disableTotp(await nextCode(secret), createActor(user.id));
+
+      const status = await getTwoFactorStatus(user.id);
+      expect(status.enabled).toBe(false);
+      expect(status.required).toBe(false);
+
+      const credentials = await db.select().from(totpCredentialsTable).execute();
+      expect(credentials).toHaveLength(0);
+
+      // Back to a single-step login
+      const result = await login({ email: user.email, password: PASSWORD });
+      expect(result.two_factor_required).toBe(false);
+    });
+  });
+});
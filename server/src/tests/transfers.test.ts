@@ -0,0 +1,300 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  contractorsTable,
+  jettiesTable,
+  stockpilesTable,
+  usersTable,
+  stockTable,
+  stockTransfersTable,
+  stockMovementsTable,
+  stockAdjustmentsTable,
+  auditLogTable
+} from '../db/schema';
+import {
+  type RequestActor,
+  type CreateProductionRecordInput,
+  type CreateStockTransferInput,
+  type CoalGrade
+} from '../schema';
+import { createStockTransfer, receiveStockTransfer, getStockTransfers } from '../handlers/transfers';
+import { createProductionRecord } from '../handlers/production';
+import { reconcileStock } from '../handlers/reconciliation';
+import { generateMovementReport } from '../handlers/reports';
+import { eq, asc } from 'drizzle-orm';
+
+describe('stock transfers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const setupTestData = async () => {
+    const contractors = await db.insert(contractorsTable)
+      .values([
+        { name: 'Contractor One', code: 'C001', contact_person: 'John Doe', default_grade: 'high' },
+        { name: 'Contractor Two', code: 'C002', contact_person: 'Jane Smith', default_grade: 'high' }
+      ])
+      .returning()
+      .execute();
+
+    const jetties = await db.insert(jettiesTable)
+      .values([
+        { name: 'Jetty Alpha', code: 'JA', capacity: '100000.00' },
+        { name: 'Jetty Beta', code: 'JB', capacity: '100000.00' }
+      ])
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'admin@example.com',
+        username: 'admin',
+        password_hash: 'hashed_password',
+        full_name: 'Test Admin',
+        role: 'admin'
+      })
+      .returning()
+      .execute();
+
+    // 500 tons of high grade for contractor one at Jetty Alpha
+    await createProductionRecord(productionInput(contractors[0].id, jetties[0].id, 500), createActor(users[0].id));
+
+    return {
+      contractorOne: contractors[0],
+      contractorTwo: contractors[1],
+      jettyA: jetties[0],
+      jettyB: jetties[1],
+      user: users[0]
+    };
+  };
+
+  const createActor = (userId: number): RequestActor => ({
+    user_id: userId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
+  const productionInput = (contractorId: number, jettyId: number, tonnage: number): CreateProductionRecordInput => ({
+    date_time: new Date('2024-06-01T08:00:00Z'),
+    contractor_id: contractorId,
+    truck_number: 'TRK-001',
+    tonnage,
+    coal_grade: 'high',
+    jetty_id: jettyId,
+    document_photo: null,
+    notes: null
+  });
+
+  const transferInput = (overrides: Partial<CreateStockTransferInput>): CreateStockTransferInput => ({
+    source_contractor_id: 0,
+    source_jetty_id: 0,
+    destination_contractor_id: 0,
+    destination_jetty_id: 0,
+    coal_grade: 'high',
+    tonnage: 200,
+    transport_mode: null,
+    transport_reference: null,
+    dispatched_at: new Date('2024-06-05T08:00:00Z'),
+    notes: null,
+    ...overrides
+  });
+
+  const getTonnage = async (contractorId: number, jettyId: number, coalGrade: CoalGrade = 'high') => {
+    const rows = await db.select().from(stockTable).execute();
+    const row = rows.find(stock =>
+      stock.contractor_id === contractorId && stock.jetty_id === jettyId && stock.coal_grade === coalGrade
+    );
+    return row ? parseFloat(row.tonnage) : 0;
+  };
+
+  it('should move stock between contractor accounts at one jetty in a single step', async () => {
+    const { contractorOne, contractorTwo, jettyA, user } = await setupTestData();
+
+    const transfer = await createStockTransfer(transferInput({
+      source_contractor_id: contractorOne.id,
+      source_jetty_id: jettyA.id,
+      destination_contractor_id: contractorTwo.id,
+      destination_jetty_id: jettyA.id
+    }), createActor(user.id));
+
+    expect(transfer.status).toEqual('completed');
+    expect(transfer.tonnage).toEqual(200);
+    expect(transfer.received_at).toEqual(transfer.dispatched_at);
+    expect(await getTonnage(contractorOne.id, jettyA.id)).toEqual(300);
+    expect(await getTonnage(contractorTwo.id, jettyA.id)).toEqual(200);
+
+    const movements = await db.select()
+      .from(stockMovementsTable)
+      .where(eq(stockMovementsTable.reference_id, transfer.id))
+      .orderBy(asc(stockMovementsTable.id))
+      .execute();
+    const transferMovements = movements.filter(movement => movement.movement_type !== 'production');
+    expect(transferMovements.map(movement => movement.movement_type)).toEqual(['transfer_out', 'transfer_in']);
+    expect(transferMovements.map(movement => parseFloat(movement.change))).toEqual([-200, 200]);
+
+    // A transfer, not a pair of corrections
+    expect(await db.select().from(stockAdjustmentsTable).execute()).toHaveLength(0);
+    const auditLogs = await db.select()
+      .from(auditLogTable)
+      .where(eq(auditLogTable.table_name, 'stock_transfers'))
+      .execute();
+    expect(auditLogs.map(log => log.action)).toEqual(['stock_transfer_create']);
+    expect(auditLogs[0].record_id).toEqual(transfer.id);
+  });
+
+  it('should keep stock between jetties in transit until received', async () => {
+    const { contractorOne, jettyA, jettyB, user } = await setupTestData();
+
+    const transfer = await createStockTransfer(transferInput({
+      source_contractor_id: contractorOne.id,
+      source_jetty_id: jettyA.id,
+      destination_contractor_id: contractorOne.id,
+      destination_jetty_id: jettyB.id,
+      transport_mode: 'barge',
+      transport_reference: 'BG-07'
+    }), createActor(user.id));
+
+    expect(transfer.status).toEqual('in_transit');
+    expect(await getTonnage(contractorOne.id, jettyA.id)).toEqual(300);
+    expect(await getTonnage(contractorOne.id, jettyB.id)).toEqual(0);
+    expect(await getStockTransfers({ status: 'in_transit' })).toHaveLength(1);
+
+    const receivedAt = new Date('2024-06-06T08:00:00Z');
+    const received = await receiveStockTransfer({ transferId: transfer.id, received_at: receivedAt }, createActor(user.id));
+
+    expect(received.status).toEqual('completed');
+    expect(received.received_at).toEqual(receivedAt);
+    expect(received.received_by).toEqual(user.id);
+    expect(await getTonnage(contractorOne.id, jettyB.id)).toEqual(200);
+    expect(await getStockTransfers({ status: 'in_transit' })).toHaveLength(0);
+
+    await expect(receiveStockTransfer({ transferId: transfer.id }, createActor(user.id)))
+      .rejects.toThrow(/already been received/i);
+    expect(await getTonnage(contractorOne.id, jettyB.id)).toEqual(200);
+  });
+
+  it('should not record a transfer the source cannot cover', async () => {
+    const { contractorOne, contractorTwo, jettyA, user } = await setupTestData();
+
+    await expect(createStockTransfer(transferInput({
+      source_contractor_id: contractorOne.id,
+      source_jetty_id: jettyA.id,
+      destination_contractor_id: contractorTwo.id,
+      destination_jetty_id: jettyA.id,
+      tonnage: 600
+    }), createActor(user.id))).rejects.toThrow(/insufficient stock/i);
+
+    // Only the seeded grade can be moved
+    await expect(createStockTransfer(transferInput({
+      source_contractor_id: contractorOne.id,
+      source_jetty_id: jettyA.id,
+      destination_contractor_id: contractorTwo.id,
+      destination_jetty_id: jettyA.id,
+      coal_grade: 'low'
+    }), createActor(user.id))).rejects.toThrow(/no stock found/i);
+
+    expect(await db.select().from(stockTransfersTable).execute()).toHaveLength(0);
+    expect(await getTonnage(contractorOne.id, jettyA.id)).toEqual(500);
+    expect(await getTonnage(contractorTwo.id, jettyA.id)).toEqual(0);
+  });
+
+  it('should validate the transfer route', async () => {
+    const { contractorOne, jettyA, jettyB, user } = await setupTestData();
+
+    await expect(createStockTransfer(transferInput({
+      source_contractor_id: contractorOne.id,
+      source_jetty_id: jettyA.id,
+      destination_contractor_id: contractorOne.id,
+      destination_jetty_id: jettyA.id
+    }), createActor(user.id))).rejects.toThrow(/must differ/i);
+
+    await expect(createStockTransfer(transferInput({
+      source_contractor_id: contractorOne.id,
+      source_jetty_id: jettyA.id,
+      destination_contractor_id: contractorOne.id,
+      destination_jetty_id: jettyB.id
+    }), createActor(user.id))).rejects.toThrow(/transport mode/i);
+  });
+
+  it('should move stock between stockpiles at one jetty in a single step', async () => {
+    const { contractorOne, jettyA, user } = await setupTestData();
+    const stockpiles = await db.insert(stockpilesTable)
+      .values([
+        { jetty_id: jettyA.id, code: 'SP-HIGH', capacity: '1000.00', coal_grade: 'high' },
+        { jetty_id: jettyA.id, code: 'SP-LOW', capacity: '1000.00', coal_grade: 'low' }
+      ])
+      .returning()
+      .execute();
+    const [highPile, lowPile] = stockpiles;
+
+    await expect(createStockTransfer(transferInput({
+      source_contractor_id: contractorOne.id,
+      source_jetty_id: jettyA.id,
+      destination_contractor_id: contractorOne.id,
+      destination_jetty_id: jettyA.id,
+      destination_stockpile_id: lowPile.id
+    }), createActor(user.id))).rejects.toThrow(/only holds low grade coal/i);
+
+    const transfer = await createStockTransfer(transferInput({
+      source_contractor_id: contractorOne.id,
+      source_jetty_id: jettyA.id,
+      destination_contractor_id: contractorOne.id,
+      destination_jetty_id: jettyA.id,
+      destination_stockpile_id: highPile.id
+    }), createActor(user.id));
+
+    expect(transfer.status).toEqual('completed');
+    expect(transfer.destination_stockpile_id).toEqual(highPile.id);
+    const stock = await db.select().from(stockTable).execute();
+    expect(parseFloat(stock.find(row => row.stockpile_id === transfer.source_stockpile_id)!.tonnage)).toEqual(300);
+    expect(parseFloat(stock.find(row => row.stockpile_id === highPile.id)!.tonnage)).toEqual(200);
+
+    const reconciliation = await reconcileStock({ apply: false }, createActor(user.id));
+    expect(reconciliation.discrepancies).toHaveLength(0);
+  });
+
+  it('should require the scope to cover both ends', async () => {
+    const { contractorOne, jettyA, jettyB, user } = await setupTestData();
+
+    await expect(createStockTransfer(transferInput({
+      source_contractor_id: contractorOne.id,
+      source_jetty_id: jettyA.id,
+      destination_contractor_id: contractorOne.id,
+      destination_jetty_id: jettyB.id,
+      transport_mode: 'truck'
+    }), createActor(user.id), {
+      unrestricted: false,
+      grants: [{ jetty_id: jettyA.id, contractor_id: null }]
+    })).rejects.toThrow(/does not cover jetty/i);
+  });
+
+  it('should show transfers in the movement report and keep reconciliation clean', async () => {
+    const { contractorOne, contractorTwo, jettyA, jettyB, user } = await setupTestData();
+
+    await createStockTransfer(transferInput({
+      source_contractor_id: contractorOne.id,
+      source_jetty_id: jettyA.id,
+      destination_contractor_id: contractorTwo.id,
+      destination_jetty_id: jettyA.id,
+      tonnage: 100
+    }), createActor(user.id));
+    await createStockTransfer(transferInput({
+      source_contractor_id: contractorOne.id,
+      source_jetty_id: jettyA.id,
+      destination_contractor_id: contractorOne.id,
+      destination_jetty_id: jettyB.id,
+      tonnage: 50,
+      transport_mode: 'truck',
+      transport_reference: 'TRK-9'
+    }), createActor(user.id));
+
+    const report = await generateMovementReport();
+    expect(report.content).toContain('Transfer Out');
+    expect(report.content).toContain('Transfer In');
+    expect(report.content).toContain('(TRK-9)');
+    expect(report.content).not.toContain('Adjustment');
+
+    const reconciliation = await reconcileStock({ apply: false }, createActor(user.id));
+    expect(reconciliation.discrepancies).toHaveLength(0);
+  });
+});
@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { contractorsTable, usersTable } from '../db/schema';
+import { type RequestActor, type CreateProductionRecordInput } from '../schema';
+import { createJetty } from '../handlers/jetties';
+import { createProductionRecord } from '../handlers/production';
+import { normalizePlate, createTruck, updateTruck, getTrucks } from '../handlers/trucks';
+import { receiveWeighbridgeReading } from '../handlers/weighbridge';
+import { generateProductionReport, generateTruckReport } from '../handlers/reports';
+
+describe('trucks', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const setupTestData = async () => {
+    const contractors = await db.insert(contractorsTable)
+      .values([
+        { name: 'Contractor One', code: 'C001', contact_person: 'John Doe', default_grade: 'high' },
+        { name: 'Haulage Co', code: 'H001', contact_person: 'Jane Smith', default_grade: 'high' }
+      ])
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'operator@example.com',
+        username: 'operator',
+        password_hash: 'hashed_password',
+        full_name: 'Production Operator',
+        role: 'operator_produksi'
+      })
+      .returning()
+      .execute();
+
+    const jetty = await createJetty({ name: 'Jetty Alpha', code: 'JA', capacity: 10000 });
+
+    return { contractor: contractors[0], haulier: contractors[1], user: users[0], jetty };
+  };
+
+  const createActor = (userId: number): RequestActor => ({
+    user_id: userId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
+  const productionInput = (contractorId: number, jettyId: number, truckNumber: string, tonnage: number): CreateProductionRecordInput => ({
+    date_time: new Date('2024-05-10T08:00:00Z'),
+    contractor_id: contractorId,
+    truck_number: truckNumber,
+    tonnage,
+    coal_grade: 'high',
+    jetty_id: jettyId,
+    document_photo: null,
+    notes: null
+  });
+
+  it('should normalise plates', () => {
+    expect(normalizePlate('KT 1234 AB')).toEqual('KT1234AB');
+    expect(normalizePlate('kt-1234-ab')).toEqual('KT1234AB');
+    expect(normalizePlate(' KT.1234 ab ')).toEqual('KT1234AB');
+  });
+
+  it('should register trucks under their normalised plate', async () => {
+    const { haulier } = await setupTestData();
+
+    const truck = await createTruck({
+      plate_number: 'KT 1234 AB',
+      contractor_id: haulier.id,
+      tare_weight: 12300,
+      capacity: 30,
+      registration_expiry: new Date('2025-01-31T00:00:00Z')
+    });
+
+    expect(truck.plate_number).toEqual('KT1234AB');
+    expect(truck.tare_weight).toEqual(12300);
+    expect(truck.capacity).toEqual(30);
+    expect(truck.is_active).toBe(true);
+
+    await expect(createTruck({ plate_number: 'kt-1234-ab', contractor_id: haulier.id, tare_weight: 1, capacity: 1, registration_expiry: null }))
+      .rejects.toThrow(/KT1234AB' already exists/);
+    await expect(createTruck({ plate_number: 'KT 9 Z', contractor_id: 99999, tare_weight: 1, capacity: 1, registration_expiry: null }))
+      .rejects.toThrow(/contractor with id 99999 not found/i);
+    await expect(createTruck({ plate_number: ' - ', contractor_id: haulier.id, tare_weight: 1, capacity: 1, registration_expiry: null }))
+      .rejects.toThrow(/not a plate number/);
+
+    const updated = await updateTruck({ id: truck.id, capacity: 32, is_active: false });
+    expect(updated.capacity).toEqual(32);
+    expect(updated.is_active).toBe(false);
+
+    expect(await getTrucks({ contractor_id: haulier.id })).toHaveLength(1);
+    expect(await getTrucks({ active_only: true })).toHaveLength(0);
+  });
+
+  it('should resolve production plates against the registry', async () => {
+    const { contractor, haulier, user, jetty } = await setupTestData();
+    const truck = await createTruck({ plate_number: 'KT 1234 AB', contractor_id: haulier.id, tare_weight: 12300, capacity: 30, registration_expiry: null });
+
+    const registered = await createProductionRecord(productionInput(contractor.id, jetty.id, 'kt-1234 ab', 25), createActor(user.id));
+    expect(registered.truck_id).toEqual(truck.id);
+    expect(registered.truck_number).toEqual('KT1234AB');
+
+    // Trucks outside the registry are still accepted, with the plate normalized
+    const unregistered = await createProductionRecord(productionInput(contractor.id, jetty.id, 'TRK-001', 25), createActor(user.id));
+    expect(unregistered.truck_id).toBeNull();
+    expect(unregistered.truck_number).toEqual('TRK001');
+  });
+
+  it('should reject overloaded, inactive and expired trucks', async () => {
+    const { contractor, haulier, user, jetty } = await setupTestData();
+    const truck = await createTruck({
+      plate_number: 'KT 1234 AB',
+      contractor_id: haulier.id,
+      tare_weight: 12300,
+      capacity: 30,
+      registration_expiry: new Date('2024-05-01T00:00:00Z')
+    });
+
+    await expect(createProductionRecord(productionInput(contractor.id, jetty.id, 'KT 1234 AB', 25), createActor(user.id)))
+      .rejects.toThrow(/registration expired on 2024-05-01/);
+
+    await updateTruck({ id: truck.id, registration_expiry: null });
+    await expect(createProductionRecord(productionInput(contractor.id, jetty.id, 'KT 1234 AB', 30.5), createActor(user.id)))
+      .rejects.toThrow(/overloaded: 30.5 tons exceeds its capacity of 30 tons/);
+
+    await updateTruck({ id: truck.id, is_active: false });
+    await expect(createProductionRecord(productionInput(contractor.id, jetty.id, 'KT 1234 AB', 25), createActor(user.id)))
+      .rejects.toThrow(/is inactive/);
+  });
+
+  it('should weigh registered trucks against their registered tare', async () => {
+    const { contractor, haulier, user, jetty } = await setupTestData();
+    await createTruck({ plate_number: 'KT 1234 AB', contractor_id: haulier.id, tare_weight: 12300, capacity: 30, registration_expiry: null });
+
+    const reading = {
+      truck_number: 'KT1234AB',
+      gross_weight: 40300,
+      weighed_at: new Date('2024-05-10T08:00:00Z'),
+      jetty_id: jetty.id,
+      contractor_id: contractor.id
+    };
+
+    const ticket = await receiveWeighbridgeReading({ ...reading, ticket_number: 'WB-1', gross_weight: 37300 }, createActor(user.id));
+    expect(ticket.tare_weight).toEqual(12300);
+    expect(ticket.net_tonnage).toEqual(25);
+    expect(ticket.status).toEqual('recorded');
+
+    // 31 tons on a 30 ton truck: the ticket is kept but not recorded
+    const overloaded = await receiveWeighbridgeReading({ ...reading, ticket_number: 'WB-2', gross_weight: 43300 }, createActor(user.id));
+    expect(overloaded.status).toEqual('pending');
+    expect(overloaded.pending_reason).toMatch(/overloaded/);
+
+    await expect(receiveWeighbridgeReading({ ...reading, ticket_number: 'WB-3', truck_number: 'KT 9 Z' }, createActor(user.id)))
+      .rejects.toThrow(/no tare weight for truck KT 9 Z/i);
+  });
+
+  it('should report trips and tonnage per truck', async () => {
+    const { contractor, haulier, user, jetty } = await setupTestData();
+    const truck = await createTruck({ plate_number: 'KT 1234 AB', contractor_id: haulier.id, tare_weight: 12300, capacity: 30, registration_expiry: null });
+
+    await createProductionRecord(productionInput(contractor.id, jetty.id, 'KT 1234 AB', 24), createActor(user.id));
+    await createProductionRecord({ ...productionInput(contractor.id, jetty.id, 'kt1234ab', 27), date_time: new Date('2024-05-11T08:00:00Z') }, createActor(user.id));
+    await createProductionRecord(productionInput(contractor.id, jetty.id, 'TRK-001', 20), createActor(user.id));
+
+    const report = await generateTruckReport();
+    const lines = report.content.split('\n');
+
+    expect(lines[0]).toEqual('Truck Number,Registered,Haulier,Trips,Total Tonnage,Average Load,Capacity,Average Load %,First Trip,Last Trip');
+    expect(lines[1]).toEqual('KT1234AB,Yes,Haulage Co,2,51,25.5,30,85,2024-05-10T08:00:00.000Z,2024-05-11T08:00:00.000Z');
+    expect(lines[2]).toEqual('TRK001,No,,1,20,20,,,2024-05-10T08:00:00.000Z,2024-05-10T08:00:00.000Z');
+    expect(report.filename).toMatch(/^truck_report_/);
+
+    const production = await generateProductionReport(undefined, undefined, undefined, undefined, 'csv', undefined, truck.id);
+    expect(production.content.split('\n')).toHaveLength(3);
+    expect(production.filename).toMatch(new RegExp(`_truck_${truck.id}\\.csv$`));
+  });
+});
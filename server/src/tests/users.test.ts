@@ -1,8 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, auditLogTable } from '../db/schema';
-import { type CreateUserInput, type UserRole } from '../schema';
+import { usersTable, auditLogTable, refreshTokensTable, passwordHistoryTable, totpCredentialsTable } from '../db/schema';
+import { type CreateUserInput, type UserRole, type RequestActor } from '../schema';
 import { 
   createUser, 
   getUsers, 
@@ -10,7 +10,10 @@ import {
   getUserByEmail, 
   updateUser, 
   updateUserPassword, 
+  adminResetPassword, 
+  resetTwoFactor, 
   deactivateUser, 
+  unlockUser, 
   getUsersByRole, 
   updateLastLogin 
 } from '../handlers/users';
@@ -24,7 +27,7 @@ const compare = async (password: string, hash: string): Promise<boolean> => {
 const testUserInput: CreateUserInput = {
   email: 'john.doe@example.com',
   username: 'johndoe',
-  password: 'password123',
+  password: 'Password123',
   full_name: 'John Doe',
   role: 'operator_produksi'
 };
@@ -32,18 +35,26 @@ const testUserInput: CreateUserInput = {
 const adminUserInput: CreateUserInput = {
   email: 'admin@example.com',
   username: 'admin',
-  password: 'admin123',
+  password: 'Admin12345',
   full_name: 'System Admin',
   role: 'admin'
 };
 
+// Acting user for handlers that require an authenticated caller
+const ACTING_ADMIN_ID = 999;
+const createActor = (userId: number = ACTING_ADMIN_ID): RequestActor => ({
+  user_id: userId,
+  ip_address: '127.0.0.1',
+  user_agent: 'bun-test'
+});
+
 describe('User Handlers', () => {
   beforeEach(createDB);
   afterEach(resetDB);
 
   describe('createUser', () => {
     it('should create a new user successfully', async () => {
-      const result = await createUser(testUserInput);
+      const result = await createUser(testUserInput, createActor());
 
       expect(result.email).toEqual(testUserInput.email);
       expect(result.username).toEqual(testUserInput.username);
@@ -56,7 +67,7 @@ describe('User Handlers', () => {
     });
 
     it('should hash the password correctly', async () => {
-      await createUser(testUserInput);
+      await createUser(testUserInput, createActor());
 
       const users = await db.select()
         .from(usersTable)
@@ -73,10 +84,27 @@ describe('User Handlers', () => {
       // Verify password can be validated
       const isValid = await compare(testUserInput.password, user.password_hash);
       expect(isValid).toBe(true);
+
+      // Same scheme as the login path
+      expect(user.password_hash).toStartWith('$2b$12$');
+    });
+
+    it('should reject passwords that break the policy', async () => {
+      await expect(createUser({ ...testUserInput, password: 'short1A' }, createActor()))
+        .rejects.toThrow(/at least 8 characters/i);
+      await expect(createUser({ ...testUserInput, password: 'alllowercase123' }, createActor()))
+        .rejects.toThrow(/uppercase letter/i);
+      await expect(createUser({ ...testUserInput, password: 'NoDigitsHere' }, createActor()))
+        .rejects.toThrow(/digit/i);
+      await expect(createUser({ ...testUserInput, username: 'Johndoe123', password: 'Johndoe123' }, createActor()))
+        .rejects.toThrow(/must not match the username or email/i);
+
+      const users = await db.select().from(usersTable).execute();
+      expect(users).toHaveLength(0);
     });
 
     it('should create audit log entry', async () => {
-      const result = await createUser(testUserInput);
+      const result = await createUser(testUserInput, createActor());
 
       const auditLogs = await db.select()
         .from(auditLogTable)
@@ -91,23 +119,24 @@ describe('User Handlers', () => {
       expect(auditLogs).toHaveLength(1);
       const auditLog = auditLogs[0];
       expect(auditLog.table_name).toBe('users');
-      expect(auditLog.user_id).toBe(result.id);
+      expect(auditLog.user_id).toBe(ACTING_ADMIN_ID);
+      expect(auditLog.ip_address).toBe('127.0.0.1');
     });
 
     it('should reject duplicate email', async () => {
-      await createUser(testUserInput);
+      await createUser(testUserInput, createActor());
 
       const duplicateInput = { ...testUserInput, username: 'different' };
       
-      expect(createUser(duplicateInput)).rejects.toThrow(/email already exists/i);
+      expect(createUser(duplicateInput, createActor())).rejects.toThrow(/email already exists/i);
     });
 
     it('should reject duplicate username', async () => {
-      await createUser(testUserInput);
+      await createUser(testUserInput, createActor());
 
       const duplicateInput = { ...testUserInput, email: 'different@example.com' };
       
-      expect(createUser(duplicateInput)).rejects.toThrow(/username already exists/i);
+      expect(createUser(duplicateInput, createActor())).rejects.toThrow(/username already exists/i);
     });
   });
 
@@ -118,8 +147,8 @@ describe('User Handlers', () => {
     });
 
     it('should return all users without password hashes', async () => {
-      await createUser(testUserInput);
-      await createUser(adminUserInput);
+      await createUser(testUserInput, createActor());
+      await createUser(adminUserInput, createActor());
 
       const result = await getUsers();
       expect(result).toHaveLength(2);
@@ -133,8 +162,8 @@ describe('User Handlers', () => {
     });
 
     it('should order users by full name', async () => {
-      await createUser(testUserInput); // John Doe
-      await createUser(adminUserInput); // System Admin
+      await createUser(testUserInput, createActor()); // John Doe
+      await createUser(adminUserInput, createActor()); // System Admin
 
       const result = await getUsers();
       expect(result[0].full_name).toBe('John Doe');
@@ -149,7 +178,7 @@ describe('User Handlers', () => {
     });
 
     it('should return user without password hash', async () => {
-      const createdUser = await createUser(testUserInput);
+      const createdUser = await createUser(testUserInput, createActor());
       const result = await getUserById(createdUser.id);
 
       expect(result).not.toBeNull();
@@ -166,7 +195,7 @@ describe('User Handlers', () => {
     });
 
     it('should return user with password hash for authentication', async () => {
-      await createUser(testUserInput);
+      await createUser(testUserInput, createActor());
       const result = await getUserByEmail(testUserInput.email);
 
       expect(result).not.toBeNull();
@@ -175,7 +204,7 @@ describe('User Handlers', () => {
     });
 
     it('should return null for inactive user', async () => {
-      const createdUser = await createUser(testUserInput);
+      const createdUser = await createUser(testUserInput, createActor());
       
       // Deactivate user directly in database
       await db.update(usersTable)
@@ -190,14 +219,14 @@ describe('User Handlers', () => {
 
   describe('updateUser', () => {
     it('should update user fields successfully', async () => {
-      const createdUser = await createUser(testUserInput);
+      const createdUser = await createUser(testUserInput, createActor());
       
       const updates = {
         full_name: 'John Updated',
         role: 'admin' as UserRole
       };
 
-      const result = await updateUser(createdUser.id, updates);
+      const result = await updateUser(createdUser.id, updates, createActor());
       
       expect(result.full_name).toBe('John Updated');
       expect(result.role).toBe('admin');
@@ -205,8 +234,8 @@ describe('User Handlers', () => {
     });
 
     it('should create audit log entry', async () => {
-      const createdUser = await createUser(testUserInput);
-      await updateUser(createdUser.id, { full_name: 'Updated Name' });
+      const createdUser = await createUser(testUserInput, createActor());
+      await updateUser(createdUser.id, { full_name: 'Updated Name' }, createActor());
 
       const auditLogs = await db.select()
         .from(auditLogTable)
@@ -217,34 +246,34 @@ describe('User Handlers', () => {
     });
 
     it('should reject update to existing email', async () => {
-      await createUser(testUserInput);
-      const user2 = await createUser(adminUserInput);
+      await createUser(testUserInput, createActor());
+      const user2 = await createUser(adminUserInput, createActor());
 
       expect(
-        updateUser(user2.id, { email: testUserInput.email })
+        updateUser(user2.id, { email: testUserInput.email }, createActor())
       ).rejects.toThrow(/email already exists/i);
     });
 
     it('should reject update to existing username', async () => {
-      await createUser(testUserInput);
-      const user2 = await createUser(adminUserInput);
+      await createUser(testUserInput, createActor());
+      const user2 = await createUser(adminUserInput, createActor());
 
       expect(
-        updateUser(user2.id, { username: testUserInput.username })
+        updateUser(user2.id, { username: testUserInput.username }, createActor())
       ).rejects.toThrow(/username already exists/i);
     });
 
     it('should throw error for non-existent user', async () => {
       expect(
-        updateUser(999, { full_name: 'Test' })
+        updateUser(999, { full_name: 'Test' }, createActor())
       ).rejects.toThrow(/user not found/i);
     });
   });
 
   describe('updateUserPassword', () => {
     it('should update password successfully', async () => {
-      const createdUser = await createUser(testUserInput);
-      const newPassword = 'newpassword123';
+      const createdUser = await createUser(testUserInput, createActor());
+      const newPassword = 'NewPassword123';
 
       const result = await updateUserPassword(
         createdUser.id, 
@@ -261,8 +290,8 @@ describe('User Handlers', () => {
     });
 
     it('should create audit log entry', async () => {
-      const createdUser = await createUser(testUserInput);
-      await updateUserPassword(createdUser.id, testUserInput.password, 'new123');
+      const createdUser = await createUser(testUserInput, createActor());
+      await updateUserPassword(createdUser.id, testUserInput.password, 'NewPassword123');
 
       const auditLogs = await db.select()
         .from(auditLogTable)
@@ -272,27 +301,151 @@ describe('User Handlers', () => {
       expect(auditLogs).toHaveLength(1);
     });
 
+    it('should reject a new password that breaks the policy', async () => {
+      const createdUser = await createUser(testUserInput, createActor());
+
+      await expect(
+        updateUserPassword(createdUser.id, testUserInput.password, 'weak')
+      ).rejects.toThrow(/at least 8 characters/i);
+    });
+
+    it('should reject reusing a recent password', async () => {
+      const createdUser = await createUser(testUserInput, createActor());
+
+      await expect(
+        updateUserPassword(createdUser.id, testUserInput.password, testUserInput.password)
+      ).rejects.toThrow(/last \d+ passwords/i);
+
+      await updateUserPassword(createdUser.id, testUserInput.password, 'NewPassword123');
+      await expect(
+        updateUserPassword(createdUser.id, 'NewPassword123', testUserInput.password)
+      ).rejects.toThrow(/last \d+ passwords/i);
+
+      const history = await db.select()
+        .from(passwordHistoryTable)
+        .where(eq(passwordHistoryTable.user_id, createdUser.id))
+        .execute();
+      expect(history).toHaveLength(2);
+    });
+
+    it('should clear a forced password change', async () => {
+      const createdUser = await createUser(testUserInput, createActor());
+      await db.update(usersTable)
+        .set({ must_change_password: true, password_changed_at: new Date('2020-01-01') })
+        .where(eq(usersTable.id, createdUser.id))
+        .execute();
+
+      await updateUserPassword(createdUser.id, testUserInput.password, 'NewPassword123');
+
+      const updated = await getUserById(createdUser.id);
+      expect(updated!.must_change_password).toBe(false);
+      expect(updated!.password_changed_at.getTime()).toBeGreaterThan(Date.now() - 60 * 1000);
+    });
+
     it('should reject incorrect current password', async () => {
-      const createdUser = await createUser(testUserInput);
+      const createdUser = await createUser(testUserInput, createActor());
 
       expect(
-        updateUserPassword(createdUser.id, 'wrongpassword', 'new123')
+        updateUserPassword(createdUser.id, 'wrongpassword', 'NewPassword123')
       ).rejects.toThrow(/current password is incorrect/i);
     });
 
     it('should reject for non-existent user', async () => {
       expect(
-        updateUserPassword(999, 'any', 'new123')
+        updateUserPassword(999, 'any', 'NewPassword123')
       ).rejects.toThrow(/user not found or inactive/i);
     });
   });
 
+  describe('adminResetPassword', () => {
+    it('should issue a temporary password and force a change', async () => {
+      const createdUser = await createUser(testUserInput, createActor());
+      const admin = await createUser(adminUserInput, createActor());
+
+      const result = await adminResetPassword(createdUser.id, createActor(admin.id));
+
+      expect(result.user_id).toBe(createdUser.id);
+      expect(result.temporary_password.length).toBeGreaterThanOrEqual(12);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, createdUser.id))
+        .execute();
+      expect(users[0].must_change_password).toBe(true);
+      expect(await compare(result.temporary_password, users[0].password_hash)).toBe(true);
+      expect(await compare(testUserInput.password, users[0].password_hash)).toBe(false);
+    });
+
+    it('should revoke existing sessions and audit without the password', async () => {
+      const createdUser = await createUser(testUserInput, createActor());
+      const admin = await createUser(adminUserInput, createActor());
+
+      await db.insert(refreshTokensTable)
+        .values({
+          user_id: createdUser.id,
+          family_id: 'session-1',
+          token_hash: 'b'.repeat(64),
+          expires_at: new Date(Date.now() + 3600 * 1000),
+          session_started_at: new Date()
+        })
+        .execute();
+
+      const result = await adminResetPassword(createdUser.id, createActor(admin.id));
+
+      const tokens = await db.select()
+        .from(refreshTokensTable)
+        .where(eq(refreshTokensTable.user_id, createdUser.id))
+        .execute();
+      expect(tokens[0].revoked_reason).toBe('password_reset');
+
+      const auditLogs = await db.select()
+        .from(auditLogTable)
+        .where(eq(auditLogTable.action, 'RESET_PASSWORD'))
+        .execute();
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].user_id).toBe(admin.id);
+      expect(JSON.stringify(auditLogs[0].new_values)).not.toContain(result.temporary_password);
+    });
+
+    it('should reject inactive users', async () => {
+      await expect(adminResetPassword(12345, createActor())).rejects.toThrow(/user not found or inactive/i);
+    });
+  });
+
+  describe('resetTwoFactor', () => {
+    it('should remove the second factor and audit the reset', async () => {
+      const createdUser = await createUser(adminUserInput, createActor());
+      await db.update(usersTable)
+        .set({ two_factor_enabled: true })
+        .where(eq(usersTable.id, createdUser.id))
+        .execute();
+      await db.insert(totpCredentialsTable)
+        .values({ user_id: createdUser.id, secret: 'JBSWY3DPEHPK3PXP', confirmed_at: new Date() })
+        .execute();
+
+      await resetTwoFactor(createdUser.id, createActor());
+
+      const updated = await getUserById(createdUser.id);
+      expect(updated!.two_factor_enabled).toBe(false);
+
+      const credentials = await db.select().from(totpCredentialsTable).execute();
+      expect(credentials).toHaveLength(0);
+
+      const auditLogs = await db.select()
+        .from(auditLogTable)
+        .where(eq(auditLogTable.action, 'RESET_TWO_FACTOR'))
+        .execute();
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].user_id).toBe(ACTING_ADMIN_ID);
+    });
+  });
+
   describe('deactivateUser', () => {
     it('should deactivate user successfully', async () => {
-      const createdUser = await createUser(testUserInput);
-      const admin = await createUser(adminUserInput);
+      const createdUser = await createUser(testUserInput, createActor());
+      const admin = await createUser(adminUserInput, createActor());
 
-      const result = await deactivateUser(createdUser.id, admin.id);
+      const result = await deactivateUser(createdUser.id, createActor(admin.id));
       expect(result).toBe(true);
 
       // Verify user is deactivated
@@ -305,10 +458,10 @@ describe('User Handlers', () => {
     });
 
     it('should create audit log entry', async () => {
-      const createdUser = await createUser(testUserInput);
-      const admin = await createUser(adminUserInput);
+      const createdUser = await createUser(testUserInput, createActor());
+      const admin = await createUser(adminUserInput, createActor());
       
-      await deactivateUser(createdUser.id, admin.id);
+      await deactivateUser(createdUser.id, createActor(admin.id));
 
       const auditLogs = await db.select()
         .from(auditLogTable)
@@ -319,18 +472,83 @@ describe('User Handlers', () => {
       expect(auditLogs[0].user_id).toBe(admin.id);
     });
 
+    it('should revoke refresh tokens of the deactivated user', async () => {
+      const createdUser = await createUser(testUserInput, createActor());
+      const admin = await createUser(adminUserInput, createActor());
+
+      await db.insert(refreshTokensTable)
+        .values({
+          user_id: createdUser.id,
+          family_id: 'session-1',
+          token_hash: 'a'.repeat(64),
+          expires_at: new Date(Date.now() + 3600 * 1000),
+          session_started_at: new Date()
+        })
+        .execute();
+
+      await deactivateUser(createdUser.id, createActor(admin.id));
+
+      const tokens = await db.select()
+        .from(refreshTokensTable)
+        .where(eq(refreshTokensTable.user_id, createdUser.id))
+        .execute();
+
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].revoked_at).toBeInstanceOf(Date);
+      expect(tokens[0].revoked_reason).toBe('user_deactivated');
+    });
+
     it('should reject deactivating already inactive user', async () => {
-      const createdUser = await createUser(testUserInput);
-      const admin = await createUser(adminUserInput);
+      const createdUser = await createUser(testUserInput, createActor());
+      const admin = await createUser(adminUserInput, createActor());
       
-      await deactivateUser(createdUser.id, admin.id);
+      await deactivateUser(createdUser.id, createActor(admin.id));
 
       expect(
-        deactivateUser(createdUser.id, admin.id)
+        deactivateUser(createdUser.id, createActor(admin.id))
       ).rejects.toThrow(/user not found or already inactive/i);
     });
   });
 
+  describe('unlockUser', () => {
+    it('should clear the lockout and audit the unlock', async () => {
+      const createdUser = await createUser(testUserInput, createActor());
+      const admin = await createUser(adminUserInput, createActor());
+
+      await db.update(usersTable)
+        .set({
+          failed_login_attempts: 5,
+          last_failed_login_at: new Date(),
+          locked_until: new Date(Date.now() + 15 * 60 * 1000)
+        })
+        .where(eq(usersTable.id, createdUser.id))
+        .execute();
+
+      const result = await unlockUser(createdUser.id, createActor(admin.id));
+      expect(result).toBe(true);
+
+      const unlocked = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, createdUser.id))
+        .execute();
+      expect(unlocked[0].failed_login_attempts).toBe(0);
+      expect(unlocked[0].last_failed_login_at).toBeNull();
+      expect(unlocked[0].locked_until).toBeNull();
+
+      const auditLogs = await db.select()
+        .from(auditLogTable)
+        .where(eq(auditLogTable.action, 'UNLOCK_USER'))
+        .execute();
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0].user_id).toBe(admin.id);
+      expect((auditLogs[0].old_values as any).failed_login_attempts).toBe(5);
+    });
+
+    it('should reject unknown users', async () => {
+      await expect(unlockUser(12345, createActor())).rejects.toThrow(/user not found/i);
+    });
+  });
+
   describe('getUsersByRole', () => {
     it('should return empty array when no users with role exist', async () => {
       const result = await getUsersByRole('auditor');
@@ -338,8 +556,8 @@ describe('User Handlers', () => {
     });
 
     it('should return users with specific role', async () => {
-      await createUser(testUserInput); // operator_produksi
-      await createUser(adminUserInput); // admin
+      await createUser(testUserInput, createActor()); // operator_produksi
+      await createUser(adminUserInput, createActor()); // admin
 
       const operators = await getUsersByRole('operator_produksi');
       const admins = await getUsersByRole('admin');
@@ -352,16 +570,16 @@ describe('User Handlers', () => {
     });
 
     it('should only return active users', async () => {
-      const user1 = await createUser(testUserInput);
+      const user1 = await createUser(testUserInput, createActor());
       const user2 = await createUser({
         ...testUserInput,
         email: 'user2@example.com',
         username: 'user2'
-      });
-      const admin = await createUser(adminUserInput);
+      }, createActor());
+      const admin = await createUser(adminUserInput, createActor());
 
       // Deactivate one user
-      await deactivateUser(user1.id, admin.id);
+      await deactivateUser(user1.id, createActor(admin.id));
 
       const operators = await getUsersByRole('operator_produksi');
       expect(operators).toHaveLength(1);
@@ -369,7 +587,7 @@ describe('User Handlers', () => {
     });
 
     it('should exclude password hashes', async () => {
-      await createUser(testUserInput);
+      await createUser(testUserInput, createActor());
       
       const result = await getUsersByRole('operator_produksi');
       expect(result[0].password_hash).toBe('');
@@ -378,7 +596,7 @@ describe('User Handlers', () => {
 
   describe('updateLastLogin', () => {
     it('should update last login timestamp', async () => {
-      const createdUser = await createUser(testUserInput);
+      const createdUser = await createUser(testUserInput, createActor());
       
       // Initial last_login should be null
       expect(createdUser.last_login).toBeNull();
@@ -0,0 +1,250 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { contractorsTable, usersTable, productionRecordsTable, stockTable, auditLogTable } from '../db/schema';
+import { type RequestActor, type WeighbridgeReadingInput } from '../schema';
+import { createJetty } from '../handlers/jetties';
+import { createProductionRecord } from '../handlers/production';
+import {
+  parseWeighbridgeLine,
+  receiveWeighbridgeReading,
+  receiveWeighbridgeFeed,
+  completeWeighbridgeTicket,
+  getWeighbridgeTickets
+} from '../handlers/weighbridge';
+import { eq } from 'drizzle-orm';
+
+describe('weighbridge tickets', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const setupTestData = async () => {
+    const contractors = await db.insert(contractorsTable)
+      .values([
+        { name: 'Contractor One', code: 'C001', contact_person: 'John Doe', default_grade: 'medium' },
+        { name: 'Contractor Two', code: 'C002', contact_person: 'Jane Smith', default_grade: 'high' }
+      ])
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'operator@example.com',
+        username: 'operator',
+        password_hash: 'hashed_password',
+        full_name: 'Production Operator',
+        role: 'operator_produksi'
+      })
+      .returning()
+      .execute();
+
+    const jetty = await createJetty({ name: 'Jetty Alpha', code: 'JA', capacity: 10000 });
+
+    return { contractorOne: contractors[0], contractorTwo: contractors[1], user: users[0], jetty };
+  };
+
+  const createActor = (userId: number): RequestActor => ({
+    user_id: userId,
+    ip_address: '127.0.0.1',
+    user_agent: 'bun-test'
+  });
+
+  const reading = (jettyId: number, overrides: Partial<WeighbridgeReadingInput> = {}): WeighbridgeReadingInput => ({
+    ticket_number: 'WB-1001',
+    truck_number: 'KT 8812 AB',
+    gross_weight: 32450,
+    tare_weight: 12300,
+    weighed_at: new Date('2024-05-10T08:15:00Z'),
+    jetty_id: jettyId,
+    ...overrides
+  });
+
+  it('should record a reading with a contractor as production at the net weight', async () => {
+    const { contractorOne, user, jetty } = await setupTestData();
+
+    const ticket = await receiveWeighbridgeReading(reading(jetty.id, { contractor_id: contractorOne.id }), createActor(user.id));
+
+    expect(ticket.status).toEqual('recorded');
+    expect(ticket.net_tonnage).toEqual(20.15);
+    expect(ticket.pending_reason).toBeNull();
+    expect(ticket.production_record_id).not.toBeNull();
+
+    const records = await db.select()
+      .from(productionRecordsTable)
+      .where(eq(productionRecordsTable.id, ticket.production_record_id!))
+      .execute();
+    expect(records[0].tonnage).toEqual('20.15');
+    expect(records[0].tonnage_source).toEqual('weighbridge');
+    expect(records[0].ticket_number).toEqual('WB-1001');
+    expect(records[0].truck_number).toEqual('KT8812AB');
+    expect(records[0].coal_grade).toEqual('medium'); // The contractor's default grade
+    expect(records[0].date_time).toEqual(new Date('2024-05-10T08:15:00Z'));
+
+    const stock = await db.select().from(stockTable).execute();
+    expect(stock).toHaveLength(1);
+    expect(parseFloat(stock[0].tonnage)).toEqual(20.15);
+
+    const auditLogs = await db.select()
+      .from(auditLogTable)
+      .where(eq(auditLogTable.table_name, 'weighbridge_tickets'))
+      .execute();
+    expect(auditLogs.map(log => log.action)).toEqual(['weighbridge_ticket_receive']);
+  });
+
+  it('should flag production typed in by hand as manual', async () => {
+    const { contractorOne, user, jetty } = await setupTestData();
+
+    const record = await createProductionRecord({
+      date_time: new Date(),
+      contractor_id: contractorOne.id,
+      truck_number: 'KT 8812 AB',
+      tonnage: 20,
+      coal_grade: 'medium',
+      jetty_id: jetty.id,
+      document_photo: null,
+      notes: null
+    }, createActor(user.id));
+
+    expect(record.tonnage_source).toEqual('manual');
+    expect(record.ticket_number).toBeNull();
+  });
+
+  it('should reject duplicate tickets and impossible weights', async () => {
+    const { contractorOne, user, jetty } = await setupTestData();
+    await receiveWeighbridgeReading(reading(jetty.id, { contractor_id: contractorOne.id }), createActor(user.id));
+
+    await expect(receiveWeighbridgeReading(reading(jetty.id), createActor(user.id)))
+      .rejects.toThrow(/WB-1001 has already been received/i);
+    await expect(receiveWeighbridgeReading(reading(jetty.id, { ticket_number: 'WB-1002', tare_weight: 32450 }), createActor(user.id)))
+      .rejects.toThrow(/must be above tare weight/i);
+
+    const records = await db.select().from(productionRecordsTable).execute();
+    expect(records).toHaveLength(1);
+  });
+
+  it('should keep a ticket without a contractor pending until an operator completes it', async () => {
+    const { contractorTwo, user, jetty } = await setupTestData();
+
+    const ticket = await receiveWeighbridgeReading(reading(jetty.id), createActor(user.id));
+    expect(ticket.status).toEqual('pending');
+    expect(ticket.pending_reason).toEqual('Contractor not identified');
+    expect(await db.select().from(productionRecordsTable).execute()).toHaveLength(0);
+
+    const record = await completeWeighbridgeTicket({
+      ticket_id: ticket.id,
+      contractor_id: contractorTwo.id,
+      document_photo: 'ticket-wb-1001.jpg',
+      notes: 'Driver forgot the contractor card'
+    }, createActor(user.id));
+
+    expect(record.tonnage).toEqual(20.15);
+    expect(record.coal_grade).toEqual('high');
+    expect(record.tonnage_source).toEqual('weighbridge');
+    expect(record.ticket_number).toEqual('WB-1001');
+
+    const [completed] = await getWeighbridgeTickets({ status: 'recorded' });
+    expect(completed.contractor_id).toEqual(contractorTwo.id);
+    expect(completed.production_record_id).toEqual(record.id);
+
+    await expect(completeWeighbridgeTicket({
+      ticket_id: ticket.id,
+      contractor_id: contractorTwo.id,
+      document_photo: null,
+      notes: null
+    }, createActor(user.id))).rejects.toThrow(/already been recorded/i);
+  });
+
+  it('should leave a ticket pending with the reason when production cannot be recorded', async () => {
+    const { contractorOne, user } = await setupTestData();
+    const smallJetty = await createJetty({ name: 'Jetty Small', code: 'JS', capacity: 15 });
+
+    const ticket = await receiveWeighbridgeReading(reading(smallJetty.id, { contractor_id: contractorOne.id }), createActor(user.id));
+    expect(ticket.status).toEqual('pending');
+    expect(ticket.pending_reason).toMatch(/capacity exceeded/i);
+
+    const record = await completeWeighbridgeTicket({
+      ticket_id: ticket.id,
+      contractor_id: contractorOne.id,
+      document_photo: null,
+      notes: null,
+      capacity_override_reason: 'Barge arriving this afternoon'
+    }, createActor(user.id));
+    expect(record.capacity_override_reason).toEqual('Barge arriving this afternoon');
+  });
+
+  it('should parse weighbridge lines', () => {
+    const receivedAt = new Date('2024-05-10T09:00:00Z');
+
+    expect(parseWeighbridgeLine('TICKET=WB-1;TRUCK=KT 1 A;GROSS=30000;TARE=10000;TIME=2024-05-10T08:00:00Z;CONTRACTOR=c001;GRADE=LOW;SEQ=7', receivedAt))
+      .toEqual({
+        ticket_number: 'WB-1',
+        truck_number: 'KT 1 A',
+        gross_weight: 30000,
+        tare_weight: 10000,
+        weighed_at: new Date('2024-05-10T08:00:00Z'),
+        contractor_code: 'c001',
+        coal_grade: 'low'
+      });
+    expect(parseWeighbridgeLine('tare=9000; gross=31000; truck=KT 2 B; ticket=WB-2', receivedAt).weighed_at).toEqual(receivedAt);
+
+    expect(() => parseWeighbridgeLine('TRUCK=KT 1 A;GROSS=30000;TARE=10000')).toThrow(/TICKET is missing/);
+    expect(() => parseWeighbridgeLine('TICKET=WB-1;TRUCK=KT 1 A;GROSS=heavy;TARE=10000')).toThrow(/GROSS is missing or not a number/);
+    expect(() => parseWeighbridgeLine('TICKET=WB-1;TRUCK=KT 1 A;GROSS=30000;TARE=10000;GRADE=premium')).toThrow(/not a coal grade/);
+    expect(() => parseWeighbridgeLine('TICKET=WB-1;TRUCK=KT 1 A;GROSS=30000;TARE=10000;TIME=yesterday')).toThrow(/not a valid timestamp/);
+    expect(() => parseWeighbridgeLine('WB-1,KT 1 A,30000,10000')).toThrow(/malformed field/i);
+  });
+
+  it('should ingest a feed line by line without one bad line holding up the rest', async () => {
+    const { contractorOne, user, jetty } = await setupTestData();
+
+    const result = await receiveWeighbridgeFeed({
+      jetty_id: jetty.id,
+      content: [
+        '# Simulator output',
+        'TICKET=WB-1;TRUCK=KT 1 A;GROSS=30000;TARE=10000;TIME=2024-05-10T08:00:00Z;CONTRACTOR=C001',
+        '',
+        'TICKET=WB-2;TRUCK=KT 2 B;GROSS=28000;TARE=10500;TIME=2024-05-10T08:20:00Z',
+        'TICKET=WB-3;TRUCK=KT 3 C;GROSS=28000;TARE=10500;CONTRACTOR=C999',
+        'TICKET=WB-1;TRUCK=KT 1 A;GROSS=30000;TARE=10000;CONTRACTOR=C001',
+        'garbage\r'
+      ].join('\n')
+    }, createActor(user.id));
+
+    expect(result.recorded).toEqual(1);
+    expect(result.pending).toEqual(1);
+    expect(result.rejected).toEqual(3);
+    expect(result.lines.map(line => [line.line_number, line.ticket_number, line.outcome])).toEqual([
+      [2, 'WB-1', 'recorded'],
+      [4, 'WB-2', 'pending'],
+      [5, 'WB-3', 'rejected'],
+      [6, 'WB-1', 'rejected'],
+      [7, null, 'rejected']
+    ]);
+    expect(result.lines[2].error).toMatch(/unknown contractor code C999/i);
+    expect(result.lines[3].error).toMatch(/already been received/i);
+    expect(result.lines[1].ticket?.raw_line).toEqual('TICKET=WB-2;TRUCK=KT 2 B;GROSS=28000;TARE=10500;TIME=2024-05-10T08:20:00Z');
+
+    const records = await db.select().from(productionRecordsTable).execute();
+    expect(records).toHaveLength(1);
+    expect(records[0].contractor_id).toEqual(contractorOne.id);
+    expect(records[0].tonnage).toEqual('20.00');
+  });
+
+  it('should limit tickets to the caller scope', async () => {
+    const { contractorOne, contractorTwo, user, jetty } = await setupTestData();
+    const other = await createJetty({ name: 'Jetty Beta', code: 'JB', capacity: 5000 });
+    const contractorScope = { unrestricted: false, grants: [{ jetty_id: jetty.id, contractor_id: contractorOne.id }] };
+
+    await receiveWeighbridgeReading(reading(jetty.id, { contractor_id: contractorOne.id }), createActor(user.id));
+    await receiveWeighbridgeReading(reading(jetty.id, { ticket_number: 'WB-1002', contractor_id: contractorTwo.id }), createActor(user.id));
+    await receiveWeighbridgeReading(reading(jetty.id, { ticket_number: 'WB-1003' }), createActor(user.id));
+
+    await expect(receiveWeighbridgeReading(reading(jetty.id, { ticket_number: 'WB-1004', contractor_id: contractorTwo.id }), createActor(user.id), contractorScope))
+      .rejects.toThrow(/does not cover jetty/i);
+    await expect(receiveWeighbridgeReading(reading(other.id, { ticket_number: 'WB-1005' }), createActor(user.id), contractorScope))
+      .rejects.toThrow(/does not cover jetty/i);
+
+    const visible = await getWeighbridgeTickets(undefined, contractorScope);
+    expect(visible.map(ticket => ticket.ticket_number).sort()).toEqual(['WB-1001', 'WB-1003']);
+  });
+});
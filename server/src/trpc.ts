@@ -0,0 +1,145 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import type { CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import superjson from 'superjson';
+import { verifyToken } from './handlers/auth';
+import { isPasswordChangeRequired } from './handlers/passwords';
+import { isTwoFactorEnrollmentRequired } from './handlers/totp';
+import { getPermissionScope, hasAnyScope } from './handlers/permissions';
+import {
+  type User,
+  type UserRole,
+  type RequestClient,
+  type RequestActor,
+  type PermissionAction
+} from './schema';
+
+export interface Context {
+  user: User | null;
+  client: RequestClient;
+}
+
+// Extract the bearer token from the Authorization header, if any
+const getBearerToken = (header: string | undefined): string | null => {
+  if (!header) return null;
+  const [scheme, token] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) return null;
+  return token;
+};
+
+// Addresses of reverse proxies whose X-Forwarded-For is believed, comma-separated. Defaults to the
+// bundled Caddy on loopback; the API port is also published directly, where the header is client-made.
+const TRUSTED_PROXIES = (process.env['TRUSTED_PROXIES'] ?? '127.0.0.1,::1')
+  .split(',')
+  .map(address => address.trim())
+  .filter(address => address.length > 0);
+
+// IPv4 clients of a dual-stack socket show up as ::ffff:a.b.c.d
+const normalizeAddress = (address: string): string => address.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+
+const isTrustedProxy = (address: string): boolean => TRUSTED_PROXIES.includes(normalizeAddress(address));
+
+// The client is the socket peer, unless that peer is a trusted proxy: then it is the nearest hop in
+// X-Forwarded-For that is not itself a trusted proxy. Hops further left were written by the client.
+const getClientInfo = (req: CreateHTTPContextOptions['req']): RequestClient => {
+  let ipAddress = req.socket?.remoteAddress ? normalizeAddress(req.socket.remoteAddress) : null;
+
+  if (ipAddress !== null && isTrustedProxy(ipAddress)) {
+    const forwardedFor = req.headers['x-forwarded-for'];
+    const hops = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor ?? '')
+      .split(',')
+      .map(normalizeAddress)
+      .filter(hop => hop.length > 0);
+
+    while (hops.length > 0) {
+      ipAddress = hops.pop()!;
+      if (!isTrustedProxy(ipAddress)) {
+        break;
+      }
+    }
+  }
+
+  return {
+    ip_address: ipAddress,
+    user_agent: req.headers['user-agent'] || null
+  };
+};
+
+export async function createContext({ req }: CreateHTTPContextOptions): Promise<Context> {
+  const client = getClientInfo(req);
+
+  const token = getBearerToken(req.headers.authorization);
+  if (!token) {
+    return { user: null, client };
+  }
+
+  // verifyToken returns null for invalid/expired tokens and inactive users
+  const user = await verifyToken(token);
+  return { user, client };
+}
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+});
+
+export const router = t.router;
+export const createCallerFactory = t.createCallerFactory;
+
+export const publicProcedure = t.procedure;
+
+// Requires a valid access token and exposes the acting user to handlers.
+// Still allowed while a password change or 2FA enrollment is pending, so only use it for
+// password, two-factor and session endpoints.
+export const authenticatedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  const actor: RequestActor = {
+    user_id: ctx.user.id,
+    ...ctx.client
+  };
+
+  return next({ ctx: { ...ctx, user: ctx.user, actor } });
+});
+
+// Authenticated, with a current password (not temporary or expired) and 2FA enrolled where the role requires it
+export const protectedProcedure = authenticatedProcedure.use(({ ctx, next }) => {
+  if (isPasswordChangeRequired(ctx.user)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Password change required' });
+  }
+
+  if (isTwoFactorEnrollmentRequired(ctx.user)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Two-factor enrollment required' });
+  }
+
+  return next();
+});
+
+// Requires a valid access token belonging to one of the given roles
+export const roleProcedure = (...roles: UserRole[]) => protectedProcedure.use(({ ctx, next }) => {
+  if (!roles.includes(ctx.user.role)) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: `Role '${ctx.user.role}' is not allowed to perform this action`
+    });
+  }
+
+  return next();
+});
+
+// User and master-data administration stays role based
+export const adminProcedure = roleProcedure('admin');
+
+// Requires the action somewhere in the caller's scope and exposes that scope to handlers,
+// which filter lists and check the target jetty/contractor of writes against it
+export const permissionProcedure = (action: PermissionAction) => protectedProcedure.use(async ({ ctx, next }) => {
+  const scope = await getPermissionScope(ctx.user, action);
+  if (!hasAnyScope(scope)) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: `Missing permission '${action}'`
+    });
+  }
+
+  return next({ ctx: { ...ctx, scope } });
+});